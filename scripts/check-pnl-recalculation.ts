@@ -9,12 +9,22 @@
  * 3. Разница между старой и новой логикой расчета PnL
  * 4. Итоговое влияние на статистику
  * 
+ * Режим --costs: модель издержек (комиссии, проскальзывание стопов, фандинг) для истории
+ * - gross pnl_r не меняется, net_pnl_r = pnl_r − издержки
+ * - доля, закрытая по TP до выхода, восстанавливается по time_to_tp*_min / be_activated
+ * - TIMEOUT: цена выхода не хранится, комиссия выхода считается по цене входа
+ * - без --apply только показывает итоги (dry run)
+ * 
  * Использование:
  *   tsx scripts/check-pnl-recalculation.ts
+ *   tsx scripts/check-pnl-recalculation.ts --costs [--apply]
  */
 
-import { signalDB } from '../src/mastra/storage/db';
-import { calculateTradeOutcome } from '../src/utils/tradeOutcomes';
+import { db, signalDB } from '../src/mastra/storage/db';
+import { signals, type Signal } from '../src/mastra/storage/schema';
+import { ne } from 'drizzle-orm';
+import { calculatePartialClosedPercent, calculateTradeOutcome, getSignalStrategyParams } from '../src/utils/tradeOutcomes';
+import { getExecutionCostConfig, getSignalCostContext, netPnlFields } from '../src/utils/executionCosts';
 
 interface PnLComparison {
   signalId: number;
@@ -106,6 +116,7 @@ async function analyzePnLRecalculation() {
       tp2Price: signal.tp2Price,
       slPrice: signal.slPrice,
       currentSl: signal.currentSl,  // ✅ Теперь используется currentSl
+      trailingMode: signal.trailingMode,
     });
 
     const newPnL = outcome.pnl;
@@ -192,7 +203,78 @@ async function analyzePnLRecalculation() {
   console.log('   уже отображает правильные значения без миграции БД.\n');
 }
 
-analyzePnLRecalculation()
+/**
+ * Доля позиции, закрытая по TP до финального выхода (partial_closed после выхода = 100)
+ */
+function closedBeforeExit(signal: Signal): number {
+  const { customPercents } = getSignalStrategyParams(signal);
+  if (signal.status === 'TP1_HIT' || signal.status === 'TP2_HIT' || signal.status === 'TP3_HIT') {
+    return parseFloat(signal.partialClosed || '0');
+  }
+  if (signal.timeToTp2Min !== null) return calculatePartialClosedPercent('TP2_HIT', 0, customPercents);
+  if (signal.timeToTp1Min !== null || signal.beActivated) return calculatePartialClosedPercent('TP1_HIT', 0, customPercents);
+  return 0;
+}
+
+async function applyCostModel(apply: boolean) {
+  const config = getExecutionCostConfig();
+  console.log(`💸 Модель издержек: taker ${config.takerFeeRate}, maker ${config.makerFeeRate}, slippage ${config.slippageMode === 'atr' ? `${config.slippageAtrFraction}×ATR` : `${config.slippageBps}bps`}, funding ${config.fundingRate8h}/8h`);
+  console.log(apply ? '✍️  Режим --apply: net_pnl_* будут записаны\n' : '👀 Dry run (добавьте --apply для записи)\n');
+
+  const closedSignals = await db.select().from(signals).where(ne(signals.status, 'OPEN'));
+  let grossR = 0;
+  let netR = 0;
+  let feesR = 0;
+  let slippageR = 0;
+  let fundingR = 0;
+
+  for (const signal of closedSignals) {
+    const { customPercents, actualTpR } = getSignalStrategyParams(signal);
+    const outcome = calculateTradeOutcome({
+      status: signal.status,
+      direction: signal.direction,
+      entryPrice: signal.entryPrice,
+      tp1Price: signal.tp1Price || undefined,
+      tp2Price: signal.tp2Price,
+      tp3Price: signal.tp3Price || undefined,
+      slPrice: signal.slPrice,
+      currentSl: signal.currentSl,
+      partialClosed: closedBeforeExit(signal),
+      trailingMode: signal.trailingMode,
+      customPercents,
+      actualTpR,
+      costs: getSignalCostContext(signal, signal.updatedAt.getTime(), config),
+    });
+
+    // Stored gross PnL stays the reference (TIMEOUT exit price is not stored)
+    const storedR = signal.pnlR !== null ? parseFloat(signal.pnlR) : outcome.pnlR;
+    const risk = Math.abs(parseFloat(signal.entryPrice) - parseFloat(signal.slPrice));
+    const netPnlR = storedR - outcome.costs.totalR;
+    const net = { netPnlR, netPnl: netPnlR * risk / parseFloat(signal.entryPrice) * 100, costs: outcome.costs };
+
+    grossR += storedR;
+    netR += netPnlR;
+    feesR += outcome.costs.feesR;
+    slippageR += outcome.costs.slippageR;
+    fundingR += outcome.costs.fundingR;
+
+    if (apply) {
+      await signalDB.updateSignalMetrics(signal.id, netPnlFields(net));
+    }
+  }
+
+  console.log(`📊 Закрытых сигналов: ${closedSignals.length}`);
+  console.log(`   Gross: ${grossR.toFixed(2)}R`);
+  console.log(`   Комиссии: -${feesR.toFixed(2)}R | Проскальзывание: -${slippageR.toFixed(2)}R | Фандинг: ${fundingR >= 0 ? '-' : '+'}${Math.abs(fundingR).toFixed(2)}R`);
+  console.log(`   Net: ${netR.toFixed(2)}R`);
+  console.log(apply ? '\n✅ net_pnl_* обновлены' : '\n✅ Dry run завершен');
+}
+
+const main = process.argv.includes('--costs')
+  ? () => applyCostModel(process.argv.includes('--apply'))
+  : analyzePnLRecalculation;
+
+main()
   .then(() => process.exit(0))
   .catch((error) => {
     console.error('❌ Ошибка:', error);
@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test runner (npm test): every tests/*.test.ts in its own process, one after another
+ *
+ * Each file exits 1 on a failed test (tests/harness.ts); the runner prints a per-file summary and
+ * exits 1 if any file failed, crashed or ran longer than TEST_TIMEOUT_MS.
+ *
+ * Использование:
+ *   npm test
+ *   tsx scripts/run-tests.ts [filter]   # only files whose name contains filter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const TESTS_DIR = path.resolve('tests');
+const TEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+function main() {
+  const filter = process.argv[2];
+  const files = fs.readdirSync(TESTS_DIR)
+    .filter(file => file.endsWith('.test.ts') && (!filter || file.includes(filter)))
+    .sort();
+
+  if (files.length === 0) {
+    console.error(`❌ [Tests] No test files${filter ? ` matching "${filter}"` : ''} in ${TESTS_DIR}`);
+    process.exit(1);
+  }
+
+  const failed: string[] = [];
+  for (const file of files) {
+    console.log(`\n▶️ [Tests] ${file}`);
+    const result = spawnSync(process.execPath, ['--import', 'tsx', path.join(TESTS_DIR, file)], {
+      stdio: 'inherit',
+      timeout: TEST_TIMEOUT_MS,
+    });
+
+    if (result.status !== 0) {
+      const reason = result.error ? result.error.message : result.signal ? `killed (${result.signal})` : `exit ${result.status}`;
+      console.log(`❌ [Tests] ${file}: ${reason}`);
+      failed.push(file);
+    }
+  }
+
+  console.log(`\n📊 [Tests] ${files.length - failed.length}/${files.length} files passed`);
+  if (failed.length > 0) {
+    console.log(`❌ [Tests] Failed: ${failed.join(', ')}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -5,6 +5,7 @@ import { createOpenAI } from "@ai-sdk/openai";
 import { statisticsTool } from "../tools/statisticsTool";
 import { statusTool } from "../tools/statusTool";
 import { helpTool } from "../tools/helpTool";
+import { accountTool } from "../tools/accountTool";
 
 const openai = createOpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || undefined,
@@ -20,6 +21,7 @@ export const cryptoPatternAgent = new Agent({
 - /start или "привет" - приветствие и краткая информация
 - /stats или "статистика" - детальная статистика по сигналам
 - /status - текущий статус сканера и расписание
+- /account или "счёт" - виртуальный счёт (paper trading): баланс, просадка, открытые позиции
 - /help или "помощь" - список команд и возможностей
 
 Когда пользователь запрашивает статистику (/stats):
@@ -31,6 +33,10 @@ export const cryptoPatternAgent = new Agent({
 1. Используй инструмент get-status
 2. Покажи текущий статус, расписание сканов и настройки трекинга
 
+Когда пользователь запрашивает счёт (/account):
+1. Используй инструмент get-account
+2. Покажи баланс, доходность, комиссии, максимальную и текущую просадку, открытые позиции и риск
+
 Когда пользователь запрашивает помощь (/help):
 1. Используй инструмент get-help
 2. Покажи список команд и возможностей бота
@@ -42,6 +48,7 @@ export const cryptoPatternAgent = new Agent({
     statisticsTool,
     statusTool,
     helpTool,
+    accountTool,
   },
   memory: new Memory({
     options: {
@@ -16,6 +16,7 @@ import { scheduler } from "../services/scheduler";
 import { statisticsTool } from "./tools/statisticsTool";
 import { statusTool } from "./tools/statusTool";
 import { helpTool } from "./tools/helpTool";
+import { accountTool } from "./tools/accountTool";
 import { telegramBot } from "../utils/telegramBot";
 
 class ProductionPinoLogger extends MastraLogger {
@@ -67,7 +68,7 @@ export const mastra = new Mastra({
     allTools: new MCPServer({
       name: "allTools",
       version: "1.0.0",
-      tools: { statisticsTool, statusTool, helpTool },
+      tools: { statisticsTool, statusTool, helpTool, accountTool },
     }),
   },
   bundler: {
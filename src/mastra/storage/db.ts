@@ -1,5 +1,5 @@
 import { drizzle } from 'drizzle-orm/node-postgres';
-import { eq, and, or, sql } from 'drizzle-orm';
+import { eq, and, or, sql, desc, gte, lte, lt, ne, isNotNull, inArray } from 'drizzle-orm';
 import { Pool } from 'pg';
 import { 
   signals, 
@@ -7,8 +7,17 @@ import {
   shadowEvaluations,
   tracking1mShadow,
   parquetExports,
+  klines,
+  signalSlMoves,
+  paperPositions,
+  paperLedger,
+  pendingSignals,
+  trackedZones,
+  zoneTouches,
   type Signal, 
   type NewSignal,
+  type SignalSlMove,
+  type NewSignalSlMove,
   type NearMissSkip,
   type NewNearMissSkip,
   type ShadowEvaluation,
@@ -17,6 +26,16 @@ import {
   type NewTracking1mShadow,
   type ParquetExport,
   type NewParquetExport,
+  type Kline,
+  type NewKline,
+  type PaperPosition,
+  type NewPaperPosition,
+  type PaperLedgerEntry,
+  type NewPaperLedgerEntry,
+  type PendingSignal,
+  type NewPendingSignal,
+  type TrackedZone,
+  type NewTrackedZone,
 } from './schema';
 import { calculateTradeOutcome } from '../../utils/tradeOutcomes';
 
@@ -26,6 +45,16 @@ const pool = new Pool({
 
 export const db = drizzle(pool);
 
+// Активные сигналы (ведёт трекер): OPEN + TP1_HIT/TP2_HIT с трейлингом, как isTrackedStatus
+const activeSignalStatus = () => or(
+  eq(signals.status, 'OPEN'),
+  and(
+    or(eq(signals.status, 'TP1_HIT'), eq(signals.status, 'TP2_HIT')),
+    isNotNull(signals.trailingMode),
+    ne(signals.trailingMode, 'none')
+  )
+);
+
 export class SignalDB {
   async createSignal(signal: NewSignal): Promise<Signal> {
     const [newSignal] = await db.insert(signals).values(signal).returning();
@@ -37,11 +66,89 @@ export class SignalDB {
     return await db.select().from(signals).where(eq(signals.status, 'OPEN'));
   }
 
+  /**
+   * Сигналы, которые ведёт трекер: OPEN + TP1_HIT/TP2_HIT с трейлингом
+   * (остаток позиции после частичного закрытия идёт с подтянутым SL)
+   */
+  async getActiveSignals(): Promise<Signal[]> {
+    return await db.select().from(signals).where(activeSignalStatus());
+  }
+
+  /**
+   * Trailing SL move: new currentSl + trailingActivated, move recorded in signal_sl_moves
+   */
+  async updateTrailingStop(id: number, previousSl: string, newSl: string, reason: string, lockedR: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(signals)
+        .set({ currentSl: newSl, trailingActivated: true, updatedAt: new Date() })
+        .where(eq(signals.id, id));
+      await tx.insert(signalSlMoves).values({
+        signalId: id,
+        previousSl,
+        newSl,
+        reason,
+        lockedR: lockedR.toFixed(4),
+      });
+    });
+    console.log(`🔄 [SignalDB] Signal ${id} trailing SL (${reason}): ${previousSl} → ${newSl} (${lockedR.toFixed(2)}R)`);
+  }
+
+  /**
+   * Tracker metrics: last processed 1m candle, time-to-target stamps, net PnL after costs
+   */
+  async updateSignalMetrics(
+    id: number,
+    metrics: Partial<Pick<NewSignal,
+      'lastProcessedMinute' | 'timeToTp1Min' | 'timeToTp2Min' | 'timeToTp3Min' | 'timeToSlMin' | 'timeToBeMin' | 'firstTouch'
+      | 'netPnlR' | 'netPnlPercent' | 'feesR' | 'slippageR' | 'fundingR' | 'ambiguityEvents'
+    >>
+  ): Promise<void> {
+    if (Object.keys(metrics).length === 0) return;
+    await db.update(signals)
+      .set(metrics)
+      .where(eq(signals.id, id));
+  }
+
+  /**
+   * Running MFE/MAE in R: only extends the stored values (tick cache and REST replay may write out of order)
+   */
+  async recordExcursion(id: number, mfeR: number, maeR: number): Promise<void> {
+    await db.update(signals)
+      .set({
+        mfeR: sql`GREATEST(COALESCE(${signals.mfeR}, 0), ${mfeR.toFixed(4)})`,
+        maeR: sql`LEAST(COALESCE(${signals.maeR}, 0), ${maeR.toFixed(4)})`,
+      })
+      .where(eq(signals.id, id));
+  }
+
+  /**
+   * Tracker progress for signals tracked by the tick stream; progress only moves forward
+   */
+  async markProcessedUntil(ids: number[], openTime: number): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(signals)
+      .set({ lastProcessedMinute: sql`GREATEST(COALESCE(${signals.lastProcessedMinute}, 0), ${openTime})` })
+      .where(inArray(signals.id, ids));
+  }
+
+  async recordSlMove(move: NewSignalSlMove): Promise<void> {
+    await db.insert(signalSlMoves).values(move);
+  }
+
+  async getSlMoves(signalId: number): Promise<SignalSlMove[]> {
+    return await db.select().from(signalSlMoves)
+      .where(eq(signalSlMoves.signalId, signalId))
+      .orderBy(signalSlMoves.createdAt);
+  }
+
+  /**
+   * Есть ли у монеты активный сигнал (OPEN или трейлинг-остаток после TP1/TP2, как getActiveSignals)
+   */
   async hasOpenSignal(symbol: string): Promise<boolean> {
     const openSignals = await db.select().from(signals)
       .where(and(
         eq(signals.symbol, symbol),
-        eq(signals.status, 'OPEN')
+        activeSignalStatus()
       ));
     return openSignals.length > 0;
   }
@@ -76,11 +183,24 @@ export class SignalDB {
     return openSignals.length;
   }
 
+  /**
+   * Sum of pnl_r of signals that left OPEN since the given time (circuit breaker)
+   */
+  async getRealizedPnlRSince(since: Date): Promise<number> {
+    const [row] = await db.select({ total: sql<string | null>`SUM(${signals.pnlR})` }).from(signals)
+      .where(and(
+        ne(signals.status, 'OPEN'),
+        isNotNull(signals.pnlR),
+        gte(signals.updatedAt, since)
+      ));
+    return row?.total ? parseFloat(row.total) : 0;
+  }
+
   /**
    * Update signal status with partial close tracking
    * 
    * @param id - Signal ID
-   * @param status - New status (TP1_HIT, TP2_HIT, TP3_HIT, SL_HIT, BE_HIT)
+   * @param status - New status (TP1_HIT, TP2_HIT, TP3_HIT, SL_HIT, BE_HIT, TIMEOUT)
    * @param currentSl - Optional: Updated stop loss (for BE tracking)
    * @param partialClosed - Optional: Percentage of position closed (0-100)
    * @param beActivated - Optional: Flag indicating breakeven is activated
@@ -89,12 +209,13 @@ export class SignalDB {
    */
   async updateSignalStatus(
     id: number, 
-    status: 'TP1_HIT' | 'TP2_HIT' | 'TP3_HIT' | 'SL_HIT' | 'BE_HIT',
+    status: 'TP1_HIT' | 'TP2_HIT' | 'TP3_HIT' | 'SL_HIT' | 'BE_HIT' | 'TIMEOUT',
     currentSl?: string,
     partialClosed?: number,
     beActivated?: boolean,
     pnlR?: number,
-    pnlPercent?: number
+    pnlPercent?: number,
+    exitType?: string
   ): Promise<void> {
     console.log(`📝 [SignalDB] Updating signal ${id}:`, {
       status,
@@ -140,8 +261,9 @@ export class SignalDB {
     }
 
     // Set exit type (always set since this function only called on status change to closing status)
-    updates.exitType = status;
-    console.log(`🚪 [SignalDB] Setting exitType: ${status}`);
+    // Trailed stop exits are stored as TRAILING_STOP (status stays SL_HIT/BE_HIT)
+    updates.exitType = exitType ?? status;
+    console.log(`🚪 [SignalDB] Setting exitType: ${updates.exitType}`);
 
     await db.update(signals).set(updates).where(eq(signals.id, id));
     console.log(`✅ [SignalDB] Signal ${id} updated successfully`);
@@ -151,6 +273,12 @@ export class SignalDB {
     await db.update(signals).set({ telegramMessageId }).where(eq(signals.id, id));
   }
 
+  async getSignalsByDate(date: string): Promise<Signal[]> {
+    return await db.select().from(signals)
+      .where(sql`DATE(${signals.createdAt}) = ${date}`)
+      .orderBy(signals.createdAt);
+  }
+
   async getStatistics() {
     const allSignals = await db.select().from(signals);
     
@@ -164,16 +292,26 @@ export class SignalDB {
       tp3Hit: 0,
       breakevenHit: 0,
       slHit: 0,
+      timeoutHit: 0,
       pnlPositive: 0,
       pnlNegative: 0,
       pnlNet: 0,
       pnlRNet: 0, // NEW: Net PnL in R units
+      // After execution costs (net_pnl_* columns; signals without them count gross, see withoutCostModel)
+      pnlAfterCosts: 0,
+      pnlRAfterCosts: 0,
+      feesR: 0,
+      slippageR: 0,
+      fundingR: 0,
+      withoutCostModel: 0,
       byPattern: {} as any,
       byTimeframe: {} as any,
       byDirection: { 
-        LONG: { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0 }, 
-        SHORT: { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0 } 
+        LONG: { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, timeout: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0, pnlRAfterCosts: 0 }, 
+        SHORT: { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, timeout: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0, pnlRAfterCosts: 0 } 
       },
+      // Same-candle SL/TP resolution policy the signal was tracked with (null = legacy → optimistic)
+      byAmbiguityPolicy: {} as any,
     };
 
     allSignals.forEach((signal) => {
@@ -181,6 +319,9 @@ export class SignalDB {
       // This ensures we use the exact partial close calculations from when the signal closed
       const pnl = signal.pnlPercent ? parseFloat(signal.pnlPercent) : 0;
       const pnlR = signal.pnlR ? parseFloat(signal.pnlR) : 0;
+      const hasCosts = signal.netPnlR !== null;
+      const netPnl = hasCosts && signal.netPnlPercent !== null ? parseFloat(signal.netPnlPercent) : pnl;
+      const netPnlR = hasCosts ? parseFloat(signal.netPnlR!) : pnlR;
       
       console.log(`📈 [SignalDB] Signal ${signal.id} (${signal.status}): pnl=${pnl.toFixed(4)}%, pnlR=${pnlR.toFixed(4)}R`);
 
@@ -197,6 +338,8 @@ export class SignalDB {
         stats.breakevenHit++;
       } else if (signal.status === 'SL_HIT') {
         stats.slHit++;
+      } else if (signal.status === 'TIMEOUT') {
+        stats.timeoutHit++;
       }
 
       // Общий PnL (percentage and R units)
@@ -207,10 +350,19 @@ export class SignalDB {
       }
       stats.pnlNet += pnl;
       stats.pnlRNet += pnlR; // NEW: Aggregate R units
+      stats.pnlAfterCosts += netPnl;
+      stats.pnlRAfterCosts += netPnlR;
+      if (hasCosts) {
+        stats.feesR += parseFloat(signal.feesR ?? '0');
+        stats.slippageR += parseFloat(signal.slippageR ?? '0');
+        stats.fundingR += parseFloat(signal.fundingR ?? '0');
+      } else if (signal.status !== 'OPEN') {
+        stats.withoutCostModel++;
+      }
 
       // По паттернам
       if (!stats.byPattern[signal.patternType]) {
-        stats.byPattern[signal.patternType] = { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, open: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0 };
+        stats.byPattern[signal.patternType] = { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, timeout: 0, open: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0, pnlRAfterCosts: 0 };
       }
       stats.byPattern[signal.patternType].total++;
       if (signal.status === 'TP1_HIT') stats.byPattern[signal.patternType].tp1++;
@@ -218,6 +370,7 @@ export class SignalDB {
       if (signal.status === 'TP3_HIT') stats.byPattern[signal.patternType].tp3++;
       if (signal.status === 'BE_HIT') stats.byPattern[signal.patternType].breakeven++;
       if (signal.status === 'SL_HIT') stats.byPattern[signal.patternType].sl++;
+      if (signal.status === 'TIMEOUT') stats.byPattern[signal.patternType].timeout++;
       if (signal.status === 'OPEN') stats.byPattern[signal.patternType].open++;
       
       if (pnl > 0) {
@@ -227,10 +380,11 @@ export class SignalDB {
       }
       stats.byPattern[signal.patternType].pnlNet += pnl;
       stats.byPattern[signal.patternType].pnlRNet += pnlR; // NEW: Aggregate R units
+      stats.byPattern[signal.patternType].pnlRAfterCosts += netPnlR;
 
       // По таймфреймам
       if (!stats.byTimeframe[signal.timeframe]) {
-        stats.byTimeframe[signal.timeframe] = { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, open: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0 };
+        stats.byTimeframe[signal.timeframe] = { total: 0, tp1: 0, tp2: 0, tp3: 0, breakeven: 0, sl: 0, timeout: 0, open: 0, pnlPositive: 0, pnlNegative: 0, pnlNet: 0, pnlRNet: 0, pnlRAfterCosts: 0 };
       }
       stats.byTimeframe[signal.timeframe].total++;
       if (signal.status === 'TP1_HIT') stats.byTimeframe[signal.timeframe].tp1++;
@@ -238,6 +392,7 @@ export class SignalDB {
       if (signal.status === 'TP3_HIT') stats.byTimeframe[signal.timeframe].tp3++;
       if (signal.status === 'BE_HIT') stats.byTimeframe[signal.timeframe].breakeven++;
       if (signal.status === 'SL_HIT') stats.byTimeframe[signal.timeframe].sl++;
+      if (signal.status === 'TIMEOUT') stats.byTimeframe[signal.timeframe].timeout++;
       if (signal.status === 'OPEN') stats.byTimeframe[signal.timeframe].open++;
       
       if (pnl > 0) {
@@ -247,6 +402,7 @@ export class SignalDB {
       }
       stats.byTimeframe[signal.timeframe].pnlNet += pnl;
       stats.byTimeframe[signal.timeframe].pnlRNet += pnlR; // NEW: Aggregate R units
+      stats.byTimeframe[signal.timeframe].pnlRAfterCosts += netPnlR;
 
       // По направлениям
       stats.byDirection[signal.direction].total++;
@@ -255,6 +411,7 @@ export class SignalDB {
       if (signal.status === 'TP3_HIT') stats.byDirection[signal.direction].tp3++;
       if (signal.status === 'BE_HIT') stats.byDirection[signal.direction].breakeven++;
       if (signal.status === 'SL_HIT') stats.byDirection[signal.direction].sl++;
+      if (signal.status === 'TIMEOUT') stats.byDirection[signal.direction].timeout++;
       
       if (pnl > 0) {
         stats.byDirection[signal.direction].pnlPositive += pnl;
@@ -263,6 +420,19 @@ export class SignalDB {
       }
       stats.byDirection[signal.direction].pnlNet += pnl;
       stats.byDirection[signal.direction].pnlRNet += pnlR; // NEW: Aggregate R units
+      stats.byDirection[signal.direction].pnlRAfterCosts += netPnlR;
+
+      // По политике SL/TP в одной свече
+      const policy = signal.ambiguityPolicy ?? 'optimistic';
+      if (!stats.byAmbiguityPolicy[policy]) {
+        stats.byAmbiguityPolicy[policy] = { total: 0, closed: 0, wins: 0, ambiguous: 0, pnlRNet: 0, pnlRAfterCosts: 0 };
+      }
+      stats.byAmbiguityPolicy[policy].total++;
+      if (signal.status !== 'OPEN') stats.byAmbiguityPolicy[policy].closed++;
+      if (signal.status !== 'OPEN' && pnlR > 0) stats.byAmbiguityPolicy[policy].wins++;
+      if ((signal.ambiguityEvents ?? 0) > 0) stats.byAmbiguityPolicy[policy].ambiguous++;
+      stats.byAmbiguityPolicy[policy].pnlRNet += pnlR;
+      stats.byAmbiguityPolicy[policy].pnlRAfterCosts += netPnlR;
     });
 
     return stats;
@@ -359,10 +529,11 @@ export class ShadowEvaluationDB {
 
   async completeShadowEvaluation(
     id: number, 
-    outcome: 'tp1' | 'tp2' | 'sl' | 'timeout',
+    outcome: 'tp1' | 'tp2' | 'tp3' | 'sl' | 'timeout',
     mfeR: number,
     maeR: number,
-    timeToFirstTouchMin: number
+    timeToFirstTouchMin: number | null,
+    pnlR: number | null = null
   ): Promise<void> {
     await db.update(shadowEvaluations)
       .set({
@@ -370,6 +541,7 @@ export class ShadowEvaluationDB {
         shadowMfeR: mfeR.toFixed(4),
         shadowMaeR: maeR.toFixed(4),
         shadowTimeToFirstTouchMin: timeToFirstTouchMin,
+        shadowPnlR: pnlR !== null ? pnlR.toFixed(4) : null,
         isActive: false,
         completedAt: new Date(),
       })
@@ -446,14 +618,33 @@ export class ParquetExportDB {
       .where(eq(parquetExports.exportDate, date));
   }
 
-  async hasExportForDate(date: string, exportType: string): Promise<boolean> {
+  /**
+   * With schemaVersion: only exports written with that version count (older ones get re-exported)
+   */
+  async hasExportForDate(date: string, exportType: string, schemaVersion?: number): Promise<boolean> {
     const exports = await db.select().from(parquetExports)
       .where(and(
         eq(parquetExports.exportDate, date),
-        eq(parquetExports.exportType, exportType)
+        eq(parquetExports.exportType, exportType),
+        schemaVersion !== undefined ? eq(parquetExports.schemaVersion, schemaVersion) : undefined
       ));
     return exports.length > 0;
   }
+
+  /**
+   * Record a partition export, replacing earlier records for the same date/type (partition file is overwritten)
+   */
+  async replaceExport(exportRecord: NewParquetExport): Promise<ParquetExport> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(parquetExports)
+        .where(and(
+          eq(parquetExports.exportDate, exportRecord.exportDate),
+          eq(parquetExports.exportType, exportRecord.exportType)
+        ));
+      const [record] = await tx.insert(parquetExports).values(exportRecord).returning();
+      return record;
+    });
+  }
 }
 
 /**
@@ -471,8 +662,299 @@ export class Tracking1mShadowDB {
   }
 }
 
+/**
+ * Database operations for the local kline store
+ */
+export class KlineDB {
+  /**
+   * Insert candles, overwriting existing rows with the same (symbol, interval, openTime)
+   */
+  async upsertKlines(rows: NewKline[]): Promise<void> {
+    const CHUNK_SIZE = 1000;
+    for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+      await db.insert(klines).values(rows.slice(i, i + CHUNK_SIZE))
+        .onConflictDoUpdate({
+          target: [klines.venue, klines.symbol, klines.interval, klines.openTime],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+            closeTime: sql`excluded.close_time`,
+          },
+        });
+    }
+  }
+
+  /**
+   * Last `limit` candles, oldest first
+   */
+  async getLatestKlines(venue: string, symbol: string, interval: string, limit: number): Promise<Kline[]> {
+    const rows = await db.select().from(klines)
+      .where(and(eq(klines.venue, venue), eq(klines.symbol, symbol), eq(klines.interval, interval)))
+      .orderBy(desc(klines.openTime))
+      .limit(limit);
+    return rows.reverse();
+  }
+
+  /**
+   * Candles with openTime in [from, to], oldest first
+   */
+  async getKlinesRange(venue: string, symbol: string, interval: string, from?: number, to?: number): Promise<Kline[]> {
+    const conditions = [eq(klines.venue, venue), eq(klines.symbol, symbol), eq(klines.interval, interval)];
+    if (from !== undefined) conditions.push(gte(klines.openTime, from));
+    if (to !== undefined) conditions.push(lte(klines.openTime, to));
+
+    return await db.select().from(klines)
+      .where(and(...conditions))
+      .orderBy(klines.openTime);
+  }
+
+  async getSyncState(venue: string, symbol: string, interval: string): Promise<{ count: number; lastOpenTime: number | null }> {
+    const [row] = await db.select({
+      count: sql<number>`count(*)::int`,
+      lastOpenTime: sql<string | null>`max(${klines.openTime})`,
+    }).from(klines)
+      .where(and(eq(klines.venue, venue), eq(klines.symbol, symbol), eq(klines.interval, interval)));
+
+    return {
+      count: row?.count || 0,
+      lastOpenTime: row?.lastOpenTime != null ? Number(row.lastOpenTime) : null,
+    };
+  }
+
+  async getStoredSymbols(venue: string): Promise<string[]> {
+    const rows = await db.selectDistinct({ symbol: klines.symbol }).from(klines)
+      .where(eq(klines.venue, venue))
+      .orderBy(klines.symbol);
+    return rows.map(r => r.symbol);
+  }
+
+  async deleteKlinesBefore(venue: string, symbol: string, interval: string, openTime: number): Promise<void> {
+    await db.delete(klines)
+      .where(and(
+        eq(klines.venue, venue),
+        eq(klines.symbol, symbol),
+        eq(klines.interval, interval),
+        lt(klines.openTime, openTime)
+      ));
+  }
+}
+
+/**
+ * Database operations for the paper-trading account
+ */
+export class PaperAccountDB {
+  async getLastLedgerEntry(): Promise<PaperLedgerEntry | null> {
+    const [entry] = await db.select().from(paperLedger)
+      .orderBy(desc(paperLedger.id))
+      .limit(1);
+    return entry || null;
+  }
+
+  async getLedger(since?: Date): Promise<PaperLedgerEntry[]> {
+    return await db.select().from(paperLedger)
+      .where(since ? gte(paperLedger.createdAt, since) : undefined)
+      .orderBy(paperLedger.id);
+  }
+
+  async addLedgerEntry(entry: NewPaperLedgerEntry): Promise<PaperLedgerEntry> {
+    const [created] = await db.insert(paperLedger).values(entry).returning();
+    return created;
+  }
+
+  async getPosition(signalId: number): Promise<PaperPosition | null> {
+    const [position] = await db.select().from(paperPositions)
+      .where(eq(paperPositions.signalId, signalId));
+    return position || null;
+  }
+
+  async getOpenPositions(): Promise<PaperPosition[]> {
+    return await db.select().from(paperPositions)
+      .where(eq(paperPositions.status, 'OPEN'))
+      .orderBy(paperPositions.openedAt);
+  }
+
+  async getClosedPositionsCount(): Promise<{ total: number; wins: number }> {
+    const [row] = await db.select({
+      total: sql<number>`count(*)::int`,
+      wins: sql<number>`count(*) filter (where ${paperPositions.realizedPnl} - ${paperPositions.fees} > 0)::int`,
+    }).from(paperPositions)
+      .where(eq(paperPositions.status, 'CLOSED'));
+    return { total: row?.total || 0, wins: row?.wins || 0 };
+  }
+
+  /**
+   * New position + its OPEN fill in one transaction
+   */
+  async openPosition(position: NewPaperPosition, entry: NewPaperLedgerEntry): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.insert(paperPositions).values(position);
+      await tx.insert(paperLedger).values(entry);
+    });
+  }
+
+  /**
+   * Exit fills of one status change + updated position in one transaction
+   */
+  async recordExits(signalId: number, update: Partial<NewPaperPosition>, entries: NewPaperLedgerEntry[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(paperPositions)
+        .set(update)
+        .where(eq(paperPositions.signalId, signalId));
+      if (entries.length > 0) {
+        await tx.insert(paperLedger).values(entries);
+      }
+    });
+  }
+}
+
+/**
+ * Database operations for patterns waiting for confirmation (PENDING_CONFIRMATION)
+ */
+export class PendingSignalDB {
+  async createPending(pending: NewPendingSignal): Promise<PendingSignal> {
+    const [created] = await db.insert(pendingSignals).values(pending).returning();
+    return created;
+  }
+
+  async getPending(): Promise<PendingSignal[]> {
+    return await db.select().from(pendingSignals)
+      .where(eq(pendingSignals.status, 'PENDING_CONFIRMATION'))
+      .orderBy(pendingSignals.createdAt);
+  }
+
+  /**
+   * Resting limit entries not filled / cancelled yet (SignalTracker fill simulation)
+   */
+  async getPendingEntries(): Promise<PendingSignal[]> {
+    return await db.select().from(pendingSignals)
+      .where(eq(pendingSignals.status, 'PENDING_ENTRY'))
+      .orderBy(pendingSignals.createdAt);
+  }
+
+  async hasPending(symbol: string): Promise<boolean> {
+    const [row] = await db.select({ id: pendingSignals.id }).from(pendingSignals)
+      .where(and(
+        eq(pendingSignals.symbol, symbol),
+        or(eq(pendingSignals.status, 'PENDING_CONFIRMATION'), eq(pendingSignals.status, 'PENDING_ENTRY'))
+      ))
+      .limit(1);
+    return !!row;
+  }
+
+  async updateTelegramMessageId(id: number, telegramMessageId: number): Promise<void> {
+    await db.update(pendingSignals)
+      .set({ telegramMessageId })
+      .where(eq(pendingSignals.id, id));
+  }
+
+  async resolvePending(
+    id: number,
+    status: 'CONFIRMED' | 'EXPIRED' | 'INVALIDATED' | 'BLOCKED' | 'FILLED' | 'CANCELLED',
+    signalId?: number
+  ): Promise<void> {
+    await db.update(pendingSignals)
+      .set({ status, signalId: signalId ?? null, resolvedAt: new Date() })
+      .where(eq(pendingSignals.id, id));
+  }
+}
+
+/**
+ * Database operations for tracked S/R zones and their tests (zone fatigue)
+ */
+export class ZoneTouchDB {
+  async getZones(venue: string, symbol: string, tf: string, type: string): Promise<TrackedZone[]> {
+    return await db.select().from(trackedZones)
+      .where(and(
+        eq(trackedZones.venue, venue),
+        eq(trackedZones.symbol, symbol),
+        eq(trackedZones.tf, tf),
+        eq(trackedZones.type, type)
+      ));
+  }
+
+  /**
+   * Zones seen since `since` (startup rebuild)
+   */
+  async getZonesSeenSince(venue: string, since: Date): Promise<TrackedZone[]> {
+    return await db.select().from(trackedZones)
+      .where(and(eq(trackedZones.venue, venue), gte(trackedZones.lastSeenAt, since)))
+      .orderBy(trackedZones.symbol, trackedZones.id);
+  }
+
+  async createZone(zone: NewTrackedZone): Promise<TrackedZone> {
+    const [created] = await db.insert(trackedZones).values(zone).returning();
+    return created;
+  }
+
+  async updateZone(id: number, update: Partial<NewTrackedZone>): Promise<void> {
+    await db.update(trackedZones)
+      .set(update)
+      .where(eq(trackedZones.id, id));
+  }
+
+  /**
+   * Store replayed touches (already known ones are ignored) and move the replay cursor
+   */
+  async recordTouches(zone: TrackedZone, touchedAt: number[], syncedTo: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (touchedAt.length > 0) {
+        await tx.insert(zoneTouches)
+          .values(touchedAt.map(time => ({ zoneId: zone.id, symbol: zone.symbol, touchedAt: time })))
+          .onConflictDoNothing();
+      }
+      await tx.update(trackedZones)
+        .set({ touchesSyncedTo: syncedTo })
+        .where(eq(trackedZones.id, zone.id));
+    });
+  }
+
+  async countTouches(zoneId: number, since: number): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(zoneTouches)
+      .where(and(eq(zoneTouches.zoneId, zoneId), gte(zoneTouches.touchedAt, since)));
+    return row?.count || 0;
+  }
+
+  async getTouchStats(): Promise<{ zones: number; touches: number; oldestTouch: number | null; newestTouch: number | null }> {
+    const [zonesRow] = await db.select({ count: sql<number>`count(*)::int` }).from(trackedZones);
+    const [row] = await db.select({
+      count: sql<number>`count(*)::int`,
+      oldest: sql<string | null>`min(${zoneTouches.touchedAt})`,
+      newest: sql<string | null>`max(${zoneTouches.touchedAt})`,
+    }).from(zoneTouches);
+
+    return {
+      zones: zonesRow?.count || 0,
+      touches: row?.count || 0,
+      oldestTouch: row?.oldest != null ? Number(row.oldest) : null,
+      newestTouch: row?.newest != null ? Number(row.newest) : null,
+    };
+  }
+
+  /**
+   * Drop touches older than `before` and zones not seen since `before` (with their touches)
+   */
+  async pruneBefore(before: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(zoneTouches).where(lt(zoneTouches.touchedAt, before));
+      const stale = await tx.delete(trackedZones)
+        .where(lt(trackedZones.lastSeenAt, new Date(before)))
+        .returning({ id: trackedZones.id });
+      if (stale.length > 0) {
+        await tx.delete(zoneTouches).where(inArray(zoneTouches.zoneId, stale.map(z => z.id)));
+      }
+    });
+  }
+}
+
 // Export instances
 export const nearMissSkipDB = new NearMissSkipDB();
 export const shadowEvaluationDB = new ShadowEvaluationDB();
 export const parquetExportDB = new ParquetExportDB();
 export const tracking1mShadowDB = new Tracking1mShadowDB();
+export const klineDB = new KlineDB();
+export const paperAccountDB = new PaperAccountDB();
+export const pendingSignalDB = new PendingSignalDB();
+export const zoneTouchDB = new ZoneTouchDB();
@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, decimal, pgEnum, integer, boolean, jsonb, date, varchar } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, decimal, pgEnum, integer, boolean, jsonb, date, varchar, bigint, uniqueIndex } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // Existing enums
@@ -9,7 +9,8 @@ export const signalStatusEnum = pgEnum('signal_status', [
   'TP3_HIT', 
   'SL_HIT', 
   'BE_HIT', 
-  'FAIL_SAFE'
+  'FAIL_SAFE',
+  'TIMEOUT'  // Max holding time passed, remaining position closed at market
 ]);
 export const signalDirectionEnum = pgEnum('signal_direction', ['LONG', 'SHORT']);
 
@@ -23,15 +24,16 @@ export const arrivalPatternEnum = pgEnum('arrival_pattern', ['impulse_up', 'impu
 export const confirmTypeEnum = pgEnum('confirm_type', ['bos_1m', 'bos_5m', 'rejection_15m', 'fakey_reentry', 'none']);
 export const zoneTouchBucketEnum = pgEnum('zone_touch_bucket', ['0', '1', '2', '>=3']);
 export const signalBarSizeBucketEnum = pgEnum('signal_bar_size_bucket', ['<0.15', '0.15-0.6', '0.6-1.2', '>1.2']);
-export const shadowOutcomeEnum = pgEnum('shadow_outcome', ['tp1', 'tp2', 'sl', 'timeout']);
+export const shadowOutcomeEnum = pgEnum('shadow_outcome', ['tp1', 'tp2', 'tp3', 'sl', 'timeout']);
 export const vetoReasonEnum = pgEnum('veto_reason', ['h4_res_too_close', 'h4_sup_too_close', 'h1_res_too_close', 'h1_sup_too_close', 'none']);
 export const trendAlignmentEnum = pgEnum('trend_alignment', ['with', 'against', 'neutral']);
 export const atrVolatilityEnum = pgEnum('atr_volatility', ['low', 'normal', 'high']);
-export const skipCategoryEnum = pgEnum('skip_category', ['volume', 'pattern_geometry', 'directional', 'confluence', 'rr', 'veto', 'bad_context']);
+export const skipCategoryEnum = pgEnum('skip_category', ['volume', 'pattern_geometry', 'directional', 'confluence', 'rr', 'veto', 'bad_context', 'portfolio', 'confirmation', 'entry']);
 
 // Main signals table (existing + new fields for ENTER trades)
 export const signals = pgTable('signals', {
   id: serial('id').primaryKey(),
+  venue: text('venue').default('binance').notNull(), // Exchange the signal was scanned on
   symbol: text('symbol').notNull(),
   timeframe: text('timeframe').notNull(),
   patternType: text('pattern_type').notNull(),
@@ -52,14 +54,44 @@ export const signals = pgTable('signals', {
   partialClosed: decimal('partial_closed', { precision: 5, scale: 2 }).default('0.00'),
   beActivated: boolean('be_activated').default(false),
   trailingActivated: boolean('trailing_activated').default(false),
+  trailingMode: text('trailing_mode'), // "none" | "atr" | "chandelier" | "swing" | "tp_step" (null = legacy, no trailing)
+  
+  // Position sizing (account equity × risk %, exchange filters, isolated liquidation estimate)
+  positionQty: decimal('position_qty', { precision: 28, scale: 10 }),
+  positionNotional: decimal('position_notional', { precision: 18, scale: 2 }),
+  requiredMargin: decimal('required_margin', { precision: 18, scale: 2 }),
+  leverage: decimal('leverage', { precision: 6, scale: 2 }),
+  liquidationPrice: decimal('liquidation_price', { precision: 18, scale: 8 }),
+  sizingStatus: text('sizing_status'), // "ok" | "warning" | "refused" (liquidation inside stop / below min lot)
+  sizingNote: text('sizing_note'),
+  
+  // Confirmation entry (confirmationEntry.ts): null = entered at the pattern candle close
+  confirmType: confirmTypeEnum('confirm_type'),
+  confirmWaitBars15m: integer('confirm_wait_bars_15m'), // 15m bars from the pattern close to the confirmation
+  patternClosePrice: decimal('pattern_close_price', { precision: 18, scale: 8 }), // Planned entry before confirmation / limit fill
+  
+  // Entry mode (limitEntry.ts): "market" | "limit_retrace" | "limit_zone" (null = legacy → market at the pattern close)
+  entryMode: text('entry_mode'),
+  
+  // Same-candle SL/TP ambiguity (ambiguityPolicy.ts)
+  ambiguityPolicy: text('ambiguity_policy'), // "optimistic" | "conservative" | "precise" (null = legacy → optimistic)
+  ambiguityEvents: integer('ambiguity_events').default(0), // Status changes from a range that touched both SL and a TP
   
   // Exit tracking
   exitType: text('exit_type'),
+  lastProcessedMinute: bigint('last_processed_minute', { mode: 'number' }), // openTime of the last 1m candle the tracker applied (catch-up resumes after it)
   
   // PnL tracking
   pnlR: decimal('pnl_r', { precision: 10, scale: 4 }),
   pnlPercent: decimal('pnl_percent', { precision: 10, scale: 4 }),
   
+  // Net PnL after execution costs (executionCosts.ts): fees, stop slippage, funding — all in R
+  netPnlR: decimal('net_pnl_r', { precision: 10, scale: 4 }),
+  netPnlPercent: decimal('net_pnl_percent', { precision: 10, scale: 4 }),
+  feesR: decimal('fees_r', { precision: 10, scale: 4 }),
+  slippageR: decimal('slippage_r', { precision: 10, scale: 4 }),
+  fundingR: decimal('funding_r', { precision: 10, scale: 4 }),
+  
   // ATR context
   atr15m: decimal('atr_15m', { precision: 18, scale: 8 }),
   atrH4: decimal('atr_h4', { precision: 18, scale: 8 }),
@@ -183,6 +215,7 @@ export const nearMissSkips = pgTable('near_miss_skips', {
   // Confirmation
   confirmType: confirmTypeEnum('confirm_type'),
   confirmWaitBars15m: integer('confirm_wait_bars_15m'),
+  rejectedByTrend: boolean('rejected_by_trend'), // 15m trend filter rejected the pattern, routed to confirmation (CONFIRMATION_MODE=counter_trend)
   
   // NEW: Dynamic S/R fields
   clearance15m: decimal('clearance_15m', { precision: 18, scale: 8 }),
@@ -231,6 +264,18 @@ export const nearMissSkips = pgTable('near_miss_skips', {
   confluenceDetails: jsonb('confluence_details'), // {patternQuality, atKeyZone, trendAligned, ...}
   skipCategory: text('skip_category'), // Main category of skip reason
   
+  // Unmitigated order block / fair value gap the pattern candle traded into (orderBlocks.ts, inObFvg confluence factor)
+  obFvgKind: text('ob_fvg_kind'), // "order_block" | "fvg" (null = outside both)
+  obFvgTf: text('ob_fvg_tf'), // "15m" | "1h" | "4h"
+  obFvgZones: jsonb('ob_fvg_zones'), // Unmitigated order blocks / FVGs of the 3 TFs (Zone[], kind = order_block / fvg)
+  
+  // Candidate SL/TP the skipped signal would have traded with (used by shadow replay)
+  candidatePlanSource: text('candidate_plan_source'), // 'dynamic' | 'standard' | '15m'
+  candidateSl: decimal('candidate_sl', { precision: 18, scale: 8 }),
+  candidateTp1: decimal('candidate_tp1', { precision: 18, scale: 8 }),
+  candidateTp2: decimal('candidate_tp2', { precision: 18, scale: 8 }),
+  candidateTp3: decimal('candidate_tp3', { precision: 18, scale: 8 }),
+  
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -247,6 +292,8 @@ export const shadowEvaluations = pgTable('shadow_evaluations', {
   shadowMfeR: decimal('shadow_mfe_r', { precision: 10, scale: 4 }),
   shadowMaeR: decimal('shadow_mae_r', { precision: 10, scale: 4 }),
   shadowTimeToFirstTouchMin: integer('shadow_time_to_first_touch_min'),
+  shadowPnlR: decimal('shadow_pnl_r', { precision: 10, scale: 4 }), // R at first touch (timeout: mark-to-market)
+  replayedUntil: timestamp('replayed_until'), // Next 1m candle to replay (MFE/MAE above are running values while active)
   
   // Status tracking
   isActive: boolean('is_active').default(true), // True while tracking, false after completion
@@ -264,6 +311,17 @@ export const tracking1mShadow = pgTable('tracking_1m_shadow', {
   low: decimal('low', { precision: 18, scale: 8 }).notNull(),
 });
 
+// SL move history (TP ladder steps + trailing stop updates), one row per move
+export const signalSlMoves = pgTable('signal_sl_moves', {
+  id: serial('id').primaryKey(),
+  signalId: integer('signal_id').notNull(), // FK to signals.id
+  previousSl: decimal('previous_sl', { precision: 18, scale: 8 }).notNull(),
+  newSl: decimal('new_sl', { precision: 18, scale: 8 }).notNull(),
+  reason: text('reason').notNull(), // "tp1_breakeven" | "tp2_lock" | "atr" | "chandelier" | "swing"
+  lockedR: decimal('locked_r', { precision: 10, scale: 4 }), // New SL distance from entry in R (positive = profit locked)
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Parquet export tracking
 export const parquetExports = pgTable('parquet_exports', {
   id: serial('id').primaryKey(),
@@ -271,9 +329,116 @@ export const parquetExports = pgTable('parquet_exports', {
   exportType: text('export_type').notNull(), // "near_miss" | "trades" | "shadow"
   filePath: text('file_path').notNull(),
   recordCount: integer('record_count').notNull(),
+  schemaVersion: integer('schema_version'), // ML_EXPORT_SCHEMA_VERSION of the file (null = legacy JSON/Arrow export)
+  fileSizeBytes: integer('file_size_bytes'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Local kline store (OHLCV cache, synced incrementally from Binance)
+// Prices/volume kept as Binance strings (same as Candle interface)
+export const klines = pgTable('klines', {
+  id: serial('id').primaryKey(),
+  venue: text('venue').default('binance').notNull(), // "binance" | "bybit" | "okx" | "replay"
+  symbol: text('symbol').notNull(),
+  interval: text('interval').notNull(), // "1m" | "15m" | "1h" | "4h" ...
+  openTime: bigint('open_time', { mode: 'number' }).notNull(),
+  open: text('open').notNull(),
+  high: text('high').notNull(),
+  low: text('low').notNull(),
+  close: text('close').notNull(),
+  volume: text('volume').notNull(),
+  closeTime: bigint('close_time', { mode: 'number' }).notNull(),
+}, (table) => [
+  uniqueIndex('klines_venue_symbol_interval_open_time_idx').on(table.venue, table.symbol, table.interval, table.openTime),
+]);
+
+// Paper-trading account: one virtual position per signal (sized by risk % of the balance)
+export const paperPositions = pgTable('paper_positions', {
+  id: serial('id').primaryKey(),
+  signalId: integer('signal_id').notNull().unique(), // FK to signals.id
+  symbol: text('symbol').notNull(),
+  direction: signalDirectionEnum('direction').notNull(),
+  entryPrice: decimal('entry_price', { precision: 18, scale: 8 }).notNull(),
+  slPrice: decimal('sl_price', { precision: 18, scale: 8 }).notNull(),
+  quantity: decimal('quantity', { precision: 28, scale: 10 }).notNull(), // Base asset units at entry
+  remainingQuantity: decimal('remaining_quantity', { precision: 28, scale: 10 }).notNull(),
+  closedPercent: decimal('closed_percent', { precision: 5, scale: 2 }).default('0.00').notNull(), // Same ladder as signals.partial_closed
+  riskAmount: decimal('risk_amount', { precision: 18, scale: 2 }).notNull(), // Account currency at risk (entry → SL)
+  realizedPnl: decimal('realized_pnl', { precision: 18, scale: 2 }).default('0.00').notNull(), // Before fees
+  fees: decimal('fees', { precision: 18, scale: 2 }).default('0.00').notNull(),
+  status: text('status').default('OPEN').notNull(), // "OPEN" | "CLOSED"
+  openedAt: timestamp('opened_at').defaultNow().notNull(),
+  closedAt: timestamp('closed_at'),
+});
+
+// Paper account ledger: every fill with fee and the account balance after it (equity curve source)
+export const paperLedger = pgTable('paper_ledger', {
+  id: serial('id').primaryKey(),
+  signalId: integer('signal_id'), // null for DEPOSIT
+  entryType: text('entry_type').notNull(), // "DEPOSIT" | "OPEN" | "PARTIAL_CLOSE" | "CLOSE"
+  reason: text('reason'), // Signal status that caused the fill (TP1_HIT, SL_HIT, ...)
+  price: decimal('price', { precision: 18, scale: 8 }),
+  quantity: decimal('quantity', { precision: 28, scale: 10 }),
+  notional: decimal('notional', { precision: 18, scale: 2 }),
+  fee: decimal('fee', { precision: 18, scale: 2 }).default('0.00').notNull(),
+  realizedPnl: decimal('realized_pnl', { precision: 18, scale: 2 }).default('0.00').notNull(),
+  balance: decimal('balance', { precision: 18, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Patterns in the PENDING_CONFIRMATION stage: wait for a lower-timeframe confirmation, then become an OPEN signal
+export const pendingSignals = pgTable('pending_signals', {
+  id: serial('id').primaryKey(),
+  venue: text('venue').default('binance').notNull(),
+  symbol: text('symbol').notNull(),
+  timeframe: text('timeframe').notNull(),
+  patternType: text('pattern_type').notNull(),
+  direction: signalDirectionEnum('direction').notNull(),
+  confirmType: confirmTypeEnum('confirm_type').notNull(), // "none" for limit entries
+  rejectedByTrend: boolean('rejected_by_trend').default(false).notNull(), // 15m trend filter rejected the pattern (would be a TREND_MISALIGNMENT skip without confirmation)
+  status: text('status').default('PENDING_CONFIRMATION').notNull(), // "PENDING_CONFIRMATION" | "CONFIRMED" | "EXPIRED" | "INVALIDATED" | "BLOCKED" (portfolio limits at confirmation / fill) | "PENDING_ENTRY" | "FILLED" | "CANCELLED"
+  entryMode: text('entry_mode'), // "limit_retrace" | "limit_zone" for resting limit entries (null = confirmation entry)
+  limitPrice: decimal('limit_price', { precision: 18, scale: 8 }),
+  patternClose: decimal('pattern_close', { precision: 18, scale: 8 }).notNull(),
+  patternHigh: decimal('pattern_high', { precision: 18, scale: 8 }).notNull(),
+  patternLow: decimal('pattern_low', { precision: 18, scale: 8 }).notNull(),
+  slPrice: decimal('sl_price', { precision: 18, scale: 8 }).notNull(),
+  tp1Price: decimal('tp1_price', { precision: 18, scale: 8 }).notNull(),
+  patternCloseTime: bigint('pattern_close_time', { mode: 'number' }).notNull(), // ms
+  expiresAt: bigint('expires_at', { mode: 'number' }).notNull(), // ms
+  plannedSignal: jsonb('planned_signal').notNull(), // NewSignal at the pattern close (entry / R values replaced on confirmation)
+  skipContext: jsonb('skip_context').notNull(), // NearMissLogData for the skip log if it expires
+  telegramMessageId: integer('telegram_message_id'),
+  signalId: integer('signal_id'), // FK to signals.id once confirmed
   createdAt: timestamp('created_at').defaultNow().notNull(),
+  resolvedAt: timestamp('resolved_at'),
 });
 
+// S/R zone identities for zone test (fatigue) counts; bounds follow the latest fuzzy match (zoneIdentity.matchZone)
+export const trackedZones = pgTable('tracked_zones', {
+  id: serial('id').primaryKey(),
+  venue: text('venue').default('binance').notNull(),
+  symbol: text('symbol').notNull(),
+  tf: text('tf').notNull(), // "15m" | "1h" | "4h"
+  type: text('type').notNull(), // "support" | "resistance"
+  low: decimal('low', { precision: 18, scale: 8 }).notNull(),
+  high: decimal('high', { precision: 18, scale: 8 }).notNull(),
+  touchesSyncedTo: bigint('touches_synced_to', { mode: 'number' }), // openTime of the last 15m kline replayed for touches (ms)
+  firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+});
+
+// Zone tests replayed from stored 15m klines, one row per test (openTime of the candle that entered the zone)
+export const zoneTouches = pgTable('zone_touches', {
+  id: serial('id').primaryKey(),
+  zoneId: integer('zone_id').notNull(), // FK to tracked_zones.id
+  symbol: text('symbol').notNull(),
+  touchedAt: bigint('touched_at', { mode: 'number' }).notNull(), // ms
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('zone_touches_zone_id_touched_at_idx').on(table.zoneId, table.touchedAt),
+]);
+
 // Type exports
 export type Signal = typeof signals.$inferSelect;
 export type NewSignal = typeof signals.$inferInsert;
@@ -283,5 +448,19 @@ export type ShadowEvaluation = typeof shadowEvaluations.$inferSelect;
 export type NewShadowEvaluation = typeof shadowEvaluations.$inferInsert;
 export type Tracking1mShadow = typeof tracking1mShadow.$inferSelect;
 export type NewTracking1mShadow = typeof tracking1mShadow.$inferInsert;
+export type SignalSlMove = typeof signalSlMoves.$inferSelect;
+export type NewSignalSlMove = typeof signalSlMoves.$inferInsert;
 export type ParquetExport = typeof parquetExports.$inferSelect;
 export type NewParquetExport = typeof parquetExports.$inferInsert;
+export type Kline = typeof klines.$inferSelect;
+export type NewKline = typeof klines.$inferInsert;
+export type PaperPosition = typeof paperPositions.$inferSelect;
+export type NewPaperPosition = typeof paperPositions.$inferInsert;
+export type PaperLedgerEntry = typeof paperLedger.$inferSelect;
+export type NewPaperLedgerEntry = typeof paperLedger.$inferInsert;
+export type PendingSignal = typeof pendingSignals.$inferSelect;
+export type NewPendingSignal = typeof pendingSignals.$inferInsert;
+export type TrackedZone = typeof trackedZones.$inferSelect;
+export type NewTrackedZone = typeof trackedZones.$inferInsert;
+export type ZoneTouch = typeof zoneTouches.$inferSelect;
+export type NewZoneTouch = typeof zoneTouches.$inferInsert;
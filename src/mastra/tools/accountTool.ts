@@ -0,0 +1,50 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { paperAccount } from "../../services/paperAccount";
+
+const EQUITY_POINTS = 50; // Last ledger points returned to the agent
+
+export const accountTool = createTool({
+  id: "get-account",
+  description: "Get the paper-trading account: balance, return, fees, drawdown, open positions and the equity curve of a virtual account that trades every signal",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    initialBalance: z.number(),
+    balance: z.number(),
+    returnPct: z.number(),
+    realizedPnl: z.number(),
+    fees: z.number(),
+    maxDrawdownPct: z.number(),
+    currentDrawdownPct: z.number(),
+    riskPercent: z.number(),
+    openPositions: z.number(),
+    openRisk: z.number(),
+    closedTrades: z.number(),
+    winningTrades: z.number(),
+    equityCurve: z.array(z.object({
+      time: z.string(),
+      balance: z.number(),
+      drawdownPct: z.number(),
+    })),
+  }),
+  execute: async ({ mastra }) => {
+    const logger = mastra?.getLogger();
+    logger?.info('🏦 [AccountTool] Fetching paper account...');
+
+    const summary = await paperAccount.getSummary();
+
+    logger?.info('✅ [AccountTool] Paper account fetched successfully', {
+      balance: summary.balance,
+      openPositions: summary.openPositions,
+    });
+
+    return {
+      ...summary,
+      equityCurve: summary.equityCurve.slice(-EQUITY_POINTS).map(point => ({
+        time: point.time.toISOString(),
+        balance: point.balance,
+        drawdownPct: point.drawdownPct,
+      })),
+    };
+  },
+});
@@ -21,16 +21,18 @@ export const helpTool = createTool({
         { command: "/start", description: "Запустить бота и получить приветствие" },
         { command: "/stats", description: "Статистика по всем сигналам (паттерны, направления, таймфреймы)" },
         { command: "/status", description: "Текущий статус сканера и расписание" },
+        { command: "/account", description: "Виртуальный счёт: баланс, просадка, открытые позиции" },
         { command: "/help", description: "Список команд и возможностей" },
       ],
       features: [
-        "🔍 Автоматическое сканирование 4 паттернов: Pin Bar, Fakey, ППР, Engulfing",
+        "🔍 Автоматическое сканирование 8 паттернов: Pin Bar, Fakey, ППР, Engulfing, Inside Bar, Star, Three-Bar, Tweezer",
         "⏱ Мониторинг 3 таймфреймов: 15m, 1h, 4h",
         "📊 Только USDT пары с объемом >20M",
         "🎯 Автоматический расчет Entry, SL, TP1 (1R), TP2 (2R)",
         "🔄 Перенос SL в breakeven после достижения TP1",
         "📱 Мгновенные уведомления о новых паттернах и срабатываниях",
         "📈 Детальная статистика по всем сигналам",
+        "🏦 Paper trading: виртуальный счёт торгует каждый сигнал с риском % от баланса",
       ],
     };
   },
@@ -4,7 +4,7 @@ import { signalDB } from "../storage/db";
 
 export const statisticsTool = createTool({
   id: "get-statistics",
-  description: "Get detailed statistics about trading signals including win rates, patterns performance, and timeframe analysis",
+  description: "Get detailed statistics about trading signals including win rates, patterns performance, timeframe analysis, gross vs net (after fees, slippage, funding) PnL in R and results per same-candle SL/TP resolution policy",
   inputSchema: z.object({}),
   outputSchema: z.object({
     total: z.number(),
@@ -13,12 +13,19 @@ export const statisticsTool = createTool({
     tp2Hit: z.number(),
     breakevenHit: z.number(),
     slHit: z.number(),
+    timeoutHit: z.number(),
+    pnlRNet: z.number(),
+    pnlRAfterCosts: z.number(),
+    feesR: z.number(),
+    slippageR: z.number(),
+    fundingR: z.number(),
     byPattern: z.record(z.object({
       total: z.number(),
       tp1: z.number(),
       tp2: z.number(),
       breakeven: z.number(),
       sl: z.number(),
+      timeout: z.number(),
       open: z.number(),
     })),
     byTimeframe: z.record(z.object({
@@ -27,6 +34,7 @@ export const statisticsTool = createTool({
       tp2: z.number(),
       breakeven: z.number(),
       sl: z.number(),
+      timeout: z.number(),
       open: z.number(),
     })),
     byDirection: z.object({
@@ -36,6 +44,7 @@ export const statisticsTool = createTool({
         tp2: z.number(),
         breakeven: z.number(),
         sl: z.number(),
+        timeout: z.number(),
       }),
       SHORT: z.object({
         total: z.number(),
@@ -43,8 +52,17 @@ export const statisticsTool = createTool({
         tp2: z.number(),
         breakeven: z.number(),
         sl: z.number(),
+        timeout: z.number(),
       }),
     }),
+    byAmbiguityPolicy: z.record(z.object({
+      total: z.number(),
+      closed: z.number(),
+      wins: z.number(),
+      ambiguous: z.number(),
+      pnlRNet: z.number(),
+      pnlRAfterCosts: z.number(),
+    })),
   }),
   execute: async ({ mastra }) => {
     const logger = mastra?.getLogger();
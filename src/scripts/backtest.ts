@@ -0,0 +1,140 @@
+#!/usr/bin/env tsx
+/**
+ * Historical Backtest
+ *
+ * Replays stored klines through the live scanner + tracker pipeline (no network, no DB)
+ * and prints summary stats. Trades are saved in the `signals` table shape.
+ *
+ * Dataset layout: <data>/<SYMBOL>/<interval>.json (15m, 1h, 4h, 1m)
+ * Build it from the local kline store with: tsx src/scripts/exportKlines.ts
+ *
+ * Usage:
+ *   tsx src/scripts/backtest.ts --data=./data/klines [--symbols=BTCUSDT,ETHUSDT] [--timeframes=1h,4h]
+ *                               [--from=2025-01-01] [--to=2025-03-31] [--tracking=1m] [--output=./backtest_results] [--verbose]
+ *                               [--ambiguity=optimistic|conservative|precise] [--zone-source=tv|channels|swing]
+ *
+ * A/B of S/R zone sources: run once per --zone-source on the same dataset and compare the summaries.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { backtester, type BacktestOptions } from '../services/backtester.js';
+import { isAmbiguityPolicy } from '../utils/ambiguityPolicy.js';
+import { getZoneSource, isZoneSource } from '../utils/indicators/zoneEngine.js';
+
+interface CliOptions extends BacktestOptions {
+  outputDir: string;
+}
+
+async function runBacktest(options: CliOptions) {
+  console.log(`\n🚀 Starting backtest`);
+  console.log(`📂 Dataset: ${path.resolve(options.dataDir)}`);
+  console.log(`⏰ Timeframes: ${(options.timeframes || ['15m', '1h', '4h']).join(', ')}`);
+  console.log(`⚖️ Same-candle SL/TP: ${options.ambiguityPolicy || 'optimistic'}`);
+  console.log(`🧱 S/R zones: ${options.zoneSource || getZoneSource()}`);
+  if (options.from || options.to) {
+    console.log(`📅 Period: ${options.from ? new Date(options.from).toISOString() : '...'} → ${options.to ? new Date(options.to).toISOString() : '...'}`);
+  }
+
+  const { trades, stats, zoneSource } = await backtester.run(options);
+
+  if (!fs.existsSync(options.outputDir)) {
+    fs.mkdirSync(options.outputDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const tradesPath = path.join(options.outputDir, `trades_${timestamp}.json`);
+  const statsPath = path.join(options.outputDir, `stats_${timestamp}.json`);
+  fs.writeFileSync(tradesPath, JSON.stringify(trades, null, 2));
+  fs.writeFileSync(statsPath, JSON.stringify({ zoneSource, ...stats }, null, 2));
+
+  console.log('\n' + '='.repeat(60));
+  console.log('📊 BACKTEST SUMMARY');
+  console.log('='.repeat(60));
+  console.log(`Zone source:    ${zoneSource}`);
+  console.log(`Trades:         ${stats.totalTrades} (closed ${stats.closedTrades}, open ${stats.openTrades})`);
+  console.log(`Wins/Losses/BE: ${stats.wins} / ${stats.losses} / ${stats.breakevens}`);
+  console.log(`Win rate:       ${stats.winRate.toFixed(1)}%`);
+  console.log(`Expectancy:     ${stats.expectancyR >= 0 ? '+' : ''}${stats.expectancyR.toFixed(3)}R per trade`);
+  console.log(`Profit factor:  ${stats.profitFactor !== null ? stats.profitFactor.toFixed(2) : '∞ (no losses)'}`);
+  console.log(`Total:          ${stats.totalR >= 0 ? '+' : ''}${stats.totalR.toFixed(2)}R`);
+  console.log(`Max drawdown:   ${stats.maxDrawdownR.toFixed(2)}R`);
+
+  if (Object.keys(stats.byPattern).length > 0) {
+    console.log('\nBy pattern:');
+    for (const [pattern, p] of Object.entries(stats.byPattern)) {
+      console.log(`  ${pattern.padEnd(16)} ${String(p.trades).padStart(4)} trades | WR ${p.winRate.toFixed(1)}% | ${p.totalR >= 0 ? '+' : ''}${p.totalR.toFixed(2)}R`);
+    }
+  }
+
+  if (Object.keys(stats.byTimeframe).length > 0) {
+    console.log('\nBy timeframe:');
+    for (const [tf, p] of Object.entries(stats.byTimeframe)) {
+      console.log(`  ${tf.padEnd(16)} ${String(p.trades).padStart(4)} trades | WR ${p.winRate.toFixed(1)}% | ${p.totalR >= 0 ? '+' : ''}${p.totalR.toFixed(2)}R`);
+    }
+  }
+
+  if (Object.keys(stats.skips).length > 0) {
+    console.log('\nSkipped candidates:');
+    for (const [reason, count] of Object.entries(stats.skips)) {
+      console.log(`  ${reason}: ${count}`);
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`✅ Trades saved to ${tradesPath}`);
+  console.log(`✅ Stats saved to ${statsPath}\n`);
+}
+
+// CLI argument parsing
+const args = process.argv.slice(2);
+const options: CliOptions = {
+  dataDir: './data/klines',
+  outputDir: './backtest_results',
+};
+
+for (const arg of args) {
+  if (arg.startsWith('--data=')) {
+    options.dataDir = arg.split('=')[1];
+  } else if (arg.startsWith('--symbols=')) {
+    options.symbols = arg.split('=')[1].split(',').filter(Boolean);
+  } else if (arg.startsWith('--timeframes=')) {
+    options.timeframes = arg.split('=')[1].split(',').filter(Boolean);
+  } else if (arg.startsWith('--from=')) {
+    options.from = new Date(arg.split('=')[1]).getTime();
+  } else if (arg.startsWith('--to=')) {
+    options.to = new Date(arg.split('=')[1]).getTime();
+  } else if (arg.startsWith('--tracking=')) {
+    options.trackingInterval = arg.split('=')[1];
+  } else if (arg.startsWith('--output=')) {
+    options.outputDir = arg.split('=')[1];
+  } else if (arg === '--verbose') {
+    options.verbose = true;
+  } else if (arg.startsWith('--ambiguity=')) {
+    const policy = arg.split('=')[1];
+    if (!isAmbiguityPolicy(policy)) {
+      console.error('❌ Invalid --ambiguity. Use: optimistic, conservative, precise');
+      process.exit(1);
+    }
+    options.ambiguityPolicy = policy;
+  } else if (arg.startsWith('--zone-source=')) {
+    const source = arg.split('=')[1];
+    if (!isZoneSource(source)) {
+      console.error('❌ Invalid --zone-source. Use: tv, channels, swing');
+      process.exit(1);
+    }
+    options.zoneSource = source;
+  }
+}
+
+if ((options.from !== undefined && isNaN(options.from)) || (options.to !== undefined && isNaN(options.to))) {
+  console.error('❌ Invalid --from/--to date. Use YYYY-MM-DD');
+  process.exit(1);
+}
+
+runBacktest(options)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+/**
+ * Kline Store → Backtest Dataset
+ *
+ * Dumps candles from the local kline store (`klines` table) into the dataset
+ * layout read by src/scripts/backtest.ts: <output>/<SYMBOL>/<interval>.json
+ *
+ * Usage:
+ *   tsx src/scripts/exportKlines.ts [--output=./data/klines] [--symbols=BTCUSDT,ETHUSDT]
+ *                                   [--intervals=15m,1h,4h,1m] [--from=2025-01-01] [--to=2025-03-31]
+ */
+
+import * as path from 'path';
+import { klineStore } from '../services/klineStore.js';
+
+interface ExportOptions {
+  outputDir: string;
+  intervals: string[];
+  symbols?: string[];
+  from?: number;
+  to?: number;
+}
+
+async function exportKlines(options: ExportOptions) {
+  console.log(`\n🚀 Exporting kline store to backtest dataset`);
+  console.log(`📂 Output directory: ${path.resolve(options.outputDir)}`);
+  console.log(`⏰ Intervals: ${options.intervals.join(', ')}`);
+
+  const filesWritten = await klineStore.exportDataset(
+    options.outputDir,
+    options.intervals,
+    options.symbols,
+    options.from,
+    options.to
+  );
+
+  console.log(`\n✅ Export complete: ${filesWritten} files written`);
+}
+
+// CLI argument parsing
+const args = process.argv.slice(2);
+const options: ExportOptions = {
+  outputDir: './data/klines',
+  intervals: ['15m', '1h', '4h', '1m'],
+};
+
+for (const arg of args) {
+  if (arg.startsWith('--output=')) {
+    options.outputDir = arg.split('=')[1];
+  } else if (arg.startsWith('--symbols=')) {
+    options.symbols = arg.split('=')[1].split(',').filter(Boolean);
+  } else if (arg.startsWith('--intervals=')) {
+    options.intervals = arg.split('=')[1].split(',').filter(Boolean);
+  } else if (arg.startsWith('--from=')) {
+    options.from = new Date(arg.split('=')[1]).getTime();
+  } else if (arg.startsWith('--to=')) {
+    options.to = new Date(arg.split('=')[1]).getTime();
+  }
+}
+
+if ((options.from !== undefined && isNaN(options.from)) || (options.to !== undefined && isNaN(options.to))) {
+  console.error('❌ Invalid --from/--to date. Use YYYY-MM-DD');
+  process.exit(1);
+}
+
+exportKlines(options)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
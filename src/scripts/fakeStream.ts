@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+/**
+ * Local fake Binance Futures stream (offline development)
+ *
+ * Pushes random-walk mark prices every second and closed 15m/1h/4h klines
+ * every --close-every seconds. Run the bot against it with:
+ *   BINANCE_WS_URL=ws://localhost:9443 npm run dev
+ *
+ * Usage:
+ *   tsx src/scripts/fakeStream.ts [--port=9443] [--symbols=BTCUSDT,ETHUSDT] [--close-every=60]
+ */
+
+import { FakeStreamServer } from '../utils/fakeStreamServer.js';
+import { getLastClosedOpenTime, intervalToMs } from '../utils/exchanges/intervals.js';
+
+interface FakeStreamOptions {
+  port: number;
+  symbols: string[];
+  closeEverySec: number;
+}
+
+const TIMEFRAMES = ['15m', '1h', '4h'];
+
+async function runFakeStream(options: FakeStreamOptions) {
+  const server = new FakeStreamServer();
+  const port = await server.start(options.port);
+
+  const prices: Record<string, number> = {};
+  options.symbols.forEach((symbol, i) => {
+    prices[symbol] = 100 * (i + 1);
+  });
+
+  console.log(`🚀 Fake stream running on ws://localhost:${port} for ${options.symbols.join(', ')}`);
+
+  setInterval(() => {
+    for (const symbol of options.symbols) {
+      prices[symbol] *= 1 + (Math.random() - 0.5) * 0.002;
+    }
+    server.pushMarkPrices(prices);
+  }, 1000);
+
+  setInterval(() => {
+    for (const timeframe of TIMEFRAMES) {
+      const openTime = getLastClosedOpenTime(timeframe)!;
+      const intervalMs = intervalToMs(timeframe)!;
+
+      for (const symbol of options.symbols) {
+        const close = prices[symbol];
+        const open = close * (1 + (Math.random() - 0.5) * 0.01);
+        server.pushKline(symbol, timeframe, {
+          openTime,
+          open: open.toFixed(8),
+          high: (Math.max(open, close) * 1.002).toFixed(8),
+          low: (Math.min(open, close) * 0.998).toFixed(8),
+          close: close.toFixed(8),
+          volume: (Math.random() * 1000).toFixed(3),
+          closeTime: openTime + intervalMs - 1,
+        }, true);
+      }
+    }
+    console.log(`🕯️ Pushed closed ${TIMEFRAMES.join('/')} klines for ${options.symbols.length} symbols (${server.connectionCount} clients)`);
+  }, options.closeEverySec * 1000);
+}
+
+// CLI argument parsing
+const args = process.argv.slice(2);
+const options: FakeStreamOptions = {
+  port: 9443,
+  symbols: ['BTCUSDT', 'ETHUSDT'],
+  closeEverySec: 60,
+};
+
+for (const arg of args) {
+  if (arg.startsWith('--port=')) {
+    options.port = parseInt(arg.split('=')[1]);
+  } else if (arg.startsWith('--symbols=')) {
+    options.symbols = arg.split('=')[1].split(',').filter(Boolean);
+  } else if (arg.startsWith('--close-every=')) {
+    options.closeEverySec = parseInt(arg.split('=')[1]);
+  }
+}
+
+runFakeStream(options).catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
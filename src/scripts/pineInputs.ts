@@ -0,0 +1,62 @@
+#!/usr/bin/env tsx
+/**
+ * Pine Inputs Generator
+ *
+ * Emits the input defaults of binance_pattern_scanner.pine from the TypeScript configuration
+ * (S/R settings, enabled patterns, min score, volume / trend thresholds, detector parameters),
+ * so the chart indicator and the bot stay in sync.
+ *
+ * Usage:
+ *   tsx src/scripts/pineInputs.ts                 print the generated block
+ *   tsx src/scripts/pineInputs.ts --write         rewrite the block in the .pine file
+ *   tsx src/scripts/pineInputs.ts --check         exit 1 when the .pine file is out of date
+ *   [--pine=binance_pattern_scanner.pine]
+ *
+ * Enabled patterns follow PATTERNS_DISABLED / PATTERNS_ENABLED of the current environment.
+ */
+
+import * as fs from 'fs';
+import { patternRegistry, getPatternConfig } from '../utils/patterns/index.js';
+import { applyPineInputs, generatePineInputs } from '../utils/pine/inputs.js';
+
+const args = process.argv.slice(2);
+let pineFile = 'binance_pattern_scanner.pine';
+let mode: 'print' | 'write' | 'check' = 'print';
+
+for (const arg of args) {
+  if (arg.startsWith('--pine=')) {
+    pineFile = arg.slice('--pine='.length);
+  } else if (arg === '--write') {
+    mode = 'write';
+  } else if (arg === '--check') {
+    mode = 'check';
+  }
+}
+
+try {
+  const block = generatePineInputs(patternRegistry, getPatternConfig());
+
+  if (mode === 'print') {
+    console.log(block);
+    process.exit(0);
+  }
+
+  const source = fs.readFileSync(pineFile, 'utf-8');
+  const updated = applyPineInputs(source, block);
+
+  if (mode === 'check') {
+    if (updated !== source) {
+      console.error(`❌ [PineInputs] ${pineFile} is out of date - run: tsx src/scripts/pineInputs.ts --write`);
+      process.exit(1);
+    }
+    console.log(`✅ [PineInputs] ${pineFile} is in sync with the TypeScript configuration`);
+    process.exit(0);
+  }
+
+  fs.writeFileSync(pineFile, updated);
+  console.log(`✅ [PineInputs] ${updated === source ? 'Unchanged' : 'Updated'} ${pineFile}`);
+  process.exit(0);
+} catch (error: any) {
+  console.error(`❌ [PineInputs] ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+/**
+ * Pine Parity Checker
+ *
+ * Runs the TypeScript pattern pipeline over a TradingView candle export and compares it bar by bar
+ * with the Data Window output of binance_pattern_scanner.pine (see src/utils/pine/parity.ts).
+ * Prints every mismatch with the candle index and the differing score components; exits 1 on mismatches.
+ *
+ * Usage:
+ *   tsx src/scripts/pineParity.ts --candles=BINANCE_BTCUSDT.P_15.csv [--pine=<pine output csv>]
+ *                                 [--timeframe=15m] [--window=350] [--from=<index>]
+ *                                 [--limit=50] [--output=parity.json]
+ *
+ * --pine:   defaults to the candle CSV (chart export with the indicator applied)
+ * --limit:  mismatches printed to the console (all of them go to --output)
+ */
+
+import * as fs from 'fs';
+import { patternRegistry } from '../utils/patterns/index.js';
+import {
+  candlesFromCsv,
+  comparePineParity,
+  formatParityMismatch,
+  pineOutputFromCsv,
+  type ParityReport,
+} from '../utils/pine/parity.js';
+
+interface ParityCliOptions {
+  candlesFile: string;
+  pineFile?: string;
+  timeframe: string;
+  window: number;
+  from?: number;
+  limit: number;
+  outputFile?: string;
+}
+
+function runParity(options: ParityCliOptions): ParityReport {
+  const candles = candlesFromCsv(fs.readFileSync(options.candlesFile, 'utf-8'), options.timeframe);
+  const pine = pineOutputFromCsv(fs.readFileSync(options.pineFile || options.candlesFile, 'utf-8'));
+
+  console.log(`\n🌲 [PineParity] ${candles.length} candles, ${pine.length} Pine bars (${options.timeframe}, window ${options.window})`);
+
+  // Логи детектора на каждом баре не нужны
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return comparePineParity(candles, pine, patternRegistry, {
+      timeframe: options.timeframe,
+      window: options.window,
+      from: options.from,
+    });
+  } finally {
+    console.log = log;
+  }
+}
+
+// CLI argument parsing
+const args = process.argv.slice(2);
+const options: ParityCliOptions = {
+  candlesFile: '',
+  timeframe: '15m',
+  window: 350,
+  limit: 50,
+};
+
+for (const arg of args) {
+  const value = arg.slice(arg.indexOf('=') + 1);
+  if (arg.startsWith('--candles=')) {
+    options.candlesFile = value;
+  } else if (arg.startsWith('--pine=')) {
+    options.pineFile = value;
+  } else if (arg.startsWith('--timeframe=')) {
+    options.timeframe = value;
+  } else if (arg.startsWith('--window=')) {
+    options.window = parseInt(value, 10);
+  } else if (arg.startsWith('--from=')) {
+    options.from = parseInt(value, 10);
+  } else if (arg.startsWith('--limit=')) {
+    options.limit = parseInt(value, 10);
+  } else if (arg.startsWith('--output=')) {
+    options.outputFile = value;
+  }
+}
+
+if (!options.candlesFile) {
+  console.error('❌ Usage: tsx src/scripts/pineParity.ts --candles=<tradingview csv> [--pine=<pine csv>] [...]');
+  process.exit(1);
+}
+
+try {
+  const report = runParity(options);
+
+  console.log(`   📊 Patterns: ${report.patterns.join(', ') || 'none'}`);
+  console.log(`   📊 Bars compared: ${report.barsCompared}, matched signals: ${report.signalsMatched}, bars without Pine row: ${report.missingPineBars}`);
+
+  for (const mismatch of report.mismatches.slice(0, options.limit)) {
+    console.log(`   ≠ ${formatParityMismatch(mismatch)}`);
+  }
+  if (report.mismatches.length > options.limit) {
+    console.log(`   … ${report.mismatches.length - options.limit} more`);
+  }
+
+  if (options.outputFile) {
+    fs.writeFileSync(options.outputFile, JSON.stringify(report, null, 2));
+    console.log(`   💾 Report written to ${options.outputFile}`);
+  }
+
+  if (report.mismatches.length > 0) {
+    console.log(`❌ [PineParity] ${report.mismatches.length} mismatches`);
+    process.exit(1);
+  }
+  console.log(`✅ [PineParity] TypeScript and Pine agree on every compared bar`);
+  process.exit(0);
+} catch (error: any) {
+  console.error(`❌ [PineParity] ${error.message}`);
+  process.exit(1);
+}
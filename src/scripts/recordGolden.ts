@@ -0,0 +1,161 @@
+#!/usr/bin/env tsx
+/**
+ * Golden Fixture Recorder
+ *
+ * Captures a closed-candle window (Binance futures or the local backtest dataset) and writes it
+ * with the current pattern / S/R / risk profile outputs to tests/fixtures/golden/<name>.json.
+ * tests/goldenRegression.test.ts replays every fixture offline and fails on drift.
+ *
+ * Usage:
+ *   tsx src/scripts/recordGolden.ts --name=sophusdt-short --symbol=SOPHUSDT --end=2025-10-27T12:00:00Z
+ *                                   [--timeframe=15m] [--intervals=15m,1h,4h] [--limit=350]
+ *                                   [--data=./data/klines] [--risk=./signal.json]
+ *                                   [--description="..."] [--output=tests/fixtures/golden]
+ *
+ * --data:  read candles from the dataset layout (<data>/<SYMBOL>/<interval>.json) instead of Binance
+ * --risk:  JSON with an explicit risk input (direction, entryPrice, patternExtreme, zones, atr15m, atr1h,
+ *          atr4h, zoneTestCount24h, patternScore) - e.g. the values of a logged signal
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { binanceClient } from '../utils/binanceClient.js';
+import { loadDatasetCandles } from '../utils/exchanges/replayClient.js';
+import { intervalToMs } from '../utils/exchanges/intervals.js';
+import type { Candle } from '../utils/exchanges/types.js';
+import {
+  replayGoldenCase,
+  serializeGoldenCase,
+  toKlineRows,
+  type GoldenCase,
+  type GoldenRiskInput,
+  type KlineRow,
+} from '../utils/goldenFixtures.js';
+
+interface RecordOptions {
+  name: string;
+  symbol: string;
+  end: number;
+  timeframe: string;
+  intervals: string[];
+  limit: number;
+  dataDir?: string;
+  riskFile?: string;
+  description?: string;
+  outputDir: string;
+}
+
+async function loadWindow(options: RecordOptions, interval: string): Promise<Candle[]> {
+  const intervalMs = intervalToMs(interval);
+  if (intervalMs === null) {
+    throw new Error(`Unsupported interval: ${interval}`);
+  }
+
+  const candles = options.dataDir
+    ? loadDatasetCandles(options.dataDir, options.symbol, interval)
+    : await binanceClient.getKlinesSince(options.symbol, interval, options.end - options.limit * intervalMs);
+
+  return candles.filter(c => c.closeTime < options.end).slice(-options.limit);
+}
+
+async function recordGolden(options: RecordOptions) {
+  console.log(`\n🎞️ [Golden] Recording ${options.name}: ${options.symbol} ${options.timeframe} up to ${new Date(options.end).toISOString()}`);
+
+  const candles: Record<string, KlineRow[]> = {};
+  for (const interval of options.intervals) {
+    const window = await loadWindow(options, interval);
+    if (window.length === 0) {
+      throw new Error(`No ${interval} candles for ${options.symbol} before ${new Date(options.end).toISOString()}`);
+    }
+    candles[interval] = toKlineRows(window);
+    console.log(`   📈 ${interval}: ${window.length} candles`);
+  }
+
+  const risk: GoldenRiskInput | undefined = options.riskFile
+    ? JSON.parse(fs.readFileSync(options.riskFile, 'utf-8'))
+    : undefined;
+
+  const fixture: Omit<GoldenCase, 'expected'> = {
+    name: options.name,
+    description: options.description || `${options.symbol} ${options.timeframe} window up to ${new Date(options.end).toISOString()}`,
+    source: options.dataDir
+      ? `dataset ${options.dataDir} (${options.symbol})`
+      : `Binance futures ${options.symbol}, end ${new Date(options.end).toISOString()}`,
+    symbol: options.symbol,
+    timeframe: options.timeframe,
+    candles,
+    ...(risk ? { risk } : {}),
+  };
+
+  // Detector / risk logs are noise here
+  const log = console.log;
+  console.log = () => {};
+  let expected: GoldenCase['expected'];
+  try {
+    expected = replayGoldenCase(fixture);
+  } finally {
+    console.log = log;
+  }
+
+  if (!fs.existsSync(options.outputDir)) {
+    fs.mkdirSync(options.outputDir, { recursive: true });
+  }
+  const filePath = path.join(options.outputDir, `${options.name}.json`);
+  fs.writeFileSync(filePath, serializeGoldenCase({ ...fixture, expected }));
+
+  console.log(`   🔍 Patterns: ${expected.patterns.map(p => `${p.type} (${p.score})`).join(', ') || 'none'}`);
+  console.log(`   🛡️ Risk profiles: ${expected.riskProfiles.length}`);
+  console.log(`✅ [Golden] Written ${filePath}`);
+}
+
+// CLI argument parsing
+const args = process.argv.slice(2);
+const options: RecordOptions = {
+  name: '',
+  symbol: '',
+  end: Date.now(),
+  timeframe: '15m',
+  intervals: ['15m', '1h', '4h'],
+  limit: 350,
+  outputDir: 'tests/fixtures/golden',
+};
+
+for (const arg of args) {
+  const value = arg.slice(arg.indexOf('=') + 1);
+  if (arg.startsWith('--name=')) {
+    options.name = value;
+  } else if (arg.startsWith('--symbol=')) {
+    options.symbol = value.toUpperCase();
+  } else if (arg.startsWith('--end=')) {
+    options.end = new Date(value).getTime();
+  } else if (arg.startsWith('--timeframe=')) {
+    options.timeframe = value;
+  } else if (arg.startsWith('--intervals=')) {
+    options.intervals = value.split(',').filter(Boolean);
+  } else if (arg.startsWith('--limit=')) {
+    options.limit = parseInt(value, 10);
+  } else if (arg.startsWith('--data=')) {
+    options.dataDir = value;
+  } else if (arg.startsWith('--risk=')) {
+    options.riskFile = value;
+  } else if (arg.startsWith('--description=')) {
+    options.description = value;
+  } else if (arg.startsWith('--output=')) {
+    options.outputDir = value;
+  }
+}
+
+if (!options.name || !options.symbol || !Number.isFinite(options.end)) {
+  console.error('❌ Usage: tsx src/scripts/recordGolden.ts --name=<case> --symbol=<SYMBOL> --end=<ISO time> [...]');
+  process.exit(1);
+}
+if (!options.intervals.includes(options.timeframe)) {
+  options.intervals.unshift(options.timeframe);
+}
+
+recordGolden(options)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ [Golden] Recording failed: ${error.message}`);
+    process.exit(1);
+  });
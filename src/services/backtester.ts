@@ -0,0 +1,722 @@
+/**
+ * Backtester - offline replay of the live scanner pipeline
+ *
+ * Replays stored klines through the same logic as Scanner.scanTimeframe + SignalTracker.trackSignals:
+ * 1. patternDetector.detectAllPatterns on the last 350 closed candles
+ * 2. 15m: detectTrend + isPatternWithTrend → calculate15mRiskProfile
+ *    1h/4h: calculateDynamicRiskProfile → confluence gate → R:R validation → legacy fallback → dynamic strategy
+ * 3. riskCalculator.checkSignalStatusWithCandles on every tracking candle after entry,
+ *    trailing SL updates on every closed signal-timeframe candle (TP1/TP2 runners of trailing signals)
+ *
+ * Works WITHOUT network and DB: candles are read from a local dataset,
+ * trades are returned as records in the `signals` table shape.
+ *
+ * Dataset layout: <dataDir>/<SYMBOL>/<interval>.json
+ * Each file is an array of Candle objects or raw Binance kline arrays.
+ */
+
+import type { Candle } from '../utils/binanceClient';
+import { loadDatasetCandles, listDatasetSymbols, lastClosedIndex } from '../utils/exchanges/replayClient';
+import { intervalToMs } from '../utils/exchanges/intervals';
+import type { NewSignal } from '../mastra/storage/schema';
+import { calculateATR, calculateEMA, type PatternResult } from '../utils/candleAnalyzer';
+import { patternDetector } from '../utils/patterns';
+import { riskCalculator } from '../utils/riskCalculator';
+import { sameCandlePriority, type AmbiguityPolicy } from '../utils/ambiguityPolicy';
+import { calculateDynamicRiskProfile, type DynamicRiskProfile } from '../utils/dynamicRiskCalculator';
+import { calculateDynamicStrategy } from '../utils/dynamicPositionManager';
+import { buildZoneSnapshot } from '../utils/indicators/zoneSnapshot';
+import { getZoneSource, type ZoneSourceName } from '../utils/indicators/zoneEngine';
+import { countZoneTests, findActiveZone, ZONE_TOUCH_TOLERANCE_ATR } from '../utils/indicators/zoneIdentity';
+import { calculateVWAP } from '../utils/indicators/vwap';
+import { distToKeyVolumeLevelAtr, volumeTargetZones } from '../utils/indicators/volumeProfile';
+import { findPatternObFvg } from '../utils/indicators/orderBlocks';
+import type { Zone } from '../utils/indicators/standardPlan';
+import { detectTrend, isPatternWithTrend } from '../utils/trendDetector';
+import {
+  calculateConfluenceScore,
+  meetsConfluenceRequirement,
+  type ConfluenceFactors,
+} from '../utils/confluenceScoring';
+import {
+  calculateTradeOutcome,
+  calculatePartialClosedPercent,
+  getSignalStrategyParams,
+} from '../utils/tradeOutcomes';
+import { getMaxHoldingMs } from '../utils/signalExpiry';
+import {
+  calculateTrailingStop,
+  getTrailingConfig,
+  getTrailingMode,
+  isTrackedStatus,
+  isTrailingEnabled,
+  resolveStopExitStatus,
+  tightenStop,
+} from '../utils/trailingStop';
+import { SKIP_REASONS } from '../types/skipReasons';
+
+const HISTORY_LIMIT = 350; // Same as Scanner: getKlines(symbol, tf, 350)
+const MIN_HISTORY = 300;   // Same as Scanner: need at least 300 candles
+const TIMEFRAME_ORDER = ['15m', '1h', '4h'];
+const TRAILING_CANDLES = 100; // Same as SignalTracker: signal-timeframe history for ATR / chandelier / swing trails
+
+export { loadDatasetCandles, listDatasetSymbols };
+
+export interface BacktestOptions {
+  dataDir: string;
+  symbols?: string[];          // Default: all symbols found in dataDir
+  timeframes?: string[];       // Default: 15m, 1h, 4h
+  from?: number;               // Signal candle close time, ms (inclusive)
+  to?: number;                 // Signal candle close time, ms (inclusive)
+  trackingInterval?: string;   // Default: 1m (falls back to signal timeframe if missing in dataset)
+  verbose?: boolean;           // Keep pipeline console logs (very noisy)
+  ambiguityPolicy?: AmbiguityPolicy; // Same-candle SL/TP: default optimistic (legacy); precise → conservative (no trades in dataset)
+  zoneSource?: ZoneSourceName;       // S/R zone engine source for 1h/4h risk profiles (default: ZONE_SOURCE env → tv)
+}
+
+/**
+ * Trade record in the `signals` table shape
+ * createdAt = signal candle close, updatedAt = exit candle close (or last tracked candle if still OPEN)
+ */
+export type BacktestTrade = NewSignal;
+
+export interface BacktestGroupStats {
+  trades: number;
+  winRate: number;
+  totalR: number;
+}
+
+export interface BacktestStats {
+  totalTrades: number;
+  closedTrades: number;
+  openTrades: number;
+  wins: number;
+  losses: number;
+  breakevens: number;
+  winRate: number;             // % of closed trades with pnlR > 0
+  expectancyR: number;         // Average pnlR per closed trade
+  profitFactor: number | null; // Gross win R / gross loss R (null if no losing trades)
+  totalR: number;
+  maxDrawdownR: number;        // Peak-to-trough of cumulative pnlR (by exit time)
+  byPattern: Record<string, BacktestGroupStats>;
+  byTimeframe: Record<string, BacktestGroupStats>;
+  skips: Record<string, number>;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  stats: BacktestStats;
+  zoneSource: ZoneSourceName;
+}
+
+interface SymbolData {
+  byInterval: Record<string, Candle[]>;
+  tracking: Candle[];
+}
+
+/**
+ * Last `limit` closed candles as of `time` (what getKlines would have returned at that moment)
+ */
+function historyAt(candles: Candle[], time: number, limit: number = HISTORY_LIMIT): Candle[] {
+  const idx = lastClosedIndex(candles, time);
+  if (idx < 0) return [];
+  return candles.slice(Math.max(0, idx - limit + 1), idx + 1);
+}
+
+export class Backtester {
+  /**
+   * Run backtest over the local dataset
+   */
+  async run(options: BacktestOptions): Promise<BacktestResult> {
+    const timeframes = options.timeframes || TIMEFRAME_ORDER;
+    const trackingInterval = options.trackingInterval || '1m';
+    const zoneSource = options.zoneSource ?? getZoneSource();
+    const symbols = options.symbols && options.symbols.length > 0
+      ? options.symbols
+      : listDatasetSymbols(options.dataDir);
+
+    const trades: BacktestTrade[] = [];
+    const skips: Record<string, number> = {};
+
+    const restoreConsole = options.verbose ? () => {} : this.muteConsole();
+
+    try {
+      for (const symbol of symbols) {
+        const data: SymbolData = { byInterval: {}, tracking: [] };
+        for (const interval of new Set([...timeframes, '15m', '1h', '4h'])) {
+          data.byInterval[interval] = loadDatasetCandles(options.dataDir, symbol, interval);
+        }
+        data.tracking = loadDatasetCandles(options.dataDir, symbol, trackingInterval);
+
+        const symbolTrades = await this.replaySymbol(symbol, data, timeframes, { ...options, zoneSource }, skips, trades.length);
+        trades.push(...symbolTrades);
+      }
+    } finally {
+      restoreConsole();
+    }
+
+    const stats = this.calculateStats(trades, skips);
+    console.log(`✅ [Backtester] Replayed ${symbols.length} symbols (zones: ${zoneSource}): ${stats.totalTrades} trades, win rate ${stats.winRate.toFixed(1)}%, expectancy ${stats.expectancyR.toFixed(3)}R`);
+
+    return { trades, stats, zoneSource };
+  }
+
+  /**
+   * Replay all timeframes of one symbol in chronological order
+   * One open trade per symbol at a time (same as signalDB.hasOpenSignal)
+   */
+  private async replaySymbol(
+    symbol: string,
+    data: SymbolData,
+    timeframes: string[],
+    options: BacktestOptions,
+    skips: Record<string, number>,
+    idOffset: number
+  ): Promise<BacktestTrade[]> {
+    const trades: BacktestTrade[] = [];
+
+    // Build scan events (candle close of each timeframe), ordered like the scheduler: 15m → 1h → 4h
+    const events: Array<{ time: number; timeframe: string; index: number }> = [];
+    for (const timeframe of timeframes) {
+      const candles = data.byInterval[timeframe] || [];
+      for (let i = MIN_HISTORY - 1; i < candles.length; i++) {
+        const time = candles[i].closeTime;
+        if (options.from !== undefined && time < options.from) continue;
+        if (options.to !== undefined && time > options.to) continue;
+        events.push({ time, timeframe, index: i });
+      }
+    }
+    events.sort((a, b) => a.time - b.time || TIMEFRAME_ORDER.indexOf(a.timeframe) - TIMEFRAME_ORDER.indexOf(b.timeframe));
+
+    let openUntil = -Infinity;
+
+    for (const event of events) {
+      if (event.time < openUntil) {
+        continue; // Symbol already has an open signal
+      }
+
+      const tfCandles = data.byInterval[event.timeframe];
+      const candles = tfCandles.slice(Math.max(0, event.index - HISTORY_LIMIT + 1), event.index + 1);
+
+      const atr = calculateATR(candles);
+      if (atr === 0) continue; // Dead coin
+
+      const patterns = patternDetector.detectAllPatterns(candles, event.timeframe);
+
+      for (const pattern of patterns) {
+        if (!pattern.detected || !pattern.type || !pattern.direction || !pattern.candleClosePrice) {
+          continue;
+        }
+
+        const signal = this.buildSignal(symbol, event.timeframe, pattern, candles, data, skips, options.zoneSource);
+        if (!signal) continue;
+
+        signal.id = idOffset + trades.length + 1;
+        const resolved = this.trackSignal(signal, data.tracking.length > 0 ? data.tracking : tfCandles, options.ambiguityPolicy ?? 'optimistic', tfCandles);
+        trades.push(resolved);
+
+        openUntil = isTrackedStatus(resolved.status!, resolved.trailingMode) ? Infinity : (resolved.updatedAt as Date).getTime();
+        break; // hasOpenSignal blocks remaining patterns of this scan
+      }
+    }
+
+    return trades;
+  }
+
+  /**
+   * Build signal record exactly as Scanner.scanTimeframe would (or null if skipped)
+   */
+  private buildSignal(
+    symbol: string,
+    timeframe: string,
+    pattern: PatternResult,
+    candles: Candle[],
+    data: SymbolData,
+    skips: Record<string, number>,
+    zoneSource?: ZoneSourceName
+  ): BacktestTrade | null {
+    const direction = pattern.direction!;
+    const entryPrice = pattern.candleClosePrice!;
+    const lastCandle = candles[candles.length - 1];
+    const createdAt = new Date(lastCandle.closeTime);
+
+    // ⚡ 15M TREND-BASED LOGIC
+    if (timeframe === '15m') {
+      const candlesForTrend = candles.map(c => ({
+        high: Number(c.high),
+        low: Number(c.low),
+        close: Number(c.close),
+        open: Number(c.open),
+        timestamp: c.openTime,
+      }));
+      const trend = detectTrend(candlesForTrend, entryPrice);
+
+      if (!isPatternWithTrend(direction, trend, 60)) {
+        this.countSkip(skips, SKIP_REASONS.TREND_MISALIGNMENT);
+        return null;
+      }
+
+      const riskProfile = riskCalculator.calculate15mRiskProfile(pattern.type!, direction, entryPrice, candles);
+
+      return {
+        symbol,
+        timeframe,
+        patternType: pattern.type!,
+        entryPrice: entryPrice.toString(),
+        slPrice: riskProfile.sl.toString(),
+        tp1Price: riskProfile.tp1.toString(),
+        tp2Price: riskProfile.tp2.toString(),
+        tp3Price: riskProfile.tp3.toString(),
+        currentSl: riskProfile.sl.toString(),
+        initialSl: riskProfile.initialSl.toString(),
+        atr15m: riskProfile.atr15m.toString(),
+        atrH4: '0',
+        direction,
+        status: 'OPEN',
+        partialCloseP1: '0',
+        partialCloseP2: '100',
+        partialCloseP3: '0',
+        strategyProfile: 'SCALP_15M',
+        actualRrTp1: riskProfile.meta.tp1R.toString(),
+        actualRrTp2: riskProfile.meta.tp2R.toString(),
+        actualRrTp3: riskProfile.meta.tp3R.toString(),
+        createdAt,
+        updatedAt: createdAt,
+      };
+    }
+
+    // 🎯 1H/4H STRATEGY
+    const candles1h = historyAt(data.byInterval['1h'] || [], lastCandle.closeTime);
+    const candles4h = historyAt(data.byInterval['4h'] || [], lastCandle.closeTime);
+
+    if (candles1h.length < MIN_HISTORY || candles4h.length < MIN_HISTORY) {
+      this.countSkip(skips, 'insufficient_history');
+      return null;
+    }
+
+    const { zones, volumeZones, obFvgZones } = buildZoneSnapshot(candles, candles1h, candles4h, zoneSource);
+
+    const patternExtreme = direction === 'LONG'
+      ? Math.min(...candles.slice(-3).map(c => Number(c.low)))
+      : Math.max(...candles.slice(-3).map(c => Number(c.high)));
+
+    const atr15m = calculateATR(candles);
+    const atr1h = calculateATR(candles1h);
+    const atr4h = calculateATR(candles4h);
+
+    // Zone tests of the last 24h, replayed from the 15m candles (same rule as zoneTestTracker)
+    const activeZone = findActiveZone(direction, zones);
+    const candles15m = historyAt(data.byInterval['15m'] || [], lastCandle.closeTime);
+    const zoneTestCount24h = activeZone && candles15m.length > 0
+      ? countZoneTests(candles15m, activeZone, ZONE_TOUCH_TOLERANCE_ATR * calculateATR(candles15m), lastCandle.closeTime - 24 * 60 * 60_000)
+      : 0;
+
+    let dynamicProfile: DynamicRiskProfile;
+    try {
+      dynamicProfile = calculateDynamicRiskProfile({
+        direction,
+        entryPrice,
+        patternExtreme,
+        zones,
+        atr15m,
+        atr1h,
+        atr4h,
+        zoneTestCount24h,
+        candles15m: candles,
+        candles1h,
+        candles4h,
+        patternScore: pattern.score,
+        targetZones: volumeTargetZones(volumeZones),
+      });
+    } catch (error: any) {
+      // Live scanner drops the symbol on this error (caught per symbol)
+      this.countSkip(skips, 'risk_profile_error');
+      return null;
+    }
+
+    // ⭐ CONFLUENCE SCORING (same factors as Scanner)
+    const zoneContext = this.getZoneContext(direction, entryPrice, zones, atr15m);
+
+    const lastVolume = Number(candles[candles.length - 1].volume);
+    const avgVolume = candles.slice(-21, -1).reduce((sum, c) => sum + Number(c.volume), 0) / 20;
+
+    const confluenceFactors: ConfluenceFactors = {
+      patternQuality: (pattern.score || 0) >= 7,
+      atKeyZone: zoneContext.inH4Zone || zoneContext.distToEntryZoneH1Atr < 0.5
+        || distToKeyVolumeLevelAtr(direction, entryPrice, volumeZones, atr15m) < 0.5,
+      trendAligned: dynamicProfile.trendAlignment === 'with',
+      volumeSpike: lastVolume > avgVolume * 1.2,
+      zoneFresh: parseInt(zoneContext.zoneTouchCountBucket) <= 3,
+      multiTFconfluence: dynamicProfile.multiTFAlignment || false,
+      cleanRejection: (pattern.score || 0) >= 7,
+      rAvailable: dynamicProfile.rAvailable >= 2.0,
+      inObFvg: findPatternObFvg(direction, lastCandle, obFvgZones) !== null,
+    };
+
+    const confluenceScore = calculateConfluenceScore(confluenceFactors);
+    if (!meetsConfluenceRequirement(confluenceScore, timeframe)) {
+      this.countSkip(skips, SKIP_REASONS.CONFLUENCE_TOO_LOW);
+      return null;
+    }
+
+    if (!dynamicProfile.rrValidation.isValid) {
+      this.countSkip(skips, SKIP_REASONS.RR_BELOW_DYNAMIC_MIN);
+      return null;
+    }
+
+    // Fallback to legacy calculator if dynamic profile has veto or no TPs
+    let riskProfile: { sl: number; tp1: number; tp2: number; tp3: number; initialSl: number; atr15m: number; atr4h: number };
+    if (dynamicProfile.vetoReason !== 'none' || !dynamicProfile.tp1) {
+      riskProfile = riskCalculator.calculateRiskProfile(pattern.type!, direction, entryPrice, candles, candles1h, candles4h);
+    } else {
+      riskProfile = {
+        sl: dynamicProfile.sl,
+        tp1: dynamicProfile.tp1,
+        tp2: dynamicProfile.tp2 || dynamicProfile.tp1,
+        tp3: dynamicProfile.tp3 || dynamicProfile.tp2 || dynamicProfile.tp1,
+        initialSl: dynamicProfile.sl,
+        atr15m: dynamicProfile.riskR,
+        atr4h,
+      };
+    }
+
+    const dynamicStrategy = calculateDynamicStrategy({
+      confluenceScore,
+      trendStrength: this.getTrendBias(candles1h, entryPrice) !== 'neutral' ? 'strong' : 'medium',
+      rAvailable: dynamicProfile.rAvailable || 3.0,
+      atrVolatility: dynamicProfile.atrVolatility || 'normal',
+    });
+
+    return {
+      symbol,
+      timeframe,
+      patternType: pattern.type!,
+      entryPrice: entryPrice.toString(),
+      slPrice: riskProfile.sl.toString(),
+      tp1Price: riskProfile.tp1.toString(),
+      tp2Price: riskProfile.tp2.toString(),
+      tp3Price: riskProfile.tp3.toString(),
+      currentSl: riskProfile.sl.toString(),
+      initialSl: riskProfile.initialSl.toString(),
+      atr15m: riskProfile.atr15m.toString(),
+      atrH4: riskProfile.atr4h.toString(),
+      direction,
+      status: 'OPEN',
+      // Dynamic S/R + R:R fields (same formatting as extractMLContextFields)
+      clearance15m: dynamicProfile.clearance15m.toFixed(8),
+      clearance1h: dynamicProfile.clearance1h.toFixed(8),
+      rAvailable: dynamicProfile.rAvailable.toFixed(2),
+      zoneTestCount24h: dynamicProfile.zoneTestCount24h,
+      vetoReason: dynamicProfile.vetoReason,
+      slBufferAtr15: dynamicProfile.slBufferAtr15.toFixed(4),
+      patternScore: pattern.score?.toFixed(2) ?? null,
+      swingExtremePrice: dynamicProfile.swingExtreme.toString(),
+      slBufferAtr: dynamicProfile.buffer.toFixed(2),
+      roundNumberAdjusted: dynamicProfile.roundNumberAdjusted,
+      tp1LimitedByZone: dynamicProfile.tp1LimitedByZone,
+      tp2LimitedByZone: dynamicProfile.tp2LimitedByZone,
+      tp3LimitedByZone: dynamicProfile.tp3LimitedByZone,
+      nearestResistanceDistanceR: dynamicProfile.nearestResistanceDistance.toFixed(2),
+      actualRrTp1: dynamicProfile.actualRR.tp1.toFixed(2),
+      actualRrTp2: dynamicProfile.actualRR.tp2?.toFixed(2) ?? null,
+      actualRrTp3: dynamicProfile.actualRR.tp3?.toFixed(2) ?? null,
+      dynamicMinRr: dynamicProfile.dynamicMinRR.toFixed(2),
+      dynamicMinRrReasoning: dynamicProfile.dynamicMinRRReasoning,
+      trendAlignment: dynamicProfile.trendAlignment,
+      multiTfAlignment: dynamicProfile.multiTFAlignment,
+      atrVolatility: dynamicProfile.atrVolatility,
+      rrValidationPassed: dynamicProfile.rrValidation.isValid,
+      rrValidationMessage: dynamicProfile.rrValidation.message,
+      confluenceScore,
+      confluenceDetails: confluenceFactors,
+      partialCloseP1: dynamicStrategy.p1.toString(),
+      partialCloseP2: dynamicStrategy.p2.toString(),
+      partialCloseP3: dynamicStrategy.p3.toString(),
+      strategyProfile: dynamicStrategy.profile,
+      trailingMode: getTrailingMode(dynamicStrategy.profile),
+      createdAt,
+      updatedAt: createdAt,
+    };
+  }
+
+  /**
+   * Walk tracking candles after entry with SignalTracker logic (same step order as replayMinutes)
+   * Trailing signals keep their TP1/TP2 runner tracked; atr / chandelier / swing modes move the SL
+   * at every signal-timeframe boundary from the closed `signalCandles` (SignalTracker.trailSignal).
+   * Legacy signals (no trailingMode) close tracking on the first status change.
+   * Max holding time (signalExpiry) closes the trade at the open of the first candle after expiry (TIMEOUT)
+   */
+  trackSignal(
+    signal: BacktestTrade,
+    trackingCandles: Candle[],
+    policy: AmbiguityPolicy,
+    signalCandles: Candle[] = trackingCandles
+  ): BacktestTrade {
+    signal = { ...signal, ambiguityPolicy: policy, ambiguityEvents: 0 };
+    const entryTime = (signal.createdAt as Date).getTime();
+    const entryPrice = parseFloat(signal.entryPrice);
+    const tp1 = signal.tp1Price ? parseFloat(signal.tp1Price) : entryPrice;
+
+    // Same TP3 tolerance as SignalTracker: tp3 ≈ tp2 → single-level TP
+    const tp2Value = parseFloat(signal.tp2Price);
+    const tp3Value = signal.tp3Price ? parseFloat(signal.tp3Price) : null;
+    const tp3EqualsTP2 = tp3Value !== null && Math.abs(tp3Value - tp2Value) < tp2Value * 0.0001;
+    const tp3ForCheck = tp3EqualsTP2 ? null : tp3Value;
+
+    // tp_step signals only move SL on TP hits (TP ladder step below)
+    const candleTrailing = isTrailingEnabled(signal.trailingMode) && signal.trailingMode !== 'tp_step';
+    const timeframeMs = intervalToMs(signal.timeframe) ?? 60_000;
+    const { customPercents, actualTpR } = getSignalStrategyParams(signal);
+
+    let lastTracked = signal.createdAt as Date;
+    const expiresAt = entryTime + getMaxHoldingMs(signal.timeframe, signal.strategyProfile);
+
+    for (let i = lastClosedIndex(trackingCandles, entryTime) + 1; i < trackingCandles.length; i++) {
+      const candle = trackingCandles[i];
+      if (candle.openTime < entryTime) continue;
+
+      if (candleTrailing && candle.openTime % timeframeMs === 0) {
+        signal = this.trailSignal(signal, historyAt(signalCandles, candle.openTime, TRAILING_CANDLES));
+      }
+
+      if (candle.openTime >= expiresAt) {
+        return this.closeByTimeout(signal, candle);
+      }
+      lastTracked = new Date(candle.closeTime);
+
+      const previousSl = parseFloat(signal.currentSl);
+      const { newStatus: checkedStatus, newSl: steppedSl, ambiguous } = riskCalculator.checkSignalStatusWithCandles(
+        [candle],
+        Number(candle.close),
+        entryPrice,
+        previousSl,
+        tp1,
+        tp2Value,
+        tp3ForCheck,
+        signal.direction,
+        signal.status!,
+        sameCandlePriority(policy)
+      );
+
+      if (checkedStatus === signal.status) continue;
+
+      // Stop touched: a stop at/beyond entry (BE or trailed) closes as BE_HIT, below entry as SL_HIT
+      const newStatus = checkedStatus === 'SL_HIT'
+        ? resolveStopExitStatus(signal.direction, entryPrice, previousSl)
+        : checkedStatus;
+      // TP ladder SL step never loosens a stop already trailed further
+      const newSl = steppedSl !== undefined ? tightenStop(signal.direction, previousSl, steppedSl) : previousSl;
+
+      const currentPartialClosed = parseFloat(signal.partialClosed || '0');
+      const outcome = calculateTradeOutcome({
+        status: newStatus,
+        direction: signal.direction,
+        entryPrice: signal.entryPrice,
+        tp1Price: signal.tp1Price || undefined,
+        tp2Price: signal.tp2Price,
+        tp3Price: signal.tp3Price || undefined,
+        slPrice: signal.slPrice,
+        currentSl: newSl.toString(),
+        partialClosed: currentPartialClosed,
+        trailingMode: signal.trailingMode,
+        customPercents,
+        actualTpR,
+      });
+
+      signal = {
+        ...signal,
+        status: newStatus as BacktestTrade['status'],
+        exitType: outcome.isTrailedStop ? 'TRAILING_STOP' : newStatus,
+        currentSl: newSl.toString(),
+        partialClosed: calculatePartialClosedPercent(newStatus, currentPartialClosed, customPercents).toString(),
+        beActivated: signal.beActivated || newStatus === 'TP1_HIT' || newStatus === 'TP2_HIT',
+        pnlR: outcome.pnlR.toString(),
+        pnlPercent: outcome.pnl.toString(),
+        ambiguityEvents: (signal.ambiguityEvents ?? 0) + (ambiguous ? 1 : 0),
+        updatedAt: lastTracked,
+      };
+
+      if (!isTrackedStatus(newStatus, signal.trailingMode)) {
+        return signal;
+      }
+    }
+
+    return { ...signal, updatedAt: lastTracked };
+  }
+
+  /**
+   * Trailing SL for the last closed candle of `candles` (same rules as SignalTracker.trailSignal)
+   */
+  private trailSignal(signal: BacktestTrade, candles: Candle[]): BacktestTrade {
+    const update = calculateTrailingStop(getTrailingConfig(signal.trailingMode), {
+      direction: signal.direction,
+      entryPrice: parseFloat(signal.entryPrice),
+      initialSl: parseFloat(signal.slPrice),
+      currentSl: parseFloat(signal.currentSl),
+      trailingActivated: signal.trailingActivated ?? false,
+      candles,
+    });
+    return update ? { ...signal, currentSl: update.newSl.toString(), trailingActivated: true } : signal;
+  }
+
+  /**
+   * Time-based exit at the candle open (same PnL rules as SignalTracker.closeAtMarket)
+   */
+  private closeByTimeout(signal: BacktestTrade, candle: Candle): BacktestTrade {
+    const { customPercents, actualTpR } = getSignalStrategyParams(signal);
+    const currentPartialClosed = parseFloat(signal.partialClosed || '0');
+    const outcome = calculateTradeOutcome({
+      status: 'TIMEOUT',
+      direction: signal.direction,
+      entryPrice: signal.entryPrice,
+      tp1Price: signal.tp1Price || undefined,
+      tp2Price: signal.tp2Price,
+      tp3Price: signal.tp3Price || undefined,
+      slPrice: signal.slPrice,
+      currentSl: signal.currentSl,
+      partialClosed: currentPartialClosed,
+      trailingMode: signal.trailingMode,
+      exitPrice: candle.open,
+      customPercents,
+      actualTpR,
+    });
+
+    return {
+      ...signal,
+      status: 'TIMEOUT',
+      exitType: 'TIMEOUT',
+      partialClosed: '100',
+      pnlR: outcome.pnlR.toString(),
+      pnlPercent: outcome.pnl.toString(),
+      updatedAt: new Date(candle.openTime),
+    };
+  }
+
+  /**
+   * Zone context used by the confluence gate (same formulas as collectMLContext)
+   */
+  private getZoneContext(direction: 'LONG' | 'SHORT', entryPrice: number, zones: Zone[], atr15m: number) {
+    const h4Support = zones.find(z => z.type === 'support' && z.tf === '4h');
+    const h4Resistance = zones.find(z => z.type === 'resistance' && z.tf === '4h');
+
+    const inH4Zone = (
+      (h4Support && entryPrice >= h4Support.low && entryPrice <= h4Support.high) ||
+      (h4Resistance && entryPrice >= h4Resistance.low && entryPrice <= h4Resistance.high)
+    ) || false;
+
+    const h1EntryZone = direction === 'LONG'
+      ? zones.find(z => z.type === 'support' && z.tf === '1h' && z.high < entryPrice)
+      : zones.find(z => z.type === 'resistance' && z.tf === '1h' && z.low > entryPrice);
+
+    const distToEntryZoneH1Atr = h1EntryZone
+      ? Math.abs((direction === 'LONG' ? h1EntryZone.high : h1EntryZone.low) - entryPrice) / atr15m
+      : 999;
+
+    const touchCount = (direction === 'LONG' ? h4Support : h4Resistance)?.touches || 0;
+    const zoneTouchCountBucket: '0' | '1' | '2' | '>=3' =
+      touchCount === 0 ? '0' : touchCount === 1 ? '1' : touchCount === 2 ? '2' : '>=3';
+
+    return { inH4Zone, distToEntryZoneH1Atr, zoneTouchCountBucket };
+  }
+
+  /**
+   * Offline equivalent of collectMLContext trendBias (EMA200 H1 + VWAP 24h on stored 1h candles)
+   */
+  private getTrendBias(candles1h: Candle[], entryPrice: number): 'long' | 'short' | 'neutral' {
+    const ema200 = calculateEMA(candles1h, 200);
+    const vwap = calculateVWAP(candles1h.slice(-24).map(c => ({
+      high: parseFloat(c.high),
+      low: parseFloat(c.low),
+      close: parseFloat(c.close),
+      volume: parseFloat(c.volume),
+    })));
+
+    const lastClose = parseFloat(candles1h[candles1h.length - 1].close);
+    if (lastClose > ema200 && entryPrice > vwap) return 'long';
+    if (lastClose < ema200 && entryPrice < vwap) return 'short';
+    return 'neutral';
+  }
+
+  private countSkip(skips: Record<string, number>, reason: string): void {
+    skips[reason] = (skips[reason] || 0) + 1;
+  }
+
+  /**
+   * Summary statistics: win rate, expectancy, profit factor, max drawdown (all in R)
+   */
+  calculateStats(trades: BacktestTrade[], skips: Record<string, number> = {}): BacktestStats {
+    // Runners still tracked at the end of the dataset count as open
+    const closed = trades
+      .filter(t => !isTrackedStatus(t.status ?? 'OPEN', t.trailingMode) && t.pnlR !== null && t.pnlR !== undefined)
+      .sort((a, b) => (a.updatedAt as Date).getTime() - (b.updatedAt as Date).getTime());
+
+    const pnls = closed.map(t => parseFloat(t.pnlR!));
+    const wins = pnls.filter(p => p > 0);
+    const losses = pnls.filter(p => p < 0);
+    const grossWin = wins.reduce((sum, p) => sum + p, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, p) => sum + p, 0));
+    const totalR = grossWin - grossLoss;
+
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdownR = 0;
+    for (const pnl of pnls) {
+      equity += pnl;
+      peak = Math.max(peak, equity);
+      maxDrawdownR = Math.max(maxDrawdownR, peak - equity);
+    }
+
+    const groupBy = (key: (t: BacktestTrade) => string): Record<string, BacktestGroupStats> => {
+      const groups: Record<string, BacktestGroupStats & { winsCount: number }> = {};
+      for (const trade of closed) {
+        const group = groups[key(trade)] ||= { trades: 0, winRate: 0, totalR: 0, winsCount: 0 };
+        const pnl = parseFloat(trade.pnlR!);
+        group.trades++;
+        group.totalR += pnl;
+        if (pnl > 0) group.winsCount++;
+      }
+      const result: Record<string, BacktestGroupStats> = {};
+      for (const [name, group] of Object.entries(groups)) {
+        result[name] = {
+          trades: group.trades,
+          winRate: (group.winsCount / group.trades) * 100,
+          totalR: group.totalR,
+        };
+      }
+      return result;
+    };
+
+    return {
+      totalTrades: trades.length,
+      closedTrades: closed.length,
+      openTrades: trades.length - closed.length,
+      wins: wins.length,
+      losses: losses.length,
+      breakevens: pnls.length - wins.length - losses.length,
+      winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+      expectancyR: closed.length > 0 ? totalR / closed.length : 0,
+      profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+      totalR,
+      maxDrawdownR,
+      byPattern: groupBy(t => t.patternType),
+      byTimeframe: groupBy(t => t.timeframe),
+      skips,
+    };
+  }
+
+  /**
+   * Silence pipeline logs during replay (thousands of scans), returns restore function
+   */
+  private muteConsole(): () => void {
+    const { log, warn } = console;
+    console.log = () => {};
+    console.warn = () => {};
+    return () => {
+      console.log = log;
+      console.warn = warn;
+    };
+  }
+}
+
+// Export singleton instance
+export const backtester = new Backtester();
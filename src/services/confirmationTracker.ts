@@ -0,0 +1,318 @@
+/**
+ * Confirmation Tracker
+ *
+ * PENDING_CONFIRMATION stage (utils/confirmationEntry.ts): the Scanner parks patterns here instead of
+ * entering at the pattern close. Every minute the closed lower-timeframe candles since the pattern are
+ * evaluated; a confirmation creates the OPEN signal at the confirmation price (portfolio limits and
+ * sizing are checked at that moment), expiry / invalidation is logged as a near-miss skip.
+ * Resting limit entries (utils/limitEntry.ts) share the table and openFromPending; their fills are
+ * simulated by the SignalTracker.
+ */
+
+import { pendingSignalDB, signalDB } from '../mastra/storage/db';
+import type { NewSignal, PendingSignal, Signal } from '../mastra/storage/schema';
+import { getExchangeClient, intervalToMs, type Candle } from '../utils/exchanges';
+import {
+  evaluateConfirmation,
+  getConfirmationConfig,
+  getConfirmInterval,
+  getConfirmLookbackMs,
+  getConfirmType,
+  rescaleRr,
+  waitBars15m,
+  type ConfirmType,
+  type PendingLevels,
+} from '../utils/confirmationEntry';
+import { getAmbiguityPolicy } from '../utils/ambiguityPolicy';
+import { SKIP_REASONS } from '../types/skipReasons';
+import { logNearMissSkip, type NearMissLogData } from './nearMissLogger';
+import { portfolioRiskManager } from './portfolioRiskManager';
+import { positionSizer, sizingFields, formatSizingText } from './positionSizer';
+import type { PositionSizing } from '../utils/positionSizing';
+import { paperAccount } from './paperAccount';
+import axios from 'axios';
+
+export type PendingSkipContext = Omit<NearMissLogData, 'skipReason' | 'skipCategory'>;
+
+export interface PendingOpen {
+  signal: Signal;
+  sizing: PositionSizing | null;
+  slPrice: number;
+  tpPrices: number[]; // TP1..TP3 (missing levels = TP2)
+  rr: number[];       // R multiples from the actual entry
+}
+
+export class ConfirmationTracker {
+  private telegramChatId: string;
+  private telegramBotToken: string;
+  private config = getConfirmationConfig();
+  private running = false;
+
+  constructor() {
+    this.telegramChatId = process.env.TELEGRAM_CHAT_ID || '';
+    this.telegramBotToken = process.env.TELEGRAM_BOT_TOKEN || '';
+  }
+
+  private async sendTelegramMessage(message: string, replyToMessageId?: number): Promise<number | null> {
+    if (!this.telegramBotToken || !this.telegramChatId) {
+      console.warn('⚠️ [ConfirmationTracker] Telegram credentials not configured, skipping message send');
+      return null;
+    }
+
+    try {
+      const payload: any = {
+        chat_id: this.telegramChatId,
+        text: message,
+        parse_mode: 'HTML',
+      };
+
+      if (replyToMessageId) {
+        payload.reply_to_message_id = replyToMessageId;
+      }
+
+      const response = await axios.post(`https://api.telegram.org/bot${this.telegramBotToken}/sendMessage`, payload);
+      console.log('✅ [ConfirmationTracker] Telegram message sent successfully');
+      return response.data.result.message_id;
+    } catch (error: any) {
+      console.error('❌ [ConfirmationTracker] Failed to send Telegram message:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Scanner: park a pattern until its confirmation (planned signal = the one it would have created now)
+   * rejectedByTrend: the 15m trend filter rejected it (a TREND_MISALIGNMENT skip without this path), flagged on its skip log
+   */
+  async addPending(plannedSignal: NewSignal, skipContext: PendingSkipContext, patternCandle: Candle, rejectedByTrend: boolean = false): Promise<void> {
+    try {
+      const timeframeMs = intervalToMs(plannedSignal.timeframe) ?? 15 * 60_000;
+      const confirmType = getConfirmType(this.config, plannedSignal.timeframe);
+      const patternCloseTime = patternCandle.closeTime + 1;
+
+      const pending = await pendingSignalDB.createPending({
+        venue: plannedSignal.venue,
+        symbol: plannedSignal.symbol,
+        timeframe: plannedSignal.timeframe,
+        patternType: plannedSignal.patternType,
+        direction: plannedSignal.direction,
+        confirmType,
+        rejectedByTrend,
+        patternClose: plannedSignal.entryPrice,
+        patternHigh: patternCandle.high,
+        patternLow: patternCandle.low,
+        slPrice: plannedSignal.slPrice,
+        tp1Price: plannedSignal.tp1Price || plannedSignal.tp2Price,
+        patternCloseTime,
+        expiresAt: patternCloseTime + this.config.waitBars * timeframeMs,
+        plannedSignal,
+        skipContext,
+      });
+      console.log(`⏳ [ConfirmationTracker] ${pending.symbol} ${pending.direction} ${pending.patternType} waiting for ${confirmType} (until ${new Date(pending.expiresAt).toISOString()})`);
+
+      const directionText = pending.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+      const message = `
+⏳ <b>ОЖИДАНИЕ ПОДТВЕРЖДЕНИЯ</b> ⏳
+
+💎 <b>Монета:</b> ${pending.symbol}
+📊 <b>Направление:</b> ${directionText}
+⏰ <b>Таймфрейм:</b> ${pending.timeframe}
+📈 <b>Паттерн:</b> ${pending.patternType.replace('_', ' ').toUpperCase()}
+
+🔎 <b>Подтверждение:</b> ${confirmType} (до ${this.config.waitBars} баров ${pending.timeframe})
+💰 <b>Закрытие паттерна:</b> ${parseFloat(pending.patternClose).toFixed(8)}
+🛑 <b>Stop Loss:</b> ${parseFloat(pending.slPrice).toFixed(8)}
+
+Вход только после подтверждения, по цене подтверждения
+      `.trim();
+
+      const messageId = await this.sendTelegramMessage(message);
+      if (messageId) {
+        await pendingSignalDB.updateTelegramMessageId(pending.id, messageId);
+      }
+    } catch (error: any) {
+      console.error(`❌ [ConfirmationTracker] Failed to park ${plannedSignal.symbol} for confirmation:`, error.message);
+    }
+  }
+
+  /**
+   * Evaluate all pending patterns (every minute, overlapping runs are skipped)
+   */
+  async checkPending(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const pending = await pendingSignalDB.getPending();
+      for (const item of pending) {
+        try {
+          await this.checkOne(item);
+        } catch (error: any) {
+          console.error(`❌ [ConfirmationTracker] Failed to check pending ${item.id} (${item.symbol}):`, error.message);
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ [ConfirmationTracker] Failed to load pending confirmations:', error.message);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async checkOne(pending: PendingSignal): Promise<void> {
+    const confirmType = pending.confirmType as ConfirmType;
+    const interval = getConfirmInterval(confirmType);
+    const intervalMs = intervalToMs(interval)!;
+    const candles = await getExchangeClient(pending.venue).getKlinesSince(
+      pending.symbol,
+      interval,
+      pending.patternCloseTime - getConfirmLookbackMs(confirmType, intervalMs)
+    );
+
+    const result = evaluateConfirmation(confirmType, this.getLevels(pending), candles, Date.now());
+    switch (result.state) {
+      case 'waiting':
+        return;
+      case 'confirmed':
+        await this.confirm(pending, result.price, result.time);
+        return;
+      case 'invalidated':
+        await this.drop(pending, 'INVALIDATED', result.time, result.reason === 'stop' ? 'стоп задет до подтверждения' : 'TP1 пройден до подтверждения');
+        return;
+      case 'expired':
+        await this.drop(pending, 'EXPIRED', result.time, 'подтверждение не пришло вовремя');
+        return;
+    }
+  }
+
+  private getLevels(pending: PendingSignal): PendingLevels {
+    return {
+      direction: pending.direction,
+      patternClose: parseFloat(pending.patternClose),
+      patternHigh: parseFloat(pending.patternHigh),
+      patternLow: parseFloat(pending.patternLow),
+      slPrice: parseFloat(pending.slPrice),
+      tp1Price: parseFloat(pending.tp1Price),
+      patternCloseTime: pending.patternCloseTime,
+      expiresAt: pending.expiresAt,
+    };
+  }
+
+  /**
+   * Pending row → OPEN signal at the actual entry price (same SL / TP prices, R values rescaled)
+   * Portfolio limits and sizing are checked now; blocked → portfolio skip logged, row resolved BLOCKED, null
+   */
+  async openFromPending(
+    pending: PendingSignal,
+    price: number,
+    fields: Partial<NewSignal>,
+    mlExtras: Record<string, unknown>
+  ): Promise<PendingOpen | null> {
+    const planned = pending.plannedSignal as NewSignal;
+    const skipContext = pending.skipContext as PendingSkipContext;
+
+    const portfolioDecision = await portfolioRiskManager.checkCandidate(pending.symbol, pending.direction);
+    if (!portfolioDecision.allowed) {
+      await logNearMissSkip({
+        ...skipContext,
+        entryPrice: price,
+        skipReason: portfolioDecision.skipReason ?? SKIP_REASONS.PORTFOLIO_BLOCKED,
+        skipCategory: 'portfolio',
+        mlContext: { ...skipContext.mlContext, ...mlExtras, rejectedByTrend: pending.rejectedByTrend },
+      });
+      await pendingSignalDB.resolvePending(pending.id, 'BLOCKED');
+      return null;
+    }
+
+    const slPrice = parseFloat(planned.slPrice);
+    const tpPrices = [planned.tp1Price || planned.tp2Price, planned.tp2Price, planned.tp3Price || planned.tp2Price].map(parseFloat);
+    const rr = rescaleRr(price, slPrice, tpPrices);
+    const sizing = await positionSizer.sizeSignal(pending.symbol, pending.direction, price, slPrice);
+
+    const signal = await signalDB.createSignal({
+      ...planned,
+      entryPrice: price.toString(),
+      actualRrTp1: rr[0].toString(),
+      actualRrTp2: rr[1].toString(),
+      actualRrTp3: rr[2].toString(),
+      patternClosePrice: pending.patternClose,
+      ambiguityPolicy: getAmbiguityPolicy(),
+      ...fields,
+      ...sizingFields(sizing),
+    });
+    await paperAccount.openPosition(signal);
+    return { signal, sizing, slPrice, tpPrices, rr };
+  }
+
+  /**
+   * Confirmation → OPEN signal at the confirmation price
+   */
+  private async confirm(pending: PendingSignal, price: number, time: number): Promise<void> {
+    const waitBars = waitBars15m(pending.patternCloseTime, time);
+    const opened = await this.openFromPending(
+      pending,
+      price,
+      { confirmType: pending.confirmType, confirmWaitBars15m: waitBars },
+      { confirmType: pending.confirmType, confirmWaitBars15m: waitBars }
+    );
+    if (!opened) return;
+
+    const { signal, sizing, slPrice, tpPrices, rr: [tp1R, tp2R, tp3R] } = opened;
+    await pendingSignalDB.resolvePending(pending.id, 'CONFIRMED', signal.id);
+    console.log(`✅ [ConfirmationTracker] ${pending.symbol} ${pending.direction} confirmed by ${pending.confirmType} after ${waitBars} 15m bar(s): signal ${signal.id} @ ${price}`);
+
+    const directionText = pending.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+    const sizingText = sizing ? `\n${formatSizingText(sizing)}\n` : '';
+    const message = `
+🚨 <b>СИГНАЛ ПОДТВЕРЖДЁН ✅</b> 🚨
+
+💎 <b>Монета:</b> ${pending.symbol}
+📊 <b>Направление:</b> ${directionText}
+⏰ <b>Таймфрейм:</b> ${pending.timeframe}
+📈 <b>Паттерн:</b> ${pending.patternType.replace('_', ' ').toUpperCase()}
+🔎 <b>Подтверждение:</b> ${pending.confirmType} через ${waitBars} × 15m
+
+💰 <b>Entry:</b> ${price.toFixed(8)} (паттерн ${parseFloat(pending.patternClose).toFixed(8)})
+🛑 <b>Stop Loss:</b> ${slPrice.toFixed(8)}
+🎯 <b>TP1:</b> ${tpPrices[0].toFixed(8)} (${tp1R.toFixed(2)}R)
+🎯 <b>TP2:</b> ${tpPrices[1].toFixed(8)} (${tp2R.toFixed(2)}R)
+🎯 <b>TP3:</b> ${tpPrices[2].toFixed(8)} (${tp3R.toFixed(2)}R)
+${sizingText}
+🆔 Signal ID: ${signal.id}
+    `.trim();
+
+    const messageId = await this.sendTelegramMessage(message, pending.telegramMessageId || undefined);
+    if (messageId) {
+      await signalDB.updateTelegramMessageId(signal.id, messageId);
+    }
+  }
+
+  /**
+   * Expired / invalidated → near-miss skip (shadow replay still sees the planned SL/TP)
+   */
+  private async drop(pending: PendingSignal, status: 'EXPIRED' | 'INVALIDATED', time: number, reasonText: string): Promise<void> {
+    const skipContext = pending.skipContext as PendingSkipContext;
+    await logNearMissSkip({
+      ...skipContext,
+      skipReason: status === 'EXPIRED' ? SKIP_REASONS.CONFIRMATION_TIMEOUT : SKIP_REASONS.CONFIRMATION_INVALIDATED,
+      skipCategory: 'confirmation',
+      mlContext: {
+        ...skipContext.mlContext,
+        confirmType: pending.confirmType,
+        confirmWaitBars15m: waitBars15m(pending.patternCloseTime, time),
+        rejectedByTrend: pending.rejectedByTrend,
+      },
+    });
+    await pendingSignalDB.resolvePending(pending.id, status);
+    console.log(`⌛ [ConfirmationTracker] ${pending.symbol} ${pending.direction} ${pending.patternType} dropped (${status}): ${reasonText}`);
+
+    const message = `
+⌛ <b>БЕЗ ВХОДА</b>
+
+💎 <b>Монета:</b> ${pending.symbol}
+📈 <b>Паттерн:</b> ${pending.patternType.replace('_', ' ').toUpperCase()} (${pending.timeframe})
+❌ <b>Причина:</b> ${reasonText}
+    `.trim();
+    await this.sendTelegramMessage(message, pending.telegramMessageId || undefined);
+  }
+}
+
+export const confirmationTracker = new ConfirmationTracker();
@@ -0,0 +1,212 @@
+/**
+ * Kline Store - local OHLCV cache with incremental sync
+ *
+ * Scanner used to download 350 candles per symbol/timeframe on every scan
+ * (plus 1h/4h history again for every 1h/4h pattern). The store keeps candles in
+ * the `klines` table (per venue) and only fetches candles that closed since the last sync:
+ * - no stored history (or less than `limit`) → full fetch of `limit` candles
+ * - N candles closed since last stored candle → fetch only those N
+ * - nothing new → read from DB, 0 exchange requests
+ * Closed candles from the WebSocket stream are appended via ingestClosedCandle().
+ *
+ * Returns ONLY closed candles (same as exchangeClient.getKlines(..., includeOpenCandle = false)).
+ * Tracking code that needs the current open candle calls the exchange client directly.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exchangeClient, intervalToMs, getLastClosedOpenTime, type Candle, type ExchangeClient } from '../utils/exchanges';
+import { klineDB } from '../mastra/storage/db';
+import type { Kline, NewKline } from '../mastra/storage/schema';
+
+const MAX_FETCH_LIMIT = 1500; // Binance /fapi/v1/klines max limit
+const RETENTION_DAYS = parseInt(process.env.KLINE_RETENTION_DAYS || '180', 10);
+
+function toCandle(row: Kline): Candle {
+  return {
+    openTime: row.openTime,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+    closeTime: row.closeTime,
+  };
+}
+
+function toRow(venue: string, symbol: string, interval: string, candle: Candle): NewKline {
+  return {
+    venue,
+    symbol,
+    interval,
+    openTime: candle.openTime,
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume,
+    closeTime: candle.closeTime,
+  };
+}
+
+interface SyncState {
+  count: number;
+  lastOpenTime: number | null;
+  syncedFor: number | null; // lastClosedOpenTime of the last completed sync
+  historyLimit: number;      // Largest full fetch done (new listings have less history than requested)
+}
+
+function needsHistory(state: SyncState, limit: number): boolean {
+  return state.count < limit && state.historyLimit < limit;
+}
+
+export class KlineStore {
+  private state = new Map<string, SyncState>();
+  private inFlight = new Map<string, Promise<void>>();
+
+  constructor(private readonly client: ExchangeClient) {}
+
+  /**
+   * Drop-in replacement for exchangeClient.getKlines(symbol, interval, limit) (closed candles only)
+   * Falls back to a direct Binance fetch if the store is unavailable
+   */
+  async getKlines(symbol: string, interval: string, limit: number = 3): Promise<Candle[]> {
+    const lastClosed = getLastClosedOpenTime(interval);
+    if (lastClosed === null || limit > MAX_FETCH_LIMIT) {
+      return await this.client.getKlines(symbol, interval, limit);
+    }
+
+    try {
+      await this.sync(symbol, interval, limit, lastClosed);
+      const rows = await klineDB.getLatestKlines(this.client.venue, symbol, interval, limit);
+      return rows.map(toCandle);
+    } catch (error: any) {
+      console.error(`❌ [KlineStore] Store unavailable for ${symbol} ${interval}, fetching directly:`, error.message);
+      return await this.client.getKlines(symbol, interval, limit);
+    }
+  }
+
+  /**
+   * Bring stored history up to the last closed candle (deduplicated per symbol/interval)
+   */
+  async sync(symbol: string, interval: string, limit: number, lastClosed: number): Promise<void> {
+    const key = `${symbol}:${interval}`;
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      await pending;
+    }
+
+    const cached = this.state.get(key);
+    if (cached && cached.syncedFor === lastClosed && !needsHistory(cached, limit)) {
+      return;
+    }
+
+    const promise = this.doSync(key, symbol, interval, limit, lastClosed);
+    this.inFlight.set(key, promise);
+    try {
+      await promise;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async doSync(key: string, symbol: string, interval: string, limit: number, lastClosed: number): Promise<void> {
+    let state = this.state.get(key);
+    if (!state) {
+      const stored = await klineDB.getSyncState(this.client.venue, symbol, interval);
+      state = { ...stored, syncedFor: null, historyLimit: 0 };
+    }
+
+    const intervalMs = intervalToMs(interval)!;
+    const missing = state.lastOpenTime !== null
+      ? Math.max(0, Math.round((lastClosed - state.lastOpenTime) / intervalMs))
+      : limit;
+
+    // Nothing closed since last sync and enough history stored
+    if (missing === 0 && !needsHistory(state, limit)) {
+      this.state.set(key, { ...state, syncedFor: lastClosed });
+      return;
+    }
+
+    const fullFetch = state.lastOpenTime === null || needsHistory(state, limit) || missing >= limit;
+    const fetchCount = fullFetch ? limit : missing;
+
+    const candles = (await this.client.getKlines(symbol, interval, fetchCount))
+      .filter(c => c.openTime <= lastClosed);
+
+    if (candles.length > 0) {
+      await klineDB.upsertKlines(candles.map(c => toRow(this.client.venue, symbol, interval, c)));
+      await klineDB.deleteKlinesBefore(this.client.venue, symbol, interval, lastClosed - RETENTION_DAYS * 24 * 60 * 60_000);
+    }
+
+    const stored = await klineDB.getSyncState(this.client.venue, symbol, interval);
+    this.state.set(key, {
+      ...stored,
+      syncedFor: lastClosed,
+      historyLimit: fullFetch ? Math.max(state.historyLimit, limit) : state.historyLimit,
+    });
+
+    console.log(`💾 [KlineStore] ${symbol} ${interval}: ${fullFetch ? 'full' : 'incremental'} sync, fetched ${candles.length} candles (stored ${stored.count})`);
+  }
+
+  /**
+   * Append a closed candle received from the WebSocket stream
+   * Only stored if contiguous with known history — gaps are backfilled over REST by sync()
+   */
+  async ingestClosedCandle(symbol: string, interval: string, candle: Candle): Promise<boolean> {
+    const key = `${symbol}:${interval}`;
+    const state = this.state.get(key);
+    const intervalMs = intervalToMs(interval);
+
+    if (!state || state.lastOpenTime === null || intervalMs === null || this.inFlight.has(key)) {
+      return false;
+    }
+    if (candle.openTime !== state.lastOpenTime + intervalMs) {
+      return false;
+    }
+
+    try {
+      await klineDB.upsertKlines([toRow(this.client.venue, symbol, interval, candle)]);
+      this.state.set(key, { ...state, count: state.count + 1, lastOpenTime: candle.openTime });
+      return true;
+    } catch (error: any) {
+      console.error(`❌ [KlineStore] Failed to store streamed candle for ${symbol} ${interval}:`, error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Dump stored candles to the backtest dataset layout: <dataDir>/<SYMBOL>/<interval>.json
+   */
+  async exportDataset(
+    dataDir: string,
+    intervals: string[],
+    symbols?: string[],
+    from?: number,
+    to?: number
+  ): Promise<number> {
+    const targetSymbols = symbols && symbols.length > 0 ? symbols : await klineDB.getStoredSymbols(this.client.venue);
+    let filesWritten = 0;
+
+    for (const symbol of targetSymbols) {
+      for (const interval of intervals) {
+        const rows = await klineDB.getKlinesRange(this.client.venue, symbol, interval, from, to);
+        if (rows.length === 0) continue;
+
+        const symbolDir = path.join(dataDir, symbol);
+        if (!fs.existsSync(symbolDir)) {
+          fs.mkdirSync(symbolDir, { recursive: true });
+        }
+
+        fs.writeFileSync(path.join(symbolDir, `${interval}.json`), JSON.stringify(rows.map(toCandle)));
+        filesWritten++;
+        console.log(`✅ [KlineStore] Exported ${rows.length} ${interval} candles for ${symbol}`);
+      }
+    }
+
+    return filesWritten;
+  }
+}
+
+export const klineStore = new KlineStore(exchangeClient);
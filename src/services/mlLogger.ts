@@ -12,8 +12,13 @@ import { getVWAPPosition } from '../utils/indicators/vwap';
 import { detectArrivalPattern } from '../utils/indicators/arrivalPattern';
 import { calculateStandardPlan, Zone } from '../utils/indicators/standardPlan';
 import { SKIP_REASONS, RULESET_VERSION, SkipReason } from '../types/skipReasons';
-import { analyzeSRZonesTV, calculateATR } from '../utils/candleAnalyzer';
+import { calculateATR } from '../utils/candleAnalyzer';
+import { buildZoneSnapshot } from '../utils/indicators/zoneSnapshot';
+import { distToKeyVolumeLevelAtr } from '../utils/indicators/volumeProfile';
+import { findPatternObFvg, obFvgToZone, unmitigatedAt, type ObFvgKind } from '../utils/indicators/orderBlocks';
+import type { RankedZone, ZoneSourceName } from '../utils/indicators/zoneEngine';
 import type { DynamicRiskProfile } from '../utils/dynamicRiskCalculator';
+import { isValidCandidatePlan, type CandidatePlan } from '../utils/shadowReplay';
 
 export interface MLContext {
   // BTC & market regime
@@ -27,8 +32,13 @@ export interface MLContext {
   atr1h: number;
   atr4h: number;
   
-  // Zones snapshot (6 zones: nearest sup/res × 3 TF)
+  // Zones snapshot (zone engine source; tv = 6 zones: nearest sup/res × 3 TF)
   zones: Zone[];
+  zoneSource: ZoneSourceName;
+  rankedZones: RankedZone[]; // Merged across TFs, strongest first
+  volumeZones: Zone[]; // Volume profile / anchored VWAP levels (Zone.kind)
+  obFvgZones: Zone[]; // Order blocks / FVGs unmitigated before the pattern candle (Zone.kind)
+  entryObFvg: { kind: ObFvgKind; tf: Zone['tf'] } | null; // Unmitigated OB / FVG of the direction the pattern candle trades into
   inH4Zone: boolean;
   nearH4Support: boolean;
   nearH4Resistance: boolean;
@@ -37,6 +47,7 @@ export interface MLContext {
   distToDirH1ZoneAtr: number; // Distance to directional zone (resistance for LONG, support for SHORT) - для фильтра "мало места"
   distToDirH4ZoneAtr: number;
   distToEntryZoneH1Atr: number; // Distance to ENTRY zone (support for LONG, resistance for SHORT) - для confluence "at key zone"
+  distToEntryVolumeZoneAtr: number; // Distance to the nearest key volume level on the entry side (POC / VAH / VAL / HVN / AVWAP), ATR15
   freePathPts: number;
   freePathAtr15: number;
   freePathR: number;
@@ -72,6 +83,8 @@ export interface MLContext {
   // Standard plan
   standardPlan: {
     candidateSL: number;
+    candidateTP1: number;
+    candidateTP2: number;
     freePathR: number;
     slMode: 'htf_anchor' | 'swing_priority';
   };
@@ -217,10 +230,8 @@ export async function collectMLContext(
   }));
   const arrivalPattern = detectArrivalPattern(recent15mCandles, atr15m);
   
-  // S/R zones analysis (using existing function for now)
-  const sr15m = analyzeSRZonesTV(candles15m);
-  const sr1h = analyzeSRZonesTV(candles1h);
-  const sr4h = analyzeSRZonesTV(candles4h);
+  // S/R zones analysis (zone engine, ZONE_SOURCE)
+  const { zones, ranked, volumeZones, obFvgZones, source, sr15m, sr1h, sr4h } = buildZoneSnapshot(candles15m, candles1h, candles4h);
   
   // 🔍 DEBUG: Log ALL found zones (TOP-6) for each timeframe
   console.log(`\n🔍 [MLContext] ALL S/R zones found for ${symbol}:`);
@@ -240,76 +251,8 @@ export async function collectMLContext(
     const distATR = Math.abs(dist) / atr4h;
     console.log(`   ${i+1}. ${z.type.toUpperCase()}: ${z.lower.toFixed(8)}-${z.upper.toFixed(8)} | dist=${dist.toFixed(8)} (${distATR.toFixed(2)} ATR) | ${z.touches} touches, ${z.strength}`);
   });
-  console.log(`✅ [MLContext] Nearest zones: 4H Support=${sr4h.nearestSupport ? sr4h.nearestSupport.price.toFixed(8) : 'none'}, 4H Resistance=${sr4h.nearestResistance ? sr4h.nearestResistance.price.toFixed(8) : 'none'}\n`);
-  
-  // Convert to Zone format
-  const zones: Zone[] = [];
-  
-  // 15m zones
-  if (sr15m.nearestSupport) {
-    zones.push({
-      type: 'support',
-      low: sr15m.nearestSupport.lower,
-      high: sr15m.nearestSupport.upper,
-      tf: '15m',
-      touches: sr15m.nearestSupport.touches,
-      strength: sr15m.nearestSupport.strength,
-    });
-  }
-  if (sr15m.nearestResistance) {
-    zones.push({
-      type: 'resistance',
-      low: sr15m.nearestResistance.lower,
-      high: sr15m.nearestResistance.upper,
-      tf: '15m',
-      touches: sr15m.nearestResistance.touches,
-      strength: sr15m.nearestResistance.strength,
-    });
-  }
-  
-  // 1h zones
-  if (sr1h.nearestSupport) {
-    zones.push({
-      type: 'support',
-      low: sr1h.nearestSupport.lower,
-      high: sr1h.nearestSupport.upper,
-      tf: '1h',
-      touches: sr1h.nearestSupport.touches,
-      strength: sr1h.nearestSupport.strength,
-    });
-  }
-  if (sr1h.nearestResistance) {
-    zones.push({
-      type: 'resistance',
-      low: sr1h.nearestResistance.lower,
-      high: sr1h.nearestResistance.upper,
-      tf: '1h',
-      touches: sr1h.nearestResistance.touches,
-      strength: sr1h.nearestResistance.strength,
-    });
-  }
-  
-  // 4h zones
-  if (sr4h.nearestSupport) {
-    zones.push({
-      type: 'support',
-      low: sr4h.nearestSupport.lower,
-      high: sr4h.nearestSupport.upper,
-      tf: '4h',
-      touches: sr4h.nearestSupport.touches,
-      strength: sr4h.nearestSupport.strength,
-    });
-  }
-  if (sr4h.nearestResistance) {
-    zones.push({
-      type: 'resistance',
-      low: sr4h.nearestResistance.lower,
-      high: sr4h.nearestResistance.upper,
-      tf: '4h',
-      touches: sr4h.nearestResistance.touches,
-      strength: sr4h.nearestResistance.strength,
-    });
-  }
+  console.log(`✅ [MLContext] Nearest zones: 4H Support=${sr4h.nearestSupport ? sr4h.nearestSupport.price.toFixed(8) : 'none'}, 4H Resistance=${sr4h.nearestResistance ? sr4h.nearestResistance.price.toFixed(8) : 'none'}`);
+  console.log(`🧱 [MLContext] Zone source: ${source}, ${zones.length} zones, strongest: ${ranked[0] ? `${ranked[0].type} ${ranked[0].low.toFixed(8)}-${ranked[0].high.toFixed(8)} (${ranked[0].tfs.join('+')}, score ${ranked[0].score.toFixed(2)})` : 'none'}\n`);
   
   // Check if in/near H4 zone
   const h4Support = zones.find(z => z.type === 'support' && z.tf === '4h');
@@ -371,8 +314,17 @@ export async function collectMLContext(
     ? Math.abs((direction === 'LONG' ? h1EntryZone.high : h1EntryZone.low) - entryPrice) / atr15m
     : 999; // No zone found
   
+  // Distance to key volume level (POC / VAH / VAL / HVN / anchored VWAP) - тоже "at key zone"
+  const distToEntryVolumeZoneAtr = distToKeyVolumeLevelAtr(direction, entryPrice, volumeZones, atr15m);
+  console.log(`📊 [MLContext] Volume levels: ${volumeZones.length}, entry-side key level ${distToEntryVolumeZoneAtr === 999 ? 'none' : `${distToEntryVolumeZoneAtr.toFixed(2)} ATR`}`);
+  
   // Signal bar size
   const lastCandle = candles15m[candles15m.length - 1];
+  
+  // Order blocks / FVGs: паттерн внутри не отработанной (unmitigated) зоны своего направления
+  const entryObFvgZone = findPatternObFvg(direction, lastCandle, obFvgZones);
+  const activeObFvgZones = unmitigatedAt(obFvgZones, lastCandle.openTime).map(obFvgToZone);
+  console.log(`📊 [MLContext] Order blocks / FVGs: ${activeObFvgZones.length} unmitigated, pattern ${entryObFvgZone ? `inside ${entryObFvgZone.tf} ${entryObFvgZone.kind} ${entryObFvgZone.low.toFixed(8)}-${entryObFvgZone.high.toFixed(8)}` : 'outside'}`);
   const signalBarSize = parseFloat(lastCandle.high) - parseFloat(lastCandle.low);
   const signalBarSizeAtr15 = signalBarSize / atr15m;
   
@@ -445,12 +397,18 @@ export async function collectMLContext(
     atr1h,
     atr4h,
     zones,
+    zoneSource: source,
+    rankedZones: ranked,
+    volumeZones,
+    obFvgZones: activeObFvgZones,
+    entryObFvg: entryObFvgZone ? { kind: entryObFvgZone.kind, tf: entryObFvgZone.tf } : null,
     inH4Zone,
     nearH4Support,
     nearH4Resistance,
     distToDirH1ZoneAtr,
     distToDirH4ZoneAtr,
     distToEntryZoneH1Atr,
+    distToEntryVolumeZoneAtr,
     freePathPts: standardPlan.freePathPts,
     freePathAtr15: standardPlan.freePathAtr15,
     freePathR: standardPlan.freePathR,
@@ -477,6 +435,8 @@ export async function collectMLContext(
     hasH4ResistanceBelowEntry,
     standardPlan: {
       candidateSL: standardPlan.candidateSL,
+      candidateTP1: standardPlan.candidateTP1,
+      candidateTP2: standardPlan.candidateTP2,
       freePathR: standardPlan.freePathR,
       slMode: standardPlan.slMode,
     },
@@ -496,6 +456,7 @@ export async function logNearMissSkip(
   skipReasons: SkipReason[]
 ): Promise<void> {
   const signalId = uuidv4();
+  const candidatePlan = getStandardCandidatePlan(mlContext);
   
   await nearMissSkipDB.createNearMissSkip({
     signalId,
@@ -571,12 +532,56 @@ export async function logNearMissSkip(
     decision: 'skip',
     skipReasons,
     rulesetVersion: RULESET_VERSION,
+    
+    ...formatCandidatePlan(candidatePlan),
   });
   
   console.log(`📝 [MLLogger] Near-miss SKIP logged: ${symbol} ${patternType} (${skipReasons.join(', ')})`);
   
   // Shadow evaluation sampling (10-20% or max 20 per reason/day)
-  await sampleForShadowEvaluation(signalId, symbol, direction, entryPrice, mlContext, skipReasons);
+  await sampleForShadowEvaluation(signalId, symbol, direction, entryPrice, candidatePlan, skipReasons);
+}
+
+/**
+ * Candidate plan from the standard plan stored in MLContext (TP3 not defined there)
+ */
+export function getStandardCandidatePlan(mlContext: MLContext): CandidatePlan {
+  return {
+    source: 'standard',
+    sl: mlContext.standardPlan.candidateSL,
+    tp1: mlContext.standardPlan.candidateTP1,
+    tp2: mlContext.standardPlan.candidateTP2,
+    tp3: null,
+  };
+}
+
+/**
+ * Candidate plan from the dynamic risk profile (falls back to the standard plan if it has no TP space)
+ */
+export function getDynamicCandidatePlan(profile: DynamicRiskProfile, mlContext: MLContext): CandidatePlan {
+  if (profile.tp1 === null) {
+    return getStandardCandidatePlan(mlContext);
+  }
+  return {
+    source: 'dynamic',
+    sl: profile.sl,
+    tp1: profile.tp1,
+    tp2: profile.tp2 ?? profile.tp1,
+    tp3: profile.tp3,
+  };
+}
+
+/**
+ * near_miss_skips candidate_* columns
+ */
+export function formatCandidatePlan(plan: CandidatePlan | null) {
+  return {
+    candidatePlanSource: plan?.source ?? null,
+    candidateSl: plan ? plan.sl.toString() : null,
+    candidateTp1: plan ? plan.tp1.toString() : null,
+    candidateTp2: plan ? plan.tp2.toString() : null,
+    candidateTp3: plan?.tp3 != null ? plan.tp3.toString() : null,
+  };
 }
 
 /**
@@ -636,15 +641,21 @@ export function formatExecutedSignalMLContext(mlContext: MLContext) {
 
 /**
  * Sample for shadow evaluation
+ * Only candidates with a usable SL/TP plan - the outcome is replayed against that plan
  */
-async function sampleForShadowEvaluation(
+export async function sampleForShadowEvaluation(
   signalId: string,
   symbol: string,
   direction: 'LONG' | 'SHORT',
   entryPrice: number,
-  mlContext: MLContext,
-  skipReasons: SkipReason[]
+  candidatePlan: CandidatePlan | null,
+  skipReasons: string[]
 ): Promise<void> {
+  if (!candidatePlan || !isValidCandidatePlan(direction, entryPrice, candidatePlan)) {
+    console.log(`⏭️ [MLLogger] No valid candidate SL/TP for ${symbol}, skipping shadow sampling`);
+    return;
+  }
+  
   // For each reason, check if we should sample
   for (const reasonCode of skipReasons) {
     const count = await nearMissSkipDB.countNearMissSkipsByReasonToday(reasonCode);
@@ -15,7 +15,8 @@ import { randomUUID } from 'node:crypto';
 import type { SkipReason } from '../types/skipReasons';
 
 // Import MLContext from mlLogger for type compatibility
-import type { MLContext } from './mlLogger';
+import { formatCandidatePlan, getStandardCandidatePlan, sampleForShadowEvaluation, type MLContext } from './mlLogger';
+import type { CandidatePlan } from '../utils/shadowReplay';
 
 export interface NearMissLogData {
   // Basic info
@@ -27,11 +28,11 @@ export interface NearMissLogData {
   
   // Skip reason
   skipReason: string;  // Main reason code
-  skipCategory: 'volume' | 'pattern_geometry' | 'directional' | 'confluence' | 'rr' | 'veto' | 'bad_context';
+  skipCategory: 'volume' | 'pattern_geometry' | 'directional' | 'confluence' | 'rr' | 'veto' | 'bad_context' | 'portfolio' | 'confirmation' | 'entry';
   
   // Confluence scoring
   confluenceScore: number;           // 0-10
-  confluenceFactors: ConfluenceFactors;  // All 8 factors
+  confluenceFactors: ConfluenceFactors;  // All 9 factors
   
   // Pattern quality
   patternScore: number;              // 0-10
@@ -44,6 +45,9 @@ export interface NearMissLogData {
   atr15m: number;
   atr1h: number;
   atr4h: number;
+  
+  // SL/TP the candidate would have traded with (for shadow replay)
+  candidatePlan?: CandidatePlan | null;
 }
 
 /**
@@ -51,13 +55,14 @@ export interface NearMissLogData {
  */
 export async function logNearMissSkip(data: NearMissLogData): Promise<void> {
   try {
-    console.log(`📝 [NearMissLogger] Logging skip: ${data.symbol} ${data.patternType} - ${data.skipReason} (confluence: ${data.confluenceScore}/10)`);
+    console.log(`📝 [NearMissLogger] Logging skip: ${data.symbol} ${data.patternType} - ${data.skipReason} (confluence: ${data.confluenceScore}/11)`);
     
     const skipReasons = [data.skipReason]; // Array of reason codes
+    const signalId = randomUUID();
     
     // Prepare ML context record
     const record: NewNearMissSkip = {
-      signalId: randomUUID(), // Generate UUID
+      signalId, // Generate UUID
       symbol: data.symbol,
       entryTf: data.timeframe,
       side: data.direction,
@@ -100,6 +105,7 @@ export async function logNearMissSkip(data: NearMissLogData): Promise<void> {
       // Confirmation
       confirmType: data.mlContext.confirmType || null,
       confirmWaitBars15m: data.mlContext.confirmWaitBars15m ?? null,
+      rejectedByTrend: data.mlContext.rejectedByTrend ?? null,
       
       // Dynamic S/R fields
       clearance15m: data.mlContext.clearance15m?.toFixed(8) ?? null,
@@ -147,11 +153,22 @@ export async function logNearMissSkip(data: NearMissLogData): Promise<void> {
       confluenceScore: data.confluenceScore,
       confluenceDetails: data.confluenceFactors as any,
       skipCategory: data.skipCategory,
+      
+      // Order block / FVG
+      obFvgKind: data.mlContext.entryObFvg?.kind ?? null,
+      obFvgTf: data.mlContext.entryObFvg?.tf ?? null,
+      obFvgZones: data.mlContext.obFvgZones ?? null,
+      
+      // Candidate SL/TP
+      ...formatCandidatePlan(data.candidatePlan ?? null),
     };
     
     await nearMissSkipDB.createNearMissSkip(record);
     console.log(`✅ [NearMissLogger] Skip logged successfully`);
     
+    // Shadow evaluation sampling (same rules as ML filter skips)
+    await sampleForShadowEvaluation(signalId, data.symbol, data.direction, data.entryPrice, data.candidatePlan ?? null, skipReasons);
+    
   } catch (error) {
     console.error(`❌ [NearMissLogger] Error logging skip:`, error);
     // Don't throw - logging failure shouldn't break scanning
@@ -187,6 +204,7 @@ export async function logNearMissSkipLegacy(
     multiTFconfluence: false,
     cleanRejection: false,
     rAvailable: false,
+    inObFvg: false,
   };
   
   // Determine skip category from first skip reason
@@ -214,6 +232,7 @@ export async function logNearMissSkipLegacy(
     atr15m: mlContext.atr15m,
     atr1h: mlContext.atr1h,
     atr4h: mlContext.atr4h,
+    candidatePlan: mlContext.standardPlan ? getStandardCandidatePlan(mlContext) : null,
   });
 }
 
@@ -0,0 +1,245 @@
+/**
+ * Paper Account Service
+ *
+ * Virtual account that trades every signal created by the Scanner:
+ * - opens a position sized by PAPER_RISK_PERCENT of the current balance
+ * - on each tracker status change closes the same share as signals.partial_closed
+ * - writes every fill (fee, realized PnL, balance after) to paper_ledger → equity curve / drawdown
+ *
+ * Fills are serialized in-process: each fill reads the last ledger balance and appends the next one.
+ */
+
+import { paperAccountDB } from '../mastra/storage/db';
+import type { NewPaperLedgerEntry, PaperPosition, Signal } from '../mastra/storage/schema';
+import { getSignalStrategyParams } from '../utils/tradeOutcomes';
+import {
+  buildEquityCurve,
+  calculatePositionSize,
+  getPaperAccountConfig,
+  maxDrawdownPct,
+  planExitFills,
+  settleFill,
+  type EquityPoint,
+  type ExitFill,
+} from '../utils/paperAccount';
+
+export interface PaperAccountSummary {
+  initialBalance: number;
+  balance: number;
+  returnPct: number;
+  realizedPnl: number;
+  fees: number;
+  maxDrawdownPct: number;
+  currentDrawdownPct: number;
+  riskPercent: number;
+  openPositions: number;
+  openRisk: number; // Sum of riskAmount × remaining share of open positions
+  closedTrades: number;
+  winningTrades: number;
+  equityCurve: EquityPoint[];
+}
+
+export class PaperAccountService {
+  private config = getPaperAccountConfig();
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Run fills one at a time (balance of the next fill depends on the previous one)
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Current balance for sizing (no ledger write)
+   */
+  async getEquity(): Promise<number> {
+    const last = await paperAccountDB.getLastLedgerEntry();
+    return last ? parseFloat(last.balance) : this.config.initialBalance;
+  }
+
+  private async getBalance(): Promise<number> {
+    const last = await paperAccountDB.getLastLedgerEntry();
+    if (last) return parseFloat(last.balance);
+
+    const balance = this.config.initialBalance;
+    await paperAccountDB.addLedgerEntry({
+      entryType: 'DEPOSIT',
+      balance: balance.toFixed(2),
+    });
+    console.log(`🏦 [PaperAccount] Account created with ${balance.toFixed(2)} USDT`);
+    return balance;
+  }
+
+  /**
+   * New signal → sized position + OPEN fill (entry fee)
+   * Uses the signal's stored sizing (exchange lot step, margin cap); refused sizing → no position
+   */
+  async openPosition(signal: Signal): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        if (signal.sizingStatus === 'refused') {
+          console.warn(`⚠️ [PaperAccount] Signal ${signal.id}: sizing refused (${signal.sizingNote}), no position opened`);
+          return;
+        }
+
+        const balance = await this.getBalance();
+        const entryPrice = parseFloat(signal.entryPrice);
+        const slPrice = parseFloat(signal.slPrice);
+        const size = signal.positionQty
+          ? {
+            quantity: parseFloat(signal.positionQty),
+            riskAmount: parseFloat(signal.positionQty) * Math.abs(entryPrice - slPrice),
+            notional: parseFloat(signal.positionQty) * entryPrice,
+          }
+          : calculatePositionSize(balance, this.config.riskPercent, entryPrice, slPrice);
+        if (size.quantity <= 0) {
+          console.warn(`⚠️ [PaperAccount] Signal ${signal.id}: zero risk distance, no position opened`);
+          return;
+        }
+
+        const fee = size.notional * this.config.feeRate;
+        await paperAccountDB.openPosition({
+          signalId: signal.id,
+          symbol: signal.symbol,
+          direction: signal.direction,
+          entryPrice: signal.entryPrice,
+          slPrice: signal.slPrice,
+          quantity: size.quantity.toString(),
+          remainingQuantity: size.quantity.toString(),
+          riskAmount: size.riskAmount.toFixed(2),
+          fees: fee.toFixed(2),
+        }, {
+          signalId: signal.id,
+          entryType: 'OPEN',
+          reason: 'OPEN',
+          price: signal.entryPrice,
+          quantity: size.quantity.toString(),
+          notional: size.notional.toFixed(2),
+          fee: fee.toFixed(2),
+          balance: (balance - fee).toFixed(2),
+        });
+
+        console.log(`🏦 [PaperAccount] Opened ${signal.direction} ${signal.symbol} (signal ${signal.id}): qty ${size.quantity.toPrecision(6)}, notional ${size.notional.toFixed(2)}, risk ${size.riskAmount.toFixed(2)} USDT`);
+      } catch (error: any) {
+        console.error(`❌ [PaperAccount] Failed to open position for signal ${signal.id}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * Tracker status change → exit fills of the position
+   * exitPrice: stop price for SL_HIT/BE_HIT, market price for TIMEOUT (TP fills use the TP prices)
+   * stillTracked: false when tracking ends with part of the position open (legacy signals after TP1/TP2):
+   * the rest is closed at entry, matching pnl_r of such signals
+   */
+  async applyStatusChange(signal: Signal, newStatus: string, exitPrice: number, stillTracked: boolean): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const position = await paperAccountDB.getPosition(signal.id);
+        if (!position || position.status !== 'OPEN') return;
+
+        const entryPrice = parseFloat(position.entryPrice);
+        const previousClosed = parseFloat(position.closedPercent);
+        const fills: ExitFill[] = planExitFills({
+          status: newStatus,
+          previousClosed,
+          customPercents: getSignalStrategyParams(signal).customPercents,
+          tp1Price: signal.tp1Price ? parseFloat(signal.tp1Price) : entryPrice,
+          tp2Price: parseFloat(signal.tp2Price),
+          tp3Price: signal.tp3Price ? parseFloat(signal.tp3Price) : null,
+          exitPrice,
+        });
+
+        const closedAfterFills = previousClosed + fills.reduce((sum, fill) => sum + fill.percent, 0);
+        if (!stillTracked && closedAfterFills < 100) {
+          fills.push({ percent: 100 - closedAfterFills, price: entryPrice, reason: 'TRACKING_END' });
+        }
+        if (fills.length === 0) return;
+
+        await this.recordFills(position, fills, previousClosed);
+      } catch (error: any) {
+        console.error(`❌ [PaperAccount] Failed to apply ${newStatus} for signal ${signal.id}:`, error.message);
+      }
+    });
+  }
+
+  private async recordFills(position: PaperPosition, fills: ExitFill[], previousClosed: number): Promise<void> {
+    const initialQuantity = parseFloat(position.quantity);
+    let balance = await this.getBalance();
+    let closed = previousClosed;
+    let remaining = parseFloat(position.remainingQuantity);
+    let realizedPnl = parseFloat(position.realizedPnl);
+    let fees = parseFloat(position.fees);
+
+    const entries: NewPaperLedgerEntry[] = fills.map(fill => {
+      const settled = settleFill(position.direction, parseFloat(position.entryPrice), initialQuantity, fill, this.config.feeRate);
+      closed = Math.min(100, closed + fill.percent);
+      remaining = Math.max(0, remaining - settled.quantity);
+      realizedPnl += settled.pnl;
+      fees += settled.fee;
+      balance += settled.pnl - settled.fee;
+
+      return {
+        signalId: position.signalId,
+        entryType: closed >= 100 ? 'CLOSE' : 'PARTIAL_CLOSE',
+        reason: fill.reason,
+        price: fill.price.toString(),
+        quantity: settled.quantity.toString(),
+        notional: settled.notional.toFixed(2),
+        fee: settled.fee.toFixed(2),
+        realizedPnl: settled.pnl.toFixed(2),
+        balance: balance.toFixed(2),
+      };
+    });
+
+    const isClosed = closed >= 100;
+    await paperAccountDB.recordExits(position.signalId, {
+      closedPercent: closed.toFixed(2),
+      remainingQuantity: isClosed ? '0' : remaining.toString(),
+      realizedPnl: realizedPnl.toFixed(2),
+      fees: fees.toFixed(2),
+      status: isClosed ? 'CLOSED' : 'OPEN',
+      closedAt: isClosed ? new Date() : undefined,
+    }, entries);
+
+    const net = realizedPnl - fees;
+    console.log(`🏦 [PaperAccount] Signal ${position.signalId} ${fills.map(f => f.reason).join(' + ')}: ${closed}% closed, net ${net >= 0 ? '+' : ''}${net.toFixed(2)} USDT, balance ${balance.toFixed(2)}`);
+  }
+
+  async getSummary(): Promise<PaperAccountSummary> {
+    const ledger = await paperAccountDB.getLedger();
+    const openPositions = await paperAccountDB.getOpenPositions();
+    const { total, wins } = await paperAccountDB.getClosedPositionsCount();
+
+    const curve = buildEquityCurve(ledger.map(entry => ({ createdAt: entry.createdAt, balance: parseFloat(entry.balance) })));
+    const initialBalance = ledger.length > 0 ? parseFloat(ledger[0].balance) : this.config.initialBalance;
+    const balance = curve.length > 0 ? curve[curve.length - 1].balance : initialBalance;
+    const realizedPnl = ledger.reduce((sum, entry) => sum + parseFloat(entry.realizedPnl), 0);
+    const fees = ledger.reduce((sum, entry) => sum + parseFloat(entry.fee), 0);
+    const openRisk = openPositions.reduce(
+      (sum, position) => sum + parseFloat(position.riskAmount) * (100 - parseFloat(position.closedPercent)) / 100,
+      0
+    );
+
+    return {
+      initialBalance,
+      balance,
+      returnPct: initialBalance > 0 ? (balance - initialBalance) / initialBalance * 100 : 0,
+      realizedPnl,
+      fees,
+      maxDrawdownPct: maxDrawdownPct(curve),
+      currentDrawdownPct: curve.length > 0 ? curve[curve.length - 1].drawdownPct : 0,
+      riskPercent: this.config.riskPercent,
+      openPositions: openPositions.length,
+      openRisk,
+      closedTrades: total,
+      winningTrades: wins,
+      equityCurve: curve,
+    };
+  }
+}
+
+export const paperAccount = new PaperAccountService();
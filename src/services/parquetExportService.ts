@@ -3,11 +3,23 @@
  * 
  * Exports ML logging data to Parquet format for offline analysis
  * Runs daily to export near_miss_skips, shadow_evaluations, and signals
+ *
+ * Layout: ml_exports/<type>/date=YYYY-MM-DD/data.parquet (type = trades | near_miss | shadow)
+ * Column types are fixed in utils/mlExportSchema.ts, schema version + row count go to parquet_exports
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
 import { nearMissSkipDB, shadowEvaluationDB, signalDB, parquetExportDB } from '../mastra/storage/db';
+import { writeParquetFile } from '../utils/parquetWriter';
+import {
+  ML_EXPORT_SCHEMA_VERSION,
+  SIGNALS_EXPORT,
+  NEAR_MISS_EXPORT,
+  SHADOW_EXPORT,
+  partitionPath,
+  parquetMetadata,
+  type MlExportTable,
+} from '../utils/mlExportSchema';
 
 export class ParquetExportService {
   private exportDir: string = './ml_exports';
@@ -16,150 +28,53 @@ export class ParquetExportService {
    * Export all data for a given date
    */
   async exportDate(date: string): Promise<void> {
-    console.log(`📦 [ParquetExport] Starting export for ${date}...`);
+    console.log(`📦 [ParquetExport] Starting export for ${date} (schema v${ML_EXPORT_SCHEMA_VERSION})...`);
     
     // Create export directory if not exists
     this.ensureExportDir();
     
-    // Check if already exported
-    const hasNearMissExport = await parquetExportDB.hasExportForDate(date, 'near_miss_skips');
-    const hasShadowExport = await parquetExportDB.hasExportForDate(date, 'shadow_evaluations');
-    const hasSignalsExport = await parquetExportDB.hasExportForDate(date, 'signals');
-    
-    // Export near-miss skips
-    if (!hasNearMissExport) {
-      await this.exportNearMissSkips(date);
-    } else {
-      console.log(`✅ [ParquetExport] Near-miss skips already exported for ${date}`);
-    }
-    
-    // Export shadow evaluations
-    if (!hasShadowExport) {
-      await this.exportShadowEvaluations(date);
-    } else {
-      console.log(`✅ [ParquetExport] Shadow evaluations already exported for ${date}`);
-    }
-    
-    // Export signals (TODO: implement signals export)
-    // if (!hasSignalsExport) {
-    //   await this.exportSignals(date);
-    // } else {
-    //   console.log(`✅ [ParquetExport] Signals already exported for ${date}`);
-    // }
+    await this.exportTable(NEAR_MISS_EXPORT, date, () => nearMissSkipDB.getNearMissSkipsByDate(date));
+    await this.exportTable(SHADOW_EXPORT, date, () => shadowEvaluationDB.getShadowEvaluationsByDate(date));
+    await this.exportTable(SIGNALS_EXPORT, date, () => signalDB.getSignalsByDate(date));
     
     console.log(`✅ [ParquetExport] Export completed for ${date}`);
   }
   
   /**
-   * Export near-miss skips
+   * Export one table's partition for the date
+   * Skipped if already exported with the current schema version
    */
-  private async exportNearMissSkips(date: string): Promise<void> {
+  private async exportTable<T>(table: MlExportTable<T>, date: string, loadRows: () => Promise<T[]>): Promise<void> {
     try {
-      console.log(`📊 [ParquetExport] Exporting near-miss skips for ${date}...`);
-      
-      const skips = await nearMissSkipDB.getNearMissSkipsByDate(date);
-      
-      if (skips.length === 0) {
-        console.log(`⏭️ [ParquetExport] No near-miss skips for ${date}`);
+      if (await parquetExportDB.hasExportForDate(date, table.type, ML_EXPORT_SCHEMA_VERSION)) {
+        console.log(`✅ [ParquetExport] ${table.type} already exported for ${date}`);
         return;
       }
+
+      console.log(`📊 [ParquetExport] Exporting ${table.type} for ${date}...`);
+      const rows = await loadRows();
       
-      // Create date-partitioned directory
-      const exportPath = path.join(this.exportDir, 'near_miss', `date=${date}`);
-      fs.mkdirSync(exportPath, { recursive: true });
-      
-      // Export as JSON for now (TODO: convert to Parquet format using apache-arrow)
-      const jsonPath = path.join(exportPath, 'data.json');
-      fs.writeFileSync(jsonPath, JSON.stringify(skips, null, 2));
-      
-      // Record export
-      await parquetExportDB.recordExport({
-        exportDate: date,
-        exportType: 'near_miss_skips',
-        recordCount: skips.length,
-        filePath: jsonPath,
-      });
-      
-      console.log(`✅ [ParquetExport] Exported ${skips.length} near-miss skips to ${jsonPath}`);
-    } catch (error: any) {
-      console.error(`❌ [ParquetExport] Error exporting near-miss skips:`, error.message);
-    }
-  }
-  
-  /**
-   * Export shadow evaluations
-   */
-  private async exportShadowEvaluations(date: string): Promise<void> {
-    try {
-      console.log(`📊 [ParquetExport] Exporting shadow evaluations for ${date}...`);
-      
-      const evaluations = await shadowEvaluationDB.getShadowEvaluationsByDate(date);
-      
-      if (evaluations.length === 0) {
-        console.log(`⏭️ [ParquetExport] No shadow evaluations for ${date}`);
-        return;
-      }
-      
-      // Create date-partitioned directory
-      const exportPath = path.join(this.exportDir, 'shadow', `date=${date}`);
-      fs.mkdirSync(exportPath, { recursive: true });
-      
-      // Export as JSON for now (TODO: convert to Parquet format using apache-arrow)
-      const jsonPath = path.join(exportPath, 'data.json');
-      fs.writeFileSync(jsonPath, JSON.stringify(evaluations, null, 2));
-      
-      // Record export
-      await parquetExportDB.recordExport({
-        exportDate: date,
-        exportType: 'shadow_evaluations',
-        recordCount: evaluations.length,
-        filePath: jsonPath,
-      });
-      
-      console.log(`✅ [ParquetExport] Exported ${evaluations.length} shadow evaluations to ${jsonPath}`);
-    } catch (error: any) {
-      console.error(`❌ [ParquetExport] Error exporting shadow evaluations:`, error.message);
-    }
-  }
-  
-  /**
-   * Export signals (entered trades)
-   */
-  private async exportSignals(date: string): Promise<void> {
-    try {
-      console.log(`📊 [ParquetExport] Exporting signals for ${date}...`);
-      
-      // Get signals for date (TODO: add date filter to signalDB)
-      const signals = await signalDB.getAllSignals();
-      const signalsForDate = signals.filter((s: any) => {
-        const createdDate = new Date(s.createdAt).toISOString().split('T')[0];
-        return createdDate === date;
-      });
-      
-      if (signalsForDate.length === 0) {
-        console.log(`⏭️ [ParquetExport] No signals for ${date}`);
+      if (rows.length === 0) {
+        console.log(`⏭️ [ParquetExport] No ${table.type} rows for ${date}`);
         return;
       }
       
-      // Create date-partitioned directory
-      const exportPath = path.join(this.exportDir, 'trades', `date=${date}`);
-      fs.mkdirSync(exportPath, { recursive: true });
-      
-      // Export as JSON for now (TODO: convert to Parquet format using apache-arrow)
-      const jsonPath = path.join(exportPath, 'data.json');
-      fs.writeFileSync(jsonPath, JSON.stringify(signalsForDate, null, 2));
+      const filePath = partitionPath(this.exportDir, table.type, date);
+      const fileSizeBytes = writeParquetFile(filePath, table.columns, rows, parquetMetadata(table.type, date));
       
-      // Record export
-      await parquetExportDB.recordExport({
+      // Record export (replaces records of older exports of this partition)
+      await parquetExportDB.replaceExport({
         exportDate: date,
-        exportType: 'signals',
-        recordCount: signalsForDate.length,
-        filePath: jsonPath,
+        exportType: table.type,
+        filePath,
+        recordCount: rows.length,
+        schemaVersion: ML_EXPORT_SCHEMA_VERSION,
+        fileSizeBytes,
       });
       
-      console.log(`✅ [ParquetExport] Exported ${signalsForDate.length} signals to ${jsonPath}`);
+      console.log(`✅ [ParquetExport] Exported ${rows.length} ${table.type} rows to ${filePath}`);
     } catch (error: any) {
-      console.error(`❌ [ParquetExport] Error exporting signals:`, error.message);
+      console.error(`❌ [ParquetExport] Error exporting ${table.type}:`, error.message);
     }
   }
   
@@ -0,0 +1,96 @@
+/**
+ * Portfolio Risk Manager
+ *
+ * Last gate before signalDB.createSignal: open risk in R, per-direction and per-family limits,
+ * daily / weekly realized-loss circuit breaker (limits in utils/portfolioRisk.ts).
+ *
+ * Scanner workers run in parallel, so checks are serialized and every admitted candidate is
+ * reserved (1R) until its signal shows up among the tracked signals or the reservation expires.
+ */
+
+import { signalDB } from '../mastra/storage/db';
+import { getCoinCluster, getFamilyId } from '../utils/marketClusters';
+import {
+  evaluatePortfolioRisk,
+  getLossPeriodStarts,
+  getPortfolioRiskConfig,
+  openRiskR,
+  type Exposure,
+  type PortfolioRiskDecision,
+} from '../utils/portfolioRisk';
+
+const RESERVATION_TTL_MS = 2 * 60_000;
+
+interface Reservation extends Exposure {
+  reservedAt: number;
+}
+
+export class PortfolioRiskManager {
+  private config = getPortfolioRiskConfig();
+  private queue: Promise<unknown> = Promise.resolve();
+  private reservations: Reservation[] = [];
+  private breakerActive = false;
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Check a candidate; allowed → reserved in the portfolio until its signal is created
+   * DB errors fail open (signal proceeds) so a flaky connection does not stop the scanner
+   */
+  async checkCandidate(symbol: string, direction: 'LONG' | 'SHORT'): Promise<PortfolioRiskDecision> {
+    return this.enqueue(async () => {
+      const familyId = getFamilyId(getCoinCluster(symbol));
+      try {
+        const activeSignals = await signalDB.getActiveSignals();
+        const exposures: Exposure[] = activeSignals.map(signal => ({
+          symbol: signal.symbol,
+          direction: signal.direction,
+          familyId: getFamilyId(getCoinCluster(signal.symbol)),
+          riskR: openRiskR(signal),
+        }));
+
+        const now = Date.now();
+        const trackedSymbols = new Set(activeSignals.map(signal => signal.symbol));
+        this.reservations = this.reservations.filter(
+          reservation => now - reservation.reservedAt < RESERVATION_TTL_MS && !trackedSymbols.has(reservation.symbol)
+        );
+
+        const periods = getLossPeriodStarts(new Date(now));
+        const realized = {
+          dailyR: await signalDB.getRealizedPnlRSince(periods.day),
+          weeklyR: await signalDB.getRealizedPnlRSince(periods.week),
+        };
+
+        const decision = evaluatePortfolioRisk(this.config, [...exposures, ...this.reservations], realized, { symbol, direction, familyId });
+        this.logBreakerState(decision);
+
+        if (decision.allowed) {
+          this.reservations.push({ symbol, direction, familyId, riskR: 1, reservedAt: now });
+          console.log(`✅ [PortfolioRisk] ${symbol} ${direction} admitted: ${decision.detail}`);
+        } else {
+          console.log(`⛔ [PortfolioRisk] ${symbol} ${direction} blocked (${decision.skipReason}): ${decision.detail}`);
+        }
+        return decision;
+      } catch (error: any) {
+        console.error(`❌ [PortfolioRisk] Failed to check ${symbol}, allowing signal:`, error.message);
+        return { allowed: true, skipReason: null, detail: 'check failed' };
+      }
+    });
+  }
+
+  private logBreakerState(decision: PortfolioRiskDecision): void {
+    const tripped = decision.skipReason === 'daily_loss_circuit_breaker' || decision.skipReason === 'weekly_loss_circuit_breaker';
+    if (tripped && !this.breakerActive) {
+      console.warn(`🚨 [PortfolioRisk] Circuit breaker ON - new signals paused (${decision.detail})`);
+    } else if (!tripped && this.breakerActive) {
+      console.log(`🟢 [PortfolioRisk] Circuit breaker OFF - new signals resumed`);
+    }
+    this.breakerActive = tripped;
+  }
+}
+
+export const portfolioRiskManager = new PortfolioRiskManager();
@@ -0,0 +1,94 @@
+/**
+ * Position Sizer
+ *
+ * Sizing for every new signal: paper account equity × risk %, exchange tick/step filters,
+ * margin at MAX_LEVERAGE and the estimated liquidation price (refused if inside the stop).
+ * Contract filters are cached for an hour (one exchangeInfo request for all symbols).
+ */
+
+import { exchangeClient, type SymbolInfo } from '../utils/exchanges';
+import { getPaperAccountConfig } from '../utils/paperAccount';
+import {
+  calculatePositionSizing,
+  getSizingConfig,
+  type PositionSizing,
+  type SymbolFilters,
+} from '../utils/positionSizing';
+import type { NewSignal } from '../mastra/storage/schema';
+import { paperAccount } from './paperAccount';
+
+const FILTERS_TTL_MS = 60 * 60_000;
+const NO_FILTERS: SymbolFilters = { tickSize: 0, stepSize: 0, minQty: 0 };
+
+export class PositionSizer {
+  private filters = new Map<string, SymbolInfo>();
+  private filtersLoadedAt = 0;
+
+  private async getFilters(symbol: string): Promise<SymbolFilters> {
+    if (Date.now() - this.filtersLoadedAt > FILTERS_TTL_MS) {
+      try {
+        const infos = await exchangeClient.getExchangeInfo();
+        this.filters = new Map(infos.map(info => [info.symbol, info]));
+        this.filtersLoadedAt = Date.now();
+      } catch (error: any) {
+        console.error('❌ [PositionSizer] Failed to load exchange filters:', error.message);
+      }
+    }
+    return this.filters.get(symbol) ?? NO_FILTERS;
+  }
+
+  /**
+   * Sizing for a new signal; null if equity / filters are unavailable (signal is still sent)
+   */
+  async sizeSignal(symbol: string, direction: 'LONG' | 'SHORT', entryPrice: number, slPrice: number): Promise<PositionSizing | null> {
+    try {
+      const equity = await paperAccount.getEquity();
+      const config = getSizingConfig(getPaperAccountConfig().riskPercent);
+      const sizing = calculatePositionSizing(config, equity, direction, entryPrice, slPrice, await this.getFilters(symbol));
+
+      const statusEmoji = sizing.status === 'ok' ? '✅' : sizing.status === 'warning' ? '⚠️' : '⛔';
+      console.log(`📐 [PositionSizer] ${symbol} ${direction}: ${statusEmoji} ${sizing.status}, qty ${sizing.quantity}, notional ${sizing.notional.toFixed(2)}, margin ${sizing.requiredMargin.toFixed(2)} @ ${sizing.leverage}x, liq ${sizing.liquidationPrice}${sizing.notes.length > 0 ? ` (${sizing.notes.join('; ')})` : ''}`);
+      return sizing;
+    } catch (error: any) {
+      console.error(`❌ [PositionSizer] Failed to size ${symbol}:`, error.message);
+      return null;
+    }
+  }
+}
+
+/**
+ * Signal columns for a sizing result
+ */
+export function sizingFields(sizing: PositionSizing | null): Partial<NewSignal> {
+  if (!sizing) return {};
+  return {
+    positionQty: sizing.status !== 'refused' ? sizing.quantity.toString() : null,
+    positionNotional: sizing.status !== 'refused' ? sizing.notional.toFixed(2) : null,
+    requiredMargin: sizing.status !== 'refused' ? sizing.requiredMargin.toFixed(2) : null,
+    leverage: sizing.leverage.toString(),
+    liquidationPrice: sizing.liquidationPrice.toString(),
+    sizingStatus: sizing.status,
+    sizingNote: sizing.notes.length > 0 ? sizing.notes.join('; ') : null,
+  };
+}
+
+/**
+ * Telegram lines for the signal message
+ */
+export function formatSizingText(sizing: PositionSizing | null): string {
+  if (!sizing) return '';
+  if (sizing.status === 'refused') {
+    return `⛔ <b>Размер:</b> не рассчитан — ${sizing.notes.join('; ')}`;
+  }
+  const lines = [
+    `📐 <b>Размер:</b> ${sizing.quantity} (${sizing.notional.toFixed(2)} USDT, риск ${sizing.riskAmount.toFixed(2)} USDT)`,
+    `🏦 <b>Маржа:</b> ${sizing.requiredMargin.toFixed(2)} USDT при ${sizing.leverage}x`,
+    `💀 <b>Ликвидация:</b> ~${sizing.liquidationPrice}`,
+  ];
+  if (sizing.status === 'warning') {
+    lines.push(`⚠️ ${sizing.notes.join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+export const positionSizer = new PositionSizer();
@@ -1,12 +1,17 @@
-import { binanceClient } from '../utils/binanceClient';
-import { patternDetector, calculateATR, analyzeSRZonesTV } from '../utils/candleAnalyzer';
+import { exchangeClient, type Candle } from '../utils/exchanges';
+import { calculateATR } from '../utils/candleAnalyzer';
+import { patternDetector } from '../utils/patterns';
 import { riskCalculator } from '../utils/riskCalculator';
 import { calculateDynamicRiskProfile } from '../utils/dynamicRiskCalculator';
-import { signalDB } from '../mastra/storage/db';
-import { getCoinCluster, getCoinsByFamily, getFamilyId } from '../utils/marketClusters';
+import { signalDB, pendingSignalDB } from '../mastra/storage/db';
+import { getCoinCluster } from '../utils/marketClusters';
 import { processMLIntegration, extractMLContextFields } from './mlIntegration';
-import { enrichMLContextWithRiskProfile } from './mlLogger';
+import { enrichMLContextWithRiskProfile, getDynamicCandidatePlan } from './mlLogger';
 import { zoneTestTracker } from './zoneTestTracker';
+import { klineStore } from './klineStore';
+import { paperAccount } from './paperAccount';
+import { positionSizer, sizingFields, formatSizingText } from './positionSizer';
+import { portfolioRiskManager } from './portfolioRiskManager';
 import { SKIP_REASONS } from '../types/skipReasons';
 import { 
   calculateConfluenceScore, 
@@ -15,11 +20,22 @@ import {
   type ConfluenceFactors 
 } from '../utils/confluenceScoring';
 import { detectTrend, isPatternWithTrend } from '../utils/trendDetector';
+import { getTrailingMode } from '../utils/trailingStop';
+import { getAmbiguityPolicy } from '../utils/ambiguityPolicy';
+import { getConfirmationConfig, requiresConfirmation } from '../utils/confirmationEntry';
+import { getEntryMode, getLimitEntryConfig, calculateLimitPrice, type EntryMode } from '../utils/limitEntry';
+import type { Zone } from '../utils/indicators/standardPlan';
+import { volumeTargetZones } from '../utils/indicators/volumeProfile';
+import { confirmationTracker, type PendingSkipContext } from './confirmationTracker';
+import { signalTracker } from './signalTracker';
+import type { NewSignal } from '../mastra/storage/schema';
 import axios from 'axios';
 
 export class Scanner {
   private telegramChatId: string;
   private telegramBotToken: string;
+  private confirmationConfig = getConfirmationConfig();
+  private limitEntryConfig = getLimitEntryConfig();
 
   constructor() {
     this.telegramChatId = process.env.TELEGRAM_CHAT_ID || '';
@@ -46,12 +62,37 @@ export class Scanner {
     }
   }
 
+  /**
+   * Resting limit for the pattern's entry mode (null = market at the pattern close)
+   * zones: multi-TF zone snapshot for limit_zone (15m signals have none → market)
+   */
+  private getLimitEntry(plannedSignal: NewSignal, patternCandle: Candle, zones?: Zone[]): { mode: EntryMode; price: number } | null {
+    const mode = getEntryMode(this.limitEntryConfig, plannedSignal.patternType);
+    if (mode === 'market') return null;
+
+    const price = calculateLimitPrice(mode, {
+      direction: plannedSignal.direction,
+      close: parseFloat(plannedSignal.entryPrice),
+      high: Number(patternCandle.high),
+      low: Number(patternCandle.low),
+      slPrice: parseFloat(plannedSignal.slPrice),
+      zones,
+    }, this.limitEntryConfig.retracePct);
+    if (price === null) {
+      console.log(`📥 [Scanner] ${plannedSignal.symbol} ${mode}: no limit between the close and the stop, entering at market`);
+      return null;
+    }
+    return { mode, price };
+  }
+
   async scanTimeframe(timeframe: string): Promise<void> {
     const startTime = Date.now();
-    console.log(`\n🔍 [Scanner] Starting PARALLEL scan for ${timeframe}...`);
+    console.log(`\n🔍 [Scanner] Starting PARALLEL scan for ${timeframe} on ${exchangeClient.venue}...`);
+    // Binance is the default venue → only mention others in Telegram messages
+    const venueText = exchangeClient.venue !== 'binance' ? `\n🏦 <b>Биржа:</b> ${exchangeClient.venue.toUpperCase()}` : '';
 
     try {
-      const pairs = await binanceClient.getTradingPairs();
+      const pairs = await exchangeClient.getTradingPairs();
       console.log(`📊 [Scanner] Scanning ${pairs.length} pairs on ${timeframe} with 20 parallel workers...`);
 
       const BATCH_SIZE = 20; // 20 монет параллельно (безопасно для Binance rate limit)
@@ -66,7 +107,7 @@ export class Scanner {
         // Параллельная обработка батча
         await Promise.all(batch.map(async (symbol) => {
           try {
-            const candles = await binanceClient.getKlines(symbol, timeframe, 350);
+            const candles = await klineStore.getKlines(symbol, timeframe, 350);
             
             if (candles.length < 300) {
               console.log(`⚠️ [Scanner] Insufficient candles for ${symbol} (need 300, got ${candles.length}), skipping`);
@@ -109,26 +150,15 @@ export class Scanner {
                 console.log(`⏭️ [Scanner] Skipping ${symbol} - already has an open signal`);
                 continue;
               }
+              if (await pendingSignalDB.hasPending(symbol)) {
+                console.log(`⏭️ [Scanner] Skipping ${symbol} - pattern already waiting for confirmation`);
+                continue;
+              }
               
               // 🔥 КЛАСТЕРИЗАЦИЯ: определяем кластер для отображения в сообщении
               const cluster = getCoinCluster(symbol);
               
-              // TEMPORARILY DISABLED - testing without family limits
-              /*
-              const familyId = getFamilyId(cluster);
-              const familyCoins = getCoinsByFamily(cluster.leader, cluster.sector);
-              const familySymbols = familyCoins.map(c => c.symbol);
-              const openFamilySignals = await signalDB.countOpenSignalsByFamily(familySymbols);
-              
-              const MAX_SIGNALS_PER_FAMILY = 3; // Максимум 2-3 сигнала из одного семейства
-              
-              if (openFamilySignals >= MAX_SIGNALS_PER_FAMILY) {
-                console.log(`⏭️ [Scanner] Skipping ${symbol} (${familyId}) - family limit reached (${openFamilySignals}/${MAX_SIGNALS_PER_FAMILY} signals)`);
-                continue;
-              }
-              
-              console.log(`✅ [Scanner] Family check passed: ${symbol} (${familyId}) - ${openFamilySignals}/${MAX_SIGNALS_PER_FAMILY} signals`);
-              */
+              // Family / direction / open-risk limits: portfolioRiskManager, right before createSignal
 
               // PATTERN-BASED ENTRY STRATEGY:
               // Entry = pattern candle close price (the moment pattern completes)
@@ -164,13 +194,16 @@ export class Scanner {
                 // Step 2: Check if pattern aligns with trend (minStrength=60)
                 console.log(`📊 [15m Trend Filter] Step 2: Checking pattern alignment with trend (minStrength=60)...`);
                 const isAligned = isPatternWithTrend(pattern.direction, trend, 60);
+                // Counter-trend patterns can still enter after a lower-timeframe confirmation (CONFIRMATION_MODE)
+                const waitForConfirmation = requiresConfirmation(this.confirmationConfig, !isAligned);
                 
-                if (!isAligned) {
+                if (!isAligned && !waitForConfirmation) {
                   console.log(`❌ [15m Trend Filter] Signal REJECTED - pattern NOT aligned with trend`);
                   console.log(`   ⚠️ Pattern: ${pattern.direction}, Trend: ${trend.direction} (${trend.strength}%), Required: 60%`);
                   console.log(`   ⚠️ Skipping ${symbol} - 15m patterns MUST align with trend (LONG+UPTREND or SHORT+DOWNTREND)`);
                   
-                  // Log as near-miss skip for ML analysis
+                  // Log as near-miss skip for ML analysis (with the 15m SL/TP it would have traded)
+                  const skippedProfile = riskCalculator.calculate15mRiskProfile(pattern.type, pattern.direction, entryPrice, candles);
                   const { logNearMissSkip: logNearMissSkipFull } = await import('./nearMissLogger');
                   await logNearMissSkipFull({
                     symbol,
@@ -193,13 +226,25 @@ export class Scanner {
                     atr15m: calculateATR(candles),
                     atr1h: 0,
                     atr4h: 0,
+                    candidatePlan: {
+                      source: '15m',
+                      sl: skippedProfile.sl,
+                      tp1: skippedProfile.tp1,
+                      tp2: skippedProfile.tp2,
+                      tp3: skippedProfile.tp3,
+                    },
                   });
                   
                   continue; // Skip this signal
                 }
                 
-                console.log(`✅ [15m Trend Filter] Pattern ALIGNED with trend - proceeding with signal`);
-                console.log(`   ✅ Pattern: ${pattern.direction}, Trend: ${trend.direction} (${trend.strength}%)`);
+                if (isAligned) {
+                  console.log(`✅ [15m Trend Filter] Pattern ALIGNED with trend - proceeding with signal`);
+                  console.log(`   ✅ Pattern: ${pattern.direction}, Trend: ${trend.direction} (${trend.strength}%)`);
+                } else {
+                  console.log(`⏳ [15m Trend Filter] Pattern against trend - routed to confirmation entry instead of rejection`);
+                  console.log(`   ⏳ Pattern: ${pattern.direction}, Trend: ${trend.direction} (${trend.strength}%)`);
+                }
                 
                 // Step 3: Use calculate15mRiskProfile for trend-aligned 15m signals
                 console.log(`🎯 [15m Risk] Calculating 15m-specific risk profile for ${symbol}...`);
@@ -228,9 +273,33 @@ export class Scanner {
                   confluenceDetails: {},
                 };
                 
-                // Create signal for 15m (trend-aligned)
+                // Same payload for an immediate entry and for the confirmation path
+                const skipContext: PendingSkipContext = {
+                  symbol,
+                  timeframe,
+                  patternType: pattern.type,
+                  entryPrice,
+                  direction: pattern.direction,
+                  confluenceScore: 0,
+                  confluenceFactors: {} as any,
+                  patternScore: pattern.score || 0,
+                  patternScoreFactors: {},
+                  mlContext: enrichedMLContext as any,
+                  atr15m: calculateATR(candles),
+                  atr1h: 0,
+                  atr4h: 0,
+                  candidatePlan: {
+                    source: '15m',
+                    sl: riskProfile.sl,
+                    tp1: riskProfile.tp1,
+                    tp2: riskProfile.tp2,
+                    tp3: riskProfile.tp3,
+                  },
+                };
+
                 // ✅ CRITICAL: Set 100% close at TP2 for 15m (not 50/30/20)
-                const signal = await signalDB.createSignal({
+                const plannedSignal: NewSignal = {
+                  venue: exchangeClient.venue,
                   symbol,
                   timeframe,
                   patternType: pattern.type,
@@ -245,28 +314,66 @@ export class Scanner {
                   atrH4: '0', // Not used for 15m
                   direction: pattern.direction,
                   status: 'OPEN',
+                  entryMode: 'market',
                   // ✅ Single-level TP: 100% close at TP2 (2R)
                   partialCloseP1: '0',   // 0% at TP1 (TP1=TP2=TP3 anyway)
                   partialCloseP2: '100', // 100% at TP2 (full close)
                   partialCloseP3: '0',   // 0% at TP3 (not used)
                   strategyProfile: 'SCALP_15M', // Trend-based scalping
+                  trailingMode: getTrailingMode('SCALP_15M'),
                   // ✅ Store actual R values for PnL calc
                   actualRrTp1: riskProfile.meta.tp1R.toString(),
                   actualRrTp2: riskProfile.meta.tp2R.toString(),
                   actualRrTp3: riskProfile.meta.tp3R.toString(),
+                };
+
+                if (waitForConfirmation) {
+                  // Trend rejection is kept on the pending row: an expired / invalidated wait logs it with rejectedByTrend
+                  await confirmationTracker.addPending(plannedSignal, skipContext, lastCandle, !isAligned);
+                  continue;
+                }
+
+                // Limit entry mode for this pattern (ENTRY_MODES) → resting order, filled by SignalTracker
+                const limitEntry = this.getLimitEntry(plannedSignal, lastCandle);
+                if (limitEntry) {
+                  await signalTracker.addPendingEntry(plannedSignal, skipContext, lastCandle, limitEntry.mode, limitEntry.price);
+                  continue;
+                }
+
+                // Portfolio limits (open risk R, direction, family, loss circuit breaker)
+                const portfolioDecision = await portfolioRiskManager.checkCandidate(symbol, pattern.direction);
+                if (!portfolioDecision.allowed) {
+                  const { logNearMissSkip: logNearMissSkipFull } = await import('./nearMissLogger');
+                  await logNearMissSkipFull({
+                    ...skipContext,
+                    skipReason: portfolioDecision.skipReason ?? SKIP_REASONS.PORTFOLIO_BLOCKED,
+                    skipCategory: 'portfolio',
+                  });
+                  continue;
+                }
+
+                const sizing = await positionSizer.sizeSignal(symbol, pattern.direction, entryPrice, riskProfile.sl);
+
+                // Create signal for 15m (trend-aligned)
+                const signal = await signalDB.createSignal({
+                  ...plannedSignal,
+                  ambiguityPolicy: getAmbiguityPolicy(),
+                  ...sizingFields(sizing),
                 });
+                await paperAccount.openPosition(signal);
                 
                 signalsFound++;
                 const elapsedSinceClose = Math.max(0, (Date.now() - lastCandle.closeTime) / 1000).toFixed(1);
                 const directionText = pattern.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
                 const patternName = pattern.type.replace('_', ' ').toUpperCase();
+                const sizingText = sizing ? `\n${formatSizingText(sizing)}\n` : '';
                 
                 const message = `
 🚨 <b>15M TREND SIGNAL ⚡</b> 🚨
 
 💎 <b>Монета:</b> ${symbol}
 📊 <b>Направление:</b> ${directionText}
-⏰ <b>Таймфрейм:</b> ${timeframe}
+⏰ <b>Таймфрейм:</b> ${timeframe}${venueText}
 📈 <b>Паттерн:</b> ${patternName}
 🏷️ <b>Кластер:</b> ${cluster.leader} | ${cluster.sector}
 📈 <b>Тренд:</b> ${trend.direction} (${trend.strength}%)
@@ -278,7 +385,7 @@ export class Scanner {
 ⚡ <b>R:R:</b> 1:${riskProfile.meta.tp2R.toFixed(1)}
 📊 <b>ATR (15m):</b> ${riskProfile.atr15m.toFixed(2)}%
 ⏱️ <b>Задержка:</b> ${elapsedSinceClose}s
-
+${sizingText}
 🎯 <b>Стратегия:</b> Trend-based scalping (15m)
               `.trim();
                 
@@ -297,8 +404,8 @@ export class Scanner {
               console.log(`🎯 [Scanner] Fetching multi-timeframe data for ${symbol}...`);
               
               // Fetch candles for all timeframes (for ATR + S/R zone analysis)
-              const candles1h = await binanceClient.getKlines(symbol, '1h', 350);
-              const candles4h = await binanceClient.getKlines(symbol, '4h', 350);
+              const candles1h = await klineStore.getKlines(symbol, '1h', 350);
+              const candles4h = await klineStore.getKlines(symbol, '4h', 350);
               
               if (candles1h.length < 300 || candles4h.length < 300) {
                 console.log(`⚠️ [Scanner] Insufficient multi-TF candles for ${symbol}, skipping`);
@@ -338,15 +445,15 @@ export class Scanner {
               const atr1h = calculateATR(candles1h);
               const atr4h = calculateATR(candles4h);
               
-              // Get zone test count from zoneTestTracker
-              const zoneTestCount24h = zoneTestTracker.getActiveZoneTestCount(
+              // Get zone test counts from zoneTestTracker (persistent, replayed from stored 15m klines)
+              const zoneTests = await zoneTestTracker.getActiveZoneTestCounts(
                 symbol,
                 pattern.direction,
-                mlResult.mlContext.zones,
-                24
+                mlResult.mlContext.zones
               );
+              const zoneTestCount24h = zoneTests.count24h;
               
-              console.log(`📊 [Scanner] Dynamic input: patternExtreme=${patternExtreme.toFixed(8)}, zoneTestCount24h=${zoneTestCount24h}`);
+              console.log(`📊 [Scanner] Dynamic input: patternExtreme=${patternExtreme.toFixed(8)}, zoneTests 24h/7d/30d=${zoneTests.count24h}/${zoneTests.count7d}/${zoneTests.count30d}`);
               
               // Calculate dynamic risk profile
               const dynamicProfile = calculateDynamicRiskProfile({
@@ -362,6 +469,7 @@ export class Scanner {
                 candles1h, // For trend analysis
                 candles4h, // For trend analysis
                 patternScore: pattern.score, // Pattern quality score (0-10)
+                targetZones: volumeTargetZones(mlResult.mlContext.volumeZones), // TP can stop at POC / HVN / AVWAP
               });
               
               console.log(`✅ [Scanner] Dynamic risk profile: scenario=${dynamicProfile.scenario}, SL=${dynamicProfile.sl.toFixed(8)}, TP1=${dynamicProfile.tp1?.toFixed(8) || 'null'}, TP2=${dynamicProfile.tp2?.toFixed(8) || 'null'}, TP3=${dynamicProfile.tp3?.toFixed(8) || 'null'}`);
@@ -380,7 +488,7 @@ export class Scanner {
               );
               console.log(`✅ [Scanner] ML context enriched with actualRR data`);
               
-              // ⭐ CONFLUENCE SCORING: Professional 8-factor system (required: 5/10 for 15m)
+              // ⭐ CONFLUENCE SCORING: Professional 9-factor system (required: 5/11 for 15m)
               console.log(`\n⭐ [Confluence] Calculating confluence score for ${symbol}...`);
               
               // Calculate volume spike (volume > 1.2x avg of last 20 bars)
@@ -394,13 +502,14 @@ export class Scanner {
               
               const confluenceFactors: ConfluenceFactors = {
                 patternQuality: (pattern.score || 0) >= 7,  // Pattern score ≥ 7/10
-                atKeyZone: mlResult.mlContext.inH4Zone || mlResult.mlContext.distToEntryZoneH1Atr < 0.5, // At H4 zone or very close to H1 ENTRY zone (support for LONG, resistance for SHORT)
+                atKeyZone: mlResult.mlContext.inH4Zone || mlResult.mlContext.distToEntryZoneH1Atr < 0.5 || mlResult.mlContext.distToEntryVolumeZoneAtr < 0.5, // At H4 zone or very close to H1 ENTRY zone (support for LONG, resistance for SHORT) or key volume level
                 trendAligned: dynamicProfile.trendAlignment === 'with',  // Trend aligned
                 volumeSpike: hasVolumeSpike, // Real volume check: current > 1.2x avg(20)
                 zoneFresh: parseInt(mlResult.mlContext.zoneTouchCountBucket) <= 3, // Zone touches ≤ 3
                 multiTFconfluence: dynamicProfile.multiTFAlignment || false,  // Multi-TF alignment
                 cleanRejection: hasCleanRejection, // High pattern score indicates clean rejection
                 rAvailable: dynamicProfile.rAvailable >= 2.0,  // R:R space ≥ 2.0
+                inObFvg: mlResult.mlContext.entryObFvg !== null, // Pattern inside unmitigated order block / FVG
               };
               
               const confluenceScore = calculateConfluenceScore(confluenceFactors);
@@ -429,6 +538,7 @@ export class Scanner {
                   atr15m,
                   atr1h,
                   atr4h,
+                  candidatePlan: getDynamicCandidatePlan(dynamicProfile, mlResult.mlContext),
                 });
                 
                 // Skip this signal and continue to next pattern
@@ -460,6 +570,7 @@ export class Scanner {
                   atr15m,
                   atr1h,
                   atr4h,
+                  candidatePlan: getDynamicCandidatePlan(dynamicProfile, mlResult.mlContext),
                 });
                 
                 // Skip this signal and continue to next pattern
@@ -523,7 +634,26 @@ export class Scanner {
                 console.warn(`⚠️ [Scanner] Failed to calculate dynamic strategy, using defaults:`, error.message);
               }
 
-              const signal = await signalDB.createSignal({
+              // Same payload for an immediate entry and for the confirmation path
+              const skipContext: PendingSkipContext = {
+                symbol,
+                timeframe,
+                patternType: pattern.type,
+                entryPrice,
+                direction: pattern.direction,
+                confluenceScore,
+                confluenceFactors,
+                patternScore: pattern.score || 0,
+                patternScoreFactors: mlResult.mlContext.pattern_score_factors,
+                mlContext: mlResult.mlContext,
+                atr15m,
+                atr1h,
+                atr4h,
+                candidatePlan: getDynamicCandidatePlan(dynamicProfile, mlResult.mlContext),
+              };
+
+              const plannedSignal: NewSignal = {
+                venue: exchangeClient.venue,
                 symbol,
                 timeframe,
                 patternType: pattern.type,
@@ -538,6 +668,7 @@ export class Scanner {
                 atrH4: riskProfile.atr4h.toString(),
                 direction: pattern.direction,
                 status: 'OPEN',
+                entryMode: 'market',
                 // ML context fields (enriched with dynamic risk data)
                 ...extractMLContextFields(enrichedMLContext),
                 // ✅ NEW: Dynamic position management parameters
@@ -546,8 +677,43 @@ export class Scanner {
                   partialCloseP2: dynamicStrategy.p2.toString(),
                   partialCloseP3: dynamicStrategy.p3.toString(),
                   strategyProfile: dynamicStrategy.profile,
+                  trailingMode: getTrailingMode(dynamicStrategy.profile),
                 } : {}),
+              };
+
+              // CONFIRMATION_MODE=all → every pattern waits in PENDING_CONFIRMATION (1h/4h have no trend rejection)
+              if (requiresConfirmation(this.confirmationConfig, false)) {
+                await confirmationTracker.addPending(plannedSignal, skipContext, lastCandle);
+                continue;
+              }
+
+              // Limit entry mode for this pattern (ENTRY_MODES) → resting order, filled by SignalTracker
+              const limitEntry = this.getLimitEntry(plannedSignal, lastCandle, mlResult.mlContext.zones);
+              if (limitEntry) {
+                await signalTracker.addPendingEntry(plannedSignal, skipContext, lastCandle, limitEntry.mode, limitEntry.price);
+                continue;
+              }
+
+              // Portfolio limits (open risk R, direction, family, loss circuit breaker)
+              const portfolioDecision = await portfolioRiskManager.checkCandidate(symbol, pattern.direction);
+              if (!portfolioDecision.allowed) {
+                const { logNearMissSkip: logNearMissSkipFull } = await import('./nearMissLogger');
+                await logNearMissSkipFull({
+                  ...skipContext,
+                  skipReason: portfolioDecision.skipReason ?? SKIP_REASONS.PORTFOLIO_BLOCKED,
+                  skipCategory: 'portfolio',
+                });
+                continue;
+              }
+
+              const sizing = await positionSizer.sizeSignal(symbol, pattern.direction, entryPrice, riskProfile.sl);
+
+              const signal = await signalDB.createSignal({
+                ...plannedSignal,
+                ambiguityPolicy: getAmbiguityPolicy(),
+                ...sizingFields(sizing),
               });
+              await paperAccount.openPosition(signal);
 
               signalsFound++;
               // Calculate delay from candle close time, not scan start time
@@ -555,37 +721,29 @@ export class Scanner {
               const directionText = pattern.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
               const patternName = pattern.type.replace('_', ' ').toUpperCase();
               
-              // 📊 S/R ЗОНЫ С 4H (для legacy отображения) - используем старую функцию
-              console.log(`📊 [Scanner] Fetching legacy 4H S/R zones for ${symbol}...`);
-              let sr4hAnalysis = null;
-              try {
-                if (candles4h.length >= 300) {
-                  sr4hAnalysis = analyzeSRZonesTV(candles4h);
-                  console.log(`✅ [Scanner] 4H S/R zones retrieved successfully`);
-                }
-              } catch (error: any) {
-                console.error(`❌ [Scanner] Failed to fetch 4H S/R zones:`, error.message);
-              }
-              
-              // Форматирование S/R зон с 4H (показываем диапазон)
-              const supportZoneText = sr4hAnalysis?.nearestSupport 
-                ? `${sr4hAnalysis.nearestSupport.lower.toFixed(8)} - ${sr4hAnalysis.nearestSupport.upper.toFixed(8)} (${sr4hAnalysis.nearestSupport.touches} касаний, ${sr4hAnalysis.nearestSupport.strength})`
+              // 📊 S/R ЗОНЫ С 4H - тот же набор зон, что у ML контекста и risk profile (zone engine)
+              const { zones, zoneSource, rankedZones } = mlResult.mlContext;
+              const formatZone = (zone: Zone | undefined) => zone
+                ? `${zone.low.toFixed(8)} - ${zone.high.toFixed(8)} (${zone.touches ?? 0} касаний, ${zone.strength ?? 'weak'})`
                 : 'Не обнаружена';
-              
-              const resistanceZoneText = sr4hAnalysis?.nearestResistance
-                ? `${sr4hAnalysis.nearestResistance.lower.toFixed(8)} - ${sr4hAnalysis.nearestResistance.upper.toFixed(8)} (${sr4hAnalysis.nearestResistance.touches} касаний, ${sr4hAnalysis.nearestResistance.strength})`
+
+              const supportZoneText = formatZone(zones.find(z => z.type === 'support' && z.tf === '4h'));
+              const resistanceZoneText = formatZone(zones.find(z => z.type === 'resistance' && z.tf === '4h'));
+              const strongestZoneText = rankedZones[0]
+                ? `${rankedZones[0].type === 'support' ? 'Поддержка' : 'Сопротивление'} ${formatZone(rankedZones[0])} [${rankedZones[0].tfs.join('+')}]`
                 : 'Не обнаружена';
               
               // Рейтинг сигнала
               const scoreEmoji = pattern.score && pattern.score >= 150 ? '⭐⭐⭐' : '⭐⭐';
               const scoreText = pattern.score ? ` | Score: ${pattern.score}` : '';
+              const sizingText = sizing ? `\n${formatSizingText(sizing)}\n` : '';
 
               const message = `
 🚨 <b>НОВЫЙ СИГНАЛ ${scoreEmoji}</b> 🚨
 
 💎 <b>Монета:</b> ${symbol}
 📊 <b>Направление:</b> ${directionText}
-⏰ <b>Таймфрейм:</b> ${timeframe}
+⏰ <b>Таймфрейм:</b> ${timeframe}${venueText}
 📈 <b>Паттерн:</b> ${patternName}
 🏷️ <b>Кластер:</b> ${cluster.leader} | ${cluster.sector}
 🎯 <b>Стратегия:</b> ${riskProfile.scenario === 'htf_reversal' ? 'HTF Разворот' : 'Тренд'}
@@ -597,10 +755,11 @@ export class Scanner {
 🎯 <b>TP3:</b> ${riskProfile.tp3.toFixed(8)} (${riskProfile.meta.tp3R.toFixed(2)}R)
 
 📊 <b>ATR:</b> 15m=${riskProfile.atr15m.toFixed(8)} | 4h=${riskProfile.atr4h.toFixed(8)}
-📊 <b>S/R Зоны (4H):</b>
+📊 <b>S/R Зоны (4H, ${zoneSource}):</b>
 📍 <b>Поддержка:</b> ${supportZoneText}
 📍 <b>Сопротивление:</b> ${resistanceZoneText}
-
+🧱 <b>Сильнейшая зона:</b> ${strongestZoneText}
+${sizingText}
 🆔 Signal ID: ${signal.id}${scoreText}
 ⚡ <b>Delay:</b> ${elapsedSinceClose}s after candle close
               `.trim();
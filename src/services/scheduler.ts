@@ -1,86 +1,196 @@
-import * as cron from 'node-cron';
 import { scanner } from './scanner';
 import { signalTracker } from './signalTracker';
+import { confirmationTracker } from './confirmationTracker';
+import { klineStore } from './klineStore';
+import { zoneTestTracker } from './zoneTestTracker';
+import { shadowEvaluationService } from './shadowEvaluationService';
+import { binanceClient } from '../utils/binanceClient';
+import { exchangeClient, getLastClosedOpenTime } from '../utils/exchanges';
+import {
+  binanceStream,
+  klineStreamName,
+  MARK_PRICE_ALL_STREAM,
+  STREAM_VENUE,
+  type KlineEvent,
+} from '../utils/binanceStream';
 
+const SCAN_TIMEFRAMES = ['15m', '1h', '4h'];
+const SCAN_SETTLE_MS = 2000;               // Let closed-candle events for the other symbols arrive before scanning
+const OPEN_SIGNALS_REFRESH_MS = 30_000;    // Tick handler picks up signals created outside of scans
+const PAIRS_REFRESH_MS = 60 * 60_000;      // New/delisted pairs → update kline subscriptions
+const POLL_TRACKER_MS = 60_000;            // Signals on venues without a stream: REST check every minute
+const EXPIRY_CHECK_MS = 60_000;            // Max holding time → close at market (TIMEOUT)
+const CONFIRMATION_CHECK_MS = 60_000;      // PENDING_CONFIRMATION patterns: lower-timeframe confirmation / expiry
+const LIMIT_ENTRY_CHECK_MS = 60_000;       // PENDING_ENTRY limit orders: fill simulation on closed 1m candles
+
+/**
+ * Stream-driven scheduler
+ * - Scans start on the first closed-candle event for a timeframe (instead of cron + 10s delay)
+ * - SL/TP checks run on every mark price tick (instead of once-a-minute REST polling)
+ * - Trailing stops are recalculated on every closed candle of the signal timeframe
+ * - Signals past their max holding time are closed at market every minute (TIMEOUT)
+ * - Patterns waiting for confirmation are checked every minute (OPEN signal at the confirmation or skip)
+ * - Resting limit entries are checked every minute (OPEN signal at the fill or cancelled)
+ * - After a restart or stream gap: signals replay every missed 1m candle in order + scan of missed candle closes
+ * - After a restart: zone touch history (zone test counts) is caught up from the stored 15m klines
+ * - Signals on other venues (Bybit/OKX) are tracked by REST polling, candle closes still trigger scans
+ */
 export class Scheduler {
-  private tasks: cron.ScheduledTask[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private lastScanned = new Map<string, number>(); // timeframe → openTime of last scanned candle
+  private scanning = new Set<string>();
+  private backfilling = false;
 
   start(): void {
-    console.log('🚀 [Scheduler] Starting schedulers...');
-
-    this.tasks.push(
-      cron.schedule('0,15,30,45 * * * *', async () => {
-        try {
-          console.log('\n⏰ [Scheduler] 15m candle closed, waiting 10 seconds...');
-          await this.delay(10000);
-          console.log('🚀 [Scheduler] Starting 15m scan...');
-          await scanner.scanTimeframe('15m');
-          console.log('✅ [Scheduler] 15m scan completed');
-        } catch (error: any) {
-          console.error('❌ [Scheduler] 15m scan failed:', error.message);
-          console.error(error.stack);
-        }
-      })
-    );
-
-    this.tasks.push(
-      cron.schedule('0 * * * *', async () => {
-        try {
-          console.log('\n⏰ [Scheduler] 1h candle closed, waiting 10 seconds...');
-          await this.delay(10000);
-          console.log('🚀 [Scheduler] Starting 1h scan...');
-          await scanner.scanTimeframe('1h');
-          console.log('✅ [Scheduler] 1h scan completed');
-        } catch (error: any) {
-          console.error('❌ [Scheduler] 1h scan failed:', error.message);
-          console.error(error.stack);
-        }
-      })
-    );
-
-    this.tasks.push(
-      cron.schedule('0 0,4,8,12,16,20 * * *', async () => {
-        try {
-          console.log('\n⏰ [Scheduler] 4h candle closed, waiting 10 seconds...');
-          await this.delay(10000);
-          console.log('🚀 [Scheduler] Starting 4h scan...');
-          await scanner.scanTimeframe('4h');
-          console.log('✅ [Scheduler] 4h scan completed');
-        } catch (error: any) {
-          console.error('❌ [Scheduler] 4h scan failed:', error.message);
-          console.error(error.stack);
-        }
-      })
-    );
-
-    this.tasks.push(
-      cron.schedule('* * * * *', async () => {
-        try {
-          await signalTracker.trackSignals();
-        } catch (error: any) {
-          console.error('❌ [Scheduler] Signal tracker failed:', error.message);
-          console.error(error.stack);
-        }
-      })
-    );
+    console.log('🚀 [Scheduler] Starting stream-driven schedulers...');
+
+    binanceStream.onKline((event) => this.handleKline(event));
+    binanceStream.onMarkPrice((ticks) => signalTracker.handlePriceTicks(ticks));
+    binanceStream.onReconnect((gapStartMs) => this.handleReconnect(gapStartMs));
+
+    // Startup is not a candle close: wait for the next close event (same as cron)
+    for (const timeframe of SCAN_TIMEFRAMES) {
+      this.lastScanned.set(timeframe, getLastClosedOpenTime(timeframe)!);
+    }
+
+    this.timers.push(setInterval(() => {
+      signalTracker.refreshOpenSignals();
+    }, OPEN_SIGNALS_REFRESH_MS));
+
+    this.timers.push(setInterval(() => {
+      signalTracker.trackSignals((venue) => venue !== STREAM_VENUE);
+    }, POLL_TRACKER_MS));
+
+    this.timers.push(setInterval(() => {
+      signalTracker.closeExpiredSignals();
+    }, EXPIRY_CHECK_MS));
+
+    this.timers.push(setInterval(() => {
+      confirmationTracker.checkPending();
+    }, CONFIRMATION_CHECK_MS));
+
+    this.timers.push(setInterval(() => {
+      signalTracker.checkPendingEntries();
+    }, LIMIT_ENTRY_CHECK_MS));
+
+    this.timers.push(setInterval(() => {
+      this.refreshSubscriptions().catch((error: any) => {
+        console.error('❌ [Scheduler] Failed to refresh stream subscriptions:', error.message);
+      });
+    }, PAIRS_REFRESH_MS));
+
+    shadowEvaluationService.start();
+
+    this.initialize().catch((error: any) => {
+      console.error('❌ [Scheduler] Failed to start stream:', error.message);
+      console.error(error.stack);
+    });
 
     console.log('✅ [Scheduler] All schedulers started successfully');
     console.log('📅 Schedules:');
-    console.log('  - 15m scan: Every 15 minutes (00, 15, 30, 45) + 10s delay');
-    console.log('  - 1h scan:  Every hour at :00 + 10s delay');
-    console.log('  - 4h scan:  Every 4 hours (00, 04, 08, 12, 16, 20) + 10s delay');
-    console.log('  - Tracker:  Every 1 minute (improved accuracy)');
+    console.log(`  - 15m/1h/4h scans: on candle-closed stream event + ${SCAN_SETTLE_MS / 1000}s settle`);
+    console.log(`  - Tracker:  every mark price tick (1s), REST polling for non-${STREAM_VENUE} signals`);
+    console.log(`  - Expiry:   max holding time check every ${EXPIRY_CHECK_MS / 1000}s (TIMEOUT at market)`);
+    console.log(`  - Confirm:  pending confirmations every ${CONFIRMATION_CHECK_MS / 1000}s (bos / rejection / fakey re-entry)`);
+    console.log(`  - Limits:   pending limit entries every ${LIMIT_ENTRY_CHECK_MS / 1000}s (fill / cancel)`);
+    console.log('  - Trailing: SL update on every closed signal-timeframe candle (after the scan)');
+    console.log('  - Backfill: REST catch-up after every stream reconnect');
+    console.log('  - Shadow:   1m replay of sampled skips every minute');
   }
 
   stop(): void {
     console.log('🛑 [Scheduler] Stopping all schedulers...');
-    this.tasks.forEach(task => task.stop());
-    this.tasks = [];
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    binanceStream.stop();
+    shadowEvaluationService.stop();
     console.log('✅ [Scheduler] All schedulers stopped');
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async initialize(): Promise<void> {
+    // Catch up on anything that happened while the process was down
+    await signalTracker.trackSignals();
+    await signalTracker.closeExpiredSignals();
+    await confirmationTracker.checkPending();
+    await signalTracker.checkPendingEntries();
+    await this.refreshSubscriptions();
+    binanceStream.start();
+    await zoneTestTracker.rebuildFromKlines();
+  }
+
+  private async refreshSubscriptions(): Promise<void> {
+    const pairs = await binanceClient.getTradingPairs();
+    const streams = [
+      MARK_PRICE_ALL_STREAM,
+      ...pairs.flatMap(symbol => SCAN_TIMEFRAMES.map(timeframe => klineStreamName(symbol, timeframe))),
+    ];
+    await binanceStream.setStreams(streams);
+  }
+
+  private async handleKline(event: KlineEvent): Promise<void> {
+    if (!event.isClosed) return;
+
+    if (exchangeClient.venue === STREAM_VENUE) {
+      await klineStore.ingestClosedCandle(event.symbol, event.interval, event.candle);
+    }
+    this.triggerScan(event.interval, event.candle.openTime);
+  }
+
+  /**
+   * Start one scan per closed candle (first event wins, the rest are deduplicated)
+   */
+  private triggerScan(timeframe: string, openTime: number): void {
+    if (!SCAN_TIMEFRAMES.includes(timeframe)) return;
+
+    const last = this.lastScanned.get(timeframe);
+    if (last !== undefined && openTime <= last) return;
+    this.lastScanned.set(timeframe, openTime);
+
+    console.log(`\n⏰ [Scheduler] ${timeframe} candle closed, starting scan in ${SCAN_SETTLE_MS / 1000}s...`);
+    setTimeout(() => this.runScan(timeframe), SCAN_SETTLE_MS);
+  }
+
+  private async runScan(timeframe: string): Promise<void> {
+    if (this.scanning.has(timeframe)) {
+      console.warn(`⚠️ [Scheduler] Previous ${timeframe} scan still running, skipping this candle`);
+      return;
+    }
+
+    this.scanning.add(timeframe);
+    try {
+      console.log(`🚀 [Scheduler] Starting ${timeframe} scan...`);
+      await scanner.scanTimeframe(timeframe);
+      await signalTracker.updateTrailingStops(timeframe);
+      await signalTracker.refreshOpenSignals();
+      console.log(`✅ [Scheduler] ${timeframe} scan completed`);
+    } catch (error: any) {
+      console.error(`❌ [Scheduler] ${timeframe} scan failed:`, error.message);
+      console.error(error.stack);
+    } finally {
+      this.scanning.delete(timeframe);
+    }
+  }
+
+  /**
+   * Stream gap: replay the missed 1m candles of active signals, scan missed candle closes
+   */
+  private async handleReconnect(gapStartMs: number): Promise<void> {
+    if (this.backfilling) return;
+    this.backfilling = true;
+
+    try {
+      const gapMinutes = Math.ceil((Date.now() - gapStartMs) / 60_000) + 1;
+      console.log(`🔄 [Scheduler] Backfilling ${gapMinutes} minute(s) after stream gap...`);
+      await signalTracker.trackSignals();
+
+      for (const timeframe of SCAN_TIMEFRAMES) {
+        this.triggerScan(timeframe, getLastClosedOpenTime(timeframe)!);
+      }
+    } catch (error: any) {
+      console.error('❌ [Scheduler] Backfill after reconnect failed:', error.message);
+    } finally {
+      this.backfilling = false;
+    }
   }
 }
 
@@ -2,11 +2,26 @@
  * Shadow Evaluation Service
  * 
  * Tracks virtual positions for sampled near-miss SKIPs
- * Runs every 1 minute to update tracking_1m_shadow and check for TP/SL hits
+ * Runs every 1 minute: replays the 1m candles closed since the last pass against the
+ * candidate SL/TP stored on the skip (same first-touch rules as the live tracker)
+ * until TP/SL is touched or the timeframe timeout is reached
  */
 
-import { shadowEvaluationDB, tracking1mShadowDB, nearMissSkipDB } from '../mastra/storage/db';
-import { binanceClient } from '../utils/binanceClient';
+import { shadowEvaluationDB, nearMissSkipDB } from '../mastra/storage/db';
+import type { NearMissSkip, ShadowEvaluation } from '../mastra/storage/schema';
+import { exchangeClient } from '../utils/exchanges';
+import {
+  replayShadow,
+  fetchReplayCandles,
+  initialReplayState,
+  isValidCandidatePlan,
+  getShadowTimeoutMs,
+  type CandidatePlan,
+  type ShadowPlan,
+  type ShadowReplayState,
+} from '../utils/shadowReplay';
+
+const MINUTE_MS = 60_000;
 
 export class ShadowEvaluationService {
   private intervalMs: number = 60 * 1000; // 1 minute
@@ -73,8 +88,9 @@ export class ShadowEvaluationService {
   
   /**
    * Process a single shadow evaluation
+   * Replays new closed 1m candles against the candidate SL/TP stored on the skip
    */
-  private async processShadowEvaluation(shadow: any) {
+  private async processShadowEvaluation(shadow: ShadowEvaluation) {
     try {
       // Get near-miss skip record for context
       const skip = await nearMissSkipDB.getNearMissSkipBySignalId(shadow.signalId);
@@ -84,121 +100,87 @@ export class ShadowEvaluationService {
         return;
       }
       
-      // Get current price from Binance
-      const symbol = skip.symbol;
-      const currentPrice = await this.getCurrentPrice(symbol);
-      
-      if (!currentPrice) {
-        console.error(`❌ [ShadowEval] Failed to get current price for ${symbol}`);
+      const plan = this.buildPlan(shadow, skip);
+      if (!plan) {
+        // Legacy skips (before candidate SL/TP was stored) have nothing to replay against
+        console.warn(`⚠️ [ShadowEval] No candidate SL/TP for shadow ${shadow.id} (${skip.symbol}), closing without outcome`);
+        await shadowEvaluationDB.updateShadowEvaluation(shadow.id, { isActive: false, completedAt: new Date() });
         return;
       }
       
-      // Calculate virtual position metrics
-      const entryPrice = parseFloat(shadow.hypotheticalEntryPrice);
-      const direction = skip.side;
-      
-      // Calculate SL/TP - use simple 1% risk as fallback to avoid division-by-zero
-      // TODO: Store candidateSL in near_miss_skips for accurate SL/TP
-      const riskPts = entryPrice * 0.01; // Simple 1% risk as safe fallback
+      const state: ShadowReplayState = shadow.replayedUntil
+        ? {
+            mfeR: parseFloat(shadow.shadowMfeR || '0'),
+            maeR: parseFloat(shadow.shadowMaeR || '0'),
+            replayedUntil: shadow.replayedUntil.getTime(),
+            lastClose: null,
+          }
+        : initialReplayState(plan.entryTime);
       
-      let slPrice: number;
-      let tp1Price: number;
+      // Closed 1m candles from the replay cursor up to the deadline (capped per pass)
+      const candles = await fetchReplayCandles(exchangeClient, skip.symbol, plan, state);
       
-      if (direction === 'LONG') {
-        slPrice = entryPrice - riskPts;
-        tp1Price = entryPrice + (riskPts * 2); // 2R TP
-      } else {
-        slPrice = entryPrice + riskPts;
-        tp1Price = entryPrice - (riskPts * 2);
+      if (candles.length > 0 && candles[0].openTime > state.replayedUntil) {
+        console.warn(`⚠️ [ShadowEval] Shadow ${shadow.id}: 1m history gap of ${Math.round((candles[0].openTime - state.replayedUntil) / MINUTE_MS)} min, replaying what is available`);
       }
       
-      // Calculate MFE and MAE
-      const priceDiff = currentPrice - entryPrice;
-      const priceDiffR = priceDiff / riskPts;
-      
-      let currentMFE = shadow.currentMfe ? parseFloat(shadow.currentMfe) : 0;
-      let currentMAE = shadow.currentMae ? parseFloat(shadow.currentMae) : 0;
-      
-      if (direction === 'LONG') {
-        currentMFE = Math.max(currentMFE, priceDiffR); // Max favorable
-        currentMAE = Math.min(currentMAE, priceDiffR); // Min adverse (most negative)
-      } else {
-        currentMFE = Math.max(currentMFE, -priceDiffR); // Max favorable (price went down)
-        currentMAE = Math.min(currentMAE, -priceDiffR); // Min adverse
-      }
-      
-      // Check for TP/SL hits
-      let hitEvent: 'tp1' | 'sl' | null = null;
-      let shouldClose = false;
-      
-      if (direction === 'LONG') {
-        if (currentPrice >= tp1Price) {
-          hitEvent = 'tp1';
-          shouldClose = true;
-        } else if (currentPrice <= slPrice) {
-          hitEvent = 'sl';
-          shouldClose = true;
-        }
-      } else {
-        if (currentPrice <= tp1Price) {
-          hitEvent = 'tp1';
-          shouldClose = true;
-        } else if (currentPrice >= slPrice) {
-          hitEvent = 'sl';
-          shouldClose = true;
-        }
-      }
-      
-      // Record 1m snapshot
-      await tracking1mShadowDB.createTracking1mShadow({
-        shadowEvalId: shadow.id,
-        bar1mTs: new Date(),
-        high: currentPrice.toString(),
-        low: currentPrice.toString(),
-      });
-      
-      // Update shadow evaluation with current MFE/MAE
-      await shadowEvaluationDB.updateShadowEvaluation(shadow.id, {
-        currentMfe: currentMFE.toFixed(4),
-        currentMae: currentMAE.toFixed(4),
-      });
+      const result = replayShadow(plan, candles, state);
       
-      // If TP/SL hit - close shadow evaluation
-      if (shouldClose) {
-        const timeToHitMin = Math.floor(
-          (Date.now() - new Date(shadow.hypotheticalEntryTime).getTime()) / (1000 * 60)
-        );
-        
-        const finalPnlR = hitEvent === 'tp1' ? 2.0 : -1.0; // Simplified: 2R win or 1R loss
-        
-        await shadowEvaluationDB.closeShadowEvaluation(shadow.id, {
-          finalPnlR: finalPnlR.toFixed(4),
-          finalMfe: currentMFE.toFixed(4),
-          finalMae: currentMAE.toFixed(4),
-          firstTouch: hitEvent || 'timeout',
-          timeToFirstTouchMin: timeToHitMin,
+      if (!result.outcome) {
+        await shadowEvaluationDB.updateShadowEvaluation(shadow.id, {
+          shadowMfeR: result.mfeR.toFixed(4),
+          shadowMaeR: result.maeR.toFixed(4),
+          replayedUntil: new Date(result.replayedUntil),
         });
-        
-        console.log(`🎯 [ShadowEval] Shadow ${shadow.id} closed: ${hitEvent} hit after ${timeToHitMin}min (PnL: ${finalPnlR.toFixed(2)}R)`);
+        return;
       }
+      
+      await shadowEvaluationDB.completeShadowEvaluation(
+        shadow.id,
+        result.outcome,
+        result.mfeR,
+        result.maeR,
+        result.timeToFirstTouchMin,
+        result.pnlR
+      );
+      
+      const pnlText = result.pnlR !== null ? `${result.pnlR.toFixed(2)}R` : 'n/a';
+      const touchText = result.timeToFirstTouchMin !== null ? ` after ${result.timeToFirstTouchMin}min` : '';
+      console.log(`🎯 [ShadowEval] Shadow ${shadow.id} (${skip.symbol}, ${shadow.reasonCode}) closed: ${result.outcome}${touchText} (PnL: ${pnlText}, MFE ${result.mfeR.toFixed(2)}R, MAE ${result.maeR.toFixed(2)}R)`);
     } catch (error: any) {
       console.error(`❌ [ShadowEval] Error processing shadow ${shadow.id}:`, error.message);
     }
   }
   
   /**
-   * Get current price for a symbol
+   * Candidate plan stored on the skip + entry from the shadow record
    */
-  private async getCurrentPrice(symbol: string): Promise<number | null> {
-    try {
-      const klines = await binanceClient.getKlines(symbol, '1m', 1);
-      if (klines.length === 0) return null;
-      
-      return parseFloat(klines[0].close);
-    } catch (error: any) {
-      console.error(`❌ [ShadowEval] Error fetching price for ${symbol}:`, error.message);
+  private buildPlan(shadow: ShadowEvaluation, skip: NearMissSkip): ShadowPlan | null {
+    if (!skip.candidateSl || !skip.candidateTp1 || !skip.candidateTp2) {
       return null;
     }
+    
+    const entryPrice = parseFloat(shadow.hypotheticalEntryPrice);
+    const entryTime = shadow.hypotheticalEntryTime.getTime();
+    const candidate: CandidatePlan = {
+      source: (skip.candidatePlanSource || 'standard') as CandidatePlan['source'],
+      sl: parseFloat(skip.candidateSl),
+      tp1: parseFloat(skip.candidateTp1),
+      tp2: parseFloat(skip.candidateTp2),
+      tp3: skip.candidateTp3 ? parseFloat(skip.candidateTp3) : null,
+    };
+    
+    if (!isValidCandidatePlan(skip.side, entryPrice, candidate)) {
+      return null;
+    }
+    
+    return {
+      ...candidate,
+      direction: skip.side,
+      entryPrice,
+      entryTime,
+      deadline: entryTime + getShadowTimeoutMs(skip.entryTf),
+    };
   }
 }
 
@@ -1,28 +1,70 @@
-import { signalDB } from '../mastra/storage/db';
-import { binanceClient } from '../utils/binanceClient';
+import { pendingSignalDB, signalDB } from '../mastra/storage/db';
+import type { NewSignal, PendingSignal, Signal } from '../mastra/storage/schema';
+import { exchangeClient, getExchangeClient, intervalToMs, type Candle } from '../utils/exchanges';
+import { STREAM_VENUE, type MarkPriceEvent } from '../utils/binanceStream';
 import { riskCalculator } from '../utils/riskCalculator';
+import { klineStore } from './klineStore';
+import { paperAccount } from './paperAccount';
+import {
+  calculateTrailingStop,
+  getTrailingConfig,
+  isTrackedStatus,
+  isTrailingEnabled,
+  resolveStopExitStatus,
+  stopToR,
+  tightenStop,
+} from '../utils/trailingStop';
+import { getExpiryTime, isSignalExpired } from '../utils/signalExpiry';
+import { floorToMinute, getCatchUpStart, replayMinutes, MINUTE_MS } from '../utils/trackerCatchUp';
+import { minutesSince, parseExcursion, timeToEventUpdates, updateExcursion } from '../utils/excursion';
+import { getSignalCostContext, netPnlFields } from '../utils/executionCosts';
+import {
+  firstTouchInCandles,
+  firstTouchInTrades,
+  getSignalAmbiguityPolicy,
+  nextTpLevel,
+  sameCandlePriority,
+  type FirstTouch,
+} from '../utils/ambiguityPolicy';
 import { 
   calculateTradeOutcome, 
   calculatePartialClosedPercent,
+  getSignalStrategyParams,
   getStatusEmoji, 
   formatPnL,
   formatPnLR 
 } from '../utils/tradeOutcomes';
+import { getLimitEntryConfig, simulateLimitFill, type EntryMode } from '../utils/limitEntry';
+import { rescaleRr } from '../utils/confirmationEntry';
+import { SKIP_REASONS } from '../types/skipReasons';
+import { logNearMissSkip } from './nearMissLogger';
+import { confirmationTracker, type PendingSkipContext } from './confirmationTracker';
+import { formatSizingText } from './positionSizer';
 import axios from 'axios';
 
+const TRAILING_CANDLES = 100; // Signal-timeframe history for ATR / chandelier / swing trails
+const TICK_GAP_MS = 10_000;   // Mark price stream is 1s: a longer pause means ticks did not cover the interval
+
 export class SignalTracker {
   private telegramChatId: string;
   private telegramBotToken: string;
+  private openSignalsBySymbol = new Map<string, Signal[]>();
+  private busySymbols = new Set<string>();
+  private restPassRunning = false;
+  private lastTickAt = 0;            // Last mark price tick applied by the tick handler
+  private tickCoverageBroken = false; // Stream gap since the last REST pass → don't advance lastProcessedMinute from ticks
+  private excursionDirty = new Set<number>(); // Cached signals with MFE/MAE extended by ticks, flushed on refresh
+  private limitEntryConfig = getLimitEntryConfig();
 
   constructor() {
     this.telegramChatId = process.env.TELEGRAM_CHAT_ID || '';
     this.telegramBotToken = process.env.TELEGRAM_BOT_TOKEN || '';
   }
 
-  async sendTelegramMessage(message: string, replyToMessageId?: number): Promise<void> {
+  async sendTelegramMessage(message: string, replyToMessageId?: number): Promise<number | null> {
     if (!this.telegramBotToken || !this.telegramChatId) {
       console.warn('⚠️ [SignalTracker] Telegram credentials not configured, skipping message send');
-      return;
+      return null;
     }
 
     try {
@@ -36,145 +78,751 @@ export class SignalTracker {
         payload.reply_to_message_id = replyToMessageId;
       }
 
-      await axios.post(`https://api.telegram.org/bot${this.telegramBotToken}/sendMessage`, payload);
+      const response = await axios.post(`https://api.telegram.org/bot${this.telegramBotToken}/sendMessage`, payload);
       console.log('✅ [SignalTracker] Telegram message sent successfully');
+      return response.data.result.message_id;
     } catch (error: any) {
       console.error('❌ [SignalTracker] Failed to send Telegram message:', error.message);
+      return null;
     }
   }
 
-  async trackSignals(): Promise<void> {
+  /**
+   * REST pass over active signals (startup, backfill after a stream gap, venues without a stream)
+   * Replays every 1m candle since the last processed minute of each signal, then checks the open candle
+   * venueFilter: only track signals from matching venues (default: all)
+   */
+  async trackSignals(venueFilter?: (venue: string) => boolean): Promise<void> {
     console.log('\n👀 [SignalTracker] Checking open signals...');
+    const coversStreamVenue = !venueFilter || venueFilter(STREAM_VENUE);
+    if (coversStreamVenue) {
+      this.restPassRunning = true;
+    }
 
     try {
-      const openSignals = await signalDB.getOpenSignals();
+      const openSignals = (await signalDB.getActiveSignals())
+        .filter(signal => !venueFilter || venueFilter(signal.venue));
       console.log(`📊 [SignalTracker] Found ${openSignals.length} open signals`);
 
       for (const signal of openSignals) {
         try {
-          // Get last 2 x 1m candles INCLUDING current open candle
-          // This ensures we catch TP/SL hits that happen INSIDE the current minute
-          const candles = await binanceClient.getKlines(signal.symbol, '1m', 2, true);
-          
-          if (candles.length === 0) {
-            console.warn(`⚠️ [SignalTracker] No 1m candles for ${signal.symbol}, skipping`);
-            continue;
+          await this.catchUpSignal(signal);
+        } catch (error: any) {
+          console.error(`❌ [SignalTracker] Error tracking signal ${signal.id}:`, error.message);
+        }
+      }
+
+      if (coversStreamVenue) {
+        // Everything up to now is replayed → ticks cover the stream venue again
+        this.tickCoverageBroken = false;
+        this.lastTickAt = 0;
+        await this.refreshOpenSignals();
+      }
+      console.log('✅ [SignalTracker] Completed signal tracking');
+    } catch (error: any) {
+      console.error('❌ [SignalTracker] Fatal error during signal tracking:', error.message);
+    } finally {
+      if (coversStreamVenue) {
+        this.restPassRunning = false;
+      }
+    }
+  }
+
+  /**
+   * Sequential replay of closed 1m candles since lastProcessedMinute + check of the current open candle
+   */
+  private async catchUpSignal(signal: Signal): Promise<void> {
+    const client = getExchangeClient(signal.venue);
+    const from = getCatchUpStart(signal);
+    // INCLUDING current open candle: catches TP/SL hits that happen INSIDE the current minute
+    const candles = await client.getKlinesSince(signal.symbol, '1m', from, true);
+    if (candles.length === 0) {
+      console.warn(`⚠️ [SignalTracker] No 1m candles for ${signal.symbol}, skipping`);
+      return;
+    }
+
+    const now = Date.now();
+    const closed = candles.filter(c => c.closeTime < now);
+    const open = candles.filter(c => c.closeTime >= now);
+    if (closed.length > 1) {
+      console.log(`⏪ [SignalTracker] Signal ${signal.id}: replaying ${closed.length} missed 1m candles since ${new Date(from).toISOString()}`);
+    }
+
+    const timeframeMs = intervalToMs(signal.timeframe) ?? MINUTE_MS;
+    const trailingCandles = await this.getCatchUpTrailingCandles(signal, closed, timeframeMs);
+
+    const result = await replayMinutes(signal, closed, timeframeMs, {
+      expiresAt: getExpiryTime(signal),
+      isTracked: (s) => isTrackedStatus(s.status, s.trailingMode),
+      trail: trailingCandles
+        ? (s, boundary) => this.trailSignal(s, trailingCandles.filter(c => c.openTime + timeframeMs <= boundary).slice(-TRAILING_CANDLES))
+        : undefined,
+      expire: (s, candle) => this.closeAtMarket(s, Number(candle.open), candle.openTime),
+      apply: async (s, candle) => {
+        const extended = this.withExcursion(s, Number(candle.high), Number(candle.low));
+        const touched = this.isLevelTouched(s, Number(candle.high)) || this.isLevelTouched(s, Number(candle.low));
+        if (!touched) return extended;
+        return (await this.checkSignal(extended, [candle], Number(candle.close))) ?? extended;
+      },
+    });
+
+    if (result.processedUntil !== null) {
+      const { mfeR, maeR } = parseExcursion(result.signal.mfeR, result.signal.maeR);
+      await signalDB.updateSignalMetrics(signal.id, { lastProcessedMinute: result.processedUntil });
+      await signalDB.recordExcursion(signal.id, mfeR, maeR);
+    }
+    if (result.closed || open.length === 0) return;
+
+    const currentPrice = await client.getCurrentPrice(signal.symbol);
+    const withOpenCandle = this.withExcursion(
+      result.signal,
+      Math.max(...open.map(c => Number(c.high))),
+      Math.min(...open.map(c => Number(c.low)))
+    );
+    const updated = await this.checkSignal(withOpenCandle, open, currentPrice);
+    if (updated) {
+      this.updateCachedSignal(updated);
+    }
+  }
+
+  /**
+   * Signal-timeframe history for trailing updates at the bar boundaries crossed by the replay
+   * (null = no candle-based trailing or no boundary inside the replayed minutes)
+   */
+  private async getCatchUpTrailingCandles(signal: Signal, minutes: Candle[], timeframeMs: number): Promise<Candle[] | null> {
+    if (!isTrailingEnabled(signal.trailingMode) || signal.trailingMode === 'tp_step') return null;
+
+    const firstBoundary = minutes.find(c => c.openTime % timeframeMs === 0);
+    if (!firstBoundary) return null;
+
+    return await getExchangeClient(signal.venue)
+      .getKlinesSince(signal.symbol, signal.timeframe, firstBoundary.openTime - TRAILING_CANDLES * timeframeMs);
+  }
+
+  /**
+   * Reload open signals used by the tick handler (new signals appear after each scan)
+   * Only signals from the streamed venue — mark prices of other venues differ
+   * Includes TP1/TP2 runners of trailing signals
+   */
+  async refreshOpenSignals(): Promise<void> {
+    try {
+      // Minutes fully covered by ticks count as processed (restart catch-up resumes after them)
+      const tickCovered = this.lastTickAt > 0 && !this.tickCoverageBroken && !this.restPassRunning;
+      if (tickCovered) {
+        const streamedIds = [...this.openSignalsBySymbol.values()].flat().map(signal => signal.id);
+        await signalDB.markProcessedUntil(streamedIds, floorToMinute(this.lastTickAt) - MINUTE_MS);
+      }
+      await this.flushExcursions();
+
+      const openSignals = await signalDB.getActiveSignals();
+      const bySymbol = new Map<string, Signal[]>();
+      for (const signal of openSignals) {
+        if (signal.venue !== STREAM_VENUE) continue;
+        const list = bySymbol.get(signal.symbol) || [];
+        list.push(signal);
+        bySymbol.set(signal.symbol, list);
+      }
+      this.openSignalsBySymbol = bySymbol;
+    } catch (error: any) {
+      console.error('❌ [SignalTracker] Failed to refresh open signals:', error.message);
+    }
+  }
+
+  /**
+   * SL/TP check on every mark price tick from the WebSocket stream
+   */
+  async handlePriceTicks(ticks: MarkPriceEvent[]): Promise<void> {
+    // REST pass is updating the same signals → avoid double status changes
+    if (this.restPassRunning) return;
+
+    const tickTime = Math.max(...ticks.map(tick => tick.eventTime));
+    if (this.lastTickAt > 0 && tickTime - this.lastTickAt > TICK_GAP_MS) {
+      this.tickCoverageBroken = true; // Waits for the reconnect backfill pass
+    }
+    this.lastTickAt = Math.max(this.lastTickAt, tickTime);
+
+    for (const tick of ticks) {
+      const cached = this.openSignalsBySymbol.get(tick.symbol);
+      if (!cached || cached.length === 0) continue;
+
+      // MFE/MAE from every tick (written to DB on the next refresh)
+      const signals = cached.map(signal => this.withExcursion(signal, tick.markPrice, tick.markPrice));
+      signals.forEach((signal, i) => {
+        if (signal !== cached[i]) this.excursionDirty.add(signal.id);
+      });
+      this.openSignalsBySymbol.set(tick.symbol, signals);
+      if (this.busySymbols.has(tick.symbol)) continue;
+
+      const touched = signals.filter(signal => this.isLevelTouched(signal, tick.markPrice));
+      if (touched.length === 0) continue;
+
+      this.busySymbols.add(tick.symbol);
+      try {
+        const tickCandle: Candle = {
+          openTime: tick.eventTime,
+          open: tick.markPrice.toString(),
+          high: tick.markPrice.toString(),
+          low: tick.markPrice.toString(),
+          close: tick.markPrice.toString(),
+          volume: '0',
+          closeTime: tick.eventTime,
+        };
+
+        for (const signal of touched) {
+          try {
+            const updated = await this.checkSignal(signal, [tickCandle], tick.markPrice);
+            if (updated) {
+              this.updateCachedSignal(updated);
+            }
+          } catch (error: any) {
+            console.error(`❌ [SignalTracker] Error tracking signal ${signal.id} on tick:`, error.message);
+          }
+        }
+      } finally {
+        this.busySymbols.delete(tick.symbol);
+      }
+    }
+  }
+
+  /**
+   * Signal with MFE/MAE extended by a price range (same object if nothing changed)
+   */
+  private withExcursion(signal: Signal, high: number, low: number): Signal {
+    const current = parseExcursion(signal.mfeR, signal.maeR);
+    const next = updateExcursion(current, {
+      direction: signal.direction,
+      entryPrice: parseFloat(signal.entryPrice),
+      slPrice: parseFloat(signal.slPrice),
+    }, high, low);
+    if (next.mfeR === current.mfeR && next.maeR === current.maeR) return signal;
+    return { ...signal, mfeR: next.mfeR.toFixed(4), maeR: next.maeR.toFixed(4) };
+  }
+
+  private async flushExcursions(): Promise<void> {
+    const dirty = [...this.openSignalsBySymbol.values()].flat().filter(signal => this.excursionDirty.has(signal.id));
+    this.excursionDirty.clear();
+    for (const signal of dirty) {
+      const { mfeR, maeR } = parseExcursion(signal.mfeR, signal.maeR);
+      await signalDB.recordExcursion(signal.id, mfeR, maeR);
+    }
+  }
+
+  /**
+   * Keep the tick cache in sync after a status change or SL move
+   * Closed signals are dropped, trailing runners stay with their new SL/status
+   */
+  private updateCachedSignal(updated: Signal): void {
+    const others = (this.openSignalsBySymbol.get(updated.symbol) || []).filter(s => s.id !== updated.id);
+    const tracked = isTrackedStatus(updated.status, updated.trailingMode) && updated.venue === STREAM_VENUE;
+    this.openSignalsBySymbol.set(updated.symbol, tracked ? [...others, updated] : others);
+  }
+
+  /**
+   * TP3 to check: null if not set or equal to TP2 (single-level TP)
+   */
+  private getTp3ForCheck(signal: Signal): number | null {
+    // ✅ Smart TP3 detection: if tp2 and tp3 are equal (or very close), treat as single-level TP
+    // This prevents TP3_HIT misdetection for 15m scalp signals where tp1=tp2=tp3=2R
+    const tp2Value = parseFloat(signal.tp2Price);
+    const tp3Value = signal.tp3Price ? parseFloat(signal.tp3Price) : null;
+    const PRICE_TOLERANCE = tp2Value * 0.0001; // 0.01% tolerance for price equality
+
+    // If tp3 exists AND is within tolerance of tp2, treat as null (single-level TP)
+    const tp3EqualsTP2 = tp3Value !== null && Math.abs(tp3Value - tp2Value) < PRICE_TOLERANCE;
+    return tp3EqualsTP2 ? null : tp3Value;
+  }
+
+  /**
+   * Cheap pre-check: only run the full status check when price reaches the next TP or current SL
+   * (TP1 for OPEN signals, TP2/TP3 for trailing runners)
+   */
+  private isLevelTouched(signal: Signal, price: number): boolean {
+    const target = signal.status === 'TP2_HIT'
+      ? this.getTp3ForCheck(signal)
+      : signal.status === 'TP1_HIT'
+        ? parseFloat(signal.tp2Price)
+        : signal.tp1Price ? parseFloat(signal.tp1Price) : parseFloat(signal.entryPrice);
+    const sl = parseFloat(signal.currentSl);
+    return signal.direction === 'LONG'
+      ? (target !== null && price >= target) || price <= sl
+      : (target !== null && price <= target) || price >= sl;
+  }
+
+  /**
+   * Trailing SL update on a closed signal-timeframe candle (atr / chandelier / swing modes)
+   * tp_step signals only move SL on TP hits (handled in checkSignal)
+   */
+  async updateTrailingStops(timeframe: string): Promise<void> {
+    try {
+      const trailing = (await signalDB.getActiveSignals())
+        .filter(signal => signal.timeframe === timeframe && isTrailingEnabled(signal.trailingMode) && signal.trailingMode !== 'tp_step');
+      if (trailing.length === 0) return;
+
+      console.log(`🔄 [SignalTracker] Updating trailing stops for ${trailing.length} ${timeframe} signal(s)...`);
+      for (const signal of trailing) {
+        try {
+          const candles = signal.venue === exchangeClient.venue
+            ? await klineStore.getKlines(signal.symbol, signal.timeframe, TRAILING_CANDLES)
+            : await getExchangeClient(signal.venue).getKlines(signal.symbol, signal.timeframe, TRAILING_CANDLES);
+          await this.trailSignal(signal, candles);
+        } catch (error: any) {
+          console.error(`❌ [SignalTracker] Error trailing SL of signal ${signal.id}:`, error.message);
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ [SignalTracker] Failed to update trailing stops:', error.message);
+    }
+  }
+
+  /**
+   * Time-based exit: signals past their max holding time are closed at market (status TIMEOUT)
+   */
+  async closeExpiredSignals(now: number = Date.now()): Promise<void> {
+    try {
+      const expired = (await signalDB.getActiveSignals()).filter(signal => isSignalExpired(signal, now));
+      if (expired.length === 0) return;
+
+      console.log(`⏰ [SignalTracker] Closing ${expired.length} expired signal(s) at market...`);
+      for (const signal of expired) {
+        // Tick check in progress for this symbol → next pass
+        if (this.busySymbols.has(signal.symbol)) continue;
+
+        this.busySymbols.add(signal.symbol);
+        try {
+          const price = await getExchangeClient(signal.venue).getCurrentPrice(signal.symbol);
+          await this.closeAtMarket(signal, price, now);
+        } catch (error: any) {
+          console.error(`❌ [SignalTracker] Error closing expired signal ${signal.id}:`, error.message);
+        } finally {
+          this.busySymbols.delete(signal.symbol);
+        }
+      }
+    } catch (error: any) {
+      console.error('❌ [SignalTracker] Failed to close expired signals:', error.message);
+    }
+  }
+
+  /**
+   * Scanner: place a resting limit entry instead of entering at the pattern close
+   */
+  async addPendingEntry(
+    plannedSignal: NewSignal,
+    skipContext: PendingSkipContext,
+    patternCandle: Candle,
+    entryMode: EntryMode,
+    limitPrice: number
+  ): Promise<void> {
+    try {
+      const timeframeMs = intervalToMs(plannedSignal.timeframe) ?? 15 * 60_000;
+      const placedAt = patternCandle.closeTime + 1;
+
+      const pending = await pendingSignalDB.createPending({
+        venue: plannedSignal.venue,
+        symbol: plannedSignal.symbol,
+        timeframe: plannedSignal.timeframe,
+        patternType: plannedSignal.patternType,
+        direction: plannedSignal.direction,
+        confirmType: 'none',
+        status: 'PENDING_ENTRY',
+        entryMode,
+        limitPrice: limitPrice.toString(),
+        patternClose: plannedSignal.entryPrice,
+        patternHigh: patternCandle.high,
+        patternLow: patternCandle.low,
+        slPrice: plannedSignal.slPrice,
+        tp1Price: plannedSignal.tp1Price || plannedSignal.tp2Price,
+        patternCloseTime: placedAt,
+        expiresAt: placedAt + this.limitEntryConfig.expiryBars * timeframeMs,
+        plannedSignal,
+        skipContext,
+      });
+      console.log(`📥 [SignalTracker] ${pending.symbol} ${pending.direction} ${entryMode} limit @ ${limitPrice} (close ${pending.patternClose}, until ${new Date(pending.expiresAt).toISOString()})`);
+
+      const slPrice = parseFloat(pending.slPrice);
+      const tpPrices = [plannedSignal.tp1Price || plannedSignal.tp2Price, plannedSignal.tp2Price].map(parseFloat);
+      const [tp1R, tp2R] = rescaleRr(limitPrice, slPrice, tpPrices);
+      const directionText = pending.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+      const message = `
+📥 <b>ЛИМИТНЫЙ ВХОД</b> 📥
+
+💎 <b>Монета:</b> ${pending.symbol}
+📊 <b>Направление:</b> ${directionText}
+⏰ <b>Таймфрейм:</b> ${pending.timeframe}
+📈 <b>Паттерн:</b> ${pending.patternType.replace('_', ' ').toUpperCase()}
+
+💰 <b>Limit:</b> ${limitPrice.toFixed(8)} (${entryMode}, закрытие ${parseFloat(pending.patternClose).toFixed(8)})
+🛑 <b>Stop Loss:</b> ${slPrice.toFixed(8)}
+🎯 <b>TP1:</b> ${tpPrices[0].toFixed(8)} (${tp1R.toFixed(2)}R от лимита)
+🎯 <b>TP2:</b> ${tpPrices[1].toFixed(8)} (${tp2R.toFixed(2)}R от лимита)
+
+Ордер снимается через ${this.limitEntryConfig.expiryBars} бара ${pending.timeframe} или при достижении TP1 без входа
+      `.trim();
+
+      const messageId = await this.sendTelegramMessage(message);
+      if (messageId) {
+        await pendingSignalDB.updateTelegramMessageId(pending.id, messageId);
+      }
+    } catch (error: any) {
+      console.error(`❌ [SignalTracker] Failed to place limit entry for ${plannedSignal.symbol}:`, error.message);
+    }
+  }
+
+  /**
+   * Fill simulation of resting limit entries on closed 1m candles (every minute)
+   * Fill → OPEN signal at the fill price (created at the fill minute and replayed from it),
+   * expiry / TP1 before the fill → cancelled, logged as a near-miss skip
+   */
+  async checkPendingEntries(now: number = Date.now()): Promise<void> {
+    try {
+      const pending = await pendingSignalDB.getPendingEntries();
+      let filled = false;
+      for (const entry of pending) {
+        try {
+          const candles = await getExchangeClient(entry.venue).getKlinesSince(entry.symbol, '1m', entry.patternCloseTime);
+          const result = simulateLimitFill({
+            direction: entry.direction,
+            limitPrice: parseFloat(entry.limitPrice!),
+            tp1Price: parseFloat(entry.tp1Price),
+            placedAt: entry.patternCloseTime,
+            expiresAt: entry.expiresAt,
+          }, candles.filter(c => c.closeTime < now), now);
+
+          if (result.state === 'filled') {
+            filled = (await this.fillPendingEntry(entry, result.price, result.time)) || filled;
+          } else if (result.state === 'cancelled') {
+            await this.cancelPendingEntry(entry, result.reason);
           }
+        } catch (error: any) {
+          console.error(`❌ [SignalTracker] Failed to check limit entry ${entry.id} (${entry.symbol}):`, error.message);
+        }
+      }
+      if (filled) {
+        await this.refreshOpenSignals();
+      }
+    } catch (error: any) {
+      console.error('❌ [SignalTracker] Failed to load pending limit entries:', error.message);
+    }
+  }
+
+  private async fillPendingEntry(entry: PendingSignal, price: number, time: number): Promise<boolean> {
+    const opened = await confirmationTracker.openFromPending(
+      entry,
+      price,
+      { entryMode: entry.entryMode, createdAt: new Date(time) },
+      { entryMode: entry.entryMode }
+    );
+    if (!opened) return false;
+
+    const { signal, sizing, slPrice, tpPrices, rr } = opened;
+    await pendingSignalDB.resolvePending(entry.id, 'FILLED', signal.id);
+    const waitedMin = Math.round((time - entry.patternCloseTime) / 60_000);
+    console.log(`📥 [SignalTracker] ${entry.symbol} ${entry.direction} limit filled after ${waitedMin}m: signal ${signal.id} @ ${price}`);
+
+    const directionText = entry.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+    const sizingText = sizing ? `\n${formatSizingText(sizing)}\n` : '';
+    const message = `
+✅ <b>ВХОД ИСПОЛНЕН</b> ✅
+
+💎 <b>Монета:</b> ${entry.symbol}
+📊 <b>Направление:</b> ${directionText}
+⏰ <b>Таймфрейм:</b> ${entry.timeframe}
+📈 <b>Паттерн:</b> ${entry.patternType.replace('_', ' ').toUpperCase()}
+
+💰 <b>Entry:</b> ${price.toFixed(8)} (${entry.entryMode}, через ${waitedMin} мин; закрытие ${parseFloat(entry.patternClose).toFixed(8)})
+🛑 <b>Stop Loss:</b> ${slPrice.toFixed(8)}
+🎯 <b>TP1:</b> ${tpPrices[0].toFixed(8)} (${rr[0].toFixed(2)}R)
+🎯 <b>TP2:</b> ${tpPrices[1].toFixed(8)} (${rr[1].toFixed(2)}R)
+🎯 <b>TP3:</b> ${tpPrices[2].toFixed(8)} (${rr[2].toFixed(2)}R)
+${sizingText}
+🆔 Signal ID: ${signal.id}
+    `.trim();
+
+    const messageId = await this.sendTelegramMessage(message, entry.telegramMessageId || undefined);
+    if (messageId) {
+      await signalDB.updateTelegramMessageId(signal.id, messageId);
+    }
+
+    // Stop / TP inside the fill minute and the minutes since: replay from the fill candle
+    await this.catchUpSignal(signal);
+    return true;
+  }
+
+  private async cancelPendingEntry(entry: PendingSignal, reason: 'expired' | 'target'): Promise<void> {
+    const skipContext = entry.skipContext as PendingSkipContext;
+    await logNearMissSkip({
+      ...skipContext,
+      skipReason: reason === 'expired' ? SKIP_REASONS.LIMIT_ENTRY_EXPIRED : SKIP_REASONS.LIMIT_ENTRY_MISSED,
+      skipCategory: 'entry',
+      mlContext: { ...skipContext.mlContext, entryMode: entry.entryMode, limitPrice: entry.limitPrice },
+    });
+    await pendingSignalDB.resolvePending(entry.id, 'CANCELLED');
+
+    const reasonText = reason === 'expired' ? 'лимит не исполнен вовремя' : 'TP1 достигнут без входа';
+    console.log(`🚫 [SignalTracker] ${entry.symbol} ${entry.direction} limit entry cancelled: ${reasonText}`);
+
+    const message = `
+🚫 <b>ВХОД ОТМЕНЁН</b>
+
+💎 <b>Монета:</b> ${entry.symbol}
+📈 <b>Паттерн:</b> ${entry.patternType.replace('_', ' ').toUpperCase()} (${entry.timeframe})
+💰 <b>Limit:</b> ${parseFloat(entry.limitPrice!).toFixed(8)} (${entry.entryMode})
+❌ <b>Причина:</b> ${reasonText}
+    `.trim();
+    await this.sendTelegramMessage(message, entry.telegramMessageId || undefined);
+  }
+
+  private async closeAtMarket(signal: Signal, price: number, now: number): Promise<void> {
+    const { customPercents, actualTpR } = getSignalStrategyParams(signal);
+    const currentPartialClosed = parseFloat(signal.partialClosed || '0');
+    const partialClosed = calculatePartialClosedPercent('TIMEOUT', currentPartialClosed, customPercents);
+
+    const outcome = calculateTradeOutcome({
+      status: 'TIMEOUT',
+      direction: signal.direction,
+      entryPrice: signal.entryPrice,
+      tp1Price: signal.tp1Price || undefined,
+      tp2Price: signal.tp2Price,
+      tp3Price: signal.tp3Price || undefined,
+      slPrice: signal.slPrice,
+      currentSl: signal.currentSl,
+      partialClosed: currentPartialClosed,
+      exitPrice: price.toString(),
+      trailingMode: signal.trailingMode,
+      customPercents,
+      actualTpR,
+      costs: getSignalCostContext(signal, now),
+    });
+
+    const closing = this.withExcursion(signal, price, price);
+    const { mfeR, maeR } = parseExcursion(closing.mfeR, closing.maeR);
+    await signalDB.updateSignalStatus(signal.id, 'TIMEOUT', undefined, partialClosed, undefined, outcome.pnlR, outcome.pnl);
+    await signalDB.updateSignalMetrics(signal.id, netPnlFields(outcome));
+    await signalDB.recordExcursion(signal.id, mfeR, maeR);
+    await paperAccount.applyStatusChange(signal, 'TIMEOUT', price, false);
+    this.updateCachedSignal({ ...signal, status: 'TIMEOUT', partialClosed: partialClosed.toString() });
+
+    const heldHours = ((now - signal.createdAt.getTime()) / (60 * 60_000)).toFixed(1);
+    const maxHours = ((getExpiryTime(signal) - signal.createdAt.getTime()) / (60 * 60_000)).toFixed(0);
+    const directionText = signal.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+    const message = `
+${getStatusEmoji(outcome.outcomeType)} <b>ЗАКРЫТО ПО ВРЕМЕНИ</b> ${getStatusEmoji(outcome.outcomeType)}
+
+🆔 Signal ID: ${signal.id}
+💎 <b>Монета:</b> ${signal.symbol}
+📊 <b>Направление:</b> ${directionText}
+⏰ <b>Таймфрейм:</b> ${signal.timeframe}
+
+<b>${outcome.description.toUpperCase()}</b>
+💵 <b>PnL:</b> ${formatPnL(outcome.pnl)} (${formatPnLR(outcome.pnlR)})
+💸 <b>Net:</b> ${formatPnL(outcome.netPnl)} (${formatPnLR(outcome.netPnlR)}) после комиссий / фандинга
+⌛ <b>В позиции:</b> ${heldHours}ч (лимит ${maxHours}ч)
+
+💰 <b>Цена закрытия:</b> ${price.toFixed(8)}
+    `.trim();
+
+    await this.sendTelegramMessage(message, signal.telegramMessageId || undefined);
+    console.log(`✅ [SignalTracker] Signal ${signal.id} closed by TIMEOUT after ${heldHours}h (${formatPnLR(outcome.pnlR)})`);
+  }
+
+  /**
+   * Trailing SL for the last closed candle of `candles`, returns the signal with the new SL
+   */
+  private async trailSignal(signal: Signal, candles: Candle[]): Promise<Signal> {
+    const entryPrice = parseFloat(signal.entryPrice);
+    const previousSl = parseFloat(signal.currentSl);
+    const update = calculateTrailingStop(getTrailingConfig(signal.trailingMode), {
+      direction: signal.direction,
+      entryPrice,
+      initialSl: parseFloat(signal.slPrice),
+      currentSl: previousSl,
+      trailingActivated: signal.trailingActivated ?? false,
+      candles,
+    });
+    if (!update) return signal;
+
+    const newSl = update.newSl.toString();
+    const updated: Signal = { ...signal, currentSl: newSl, trailingActivated: true };
+    await signalDB.updateTrailingStop(signal.id, signal.currentSl, newSl, update.reason, update.lockedR);
+    this.updateCachedSignal(updated);
+
+    const directionText = signal.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+    const message = `
+🔄 <b>ТРЕЙЛИНГ SL</b> 🔄
+
+🆔 Signal ID: ${signal.id}
+💎 <b>Монета:</b> ${signal.symbol}
+📊 <b>Направление:</b> ${directionText}
+⏰ <b>Таймфрейм:</b> ${signal.timeframe}
+
+🧭 <b>Режим:</b> ${update.reason.toUpperCase()}
+🛑 <b>SL:</b> ${previousSl.toFixed(8)} → ${update.newSl.toFixed(8)}
+🔒 <b>Зафиксировано:</b> ${formatPnLR(update.lockedR)} на остатке позиции
+    `.trim();
+
+    await this.sendTelegramMessage(message, signal.telegramMessageId || undefined);
+    return updated;
+  }
+
+  /**
+   * Check one signal against candle highs/lows, update DB + send Telegram on status change
+   * Returns the updated signal if status changed, null otherwise
+   */
+  private async checkSignal(signal: Signal, candles: Candle[], currentPrice: number): Promise<Signal | null> {
+    const tp2Value = parseFloat(signal.tp2Price);
+    const tp3ForCheck = this.getTp3ForCheck(signal);
+    
+    console.log(`🔍 [SignalTracker] Checking ${signal.symbol} (ID: ${signal.id}):`, {
+      currentPrice: currentPrice.toFixed(8),
+      high1m: Number(candles[candles.length - 1].high).toFixed(8),
+      low1m: Number(candles[candles.length - 1].low).toFixed(8),
+      strategyProfile: signal.strategyProfile || 'default',
+      tp1: signal.tp1Price ? parseFloat(signal.tp1Price).toFixed(8) : 'null',
+      tp2: tp2Value.toFixed(8),
+      tp3: tp3ForCheck ? tp3ForCheck.toFixed(8) : `null (${signal.tp3Price ? 'equals tp2' : 'not set'})`,
+      sl: parseFloat(signal.currentSl).toFixed(8),
+    });
+    
+    const tp1Value = signal.tp1Price ? parseFloat(signal.tp1Price) : parseFloat(signal.entryPrice); // TP1 fallback to entry
+    const policy = getSignalAmbiguityPolicy(signal);
+    const checkRange = (priority: 'tp' | 'sl') => riskCalculator.checkSignalStatusWithCandles(
+      candles,
+      currentPrice,
+      parseFloat(signal.entryPrice),
+      parseFloat(signal.currentSl),
+      tp1Value,
+      tp2Value,
+      tp3ForCheck, // ✅ null if tp3=tp2 (single-level), prevents TP3_HIT misdetection
+      signal.direction,
+      signal.status,
+      priority
+    );
+
+    let check = checkRange(sameCandlePriority(policy));
+    if (check.ambiguous) {
+      const tpLevel = nextTpLevel(signal.status, tp1Value, tp2Value, tp3ForCheck);
+      const firstTouch = policy === 'precise' && tpLevel !== null
+        ? await this.resolveFirstTouch(signal, candles, tpLevel)
+        : null;
+      if (firstTouch === 'tp') {
+        check = checkRange('tp');
+      }
+      console.log(`⚖️ [SignalTracker] Signal ${signal.id}: SL and TP in the same range, policy ${policy}${policy === 'precise' ? ` (first touch: ${firstTouch ?? 'unresolved → SL'})` : ''} → ${check.newStatus}`);
+    }
+
+    const { newStatus: checkedStatus, newSl: steppedSl } = check;
+    if (checkedStatus === signal.status) {
+      return null;
+    }
+
+    // Stop touched: a stop at/beyond entry (BE or trailed) closes as BE_HIT, below entry as SL_HIT
+    const entryPrice = parseFloat(signal.entryPrice);
+    const previousSl = parseFloat(signal.currentSl);
+    const newStatus = checkedStatus === 'SL_HIT'
+      ? resolveStopExitStatus(signal.direction, entryPrice, previousSl)
+      : checkedStatus;
+
+    // TP ladder SL step never loosens a stop already trailed further
+    const tightenedSl = steppedSl !== undefined ? tightenStop(signal.direction, previousSl, steppedSl) : undefined;
+    const newSl = tightenedSl !== undefined && tightenedSl !== previousSl ? tightenedSl : undefined;
+
+    console.log(`🔄 [SignalTracker] Status change detected: ${signal.status} → ${newStatus}`);
+
+    // ✅ Read dynamic strategy parameters from DB (if available)
+    const { customPercents, actualTpR } = getSignalStrategyParams(signal);
+
+    // Calculate partial closed percentage (with dynamic or default %s)
+    const currentPartialClosed = parseFloat(signal.partialClosed || '0');
+    const partialClosed = calculatePartialClosedPercent(newStatus, currentPartialClosed, customPercents);
+    
+    // Only set beActivated to true when TP1/TP2 hit
+    // Leave it undefined (unchanged) for other statuses like BE_HIT
+    const beActivated = (newStatus === 'TP1_HIT' || newStatus === 'TP2_HIT') ? true : undefined;
+    
+    console.log(`📊 [SignalTracker] Partial close calculation:`, {
+      previousPartialClosed: currentPartialClosed,
+      newPartialClosed: partialClosed,
+      customPercents: customPercents ? `${customPercents.p1}/${customPercents.p2}/${customPercents.p3}` : 'default 50/30/20',
+      actualTpR: actualTpR ? `${actualTpR.tp1R}R/${actualTpR.tp2R}R/${actualTpR.tp3R}R` : 'calculated from prices',
+      beActivated,
+    });
 
-          const currentPrice = await binanceClient.getCurrentPrice(signal.symbol);
-          
-          // ✅ Smart TP3 detection: if tp2 and tp3 are equal (or very close), treat as single-level TP
-          // This prevents TP3_HIT misdetection for 15m scalp signals where tp1=tp2=tp3=2R
-          const tp2Value = parseFloat(signal.tp2Price);
-          const tp3Value = signal.tp3Price ? parseFloat(signal.tp3Price) : null;
-          const PRICE_TOLERANCE = tp2Value * 0.0001; // 0.01% tolerance for price equality
-          
-          // If tp3 exists AND is within tolerance of tp2, treat as null (single-level TP)
-          const tp3EqualsTP2 = tp3Value !== null && Math.abs(tp3Value - tp2Value) < PRICE_TOLERANCE;
-          const tp3ForCheck = tp3EqualsTP2 ? null : tp3Value;
-          
-          console.log(`🔍 [SignalTracker] Checking ${signal.symbol} (ID: ${signal.id}):`, {
-            currentPrice: currentPrice.toFixed(8),
-            high1m: Number(candles[candles.length - 1].high).toFixed(8),
-            low1m: Number(candles[candles.length - 1].low).toFixed(8),
-            strategyProfile: signal.strategyProfile || 'default',
-            tp1: signal.tp1Price ? parseFloat(signal.tp1Price).toFixed(8) : 'null',
-            tp2: tp2Value.toFixed(8),
-            tp3: tp3ForCheck ? tp3ForCheck.toFixed(8) : `null (${tp3EqualsTP2 ? 'equals tp2' : 'not set'})`,
-            sl: parseFloat(signal.currentSl).toFixed(8),
-          });
-          
-          const { newStatus, newSl } = riskCalculator.checkSignalStatusWithCandles(
-            candles,
-            currentPrice,
-            parseFloat(signal.entryPrice),
-            parseFloat(signal.currentSl),
-            signal.tp1Price ? parseFloat(signal.tp1Price) : parseFloat(signal.entryPrice), // TP1 fallback to entry
-            tp2Value,
-            tp3ForCheck, // ✅ null if tp3=tp2 (single-level), prevents TP3_HIT misdetection
-            signal.direction,
-            signal.status
-          );
-
-          if (newStatus !== signal.status) {
-            console.log(`🔄 [SignalTracker] Status change detected: ${signal.status} → ${newStatus}`);
-
-            // ✅ Read dynamic strategy parameters from DB (if available)
-            // IMPORTANT: Check for null/undefined, not truthiness (0 is valid value!)
-            const customPercents = signal.partialCloseP1 !== null && signal.partialCloseP1 !== undefined ? {
-              p1: parseFloat(signal.partialCloseP1),
-              p2: parseFloat(signal.partialCloseP2!),
-              p3: parseFloat(signal.partialCloseP3!),
-            } : undefined; // undefined = use defaults (backward compatibility)
-
-            const actualTpR = signal.actualRrTp1 !== null && signal.actualRrTp1 !== undefined ? {
-              tp1R: parseFloat(signal.actualRrTp1),
-              tp2R: parseFloat(signal.actualRrTp2!),
-              tp3R: parseFloat(signal.actualRrTp3!),
-            } : undefined; // undefined = calculate from prices (backward compatibility)
-
-            // Calculate partial closed percentage (with dynamic or default %s)
-            const currentPartialClosed = parseFloat(signal.partialClosed || '0');
-            const partialClosed = calculatePartialClosedPercent(newStatus, currentPartialClosed, customPercents);
-            
-            // Only set beActivated to true when TP1/TP2 hit
-            // Leave it undefined (unchanged) for other statuses like BE_HIT
-            const beActivated = (newStatus === 'TP1_HIT' || newStatus === 'TP2_HIT') ? true : undefined;
-            
-            console.log(`📊 [SignalTracker] Partial close calculation:`, {
-              previousPartialClosed: currentPartialClosed,
-              newPartialClosed: partialClosed,
-              customPercents: customPercents ? `${customPercents.p1}/${customPercents.p2}/${customPercents.p3}` : 'default 50/30/20',
-              actualTpR: actualTpR ? `${actualTpR.tp1R}R/${actualTpR.tp2R}R/${actualTpR.tp3R}R` : 'calculated from prices',
-              beActivated,
-            });
-
-            // Используем централизованную логику расчета PnL (с динамическими или default параметрами)
-            const outcome = calculateTradeOutcome({
-              status: newStatus,
-              direction: signal.direction,
-              entryPrice: signal.entryPrice,
-              tp1Price: signal.tp1Price || undefined,
-              tp2Price: signal.tp2Price,
-              tp3Price: signal.tp3Price || undefined,
-              slPrice: signal.slPrice,
-              currentSl: newSl !== undefined ? newSl.toString() : signal.currentSl,
-              partialClosed: currentPartialClosed,
-              customPercents,  // ✅ Pass dynamic %s (or undefined for defaults)
-              actualTpR,       // ✅ Pass actual TP R values (or undefined to calculate)
-            });
-
-            // Update database with all new fields
-            await signalDB.updateSignalStatus(
-              signal.id,
-              newStatus as any,
-              newSl !== undefined ? newSl.toString() : undefined,
-              partialClosed,
-              beActivated,
-              outcome.pnlR,
-              outcome.pnl
-            );
-
-            console.log(`💰 [SignalTracker] PnL calculated:`, {
-              pnlR: outcome.pnlR.toFixed(4),
-              pnlPercent: outcome.pnl.toFixed(4),
-              partialClosed: `${partialClosed}%`,
-              beActivated,
-            });
-
-            const statusEmoji = getStatusEmoji(outcome.outcomeType);
-            const statusText = outcome.description.toUpperCase();
-            // ✅ FIX: Always show PnL for closed positions (including SL_HIT with negative PnL)
-            const pnlText = (newStatus !== 'OPEN')
-              ? `\n💵 <b>PnL:</b> ${formatPnL(outcome.pnl)} (${formatPnLR(outcome.pnlR)})` 
-              : '';
-            const partialClosedText = partialClosed > 0 && partialClosed < 100
-              ? `\n📉 <b>Закрыто:</b> ${partialClosed}%`
-              : '';
-
-            const directionText = signal.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
-
-            const message = `
+    // ML labels: minutes to this event, first touch (also the TP times funding is accrued by)
+    const lastCandle = candles[candles.length - 1];
+    const eventTime = Math.min(lastCandle.closeTime + 1, Date.now());
+    const timeToEvent = timeToEventUpdates(signal, newStatus, minutesSince(signal.createdAt, eventTime));
+
+    // Используем централизованную логику расчета PnL (с динамическими или default параметрами)
+    const outcome = calculateTradeOutcome({
+      status: newStatus,
+      direction: signal.direction,
+      entryPrice: signal.entryPrice,
+      tp1Price: signal.tp1Price || undefined,
+      tp2Price: signal.tp2Price,
+      tp3Price: signal.tp3Price || undefined,
+      slPrice: signal.slPrice,
+      currentSl: newSl !== undefined ? newSl.toString() : signal.currentSl,
+      partialClosed: currentPartialClosed,
+      trailingMode: signal.trailingMode, // Trailed-stop PnL only for trailing signals
+      customPercents,  // ✅ Pass dynamic %s (or undefined for defaults)
+      actualTpR,       // ✅ Pass actual TP R values (or undefined to calculate)
+      costs: getSignalCostContext({ ...signal, ...timeToEvent }, eventTime),
+    });
+
+    // Update database with all new fields
+    await signalDB.updateSignalStatus(
+      signal.id,
+      newStatus as any,
+      newSl !== undefined ? newSl.toString() : undefined,
+      partialClosed,
+      beActivated,
+      outcome.pnlR,
+      outcome.pnl,
+      outcome.isTrailedStop ? 'TRAILING_STOP' : undefined
+    );
+
+    // ML labels + net PnL, MFE/MAE up to here
+    const excursion = parseExcursion(signal.mfeR, signal.maeR);
+    const ambiguityEvents = (signal.ambiguityEvents ?? 0) + (check.ambiguous ? 1 : 0);
+    await signalDB.updateSignalMetrics(signal.id, { ...timeToEvent, ...netPnlFields(outcome), ambiguityEvents });
+    await signalDB.recordExcursion(signal.id, excursion.mfeR, excursion.maeR);
+
+    // Stop exits fill at the stop that was hit, TP fills at their TP prices
+    await paperAccount.applyStatusChange(signal, newStatus, previousSl, isTrackedStatus(newStatus, signal.trailingMode));
+
+    if (newSl !== undefined) {
+      await signalDB.recordSlMove({
+        signalId: signal.id,
+        previousSl: signal.currentSl,
+        newSl: newSl.toString(),
+        reason: newStatus === 'TP1_HIT' ? 'tp1_breakeven' : 'tp2_lock',
+        lockedR: stopToR(signal.direction, entryPrice, parseFloat(signal.slPrice), newSl).toFixed(4),
+      });
+    }
+
+    console.log(`💰 [SignalTracker] PnL calculated:`, {
+      pnlR: outcome.pnlR.toFixed(4),
+      pnlPercent: outcome.pnl.toFixed(4),
+      partialClosed: `${partialClosed}%`,
+      beActivated,
+    });
+
+    const statusEmoji = getStatusEmoji(outcome.outcomeType);
+    const statusText = outcome.description.toUpperCase();
+    // ✅ FIX: Always show PnL for closed positions (including SL_HIT with negative PnL)
+    const pnlText = (newStatus !== 'OPEN')
+      ? `\n💵 <b>PnL:</b> ${formatPnL(outcome.pnl)} (${formatPnLR(outcome.pnlR)})\n💸 <b>Net:</b> ${formatPnL(outcome.netPnl)} (${formatPnLR(outcome.netPnlR)}) после комиссий / проскальзывания / фандинга` 
+      : '';
+    const partialClosedText = partialClosed > 0 && partialClosed < 100
+      ? `\n📉 <b>Закрыто:</b> ${partialClosed}%`
+      : '';
+
+    const directionText = signal.direction === 'LONG' ? '🟢 LONG' : '🔴 SHORT';
+    const stillTracked = isTrackedStatus(newStatus, signal.trailingMode);
+    const runnerText = stillTracked
+      ? `\n🏃 <b>Остаток ведётся с трейлингом</b> (${signal.trailingMode})`
+      : '';
+
+    const message = `
 ${statusEmoji} <b>ОБНОВЛЕНИЕ СИГНАЛА</b> ${statusEmoji}
 
 🆔 Signal ID: ${signal.id}
@@ -182,23 +830,50 @@ ${statusEmoji} <b>ОБНОВЛЕНИЕ СИГНАЛА</b> ${statusEmoji}
 📊 <b>Направление:</b> ${directionText}
 ⏰ <b>Таймфрейм:</b> ${signal.timeframe}
 
-<b>${statusText}</b>${pnlText}${partialClosedText}
+<b>${statusText}</b>${pnlText}${partialClosedText}${runnerText}
 
 💰 <b>Текущая цена:</b> ${currentPrice.toFixed(8)}
 ${newSl ? `🔄 <b>Новый SL:</b> ${newSl.toFixed(8)}` : ''}
-            `.trim();
+    `.trim();
 
-            await this.sendTelegramMessage(message, signal.telegramMessageId || undefined);
-            console.log(`✅ [SignalTracker] Updated signal ${signal.id} to ${newStatus}${outcome.isBreakeven ? ' (BREAKEVEN)' : ''}`);
-          }
-        } catch (error: any) {
-          console.error(`❌ [SignalTracker] Error tracking signal ${signal.id}:`, error.message);
-        }
-      }
+    await this.sendTelegramMessage(message, signal.telegramMessageId || undefined);
+    console.log(`✅ [SignalTracker] Updated signal ${signal.id} to ${newStatus}${outcome.isBreakeven ? ' (BREAKEVEN)' : ''}${outcome.isTrailedStop ? ' (TRAILING STOP)' : ''}`);
 
-      console.log('✅ [SignalTracker] Completed signal tracking');
+    return {
+      ...signal,
+      status: newStatus as Signal['status'],
+      currentSl: newSl !== undefined ? newSl.toString() : signal.currentSl,
+      partialClosed: partialClosed.toString(),
+      beActivated: beActivated ?? signal.beActivated,
+      ambiguityEvents,
+      ...timeToEvent,
+    };
+  }
+
+  /**
+   * precise policy: which of the next TP / current stop traded first
+   * Candles that touch only one level decide without trades; the first candle touching both is
+   * resolved from aggTrades (null = venue without trade history or lookup failed → conservative)
+   */
+  private async resolveFirstTouch(signal: Signal, candles: Candle[], tpLevel: number): Promise<FirstTouch | null> {
+    const slLevel = parseFloat(signal.currentSl);
+    const first = firstTouchInCandles(candles, signal.direction, tpLevel, slLevel);
+    if (!first) return null;
+    if (first.touch) return first.touch;
+
+    const client = getExchangeClient(signal.venue);
+    if (!client.getAggTrades) {
+      console.warn(`⚠️ [SignalTracker] ${signal.venue} has no trade history, signal ${signal.id} resolved conservatively`);
+      return null;
+    }
+
+    try {
+      const endTime = Math.min(first.candle.closeTime, Date.now());
+      const trades = await client.getAggTrades(signal.symbol, first.candle.openTime, endTime);
+      return firstTouchInTrades(trades, signal.direction, tpLevel, slLevel);
     } catch (error: any) {
-      console.error('❌ [SignalTracker] Fatal error during signal tracking:', error.message);
+      console.error(`❌ [SignalTracker] Failed to load trades for signal ${signal.id}, resolving conservatively:`, error.message);
+      return null;
     }
   }
 }
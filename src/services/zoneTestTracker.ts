@@ -1,152 +1,167 @@
 /**
  * Zone Test Tracker Service
- * Tracks how many times price tested each zone in the last 24 hours.
- * Used for zone "freshness" filtering in dynamic S/R system.
+ * Counts how many times price tested a zone (24h / 7d / 30d) for zone "freshness" filtering in the dynamic S/R system.
+ *
+ * Persistent (tracked_zones / zone_touches): zone identities survive restarts and small boundary changes
+ * (fuzzy match, zoneIdentity.matchZone), touches are replayed from the stored 15m klines - so a restart
+ * or a stream gap does not reset the counts. On startup every zone seen in the last 30 days is caught up.
  */
 
+import { exchangeClient } from '../utils/exchanges';
+import { calculateATR } from '../utils/candleAnalyzer';
+import {
+  findActiveZone,
+  findZoneTouches,
+  matchZone,
+  ZONE_TOUCH_TOLERANCE_ATR,
+} from '../utils/indicators/zoneIdentity';
 import type { Zone } from '../utils/indicators/standardPlan';
+import { klineDB, zoneTouchDB } from '../mastra/storage/db';
+import type { TrackedZone } from '../mastra/storage/schema';
 
-interface ZoneTouch {
-  symbol: string;
-  zoneId: string; // Composite key: type_tf_low_high
-  timestamp: Date;
+export interface ZoneTestCounts {
+  count24h: number;
+  count7d: number;
+  count30d: number;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+const INTERVAL_15M_MS = 15 * 60 * 1000;
+const MAX_AGE_MS = 30 * 24 * HOUR_MS; // Keep zones / touches for 30d (longest count window)
+const PRUNE_INTERVAL_MS = HOUR_MS;
+const ATR_PERIOD = 14;
+
+const bounds = (zone: TrackedZone) => ({ low: Number(zone.low), high: Number(zone.high) });
+
 class ZoneTestTracker {
-  private touches: ZoneTouch[] = [];
-  private cleanupIntervalMs = 1000 * 60 * 60; // Cleanup every hour
-  private maxAgeMs = 1000 * 60 * 60 * 24; // Keep touches for 24h
-  
-  constructor() {
-    // Auto-cleanup old touches every hour
-    setInterval(() => this.cleanup(), this.cleanupIntervalMs);
-  }
-  
+  private lastPruneAt = 0;
+
   /**
-   * Generate unique zone ID from zone properties
+   * Stored identity of a zone: fuzzy match against the zones of the same symbol / TF / type, else a new zone
+   * Matched zones take the latest bounds
    */
-  private getZoneId(zone: Zone): string {
-    // Round to 8 decimals to avoid floating point issues
-    const low = zone.low.toFixed(8);
-    const high = zone.high.toFixed(8);
-    return `${zone.type}_${zone.tf}_${low}_${high}`;
+  async resolveZone(symbol: string, zone: Zone): Promise<TrackedZone> {
+    const venue = exchangeClient.venue;
+    const candidates = await zoneTouchDB.getZones(venue, symbol, zone.tf, zone.type);
+    const match = matchZone(zone, candidates.map(candidate => ({ ...bounds(candidate), candidate })));
+
+    if (!match) {
+      const created = await zoneTouchDB.createZone({
+        venue,
+        symbol,
+        tf: zone.tf,
+        type: zone.type,
+        low: zone.low.toString(),
+        high: zone.high.toString(),
+      });
+      console.log(`🧱 [ZoneTestTracker] New ${zone.tf} ${zone.type} zone #${created.id} for ${symbol}: ${zone.low.toFixed(8)} - ${zone.high.toFixed(8)}`);
+      return created;
+    }
+
+    const update = { low: zone.low.toString(), high: zone.high.toString(), lastSeenAt: new Date() };
+    await zoneTouchDB.updateZone(match.candidate.id, update);
+    return { ...match.candidate, ...update };
   }
-  
+
   /**
-   * Check if price is touching/inside a zone
+   * Replay stored 15m klines since the last replay (at most 30d back) and store the zone tests found
    */
-  private isTouchingZone(price: number, zone: Zone, atr15m: number): boolean {
-    const tolerance = 0.1 * atr15m; // 0.1 ATR tolerance
-    return price >= (zone.low - tolerance) && price <= (zone.high + tolerance);
+  async syncTouches(zone: TrackedZone): Promise<void> {
+    const cursor = zone.touchesSyncedTo;
+    const syncFrom = Math.max(cursor ?? 0, Date.now() - MAX_AGE_MS);
+    // Extra candles before the cursor: ATR warm-up + "previous candle inside the zone" for the first replayed candle
+    const candles = await klineDB.getKlinesRange(
+      zone.venue, zone.symbol, '15m', syncFrom - (ATR_PERIOD + 1) * INTERVAL_15M_MS
+    );
+    if (candles.length === 0) return;
+
+    const lastOpenTime = candles[candles.length - 1].openTime;
+    if (cursor !== null && lastOpenTime <= cursor) return;
+
+    const tolerance = ZONE_TOUCH_TOLERANCE_ATR * calculateATR(candles);
+    const touches = findZoneTouches(candles, bounds(zone), tolerance)
+      .filter(openTime => cursor === null ? openTime >= syncFrom : openTime > cursor);
+
+    await zoneTouchDB.recordTouches(zone, touches, lastOpenTime);
+    zone.touchesSyncedTo = lastOpenTime;
   }
-  
+
   /**
-   * Record that price tested a zone
+   * Number of times zone was tested in last N hours
    */
-  recordZoneTouch(symbol: string, zone: Zone): void {
-    const zoneId = this.getZoneId(zone);
-    const touch: ZoneTouch = {
-      symbol,
-      zoneId,
-      timestamp: new Date(),
-    };
-    
-    this.touches.push(touch);
+  async getZoneTestCount(symbol: string, zone: Zone, lastHours: number = 24): Promise<number> {
+    const counts = await this.getZoneTestCounts(symbol, zone, [lastHours]);
+    return counts[0];
   }
-  
+
   /**
-   * Record touches for all zones that price is currently testing
+   * Test counts of the active zone being traded from (15m support for LONG, 15m resistance for SHORT)
+   * DB errors are logged and count as 0 tests (the scan goes on)
    */
-  recordCurrentTouches(symbol: string, price: number, zones: Zone[], atr15m: number): void {
-    for (const zone of zones) {
-      if (this.isTouchingZone(price, zone, atr15m)) {
-        // Check if we already recorded a touch for this zone in last 15 minutes
-        // (to avoid duplicate touches on same bar cluster)
-        const recentTouch = this.getRecentTouch(symbol, zone, 15);
-        if (!recentTouch) {
-          this.recordZoneTouch(symbol, zone);
-        }
-      }
+  async getActiveZoneTestCounts(symbol: string, direction: 'LONG' | 'SHORT', zones: Zone[]): Promise<ZoneTestCounts> {
+    const activeZone = findActiveZone(direction, zones);
+    if (!activeZone) {
+      return { count24h: 0, count7d: 0, count30d: 0 };
+    }
+
+    try {
+      const [count24h, count7d, count30d] = await this.getZoneTestCounts(symbol, activeZone, [24, 7 * 24, 30 * 24]);
+      return { count24h, count7d, count30d };
+    } catch (error: any) {
+      console.error(`❌ [ZoneTestTracker] Failed to count zone tests for ${symbol}:`, error.message);
+      return { count24h: 0, count7d: 0, count30d: 0 };
     }
   }
-  
-  /**
-   * Get most recent touch for a zone (if any)
-   */
-  private getRecentTouch(symbol: string, zone: Zone, lastMinutes: number): ZoneTouch | undefined {
-    const zoneId = this.getZoneId(zone);
-    const cutoff = Date.now() - (lastMinutes * 60 * 1000);
-    
-    return this.touches.find(t => 
-      t.symbol === symbol &&
-      t.zoneId === zoneId &&
-      t.timestamp.getTime() >= cutoff
-    );
-  }
-  
-  /**
-   * Get number of times zone was tested in last N hours
-   */
-  getZoneTestCount(symbol: string, zone: Zone, lastHours: number = 24): number {
-    const zoneId = this.getZoneId(zone);
-    const cutoff = Date.now() - (lastHours * 60 * 60 * 1000);
-    
-    return this.touches.filter(t =>
-      t.symbol === symbol &&
-      t.zoneId === zoneId &&
-      t.timestamp.getTime() >= cutoff
-    ).length;
+
+  private async getZoneTestCounts(symbol: string, zone: Zone, windowsHours: number[]): Promise<number[]> {
+    const tracked = await this.resolveZone(symbol, zone);
+    await this.syncTouches(tracked);
+    await this.pruneIfDue();
+
+    const now = Date.now();
+    return await Promise.all(windowsHours.map(hours => zoneTouchDB.countTouches(tracked.id, now - hours * HOUR_MS)));
   }
-  
+
   /**
-   * Get test count for the active zone being traded from
+   * Startup: catch up the touches of every zone seen in the last 30d from the stored klines
    */
-  getActiveZoneTestCount(
-    symbol: string,
-    direction: 'LONG' | 'SHORT',
-    zones: Zone[],
-    lastHours: number = 24
-  ): number {
-    // For LONG: count tests of 15m support zone
-    // For SHORT: count tests of 15m resistance zone
-    const activeZone = zones.find(z => 
-      z.tf === '15m' && 
-      z.type === (direction === 'LONG' ? 'support' : 'resistance')
-    );
-    
-    if (!activeZone) return 0;
-    
-    return this.getZoneTestCount(symbol, activeZone, lastHours);
+  async rebuildFromKlines(): Promise<void> {
+    try {
+      await this.pruneIfDue();
+      const zones = await zoneTouchDB.getZonesSeenSince(exchangeClient.venue, new Date(Date.now() - MAX_AGE_MS));
+
+      for (const zone of zones) {
+        await this.syncTouches(zone);
+      }
+
+      const stats = await this.getStats();
+      console.log(`🧱 [ZoneTestTracker] Rebuilt touch history of ${zones.length} zones from stored klines (${stats.totalTouches} touches)`);
+    } catch (error: any) {
+      console.error('❌ [ZoneTestTracker] Failed to rebuild zone touch history:', error.message);
+    }
   }
-  
+
   /**
-   * Remove touches older than maxAgeMs
+   * Remove touches / zones older than 30d (at most once per hour)
    */
-  private cleanup(): void {
-    const cutoff = Date.now() - this.maxAgeMs;
-    const before = this.touches.length;
-    
-    this.touches = this.touches.filter(t => t.timestamp.getTime() >= cutoff);
-    
-    const removed = before - this.touches.length;
-    if (removed > 0) {
-      console.log(`[ZoneTestTracker] Cleaned up ${removed} old zone touches`);
-    }
+  private async pruneIfDue(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now;
+
+    await zoneTouchDB.pruneBefore(now - MAX_AGE_MS);
   }
-  
+
   /**
    * Get stats for debugging
    */
-  getStats(): { totalTouches: number; oldestTouch: Date | null; newestTouch: Date | null } {
-    if (this.touches.length === 0) {
-      return { totalTouches: 0, oldestTouch: null, newestTouch: null };
-    }
-    
-    const timestamps = this.touches.map(t => t.timestamp.getTime());
+  async getStats(): Promise<{ totalZones: number; totalTouches: number; oldestTouch: Date | null; newestTouch: Date | null }> {
+    const stats = await zoneTouchDB.getTouchStats();
     return {
-      totalTouches: this.touches.length,
-      oldestTouch: new Date(Math.min(...timestamps)),
-      newestTouch: new Date(Math.max(...timestamps)),
+      totalZones: stats.zones,
+      totalTouches: stats.touches,
+      oldestTouch: stats.oldestTouch !== null ? new Date(stats.oldestTouch) : null,
+      newestTouch: stats.newestTouch !== null ? new Date(stats.newestTouch) : null,
     };
   }
 }
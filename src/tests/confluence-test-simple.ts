@@ -28,6 +28,7 @@ const scenario1: ConfluenceFactors = {
   multiTFconfluence: true,   // H1+H4 aligned
   cleanRejection: true,      // Clear tail protrusion
   rAvailable: true,          // 2.5R available
+  inObFvg: true,             // Wick into unmitigated 1h order block
 };
 
 const score1 = calculateConfluenceScore(scenario1);
@@ -37,7 +38,7 @@ const explanation1 = getConfluenceExplanation(scenario1, score1, '15m');
 console.log(`\n⭐ Confluence Evaluation:`);
 console.log(explanation1);
 console.log(`\n✅ Result: ${passes1 ? 'SIGNAL ACCEPTED' : 'SIGNAL REJECTED'}`);
-console.log(`   Score: ${score1}/10 (minimum: 5/10 for 15m)`);
+console.log(`   Score: ${score1}/11 (minimum: 5/11 for 15m)`);
 console.log(`\n📊 What happens next if accepted:`);
 console.log(`   1. ✅ Proceeds to R:R validation`);
 console.log(`   2. ✅ ML context collected with confluence_score=${score1}`);
@@ -60,6 +61,7 @@ const scenario2: ConfluenceFactors = {
   multiTFconfluence: false,  // No multi-TF alignment
   cleanRejection: false,     // Weak rejection
   rAvailable: false,         // Only 1.8R available
+  inObFvg: false,            // Mid-range, no order block / FVG
 };
 
 const score2 = calculateConfluenceScore(scenario2);
@@ -69,7 +71,7 @@ const explanation2 = getConfluenceExplanation(scenario2, score2, '15m');
 console.log(`\n⭐ Confluence Evaluation:`);
 console.log(explanation2);
 console.log(`\n❌ Result: ${passes2 ? 'SIGNAL ACCEPTED' : 'SIGNAL REJECTED'}`);
-console.log(`   Score: ${score2}/10 (minimum: 5/10 for 15m)`);
+console.log(`   Score: ${score2}/11 (minimum: 5/11 for 15m)`);
 console.log(`\n📊 What happens when rejected:`);
 console.log(`   1. ❌ Signal does NOT proceed to R:R validation`);
 console.log(`   2. ✅ Logged to 'near_miss_skips' table with:`);
@@ -81,7 +83,7 @@ console.log(`   3. ✅ Available for ML analysis of why patterns were rejected`)
 console.log(`   4. ❌ NO Telegram notification (saved user from bad trade)`);
 console.log(`   5. ❌ NOT tracked (never entered)`);
 
-// ⚠️ SCENARIO 3: Borderline case (exactly 5/10)
+// ⚠️ SCENARIO 3: Borderline case (exactly 5/11)
 console.log(`\n${'='.repeat(80)}`);
 console.log(`⚠️ SCENARIO 3: Borderline PPR LONG (exactly minimum)`);
 console.log(`${'='.repeat(80)}`);
@@ -95,6 +97,7 @@ const scenario3: ConfluenceFactors = {
   multiTFconfluence: false,  // 0 points
   cleanRejection: false,     // 0 points
   rAvailable: false,         // 0 points
+  inObFvg: false,            // 0 points
 };
 
 const score3 = calculateConfluenceScore(scenario3);
@@ -104,7 +107,7 @@ const explanation3 = getConfluenceExplanation(scenario3, score3, '15m');
 console.log(`\n⭐ Confluence Evaluation:`);
 console.log(explanation3);
 console.log(`\n✅ Result: ${passes3 ? 'SIGNAL ACCEPTED' : 'SIGNAL REJECTED'}`);
-console.log(`   Score: ${score3}/10 (minimum: 5/10 for 15m)`);
+console.log(`   Score: ${score3}/11 (minimum: 5/11 for 15m)`);
 console.log(`\n📌 Note: This is the minimum acceptable signal for 15m`);
 console.log(`   - Pattern quality is good (+2)`);
 console.log(`   - At key zone (+2)`);
@@ -117,9 +120,9 @@ console.log(`\n${'#'.repeat(80)}`);
 console.log(`# TEST SUMMARY`);
 console.log(`${'#'.repeat(80)}`);
 console.log(`\n✅ Confluence Scoring System Working Correctly:`);
-console.log(`   1. High-quality signal (10/10): ✅ ACCEPTED`);
-console.log(`   2. Weak confluence (2/10): ❌ REJECTED`);
-console.log(`   3. Borderline (5/10): ✅ ACCEPTED (minimum threshold)`);
+console.log(`   1. High-quality signal (11/11): ✅ ACCEPTED`);
+console.log(`   2. Weak confluence (2/11): ❌ REJECTED`);
+console.log(`   3. Borderline (5/11): ✅ ACCEPTED (minimum threshold)`);
 console.log(`\n📊 Database Integration:`);
 console.log(`   - Accepted signals → 'signals' table with confluence_score field`);
 console.log(`   - Rejected signals → 'near_miss_skips' table for ML analysis`);
@@ -148,6 +148,7 @@ async function runE2ETest(scenario: TestScenario) {
     multiTFconfluence: true, // Simplified for test
     cleanRejection: hasCleanRejection,
     rAvailable: (mlContext.rAvailable ?? 0) >= 2.0,
+    inObFvg: Boolean(mlContext.entryObFvg),
   };
   
   const confluenceScore = calculateConfluenceScore(confluenceFactors);
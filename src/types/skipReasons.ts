@@ -72,8 +72,24 @@ export const SKIP_REASONS = {
   CONFLUENCE_TOO_LOW: 'confluence_too_low', // Confluence score below minimum requirement (5/10 for 15m)
   
   // NEW: Professional counter-trend edge cases (based on institutional trading rules)
-  COUNTER_TREND_LONG_BELOW_SUPPORT_WITHOUT_REJECTION: 'counter_trend_long_below_support_without_rejection', // LONG below H4 support without rejection pattern (blocks Engulfing, allows Fakey/PPR)
-  COUNTER_TREND_SHORT_ABOVE_RESISTANCE_WITHOUT_REJECTION: 'counter_trend_short_above_resistance_without_rejection', // SHORT above H4 resistance without rejection pattern (blocks Engulfing, allows Fakey/PPR)
+  COUNTER_TREND_LONG_BELOW_SUPPORT_WITHOUT_REJECTION: 'counter_trend_long_below_support_without_rejection', // LONG below H4 support without rejection pattern (blocks Engulfing / Inside Bar, allows Fakey/PPR)
+  COUNTER_TREND_SHORT_ABOVE_RESISTANCE_WITHOUT_REJECTION: 'counter_trend_short_above_resistance_without_rejection', // SHORT above H4 resistance without rejection pattern (blocks Engulfing / Inside Bar, allows Fakey/PPR)
+  
+  // Portfolio risk limits (portfolioRisk.ts, checked right before createSignal)
+  PORTFOLIO_OPEN_RISK_LIMIT: 'portfolio_open_risk_limit', // Open risk in R + candidate above MAX_OPEN_RISK_R
+  DIRECTION_LIMIT: 'direction_limit', // Too many tracked signals in the same direction
+  FAMILY_LIMIT: 'family_limit', // Too many tracked signals in the same leader:sector family
+  DAILY_LOSS_CIRCUIT_BREAKER: 'daily_loss_circuit_breaker', // Realized loss today ≥ DAILY_LOSS_LIMIT_R
+  WEEKLY_LOSS_CIRCUIT_BREAKER: 'weekly_loss_circuit_breaker', // Realized loss this week ≥ WEEKLY_LOSS_LIMIT_R
+  PORTFOLIO_BLOCKED: 'portfolio_blocked', // Blocked by the portfolio check without a specific reason
+  
+  // Confirmation entry (confirmationEntry.ts, PENDING_CONFIRMATION stage)
+  CONFIRMATION_TIMEOUT: 'confirmation_timeout', // No lower-timeframe confirmation within CONFIRM_WAIT_BARS
+  CONFIRMATION_INVALIDATED: 'confirmation_invalidated', // Stop touched or TP1 passed before the confirmation
+  
+  // Limit entries (limitEntry.ts, PENDING_ENTRY stage)
+  LIMIT_ENTRY_EXPIRED: 'limit_entry_expired', // Limit not filled within LIMIT_EXPIRY_BARS
+  LIMIT_ENTRY_MISSED: 'limit_entry_missed', // TP1 traded before the limit was filled
 } as const;
 
 export type SkipReason = typeof SKIP_REASONS[keyof typeof SKIP_REASONS];
@@ -0,0 +1,99 @@
+/**
+ * Same-candle SL/TP ambiguity
+ *
+ * A 1m candle (or a batch of candles) whose range touches both the stop and a TP not reached yet
+ * does not tell which level traded first. Resolution policy:
+ * - optimistic:   TP first (legacy behaviour, inflates the win rate)
+ * - conservative: SL first
+ * - precise:      first touch from aggregated trades of the ambiguous candle
+ *                 (venues without trade history / failed lookups → conservative)
+ *
+ * The policy is stored on the signal at creation (signals.ambiguity_policy) so stats can be compared
+ * across policies; legacy signals without it were tracked optimistically.
+ *
+ * Env:
+ *   AMBIGUITY_POLICY=conservative   optimistic | conservative | precise
+ */
+
+import type { AggTrade, Candle } from './exchanges/types';
+
+export type AmbiguityPolicy = 'optimistic' | 'conservative' | 'precise';
+
+export const AMBIGUITY_POLICIES: AmbiguityPolicy[] = ['optimistic', 'conservative', 'precise'];
+
+export function isAmbiguityPolicy(value: string): value is AmbiguityPolicy {
+  return (AMBIGUITY_POLICIES as string[]).includes(value);
+}
+
+export function getAmbiguityPolicy(env: Record<string, string | undefined> = process.env): AmbiguityPolicy {
+  const value = env.AMBIGUITY_POLICY;
+  return value && isAmbiguityPolicy(value) ? value : 'conservative';
+}
+
+/**
+ * Policy a stored signal is tracked with (null = created before the column → optimistic)
+ */
+export function getSignalAmbiguityPolicy(signal: { ambiguityPolicy?: string | null }): AmbiguityPolicy {
+  return signal.ambiguityPolicy && isAmbiguityPolicy(signal.ambiguityPolicy) ? signal.ambiguityPolicy : 'optimistic';
+}
+
+/**
+ * Candle-range priority for checkSignalStatusWithCandles
+ * precise starts conservative and switches to TP only when trades show the TP traded first
+ */
+export function sameCandlePriority(policy: AmbiguityPolicy): 'tp' | 'sl' {
+  return policy === 'optimistic' ? 'tp' : 'sl';
+}
+
+/**
+ * Nearest TP not reached yet (the level that competes with the stop)
+ */
+export function nextTpLevel(currentStatus: string, tp1: number, tp2: number, tp3: number | null): number | null {
+  if (currentStatus === 'TP2_HIT') return tp3;
+  if (currentStatus === 'TP1_HIT') return tp2;
+  return tp1;
+}
+
+export type FirstTouch = 'tp' | 'sl';
+
+function touches(direction: 'LONG' | 'SHORT', high: number, low: number, tpLevel: number, slLevel: number) {
+  return direction === 'LONG'
+    ? { tp: high >= tpLevel, sl: low <= slLevel }
+    : { tp: low <= tpLevel, sl: high >= slLevel };
+}
+
+/**
+ * First candle that touches the TP or the stop
+ * touch: the level that came first, or null when that candle touches both (needs trades)
+ */
+export function firstTouchInCandles(
+  candles: Candle[],
+  direction: 'LONG' | 'SHORT',
+  tpLevel: number,
+  slLevel: number
+): { candle: Candle; touch: FirstTouch | null } | null {
+  for (const candle of candles) {
+    const hit = touches(direction, Number(candle.high), Number(candle.low), tpLevel, slLevel);
+    if (hit.tp && hit.sl) return { candle, touch: null };
+    if (hit.tp) return { candle, touch: 'tp' };
+    if (hit.sl) return { candle, touch: 'sl' };
+  }
+  return null;
+}
+
+/**
+ * Level traded first in a time-ordered trade list (null = neither traded)
+ */
+export function firstTouchInTrades(
+  trades: AggTrade[],
+  direction: 'LONG' | 'SHORT',
+  tpLevel: number,
+  slLevel: number
+): FirstTouch | null {
+  for (const trade of trades) {
+    const hit = touches(direction, trade.price, trade.price, tpLevel, slLevel);
+    if (hit.sl) return 'sl';
+    if (hit.tp) return 'tp';
+  }
+  return null;
+}
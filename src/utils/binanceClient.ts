@@ -1,39 +1,18 @@
-import axios, { AxiosInstance } from 'axios';
-import { HttpsProxyAgent } from 'https-proxy-agent';
+import { createHttpClient } from './exchanges/http';
 import { binanceRateLimiter } from './rateLimiter';
+import { intervalToMs } from './exchanges/intervals';
+import type { AggTrade, Candle, ExchangeClient, FundingInfo, SymbolInfo, Venue } from './exchanges/types';
 
-const BINANCE_FUTURES_API = 'https://fapi.binance.com';
-
-// Создаем axios instance с прокси (если указан в environment)
-function createAxiosInstance(): AxiosInstance {
-  const proxyUrl = process.env.PROXY_URL;
-  
-  if (proxyUrl) {
-    console.log(`🔒 [BinanceClient] Using proxy: ${proxyUrl.replace(/:[^:@]+@/, ':****@')}`); // Скрываем пароль в логах
-    const httpsAgent = new HttpsProxyAgent(proxyUrl);
-    return axios.create({
-      httpsAgent,
-      timeout: 30000,
-    });
-  }
-  
-  console.log('🌐 [BinanceClient] No proxy configured, using direct connection');
-  return axios.create({ timeout: 30000 });
-}
+export type { Candle } from './exchanges/types';
 
-const axiosInstance = createAxiosInstance();
+const BINANCE_FUTURES_API = 'https://fapi.binance.com';
+const MAX_KLINE_LIMIT = 1500;
+const MAX_AGG_TRADES_LIMIT = 1000;
 
-export interface Candle {
-  openTime: number;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: string;
-  closeTime: number;
-}
+const axiosInstance = createHttpClient('BinanceClient');
 
-export interface Ticker24hr {
+// Binance-specific response shape (not exposed outside the adapter)
+interface Ticker24hr {
   symbol: string;
   priceChange: string;
   priceChangePercent: string;
@@ -52,7 +31,21 @@ export interface Ticker24hr {
   count: number;
 }
 
-export class BinanceClient {
+function parseKline(k: any[]): Candle {
+  return {
+    openTime: k[0],
+    open: k[1],
+    high: k[2],
+    low: k[3],
+    close: k[4],
+    volume: k[5],
+    closeTime: k[6],
+  };
+}
+
+export class BinanceClient implements ExchangeClient {
+  readonly venue: Venue = 'binance';
+
   async getTradingPairs(): Promise<string[]> {
     console.log('📊 [BinanceClient] Fetching trading pairs from Binance...');
     
@@ -95,15 +88,7 @@ export class BinanceClient {
 
     binanceRateLimiter.updateWeightFromResponse(response.headers);
 
-    const allCandles: Candle[] = response.data.map((k: any) => ({
-      openTime: k[0],
-      open: k[1],
-      high: k[2],
-      low: k[3],
-      close: k[4],
-      volume: k[5],
-      closeTime: k[6],
-    }));
+    const allCandles: Candle[] = response.data.map(parseKline);
 
     // Return all candles (including open) or only closed candles
     const candles = includeOpenCandle ? allCandles : allCandles.slice(0, -1);
@@ -112,6 +97,40 @@ export class BinanceClient {
     return candles;
   }
 
+  async getKlinesSince(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const intervalMs = intervalToMs(interval);
+    if (intervalMs === null) {
+      throw new Error(`Unsupported interval: ${interval}`);
+    }
+    console.log(`📈 [BinanceClient] Fetching ${interval} candles for ${symbol} since ${new Date(startTime).toISOString()}...`);
+
+    const candles: Candle[] = [];
+    let cursor = startTime;
+    while (true) {
+      const response = await binanceRateLimiter.executeRequest(10, async () => {
+        return await axiosInstance.get(`${BINANCE_FUTURES_API}/fapi/v1/klines`, {
+          params: { symbol, interval, startTime: cursor, limit: MAX_KLINE_LIMIT },
+        });
+      });
+      binanceRateLimiter.updateWeightFromResponse(response.headers);
+
+      const page: Candle[] = response.data.map(parseKline);
+      candles.push(...page);
+      if (page.length < MAX_KLINE_LIMIT) break;
+      cursor = page[page.length - 1].openTime + intervalMs;
+    }
+
+    const now = Date.now();
+    const result = includeOpenCandle ? candles : candles.filter(c => c.closeTime < now);
+    console.log(`✅ [BinanceClient] Returning ${result.length} candles since ${new Date(startTime).toISOString()}`);
+    return result;
+  }
+
   async getCurrentPrice(symbol: string): Promise<number> {
     console.log(`💰 [BinanceClient] Fetching current price for ${symbol}...`);
     
@@ -125,6 +144,79 @@ export class BinanceClient {
 
     return parseFloat(response.data.price);
   }
+
+  async getExchangeInfo(symbol?: string): Promise<SymbolInfo[]> {
+    console.log('📋 [BinanceClient] Fetching exchange info...');
+
+    const response = await binanceRateLimiter.executeRequest(1, async () => {
+      return await axiosInstance.get(`${BINANCE_FUTURES_API}/fapi/v1/exchangeInfo`);
+    });
+
+    binanceRateLimiter.updateWeightFromResponse(response.headers);
+
+    return response.data.symbols
+      .filter((s: any) => s.contractType === 'PERPETUAL' && s.quoteAsset === 'USDT')
+      .filter((s: any) => !symbol || s.symbol === symbol)
+      .map((s: any) => {
+        const priceFilter = s.filters.find((f: any) => f.filterType === 'PRICE_FILTER') || {};
+        const lotSize = s.filters.find((f: any) => f.filterType === 'LOT_SIZE') || {};
+        return {
+          symbol: s.symbol,
+          baseAsset: s.baseAsset,
+          quoteAsset: s.quoteAsset,
+          tickSize: parseFloat(priceFilter.tickSize || '0'),
+          stepSize: parseFloat(lotSize.stepSize || '0'),
+          minQty: parseFloat(lotSize.minQty || '0'),
+          trading: s.status === 'TRADING',
+        };
+      });
+  }
+
+  async getFundingRate(symbol: string): Promise<FundingInfo> {
+    console.log(`💸 [BinanceClient] Fetching funding rate for ${symbol}...`);
+
+    const response = await binanceRateLimiter.executeRequest(1, async () => {
+      return await axiosInstance.get(`${BINANCE_FUTURES_API}/fapi/v1/premiumIndex`, {
+        params: { symbol },
+      });
+    });
+
+    binanceRateLimiter.updateWeightFromResponse(response.headers);
+
+    return {
+      symbol,
+      fundingRate: parseFloat(response.data.lastFundingRate),
+      nextFundingTime: response.data.nextFundingTime,
+      markPrice: parseFloat(response.data.markPrice),
+    };
+  }
+
+  async getAggTrades(symbol: string, startTime: number, endTime: number, maxTrades: number = 10_000): Promise<AggTrade[]> {
+    console.log(`🧾 [BinanceClient] Fetching aggTrades for ${symbol} ${new Date(startTime).toISOString()} → ${new Date(endTime).toISOString()}...`);
+
+    // First page by time window, next pages by trade id (window params and fromId can't be combined)
+    const trades: AggTrade[] = [];
+    let fromId: number | null = null;
+    while (trades.length < maxTrades) {
+      const params: Record<string, string | number> = fromId === null
+        ? { symbol, startTime, endTime, limit: MAX_AGG_TRADES_LIMIT }
+        : { symbol, fromId, limit: MAX_AGG_TRADES_LIMIT };
+      const response = await binanceRateLimiter.executeRequest(20, async () => {
+        return await axiosInstance.get(`${BINANCE_FUTURES_API}/fapi/v1/aggTrades`, { params });
+      });
+      binanceRateLimiter.updateWeightFromResponse(response.headers);
+
+      const page: any[] = response.data;
+      for (const t of page) {
+        if (t.T > endTime) return trades;
+        trades.push({ price: parseFloat(t.p), time: t.T });
+      }
+      if (page.length < MAX_AGG_TRADES_LIMIT) break;
+      fromId = page[page.length - 1].a + 1;
+    }
+
+    return trades.slice(0, maxTrades);
+  }
 }
 
 export const binanceClient = new BinanceClient();
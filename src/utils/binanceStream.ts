@@ -0,0 +1,391 @@
+/**
+ * Binance Futures WebSocket stream client
+ *
+ * Subscribes to combined streams (`/stream` endpoint + SUBSCRIBE/UNSUBSCRIBE messages):
+ * - <symbol>@kline_<interval>  → KlineEvent (isClosed = true when the candle is final)
+ * - !markPrice@arr@1s          → MarkPriceEvent for every symbol, once per second
+ *
+ * Reliability:
+ * - Reconnects with exponential backoff and resubscribes all streams
+ * - Watchdog terminates silent connections (Binance may stop sending without closing)
+ * - onReconnect handlers receive the time of the last message before the gap,
+ *   so callers can backfill missed candles/prices over REST
+ */
+
+import WebSocket from 'ws';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import type { Candle, Venue } from './exchanges/types';
+
+const BINANCE_FUTURES_WS = 'wss://fstream.binance.com';
+
+// Market data venue the streams belong to (signals on other venues are polled over REST)
+export const STREAM_VENUE: Venue = 'binance';
+
+export interface KlineEvent {
+  symbol: string;
+  interval: string;
+  candle: Candle;
+  isClosed: boolean;
+  eventTime: number;
+}
+
+export interface MarkPriceEvent {
+  symbol: string;
+  markPrice: number;
+  eventTime: number;
+}
+
+export interface BinanceStreamOptions {
+  baseUrl?: string;
+  maxStreamsPerConnection?: number; // Binance futures: max 1024 streams per connection
+  subscribeBatchSize?: number;      // Streams per SUBSCRIBE message
+  subscribeIntervalMs?: number;     // Binance: max 10 incoming messages per second
+  staleTimeoutMs?: number;          // Reconnect if no message received for this long
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+type KlineHandler = (event: KlineEvent) => void | Promise<void>;
+type MarkPriceHandler = (events: MarkPriceEvent[]) => void | Promise<void>;
+type ReconnectHandler = (gapStartMs: number) => void | Promise<void>;
+
+export function klineStreamName(symbol: string, interval: string): string {
+  return `${symbol.toLowerCase()}@kline_${interval}`;
+}
+
+export const MARK_PRICE_ALL_STREAM = '!markPrice@arr@1s';
+
+/**
+ * Parse a combined-stream payload ({ stream, data }) into typed events
+ */
+export function parseStreamMessage(raw: string): { kline?: KlineEvent; markPrices?: MarkPriceEvent[] } {
+  const message = JSON.parse(raw);
+  const data = message?.data;
+  if (!data) return {};
+
+  if (data.e === 'kline' && data.k) {
+    const k = data.k;
+    return {
+      kline: {
+        symbol: data.s,
+        interval: k.i,
+        candle: {
+          openTime: k.t,
+          open: k.o,
+          high: k.h,
+          low: k.l,
+          close: k.c,
+          volume: k.v,
+          closeTime: k.T,
+        },
+        isClosed: k.x === true,
+        eventTime: data.E,
+      },
+    };
+  }
+
+  const updates = Array.isArray(data) ? data : data.e === 'markPriceUpdate' ? [data] : [];
+  if (updates.length > 0) {
+    return {
+      markPrices: updates
+        .filter((u: any) => u.e === 'markPriceUpdate')
+        .map((u: any) => ({ symbol: u.s, markPrice: parseFloat(u.p), eventTime: u.E })),
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Single WebSocket connection with its own subscription set
+ */
+class StreamConnection {
+  private ws: WebSocket | null = null;
+  private streams = new Set<string>();
+  private requestId = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt = 0;
+  private hasConnected = false;
+  private stopped = false;
+
+  constructor(
+    private readonly id: number,
+    private readonly client: BinanceStreamClient,
+    private readonly options: Required<BinanceStreamOptions>
+  ) {}
+
+  get size(): number {
+    return this.streams.size;
+  }
+
+  has(stream: string): boolean {
+    return this.streams.has(stream);
+  }
+
+  getStreams(): string[] {
+    return Array.from(this.streams);
+  }
+
+  isOpen(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  connect(): void {
+    this.stopped = false;
+    const url = `${this.options.baseUrl}/stream`;
+    const proxyUrl = process.env.PROXY_URL;
+    const agent = proxyUrl && url.startsWith('wss://') ? new HttpsProxyAgent(proxyUrl) : undefined;
+
+    console.log(`🔌 [BinanceStream] Connection #${this.id}: connecting to ${url} (${this.streams.size} streams)...`);
+    const ws = new WebSocket(url, { agent });
+    this.ws = ws;
+
+    ws.on('open', () => {
+      const isReconnect = this.hasConnected;
+      const gapStart = this.lastMessageAt || Date.now();
+      this.hasConnected = true;
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      console.log(`✅ [BinanceStream] Connection #${this.id}: connected`);
+
+      this.startWatchdog();
+      this.sendSubscriptions('SUBSCRIBE', Array.from(this.streams))
+        .then(() => {
+          if (isReconnect) {
+            this.client.emitReconnect(gapStart);
+          }
+        })
+        .catch((error: any) => {
+          console.error(`❌ [BinanceStream] Connection #${this.id}: resubscribe failed:`, error.message);
+        });
+    });
+
+    ws.on('message', (data: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.client.handleMessage(data.toString());
+    });
+
+    ws.on('error', (error: Error) => {
+      console.error(`❌ [BinanceStream] Connection #${this.id}: error:`, error.message);
+    });
+
+    ws.on('close', (code: number) => {
+      this.stopWatchdog();
+      if (this.ws === ws) {
+        this.ws = null;
+      }
+      if (this.stopped) return;
+
+      console.warn(`⚠️ [BinanceStream] Connection #${this.id}: closed (code ${code})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  async subscribe(streams: string[]): Promise<void> {
+    const added = streams.filter(s => !this.streams.has(s));
+    added.forEach(s => this.streams.add(s));
+    if (this.isOpen()) {
+      await this.sendSubscriptions('SUBSCRIBE', added);
+    }
+  }
+
+  async unsubscribe(streams: string[]): Promise<void> {
+    const removed = streams.filter(s => this.streams.has(s));
+    removed.forEach(s => this.streams.delete(s));
+    if (this.isOpen()) {
+      await this.sendSubscriptions('UNSUBSCRIBE', removed);
+    }
+  }
+
+  close(): void {
+    this.stopped = true;
+    this.stopWatchdog();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.removeAllListeners('message');
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  private async sendSubscriptions(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[]): Promise<void> {
+    const { subscribeBatchSize, subscribeIntervalMs } = this.options;
+
+    for (let i = 0; i < streams.length; i += subscribeBatchSize) {
+      if (!this.isOpen()) return;
+      const params = streams.slice(i, i + subscribeBatchSize);
+      this.ws!.send(JSON.stringify({ method, params, id: ++this.requestId }));
+
+      if (i + subscribeBatchSize < streams.length) {
+        await new Promise(resolve => setTimeout(resolve, subscribeIntervalMs));
+      }
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.options.reconnectDelayMs * Math.pow(2, this.reconnectAttempts),
+      this.options.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+
+    console.log(`🔄 [BinanceStream] Connection #${this.id}: reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    const checkEvery = Math.max(Math.floor(this.options.staleTimeoutMs / 4), 50);
+
+    this.watchdogTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > this.options.staleTimeoutMs) {
+        console.warn(`⚠️ [BinanceStream] Connection #${this.id}: no messages for ${this.options.staleTimeoutMs}ms, terminating`);
+        this.ws?.terminate();
+      }
+    }, checkEvery);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+}
+
+export class BinanceStreamClient {
+  private options: Required<BinanceStreamOptions>;
+  private connections: StreamConnection[] = [];
+  private klineHandlers: KlineHandler[] = [];
+  private markPriceHandlers: MarkPriceHandler[] = [];
+  private reconnectHandlers: ReconnectHandler[] = [];
+  private started = false;
+
+  constructor(options: BinanceStreamOptions = {}) {
+    this.options = {
+      baseUrl: options.baseUrl || process.env.BINANCE_WS_URL || BINANCE_FUTURES_WS,
+      maxStreamsPerConnection: options.maxStreamsPerConnection ?? 1000,
+      subscribeBatchSize: options.subscribeBatchSize ?? 100,
+      subscribeIntervalMs: options.subscribeIntervalMs ?? 250,
+      staleTimeoutMs: options.staleTimeoutMs ?? 60_000,
+      reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? 60_000,
+    };
+  }
+
+  onKline(handler: KlineHandler): void {
+    this.klineHandlers.push(handler);
+  }
+
+  onMarkPrice(handler: MarkPriceHandler): void {
+    this.markPriceHandlers.push(handler);
+  }
+
+  onReconnect(handler: ReconnectHandler): void {
+    this.reconnectHandlers.push(handler);
+  }
+
+  /**
+   * Replace the subscription set (only the difference is sent to Binance)
+   */
+  async setStreams(streams: string[]): Promise<void> {
+    const wanted = new Set(streams);
+
+    // Unsubscribe streams no longer wanted
+    for (const connection of this.connections) {
+      const stale = connection.getStreams().filter(s => !wanted.has(s));
+      if (stale.length > 0) {
+        await connection.unsubscribe(stale);
+      }
+    }
+
+    // Subscribe new streams, filling existing connections first
+    let pending = streams.filter(s => !this.connections.some(c => c.has(s)));
+    for (const connection of this.connections) {
+      if (pending.length === 0) break;
+      const capacity = this.options.maxStreamsPerConnection - connection.size;
+      if (capacity <= 0) continue;
+      await connection.subscribe(pending.slice(0, capacity));
+      pending = pending.slice(capacity);
+    }
+
+    while (pending.length > 0) {
+      const connection = new StreamConnection(this.connections.length + 1, this, this.options);
+      this.connections.push(connection);
+      await connection.subscribe(pending.slice(0, this.options.maxStreamsPerConnection));
+      pending = pending.slice(this.options.maxStreamsPerConnection);
+      if (this.started) {
+        connection.connect();
+      }
+    }
+
+    console.log(`📡 [BinanceStream] Subscribed to ${streams.length} streams over ${this.connections.length} connection(s)`);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.connections.forEach(connection => connection.connect());
+  }
+
+  stop(): void {
+    this.started = false;
+    this.connections.forEach(connection => connection.close());
+    console.log('🛑 [BinanceStream] All connections closed');
+  }
+
+  isConnected(): boolean {
+    return this.connections.length > 0 && this.connections.every(c => c.isOpen());
+  }
+
+  /** @internal Called by StreamConnection */
+  handleMessage(raw: string): void {
+    let parsed: ReturnType<typeof parseStreamMessage>;
+    try {
+      parsed = parseStreamMessage(raw);
+    } catch (error: any) {
+      console.error('❌ [BinanceStream] Failed to parse message:', error.message);
+      return;
+    }
+
+    if (parsed.kline) {
+      for (const handler of this.klineHandlers) {
+        this.runHandler(() => handler(parsed.kline!));
+      }
+    }
+
+    if (parsed.markPrices && parsed.markPrices.length > 0) {
+      for (const handler of this.markPriceHandlers) {
+        this.runHandler(() => handler(parsed.markPrices!));
+      }
+    }
+  }
+
+  /** @internal Called by StreamConnection */
+  emitReconnect(gapStartMs: number): void {
+    console.log(`🔄 [BinanceStream] Reconnected after gap since ${new Date(gapStartMs).toISOString()}`);
+    for (const handler of this.reconnectHandlers) {
+      this.runHandler(() => handler(gapStartMs));
+    }
+  }
+
+  private runHandler(fn: () => void | Promise<void>): void {
+    try {
+      Promise.resolve(fn()).catch((error: any) => {
+        console.error('❌ [BinanceStream] Handler failed:', error.message);
+      });
+    } catch (error: any) {
+      console.error('❌ [BinanceStream] Handler failed:', error.message);
+    }
+  }
+}
+
+export const binanceStream = new BinanceStreamClient();
@@ -82,25 +82,21 @@ export function calculateEMA(candles: Candle[], period: number): number {
  * 
  * Timeframe-aware thresholds для крипто-волатильности
  */
+// Timeframe-aware пороги NEUTRAL (15m = более волатильно, 4h и выше = менее волатильно)
+export const TREND_THRESHOLDS = {
+  '15m': { price: 0.005, ema: 0.004 },  // 0.5% / 0.4% - 15m очень динамичен
+  '1h':  { price: 0.01,  ema: 0.008 },  // 1.0% / 0.8%
+  '4h':  { price: 0.015, ema: 0.012 },  // 1.5% / 1.2%
+};
+
 export function analyzeTrend(candles: Candle[], timeframe: string = '15m'): TrendAnalysis {
   const ema50 = calculateEMA(candles, 50);
   const ema200 = calculateEMA(candles, 200);
   const currentPrice = parseFloat(candles[candles.length - 1].close);
 
-  // Timeframe-aware пороги (15m = более волатильно, 4h = менее волатильно)
-  let PRICE_THRESHOLD: number;
-  let EMA_THRESHOLD: number;
-  
-  if (timeframe === '15m') {
-    PRICE_THRESHOLD = 0.005;  // 0.5% - 15m очень динамичен
-    EMA_THRESHOLD = 0.004;    // 0.4%
-  } else if (timeframe === '1h') {
-    PRICE_THRESHOLD = 0.01;   // 1.0%
-    EMA_THRESHOLD = 0.008;    // 0.8%
-  } else { // 4h и выше
-    PRICE_THRESHOLD = 0.015;  // 1.5%
-    EMA_THRESHOLD = 0.012;    // 1.2%
-  }
+  const thresholds = TREND_THRESHOLDS[timeframe as keyof typeof TREND_THRESHOLDS] || TREND_THRESHOLDS['4h'];
+  const PRICE_THRESHOLD = thresholds.price;
+  const EMA_THRESHOLD = thresholds.ema;
   
   const priceToEma50Distance = Math.abs(currentPrice - ema50) / currentPrice;
   const ema50ToEma200Distance = Math.abs(ema50 - ema200) / ema200;
@@ -172,6 +168,9 @@ export function hasSharpMoveBefore(candles: Candle[], direction: 'LONG' | 'SHORT
   return hasSharpMove;
 }
 
+// Смягчённый порог объёма: 40% от среднего за 20 свечей (было: 85%)
+export const VOLUME_THRESHOLD = 0.40;
+
 /**
  * Проверка объема (должен быть выше среднего)
  */
@@ -185,7 +184,7 @@ export function isVolumeAboveAverage(candles: Candle[]): boolean {
   const currentVolume = volumes[volumes.length - 1];
 
   // Смягчаем фильтр: 40% от среднего достаточно (было: 85%)
-  const threshold = avgVolume * 0.40; // More relaxed - allow patterns with moderate volume
+  const threshold = avgVolume * VOLUME_THRESHOLD; // More relaxed - allow patterns with moderate volume
   const isAboveAverage = currentVolume >= threshold;
 
   console.log(`📊 [Volume] Current: ${currentVolume.toFixed(0)}, Avg(${last20Volumes.length}): ${avgVolume.toFixed(0)}, Threshold(40%): ${threshold.toFixed(0)} | Above avg: ${isAboveAverage}`);
@@ -210,12 +209,15 @@ export interface SRAnalysis {
 
 export interface PatternResult {
   detected: boolean;
-  type?: 'pinbar_buy' | 'pinbar_sell' | 'fakey_buy' | 'fakey_sell' | 'ppr_buy' | 'ppr_sell' | 'engulfing_buy' | 'engulfing_sell';
+  type?:
+    | 'pinbar_buy' | 'pinbar_sell' | 'fakey_buy' | 'fakey_sell' | 'ppr_buy' | 'ppr_sell' | 'engulfing_buy' | 'engulfing_sell'
+    | 'insidebar_buy' | 'insidebar_sell' | 'star_buy' | 'star_sell' | 'threebar_buy' | 'threebar_sell' | 'tweezer_buy' | 'tweezer_sell';
   direction?: 'LONG' | 'SHORT';
   entryPrice?: number;
   candleClosePrice?: number; // NEW: close price of pattern candle for SL/TP calculation
   srAnalysis?: SRAnalysis; // Добавляем S/R зоны
   score?: number; // Добавляем scoring
+  scoreComponents?: Record<string, number>; // zone + itemized module score (trend / volume / sharpMove), sums to score
 }
 
 /**
@@ -347,6 +349,15 @@ function clusterLevels(levels: number[], tolerance: number = 0.005, zoneWidthPer
   return zones;
 }
 
+// Настройки TradingView S/R Channels (те же, что inputs в binance_pattern_scanner.pine)
+export const SR_TV_SETTINGS = {
+  pivotPeriod: 10,
+  maxChannelWidthPercent: 5,
+  minStrength: 1,
+  maxChannels: 6,
+  loopbackPeriod: 290,
+};
+
 /**
  * Анализ S/R зон с использованием TradingView алгоритма
  * (Pivot Points + Channel grouping + Strength calculation)
@@ -364,13 +375,7 @@ export function analyzeSRZonesTV(candles: Candle[]): SRAnalysis {
   const currentPrice = parseFloat(candles[candles.length - 1].close);
   
   // Используем TradingView алгоритм для поиска каналов
-  const channels = findSRChannels(candles, {
-    pivotPeriod: 10,
-    maxChannelWidthPercent: 5,
-    minStrength: 1,
-    maxChannels: 6,
-    loopbackPeriod: 290,
-  });
+  const channels = findSRChannels(candles, SR_TV_SETTINGS);
   
   if (channels.length === 0) {
     console.log(`⚠️ [S/R TV] No channels found`);
@@ -541,920 +546,3 @@ export function calculateATR(candles: Candle[], period: number = 14): number {
   
   return trSum / period;
 }
-
-export class PatternDetector {
-  /**
-   * Расчет ATR (Average True Range) для N свечей
-   */
-  private calculateATR(candles: Candle[], period: number = 5): number {
-    return calculateATR(candles, period);
-  }
-
-  detectPinBar(candles: Candle[]): PatternResult {
-    // Нужно минимум 6 свечей для ATR и проверки "выступания"
-    if (candles.length < 6) return { detected: false };
-
-    // Анализируем последнюю ЗАКРЫТУЮ свечу (Binance API уже исключает формирующуюся свечу)
-    const lastCandleRaw = candles[candles.length - 1];
-    const C0 = analyzeCand(lastCandleRaw);
-    
-    // LOG: ДЕТАЛЬНАЯ ИНФОРМАЦИЯ О СВЕЧЕ
-    console.log(`\n🔍 [Pinbar] Analyzing LAST candle (index ${candles.length - 1}):`);
-    console.log(`   Time: ${new Date(lastCandleRaw.openTime).toISOString()} - ${new Date(lastCandleRaw.closeTime).toISOString()}`);
-    console.log(`   RAW OHLC: O=${lastCandleRaw.open}, H=${lastCandleRaw.high}, L=${lastCandleRaw.low}, C=${lastCandleRaw.close}`);
-    console.log(`   Entry will be: ${C0.close}`);
-    
-    // Базовые обозначения
-    const R = C0.range; // H - L
-    const B = C0.body;  // abs(C - O)
-    const U = C0.upperWick; // H - max(O, C)
-    const D = C0.lowerWick; // min(O, C) - L
-    
-    // Пропускаем свечи с нулевым диапазоном
-    if (R === 0) {
-      console.log(`⏭️ [Pinbar] Skipped: zero range`);
-      return { detected: false };
-    }
-    
-    // Параметры пинбара
-    const BODY_MAX_FRACTION = 0.33;
-    const EDGE_THRESHOLD = 0.25;
-    const TAIL_BODY_RATIO_MIN = 2.0;
-    const LONG_TAIL_RANGE_MIN = 0.66; // Softened from 0.60 for 15m (66% tail ratio)
-    const OPP_TAIL_RANGE_MAX = 0.20;
-    const OPP_TAIL_BODY_MAX = 0.50;
-    
-    // Параметры "выступания"
-    const ATR_LOOKBACK = 5;
-    const ATR_EPSILON = 0.10; // 10% от ATR
-    const TAIL_LOOKBACK = 5;
-    
-    const atr = this.calculateATR(candles, ATR_LOOKBACK);
-    
-    console.log(`\n🔍 [Pinbar] Analyzing C0: R=${R.toFixed(8)}, B=${B.toFixed(8)}, U=${U.toFixed(8)}, D=${D.toFixed(8)}, ATR=${atr.toFixed(8)}`);
-    
-    // ========== ЛОНГ ПИНБАР (нижний хвост) ==========
-    const bodyMaxLong = B <= BODY_MAX_FRACTION * R;
-    const bodyAtTopLong = U / R <= EDGE_THRESHOLD;
-    const longTailBodyLong = D >= TAIL_BODY_RATIO_MIN * B;
-    const longTailRangeLong = D >= LONG_TAIL_RANGE_MIN * R;
-    const oppTailShortLong = U <= Math.min(OPP_TAIL_RANGE_MAX * R, OPP_TAIL_BODY_MAX * B);
-    
-    if (bodyMaxLong && bodyAtTopLong && longTailBodyLong && longTailRangeLong && oppTailShortLong) {
-      console.log(`   ✅ Geometry LONG: body=${(B/R*100).toFixed(1)}%, bodyAtTop=${(U/R*100).toFixed(1)}%, tailVsBody=${(D/B).toFixed(2)}x, tailVsRange=${(D/R*100).toFixed(1)}%, oppTail=${(U/R*100).toFixed(1)}%`);
-      
-      // Проверка "выступания" нижнего хвоста (берем 5 свечей ПЕРЕД C0)
-      const recentLows = candles.slice(-TAIL_LOOKBACK - 1, -1).map(c => Number(c.low));
-      const minRecentLow = Math.min(...recentLows);
-      const tailProtrusion = C0.low <= minRecentLow - ATR_EPSILON * atr;
-      
-      console.log(`   🔎 Tail protrusion check: C0.low=${C0.low.toFixed(8)}, minLow(${TAIL_LOOKBACK})=${minRecentLow.toFixed(8)}, threshold=${(minRecentLow - ATR_EPSILON * atr).toFixed(8)}`);
-      
-      if (tailProtrusion) {
-        console.log(`   ✅✅ [Pattern] Pin Bar BUY detected (цвет НЕ важен, хвост выступает)`);
-        console.log(`   🎯 RETURNING Entry=${C0.close}, CandleClose=${C0.close}`);
-        
-        // 📊 SCORING (0-10): Pin Bar BUY
-        let score = 5; // Base score
-        
-        // 1. Tail/body ratio
-        const tailBodyRatio = B > 0 ? D / B : 10; // Very small body = high ratio
-        if (tailBodyRatio >= 3.0) {
-          score += 2;
-          console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 3.0: +2 points`);
-        } else if (tailBodyRatio >= 2.0) {
-          score += 1;
-          console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 2.0: +1 point`);
-        }
-        
-        // 2. Clean opposite wick (upper wick should be <10% of range)
-        const oppWickPercent = U / R;
-        if (oppWickPercent < 0.10) {
-          score += 1;
-          console.log(`   📊 [Score] Clean opposite wick ${(oppWickPercent*100).toFixed(1)}% < 10%: +1 point`);
-        }
-        
-        // 3. Body <25% of range
-        const bodyPercent = B / R;
-        if (bodyPercent < 0.25) {
-          score += 1;
-          console.log(`   📊 [Score] Small body ${(bodyPercent*100).toFixed(1)}% < 25%: +1 point`);
-        }
-        
-        // 4. Body at edge (upper edge for LONG pinbar)
-        const bodyFromTop = U / R;
-        if (bodyFromTop < 0.25) {
-          score += 1;
-          console.log(`   📊 [Score] Body at edge ${(bodyFromTop*100).toFixed(1)}% from top < 25%: +1 point`);
-        }
-        
-        // Cap at 10
-        score = Math.min(score, 10);
-        console.log(`📊 [Pattern Score] PINBAR_BUY: ${score}/10`);
-        
-        return {
-          detected: true,
-          type: 'pinbar_buy',
-          direction: 'LONG',
-          entryPrice: C0.close,
-          candleClosePrice: C0.close,
-          score,
-        };
-      } else {
-        console.log(`   ❌ REJECT: Tail does NOT protrude below recent lows`);
-      }
-    }
-    
-    // ========== ШОРТ ПИНБАР (верхний хвост) ==========
-    const bodyMaxShort = B <= BODY_MAX_FRACTION * R;
-    const bodyAtBottomShort = D / R <= EDGE_THRESHOLD;
-    const longTailBodyShort = U >= TAIL_BODY_RATIO_MIN * B;
-    const longTailRangeShort = U >= LONG_TAIL_RANGE_MIN * R;
-    const oppTailShortShort = D <= Math.min(OPP_TAIL_RANGE_MAX * R, OPP_TAIL_BODY_MAX * B);
-    
-    if (bodyMaxShort && bodyAtBottomShort && longTailBodyShort && longTailRangeShort && oppTailShortShort) {
-      console.log(`   ✅ Geometry SHORT: body=${(B/R*100).toFixed(1)}%, bodyAtBottom=${(D/R*100).toFixed(1)}%, tailVsBody=${(U/B).toFixed(2)}x, tailVsRange=${(U/R*100).toFixed(1)}%, oppTail=${(D/R*100).toFixed(1)}%`);
-      
-      // Проверка "выступания" верхнего хвоста (берем 5 свечей ПЕРЕД C0)
-      const recentHighs = candles.slice(-TAIL_LOOKBACK - 1, -1).map(c => Number(c.high));
-      const maxRecentHigh = Math.max(...recentHighs);
-      const tailProtrusion = C0.high >= maxRecentHigh + ATR_EPSILON * atr;
-      
-      console.log(`   🔎 Tail protrusion check: C0.high=${C0.high.toFixed(8)}, maxHigh(${TAIL_LOOKBACK})=${maxRecentHigh.toFixed(8)}, threshold=${(maxRecentHigh + ATR_EPSILON * atr).toFixed(8)}`);
-      
-      if (tailProtrusion) {
-        console.log(`   ✅✅ [Pattern] Pin Bar SELL detected (цвет НЕ важен, хвост выступает)`);
-        console.log(`   🎯 RETURNING Entry=${C0.close}, CandleClose=${C0.close}`);
-        
-        // 📊 SCORING (0-10): Pin Bar SELL
-        let score = 5; // Base score
-        
-        // 1. Tail/body ratio
-        const tailBodyRatio = B > 0 ? U / B : 10; // Very small body = high ratio
-        if (tailBodyRatio >= 3.0) {
-          score += 2;
-          console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 3.0: +2 points`);
-        } else if (tailBodyRatio >= 2.0) {
-          score += 1;
-          console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 2.0: +1 point`);
-        }
-        
-        // 2. Clean opposite wick (lower wick should be <10% of range)
-        const oppWickPercent = D / R;
-        if (oppWickPercent < 0.10) {
-          score += 1;
-          console.log(`   📊 [Score] Clean opposite wick ${(oppWickPercent*100).toFixed(1)}% < 10%: +1 point`);
-        }
-        
-        // 3. Body <25% of range
-        const bodyPercent = B / R;
-        if (bodyPercent < 0.25) {
-          score += 1;
-          console.log(`   📊 [Score] Small body ${(bodyPercent*100).toFixed(1)}% < 25%: +1 point`);
-        }
-        
-        // 4. Body at edge (lower edge for SHORT pinbar)
-        const bodyFromBottom = D / R;
-        if (bodyFromBottom < 0.25) {
-          score += 1;
-          console.log(`   📊 [Score] Body at edge ${(bodyFromBottom*100).toFixed(1)}% from bottom < 25%: +1 point`);
-        }
-        
-        // Cap at 10
-        score = Math.min(score, 10);
-        console.log(`📊 [Pattern Score] PINBAR_SELL: ${score}/10`);
-        
-        return {
-          detected: true,
-          type: 'pinbar_sell',
-          direction: 'SHORT',
-          entryPrice: C0.close,
-          candleClosePrice: C0.close,
-          score,
-        };
-      } else {
-        console.log(`   ❌ REJECT: Tail does NOT protrude above recent highs`);
-      }
-    }
-
-    return { detected: false };
-  }
-
-  detectFakey(candles: Candle[], timeframe?: string): PatternResult {
-    // Нужно минимум 6 свечей: MB + IB(s) + FB + ATR расчет
-    if (candles.length < 6) return { detected: false };
-
-    console.log(`\n🔍 [Fakey] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
-
-    // Параметры по таймфреймам (REMOVED minMBSize - following professional standards)
-    const tfParams = {
-      '15m': { epsilon: 0.225, maxConfirmBars: 2 },
-      '1h':  { epsilon: 0.175, maxConfirmBars: 3 },
-      '4h':  { epsilon: 0.125, maxConfirmBars: 3 },
-    };
-    
-    const params = tfParams[timeframe as keyof typeof tfParams] || tfParams['1h'];
-    const { epsilon, maxConfirmBars } = params;
-    
-    const atr = this.calculateATR(candles, 5);
-    
-    console.log(`   📊 ATR=${atr.toFixed(8)}, ε=${epsilon} (no MB size minimum)`);
-
-    // Пробуем разные варианты: MB + 1 IB, MB + 2 IB
-    for (let numIB = 1; numIB <= 2; numIB++) {
-      const requiredBars = 1 + numIB + 1; // MB + IB(s) + FB
-      if (candles.length < requiredBars) continue;
-
-      // MB = материнская свеча (последняя закрытая минус requiredBars)
-      const MB = analyzeCand(candles[candles.length - requiredBars]);
-      
-      // IB = inside bar(s) - свечи полностью внутри MB
-      const IBs: ReturnType<typeof analyzeCand>[] = [];
-      let allInside = true;
-      
-      for (let i = 1; i <= numIB; i++) {
-        const IB = analyzeCand(candles[candles.length - requiredBars + i]);
-        if (IB.high > MB.high || IB.low < MB.low) {
-          allInside = false;
-          break;
-        }
-        IBs.push(IB);
-      }
-      
-      if (!allInside) continue;
-      
-      // FB = свеча ложного пробоя (последняя ЗАКРЫТАЯ свеча)
-      const FB = analyzeCand(candles[candles.length - 1]);
-      
-      // Диапазон всех IB
-      const IBHigh = Math.max(...IBs.map(ib => ib.high));
-      const IBLow = Math.min(...IBs.map(ib => ib.low));
-      
-      console.log(`\n   🔎 Checking structure: MB + ${numIB} IB + FB`);
-      console.log(`      MB: H=${MB.high.toFixed(8)}, L=${MB.low.toFixed(8)}, Range=${MB.range.toFixed(8)}`);
-      console.log(`      IB: H=${IBHigh.toFixed(8)}, L=${IBLow.toFixed(8)}`);
-      console.log(`      FB: H=${FB.high.toFixed(8)}, L=${FB.low.toFixed(8)}, C=${FB.close.toFixed(8)}`);
-
-      // Professional standard: NO minimum MB size requirement, rely on structure clarity
-      console.log(`   ✅ MB structure check: Range=${MB.range.toFixed(8)} (ATR size filter REMOVED per pro standards)`);
-
-      // ========== LONG FAKEY ==========
-      // FB пробивает вниз (ложный пробой low IB), но закрывается обратно
-      const fbProbeBelowIB = FB.low < IBLow;
-      const fbProbeDepth = IBLow - FB.low;
-      const fbProbeOK = fbProbeDepth >= epsilon * atr;
-      const fbCloseBackInMB = FB.close >= MB.low && FB.close <= MB.high;
-      
-      if (fbProbeBelowIB && fbProbeOK && fbCloseBackInMB) {
-        // Подтверждение: FB закрылся выше IBHigh (пробой противоположного края)
-        const confirmedLong = FB.close > IBHigh;
-        
-        console.log(`   🔍 LONG candidate: probe=${fbProbeDepth.toFixed(8)} (need ${(epsilon * atr).toFixed(8)}), closeBack=${fbCloseBackInMB}, confirm=${confirmedLong}`);
-        
-        if (confirmedLong) {
-          console.log(`   ✅✅ [Pattern] Fakey BUY detected (цвет НЕ важен, ${numIB} IB)`);
-          
-          // 📊 SCORING (0-10): Fakey BUY
-          let score = 6; // Base score
-          
-          // 1. Mother bar size relative to ATR (≥1.5 ATR = +1 point)
-          const mbToAtrRatio = MB.range / atr;
-          if (mbToAtrRatio >= 1.5) {
-            score += 1;
-            console.log(`   📊 [Score] MB size ${mbToAtrRatio.toFixed(2)}x ATR ≥ 1.5: +1 point`);
-          }
-          
-          // 2. Inside bar tightness (already guaranteed by detection, but reward tighter IB)
-          const ibTightness = (IBHigh - IBLow) / MB.range;
-          if (ibTightness < 0.5) {
-            score += 1;
-            console.log(`   📊 [Score] IB tightness ${(ibTightness*100).toFixed(1)}% < 50%: +1 point`);
-          }
-          
-          // 3. False break distance (significant move outside MB, check probe depth)
-          const probePercent = fbProbeDepth / (epsilon * atr);
-          if (probePercent >= 1.5) {
-            score += 1;
-            console.log(`   📊 [Score] Strong false break ${probePercent.toFixed(2)}x epsilon: +1 point`);
-          }
-          
-          // 4. Clean rejection (close beyond opposite boundary = strong)
-          const closeAboveIBRange = (FB.close - IBHigh) / (IBHigh - IBLow || 1);
-          if (closeAboveIBRange >= 0.3) {
-            score += 1;
-            console.log(`   📊 [Score] Strong rejection close ${(closeAboveIBRange*100).toFixed(1)}% beyond IB: +1 point`);
-          }
-          
-          // Cap at 10
-          score = Math.min(score, 10);
-          console.log(`📊 [Pattern Score] FAKEY_BUY: ${score}/10`);
-          
-          return {
-            detected: true,
-            type: 'fakey_buy',
-            direction: 'LONG',
-            entryPrice: FB.close,
-            candleClosePrice: FB.close,
-            score,
-          };
-        }
-      }
-
-      // ========== SHORT FAKEY ==========
-      // FB пробивает вверх (ложный пробой high IB), но закрывается обратно
-      const fbProbeAboveIB = FB.high > IBHigh;
-      const fbProbeDepthShort = FB.high - IBHigh;
-      const fbProbeOKShort = fbProbeDepthShort >= epsilon * atr;
-      const fbCloseBackInMBShort = FB.close >= MB.low && FB.close <= MB.high;
-      
-      if (fbProbeAboveIB && fbProbeOKShort && fbCloseBackInMBShort) {
-        // Подтверждение: FB закрылся ниже IBLow (пробой противоположного края)
-        const confirmedShort = FB.close < IBLow;
-        
-        console.log(`   🔍 SHORT candidate: probe=${fbProbeDepthShort.toFixed(8)} (need ${(epsilon * atr).toFixed(8)}), closeBack=${fbCloseBackInMBShort}, confirm=${confirmedShort}`);
-        
-        if (confirmedShort) {
-          console.log(`   ✅✅ [Pattern] Fakey SELL detected (цвет НЕ важен, ${numIB} IB)`);
-          
-          // 📊 SCORING (0-10): Fakey SELL
-          let score = 6; // Base score
-          
-          // 1. Mother bar size relative to ATR (≥1.5 ATR = +1 point)
-          const mbToAtrRatio = MB.range / atr;
-          if (mbToAtrRatio >= 1.5) {
-            score += 1;
-            console.log(`   📊 [Score] MB size ${mbToAtrRatio.toFixed(2)}x ATR ≥ 1.5: +1 point`);
-          }
-          
-          // 2. Inside bar tightness (already guaranteed by detection, but reward tighter IB)
-          const ibTightness = (IBHigh - IBLow) / MB.range;
-          if (ibTightness < 0.5) {
-            score += 1;
-            console.log(`   📊 [Score] IB tightness ${(ibTightness*100).toFixed(1)}% < 50%: +1 point`);
-          }
-          
-          // 3. False break distance (significant move outside MB, check probe depth)
-          const probePercent = fbProbeDepthShort / (epsilon * atr);
-          if (probePercent >= 1.5) {
-            score += 1;
-            console.log(`   📊 [Score] Strong false break ${probePercent.toFixed(2)}x epsilon: +1 point`);
-          }
-          
-          // 4. Clean rejection (close beyond opposite boundary = strong)
-          const closeBelowIBRange = (IBLow - FB.close) / (IBHigh - IBLow || 1);
-          if (closeBelowIBRange >= 0.3) {
-            score += 1;
-            console.log(`   📊 [Score] Strong rejection close ${(closeBelowIBRange*100).toFixed(1)}% beyond IB: +1 point`);
-          }
-          
-          // Cap at 10
-          score = Math.min(score, 10);
-          console.log(`📊 [Pattern Score] FAKEY_SELL: ${score}/10`);
-          
-          return {
-            detected: true,
-            type: 'fakey_sell',
-            direction: 'SHORT',
-            entryPrice: FB.close,
-            candleClosePrice: FB.close,
-            score,
-          };
-        }
-      }
-    }
-
-    return { detected: false };
-  }
-
-  detectPPR(candles: Candle[], timeframe?: string): PatternResult {
-    // PPR = Piercing Pattern Reversal (двухсвечный разворотный паттерн)
-    // BULLISH: RED→GREEN, gap down, close >50% body Bar1
-    // BEARISH (Dark Cloud): GREEN→RED, gap up, close <50% body Bar1
-    
-    if (candles.length < 6) return { detected: false };
-
-    console.log(`\n🔍 [PPR - Piercing Pattern Reversal] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
-
-    const atr = this.calculateATR(candles, 5);
-    console.log(`   📊 ATR=${atr.toFixed(8)}`);
-
-    // Bar₁ и Bar₂ (последние две ЗАКРЫТЫЕ свечи)
-    const Bar1 = analyzeCand(candles[candles.length - 2]); // Первая свеча паттерна
-    const Bar2 = analyzeCand(candles[candles.length - 1]); // Вторая свеча паттерна (последняя ЗАКРЫТАЯ)
-    
-    console.log(`\n   🔎 Checking 2-bar Piercing Pattern:`);
-    console.log(`      Bar₁: O=${Bar1.open.toFixed(8)}, C=${Bar1.close.toFixed(8)}, H=${Bar1.high.toFixed(8)}, L=${Bar1.low.toFixed(8)}, body=${Bar1.body.toFixed(8)}, color=${Bar1.isGreen ? 'GREEN' : 'RED'}`);
-    console.log(`      Bar₂: O=${Bar2.open.toFixed(8)}, C=${Bar2.close.toFixed(8)}, H=${Bar2.high.toFixed(8)}, L=${Bar2.low.toFixed(8)}, body=${Bar2.body.toFixed(8)}, color=${Bar2.isGreen ? 'GREEN' : 'RED'}`);
-
-    // ========== BULLISH PIERCING PATTERN ==========
-    // 1. Bar₁ = RED (медвежья)
-    // 2. Bar₂ = GREEN (бычья) ← КРИТИЧНО: должна быть зеленой!
-    // 3. Gap down: Open₂ < Close₁ - tolerance (явный gap с учетом волатильности)
-    // 4. Close₂ > 50% body Bar₁ (закрытие выше середины тела)
-    // 5. Not full engulfing (Close₂ < Open₁)
-    
-    if (Bar1.isRed && Bar2.isGreen) {
-      // Professional standard: NO minimum body size in ATR, rely on gap + penetration geometry
-      console.log(`   ✅ BULLISH PPR color sequence: RED→GREEN (ATR size filter REMOVED per pro standards)`);
-      
-      const bar1BodyMid = (Bar1.open + Bar1.close) / 2;
-      
-      // Gap check с tolerance: Bar2 должен открыться НИЖЕ Close Bar1 с учетом волатильности
-      // Tolerance = 15% ATR (компромисс между строгостью и гибкостью для крипты)
-      const gapTolerance = 0.15 * atr;
-      const gapThreshold = Bar1.close - gapTolerance;
-      const gapDown = Bar2.open < gapThreshold;
-      
-      const closesAboveMid = Bar2.close > bar1BodyMid;
-      const closesWithinBar1Range = Bar2.close < Bar1.open; // Не полное поглощение
-      
-      console.log(`   🔍 BULLISH PIERCING candidate (RED→GREEN):`);
-      console.log(`      Gap down (O₂ < C₁-tol): ${Bar2.open.toFixed(8)} < ${gapThreshold.toFixed(8)} = ${gapDown ? '✅' : '❌'} (tolerance=${gapTolerance.toFixed(8)})`);
-      console.log(`      Close above 50% body: ${Bar2.close.toFixed(8)} > ${bar1BodyMid.toFixed(8)} = ${closesAboveMid ? '✅' : '❌'}`);
-      console.log(`      Not full engulfing (C₂ < O₁): ${Bar2.close.toFixed(8)} < ${Bar1.open.toFixed(8)} = ${closesWithinBar1Range ? '✅' : '❌'}`);
-      
-      if (gapDown && closesAboveMid && closesWithinBar1Range) {
-        const penetration = ((Bar2.close - Bar1.close) / Bar1.body) * 100;
-        console.log(`   ✅✅ [Pattern] PPR BUY detected (Bullish Piercing Pattern, penetration=${penetration.toFixed(1)}%)`);
-        
-        // 📊 SCORING (0-10): PPR BUY
-        let score = 6; // Base score
-        
-        // 1. Penetration depth (>50% already guaranteed, reward deeper penetration)
-        const penetrationPercent = (Bar2.close - Bar1.close) / Bar1.body;
-        if (penetrationPercent > 0.7) {
-          score += 1;
-          console.log(`   📊 [Score] Deep penetration ${(penetrationPercent*100).toFixed(1)}% > 70%: +1 point`);
-        }
-        
-        // 2. Gap size (visible gap already guaranteed by detection)
-        const gapSize = Bar1.close - Bar2.open;
-        const gapToAtrRatio = gapSize / atr;
-        if (gapToAtrRatio > 0.2) {
-          score += 1;
-          console.log(`   📊 [Score] Visible gap ${gapToAtrRatio.toFixed(2)}x ATR > 0.2: +1 point`);
-        }
-        
-        // 3. Bar2 strength (large body)
-        const bar2BodyToAtrRatio = Bar2.body / atr;
-        if (bar2BodyToAtrRatio >= 0.7) {
-          score += 1;
-          console.log(`   📊 [Score] Strong Bar2 body ${bar2BodyToAtrRatio.toFixed(2)}x ATR ≥ 0.7: +1 point`);
-        }
-        
-        // 4. Clean structure (small wicks on Bar2)
-        const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
-        if (bar2TotalWicks < 0.3) {
-          score += 1;
-          console.log(`   📊 [Score] Clean Bar2 wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
-        }
-        
-        // Cap at 10
-        score = Math.min(score, 10);
-        console.log(`📊 [Pattern Score] PPR_BUY: ${score}/10`);
-        
-        return {
-          detected: true,
-          type: 'ppr_buy',
-          direction: 'LONG',
-          entryPrice: Bar2.close,
-          candleClosePrice: Bar2.close,
-          score,
-        };
-      }
-    }
-
-    // ========== BEARISH DARK CLOUD COVER ==========
-    // 1. Bar₁ = GREEN (бычья)
-    // 2. Bar₂ = RED (медвежья) ← КРИТИЧНО: должна быть красной!
-    // 3. Gap up: Open₂ > Close₁ + tolerance (явный gap с учетом волатильности)
-    // 4. Close₂ < 50% body Bar₁ (закрытие ниже середины тела)
-    // 5. Not full engulfing (Close₂ > Open₁)
-    
-    if (Bar1.isGreen && Bar2.isRed) {
-      // Professional standard: NO minimum body size in ATR, rely on gap + penetration geometry
-      console.log(`   ✅ BEARISH PPR color sequence: GREEN→RED (ATR size filter REMOVED per pro standards)`);
-      
-      const bar1BodyMid = (Bar1.open + Bar1.close) / 2;
-      
-      // Gap check с tolerance: Bar2 должен открыться ВЫШЕ Close Bar1 с учетом волатильности
-      // Tolerance = 15% ATR (компромисс между строгостью и гибкостью для крипты)
-      const gapTolerance = 0.15 * atr;
-      const gapThreshold = Bar1.close + gapTolerance;
-      const gapUp = Bar2.open > gapThreshold;
-      
-      const closesBelowMid = Bar2.close < bar1BodyMid;
-      const closesWithinBar1Range = Bar2.close > Bar1.open; // Не полное поглощение
-      
-      console.log(`   🔍 BEARISH DARK CLOUD candidate (GREEN→RED):`);
-      console.log(`      Gap up (O₂ > C₁+tol): ${Bar2.open.toFixed(8)} > ${gapThreshold.toFixed(8)} = ${gapUp ? '✅' : '❌'} (tolerance=${gapTolerance.toFixed(8)})`);
-      console.log(`      Close below 50% body: ${Bar2.close.toFixed(8)} < ${bar1BodyMid.toFixed(8)} = ${closesBelowMid ? '✅' : '❌'}`);
-      console.log(`      Not full engulfing (C₂ > O₁): ${Bar2.close.toFixed(8)} > ${Bar1.open.toFixed(8)} = ${closesWithinBar1Range ? '✅' : '❌'}`);
-      
-      if (gapUp && closesBelowMid && closesWithinBar1Range) {
-        const penetration = ((Bar1.close - Bar2.close) / Bar1.body) * 100;
-        console.log(`   ✅✅ [Pattern] PPR SELL detected (Bearish Dark Cloud Cover, penetration=${penetration.toFixed(1)}%)`);
-        
-        // 📊 SCORING (0-10): PPR SELL
-        let score = 6; // Base score
-        
-        // 1. Penetration depth (>50% already guaranteed, reward deeper penetration)
-        const penetrationPercent = (Bar1.close - Bar2.close) / Bar1.body;
-        if (penetrationPercent > 0.7) {
-          score += 1;
-          console.log(`   📊 [Score] Deep penetration ${(penetrationPercent*100).toFixed(1)}% > 70%: +1 point`);
-        }
-        
-        // 2. Gap size (visible gap already guaranteed by detection)
-        const gapSize = Bar2.open - Bar1.close;
-        const gapToAtrRatio = gapSize / atr;
-        if (gapToAtrRatio > 0.2) {
-          score += 1;
-          console.log(`   📊 [Score] Visible gap ${gapToAtrRatio.toFixed(2)}x ATR > 0.2: +1 point`);
-        }
-        
-        // 3. Bar2 strength (large body)
-        const bar2BodyToAtrRatio = Bar2.body / atr;
-        if (bar2BodyToAtrRatio >= 0.7) {
-          score += 1;
-          console.log(`   📊 [Score] Strong Bar2 body ${bar2BodyToAtrRatio.toFixed(2)}x ATR ≥ 0.7: +1 point`);
-        }
-        
-        // 4. Clean structure (small wicks on Bar2)
-        const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
-        if (bar2TotalWicks < 0.3) {
-          score += 1;
-          console.log(`   📊 [Score] Clean Bar2 wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
-        }
-        
-        // Cap at 10
-        score = Math.min(score, 10);
-        console.log(`📊 [Pattern Score] PPR_SELL: ${score}/10`);
-        
-        return {
-          detected: true,
-          type: 'ppr_sell',
-          direction: 'SHORT',
-          entryPrice: Bar2.close,
-          candleClosePrice: Bar2.close,
-          score,
-        };
-      }
-    }
-
-    console.log(`   ❌ No PPR pattern detected`);
-    return { detected: false };
-  }
-
-  detectEngulfing(candles: Candle[], timeframe?: string): PatternResult {
-    // Нужно минимум 6 свечей для 2-bar pattern + ATR
-    if (candles.length < 6) return { detected: false };
-
-    console.log(`\n🔍 [Engulfing] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
-
-    // Параметры по таймфреймам (REMOVED minBodyATR - following professional standards)
-    const tfParams = {
-      '15m': { gamma: 0.175, bodyRatio: 1.2 },
-      '1h':  { gamma: 0.15,  bodyRatio: 1.2 },
-      '4h':  { gamma: 0.125, bodyRatio: 1.1 },
-    };
-    
-    const params = tfParams[timeframe as keyof typeof tfParams] || tfParams['1h'];
-    const { gamma, bodyRatio } = params;
-    
-    const atr = this.calculateATR(candles, 5);
-    
-    console.log(`   📊 ATR=${atr.toFixed(8)}, γ=${gamma}, bodyRatio=${bodyRatio} (no ATR minimum)`);
-
-    // Bar₁ и Bar₂ (последние две ЗАКРЫТЫЕ свечи)
-    const Bar1 = analyzeCand(candles[candles.length - 2]); // C1 (поглощаемая, первая свеча паттерна)
-    const Bar2 = analyzeCand(candles[candles.length - 1]); // C0 (поглощающая, последняя ЗАКРЫТАЯ)
-    
-    console.log(`\n   🔎 Checking Engulfing:`);
-    console.log(`      Bar₁: O=${Bar1.open.toFixed(8)}, C=${Bar1.close.toFixed(8)}, B=${Bar1.body.toFixed(8)}, color=${Bar1.isGreen ? 'GREEN' : 'RED'}`);
-    console.log(`      Bar₂: O=${Bar2.open.toFixed(8)}, C=${Bar2.close.toFixed(8)}, H=${Bar2.high.toFixed(8)}, L=${Bar2.low.toFixed(8)}, B=${Bar2.body.toFixed(8)}, R=${Bar2.range.toFixed(8)}, color=${Bar2.isGreen ? 'GREEN' : 'RED'}`);
-
-    // Общие константы
-    const EDGE_MAX = 0.25;
-    
-    // Проверка импульсности Bar₂
-    // Professional standard: Only check body ratio, NO minimum ATR requirement
-    const bodyRatioActual = Bar1.body > 0 ? Bar2.body / Bar1.body : 0;
-    const bodyRatioOK = bodyRatioActual >= bodyRatio;
-    if (!bodyRatioOK) {
-      console.log(`   ❌ Body ratio too small: ${bodyRatioActual.toFixed(2)} < ${bodyRatio}`);
-      return { detected: false };
-    }
-    console.log(`   ✅ Body ratio OK: ${bodyRatioActual.toFixed(2)} >= ${bodyRatio} (ATR size filter REMOVED per pro standards)`);
-
-    // ========== LONG (бычье поглощение) ==========
-    // Цвет: Bar₁ RED, Bar₂ GREEN
-    // Поглощение: O₂ ≤ C₁ − γ·ATR, C₂ ≥ O₁ + γ·ATR
-    if (Bar1.isRed && Bar2.isGreen) {
-      const gammaBuffer = gamma * atr;
-      
-      // Проверка поглощения с запасом
-      const openEngulfsBottom = Bar2.open <= Bar1.close - gammaBuffer;
-      const closeEngulfsTop = Bar2.close >= Bar1.open + gammaBuffer;
-      
-      console.log(`   🔍 BUY candidate (цвет: RED→GREEN ✅):`);
-      console.log(`      O₂ ≤ C₁ − γ·ATR: ${Bar2.open.toFixed(8)} <= ${(Bar1.close - gammaBuffer).toFixed(8)} ${openEngulfsBottom ? '✅' : '❌'}`);
-      console.log(`      C₂ ≥ O₁ + γ·ATR: ${Bar2.close.toFixed(8)} >= ${(Bar1.open + gammaBuffer).toFixed(8)} ${closeEngulfsTop ? '✅' : '❌'}`);
-      
-      if (openEngulfsBottom && closeEngulfsTop) {
-        // Проверка закрытия у верха: (H₂ - C₂) / R₂ ≤ 0.25
-        const closeAtTopFraction = Bar2.range > 0 ? (Bar2.high - Bar2.close) / Bar2.range : 1;
-        const closeAtTopOK = closeAtTopFraction <= EDGE_MAX;
-        
-        console.log(`      Close at top: ${(closeAtTopFraction * 100).toFixed(1)}% <= ${(EDGE_MAX * 100).toFixed(1)}% ${closeAtTopOK ? '✅' : '❌'}`);
-        
-        if (closeAtTopOK) {
-          console.log(`   ✅✅ [Pattern] Engulfing BUY detected (RED→GREEN с γ-запасом)`);
-          
-          // 📊 SCORING (0-10): Engulfing BUY
-          let score = 5; // Base score
-          
-          // 1. Full engulfment (Bar2 fully covers Bar1 range)
-          const fullEngulfment = Bar2.low <= Bar1.low && Bar2.high >= Bar1.high;
-          if (fullEngulfment) {
-            score += 2;
-            console.log(`   📊 [Score] Full range engulfment (Bar2 covers Bar1 completely): +2 points`);
-          }
-          
-          // 2. Engulfing strength (Bar2 body ≥2x Bar1 body)
-          const bodyRatioActual = Bar1.body > 0 ? Bar2.body / Bar1.body : 10;
-          if (bodyRatioActual >= 2.0) {
-            score += 1;
-            console.log(`   📊 [Score] Strong engulfing ${bodyRatioActual.toFixed(2)}x body ≥ 2.0: +1 point`);
-          }
-          
-          // 3. Clean structure (Bar2 has small wicks)
-          const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
-          if (bar2TotalWicks < 0.3) {
-            score += 1;
-            console.log(`   📊 [Score] Clean structure wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
-          }
-          
-          // 4. Body dominance (Bar2 body ≥80% of range)
-          const bodyDominance = Bar2.body / Bar2.range;
-          if (bodyDominance >= 0.8) {
-            score += 1;
-            console.log(`   📊 [Score] Body dominance ${(bodyDominance*100).toFixed(1)}% ≥ 80%: +1 point`);
-          }
-          
-          // Cap at 10
-          score = Math.min(score, 10);
-          console.log(`📊 [Pattern Score] ENGULFING_BUY: ${score}/10`);
-          
-          return {
-            detected: true,
-            type: 'engulfing_buy',
-            direction: 'LONG',
-            entryPrice: Bar2.close,
-            candleClosePrice: Bar2.close,
-            score,
-          };
-        }
-      }
-    }
-
-    // ========== SHORT (медвежье поглощение) ==========
-    // Цвет: Bar₁ GREEN, Bar₂ RED
-    // Поглощение: O₂ ≥ C₁ + γ·ATR, C₂ ≤ O₁ − γ·ATR
-    if (Bar1.isGreen && Bar2.isRed) {
-      const gammaBuffer = gamma * atr;
-      
-      // Проверка поглощения с запасом
-      const openEngulfsTop = Bar2.open >= Bar1.close + gammaBuffer;
-      const closeEngulfsBottom = Bar2.close <= Bar1.open - gammaBuffer;
-      
-      console.log(`   🔍 SELL candidate (цвет: GREEN→RED ✅):`);
-      console.log(`      O₂ ≥ C₁ + γ·ATR: ${Bar2.open.toFixed(8)} >= ${(Bar1.close + gammaBuffer).toFixed(8)} ${openEngulfsTop ? '✅' : '❌'}`);
-      console.log(`      C₂ ≤ O₁ − γ·ATR: ${Bar2.close.toFixed(8)} <= ${(Bar1.open - gammaBuffer).toFixed(8)} ${closeEngulfsBottom ? '✅' : '❌'}`);
-      
-      if (openEngulfsTop && closeEngulfsBottom) {
-        // Проверка закрытия у низа: (C₂ - L₂) / R₂ ≤ 0.25
-        const closeAtBottomFraction = Bar2.range > 0 ? (Bar2.close - Bar2.low) / Bar2.range : 1;
-        const closeAtBottomOK = closeAtBottomFraction <= EDGE_MAX;
-        
-        console.log(`      Close at bottom: ${(closeAtBottomFraction * 100).toFixed(1)}% <= ${(EDGE_MAX * 100).toFixed(1)}% ${closeAtBottomOK ? '✅' : '❌'}`);
-        
-        if (closeAtBottomOK) {
-          console.log(`   ✅✅ [Pattern] Engulfing SELL detected (GREEN→RED с γ-запасом)`);
-          
-          // 📊 SCORING (0-10): Engulfing SELL
-          let score = 5; // Base score
-          
-          // 1. Full engulfment (Bar2 fully covers Bar1 range)
-          const fullEngulfment = Bar2.low <= Bar1.low && Bar2.high >= Bar1.high;
-          if (fullEngulfment) {
-            score += 2;
-            console.log(`   📊 [Score] Full range engulfment (Bar2 covers Bar1 completely): +2 points`);
-          }
-          
-          // 2. Engulfing strength (Bar2 body ≥2x Bar1 body)
-          const bodyRatioActual = Bar1.body > 0 ? Bar2.body / Bar1.body : 10;
-          if (bodyRatioActual >= 2.0) {
-            score += 1;
-            console.log(`   📊 [Score] Strong engulfing ${bodyRatioActual.toFixed(2)}x body ≥ 2.0: +1 point`);
-          }
-          
-          // 3. Clean structure (Bar2 has small wicks)
-          const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
-          if (bar2TotalWicks < 0.3) {
-            score += 1;
-            console.log(`   📊 [Score] Clean structure wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
-          }
-          
-          // 4. Body dominance (Bar2 body ≥80% of range)
-          const bodyDominance = Bar2.body / Bar2.range;
-          if (bodyDominance >= 0.8) {
-            score += 1;
-            console.log(`   📊 [Score] Body dominance ${(bodyDominance*100).toFixed(1)}% ≥ 80%: +1 point`);
-          }
-          
-          // Cap at 10
-          score = Math.min(score, 10);
-          console.log(`📊 [Pattern Score] ENGULFING_SELL: ${score}/10`);
-          
-          return {
-            detected: true,
-            type: 'engulfing_sell',
-            direction: 'SHORT',
-            entryPrice: Bar2.close,
-            candleClosePrice: Bar2.close,
-            score,
-          };
-        }
-      }
-    }
-
-    return { detected: false };
-  }
-
-  detectAllPatterns(candles: Candle[], timeframe?: string): PatternResult[] {
-    console.log(`\n🔍 [Pattern Detection] Starting pattern detection with ${candles.length} candles (TF: ${timeframe || 'unknown'})`);
-    
-    const results: PatternResult[] = [];
-
-    // Анализ тренда (EMA 50/200) - используем timeframe-aware пороги
-    const trend = analyzeTrend(candles, timeframe || '15m');
-    
-    // Анализ S/R зон (TradingView алгоритм)
-    const srAnalysis = analyzeSRZonesTV(candles);
-    
-    // Проверка объема
-    const hasGoodVolume = isVolumeAboveAverage(candles);
-    if (!hasGoodVolume) {
-      console.log(`❌ [Filter] REJECTED - Volume below average, skipping all patterns`);
-      return results;
-    }
-
-    // Детектируем паттерны и оцениваем их
-    const patterns = [
-      this.detectPinBar(candles),
-      this.detectFakey(candles, timeframe),
-      this.detectPPR(candles, timeframe),
-      this.detectEngulfing(candles, timeframe),
-    ];
-
-    for (const pattern of patterns) {
-      if (!pattern.detected || !pattern.direction || !pattern.entryPrice) continue;
-
-      // Добавляем S/R анализ к паттерну
-      pattern.srAnalysis = srAnalysis;
-
-      // === SCORING SYSTEM ===
-      let score = 0;
-      const patternName = pattern.type?.replace('_buy', '').replace('_sell', '').toUpperCase();
-      const isPinbar = pattern.type?.startsWith('pinbar');
-      const isFakey = pattern.type?.startsWith('fakey');
-      const isPPR = pattern.type?.startsWith('ppr');
-      const isEngulfing = pattern.type?.startsWith('engulfing');
-      
-      console.log(`\n💯 [Scoring] ${patternName} ${pattern.direction}:`);
-
-      // ⛔ СТРОГАЯ ФИЛЬТРАЦИЯ ПО ТРЕНДУ (для ВСЕХ паттернов БЕЗ ИСКЛЮЧЕНИЙ)
-      
-      // 1. БЛОКИРУЕМ сигналы в NEUTRAL зоне (ranging/переходный рынок)
-      if (trend.isNeutral) {
-        console.log(`   ⛔ TREND GATING: REJECT - NEUTRAL market (ranging/transition), no clear trend`);
-        console.log(`      Price=${trend.currentPrice.toFixed(2)}, EMA50=${trend.ema50.toFixed(2)}, EMA200=${trend.ema200.toFixed(2)}\n`);
-        continue;
-      }
-      
-      // 2. БЛОКИРУЕМ контр-трендовые сигналы
-      const isCounterTrend = 
-        (pattern.direction === 'LONG' && trend.isDowntrend) ||
-        (pattern.direction === 'SHORT' && trend.isUptrend);
-      
-      if (isCounterTrend) {
-        console.log(`   ⛔ TREND GATING: REJECT - ${pattern.direction} сигнал ПРОТИВ тренда (Price=${trend.currentPrice.toFixed(2)}, EMA50=${trend.ema50.toFixed(2)}, EMA200=${trend.ema200.toFixed(2)})`);
-        console.log(`      Uptrend=${trend.isUptrend}, Downtrend=${trend.isDowntrend}\n`);
-        continue;
-      }
-      
-      console.log(`   ✅ TREND CHECK: Passed - ${pattern.direction} aligned with market trend`);
-
-      // 📊 S/R ЗОНЫ - ТОЛЬКО ДЛЯ ИНФОРМАЦИИ И БОНУСНОГО SCORING (НЕ ОБЯЗАТЕЛЬНО!)
-      const distanceToSupport = getDistanceToZone(pattern.entryPrice, srAnalysis.nearestSupport);
-      const distanceToResistance = getDistanceToZone(pattern.entryPrice, srAnalysis.nearestResistance);
-      
-      // Цена "у зоны" = расстояние < 0.5% ИЛИ внутри зоны (distance = 0)
-      const isNearSupport = distanceToSupport !== null && distanceToSupport <= 0.005;
-      const isNearResistance = distanceToResistance !== null && distanceToResistance <= 0.005;
-
-      // Логирование S/R зон с границами (информационно)
-      if (srAnalysis.nearestSupport) {
-        const zone = srAnalysis.nearestSupport;
-        console.log(`   📍 Support ZONE: ${zone.lower.toFixed(4)} - ${zone.upper.toFixed(4)} (center: ${zone.price.toFixed(4)}, ${zone.touches} touches)`);
-        console.log(`      Distance: ${distanceToSupport !== null ? (distanceToSupport * 100).toFixed(2) + '%' : 'N/A'}`);
-      }
-      if (srAnalysis.nearestResistance) {
-        const zone = srAnalysis.nearestResistance;
-        console.log(`   📍 Resistance ZONE: ${zone.lower.toFixed(4)} - ${zone.upper.toFixed(4)} (center: ${zone.price.toFixed(4)}, ${zone.touches} touches)`);
-        console.log(`      Distance: ${distanceToResistance !== null ? (distanceToResistance * 100).toFixed(2) + '%' : 'N/A'}`);
-      }
-
-      // 🎁 БОНУСНЫЙ SCORING: даем +100 если паттерн возле правильной зоны, но НЕ ОТКЛОНЯЕМ если далеко
-      if (pattern.direction === 'LONG' && isNearSupport) {
-        score += 100;
-        console.log(`   ✅ S/R BONUS: +100 (LONG возле Support зоны)`);
-      } else if (pattern.direction === 'SHORT' && isNearResistance) {
-        score += 100;
-        console.log(`   ✅ S/R BONUS: +100 (SHORT возле Resistance зоны)`);
-      } else {
-        console.log(`   ⚪ S/R BONUS: +0 (паттерн вне S/R зон - OK, не отклоняем!)`);
-      }
-
-      // 2️⃣ EMA TREND SCORE (для ВСЕХ паттернов включая Pin Bar)
-      const trendAligned = 
-        (pattern.direction === 'LONG' && trend.isUptrend) ||
-        (pattern.direction === 'SHORT' && trend.isDowntrend);
-      
-      const weakTrend = 
-        (pattern.direction === 'LONG' && trend.currentPrice > trend.ema50 && Math.abs(trend.ema50 - trend.ema200) / trend.ema200 < 0.02) ||
-        (pattern.direction === 'SHORT' && trend.currentPrice < trend.ema50 && Math.abs(trend.ema50 - trend.ema200) / trend.ema200 < 0.02);
-
-      if (trendAligned) {
-        score += 30;
-        console.log(`   ✅ Trend: +30 (сильный тренд aligned)`);
-      } else if (weakTrend) {
-        score += 15;
-        console.log(`   ⚠️ Trend: +15 (слабый тренд)`);
-      } else {
-        score += 0;
-        console.log(`   ❌ Trend: +0 (нейтральный тренд)`);
-      }
-
-      // 3️⃣ VOLUME SCORE
-      const volumes = candles.map((c) => parseFloat(c.volume));
-      const last20Volumes = volumes.slice(volumes.length - 21, volumes.length - 1);
-      const avgVolume = last20Volumes.reduce((sum, vol) => sum + vol, 0) / last20Volumes.length;
-      const currentVolume = volumes[volumes.length - 1];
-      const volumeRatio = currentVolume / avgVolume;
-
-      if (volumeRatio > 1.5) {
-        score += 30;
-        console.log(`   ✅ Volume: +30 (${volumeRatio.toFixed(2)}x average)`);
-      } else if (volumeRatio > 1.0) {
-        score += 15;
-        console.log(`   ⚠️ Volume: +15 (${volumeRatio.toFixed(2)}x average)`);
-      } else {
-        score += 0;
-        console.log(`   ❌ Volume: +0 (${volumeRatio.toFixed(2)}x average)`);
-      }
-
-      // 4️⃣ SHARP MOVE SCORE
-      const hasSharpMove = hasSharpMoveBefore(candles, pattern.direction);
-      if (!hasSharpMove) {
-        score += 20;
-        console.log(`   ✅ Sharp Move: +20 (нет profit-taking)`);
-      } else {
-        score += 0;
-        console.log(`   ❌ Sharp Move: +0 (обнаружен profit-taking)`);
-      }
-
-      // === ИТОГОВАЯ ОЦЕНКА ===
-      pattern.score = score;
-      console.log(`   🎯 ИТОГО: ${score} баллов`);
-
-      // Минимальный порог для ВСЕХ паттернов (S/R зоны не обязательны)
-      let minScore = 50;
-      let thresholdLabel = '50';
-      
-      if (score >= minScore) {
-        const quality = score >= 150 ? '⭐⭐⭐ PREMIUM' : '⭐⭐ GOOD';
-        console.log(`   ✅ ${quality} - сигнал ПРИНЯТ!\n`);
-        results.push(pattern);
-      } else {
-        console.log(`   ❌ ОТКЛОНЕН (score < ${thresholdLabel})\n`);
-      }
-    }
-
-    console.log(`📊 [Pattern Detection] Total patterns passed filters: ${results.length}`);
-    return results;
-  }
-}
-
-export const patternDetector = new PatternDetector();
@@ -0,0 +1,177 @@
+/**
+ * Confirmation Entry - PENDING_CONFIRMATION stage between pattern detection and an OPEN signal
+ *
+ * A pattern routed here does not enter at its candle close. It waits up to CONFIRM_WAIT_BARS bars
+ * of the signal timeframe for a lower-timeframe confirmation and enters at the confirmation close:
+ * - bos_1m / bos_5m: a closed 1m / 5m candle breaks the structure the pattern formed in
+ *   (LONG: close above the highest high of the last STRUCTURE_LOOKBACK candles before the pattern close)
+ * - rejection_15m: a closed 15m candle retests the pattern close and rejects it
+ *   (LONG: low ≤ pattern close, bullish close above it)
+ * - fakey_reentry: price sweeps the pattern candle extreme and a 5m candle closes back inside
+ * Stop touched (or TP1 passed) before confirmation → invalidated, no confirmation in time → expired;
+ * both are logged as near-miss skips.
+ *
+ * Env:
+ *   CONFIRMATION_MODE=off            off (default: live entries unchanged) | counter_trend (15m patterns the trend filter rejects) | all
+ *   CONFIRM_WAIT_BARS=3              bars of the signal timeframe to wait for confirmation
+ *   CONFIRM_TYPE=                    force one type (default by timeframe: 15m → bos_1m, 1h → bos_5m, 4h → rejection_15m)
+ */
+
+import type { Candle } from './exchanges/types';
+
+export type ConfirmType = 'bos_1m' | 'bos_5m' | 'rejection_15m' | 'fakey_reentry';
+export type ConfirmationMode = 'off' | 'counter_trend' | 'all';
+
+export const CONFIRM_TYPES: ConfirmType[] = ['bos_1m', 'bos_5m', 'rejection_15m', 'fakey_reentry'];
+
+const STRUCTURE_LOOKBACK = 5;
+
+export interface ConfirmationConfig {
+  mode: ConfirmationMode;
+  waitBars: number;
+  confirmType: ConfirmType | null; // null = by timeframe
+}
+
+export function getConfirmationConfig(env: Record<string, string | undefined> = process.env): ConfirmationConfig {
+  const mode = env.CONFIRMATION_MODE;
+  const waitBars = parseInt(env.CONFIRM_WAIT_BARS || '', 10);
+  const confirmType = env.CONFIRM_TYPE;
+  return {
+    mode: mode === 'counter_trend' || mode === 'all' ? mode : 'off',
+    waitBars: Number.isFinite(waitBars) && waitBars > 0 ? waitBars : 3,
+    confirmType: confirmType && (CONFIRM_TYPES as string[]).includes(confirmType) ? confirmType as ConfirmType : null,
+  };
+}
+
+/**
+ * Should a pattern wait for confirmation instead of entering at the pattern close
+ * rejectedByTrend: isPatternWithTrend said no (would have been skipped without this path)
+ */
+export function requiresConfirmation(config: ConfirmationConfig, rejectedByTrend: boolean): boolean {
+  if (config.mode === 'all') return true;
+  return config.mode === 'counter_trend' && rejectedByTrend;
+}
+
+export function getConfirmType(config: ConfirmationConfig, timeframe: string): ConfirmType {
+  if (config.confirmType) return config.confirmType;
+  if (timeframe === '15m') return 'bos_1m';
+  if (timeframe === '1h') return 'bos_5m';
+  return 'rejection_15m';
+}
+
+/**
+ * Lower timeframe the confirmation is evaluated on
+ */
+export function getConfirmInterval(type: ConfirmType): string {
+  switch (type) {
+    case 'bos_1m':
+      return '1m';
+    case 'rejection_15m':
+      return '15m';
+    default:
+      return '5m';
+  }
+}
+
+/**
+ * Candles before the pattern close needed for the structure level
+ */
+export function getConfirmLookbackMs(type: ConfirmType, intervalMs: number): number {
+  return type === 'bos_1m' || type === 'bos_5m' ? STRUCTURE_LOOKBACK * intervalMs : 0;
+}
+
+export interface PendingLevels {
+  direction: 'LONG' | 'SHORT';
+  patternClose: number;     // Planned entry (pattern candle close)
+  patternHigh: number;      // Pattern candle high / low (fakey sweep levels)
+  patternLow: number;
+  slPrice: number;
+  tp1Price: number;
+  patternCloseTime: number; // ms, confirmation candles start here
+  expiresAt: number;        // ms
+}
+
+export type ConfirmationResult =
+  | { state: 'waiting' }
+  | { state: 'confirmed'; price: number; time: number }
+  | { state: 'invalidated'; reason: 'stop' | 'target'; time: number }
+  | { state: 'expired'; time: number };
+
+/**
+ * Walk closed lower-timeframe candles (oldest first) after the pattern close
+ */
+export function evaluateConfirmation(
+  type: ConfirmType,
+  levels: PendingLevels,
+  candles: Candle[],
+  now: number
+): ConfirmationResult {
+  const isLong = levels.direction === 'LONG';
+  const before = candles.filter(c => c.openTime < levels.patternCloseTime).slice(-STRUCTURE_LOOKBACK);
+  const after = candles.filter(c => c.openTime >= levels.patternCloseTime);
+
+  // No structure before the pattern (history gap) → the pattern candle extreme is the structure
+  const structureLevel = before.length > 0
+    ? (isLong ? Math.max(...before.map(c => Number(c.high))) : Math.min(...before.map(c => Number(c.low))))
+    : (isLong ? levels.patternHigh : levels.patternLow);
+
+  let swept = false;
+  for (const candle of after) {
+    if (candle.openTime >= levels.expiresAt) {
+      return { state: 'expired', time: levels.expiresAt };
+    }
+
+    const high = Number(candle.high);
+    const low = Number(candle.low);
+    const open = Number(candle.open);
+    const close = Number(candle.close);
+    const time = candle.closeTime + 1;
+
+    // Stop first: the same candle cannot both invalidate and confirm
+    if (isLong ? low <= levels.slPrice : high >= levels.slPrice) {
+      return { state: 'invalidated', reason: 'stop', time };
+    }
+
+    let confirmed = false;
+    switch (type) {
+      case 'bos_1m':
+      case 'bos_5m':
+        confirmed = isLong ? close > structureLevel : close < structureLevel;
+        break;
+      case 'rejection_15m':
+        confirmed = isLong
+          ? low <= levels.patternClose && close > levels.patternClose && close > open
+          : high >= levels.patternClose && close < levels.patternClose && close < open;
+        break;
+      case 'fakey_reentry':
+        swept = swept || (isLong ? low < levels.patternLow : high > levels.patternHigh);
+        confirmed = swept && (isLong ? close > levels.patternLow : close < levels.patternHigh);
+        break;
+    }
+
+    if (confirmed) {
+      // Move already done → nothing left to enter for
+      if (isLong ? close >= levels.tp1Price : close <= levels.tp1Price) {
+        return { state: 'invalidated', reason: 'target', time };
+      }
+      return { state: 'confirmed', price: close, time };
+    }
+  }
+
+  return now >= levels.expiresAt ? { state: 'expired', time: levels.expiresAt } : { state: 'waiting' };
+}
+
+/**
+ * Wait from the pattern close to confirmation/expiry in 15m bars (confirm_wait_bars_15m)
+ */
+export function waitBars15m(patternCloseTime: number, time: number): number {
+  return Math.max(0, Math.ceil((time - patternCloseTime) / (15 * 60_000)));
+}
+
+/**
+ * TP R-multiples for the confirmation entry (SL / TP prices are kept from the pattern plan)
+ */
+export function rescaleRr(entryPrice: number, slPrice: number, tps: number[]): number[] {
+  const risk = Math.abs(entryPrice - slPrice);
+  return tps.map(tp => (risk > 0 ? Math.abs(tp - entryPrice) / risk : 0));
+}
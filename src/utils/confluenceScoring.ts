@@ -6,7 +6,7 @@
  * - Professionals use 3-4 out of 8 factors (confluence scoring)
  * - NOT "all or nothing" approach
  * 
- * For 15m: Minimum 5/10 points required (equivalent to 3-4 factors)
+ * For 15m: Minimum 5/11 points required (equivalent to 3-4 factors)
  */
 
 export interface ConfluenceFactors {
@@ -33,10 +33,13 @@ export interface ConfluenceFactors {
   
   // Factor 8: R:R Available (+1 point)
   rAvailable: boolean;           // R_available ≥ 2.0 (enough space for TP)
+  
+  // Factor 9: Order Block / FVG (+1 point)
+  inObFvg: boolean;              // Pattern candle inside an unmitigated order block / fair value gap of its direction
 }
 
 /**
- * Calculate confluence score based on 8 professional factors
+ * Calculate confluence score based on 9 professional factors
  * 
  * Scoring weights:
  * - Pattern Quality: +2 (geometry must be correct)
@@ -47,8 +50,9 @@ export interface ConfluenceFactors {
  * - Multi-TF Confluence: +1
  * - Clean Rejection: +1
  * - R:R Available: +1
+ * - Order Block / FVG: +1
  * 
- * Maximum: 10 points
+ * Maximum: 11 points
  */
 export function calculateConfluenceScore(factors: ConfluenceFactors): number {
   let score = 0;
@@ -95,7 +99,12 @@ export function calculateConfluenceScore(factors: ConfluenceFactors): number {
     console.log(`   ✅ [Confluence] R:R Space Available (≥2.0R): +1 point`);
   }
   
-  console.log(`\n📊 [Confluence] Total Score: ${score}/10`);
+  if (factors.inObFvg) {
+    score += 1;
+    console.log(`   ✅ [Confluence] Inside Unmitigated Order Block / FVG: +1 point`);
+  }
+  
+  console.log(`\n📊 [Confluence] Total Score: ${score}/11`);
   return score;
 }
 
@@ -103,9 +112,9 @@ export function calculateConfluenceScore(factors: ConfluenceFactors): number {
  * Check if confluence score meets minimum requirement for given timeframe
  * 
  * Professional standards:
- * - 15m: 5/10 min (HIGH NOISE → need MORE confluence)
- * - 1h:  4/10 min (medium noise)
- * - 4h:  3/10 min (low noise, more reliable patterns)
+ * - 15m: 5/11 min (HIGH NOISE → need MORE confluence)
+ * - 1h:  4/11 min (medium noise)
+ * - 4h:  3/11 min (low noise, more reliable patterns)
  * 
  * Equivalent to "3-4 out of 8 factors" rule used by professionals
  */
@@ -122,7 +131,7 @@ export function meetsConfluenceRequirement(
   const minRequired = minRequirements[timeframe] || 4;
   const meets = score >= minRequired;
   
-  console.log(`📊 [Confluence] Requirement for ${timeframe}: ${score}/10 >= ${minRequired}/10 → ${meets ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`📊 [Confluence] Requirement for ${timeframe}: ${score}/11 >= ${minRequired}/11 → ${meets ? '✅ PASS' : '❌ FAIL'}`);
   
   return meets;
 }
@@ -164,5 +173,8 @@ export function getConfluenceExplanation(
   if (factors.rAvailable) passed.push('R:R Available (+1)');
   else failed.push('R:R Available');
   
+  if (factors.inObFvg) passed.push('Order Block / FVG (+1)');
+  else failed.push('Order Block / FVG');
+  
   return `Confluence ${score}/${minRequired} for ${timeframe}. Passed: [${passed.join(', ')}]. Missing: [${failed.join(', ')}]`;
 }
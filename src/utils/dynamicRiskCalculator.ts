@@ -94,6 +94,7 @@ export interface DynamicRiskInput {
   candles1h?: Candle[]; // For trend analysis
   candles4h?: Candle[]; // For trend analysis
   patternScore?: number; // 0-10 from pattern detection
+  targetZones?: Zone[]; // Extra TP targets: key volume levels (POC / VAH / VAL / HVN / anchored VWAP)
 }
 
 /**
@@ -121,6 +122,7 @@ export function calculateDynamicRiskProfile(input: DynamicRiskInput): DynamicRis
     atr4h,
     zoneTestCount24h,
     candles15m,
+    targetZones = [],
   } = input;
 
   console.log(`🎯 [DynamicRisk] Calculating for ${direction} @ ${entryPrice.toFixed(8)}`);
@@ -249,7 +251,7 @@ export function calculateDynamicRiskProfile(input: DynamicRiskInput): DynamicRis
     riskR,
     rAvailable,
     clearance,
-    zones,
+    [...zones, ...targetZones], // TP может остановиться и на HVN / POC, не только на S/R кластере
     atr4h
   );
 
@@ -464,7 +466,7 @@ function findNearestResistanceZones(
   const zoneLevels = sortedZones.slice(0, count).map(z => {
     const level = direction === 'LONG' ? z.low : z.high;
     const dist = Math.abs(level - entry);
-    console.log(`   📍 Zone: ${level.toFixed(8)} (${z.tf}, distance: ${dist.toFixed(8)})`);
+    console.log(`   📍 Zone: ${level.toFixed(8)} (${z.tf}${z.kind ? ` ${z.kind}` : ''}, distance: ${dist.toFixed(8)})`);
     return level;
   });
 
@@ -542,7 +544,7 @@ function calculateHybridTP(
  * 
  * Strategy:
  * 1. Calculate fixed R-targets (1.0R, 2.0R, 3.0R)
- * 2. Find nearest resistance zones (15m, 1h, 4h)
+ * 2. Find nearest resistance zones (15m, 1h, 4h + key volume levels from targetZones)
  * 3. Adjust zones by 5% to place TP BEFORE the zone
  * 4. Use min(fixedR, zoneAdjusted) for each TP
  * 5. Validate ordering and minimum distance
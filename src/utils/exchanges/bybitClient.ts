@@ -0,0 +1,171 @@
+/**
+ * Bybit V5 linear perpetuals (USDT) adapter
+ * Docs: https://bybit-exchange.github.io/docs/v5/market/kline
+ */
+
+import { createHttpClient } from './http';
+import { intervalToMs } from './intervals';
+import { BinanceRateLimiter } from '../rateLimiter';
+import type { Candle, ExchangeClient, FundingInfo, SymbolInfo, Venue } from './types';
+
+const BYBIT_API = 'https://api.bybit.com';
+const MAX_KLINE_LIMIT = 1000;
+
+// Binance interval notation → Bybit
+const BYBIT_INTERVALS: Record<string, string> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720', '1d': 'D',
+};
+
+const axiosInstance = createHttpClient('BybitClient');
+const bybitRateLimiter = new BinanceRateLimiter(6000); // Bybit: 600 requests / 5s per IP
+
+async function bybitGet(path: string, params: Record<string, any>): Promise<any> {
+  const response = await bybitRateLimiter.executeRequest(1, async () => {
+    return await axiosInstance.get(`${BYBIT_API}${path}`, { params });
+  });
+
+  if (response.data.retCode !== 0) {
+    throw new Error(`Bybit ${path} error ${response.data.retCode}: ${response.data.retMsg}`);
+  }
+  return response.data.result;
+}
+
+// [startTime, open, high, low, close, volume, turnover]
+function parseKline(k: string[], intervalMs: number): Candle {
+  return {
+    openTime: parseInt(k[0], 10),
+    open: k[1],
+    high: k[2],
+    low: k[3],
+    close: k[4],
+    volume: k[5],
+    closeTime: parseInt(k[0], 10) + intervalMs - 1,
+  };
+}
+
+export class BybitClient implements ExchangeClient {
+  readonly venue: Venue = 'bybit';
+
+  async getTradingPairs(): Promise<string[]> {
+    console.log('📊 [BybitClient] Fetching trading pairs from Bybit...');
+
+    const result = await bybitGet('/v5/market/tickers', { category: 'linear' });
+    const usdtPairs = result.list
+      .filter((t: any) => t.symbol.endsWith('USDT'))
+      .filter((t: any) => parseFloat(t.turnover24h) > 10_000_000)
+      .map((t: any) => t.symbol);
+
+    console.log(`✅ [BybitClient] Found ${usdtPairs.length} USDT pairs with volume > 10M`);
+    return usdtPairs;
+  }
+
+  async getKlines(
+    symbol: string,
+    interval: string,
+    limit: number = 3,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const bybitInterval = BYBIT_INTERVALS[interval];
+    const intervalMs = intervalToMs(interval);
+    if (!bybitInterval || intervalMs === null) {
+      throw new Error(`Unsupported interval for Bybit: ${interval}`);
+    }
+
+    const requestLimit = Math.min(includeOpenCandle ? limit : limit + 1, MAX_KLINE_LIMIT);
+    console.log(`📈 [BybitClient] Fetching ${requestLimit} ${interval} candles for ${symbol}...`);
+
+    const result = await bybitGet('/v5/market/kline', {
+      category: 'linear',
+      symbol,
+      interval: bybitInterval,
+      limit: requestLimit,
+    });
+
+    // Bybit returns newest first
+    const allCandles: Candle[] = result.list
+      .map((k: string[]) => parseKline(k, intervalMs))
+      .reverse();
+
+    return includeOpenCandle ? allCandles : allCandles.slice(0, -1);
+  }
+
+  async getKlinesSince(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const bybitInterval = BYBIT_INTERVALS[interval];
+    const intervalMs = intervalToMs(interval);
+    if (!bybitInterval || intervalMs === null) {
+      throw new Error(`Unsupported interval for Bybit: ${interval}`);
+    }
+    console.log(`📈 [BybitClient] Fetching ${interval} candles for ${symbol} since ${new Date(startTime).toISOString()}...`);
+
+    // Page forward in [start, end] windows of MAX_KLINE_LIMIT candles
+    const now = Date.now();
+    const candles: Candle[] = [];
+    for (let cursor = startTime; cursor <= now; cursor += MAX_KLINE_LIMIT * intervalMs) {
+      const result = await bybitGet('/v5/market/kline', {
+        category: 'linear',
+        symbol,
+        interval: bybitInterval,
+        start: cursor,
+        end: cursor + MAX_KLINE_LIMIT * intervalMs - 1,
+        limit: MAX_KLINE_LIMIT,
+      });
+      candles.push(...result.list.map((k: string[]) => parseKline(k, intervalMs)).reverse());
+    }
+
+    const inRange = candles.filter(c => c.openTime >= startTime);
+    return includeOpenCandle ? inRange : inRange.filter(c => c.closeTime < now);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const result = await bybitGet('/v5/market/tickers', { category: 'linear', symbol });
+    return parseFloat(result.list[0].lastPrice);
+  }
+
+  async getExchangeInfo(symbol?: string): Promise<SymbolInfo[]> {
+    console.log('📋 [BybitClient] Fetching instruments info...');
+
+    const instruments: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await bybitGet('/v5/market/instruments-info', {
+        category: 'linear',
+        limit: 1000,
+        ...(symbol ? { symbol } : {}),
+        ...(cursor ? { cursor } : {}),
+      });
+      instruments.push(...result.list);
+      cursor = result.nextPageCursor || undefined;
+    } while (cursor);
+
+    return instruments
+      .filter((i: any) => i.quoteCoin === 'USDT' && i.contractType === 'LinearPerpetual')
+      .map((i: any) => ({
+        symbol: i.symbol,
+        baseAsset: i.baseCoin,
+        quoteAsset: i.quoteCoin,
+        tickSize: parseFloat(i.priceFilter.tickSize),
+        stepSize: parseFloat(i.lotSizeFilter.qtyStep),
+        minQty: parseFloat(i.lotSizeFilter.minOrderQty),
+        trading: i.status === 'Trading',
+      }));
+  }
+
+  async getFundingRate(symbol: string): Promise<FundingInfo> {
+    const result = await bybitGet('/v5/market/tickers', { category: 'linear', symbol });
+    const ticker = result.list[0];
+    return {
+      symbol,
+      fundingRate: parseFloat(ticker.fundingRate),
+      nextFundingTime: parseInt(ticker.nextFundingTime, 10),
+      markPrice: parseFloat(ticker.markPrice),
+    };
+  }
+}
+
+export const bybitClient = new BybitClient();
@@ -0,0 +1,19 @@
+import axios, { AxiosInstance } from 'axios';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+
+// Создаем axios instance с прокси (если указан в environment)
+export function createHttpClient(label: string): AxiosInstance {
+  const proxyUrl = process.env.PROXY_URL;
+  
+  if (proxyUrl) {
+    console.log(`🔒 [${label}] Using proxy: ${proxyUrl.replace(/:[^:@]+@/, ':****@')}`); // Скрываем пароль в логах
+    const httpsAgent = new HttpsProxyAgent(proxyUrl);
+    return axios.create({
+      httpsAgent,
+      timeout: 30000,
+    });
+  }
+  
+  console.log(`🌐 [${label}] No proxy configured, using direct connection`);
+  return axios.create({ timeout: 30000 });
+}
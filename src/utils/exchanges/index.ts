@@ -0,0 +1,47 @@
+import { binanceClient } from '../binanceClient';
+import { bybitClient } from './bybitClient';
+import { okxClient } from './okxClient';
+import { ReplayExchangeClient } from './replayClient';
+import { VENUES, type ExchangeClient, type Venue } from './types';
+
+export * from './types';
+export { intervalToMs, getLastClosedOpenTime } from './intervals';
+export { ReplayExchangeClient } from './replayClient';
+
+let replayClient: ReplayExchangeClient | null = null;
+
+export function isVenue(value: string): value is Venue {
+  return (VENUES as string[]).includes(value);
+}
+
+/**
+ * Market data client for a venue
+ * 'replay' reads REPLAY_DATA_DIR (default ./data/klines)
+ */
+export function getExchangeClient(venue: string): ExchangeClient {
+  switch (venue) {
+    case 'binance':
+      return binanceClient;
+    case 'bybit':
+      return bybitClient;
+    case 'okx':
+      return okxClient;
+    case 'replay':
+      if (!replayClient) {
+        replayClient = new ReplayExchangeClient(process.env.REPLAY_DATA_DIR || './data/klines');
+      }
+      return replayClient;
+    default:
+      throw new Error(`Unknown exchange venue: ${venue}`);
+  }
+}
+
+const configuredVenue = process.env.EXCHANGE_VENUE || 'binance';
+if (!isVenue(configuredVenue)) {
+  throw new Error(`Invalid EXCHANGE_VENUE "${configuredVenue}". Use: ${VENUES.join(', ')}`);
+}
+
+/**
+ * Venue the scanner runs on (EXCHANGE_VENUE, default binance)
+ */
+export const exchangeClient: ExchangeClient = getExchangeClient(configuredVenue);
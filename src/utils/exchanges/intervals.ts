@@ -0,0 +1,28 @@
+// Kline intervals aligned to UTC epoch (weekly/monthly are not → unsupported)
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000,
+  '3m': 3 * 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '2h': 2 * 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '6h': 6 * 60 * 60_000,
+  '8h': 8 * 60 * 60_000,
+  '12h': 12 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+export function intervalToMs(interval: string): number | null {
+  return INTERVAL_MS[interval] ?? null;
+}
+
+/**
+ * openTime of the last CLOSED candle at `now`
+ */
+export function getLastClosedOpenTime(interval: string, now: number = Date.now()): number | null {
+  const ms = intervalToMs(interval);
+  if (ms === null) return null;
+  return Math.floor(now / ms) * ms - ms;
+}
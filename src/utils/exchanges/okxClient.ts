@@ -0,0 +1,207 @@
+/**
+ * OKX V5 USDT-margined perpetual swaps adapter
+ * Docs: https://www.okx.com/docs-v5/en/#order-book-trading-market-data-get-candlesticks
+ *
+ * Canonical "BTCUSDT" ↔ OKX instId "BTC-USDT-SWAP"
+ * Candles: /market/candles serves only the most recent 1440 bars, older pages come from /market/history-candles
+ */
+
+import { createHttpClient } from './http';
+import { intervalToMs } from './intervals';
+import { BinanceRateLimiter } from '../rateLimiter';
+import type { Candle, ExchangeClient, FundingInfo, SymbolInfo, Venue } from './types';
+
+const OKX_API = 'https://www.okx.com';
+const MAX_CANDLES_PER_REQUEST = 300;
+const MAX_HISTORY_CANDLES_PER_REQUEST = 100;
+const CANDLES_PATH = '/api/v5/market/candles';
+const HISTORY_CANDLES_PATH = '/api/v5/market/history-candles';
+
+// Binance interval notation → OKX bar (UTC-aligned for >= 6h)
+const OKX_BARS: Record<string, string> = {
+  '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m',
+  '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6Hutc', '12h': '12Hutc', '1d': '1Dutc',
+};
+
+const axiosInstance = createHttpClient('OkxClient');
+const okxRateLimiter = new BinanceRateLimiter(1000); // OKX market data: ~20 requests / 2s per endpoint
+
+export function toOkxInstId(symbol: string): string {
+  return `${symbol.replace(/USDT$/, '')}-USDT-SWAP`;
+}
+
+export function fromOkxInstId(instId: string): string {
+  return instId.replace(/-SWAP$/, '').replace('-', '');
+}
+
+async function okxGet(path: string, params: Record<string, any>): Promise<any[]> {
+  const response = await okxRateLimiter.executeRequest(1, async () => {
+    return await axiosInstance.get(`${OKX_API}${path}`, { params });
+  });
+
+  if (response.data.code !== '0') {
+    throw new Error(`OKX ${path} error ${response.data.code}: ${response.data.msg}`);
+  }
+  return response.data.data;
+}
+
+/**
+ * Candle rows newest first, paginated backwards with `after` until `isComplete(rows)` or no older data
+ * Recent endpoint first; once it runs dry the pages continue from the history endpoint
+ */
+export async function fetchCandleRows(
+  instId: string,
+  bar: string,
+  isComplete: (rows: string[][]) => boolean,
+  maxRows: number = Infinity,
+  get: (path: string, params: Record<string, any>) => Promise<any[]> = okxGet
+): Promise<string[][]> {
+  const rows: string[][] = [];
+  let path = CANDLES_PATH;
+  let after: string | undefined;
+  while (!isComplete(rows)) {
+    const pageLimit = path === CANDLES_PATH ? MAX_CANDLES_PER_REQUEST : MAX_HISTORY_CANDLES_PER_REQUEST;
+    const page = await get(path, {
+      instId,
+      bar,
+      limit: Math.min(maxRows - rows.length, pageLimit),
+      ...(after ? { after } : {}),
+    });
+    if (page.length === 0) {
+      if (path === HISTORY_CANDLES_PATH) break;
+      path = HISTORY_CANDLES_PATH; // Older than the recent window
+      continue;
+    }
+    rows.push(...page);
+    after = page[page.length - 1][0];
+  }
+  return rows;
+}
+
+// [ts, o, h, l, c, vol (contracts), volCcy (base), volCcyQuote, confirm]
+function parseCandle(k: string[], intervalMs: number): Candle {
+  return {
+    openTime: parseInt(k[0], 10),
+    open: k[1],
+    high: k[2],
+    low: k[3],
+    close: k[4],
+    volume: k[6],
+    closeTime: parseInt(k[0], 10) + intervalMs - 1,
+  };
+}
+
+export class OkxClient implements ExchangeClient {
+  readonly venue: Venue = 'okx';
+
+  async getTradingPairs(): Promise<string[]> {
+    console.log('📊 [OkxClient] Fetching trading pairs from OKX...');
+
+    const tickers = await okxGet('/api/v5/market/tickers', { instType: 'SWAP' });
+    const usdtPairs = tickers
+      .filter((t: any) => t.instId.endsWith('-USDT-SWAP'))
+      .filter((t: any) => parseFloat(t.volCcy24h) * parseFloat(t.last) > 10_000_000) // volCcy24h is in base coin
+      .map((t: any) => fromOkxInstId(t.instId));
+
+    console.log(`✅ [OkxClient] Found ${usdtPairs.length} USDT pairs with volume > 10M`);
+    return usdtPairs;
+  }
+
+  async getKlines(
+    symbol: string,
+    interval: string,
+    limit: number = 3,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const bar = OKX_BARS[interval];
+    const intervalMs = intervalToMs(interval);
+    if (!bar || intervalMs === null) {
+      throw new Error(`Unsupported interval for OKX: ${interval}`);
+    }
+
+    const requestLimit = includeOpenCandle ? limit : limit + 1;
+    console.log(`📈 [OkxClient] Fetching ${requestLimit} ${interval} candles for ${symbol}...`);
+
+    // OKX returns max 300 candles per request (newest first) → paginate backwards with `after`
+    const rows = await fetchCandleRows(toOkxInstId(symbol), bar, fetched => fetched.length >= requestLimit, requestLimit);
+
+    const allCandles: Candle[] = rows
+      .map((k: string[]) => parseCandle(k, intervalMs))
+      .reverse();
+
+    return includeOpenCandle ? allCandles : allCandles.slice(0, -1);
+  }
+
+  async getKlinesSince(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const bar = OKX_BARS[interval];
+    const intervalMs = intervalToMs(interval);
+    if (!bar || intervalMs === null) {
+      throw new Error(`Unsupported interval for OKX: ${interval}`);
+    }
+    console.log(`📈 [OkxClient] Fetching ${interval} candles for ${symbol} since ${new Date(startTime).toISOString()}...`);
+
+    // Newest first → paginate backwards until startTime is covered (history endpoint past the recent window)
+    const rows = await fetchCandleRows(
+      toOkxInstId(symbol),
+      bar,
+      fetched => fetched.length > 0 && parseInt(fetched[fetched.length - 1][0], 10) <= startTime
+    );
+
+    const now = Date.now();
+    const candles = rows
+      .map((k: string[]) => parseCandle(k, intervalMs))
+      .filter(c => c.openTime >= startTime)
+      .reverse();
+    return includeOpenCandle ? candles : candles.filter(c => c.closeTime < now);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const [ticker] = await okxGet('/api/v5/market/ticker', { instId: toOkxInstId(symbol) });
+    return parseFloat(ticker.last);
+  }
+
+  async getExchangeInfo(symbol?: string): Promise<SymbolInfo[]> {
+    console.log('📋 [OkxClient] Fetching instruments...');
+
+    const instruments = await okxGet('/api/v5/public/instruments', {
+      instType: 'SWAP',
+      ...(symbol ? { instId: toOkxInstId(symbol) } : {}),
+    });
+
+    return instruments
+      .filter((i: any) => i.settleCcy === 'USDT' && i.ctType === 'linear')
+      .map((i: any) => {
+        // OKX sizes are in contracts: convert to base asset units
+        const ctVal = parseFloat(i.ctVal);
+        return {
+          symbol: fromOkxInstId(i.instId),
+          baseAsset: i.ctValCcy,
+          quoteAsset: 'USDT',
+          tickSize: parseFloat(i.tickSz),
+          stepSize: parseFloat(i.lotSz) * ctVal,
+          minQty: parseFloat(i.minSz) * ctVal,
+          trading: i.state === 'live',
+        };
+      });
+  }
+
+  async getFundingRate(symbol: string): Promise<FundingInfo> {
+    const instId = toOkxInstId(symbol);
+    const [funding] = await okxGet('/api/v5/public/funding-rate', { instId });
+    const [mark] = await okxGet('/api/v5/public/mark-price', { instType: 'SWAP', instId });
+
+    return {
+      symbol,
+      fundingRate: parseFloat(funding.fundingRate),
+      nextFundingTime: parseInt(funding.fundingTime, 10), // fundingTime = upcoming settlement
+      markPrice: parseFloat(mark.markPx),
+    };
+  }
+}
+
+export const okxClient = new OkxClient();
@@ -0,0 +1,209 @@
+/**
+ * File-backed replay adapter (tests, backtests, offline runs)
+ *
+ * Reads the backtest dataset layout: <dataDir>/<SYMBOL>/<interval>.json
+ * (array of Candle objects or raw Binance kline arrays). Optional files:
+ * - <dataDir>/exchangeInfo.json      → SymbolInfo[]
+ * - <dataDir>/<SYMBOL>/funding.json  → [{ fundingTime, fundingRate }]
+ *
+ * "Now" is a replay cursor (setTime), so getKlines returns what a live
+ * exchange would have returned at that moment.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { intervalToMs } from './intervals';
+import type { Candle, ExchangeClient, FundingInfo, SymbolInfo, Venue } from './types';
+
+const FUNDING_INTERVAL_MS = 8 * 60 * 60_000;
+
+/**
+ * Dataset candle: Candle object or raw Binance kline array
+ */
+export function parseDatasetCandle(k: any): Candle {
+  return Array.isArray(k)
+    ? {
+        openTime: Number(k[0]),
+        open: String(k[1]),
+        high: String(k[2]),
+        low: String(k[3]),
+        close: String(k[4]),
+        volume: String(k[5]),
+        closeTime: Number(k[6]),
+      }
+    : {
+        openTime: Number(k.openTime),
+        open: String(k.open),
+        high: String(k.high),
+        low: String(k.low),
+        close: String(k.close),
+        volume: String(k.volume),
+        closeTime: Number(k.closeTime),
+      };
+}
+
+/**
+ * Load candles for symbol/interval from the local dataset
+ */
+export function loadDatasetCandles(dataDir: string, symbol: string, interval: string): Candle[] {
+  const filePath = path.join(dataDir, symbol, `${interval}.json`);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(raw)) {
+    throw new Error(`Invalid candle file ${filePath}: expected array`);
+  }
+
+  const candles: Candle[] = raw.map(parseDatasetCandle);
+
+  return candles.sort((a, b) => a.openTime - b.openTime);
+}
+
+/**
+ * List symbols available in the dataset (one directory per symbol)
+ */
+export function listDatasetSymbols(dataDir: string): string[] {
+  if (!fs.existsSync(dataDir)) {
+    return [];
+  }
+  return fs.readdirSync(dataDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Index of the last candle with closeTime <= time (-1 if none)
+ */
+export function lastClosedIndex(candles: Candle[], time: number): number {
+  let lo = 0;
+  let hi = candles.length - 1;
+  let result = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].closeTime <= time) {
+      result = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return result;
+}
+
+export class ReplayExchangeClient implements ExchangeClient {
+  readonly venue: Venue = 'replay';
+  private candleCache = new Map<string, Candle[]>();
+
+  constructor(
+    private readonly dataDir: string,
+    private now: number = Date.now()
+  ) {}
+
+  setTime(time: number): void {
+    this.now = time;
+  }
+
+  getTime(): number {
+    return this.now;
+  }
+
+  async getTradingPairs(): Promise<string[]> {
+    return listDatasetSymbols(this.dataDir);
+  }
+
+  async getKlines(
+    symbol: string,
+    interval: string,
+    limit: number = 3,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const candles = this.getCandles(symbol, interval);
+    let idx = lastClosedIndex(candles, this.now);
+
+    // Open candle = next candle that already started (returned complete: dataset has no intrabar state)
+    if (includeOpenCandle && idx + 1 < candles.length && candles[idx + 1].openTime <= this.now) {
+      idx++;
+    }
+    if (idx < 0) return [];
+
+    return candles.slice(Math.max(0, idx - limit + 1), idx + 1);
+  }
+
+  async getKlinesSince(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    includeOpenCandle: boolean = false
+  ): Promise<Candle[]> {
+    const candles = await this.getKlines(symbol, interval, Number.MAX_SAFE_INTEGER, includeOpenCandle);
+    return candles.filter(c => c.openTime >= startTime);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    // Smallest available interval gives the most recent close
+    const intervals = ['1m', '5m', '15m', '1h', '4h'];
+    for (const interval of intervals) {
+      const [last] = await this.getKlines(symbol, interval, 1);
+      if (last) return parseFloat(last.close);
+    }
+    throw new Error(`No replay candles for ${symbol} at ${new Date(this.now).toISOString()}`);
+  }
+
+  async getExchangeInfo(symbol?: string): Promise<SymbolInfo[]> {
+    const filePath = path.join(this.dataDir, 'exchangeInfo.json');
+    const symbols = symbol ? [symbol] : listDatasetSymbols(this.dataDir);
+
+    if (fs.existsSync(filePath)) {
+      const info: SymbolInfo[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return info.filter(i => symbols.includes(i.symbol));
+    }
+
+    // No contract specs in dataset: 8-decimal defaults
+    return symbols.map(s => ({
+      symbol: s,
+      baseAsset: s.replace(/USDT$/, ''),
+      quoteAsset: 'USDT',
+      tickSize: 0.00000001,
+      stepSize: 0.00000001,
+      minQty: 0,
+      trading: true,
+    }));
+  }
+
+  async getFundingRate(symbol: string): Promise<FundingInfo> {
+    const filePath = path.join(this.dataDir, symbol, 'funding.json');
+    let fundingRate = 0;
+
+    if (fs.existsSync(filePath)) {
+      const history: Array<{ fundingTime: number; fundingRate: string | number }> = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      const past = history.filter(f => Number(f.fundingTime) <= this.now);
+      if (past.length > 0) {
+        fundingRate = Number(past[past.length - 1].fundingRate);
+      }
+    }
+
+    return {
+      symbol,
+      fundingRate,
+      nextFundingTime: Math.floor(this.now / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS + FUNDING_INTERVAL_MS,
+      markPrice: await this.getCurrentPrice(symbol),
+    };
+  }
+
+  private getCandles(symbol: string, interval: string): Candle[] {
+    if (intervalToMs(interval) === null) {
+      throw new Error(`Unsupported interval for replay: ${interval}`);
+    }
+
+    const key = `${symbol}:${interval}`;
+    let candles = this.candleCache.get(key);
+    if (!candles) {
+      candles = loadDatasetCandles(this.dataDir, symbol, interval);
+      this.candleCache.set(key, candles);
+    }
+    return candles;
+  }
+}
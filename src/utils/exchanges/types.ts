@@ -0,0 +1,72 @@
+/**
+ * Exchange-agnostic market data types
+ *
+ * Symbols are canonical across venues: BASE + QUOTE without separators (e.g. "BTCUSDT").
+ * Adapters convert to venue-specific ids (OKX: "BTC-USDT-SWAP") internally.
+ * Intervals use Binance notation ("1m", "15m", "1h", "4h", "1d").
+ */
+
+export type Venue = 'binance' | 'bybit' | 'okx' | 'replay';
+
+export const VENUES: Venue[] = ['binance', 'bybit', 'okx', 'replay'];
+
+export interface Candle {
+  openTime: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;   // Base asset volume
+  closeTime: number;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: number;  // Min price increment
+  stepSize: number;  // Min quantity increment
+  minQty: number;
+  trading: boolean;  // Listed and tradable right now
+}
+
+export interface FundingInfo {
+  symbol: string;
+  fundingRate: number;     // Current/last funding rate (0.0001 = 0.01%)
+  nextFundingTime: number; // ms
+  markPrice: number;
+}
+
+/**
+ * Aggregated trade (same-price fills of one taker order), oldest first
+ */
+export interface AggTrade {
+  price: number;
+  time: number; // ms
+}
+
+/**
+ * Linear perpetual (USDT-margined) market data
+ */
+export interface ExchangeClient {
+  readonly venue: Venue;
+
+  /** Liquid USDT perpetuals (24h quote volume > 10M) */
+  getTradingPairs(): Promise<string[]>;
+
+  /** Last `limit` candles, oldest first; excludes the current open candle unless includeOpenCandle */
+  getKlines(symbol: string, interval: string, limit?: number, includeOpenCandle?: boolean): Promise<Candle[]>;
+
+  /** All candles with openTime >= startTime up to now, oldest first (paginated, no limit) */
+  getKlinesSince(symbol: string, interval: string, startTime: number, includeOpenCandle?: boolean): Promise<Candle[]>;
+
+  getCurrentPrice(symbol: string): Promise<number>;
+
+  /** Contract filters for all USDT perpetuals (or one symbol) */
+  getExchangeInfo(symbol?: string): Promise<SymbolInfo[]>;
+
+  getFundingRate(symbol: string): Promise<FundingInfo>;
+
+  /** Trades in [startTime, endTime], at most maxTrades (venues without trade history omit it) */
+  getAggTrades?(symbol: string, startTime: number, endTime: number, maxTrades?: number): Promise<AggTrade[]>;
+}
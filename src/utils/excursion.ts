@@ -0,0 +1,91 @@
+/**
+ * Excursion & Time-to-Target - live trade labels for ML exports
+ *
+ * - MFE/MAE: running maximum favorable / adverse excursion in R of the initial risk
+ *   (MFE ≥ 0, MAE ≤ 0, same convention as shadow replay), updated from 1m highs/lows and mark price ticks
+ * - time_to_*_min: minutes from signal creation to each status transition
+ * - first_touch: first level reached (tp1/tp2/tp3/sl/be), never overwritten
+ */
+
+export interface Excursion {
+  mfeR: number;
+  maeR: number;
+}
+
+export interface ExcursionLevels {
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  slPrice: number; // Initial SL = R basis
+}
+
+export function parseExcursion(mfeR: string | null, maeR: string | null): Excursion {
+  return {
+    mfeR: mfeR !== null ? parseFloat(mfeR) : 0,
+    maeR: maeR !== null ? parseFloat(maeR) : 0,
+  };
+}
+
+/**
+ * Extend the excursion with one price range (1m high/low, or high = low = mark price for a tick)
+ */
+export function updateExcursion(excursion: Excursion, levels: ExcursionLevels, high: number, low: number): Excursion {
+  const risk = Math.abs(levels.entryPrice - levels.slPrice);
+  if (risk === 0) return excursion;
+
+  const favorable = levels.direction === 'LONG' ? high - levels.entryPrice : levels.entryPrice - low;
+  const adverse = levels.direction === 'LONG' ? low - levels.entryPrice : levels.entryPrice - high;
+  return {
+    mfeR: Math.max(excursion.mfeR, favorable / risk),
+    maeR: Math.min(excursion.maeR, adverse / risk),
+  };
+}
+
+export function minutesSince(createdAt: Date, eventTime: number): number {
+  return Math.max(0, Math.round((eventTime - createdAt.getTime()) / 60_000));
+}
+
+export interface TimeToEventFields {
+  timeToTp1Min?: number;
+  timeToTp2Min?: number;
+  timeToTp3Min?: number;
+  timeToSlMin?: number;
+  timeToBeMin?: number;
+  firstTouch?: string;
+}
+
+const TP_FIELDS: Record<string, Array<keyof TimeToEventFields>> = {
+  TP1_HIT: ['timeToTp1Min'],
+  TP2_HIT: ['timeToTp1Min', 'timeToTp2Min'],
+  TP3_HIT: ['timeToTp1Min', 'timeToTp2Min', 'timeToTp3Min'],
+  SL_HIT: ['timeToSlMin'],
+  BE_HIT: ['timeToBeMin'],
+};
+
+const FIRST_TOUCH: Record<string, string> = {
+  TP1_HIT: 'tp1',
+  TP2_HIT: 'tp2',
+  TP3_HIT: 'tp3',
+  SL_HIT: 'sl',
+  BE_HIT: 'be',
+};
+
+/**
+ * Fields to stamp for a status transition (only those not set yet)
+ * A TP reached in one move from a lower status also stamps the TPs it passed (TP2 from OPEN → TP1 too)
+ */
+export function timeToEventUpdates(
+  current: Record<keyof TimeToEventFields, number | string | null>,
+  status: string,
+  minutes: number
+): TimeToEventFields {
+  const updates: TimeToEventFields = {};
+  for (const field of TP_FIELDS[status] ?? []) {
+    if (current[field] === null) {
+      (updates as Record<string, number>)[field] = minutes;
+    }
+  }
+  if (current.firstTouch === null && FIRST_TOUCH[status]) {
+    updates.firstTouch = FIRST_TOUCH[status];
+  }
+  return updates;
+}
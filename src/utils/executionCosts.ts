@@ -0,0 +1,160 @@
+/**
+ * Execution Costs - fees, slippage and funding on top of the gross TP/SL ladder PnL
+ *
+ * Fill model (per unit of position, converted to R of the initial risk):
+ * - entry: market order → taker fee
+ * - TP1/TP2/TP3: resting limit orders → maker fee, no slippage
+ * - stop exits (SL, breakeven, trailed stop): stop-market → taker fee + slippage against the position
+ * - TIMEOUT: market close → taker fee (price is already the market price)
+ * - funding: notional × rate per 8h × hours held, weighted by the share still open
+ *   (LONG pays a positive rate, SHORT receives it)
+ *
+ * Env:
+ *   TAKER_FEE_RATE=0.0005        entry / stop / timeout fills
+ *   MAKER_FEE_RATE=0.0002        TP fills
+ *   SLIPPAGE_MODE=fixed          fixed | atr
+ *   SLIPPAGE_BPS=5               fixed mode: stop fill slippage in basis points of the stop price
+ *   SLIPPAGE_ATR_FRACTION=0.1    atr mode: stop fill slippage as a fraction of the signal ATR
+ *   FUNDING_RATE_8H=0.0001       assumed funding rate per 8h (0.01%)
+ */
+
+export type SlippageMode = 'fixed' | 'atr';
+
+export interface ExecutionCostConfig {
+  takerFeeRate: number;
+  makerFeeRate: number;
+  slippageMode: SlippageMode;
+  slippageBps: number;
+  slippageAtrFraction: number;
+  fundingRate8h: number;
+}
+
+function rate(raw: string | undefined, fallback: number): number {
+  const value = raw !== undefined ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+export function getExecutionCostConfig(env: Record<string, string | undefined> = process.env): ExecutionCostConfig {
+  return {
+    takerFeeRate: Math.max(0, rate(env.TAKER_FEE_RATE, 0.0005)),
+    makerFeeRate: rate(env.MAKER_FEE_RATE, 0.0002), // Negative = maker rebate
+    slippageMode: env.SLIPPAGE_MODE === 'atr' ? 'atr' : 'fixed',
+    slippageBps: Math.max(0, rate(env.SLIPPAGE_BPS, 5)),
+    slippageAtrFraction: Math.max(0, rate(env.SLIPPAGE_ATR_FRACTION, 0.1)),
+    fundingRate8h: rate(env.FUNDING_RATE_8H, 0.0001),
+  };
+}
+
+export type FillKind = 'entry' | 'tp' | 'stop' | 'market';
+
+export interface CostFill {
+  kind: FillKind;
+  percent: number; // % of the position
+  price: number;
+}
+
+/**
+ * Holding context for funding and ATR slippage (from the signal row)
+ */
+export interface CostContext {
+  config: ExecutionCostConfig;
+  holdingMinutes: number;         // Entry → exit (or → now for a position still partly open)
+  timeToTp1Min?: number | null;
+  timeToTp2Min?: number | null;
+  atr?: number | null;            // Signal ATR in price units (atr mode)
+}
+
+export interface ExecutionCosts {
+  feesR: number;
+  slippageR: number;
+  fundingR: number;
+  totalR: number;
+}
+
+export const NO_COSTS: ExecutionCosts = { feesR: 0, slippageR: 0, fundingR: 0, totalR: 0 };
+
+/**
+ * Costs of a fill list in R (positive = cost)
+ */
+export function calculateExecutionCosts(
+  direction: 'LONG' | 'SHORT',
+  entryPrice: number,
+  risk: number,
+  fills: CostFill[],
+  context: CostContext
+): ExecutionCosts {
+  if (risk === 0 || fills.length === 0) return NO_COSTS;
+  const { config } = context;
+
+  let feesR = 0;
+  let slippageR = 0;
+  for (const fill of fills) {
+    const share = fill.percent / 100;
+    const feeRate = fill.kind === 'tp' ? config.makerFeeRate : config.takerFeeRate;
+    feesR += share * fill.price * feeRate / risk;
+
+    if (fill.kind === 'stop') {
+      const slippage = config.slippageMode === 'atr'
+        ? (context.atr ?? 0) * config.slippageAtrFraction
+        : fill.price * config.slippageBps / 10_000;
+      slippageR += share * slippage / risk;
+    }
+  }
+
+  // Share still open over time: 100% until TP1, then minus each TP share (TP fills without a stamp → at exit)
+  const exitMinutes = Math.max(0, context.holdingMinutes);
+  const tpFills = fills.filter(fill => fill.kind === 'tp');
+  const tpTimes = [context.timeToTp1Min, context.timeToTp2Min];
+  let openShare = 1;
+  let from = 0;
+  let shareMinutes = 0;
+  tpFills.forEach((fill, index) => {
+    const at = Math.min(exitMinutes, tpTimes[index] ?? exitMinutes);
+    shareMinutes += openShare * Math.max(0, at - from);
+    openShare = Math.max(0, openShare - fill.percent / 100);
+    from = Math.max(from, at);
+  });
+  shareMinutes += openShare * Math.max(0, exitMinutes - from);
+
+  const sign = direction === 'LONG' ? 1 : -1;
+  const fundingR = sign * entryPrice * config.fundingRate8h * (shareMinutes / 480) / risk;
+
+  return { feesR, slippageR, fundingR, totalR: feesR + slippageR + fundingR };
+}
+
+/**
+ * Stored signal fields the cost context is built from
+ */
+export interface SignalCostFields {
+  createdAt: Date;
+  timeToTp1Min?: number | null;
+  timeToTp2Min?: number | null;
+  atr15m?: string | null;
+}
+
+export function getSignalCostContext(
+  signal: SignalCostFields,
+  exitTime: number,
+  config: ExecutionCostConfig = getExecutionCostConfig()
+): CostContext {
+  return {
+    config,
+    holdingMinutes: Math.max(0, (exitTime - signal.createdAt.getTime()) / 60_000),
+    timeToTp1Min: signal.timeToTp1Min,
+    timeToTp2Min: signal.timeToTp2Min,
+    atr: signal.atr15m ? parseFloat(signal.atr15m) : null,
+  };
+}
+
+/**
+ * Net PnL columns of the signals table for an outcome
+ */
+export function netPnlFields(outcome: { netPnlR: number; netPnl: number; costs: ExecutionCosts }) {
+  return {
+    netPnlR: outcome.netPnlR.toFixed(4),
+    netPnlPercent: outcome.netPnl.toFixed(4),
+    feesR: outcome.costs.feesR.toFixed(4),
+    slippageR: outcome.costs.slippageR.toFixed(4),
+    fundingR: outcome.costs.fundingR.toFixed(4),
+  };
+}
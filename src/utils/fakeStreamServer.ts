@@ -0,0 +1,133 @@
+/**
+ * Fake Binance Futures stream server (offline testing)
+ *
+ * Speaks the same combined-stream protocol as wss://fstream.binance.com/stream:
+ * - accepts SUBSCRIBE / UNSUBSCRIBE messages and replies { result: null, id }
+ * - pushes { stream, data } payloads only to clients subscribed to that stream
+ *
+ * Used by tests and by src/scripts/fakeStream.ts (point BINANCE_WS_URL at it).
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import type { Candle } from './binanceClient';
+import { klineStreamName, MARK_PRICE_ALL_STREAM } from './binanceStream';
+
+export class FakeStreamServer {
+  private server: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, Set<string>>();
+
+  async start(port: number = 0): Promise<number> {
+    const server = new WebSocketServer({ port, path: '/stream' });
+    this.server = server;
+
+    server.on('connection', (ws) => {
+      this.clients.set(ws, new Set());
+
+      ws.on('message', (raw) => {
+        try {
+          const request = JSON.parse(raw.toString());
+          const subscriptions = this.clients.get(ws);
+          if (!subscriptions || !Array.isArray(request.params)) return;
+
+          if (request.method === 'SUBSCRIBE') {
+            request.params.forEach((s: string) => subscriptions.add(s));
+          } else if (request.method === 'UNSUBSCRIBE') {
+            request.params.forEach((s: string) => subscriptions.delete(s));
+          }
+          ws.send(JSON.stringify({ result: null, id: request.id }));
+        } catch (error: any) {
+          console.error('❌ [FakeStreamServer] Bad client message:', error.message);
+        }
+      });
+
+      ws.on('close', () => {
+        this.clients.delete(ws);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', () => resolve());
+      server.once('error', reject);
+    });
+
+    const actualPort = (server.address() as AddressInfo).port;
+    console.log(`🧪 [FakeStreamServer] Listening on ws://localhost:${actualPort}/stream`);
+    return actualPort;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    for (const ws of this.clients.keys()) {
+      ws.terminate();
+    }
+    this.clients.clear();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  get connectionCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Streams subscribed across all connected clients
+   */
+  getSubscriptions(): string[] {
+    const all = new Set<string>();
+    for (const subscriptions of this.clients.values()) {
+      subscriptions.forEach(s => all.add(s));
+    }
+    return Array.from(all);
+  }
+
+  /**
+   * Simulate Binance dropping every connection (network failure / 24h disconnect)
+   */
+  dropAllConnections(): void {
+    for (const ws of this.clients.keys()) {
+      ws.terminate();
+    }
+    this.clients.clear();
+  }
+
+  pushKline(symbol: string, interval: string, candle: Candle, isClosed: boolean): void {
+    const stream = klineStreamName(symbol, interval);
+    this.broadcast(stream, {
+      e: 'kline',
+      E: Date.now(),
+      s: symbol,
+      k: {
+        t: candle.openTime,
+        T: candle.closeTime,
+        s: symbol,
+        i: interval,
+        o: candle.open,
+        c: candle.close,
+        h: candle.high,
+        l: candle.low,
+        v: candle.volume,
+        x: isClosed,
+      },
+    });
+  }
+
+  pushMarkPrices(prices: Record<string, number>): void {
+    const now = Date.now();
+    this.broadcast(MARK_PRICE_ALL_STREAM, Object.entries(prices).map(([symbol, price]) => ({
+      e: 'markPriceUpdate',
+      E: now,
+      s: symbol,
+      p: price.toString(),
+    })));
+  }
+
+  private broadcast(stream: string, data: any): void {
+    const payload = JSON.stringify({ stream, data });
+    for (const [ws, subscriptions] of this.clients) {
+      if (subscriptions.has(stream) && ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Golden Fixtures - recorded candle windows replayed offline through pattern detection,
+ * S/R zones (candleAnalyzer) and the dynamic risk profile (dynamicRiskCalculator)
+ *
+ * A fixture stores the window and the outputs the code produced when it was recorded.
+ * Any difference on replay is behaviour drift: either a regression, or an intended change
+ * that must be re-recorded (UPDATE_GOLDEN=1, see tests/goldenRegression.test.ts).
+ *
+ * Risk inputs:
+ * - explicit `risk` (recorded signal: entry, extreme, zones, ATRs) → one profile
+ * - otherwise, with 1h + 4h candles in the window, one profile per detected pattern,
+ *   built the way the Backtester does (zone snapshot, last-3-candle extreme, ATR(14))
+ *
+ * Pattern detection uses every default-on module (PATTERNS_ENABLED / PATTERNS_DISABLED are ignored),
+ * zones the tv zone source and the default volume profile windows (ZONE_SOURCE / VOLUME_PROFILE_* are ignored).
+ */
+
+import { calculateATR, analyzeSRZonesTV, type PatternResult, type SRAnalysis } from './candleAnalyzer';
+import {
+  calculateDynamicRiskProfile,
+  type DynamicRiskInput,
+  type DynamicRiskProfile,
+} from './dynamicRiskCalculator';
+import { parseDatasetCandle } from './exchanges/replayClient';
+import type { Candle } from './exchanges/types';
+import { buildZoneSnapshot } from './indicators/zoneSnapshot';
+import { getVolumeProfileConfig, volumeTargetZones } from './indicators/volumeProfile';
+import { getPatternConfig, patternRegistry, PatternDetector } from './patterns';
+
+// Raw Binance kline layout: [openTime, open, high, low, close, volume, closeTime]
+export type KlineRow = [number, string, string, string, string, string, number];
+
+export type GoldenRiskInput = Omit<DynamicRiskInput, 'candles15m' | 'candles1h' | 'candles4h'>;
+
+// A throw (e.g. no active 15m zone) is recorded behaviour too
+export type GoldenRiskOutput = DynamicRiskProfile | { error: string };
+
+export interface GoldenOutputs {
+  patterns: PatternResult[];           // Without srAnalysis (stored once below)
+  srAnalysis: SRAnalysis;              // analyzeSRZonesTV on the pattern timeframe
+  riskProfiles: GoldenRiskOutput[];
+}
+
+export interface GoldenCase {
+  name: string;
+  description: string;
+  source: string;                      // Where the window / inputs were recorded from
+  symbol?: string;
+  timeframe: string;                   // Pattern timeframe (its candles are the 15m input of the risk profile)
+  candles: Record<string, KlineRow[]>; // By interval, closed candles, oldest first
+  risk?: GoldenRiskInput;
+  expected: GoldenOutputs;
+}
+
+export interface GoldenDrift {
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+const goldenDetector = new PatternDetector(patternRegistry, getPatternConfig({}));
+
+export function toKlineRows(candles: Candle[]): KlineRow[] {
+  return candles.map(c => [c.openTime, c.open, c.high, c.low, c.close, c.volume, c.closeTime]);
+}
+
+export function fromKlineRows(rows: KlineRow[] | undefined): Candle[] {
+  return (rows || []).map(parseDatasetCandle);
+}
+
+function riskInputsFor(fixture: Omit<GoldenCase, 'expected'>, patterns: PatternResult[]): DynamicRiskInput[] {
+  const candles = fromKlineRows(fixture.candles[fixture.timeframe]);
+  const candles1h = fromKlineRows(fixture.candles['1h']);
+  const candles4h = fromKlineRows(fixture.candles['4h']);
+  const history = {
+    candles15m: candles,
+    candles1h: candles1h.length > 0 ? candles1h : undefined,
+    candles4h: candles4h.length > 0 ? candles4h : undefined,
+  };
+
+  if (fixture.risk) {
+    return [{ ...fixture.risk, ...history }];
+  }
+  if (candles1h.length === 0 || candles4h.length === 0) {
+    return [];
+  }
+
+  const { zones, volumeZones } = buildZoneSnapshot(candles, candles1h, candles4h, 'tv', getVolumeProfileConfig({}));
+  return patterns
+    .filter(pattern => pattern.direction && pattern.entryPrice)
+    .map(pattern => ({
+      direction: pattern.direction!,
+      entryPrice: pattern.entryPrice!,
+      patternExtreme: pattern.direction === 'LONG'
+        ? Math.min(...candles.slice(-3).map(c => Number(c.low)))
+        : Math.max(...candles.slice(-3).map(c => Number(c.high))),
+      zones,
+      atr15m: calculateATR(candles),
+      atr1h: calculateATR(candles1h),
+      atr4h: calculateATR(candles4h),
+      zoneTestCount24h: 0,
+      patternScore: pattern.score,
+      targetZones: volumeTargetZones(volumeZones),
+      ...history,
+    }));
+}
+
+/**
+ * Fixture file content: pretty JSON, one kline row per line
+ */
+export function serializeGoldenCase(fixture: GoldenCase): string {
+  const json = JSON.stringify({ ...fixture, candles: '__CANDLES__' }, null, 2);
+  const candles = Object.entries(fixture.candles)
+    .map(([interval, rows]) => `    ${JSON.stringify(interval)}: [\n${rows.map(row => `      ${JSON.stringify(row)}`).join(',\n')}\n    ]`)
+    .join(',\n');
+  return json.replace('"__CANDLES__"', `{\n${candles}\n  }`) + '\n';
+}
+
+/**
+ * Replay a fixture window through the current code (JSON-normalized: NaN → null, undefined dropped)
+ */
+export function replayGoldenCase(fixture: Omit<GoldenCase, 'expected'>): GoldenOutputs {
+  const candles = fromKlineRows(fixture.candles[fixture.timeframe]);
+  if (candles.length === 0) {
+    throw new Error(`Golden case "${fixture.name}": no ${fixture.timeframe} candles`);
+  }
+
+  const srAnalysis = analyzeSRZonesTV(candles);
+  const patterns = goldenDetector.detectAllPatterns(candles, fixture.timeframe);
+  const riskProfiles = riskInputsFor(fixture, patterns).map((input): GoldenRiskOutput => {
+    try {
+      return calculateDynamicRiskProfile(input);
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  });
+
+  return JSON.parse(JSON.stringify({
+    patterns: patterns.map(({ srAnalysis: _sr, ...pattern }) => pattern),
+    srAnalysis,
+    riskProfiles,
+  }));
+}
+
+/**
+ * Structural diff: numbers within a relative tolerance, everything else exact
+ */
+export function diffGolden(expected: unknown, actual: unknown, path: string = '', tolerance: number = 1e-9): GoldenDrift[] {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    const scale = Math.max(1, Math.abs(expected), Math.abs(actual));
+    return Math.abs(expected - actual) <= tolerance * scale ? [] : [{ path, expected, actual }];
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const drifts: GoldenDrift[] = [];
+    if (expected.length !== actual.length) {
+      drifts.push({ path: `${path}.length`, expected: expected.length, actual: actual.length });
+    }
+    for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+      drifts.push(...diffGolden(expected[i], actual[i], `${path}[${i}]`, tolerance));
+    }
+    return drifts;
+  }
+
+  if (
+    expected && actual && typeof expected === 'object' && typeof actual === 'object' &&
+    !Array.isArray(expected) && !Array.isArray(actual)
+  ) {
+    const exp = expected as Record<string, unknown>;
+    const act = actual as Record<string, unknown>;
+    const keys = new Set([...Object.keys(exp), ...Object.keys(act)]);
+    const drifts: GoldenDrift[] = [];
+    for (const key of keys) {
+      drifts.push(...diffGolden(exp[key], act[key], path ? `${path}.${key}` : key, tolerance));
+    }
+    return drifts;
+  }
+
+  return expected === actual ? [] : [{ path, expected, actual }];
+}
@@ -6,7 +6,7 @@
  */
 
 import { EMA, ATR, ADX } from 'technicalindicators';
-import { binanceClient } from '../binanceClient';
+import { klineStore } from '../../services/klineStore';
 
 // Configurable parameters
 const NEUTRAL_BAND_ATR_MULTIPLIER = 0.25; // Neutral band = 0.25 × ATR(H1)
@@ -30,7 +30,7 @@ interface BTCTrendResult {
  */
 async function getBTCCandles1h(limit: number = 250): Promise<any[]> {
   try {
-    const klines = await binanceClient.getKlines('BTCUSDT', '1h', limit);
+    const klines = await klineStore.getKlines('BTCUSDT', '1h', limit);
     return klines.map((k: any) => ({
       time: k.openTime,
       open: parseFloat(k.open),
@@ -148,7 +148,7 @@ export async function getEMA200Position(
   timeframe: '1h' = '1h'
 ): Promise<'above' | 'below' | 'crossing'> {
   try {
-    const klines = await binanceClient.getKlines(symbol, timeframe, 210);
+    const klines = await klineStore.getKlines(symbol, timeframe, 210);
     const closes = klines.map((k: any) => parseFloat(k.close));
     const currentPrice = closes[closes.length - 1];
     
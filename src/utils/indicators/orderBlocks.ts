@@ -0,0 +1,142 @@
+/**
+ * Order Blocks & Fair Value Gaps - institutional zones on 15m / 1h / 4h with mitigation tracking
+ *
+ * FVG (three-candle imbalance c1, c2, c3):
+ *   bullish  c3.low > c1.high   → gap [c1.high, c3.low]
+ *   bearish  c3.high < c1.low   → gap [c3.high, c1.low]
+ *   gaps smaller than FVG_MIN_SIZE_ATR × ATR14 are noise and skipped
+ * Order block: the last opposite candle (bearish for a bullish OB) among the OB_LOOKBACK candles up to c1
+ * of the displacement that left the FVG; zone = its full range.
+ *
+ * Both are formed at c3. Mitigation = the first later candle trading back into the zone
+ * (bullish: low ≤ zone.high, bearish: high ≥ zone.low), mitigatedAt = its openTime.
+ * A pattern candle that is that first return sits inside an unmitigated zone (findPatternObFvg).
+ *
+ * Exposed as Zone objects: kind 'order_block' | 'fvg', bullish = support, bearish = resistance.
+ */
+
+import type { Candle } from '../binanceClient';
+import { calculateATR } from '../candleAnalyzer';
+import type { Zone } from './standardPlan';
+
+export type ObFvgKind = 'order_block' | 'fvg';
+
+export interface ObFvgZone {
+  kind: ObFvgKind;
+  side: 'bullish' | 'bearish';
+  tf: Zone['tf'];
+  low: number;
+  high: number;
+  formedAt: number;            // openTime of c3
+  mitigatedAt: number | null;  // openTime of the first candle back in the zone (null = unmitigated)
+}
+
+export const FVG_MIN_SIZE_ATR = 0.1;
+export const OB_LOOKBACK = 3;
+
+const num = (value: string) => parseFloat(value);
+
+/**
+ * First candle after `formedIndex` trading back into the zone
+ */
+function findMitigation(candles: Candle[], formedIndex: number, side: ObFvgZone['side'], low: number, high: number): number | null {
+  for (let i = formedIndex + 1; i < candles.length; i++) {
+    const touched = side === 'bullish' ? num(candles[i].low) <= high : num(candles[i].high) >= low;
+    if (touched) return candles[i].openTime;
+  }
+  return null;
+}
+
+/**
+ * Every FVG and order block of the window (oldest first), mitigated ones included
+ */
+export function detectObFvgZones(candles: Candle[], tf: Zone['tf']): ObFvgZone[] {
+  const atr = calculateATR(candles);
+  if (!(atr > 0)) return [];
+
+  const zones: ObFvgZone[] = [];
+  for (let i = 2; i < candles.length; i++) {
+    const c1 = candles[i - 2];
+    const c3 = candles[i];
+
+    const side: ObFvgZone['side'] | null =
+      num(c3.low) > num(c1.high) ? 'bullish' :
+      num(c3.high) < num(c1.low) ? 'bearish' : null;
+    if (!side) continue;
+
+    const gapLow = side === 'bullish' ? num(c1.high) : num(c3.high);
+    const gapHigh = side === 'bullish' ? num(c3.low) : num(c1.low);
+    if (gapHigh - gapLow < FVG_MIN_SIZE_ATR * atr) continue;
+
+    const zone = (kind: ObFvgKind, low: number, high: number): ObFvgZone => ({
+      kind, side, tf, low, high,
+      formedAt: c3.openTime,
+      mitigatedAt: findMitigation(candles, i, side, low, high),
+    });
+
+    zones.push(zone('fvg', gapLow, gapHigh));
+
+    // Order block: последняя противоположная свеча перед импульсом (c1 и до OB_LOOKBACK - 1 свечей раньше)
+    for (let j = i - 2; j >= Math.max(0, i - 1 - OB_LOOKBACK); j--) {
+      const open = num(candles[j].open);
+      const close = num(candles[j].close);
+      const opposite = side === 'bullish' ? close < open : close > open;
+      if (opposite) {
+        // Один импульс может оставить несколько FVG подряд - OB добавляем один раз
+        if (!zones.some(z => z.kind === 'order_block' && z.side === side && z.low === num(candles[j].low) && z.high === num(candles[j].high))) {
+          zones.push(zone('order_block', num(candles[j].low), num(candles[j].high)));
+        }
+        break;
+      }
+    }
+  }
+
+  return zones;
+}
+
+/**
+ * Zones of all three timeframes (15m → 4h)
+ */
+export function buildObFvgZones(candlesByTf: Partial<Record<Zone['tf'], Candle[]>>): ObFvgZone[] {
+  return (['15m', '1h', '4h'] as const).flatMap(tf => {
+    const candles = candlesByTf[tf];
+    return candles && candles.length > 0 ? detectObFvgZones(candles, tf) : [];
+  });
+}
+
+/**
+ * Zones formed before `time` and not mitigated before it
+ */
+export function unmitigatedAt(zones: ObFvgZone[], time: number): ObFvgZone[] {
+  return zones.filter(z => z.formedAt < time && (z.mitigatedAt === null || z.mitigatedAt >= time));
+}
+
+/**
+ * Unmitigated OB / FVG of the pattern direction the pattern candle trades into (order blocks first, then higher TF)
+ */
+export function findPatternObFvg(
+  direction: 'LONG' | 'SHORT',
+  patternCandle: Candle,
+  zones: ObFvgZone[]
+): ObFvgZone | null {
+  const side = direction === 'LONG' ? 'bullish' : 'bearish';
+  const low = num(patternCandle.low);
+  const high = num(patternCandle.high);
+  const tfRank: Record<Zone['tf'], number> = { '15m': 0, '1h': 1, '4h': 2 };
+
+  const inside = unmitigatedAt(zones, patternCandle.openTime)
+    .filter(z => z.side === side && low <= z.high && high >= z.low)
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'order_block' ? -1 : 1) || tfRank[b.tf] - tfRank[a.tf]);
+
+  return inside[0] ?? null;
+}
+
+export function obFvgToZone(zone: ObFvgZone): Zone {
+  return {
+    type: zone.side === 'bullish' ? 'support' : 'resistance',
+    low: zone.low,
+    high: zone.high,
+    tf: zone.tf,
+    kind: zone.kind,
+  };
+}
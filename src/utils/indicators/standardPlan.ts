@@ -5,6 +5,10 @@
  * Used to compute free_path_R for both ENTER and SKIP signals
  */
 
+// S/R zone (sr, default) or volume level: volume profile POC / value area edges / high- and low-volume nodes,
+// anchored VWAP from the last swing high / low (see volumeProfile.ts), order block / fair value gap (see orderBlocks.ts)
+export type ZoneKind = 'sr' | 'poc' | 'vah' | 'val' | 'hvn' | 'lvn' | 'avwap_high' | 'avwap_low' | 'order_block' | 'fvg';
+
 export interface Zone {
   type: 'support' | 'resistance';
   low: number;
@@ -12,6 +16,7 @@ export interface Zone {
   tf: '15m' | '1h' | '4h';
   touches?: number; // Optional: number of touches (from S/R analysis)
   strength?: string; // Optional: zone strength
+  kind?: ZoneKind; // Optional: zone type metadata (undefined = sr)
 }
 
 export interface StandardPlanInput {
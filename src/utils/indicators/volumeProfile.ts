@@ -0,0 +1,217 @@
+/**
+ * Volume Profile - POC, value area (VAH / VAL) and high / low-volume nodes from kline volume,
+ * plus anchored VWAPs, exposed as Zone objects (Zone.kind) next to the S/R zones
+ *
+ * Profile: the price range of the window split into `bins` equal bins, every candle's volume spread
+ * evenly over the bins its high-low range covers.
+ * - POC        bin with the most volume
+ * - VAH / VAL  edges of the value area: bins added around the POC (larger neighbour first) until valueAreaPercent of the volume
+ * - HVN / LVN  local volume peaks ≥ 1.5× / troughs ≤ 0.5× the mean bin volume (POC and edge bins excluded, 3 per side max)
+ *
+ * Key levels (POC, VAH, VAL, HVN, anchored VWAP) count for the atKeyZone confluence factor and as TP targets
+ * (calculateHybridTP); LVNs are informational - price moves through them.
+ *
+ * Env:
+ *   VOLUME_PROFILE_WINDOWS=1h:168,4h:180   candles per timeframe (15m / 1h / 4h), profile + anchored VWAP
+ *   VOLUME_PROFILE_BINS=50
+ *   VOLUME_PROFILE_VALUE_AREA=70            value area, % of the window volume
+ */
+
+import type { Candle } from '../binanceClient';
+import type { Zone, ZoneKind } from './standardPlan';
+import { findAnchoredVWAPs } from './vwap';
+
+export interface VolumeNode {
+  low: number;
+  high: number;
+  volume: number;
+}
+
+export interface VolumeProfile {
+  low: number;
+  high: number;
+  binSize: number;
+  bins: number[];     // Volume per bin, lowest price first
+  poc: VolumeNode;
+  vah: number;
+  val: number;
+  hvns: VolumeNode[]; // Strongest first
+  lvns: VolumeNode[]; // Thinnest first
+}
+
+export interface VolumeProfileConfig {
+  windows: Partial<Record<Zone['tf'], number>>;
+  bins: number;
+  valueAreaPercent: number;
+}
+
+export const KEY_VOLUME_KINDS: ZoneKind[] = ['poc', 'vah', 'val', 'hvn', 'avwap_high', 'avwap_low'];
+
+const DEFAULT_WINDOWS: Partial<Record<Zone['tf'], number>> = { '1h': 168, '4h': 180 };
+const HVN_MIN_RATIO = 1.5;
+const LVN_MAX_RATIO = 0.5;
+const MAX_NODES = 3;
+const TIMEFRAMES: Zone['tf'][] = ['15m', '1h', '4h'];
+
+export function getVolumeProfileConfig(env: Record<string, string | undefined> = process.env): VolumeProfileConfig {
+  const windows: Partial<Record<Zone['tf'], number>> = {};
+  for (const entry of (env.VOLUME_PROFILE_WINDOWS || '').split(',')) {
+    const [tf, count] = entry.split(':').map(part => part.trim());
+    const candles = parseInt(count || '', 10);
+    if ((TIMEFRAMES as string[]).includes(tf) && Number.isFinite(candles) && candles > 1) {
+      windows[tf as Zone['tf']] = candles;
+    }
+  }
+
+  const bins = parseInt(env.VOLUME_PROFILE_BINS || '', 10);
+  const valueArea = parseFloat(env.VOLUME_PROFILE_VALUE_AREA || '');
+  return {
+    windows: Object.keys(windows).length > 0 ? windows : { ...DEFAULT_WINDOWS },
+    bins: Number.isFinite(bins) && bins >= 5 ? bins : 50,
+    valueAreaPercent: Number.isFinite(valueArea) && valueArea > 0 && valueArea < 100 ? valueArea : 70,
+  };
+}
+
+/**
+ * Volume profile of the candles (null = no range / no volume)
+ */
+export function buildVolumeProfile(candles: Candle[], binCount: number = 50, valueAreaPercent: number = 70): VolumeProfile | null {
+  if (candles.length === 0) return null;
+
+  const low = Math.min(...candles.map(c => parseFloat(c.low)));
+  const high = Math.max(...candles.map(c => parseFloat(c.high)));
+  if (!(high > low)) return null;
+
+  const binSize = (high - low) / binCount;
+  const bins = new Array<number>(binCount).fill(0);
+  const binOf = (price: number) => Math.min(binCount - 1, Math.max(0, Math.floor((price - low) / binSize)));
+
+  for (const candle of candles) {
+    const cLow = parseFloat(candle.low);
+    const cHigh = parseFloat(candle.high);
+    const volume = parseFloat(candle.volume);
+    if (!(volume > 0)) continue;
+
+    if (cHigh <= cLow) {
+      bins[binOf(parseFloat(candle.close))] += volume;
+      continue;
+    }
+    for (let i = binOf(cLow); i <= binOf(cHigh); i++) {
+      const overlap = Math.min(cHigh, low + (i + 1) * binSize) - Math.max(cLow, low + i * binSize);
+      if (overlap > 0) bins[i] += volume * overlap / (cHigh - cLow);
+    }
+  }
+
+  const total = bins.reduce((sum, v) => sum + v, 0);
+  if (total <= 0) return null;
+
+  const node = (i: number): VolumeNode => ({ low: low + i * binSize, high: low + (i + 1) * binSize, volume: bins[i] });
+  const pocIndex = bins.indexOf(Math.max(...bins));
+
+  // Value area: от POC к большему из соседних бинов, пока не наберём valueAreaPercent объёма
+  let lo = pocIndex;
+  let hi = pocIndex;
+  let covered = bins[pocIndex];
+  while (covered < total * valueAreaPercent / 100 && (lo > 0 || hi < binCount - 1)) {
+    const below = lo > 0 ? bins[lo - 1] : -1;
+    const above = hi < binCount - 1 ? bins[hi + 1] : -1;
+    if (above >= below) {
+      covered += bins[++hi];
+    } else {
+      covered += bins[--lo];
+    }
+  }
+
+  const mean = total / binCount;
+  const hvns: VolumeNode[] = [];
+  const lvns: VolumeNode[] = [];
+  for (let i = 1; i < binCount - 1; i++) {
+    if (i === pocIndex) continue;
+    if (bins[i] >= bins[i - 1] && bins[i] >= bins[i + 1] && bins[i] >= HVN_MIN_RATIO * mean) hvns.push(node(i));
+    if (bins[i] <= bins[i - 1] && bins[i] <= bins[i + 1] && bins[i] <= LVN_MAX_RATIO * mean) lvns.push(node(i));
+  }
+
+  return {
+    low,
+    high,
+    binSize,
+    bins,
+    poc: node(pocIndex),
+    vah: low + (hi + 1) * binSize,
+    val: low + lo * binSize,
+    hvns: hvns.sort((a, b) => b.volume - a.volume).slice(0, MAX_NODES),
+    lvns: lvns.sort((a, b) => a.volume - b.volume).slice(0, MAX_NODES),
+  };
+}
+
+function toZone(low: number, high: number, tf: Zone['tf'], kind: ZoneKind, price: number): Zone {
+  const type = high < price ? 'support' : low > price ? 'resistance' : (low + high) / 2 <= price ? 'support' : 'resistance';
+  return { type, low, high, tf, kind };
+}
+
+/**
+ * Profile levels as zones: POC / HVN / LVN = their bin, VAH / VAL = the edge bin of the value area
+ */
+export function volumeProfileZones(profile: VolumeProfile, tf: Zone['tf'], price: number): Zone[] {
+  return [
+    toZone(profile.poc.low, profile.poc.high, tf, 'poc', price),
+    toZone(profile.vah - profile.binSize, profile.vah, tf, 'vah', price),
+    toZone(profile.val, profile.val + profile.binSize, tf, 'val', price),
+    ...profile.hvns.map(n => toZone(n.low, n.high, tf, 'hvn', price)),
+    ...profile.lvns.map(n => toZone(n.low, n.high, tf, 'lvn', price)),
+  ];
+}
+
+/**
+ * Volume profile + anchored VWAP zones of every configured window (15m → 4h)
+ */
+export function buildVolumeZones(
+  candlesByTf: Partial<Record<Zone['tf'], Candle[]>>,
+  price: number,
+  config: VolumeProfileConfig = getVolumeProfileConfig()
+): Zone[] {
+  const zones: Zone[] = [];
+
+  for (const tf of TIMEFRAMES) {
+    const window = config.windows[tf];
+    const candles = candlesByTf[tf];
+    if (!window || !candles || candles.length === 0) continue;
+
+    const recent = candles.slice(-window);
+    const profile = buildVolumeProfile(recent, config.bins, config.valueAreaPercent);
+    if (profile) {
+      zones.push(...volumeProfileZones(profile, tf, price));
+    }
+    for (const avwap of findAnchoredVWAPs(recent)) {
+      zones.push(toZone(avwap.value, avwap.value, tf, avwap.anchor === 'swing_high' ? 'avwap_high' : 'avwap_low', price));
+    }
+  }
+
+  return zones;
+}
+
+/**
+ * Distance (ATR) from entry to the nearest key volume level on the entry side
+ * (support-side level for LONG, resistance-side for SHORT; 0 = entry inside it, 999 = none)
+ */
+export function distToKeyVolumeLevelAtr(
+  direction: 'LONG' | 'SHORT',
+  entryPrice: number,
+  volumeZones: Zone[],
+  atr: number
+): number {
+  const type = direction === 'LONG' ? 'support' : 'resistance';
+  const distances = volumeZones
+    .filter(z => z.type === type && z.kind !== undefined && KEY_VOLUME_KINDS.includes(z.kind))
+    .map(z => entryPrice < z.low ? z.low - entryPrice : entryPrice > z.high ? entryPrice - z.high : 0);
+
+  if (distances.length === 0 || !(atr > 0)) return 999;
+  return Math.min(...distances) / atr;
+}
+
+/**
+ * Key volume levels TP placement can stop at (LVNs dropped)
+ */
+export function volumeTargetZones(volumeZones: Zone[]): Zone[] {
+  return volumeZones.filter(z => z.kind !== undefined && KEY_VOLUME_KINDS.includes(z.kind));
+}
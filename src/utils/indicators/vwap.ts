@@ -1,9 +1,18 @@
 /**
  * VWAP (Volume Weighted Average Price) calculation
- * For 1h timeframe
+ * For 1h timeframe + anchored VWAP from the most recent significant swing high / low
  */
 
-import { binanceClient } from '../binanceClient';
+import { klineStore } from '../../services/klineStore';
+import type { Candle } from '../binanceClient';
+
+export interface AnchoredVWAP {
+  anchor: 'swing_high' | 'swing_low';
+  anchorTime: number; // openTime of the swing candle
+  value: number;      // VWAP from the swing candle to the last candle
+}
+
+export const AVWAP_PIVOT_LENGTH = 10; // Swing = highest high / lowest low of ±10 candles
 
 /**
  * Calculate VWAP for given candles
@@ -28,7 +37,7 @@ export function calculateVWAP(candles: any[]): number {
  */
 export async function calculateVWAP1h(symbol: string): Promise<number> {
   try {
-    const klines = await binanceClient.getKlines(symbol, '1h', 24);
+    const klines = await klineStore.getKlines(symbol, '1h', 24);
     
     const candles = klines.map((k: any) => ({
       high: parseFloat(k.high),
@@ -56,7 +65,7 @@ export async function getVWAPPosition(
     
     // If price not provided, fetch current price
     if (!currentPrice) {
-      const klines = await binanceClient.getKlines(symbol, '1h', 1);
+      const klines = await klineStore.getKlines(symbol, '1h', 1);
       currentPrice = parseFloat(klines[0].close);
     }
     
@@ -66,3 +75,48 @@ export async function getVWAPPosition(
     return 'below'; // Default fallback
   }
 }
+
+/**
+ * VWAP of typical price from `anchorIndex` to the last candle
+ */
+export function calculateAnchoredVWAP(candles: Candle[], anchorIndex: number): number {
+  return calculateVWAP(candles.slice(anchorIndex).map(c => ({
+    high: parseFloat(c.high),
+    low: parseFloat(c.low),
+    close: parseFloat(c.close),
+    volume: parseFloat(c.volume),
+  })));
+}
+
+/**
+ * Anchored VWAPs from the most recent confirmed swing high and swing low
+ * (pivot: strictly highest high / lowest low of `pivotLength` candles on each side)
+ */
+export function findAnchoredVWAPs(candles: Candle[], pivotLength: number = AVWAP_PIVOT_LENGTH): AnchoredVWAP[] {
+  const highs = candles.map(c => parseFloat(c.high));
+  const lows = candles.map(c => parseFloat(c.low));
+  const isPivot = (values: number[], i: number, better: (a: number, b: number) => boolean) => {
+    for (let j = i - pivotLength; j <= i + pivotLength; j++) {
+      if (j !== i && !better(values[i], values[j])) return false;
+    }
+    return true;
+  };
+
+  const result: AnchoredVWAP[] = [];
+  let highFound = false;
+  let lowFound = false;
+
+  // С конца: последний подтверждённый свинг (справа должно быть pivotLength свечей)
+  for (let i = candles.length - 1 - pivotLength; i >= pivotLength && !(highFound && lowFound); i--) {
+    if (!highFound && isPivot(highs, i, (a, b) => a > b)) {
+      result.push({ anchor: 'swing_high', anchorTime: candles[i].openTime, value: calculateAnchoredVWAP(candles, i) });
+      highFound = true;
+    }
+    if (!lowFound && isPivot(lows, i, (a, b) => a < b)) {
+      result.push({ anchor: 'swing_low', anchorTime: candles[i].openTime, value: calculateAnchoredVWAP(candles, i) });
+      lowFound = true;
+    }
+  }
+
+  return result;
+}
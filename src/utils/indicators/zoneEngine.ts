@@ -0,0 +1,145 @@
+/**
+ * Zone Engine - one interface over the S/R zone algorithms, multi-TF merge and ranking
+ *
+ * Sources (ZONE_SOURCE env, default tv):
+ *   tv        analyzeSRZonesTV: TradingView S/R channels, nearest support + resistance per TF (legacy snapshot)
+ *   channels  findSRChannels (via analyzeSRZonesTV): every channel strictly below / above price per TF
+ *   swing     analyzeSRZones: swing highs/lows clustered by clusterLevels (3+ touches, ±1.5% zones)
+ *
+ * Every source produces Zone[] in the snapshot order consumers rely on: per TF (15m, 1h, 4h) supports
+ * then resistances, nearest to price first - so `zones.find(z => z.tf === '4h' && z.type === 'support')`
+ * is the nearest 4h support whatever the source. getNearestOpposingZone (standardPlan) works on the same set.
+ *
+ * Shared strength metric (zoneStrength): TF weight × (strength label points + touches / 20, capped at 1),
+ * comparable across sources and timeframes. rankZones merges overlapping same-type zones (typically one level
+ * seen on several TFs) into one ranked zone: bounds of its strongest member, +50% of every other member's strength.
+ */
+
+import {
+  analyzeSRZones,
+  analyzeSRZonesTV,
+  type SRAnalysis,
+  type SRZone,
+} from '../candleAnalyzer';
+import type { Candle } from '../binanceClient';
+import type { Zone } from './standardPlan';
+
+export type ZoneSourceName = 'tv' | 'channels' | 'swing';
+
+export const ZONE_SOURCES: ZoneSourceName[] = ['tv', 'channels', 'swing'];
+
+export interface ZoneSource {
+  name: ZoneSourceName;
+  analyze(candles: Candle[]): SRAnalysis;
+  select(sr: SRAnalysis, price: number): SRZone[]; // Zones of one TF the snapshot keeps (any order)
+}
+
+export interface RankedZone extends Zone {
+  score: number;          // zoneStrength of the strongest member + 50% of the others
+  tfs: Zone['tf'][];      // Timeframes merged into this zone (ascending)
+}
+
+const TF_ORDER: Zone['tf'][] = ['15m', '1h', '4h'];
+const TF_WEIGHT: Record<Zone['tf'], number> = { '15m': 1, '1h': 2, '4h': 3 };
+const STRENGTH_POINTS: Record<string, number> = { weak: 1, medium: 2, strong: 3 };
+const TOUCHES_CAP = 20;
+const CONFLUENCE_WEIGHT = 0.5;
+
+const nearest = (sr: SRAnalysis): SRZone[] =>
+  [sr.nearestSupport, sr.nearestResistance].filter((z): z is SRZone => z !== null);
+
+const ZONE_SOURCE_IMPLS: Record<ZoneSourceName, ZoneSource> = {
+  tv: {
+    name: 'tv',
+    analyze: analyzeSRZonesTV,
+    select: nearest,
+  },
+  channels: {
+    name: 'channels',
+    analyze: analyzeSRZonesTV,
+    // Те же каналы, но все (support строго ниже цены, resistance строго выше - как getNearest*Channel)
+    select: (sr, price) => sr.allZones.filter(z => z.type === 'support' ? z.upper < price : z.lower > price),
+  },
+  swing: {
+    name: 'swing',
+    analyze: analyzeSRZones,
+    select: nearest,
+  },
+};
+
+export function isZoneSource(value: string): value is ZoneSourceName {
+  return (ZONE_SOURCES as string[]).includes(value);
+}
+
+export function getZoneSource(env: Record<string, string | undefined> = process.env): ZoneSourceName {
+  const value = env.ZONE_SOURCE;
+  return value && isZoneSource(value) ? value : 'tv';
+}
+
+export function getZoneSourceImpl(name: ZoneSourceName): ZoneSource {
+  return ZONE_SOURCE_IMPLS[name];
+}
+
+/**
+ * SRZone of one timeframe → Zone[] (supports then resistances, nearest to price first)
+ */
+export function toTimeframeZones(zones: SRZone[], tf: Zone['tf'], price: number): Zone[] {
+  const distance = (z: SRZone) => z.type === 'support' ? price - z.upper : z.lower - price;
+  const ordered = [
+    ...zones.filter(z => z.type === 'support').sort((a, b) => distance(a) - distance(b)),
+    ...zones.filter(z => z.type === 'resistance').sort((a, b) => distance(a) - distance(b)),
+  ];
+
+  return ordered.map(zone => ({
+    type: zone.type,
+    low: zone.lower,
+    high: zone.upper,
+    tf,
+    touches: zone.touches,
+    strength: zone.strength,
+  }));
+}
+
+/**
+ * Shared strength metric (independent of the source algorithm)
+ */
+export function zoneStrength(zone: Zone): number {
+  const label = STRENGTH_POINTS[zone.strength ?? 'weak'] ?? STRENGTH_POINTS.weak;
+  const touches = Math.min(zone.touches ?? 0, TOUCHES_CAP) / TOUCHES_CAP;
+  return TF_WEIGHT[zone.tf] * (label + touches);
+}
+
+/**
+ * Merge overlapping same-type zones across timeframes and rank by score (strongest first)
+ */
+export function rankZones(zones: Zone[]): RankedZone[] {
+  const ranked: RankedZone[] = [];
+
+  for (const type of ['support', 'resistance'] as const) {
+    const sorted = zones.filter(z => z.type === type).sort((a, b) => a.low - b.low);
+    let group: Zone[] = [];
+    let groupHigh = -Infinity;
+
+    const flush = () => {
+      if (group.length === 0) return;
+      const byStrength = [...group].sort((a, b) => zoneStrength(b) - zoneStrength(a));
+      const [lead, ...others] = byStrength;
+      ranked.push({
+        ...lead,
+        score: zoneStrength(lead) + CONFLUENCE_WEIGHT * others.reduce((sum, z) => sum + zoneStrength(z), 0),
+        tfs: TF_ORDER.filter(tf => group.some(z => z.tf === tf)),
+      });
+      group = [];
+      groupHigh = -Infinity;
+    };
+
+    for (const zone of sorted) {
+      if (zone.low > groupHigh) flush();
+      group.push(zone);
+      groupHigh = Math.max(groupHigh, zone.high);
+    }
+    flush();
+  }
+
+  return ranked.sort((a, b) => b.score - a.score);
+}
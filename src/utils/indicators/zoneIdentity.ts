@@ -0,0 +1,84 @@
+/**
+ * Zone Identity - fuzzy zone matching and zone tests replayed from 15m candles
+ *
+ * S/R zones are recalculated on every scan, so the bounds of one level move slightly from scan to scan.
+ * A zone keeps its identity while its bounds overlap the stored zone of the same symbol / TF / type by at least
+ * ZONE_MATCH_MIN_OVERLAP (intersection / union) - no exact toFixed(8) keys.
+ *
+ * Zone test (touch) = a 15m candle whose range reaches the zone ± ZONE_TOUCH_TOLERANCE_ATR × ATR15m
+ * while the previous candle did not (one test per visit, candles spent inside the zone are the same test).
+ */
+
+import type { Candle } from '../binanceClient';
+import type { Zone } from './standardPlan';
+
+export interface ZoneBounds {
+  low: number;
+  high: number;
+}
+
+export const ZONE_MATCH_MIN_OVERLAP = 0.5;
+export const ZONE_TOUCH_TOLERANCE_ATR = 0.1;
+
+/**
+ * Intersection / union of two price ranges (1 = identical, 0 = disjoint)
+ */
+export function zoneOverlapRatio(a: ZoneBounds, b: ZoneBounds): number {
+  const union = Math.max(a.high, b.high) - Math.min(a.low, b.low);
+  if (union <= 0) {
+    return 1; // Обе зоны - одна и та же линия
+  }
+  const intersection = Math.min(a.high, b.high) - Math.max(a.low, b.low);
+  return Math.max(0, intersection) / union;
+}
+
+/**
+ * Stored zone with the largest overlap (at least ZONE_MATCH_MIN_OVERLAP), null = new zone
+ */
+export function matchZone<T extends ZoneBounds>(zone: ZoneBounds, candidates: T[]): T | null {
+  let best: T | null = null;
+  let bestRatio = ZONE_MATCH_MIN_OVERLAP;
+
+  for (const candidate of candidates) {
+    const ratio = zoneOverlapRatio(zone, candidate);
+    if (ratio >= bestRatio) {
+      best = candidate;
+      bestRatio = ratio;
+    }
+  }
+  return best;
+}
+
+/**
+ * Zone whose tests are counted for a trade: nearest 15m support for LONG, 15m resistance for SHORT
+ */
+export function findActiveZone(direction: 'LONG' | 'SHORT', zones: Zone[]): Zone | null {
+  const type = direction === 'LONG' ? 'support' : 'resistance';
+  return zones.find(z => z.tf === '15m' && z.type === type) ?? null;
+}
+
+/**
+ * openTimes of the candles that started a zone test (candles oldest first)
+ */
+export function findZoneTouches(candles: Candle[], zone: ZoneBounds, tolerance: number): number[] {
+  const low = zone.low - tolerance;
+  const high = zone.high + tolerance;
+  const touches: number[] = [];
+  let inside = false;
+
+  for (const candle of candles) {
+    const touching = Number(candle.low) <= high && Number(candle.high) >= low;
+    if (touching && !inside) {
+      touches.push(candle.openTime);
+    }
+    inside = touching;
+  }
+  return touches;
+}
+
+/**
+ * Zone tests started at or after `since` (ms)
+ */
+export function countZoneTests(candles: Candle[], zone: ZoneBounds, tolerance: number, since: number): number {
+  return findZoneTouches(candles, zone, tolerance).filter(openTime => openTime >= since).length;
+}
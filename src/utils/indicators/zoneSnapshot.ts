@@ -0,0 +1,74 @@
+/**
+ * Zone Snapshot - support/resistance zones across 15m/1h/4h
+ *
+ * Pure helper (no network): builds the multi-TF zone set that collectMLContext stores in MLContext.zones,
+ * calculateDynamicRiskProfile consumes and the Telegram signal message shows.
+ * Zones come from the configured zone engine source (ZONE_SOURCE, see zoneEngine.ts; default tv =
+ * nearest sup/res × 3 TF from the TradingView channels).
+ * Volume levels (volume profile + anchored VWAP, VOLUME_PROFILE_* env) are kept apart in volumeZones:
+ * the zones order / veto filters stay S/R only, TP placement and atKeyZone use both.
+ * Order blocks / fair value gaps (orderBlocks.ts) go to obFvgZones with their mitigation state
+ * (the inObFvg confluence factor).
+ * Shared by the live scanner (via mlLogger), the offline backtester and the golden fixtures.
+ */
+
+import type { SRAnalysis } from '../candleAnalyzer';
+import type { Candle } from '../binanceClient';
+import type { Zone } from './standardPlan';
+import {
+  getZoneSource,
+  getZoneSourceImpl,
+  rankZones,
+  toTimeframeZones,
+  type RankedZone,
+  type ZoneSourceName,
+} from './zoneEngine';
+import { buildVolumeZones, getVolumeProfileConfig, type VolumeProfileConfig } from './volumeProfile';
+import { buildObFvgZones, type ObFvgZone } from './orderBlocks';
+
+export interface ZoneSnapshot {
+  source: ZoneSourceName;
+  zones: Zone[];
+  ranked: RankedZone[]; // Merged across TFs, strongest first
+  volumeZones: Zone[];  // Volume profile / anchored VWAP levels (Zone.kind), per configured window
+  obFvgZones: ObFvgZone[]; // Order blocks / FVGs of the 3 TFs, mitigated ones included (mitigatedAt)
+  sr15m: SRAnalysis;
+  sr1h: SRAnalysis;
+  sr4h: SRAnalysis;
+}
+
+/**
+ * Analyze S/R zones on all three timeframes with the zone source and build the zone snapshot
+ * Zone order: 15m sup, 15m res, 1h sup, 1h res, 4h sup, 4h res (nearest first within each group)
+ */
+export function buildZoneSnapshot(
+  candles15m: Candle[],
+  candles1h: Candle[],
+  candles4h: Candle[],
+  sourceName: ZoneSourceName = getZoneSource(),
+  volumeConfig: VolumeProfileConfig = getVolumeProfileConfig()
+): ZoneSnapshot {
+  const source = getZoneSourceImpl(sourceName);
+  const byTf: Array<[Candle[], Zone['tf']]> = [[candles15m, '15m'], [candles1h, '1h'], [candles4h, '4h']];
+
+  const analyses = byTf.map(([candles]) => source.analyze(candles));
+  const zones = byTf.flatMap(([candles, tf], i) => {
+    const price = candles.length > 0 ? parseFloat(candles[candles.length - 1].close) : 0;
+    return toTimeframeZones(source.select(analyses[i], price), tf, price);
+  });
+
+  const price = candles15m.length > 0 ? parseFloat(candles15m[candles15m.length - 1].close) : 0;
+  const candlesByTf = { '15m': candles15m, '1h': candles1h, '4h': candles4h };
+  const volumeZones = buildVolumeZones(candlesByTf, price, volumeConfig);
+
+  return {
+    source: sourceName,
+    zones,
+    ranked: rankZones(zones),
+    volumeZones,
+    obFvgZones: buildObFvgZones(candlesByTf),
+    sr15m: analyses[0],
+    sr1h: analyses[1],
+    sr4h: analyses[2],
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Limit Entry - entry mode per pattern type and limit fill simulation on 1m candles
+ *
+ * Entry modes:
+ * - market:        enter at the pattern candle close (default, legacy behaviour)
+ * - limit_retrace: resting limit at LIMIT_RETRACE_PCT of the signal bar measured from its extreme in the
+ *                  trade direction (LONG: high - pct × range; 50% of a long-tailed pin bar sits in the tail)
+ * - limit_zone:    resting limit at the edge of the nearest zone behind the entry
+ *                  (LONG: top of the nearest support below the close, SHORT: bottom of the nearest resistance above)
+ * A limit that is not better than the close or not in front of the stop falls back to market.
+ * SL / TP prices stay from the pattern plan, R values are measured from the fill.
+ *
+ * Env:
+ *   ENTRY_MODES=                 per pattern: "pinbar:limit_retrace,fakey_sell:limit_zone" (type or family without _buy/_sell)
+ *   LIMIT_RETRACE_PCT=50         limit_retrace level, % of the signal bar range
+ *   LIMIT_EXPIRY_BARS=3          bars of the signal timeframe before an unfilled limit is cancelled
+ */
+
+import type { Candle } from './exchanges/types';
+import type { Zone } from './indicators/standardPlan';
+
+export type EntryMode = 'market' | 'limit_retrace' | 'limit_zone';
+
+export const ENTRY_MODES: EntryMode[] = ['market', 'limit_retrace', 'limit_zone'];
+
+export interface LimitEntryConfig {
+  modes: Record<string, EntryMode>; // pattern type or family → mode
+  retracePct: number;
+  expiryBars: number;
+}
+
+export function getLimitEntryConfig(env: Record<string, string | undefined> = process.env): LimitEntryConfig {
+  const modes: Record<string, EntryMode> = {};
+  for (const entry of (env.ENTRY_MODES || '').split(',')) {
+    const [pattern, mode] = entry.split(':').map(part => part.trim());
+    if (pattern && mode && (ENTRY_MODES as string[]).includes(mode)) {
+      modes[pattern] = mode as EntryMode;
+    }
+  }
+
+  const retracePct = parseFloat(env.LIMIT_RETRACE_PCT || '');
+  const expiryBars = parseInt(env.LIMIT_EXPIRY_BARS || '', 10);
+  return {
+    modes,
+    retracePct: Number.isFinite(retracePct) && retracePct > 0 && retracePct < 100 ? retracePct : 50,
+    expiryBars: Number.isFinite(expiryBars) && expiryBars > 0 ? expiryBars : 3,
+  };
+}
+
+/**
+ * Mode for a pattern: exact type (pinbar_buy) first, then family (pinbar)
+ */
+export function getEntryMode(config: LimitEntryConfig, patternType: string): EntryMode {
+  return config.modes[patternType] ?? config.modes[patternType.replace(/_(buy|sell)$/, '')] ?? 'market';
+}
+
+export interface LimitPriceInput {
+  direction: 'LONG' | 'SHORT';
+  close: number;     // Pattern candle close (market entry)
+  high: number;      // Pattern candle range
+  low: number;
+  slPrice: number;
+  zones?: Zone[];
+}
+
+/**
+ * Limit price for the mode (null = market at the close)
+ */
+export function calculateLimitPrice(mode: EntryMode, input: LimitPriceInput, retracePct: number): number | null {
+  const isLong = input.direction === 'LONG';
+  let price: number | null = null;
+
+  if (mode === 'limit_retrace') {
+    const offset = (input.high - input.low) * retracePct / 100;
+    price = isLong ? input.high - offset : input.low + offset;
+  } else if (mode === 'limit_zone') {
+    const edges = (input.zones || [])
+      .filter(zone => (isLong ? zone.type === 'support' && zone.high < input.close : zone.type === 'resistance' && zone.low > input.close))
+      .map(zone => (isLong ? zone.high : zone.low));
+    if (edges.length > 0) {
+      price = isLong ? Math.max(...edges) : Math.min(...edges);
+    }
+  }
+
+  if (price === null) return null;
+  const better = isLong ? price < input.close : price > input.close;
+  const beforeStop = isLong ? price > input.slPrice : price < input.slPrice;
+  return better && beforeStop ? price : null;
+}
+
+export interface LimitOrder {
+  direction: 'LONG' | 'SHORT';
+  limitPrice: number;
+  tp1Price: number;
+  placedAt: number;   // ms, pattern close (fill candles start here)
+  expiresAt: number;  // ms
+}
+
+export type LimitFillResult =
+  | { state: 'waiting' }
+  | { state: 'filled'; price: number; time: number }  // time = openTime of the fill candle
+  | { state: 'cancelled'; reason: 'expired' | 'target'; time: number };
+
+/**
+ * Walk closed 1m candles (oldest first) after the order was placed
+ * - fill: LONG low ≤ limit (price = limit, or the open when it gapped through)
+ * - TP1 traded before a fill → the move left without us, cancelled
+ * A candle that touches both the limit and TP1 counts as a fill: the stop / TP check of that
+ * candle is left to the tracker replay (the stop can only trade after the limit)
+ */
+export function simulateLimitFill(order: LimitOrder, candles: Candle[], now: number): LimitFillResult {
+  const isLong = order.direction === 'LONG';
+
+  for (const candle of candles) {
+    if (candle.openTime < order.placedAt) continue;
+    if (candle.openTime >= order.expiresAt) {
+      return { state: 'cancelled', reason: 'expired', time: order.expiresAt };
+    }
+
+    const open = Number(candle.open);
+    const high = Number(candle.high);
+    const low = Number(candle.low);
+
+    if (isLong ? low <= order.limitPrice : high >= order.limitPrice) {
+      const price = isLong ? Math.min(open, order.limitPrice) : Math.max(open, order.limitPrice);
+      return { state: 'filled', price, time: candle.openTime };
+    }
+    if (isLong ? high >= order.tp1Price : low <= order.tp1Price) {
+      return { state: 'cancelled', reason: 'target', time: candle.closeTime + 1 };
+    }
+  }
+
+  return now >= order.expiresAt ? { state: 'cancelled', reason: 'expired', time: order.expiresAt } : { state: 'waiting' };
+}
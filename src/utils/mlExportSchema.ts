@@ -0,0 +1,246 @@
+/**
+ * ML Export Schema - column specs for the Parquet/CSV/JSON ML exports
+ *
+ * One spec per exported table (snake_case names = DB column names).
+ * Bump ML_EXPORT_SCHEMA_VERSION whenever a column is added, removed or changes type:
+ * the version is written to the Parquet footer and to parquet_exports.schema_version,
+ * and ParquetExportService re-exports partitions recorded with an older version.
+ */
+
+import * as path from 'path';
+import type { ParquetColumn, ParquetColumnType } from './parquetWriter';
+import type { Signal, NearMissSkip, ShadowEvaluation } from '../mastra/storage/schema';
+
+export const ML_EXPORT_SCHEMA_VERSION = 11;
+
+export type MlExportType = 'trades' | 'near_miss' | 'shadow';
+
+function field<T>(name: string, type: ParquetColumnType, key: keyof T): ParquetColumn<T> {
+  return { name, type, value: row => row[key] };
+}
+
+export const SIGNAL_COLUMNS: ParquetColumn<Signal>[] = [
+  field<Signal>('id', 'int32', 'id'),
+  field<Signal>('venue', 'enum', 'venue'),
+  field<Signal>('symbol', 'enum', 'symbol'),
+  field<Signal>('timeframe', 'enum', 'timeframe'),
+  field<Signal>('pattern_type', 'enum', 'patternType'),
+  field<Signal>('entry_price', 'float64', 'entryPrice'),
+  field<Signal>('sl_price', 'float64', 'slPrice'),
+  field<Signal>('tp1_price', 'float64', 'tp1Price'),
+  field<Signal>('tp2_price', 'float64', 'tp2Price'),
+  field<Signal>('tp3_price', 'float64', 'tp3Price'),
+  field<Signal>('current_sl', 'float64', 'currentSl'),
+  field<Signal>('initial_sl', 'float64', 'initialSl'),
+  field<Signal>('position_size', 'float64', 'positionSize'),
+  field<Signal>('partial_closed', 'float64', 'partialClosed'),
+  field<Signal>('be_activated', 'bool', 'beActivated'),
+  field<Signal>('trailing_activated', 'bool', 'trailingActivated'),
+  field<Signal>('trailing_mode', 'enum', 'trailingMode'),
+  field<Signal>('position_qty', 'float64', 'positionQty'),
+  field<Signal>('position_notional', 'float64', 'positionNotional'),
+  field<Signal>('required_margin', 'float64', 'requiredMargin'),
+  field<Signal>('leverage', 'float64', 'leverage'),
+  field<Signal>('liquidation_price', 'float64', 'liquidationPrice'),
+  field<Signal>('sizing_status', 'enum', 'sizingStatus'),
+  field<Signal>('sizing_note', 'string', 'sizingNote'),
+  field<Signal>('confirm_type', 'enum', 'confirmType'),
+  field<Signal>('confirm_wait_bars_15m', 'int32', 'confirmWaitBars15m'),
+  field<Signal>('pattern_close_price', 'float64', 'patternClosePrice'),
+  field<Signal>('entry_mode', 'enum', 'entryMode'),
+  field<Signal>('ambiguity_policy', 'enum', 'ambiguityPolicy'),
+  field<Signal>('ambiguity_events', 'int32', 'ambiguityEvents'),
+  field<Signal>('exit_type', 'enum', 'exitType'),
+  field<Signal>('last_processed_minute', 'timestamp', 'lastProcessedMinute'),
+  field<Signal>('pnl_r', 'float64', 'pnlR'),
+  field<Signal>('pnl_percent', 'float64', 'pnlPercent'),
+  field<Signal>('net_pnl_r', 'float64', 'netPnlR'),
+  field<Signal>('net_pnl_percent', 'float64', 'netPnlPercent'),
+  field<Signal>('fees_r', 'float64', 'feesR'),
+  field<Signal>('slippage_r', 'float64', 'slippageR'),
+  field<Signal>('funding_r', 'float64', 'fundingR'),
+  field<Signal>('atr_15m', 'float64', 'atr15m'),
+  field<Signal>('atr_h4', 'float64', 'atrH4'),
+  field<Signal>('dist_to_dir_h1_zone_atr', 'float64', 'distToDirH1ZoneAtr'),
+  field<Signal>('dist_to_dir_h4_zone_atr', 'float64', 'distToDirH4ZoneAtr'),
+  field<Signal>('free_path_r', 'float64', 'freePathR'),
+  field<Signal>('arrival_pattern', 'enum', 'arrivalPattern'),
+  field<Signal>('clearance_15m', 'float64', 'clearance15m'),
+  field<Signal>('clearance_1h', 'float64', 'clearance1h'),
+  field<Signal>('r_available', 'float64', 'rAvailable'),
+  field<Signal>('zone_test_count_24h', 'int32', 'zoneTestCount24h'),
+  field<Signal>('veto_reason', 'enum', 'vetoReason'),
+  field<Signal>('sl_buffer_atr15', 'float64', 'slBufferAtr15'),
+  field<Signal>('pattern_score', 'float64', 'patternScore'),
+  field<Signal>('pattern_score_factors', 'json', 'patternScoreFactors'),
+  field<Signal>('swing_extreme_price', 'float64', 'swingExtremePrice'),
+  field<Signal>('sl_buffer_atr', 'float64', 'slBufferAtr'),
+  field<Signal>('round_number_adjusted', 'bool', 'roundNumberAdjusted'),
+  field<Signal>('min_distance_from_zone', 'float64', 'minDistanceFromZone'),
+  field<Signal>('tp1_limited_by_zone', 'bool', 'tp1LimitedByZone'),
+  field<Signal>('tp2_limited_by_zone', 'bool', 'tp2LimitedByZone'),
+  field<Signal>('tp3_limited_by_zone', 'bool', 'tp3LimitedByZone'),
+  field<Signal>('nearest_resistance_distance_r', 'float64', 'nearestResistanceDistanceR'),
+  field<Signal>('actual_rr_tp1', 'float64', 'actualRrTp1'),
+  field<Signal>('actual_rr_tp2', 'float64', 'actualRrTp2'),
+  field<Signal>('actual_rr_tp3', 'float64', 'actualRrTp3'),
+  field<Signal>('dynamic_min_rr', 'float64', 'dynamicMinRr'),
+  field<Signal>('dynamic_min_rr_adjustments', 'json', 'dynamicMinRrAdjustments'),
+  field<Signal>('dynamic_min_rr_reasoning', 'string', 'dynamicMinRrReasoning'),
+  field<Signal>('trend_alignment', 'enum', 'trendAlignment'),
+  field<Signal>('multi_tf_alignment', 'bool', 'multiTfAlignment'),
+  field<Signal>('atr_volatility', 'enum', 'atrVolatility'),
+  field<Signal>('rr_validation_passed', 'bool', 'rrValidationPassed'),
+  field<Signal>('rr_validation_message', 'string', 'rrValidationMessage'),
+  field<Signal>('confluence_score', 'int32', 'confluenceScore'),
+  field<Signal>('confluence_details', 'json', 'confluenceDetails'),
+  field<Signal>('mfe_r', 'float64', 'mfeR'),
+  field<Signal>('mae_r', 'float64', 'maeR'),
+  field<Signal>('time_to_tp1_min', 'int32', 'timeToTp1Min'),
+  field<Signal>('time_to_tp2_min', 'int32', 'timeToTp2Min'),
+  field<Signal>('time_to_tp3_min', 'int32', 'timeToTp3Min'),
+  field<Signal>('time_to_sl_min', 'int32', 'timeToSlMin'),
+  field<Signal>('time_to_be_min', 'int32', 'timeToBeMin'),
+  field<Signal>('first_touch', 'enum', 'firstTouch'),
+  field<Signal>('partial_close_p1', 'float64', 'partialCloseP1'),
+  field<Signal>('partial_close_p2', 'float64', 'partialCloseP2'),
+  field<Signal>('partial_close_p3', 'float64', 'partialCloseP3'),
+  field<Signal>('strategy_profile', 'enum', 'strategyProfile'),
+  field<Signal>('status', 'enum', 'status'),
+  field<Signal>('direction', 'enum', 'direction'),
+  field<Signal>('telegram_message_id', 'int32', 'telegramMessageId'),
+  field<Signal>('created_at', 'timestamp', 'createdAt'),
+  field<Signal>('updated_at', 'timestamp', 'updatedAt'),
+];
+
+export const NEAR_MISS_COLUMNS: ParquetColumn<NearMissSkip>[] = [
+  field<NearMissSkip>('id', 'int32', 'id'),
+  field<NearMissSkip>('signal_id', 'string', 'signalId'),
+  field<NearMissSkip>('symbol', 'enum', 'symbol'),
+  field<NearMissSkip>('entry_tf', 'enum', 'entryTf'),
+  field<NearMissSkip>('side', 'enum', 'side'),
+  field<NearMissSkip>('pattern_type', 'enum', 'patternType'),
+  field<NearMissSkip>('ts', 'timestamp', 'ts'),
+  field<NearMissSkip>('atr_15m', 'float64', 'atr15m'),
+  field<NearMissSkip>('atr_1h', 'float64', 'atr1h'),
+  field<NearMissSkip>('atr_4h', 'float64', 'atr4h'),
+  field<NearMissSkip>('ema200_1h_pos', 'enum', 'ema200H1Pos'),
+  field<NearMissSkip>('vwap_1h_pos', 'enum', 'vwap1hPos'),
+  field<NearMissSkip>('trend_bias', 'enum', 'trendBias'),
+  field<NearMissSkip>('btc_trend_state', 'enum', 'btcTrendState'),
+  field<NearMissSkip>('zones', 'json', 'zones'),
+  field<NearMissSkip>('in_h4_zone', 'bool', 'inH4Zone'),
+  field<NearMissSkip>('near_h4_support', 'bool', 'nearH4Support'),
+  field<NearMissSkip>('near_h4_resistance', 'bool', 'nearH4Resistance'),
+  field<NearMissSkip>('dist_to_dir_h1_zone_atr', 'float64', 'distToDirH1ZoneAtr'),
+  field<NearMissSkip>('dist_to_dir_h4_zone_atr', 'float64', 'distToDirH4ZoneAtr'),
+  field<NearMissSkip>('free_path_pts', 'float64', 'freePathPts'),
+  field<NearMissSkip>('free_path_atr15', 'float64', 'freePathAtr15'),
+  field<NearMissSkip>('free_path_r', 'float64', 'freePathR'),
+  field<NearMissSkip>('arrival_pattern', 'enum', 'arrivalPattern'),
+  field<NearMissSkip>('zone_touch_count_bucket', 'enum', 'zoneTouchCountBucket'),
+  field<NearMissSkip>('zone_thickness_atr15', 'float64', 'zoneThicknessAtr15'),
+  field<NearMissSkip>('signal_bar_size_atr15', 'float64', 'signalBarSizeAtr15'),
+  field<NearMissSkip>('signal_bar_size_bucket', 'enum', 'signalBarSizeBucket'),
+  field<NearMissSkip>('confirm_type', 'enum', 'confirmType'),
+  field<NearMissSkip>('confirm_wait_bars_15m', 'int32', 'confirmWaitBars15m'),
+  field<NearMissSkip>('rejected_by_trend', 'bool', 'rejectedByTrend'),
+  field<NearMissSkip>('clearance_15m', 'float64', 'clearance15m'),
+  field<NearMissSkip>('clearance_1h', 'float64', 'clearance1h'),
+  field<NearMissSkip>('r_available', 'float64', 'rAvailable'),
+  field<NearMissSkip>('zone_test_count_24h', 'int32', 'zoneTestCount24h'),
+  field<NearMissSkip>('veto_reason', 'enum', 'vetoReason'),
+  field<NearMissSkip>('sl_buffer_atr15', 'float64', 'slBufferAtr15'),
+  field<NearMissSkip>('pattern_score', 'float64', 'patternScore'),
+  field<NearMissSkip>('pattern_score_factors', 'json', 'patternScoreFactors'),
+  field<NearMissSkip>('swing_extreme_price', 'float64', 'swingExtremePrice'),
+  field<NearMissSkip>('sl_buffer_atr', 'float64', 'slBufferAtr'),
+  field<NearMissSkip>('round_number_adjusted', 'bool', 'roundNumberAdjusted'),
+  field<NearMissSkip>('min_distance_from_zone', 'float64', 'minDistanceFromZone'),
+  field<NearMissSkip>('tp1_limited_by_zone', 'bool', 'tp1LimitedByZone'),
+  field<NearMissSkip>('tp2_limited_by_zone', 'bool', 'tp2LimitedByZone'),
+  field<NearMissSkip>('tp3_limited_by_zone', 'bool', 'tp3LimitedByZone'),
+  field<NearMissSkip>('nearest_resistance_distance_r', 'float64', 'nearestResistanceDistanceR'),
+  field<NearMissSkip>('actual_rr_tp1', 'float64', 'actualRrTp1'),
+  field<NearMissSkip>('actual_rr_tp2', 'float64', 'actualRrTp2'),
+  field<NearMissSkip>('actual_rr_tp3', 'float64', 'actualRrTp3'),
+  field<NearMissSkip>('dynamic_min_rr', 'float64', 'dynamicMinRr'),
+  field<NearMissSkip>('dynamic_min_rr_adjustments', 'json', 'dynamicMinRrAdjustments'),
+  field<NearMissSkip>('dynamic_min_rr_reasoning', 'string', 'dynamicMinRrReasoning'),
+  field<NearMissSkip>('trend_alignment', 'enum', 'trendAlignment'),
+  field<NearMissSkip>('multi_tf_alignment', 'bool', 'multiTfAlignment'),
+  field<NearMissSkip>('atr_volatility', 'enum', 'atrVolatility'),
+  field<NearMissSkip>('rr_validation_passed', 'bool', 'rrValidationPassed'),
+  field<NearMissSkip>('rr_validation_message', 'string', 'rrValidationMessage'),
+  field<NearMissSkip>('decision', 'enum', 'decision'),
+  { name: 'skip_reasons', type: 'string', value: row => row.skipReasons?.join(',') }, // CSV list of reason codes (same as CSV export)
+  field<NearMissSkip>('ruleset_version', 'enum', 'rulesetVersion'),
+  field<NearMissSkip>('confluence_score', 'int32', 'confluenceScore'),
+  field<NearMissSkip>('confluence_details', 'json', 'confluenceDetails'),
+  field<NearMissSkip>('skip_category', 'enum', 'skipCategory'),
+  field<NearMissSkip>('ob_fvg_kind', 'enum', 'obFvgKind'),
+  field<NearMissSkip>('ob_fvg_tf', 'enum', 'obFvgTf'),
+  field<NearMissSkip>('ob_fvg_zones', 'json', 'obFvgZones'),
+  field<NearMissSkip>('candidate_plan_source', 'enum', 'candidatePlanSource'),
+  field<NearMissSkip>('candidate_sl', 'float64', 'candidateSl'),
+  field<NearMissSkip>('candidate_tp1', 'float64', 'candidateTp1'),
+  field<NearMissSkip>('candidate_tp2', 'float64', 'candidateTp2'),
+  field<NearMissSkip>('candidate_tp3', 'float64', 'candidateTp3'),
+  field<NearMissSkip>('created_at', 'timestamp', 'createdAt'),
+];
+
+export const SHADOW_COLUMNS: ParquetColumn<ShadowEvaluation>[] = [
+  field<ShadowEvaluation>('id', 'int32', 'id'),
+  field<ShadowEvaluation>('signal_id', 'string', 'signalId'),
+  field<ShadowEvaluation>('reason_code', 'enum', 'reasonCode'),
+  field<ShadowEvaluation>('hypothetical_entry_price', 'float64', 'hypotheticalEntryPrice'),
+  field<ShadowEvaluation>('hypothetical_entry_time', 'timestamp', 'hypotheticalEntryTime'),
+  field<ShadowEvaluation>('shadow_outcome', 'enum', 'shadowOutcome'),
+  field<ShadowEvaluation>('shadow_mfe_r', 'float64', 'shadowMfeR'),
+  field<ShadowEvaluation>('shadow_mae_r', 'float64', 'shadowMaeR'),
+  field<ShadowEvaluation>('shadow_time_to_first_touch_min', 'int32', 'shadowTimeToFirstTouchMin'),
+  field<ShadowEvaluation>('shadow_pnl_r', 'float64', 'shadowPnlR'),
+  field<ShadowEvaluation>('replayed_until', 'timestamp', 'replayedUntil'),
+  field<ShadowEvaluation>('is_active', 'bool', 'isActive'),
+  field<ShadowEvaluation>('completed_at', 'timestamp', 'completedAt'),
+  field<ShadowEvaluation>('created_at', 'timestamp', 'createdAt'),
+];
+
+export interface MlExportTable<T> {
+  type: MlExportType;
+  columns: ParquetColumn<T>[];
+  partitionDate: (row: T) => Date; // Row → date=YYYY-MM-DD/ partition
+}
+
+export const SIGNALS_EXPORT: MlExportTable<Signal> = {
+  type: 'trades',
+  columns: SIGNAL_COLUMNS,
+  partitionDate: row => row.createdAt,
+};
+
+export const NEAR_MISS_EXPORT: MlExportTable<NearMissSkip> = {
+  type: 'near_miss',
+  columns: NEAR_MISS_COLUMNS,
+  partitionDate: row => row.ts,
+};
+
+export const SHADOW_EXPORT: MlExportTable<ShadowEvaluation> = {
+  type: 'shadow',
+  columns: SHADOW_COLUMNS,
+  partitionDate: row => row.createdAt,
+};
+
+/**
+ * <exportDir>/<type>/date=YYYY-MM-DD/data.parquet (Hive-style partitions, readable as one dataset)
+ */
+export function partitionPath(exportDir: string, type: MlExportType, date: string): string {
+  return path.join(exportDir, type, `date=${date}`, 'data.parquet');
+}
+
+export function parquetMetadata(type: MlExportType, date: string): Record<string, string> {
+  return {
+    schema_version: String(ML_EXPORT_SCHEMA_VERSION),
+    export_type: type,
+    partition_date: date,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Paper Account - virtual account math for the signal simulator
+ *
+ * Every signal opens a position sized so that entry → SL loses riskPercent of the balance.
+ * Exits follow the same ladder as signals.partial_closed (calculatePartialClosedPercent):
+ * TP levels close their share at the TP price, SL/BE/TIMEOUT close the rest at the exit price.
+ * Fees are charged on the notional of every fill (open and each close).
+ *
+ * Env:
+ *   PAPER_ACCOUNT_BALANCE=10000  starting balance (USDT)
+ *   PAPER_RISK_PERCENT=1         risk per trade, % of the current balance
+ *   PAPER_FEE_RATE=0.0005        taker fee per fill (0.05%)
+ */
+
+import { calculatePartialClosedPercent } from './tradeOutcomes';
+
+export interface PaperAccountConfig {
+  initialBalance: number;
+  riskPercent: number;
+  feeRate: number;
+}
+
+function positiveNumber(raw: string | undefined, fallback: number): number {
+  const value = raw !== undefined ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getPaperAccountConfig(env: Record<string, string | undefined> = process.env): PaperAccountConfig {
+  return {
+    initialBalance: positiveNumber(env.PAPER_ACCOUNT_BALANCE, 10_000),
+    riskPercent: positiveNumber(env.PAPER_RISK_PERCENT, 1),
+    feeRate: positiveNumber(env.PAPER_FEE_RATE, 0.0005),
+  };
+}
+
+export interface PositionSize {
+  quantity: number;   // Base asset units
+  riskAmount: number; // Loss at SL (before fees)
+  notional: number;   // quantity × entry
+}
+
+export function calculatePositionSize(balance: number, riskPercent: number, entryPrice: number, slPrice: number): PositionSize {
+  const riskPerUnit = Math.abs(entryPrice - slPrice);
+  const riskAmount = balance * riskPercent / 100;
+  if (riskPerUnit === 0 || riskAmount <= 0) {
+    return { quantity: 0, riskAmount: 0, notional: 0 };
+  }
+  const quantity = riskAmount / riskPerUnit;
+  return { quantity, riskAmount, notional: quantity * entryPrice };
+}
+
+export interface ExitFill {
+  percent: number; // % of the initial quantity
+  price: number;
+  reason: string;  // Signal status / level that produced the fill
+}
+
+export interface ExitPlanParams {
+  status: string;
+  previousClosed: number; // % of the initial quantity closed before this status change
+  customPercents?: { p1: number; p2: number; p3: number };
+  tp1Price: number;
+  tp2Price: number;
+  tp3Price: number | null;
+  exitPrice: number;      // Stop price for SL_HIT/BE_HIT, market price for TIMEOUT
+}
+
+/**
+ * Fills for a status change: every TP stage passed closes its share at its own price
+ * (OPEN → TP2_HIT in one candle = TP1 share at TP1 + TP2 share at TP2, same as pnl_r)
+ */
+export function planExitFills(params: ExitPlanParams): ExitFill[] {
+  const { status, previousClosed, customPercents } = params;
+  const stages = [
+    { status: 'TP1_HIT', closed: calculatePartialClosedPercent('TP1_HIT', previousClosed, customPercents), price: params.tp1Price },
+    { status: 'TP2_HIT', closed: calculatePartialClosedPercent('TP2_HIT', previousClosed, customPercents), price: params.tp2Price },
+    { status: 'TP3_HIT', closed: 100, price: params.tp3Price ?? params.tp2Price },
+  ];
+
+  const fills: ExitFill[] = [];
+  const stageIndex = stages.findIndex(stage => stage.status === status);
+  if (stageIndex >= 0) {
+    let closed = previousClosed;
+    for (const stage of stages.slice(0, stageIndex + 1)) {
+      if (stage.closed > closed) {
+        fills.push({ percent: stage.closed - closed, price: stage.price, reason: stage.status });
+        closed = stage.closed;
+      }
+    }
+    return fills;
+  }
+
+  const remaining = 100 - previousClosed;
+  if (remaining > 0 && calculatePartialClosedPercent(status, previousClosed, customPercents) === 100) {
+    fills.push({ percent: remaining, price: params.exitPrice, reason: status });
+  }
+  return fills;
+}
+
+export interface SettledFill {
+  quantity: number;
+  notional: number;
+  fee: number;
+  pnl: number; // Before fee
+}
+
+export function settleFill(
+  direction: 'LONG' | 'SHORT',
+  entryPrice: number,
+  initialQuantity: number,
+  fill: ExitFill,
+  feeRate: number
+): SettledFill {
+  const quantity = initialQuantity * fill.percent / 100;
+  const notional = quantity * fill.price;
+  const move = direction === 'LONG' ? fill.price - entryPrice : entryPrice - fill.price;
+  return { quantity, notional, fee: notional * feeRate, pnl: quantity * move };
+}
+
+export interface EquityPoint {
+  time: Date;
+  balance: number;
+  peak: number;
+  drawdownPct: number; // ≤ 0, from the running peak
+}
+
+export function buildEquityCurve(entries: Array<{ createdAt: Date; balance: number }>): EquityPoint[] {
+  let peak = -Infinity;
+  return entries.map(entry => {
+    peak = Math.max(peak, entry.balance);
+    return {
+      time: entry.createdAt,
+      balance: entry.balance,
+      peak,
+      drawdownPct: peak > 0 ? (entry.balance - peak) / peak * 100 : 0,
+    };
+  });
+}
+
+export function maxDrawdownPct(curve: EquityPoint[]): number {
+  return curve.reduce((worst, point) => Math.min(worst, point.drawdownPct), 0);
+}
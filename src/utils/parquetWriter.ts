@@ -0,0 +1,149 @@
+/**
+ * Parquet Writer - real Apache Parquet files from explicit column specs
+ *
+ * Rows are converted to an Arrow table with explicit column types, then encoded
+ * to Parquet by parquet-wasm (arrow-rs writer), so pandas/pyarrow/DuckDB can read them:
+ * - float64   → DOUBLE (Postgres decimals arrive as strings and are parsed here)
+ * - int32     → INT32
+ * - bool      → BOOLEAN
+ * - string    → UTF8
+ * - enum      → dictionary-encoded UTF8 (category in pandas)
+ * - timestamp → INT64 TIMESTAMP(MILLIS, UTC)
+ * - json      → UTF8 holding JSON.stringify(value)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as arrow from 'apache-arrow';
+import {
+  Table as WasmTable,
+  writeParquet,
+  readParquet,
+  WriterPropertiesBuilder,
+  Compression,
+} from 'parquet-wasm';
+
+export type ParquetColumnType = 'float64' | 'int32' | 'bool' | 'string' | 'enum' | 'timestamp' | 'json';
+
+export interface ParquetColumn<T> {
+  name: string;
+  type: ParquetColumnType;
+  value: (row: T) => unknown;
+}
+
+function arrowType(type: ParquetColumnType): arrow.DataType {
+  switch (type) {
+    case 'float64': return new arrow.Float64();
+    case 'int32': return new arrow.Int32();
+    case 'bool': return new arrow.Bool();
+    case 'string': return new arrow.Utf8();
+    case 'enum': return new arrow.Dictionary(new arrow.Utf8(), new arrow.Int32());
+    case 'timestamp': return new arrow.Timestamp(arrow.TimeUnit.MILLISECOND, 'UTC');
+    case 'json': return new arrow.Utf8();
+  }
+}
+
+/**
+ * Normalize a raw DB value to what the Arrow builder expects (null for missing/unparseable)
+ */
+export function coerceValue(type: ParquetColumnType, raw: unknown): number | string | boolean | null {
+  if (raw === null || raw === undefined) return null;
+
+  switch (type) {
+    case 'float64': {
+      const value = typeof raw === 'number' ? raw : parseFloat(String(raw));
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'int32': {
+      const value = typeof raw === 'number' ? raw : parseInt(String(raw), 10);
+      return Number.isFinite(value) ? Math.trunc(value) : null;
+    }
+    case 'bool':
+      return Boolean(raw);
+    case 'string':
+    case 'enum':
+      return String(raw);
+    case 'timestamp': {
+      const value = raw instanceof Date ? raw.getTime() : new Date(raw as string | number).getTime();
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'json':
+      return JSON.stringify(raw);
+  }
+}
+
+/**
+ * Plain records with export column names (used for CSV/JSON output of the same columns)
+ */
+export function toRecords<T>(columns: ParquetColumn<T>[], rows: T[]): Record<string, number | string | boolean | null>[] {
+  return rows.map(row => {
+    const record: Record<string, number | string | boolean | null> = {};
+    for (const column of columns) {
+      record[column.name] = coerceValue(column.type, column.value(row));
+    }
+    return record;
+  });
+}
+
+export function toArrowTable<T>(columns: ParquetColumn<T>[], rows: T[]): arrow.Table {
+  const vectors: Record<string, arrow.Vector> = {};
+  for (const column of columns) {
+    const values = rows.map(row => coerceValue(column.type, column.value(row)));
+    vectors[column.name] = arrow.vectorFromArray(values, arrowType(column.type));
+  }
+  return new arrow.Table(vectors);
+}
+
+/**
+ * Encode rows as a Parquet file (SNAPPY), metadata goes to the footer key-value metadata
+ */
+export function encodeParquet<T>(
+  columns: ParquetColumn<T>[],
+  rows: T[],
+  metadata: Record<string, string> = {}
+): Uint8Array {
+  const ipc = arrow.tableToIPC(toArrowTable(columns, rows), 'stream');
+  const properties = new WriterPropertiesBuilder()
+    .setCompression(Compression.SNAPPY)
+    .setCreatedBy('CandleSearchBot')
+    .setKeyValueMetadata(new Map(Object.entries(metadata)))
+    .build();
+
+  return writeParquet(WasmTable.fromIPCStream(ipc), properties);
+}
+
+/**
+ * Write rows to filePath (directories are created), returns file size in bytes
+ */
+export function writeParquetFile<T>(
+  filePath: string,
+  columns: ParquetColumn<T>[],
+  rows: T[],
+  metadata: Record<string, string> = {}
+): number {
+  const bytes = encodeParquet(columns, rows, metadata);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, bytes);
+  return bytes.length;
+}
+
+export function readParquetTable(bytes: Uint8Array): arrow.Table {
+  return arrow.tableFromIPC(readParquet(bytes).intoIPCStream());
+}
+
+/**
+ * Group rows by UTC day (YYYY-MM-DD) for Hive-style date=YYYY-MM-DD/ partitions
+ */
+export function partitionByDate<T>(rows: T[], dateOf: (row: T) => Date): Map<string, T[]> {
+  const partitions = new Map<string, T[]>();
+  for (const row of rows) {
+    const day = dateOf(row).toISOString().split('T')[0];
+    const bucket = partitions.get(day);
+    if (bucket) {
+      bucket.push(row);
+    } else {
+      partitions.set(day, [row]);
+    }
+  }
+  return partitions;
+}
@@ -0,0 +1,206 @@
+/**
+ * Engulfing - two-bar reversal, the second body engulfs the first
+ * (built-in pattern, moved from PatternDetector unchanged)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+// Параметры по таймфреймам (REMOVED minBodyATR - following professional standards)
+export const ENGULFING_TF_PARAMS = {
+  '15m': { gamma: 0.175, bodyRatio: 1.2 },
+  '1h':  { gamma: 0.15,  bodyRatio: 1.2 },
+  '4h':  { gamma: 0.125, bodyRatio: 1.1 },
+};
+
+// Закрытие Bar₂ в крайних 25% диапазона
+export const ENGULFING_EDGE_MAX = 0.25;
+
+export function detectEngulfing(candles: Candle[], timeframe?: string): PatternResult {
+  // Нужно минимум 6 свечей для 2-bar pattern + ATR
+  if (candles.length < 6) return { detected: false };
+
+  console.log(`\n🔍 [Engulfing] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const params = ENGULFING_TF_PARAMS[timeframe as keyof typeof ENGULFING_TF_PARAMS] || ENGULFING_TF_PARAMS['1h'];
+  const { gamma, bodyRatio } = params;
+  
+  const atr = calculateATR(candles, 5);
+  
+  console.log(`   📊 ATR=${atr.toFixed(8)}, γ=${gamma}, bodyRatio=${bodyRatio} (no ATR minimum)`);
+
+  // Bar₁ и Bar₂ (последние две ЗАКРЫТЫЕ свечи)
+  const Bar1 = analyzeCand(candles[candles.length - 2]); // C1 (поглощаемая, первая свеча паттерна)
+  const Bar2 = analyzeCand(candles[candles.length - 1]); // C0 (поглощающая, последняя ЗАКРЫТАЯ)
+  
+  console.log(`\n   🔎 Checking Engulfing:`);
+  console.log(`      Bar₁: O=${Bar1.open.toFixed(8)}, C=${Bar1.close.toFixed(8)}, B=${Bar1.body.toFixed(8)}, color=${Bar1.isGreen ? 'GREEN' : 'RED'}`);
+  console.log(`      Bar₂: O=${Bar2.open.toFixed(8)}, C=${Bar2.close.toFixed(8)}, H=${Bar2.high.toFixed(8)}, L=${Bar2.low.toFixed(8)}, B=${Bar2.body.toFixed(8)}, R=${Bar2.range.toFixed(8)}, color=${Bar2.isGreen ? 'GREEN' : 'RED'}`);
+
+  const EDGE_MAX = ENGULFING_EDGE_MAX;
+  
+  // Проверка импульсности Bar₂
+  // Professional standard: Only check body ratio, NO minimum ATR requirement
+  const bodyRatioActual = Bar1.body > 0 ? Bar2.body / Bar1.body : 0;
+  const bodyRatioOK = bodyRatioActual >= bodyRatio;
+  if (!bodyRatioOK) {
+    console.log(`   ❌ Body ratio too small: ${bodyRatioActual.toFixed(2)} < ${bodyRatio}`);
+    return { detected: false };
+  }
+  console.log(`   ✅ Body ratio OK: ${bodyRatioActual.toFixed(2)} >= ${bodyRatio} (ATR size filter REMOVED per pro standards)`);
+
+  // ========== LONG (бычье поглощение) ==========
+  // Цвет: Bar₁ RED, Bar₂ GREEN
+  // Поглощение: O₂ ≤ C₁ − γ·ATR, C₂ ≥ O₁ + γ·ATR
+  if (Bar1.isRed && Bar2.isGreen) {
+    const gammaBuffer = gamma * atr;
+    
+    // Проверка поглощения с запасом
+    const openEngulfsBottom = Bar2.open <= Bar1.close - gammaBuffer;
+    const closeEngulfsTop = Bar2.close >= Bar1.open + gammaBuffer;
+    
+    console.log(`   🔍 BUY candidate (цвет: RED→GREEN ✅):`);
+    console.log(`      O₂ ≤ C₁ − γ·ATR: ${Bar2.open.toFixed(8)} <= ${(Bar1.close - gammaBuffer).toFixed(8)} ${openEngulfsBottom ? '✅' : '❌'}`);
+    console.log(`      C₂ ≥ O₁ + γ·ATR: ${Bar2.close.toFixed(8)} >= ${(Bar1.open + gammaBuffer).toFixed(8)} ${closeEngulfsTop ? '✅' : '❌'}`);
+    
+    if (openEngulfsBottom && closeEngulfsTop) {
+      // Проверка закрытия у верха: (H₂ - C₂) / R₂ ≤ 0.25
+      const closeAtTopFraction = Bar2.range > 0 ? (Bar2.high - Bar2.close) / Bar2.range : 1;
+      const closeAtTopOK = closeAtTopFraction <= EDGE_MAX;
+      
+      console.log(`      Close at top: ${(closeAtTopFraction * 100).toFixed(1)}% <= ${(EDGE_MAX * 100).toFixed(1)}% ${closeAtTopOK ? '✅' : '❌'}`);
+      
+      if (closeAtTopOK) {
+        console.log(`   ✅✅ [Pattern] Engulfing BUY detected (RED→GREEN с γ-запасом)`);
+        
+        // 📊 SCORING (0-10): Engulfing BUY
+        let score = 5; // Base score
+        
+        // 1. Full engulfment (Bar2 fully covers Bar1 range)
+        const fullEngulfment = Bar2.low <= Bar1.low && Bar2.high >= Bar1.high;
+        if (fullEngulfment) {
+          score += 2;
+          console.log(`   📊 [Score] Full range engulfment (Bar2 covers Bar1 completely): +2 points`);
+        }
+        
+        // 2. Engulfing strength (Bar2 body ≥2x Bar1 body)
+        const bodyRatioActual = Bar1.body > 0 ? Bar2.body / Bar1.body : 10;
+        if (bodyRatioActual >= 2.0) {
+          score += 1;
+          console.log(`   📊 [Score] Strong engulfing ${bodyRatioActual.toFixed(2)}x body ≥ 2.0: +1 point`);
+        }
+        
+        // 3. Clean structure (Bar2 has small wicks)
+        const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
+        if (bar2TotalWicks < 0.3) {
+          score += 1;
+          console.log(`   📊 [Score] Clean structure wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
+        }
+        
+        // 4. Body dominance (Bar2 body ≥80% of range)
+        const bodyDominance = Bar2.body / Bar2.range;
+        if (bodyDominance >= 0.8) {
+          score += 1;
+          console.log(`   📊 [Score] Body dominance ${(bodyDominance*100).toFixed(1)}% ≥ 80%: +1 point`);
+        }
+        
+        // Cap at 10
+        score = Math.min(score, 10);
+        console.log(`📊 [Pattern Score] ENGULFING_BUY: ${score}/10`);
+        
+        return {
+          detected: true,
+          type: 'engulfing_buy',
+          direction: 'LONG',
+          entryPrice: Bar2.close,
+          candleClosePrice: Bar2.close,
+          score,
+        };
+      }
+    }
+  }
+
+  // ========== SHORT (медвежье поглощение) ==========
+  // Цвет: Bar₁ GREEN, Bar₂ RED
+  // Поглощение: O₂ ≥ C₁ + γ·ATR, C₂ ≤ O₁ − γ·ATR
+  if (Bar1.isGreen && Bar2.isRed) {
+    const gammaBuffer = gamma * atr;
+    
+    // Проверка поглощения с запасом
+    const openEngulfsTop = Bar2.open >= Bar1.close + gammaBuffer;
+    const closeEngulfsBottom = Bar2.close <= Bar1.open - gammaBuffer;
+    
+    console.log(`   🔍 SELL candidate (цвет: GREEN→RED ✅):`);
+    console.log(`      O₂ ≥ C₁ + γ·ATR: ${Bar2.open.toFixed(8)} >= ${(Bar1.close + gammaBuffer).toFixed(8)} ${openEngulfsTop ? '✅' : '❌'}`);
+    console.log(`      C₂ ≤ O₁ − γ·ATR: ${Bar2.close.toFixed(8)} <= ${(Bar1.open - gammaBuffer).toFixed(8)} ${closeEngulfsBottom ? '✅' : '❌'}`);
+    
+    if (openEngulfsTop && closeEngulfsBottom) {
+      // Проверка закрытия у низа: (C₂ - L₂) / R₂ ≤ 0.25
+      const closeAtBottomFraction = Bar2.range > 0 ? (Bar2.close - Bar2.low) / Bar2.range : 1;
+      const closeAtBottomOK = closeAtBottomFraction <= EDGE_MAX;
+      
+      console.log(`      Close at bottom: ${(closeAtBottomFraction * 100).toFixed(1)}% <= ${(EDGE_MAX * 100).toFixed(1)}% ${closeAtBottomOK ? '✅' : '❌'}`);
+      
+      if (closeAtBottomOK) {
+        console.log(`   ✅✅ [Pattern] Engulfing SELL detected (GREEN→RED с γ-запасом)`);
+        
+        // 📊 SCORING (0-10): Engulfing SELL
+        let score = 5; // Base score
+        
+        // 1. Full engulfment (Bar2 fully covers Bar1 range)
+        const fullEngulfment = Bar2.low <= Bar1.low && Bar2.high >= Bar1.high;
+        if (fullEngulfment) {
+          score += 2;
+          console.log(`   📊 [Score] Full range engulfment (Bar2 covers Bar1 completely): +2 points`);
+        }
+        
+        // 2. Engulfing strength (Bar2 body ≥2x Bar1 body)
+        const bodyRatioActual = Bar1.body > 0 ? Bar2.body / Bar1.body : 10;
+        if (bodyRatioActual >= 2.0) {
+          score += 1;
+          console.log(`   📊 [Score] Strong engulfing ${bodyRatioActual.toFixed(2)}x body ≥ 2.0: +1 point`);
+        }
+        
+        // 3. Clean structure (Bar2 has small wicks)
+        const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
+        if (bar2TotalWicks < 0.3) {
+          score += 1;
+          console.log(`   📊 [Score] Clean structure wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
+        }
+        
+        // 4. Body dominance (Bar2 body ≥80% of range)
+        const bodyDominance = Bar2.body / Bar2.range;
+        if (bodyDominance >= 0.8) {
+          score += 1;
+          console.log(`   📊 [Score] Body dominance ${(bodyDominance*100).toFixed(1)}% ≥ 80%: +1 point`);
+        }
+        
+        // Cap at 10
+        score = Math.min(score, 10);
+        console.log(`📊 [Pattern Score] ENGULFING_SELL: ${score}/10`);
+        
+        return {
+          detected: true,
+          type: 'engulfing_sell',
+          direction: 'SHORT',
+          entryPrice: Bar2.close,
+          candleClosePrice: Bar2.close,
+          score,
+        };
+      }
+    }
+  }
+
+  return { detected: false };
+}
+
+export const engulfingPattern: PatternModule = {
+  name: 'engulfing',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectEngulfing(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
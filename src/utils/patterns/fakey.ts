@@ -0,0 +1,204 @@
+/**
+ * Fakey - inside bar(s) after a mother bar, false break of the mother bar range and close back inside
+ * (built-in pattern, moved from PatternDetector unchanged)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+// Параметры по таймфреймам (REMOVED minMBSize - following professional standards)
+export const FAKEY_TF_PARAMS = {
+  '15m': { epsilon: 0.225, maxConfirmBars: 2 },
+  '1h':  { epsilon: 0.175, maxConfirmBars: 3 },
+  '4h':  { epsilon: 0.125, maxConfirmBars: 3 },
+};
+
+export function detectFakey(candles: Candle[], timeframe?: string): PatternResult {
+  // Нужно минимум 6 свечей: MB + IB(s) + FB + ATR расчет
+  if (candles.length < 6) return { detected: false };
+
+  console.log(`\n🔍 [Fakey] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const params = FAKEY_TF_PARAMS[timeframe as keyof typeof FAKEY_TF_PARAMS] || FAKEY_TF_PARAMS['1h'];
+  const { epsilon, maxConfirmBars } = params;
+  
+  const atr = calculateATR(candles, 5);
+  
+  console.log(`   📊 ATR=${atr.toFixed(8)}, ε=${epsilon} (no MB size minimum)`);
+
+  // Пробуем разные варианты: MB + 1 IB, MB + 2 IB
+  for (let numIB = 1; numIB <= 2; numIB++) {
+    const requiredBars = 1 + numIB + 1; // MB + IB(s) + FB
+    if (candles.length < requiredBars) continue;
+
+    // MB = материнская свеча (последняя закрытая минус requiredBars)
+    const MB = analyzeCand(candles[candles.length - requiredBars]);
+    
+    // IB = inside bar(s) - свечи полностью внутри MB
+    const IBs: ReturnType<typeof analyzeCand>[] = [];
+    let allInside = true;
+    
+    for (let i = 1; i <= numIB; i++) {
+      const IB = analyzeCand(candles[candles.length - requiredBars + i]);
+      if (IB.high > MB.high || IB.low < MB.low) {
+        allInside = false;
+        break;
+      }
+      IBs.push(IB);
+    }
+    
+    if (!allInside) continue;
+    
+    // FB = свеча ложного пробоя (последняя ЗАКРЫТАЯ свеча)
+    const FB = analyzeCand(candles[candles.length - 1]);
+    
+    // Диапазон всех IB
+    const IBHigh = Math.max(...IBs.map(ib => ib.high));
+    const IBLow = Math.min(...IBs.map(ib => ib.low));
+    
+    console.log(`\n   🔎 Checking structure: MB + ${numIB} IB + FB`);
+    console.log(`      MB: H=${MB.high.toFixed(8)}, L=${MB.low.toFixed(8)}, Range=${MB.range.toFixed(8)}`);
+    console.log(`      IB: H=${IBHigh.toFixed(8)}, L=${IBLow.toFixed(8)}`);
+    console.log(`      FB: H=${FB.high.toFixed(8)}, L=${FB.low.toFixed(8)}, C=${FB.close.toFixed(8)}`);
+
+    // Professional standard: NO minimum MB size requirement, rely on structure clarity
+    console.log(`   ✅ MB structure check: Range=${MB.range.toFixed(8)} (ATR size filter REMOVED per pro standards)`);
+
+    // ========== LONG FAKEY ==========
+    // FB пробивает вниз (ложный пробой low IB), но закрывается обратно
+    const fbProbeBelowIB = FB.low < IBLow;
+    const fbProbeDepth = IBLow - FB.low;
+    const fbProbeOK = fbProbeDepth >= epsilon * atr;
+    const fbCloseBackInMB = FB.close >= MB.low && FB.close <= MB.high;
+    
+    if (fbProbeBelowIB && fbProbeOK && fbCloseBackInMB) {
+      // Подтверждение: FB закрылся выше IBHigh (пробой противоположного края)
+      const confirmedLong = FB.close > IBHigh;
+      
+      console.log(`   🔍 LONG candidate: probe=${fbProbeDepth.toFixed(8)} (need ${(epsilon * atr).toFixed(8)}), closeBack=${fbCloseBackInMB}, confirm=${confirmedLong}`);
+      
+      if (confirmedLong) {
+        console.log(`   ✅✅ [Pattern] Fakey BUY detected (цвет НЕ важен, ${numIB} IB)`);
+        
+        // 📊 SCORING (0-10): Fakey BUY
+        let score = 6; // Base score
+        
+        // 1. Mother bar size relative to ATR (≥1.5 ATR = +1 point)
+        const mbToAtrRatio = MB.range / atr;
+        if (mbToAtrRatio >= 1.5) {
+          score += 1;
+          console.log(`   📊 [Score] MB size ${mbToAtrRatio.toFixed(2)}x ATR ≥ 1.5: +1 point`);
+        }
+        
+        // 2. Inside bar tightness (already guaranteed by detection, but reward tighter IB)
+        const ibTightness = (IBHigh - IBLow) / MB.range;
+        if (ibTightness < 0.5) {
+          score += 1;
+          console.log(`   📊 [Score] IB tightness ${(ibTightness*100).toFixed(1)}% < 50%: +1 point`);
+        }
+        
+        // 3. False break distance (significant move outside MB, check probe depth)
+        const probePercent = fbProbeDepth / (epsilon * atr);
+        if (probePercent >= 1.5) {
+          score += 1;
+          console.log(`   📊 [Score] Strong false break ${probePercent.toFixed(2)}x epsilon: +1 point`);
+        }
+        
+        // 4. Clean rejection (close beyond opposite boundary = strong)
+        const closeAboveIBRange = (FB.close - IBHigh) / (IBHigh - IBLow || 1);
+        if (closeAboveIBRange >= 0.3) {
+          score += 1;
+          console.log(`   📊 [Score] Strong rejection close ${(closeAboveIBRange*100).toFixed(1)}% beyond IB: +1 point`);
+        }
+        
+        // Cap at 10
+        score = Math.min(score, 10);
+        console.log(`📊 [Pattern Score] FAKEY_BUY: ${score}/10`);
+        
+        return {
+          detected: true,
+          type: 'fakey_buy',
+          direction: 'LONG',
+          entryPrice: FB.close,
+          candleClosePrice: FB.close,
+          score,
+        };
+      }
+    }
+
+    // ========== SHORT FAKEY ==========
+    // FB пробивает вверх (ложный пробой high IB), но закрывается обратно
+    const fbProbeAboveIB = FB.high > IBHigh;
+    const fbProbeDepthShort = FB.high - IBHigh;
+    const fbProbeOKShort = fbProbeDepthShort >= epsilon * atr;
+    const fbCloseBackInMBShort = FB.close >= MB.low && FB.close <= MB.high;
+    
+    if (fbProbeAboveIB && fbProbeOKShort && fbCloseBackInMBShort) {
+      // Подтверждение: FB закрылся ниже IBLow (пробой противоположного края)
+      const confirmedShort = FB.close < IBLow;
+      
+      console.log(`   🔍 SHORT candidate: probe=${fbProbeDepthShort.toFixed(8)} (need ${(epsilon * atr).toFixed(8)}), closeBack=${fbCloseBackInMBShort}, confirm=${confirmedShort}`);
+      
+      if (confirmedShort) {
+        console.log(`   ✅✅ [Pattern] Fakey SELL detected (цвет НЕ важен, ${numIB} IB)`);
+        
+        // 📊 SCORING (0-10): Fakey SELL
+        let score = 6; // Base score
+        
+        // 1. Mother bar size relative to ATR (≥1.5 ATR = +1 point)
+        const mbToAtrRatio = MB.range / atr;
+        if (mbToAtrRatio >= 1.5) {
+          score += 1;
+          console.log(`   📊 [Score] MB size ${mbToAtrRatio.toFixed(2)}x ATR ≥ 1.5: +1 point`);
+        }
+        
+        // 2. Inside bar tightness (already guaranteed by detection, but reward tighter IB)
+        const ibTightness = (IBHigh - IBLow) / MB.range;
+        if (ibTightness < 0.5) {
+          score += 1;
+          console.log(`   📊 [Score] IB tightness ${(ibTightness*100).toFixed(1)}% < 50%: +1 point`);
+        }
+        
+        // 3. False break distance (significant move outside MB, check probe depth)
+        const probePercent = fbProbeDepthShort / (epsilon * atr);
+        if (probePercent >= 1.5) {
+          score += 1;
+          console.log(`   📊 [Score] Strong false break ${probePercent.toFixed(2)}x epsilon: +1 point`);
+        }
+        
+        // 4. Clean rejection (close beyond opposite boundary = strong)
+        const closeBelowIBRange = (IBLow - FB.close) / (IBHigh - IBLow || 1);
+        if (closeBelowIBRange >= 0.3) {
+          score += 1;
+          console.log(`   📊 [Score] Strong rejection close ${(closeBelowIBRange*100).toFixed(1)}% beyond IB: +1 point`);
+        }
+        
+        // Cap at 10
+        score = Math.min(score, 10);
+        console.log(`📊 [Pattern Score] FAKEY_SELL: ${score}/10`);
+        
+        return {
+          detected: true,
+          type: 'fakey_sell',
+          direction: 'SHORT',
+          entryPrice: FB.close,
+          candleClosePrice: FB.close,
+          score,
+        };
+      }
+    }
+  }
+
+  return { detected: false };
+}
+
+export const fakeyPattern: PatternModule = {
+  name: 'fakey',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectFakey(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
@@ -0,0 +1,34 @@
+/**
+ * Pattern modules: built-in registry + detector used by the Scanner and the Backtester
+ *
+ * New setup = new file exporting a PatternModule, registered here (after the built-ins: detection order
+ * is registration order).
+ */
+
+import { PatternRegistry } from './registry';
+import { PatternDetector } from './patternDetector';
+import { pinBarPattern } from './pinBar';
+import { fakeyPattern } from './fakey';
+import { pprPattern } from './ppr';
+import { engulfingPattern } from './engulfing';
+import { insideBarPattern } from './insideBar';
+import { starPattern } from './star';
+import { threeBarPattern } from './threeBar';
+import { tweezerPattern } from './tweezer';
+
+export * from './types';
+export { PatternRegistry, getPatternConfig, isPatternEnabled, type PatternConfig } from './registry';
+export { PatternDetector } from './patternDetector';
+export { defaultPatternScore } from './scoring';
+
+export const patternRegistry = new PatternRegistry()
+  .register(pinBarPattern)
+  .register(fakeyPattern)
+  .register(pprPattern)
+  .register(engulfingPattern)
+  .register(insideBarPattern)
+  .register(starPattern)
+  .register(threeBarPattern)
+  .register(tweezerPattern);
+
+export const patternDetector = new PatternDetector(patternRegistry);
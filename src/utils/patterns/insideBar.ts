@@ -0,0 +1,95 @@
+/**
+ * Inside Bar Breakout - mother bar, inside bar (range inside the mother bar), breakout bar closing
+ * beyond the inside bar by γ·ATR near its extreme
+ * LONG: breakout up, SHORT: breakout down; stop beyond the inside bar (riskCalculator: C0/C1 extreme)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type CandleMetrics, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+const GAMMA = 0.1;      // Close beyond the inside bar by γ·ATR
+const EDGE_MAX = 0.3;   // Close in the outer 30% of the breakout bar range
+const MIN_BODY = 0.5;   // Breakout bar body ≥ 50% of its range
+
+function scoreBreakout(MB: CandleMetrics, IB: CandleMetrics, B: CandleMetrics, atr: number, isLong: boolean): number {
+  let score = 5; // Base score
+
+  // 1. Close beyond the mother bar (breakout of the whole consolidation)
+  if (isLong ? B.close > MB.high : B.close < MB.low) {
+    score += 2;
+    console.log(`   📊 [Score] Close beyond mother bar: +2 points`);
+  }
+
+  // 2. Tight inside bar (≤50% of the mother bar range)
+  if (MB.range > 0 && IB.range / MB.range <= 0.5) {
+    score += 1;
+    console.log(`   📊 [Score] Tight inside bar ${(IB.range / MB.range * 100).toFixed(1)}% of MB: +1 point`);
+  }
+
+  // 3. Body dominance of the breakout bar (≥70% of range)
+  if (B.range > 0 && B.body / B.range >= 0.7) {
+    score += 1;
+    console.log(`   📊 [Score] Breakout body ${(B.body / B.range * 100).toFixed(1)}% ≥ 70%: +1 point`);
+  }
+
+  // 4. Impulse: breakout range ≥ 1 ATR
+  if (atr > 0 && B.range >= atr) {
+    score += 1;
+    console.log(`   📊 [Score] Breakout range ${(B.range / atr).toFixed(2)} ATR ≥ 1: +1 point`);
+  }
+
+  return Math.min(score, 10);
+}
+
+export function detectInsideBarBreakout(candles: Candle[], timeframe?: string): PatternResult {
+  if (candles.length < 6) return { detected: false };
+
+  console.log(`\n🔍 [Inside Bar] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const atr = calculateATR(candles, 5);
+  const MB = analyzeCand(candles[candles.length - 3]); // Mother bar
+  const IB = analyzeCand(candles[candles.length - 2]); // Inside bar
+  const B = analyzeCand(candles[candles.length - 1]);  // Breakout bar (последняя ЗАКРЫТАЯ)
+
+  const isInside = IB.high < MB.high && IB.low > MB.low;
+  if (!isInside) {
+    console.log(`   ❌ No inside bar: IB H=${IB.high.toFixed(8)} L=${IB.low.toFixed(8)} vs MB H=${MB.high.toFixed(8)} L=${MB.low.toFixed(8)}`);
+    return { detected: false };
+  }
+  if (B.range <= 0 || B.body / B.range < MIN_BODY) {
+    console.log(`   ❌ Breakout bar body too small: ${B.range > 0 ? (B.body / B.range * 100).toFixed(1) : '0'}% < ${MIN_BODY * 100}%`);
+    return { detected: false };
+  }
+
+  const buffer = GAMMA * atr;
+
+  // ========== LONG: пробой inside bar вверх ==========
+  if (B.isGreen && B.close >= IB.high + buffer && (B.high - B.close) / B.range <= EDGE_MAX) {
+    console.log(`   ✅✅ [Pattern] Inside Bar Breakout BUY detected (C=${B.close.toFixed(8)} > IB high ${IB.high.toFixed(8)} + γ·ATR)`);
+    const score = scoreBreakout(MB, IB, B, atr, true);
+    console.log(`📊 [Pattern Score] INSIDEBAR_BUY: ${score}/10`);
+    return { detected: true, type: 'insidebar_buy', direction: 'LONG', entryPrice: B.close, candleClosePrice: B.close, score };
+  }
+
+  // ========== SHORT: пробой inside bar вниз ==========
+  if (B.isRed && B.close <= IB.low - buffer && (B.close - B.low) / B.range <= EDGE_MAX) {
+    console.log(`   ✅✅ [Pattern] Inside Bar Breakout SELL detected (C=${B.close.toFixed(8)} < IB low ${IB.low.toFixed(8)} - γ·ATR)`);
+    const score = scoreBreakout(MB, IB, B, atr, false);
+    console.log(`📊 [Pattern Score] INSIDEBAR_SELL: ${score}/10`);
+    return { detected: true, type: 'insidebar_sell', direction: 'SHORT', entryPrice: B.close, candleClosePrice: B.close, score };
+  }
+
+  console.log(`   ❌ Inside bar without a qualifying breakout`);
+  return { detected: false };
+}
+
+export const insideBarPattern: PatternModule = {
+  name: 'insidebar',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectInsideBarBreakout(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
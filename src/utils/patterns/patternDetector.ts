@@ -0,0 +1,159 @@
+/**
+ * Pattern Detector - runs the enabled pattern modules of a PatternRegistry on the last closed candles
+ *
+ * Shared pipeline: volume filter → detect → trend gating (module trendRule) → S/R zone bonus / requirement
+ * (module zoneRule) → module score → accept at minScore (default 50).
+ */
+
+import type { Candle } from '../binanceClient';
+import {
+  analyzeSRZonesTV,
+  analyzeTrend,
+  getDistanceToZone,
+  isVolumeAboveAverage,
+  type PatternResult,
+} from '../candleAnalyzer';
+import { getPatternConfig, type PatternConfig, type PatternRegistry } from './registry';
+
+export const DEFAULT_MIN_SCORE = 50;
+
+export class PatternDetector {
+  constructor(
+    private registry: PatternRegistry,
+    private config: PatternConfig = getPatternConfig()
+  ) {}
+
+  detectAllPatterns(candles: Candle[], timeframe?: string): PatternResult[] {
+    console.log(`\n🔍 [Pattern Detection] Starting pattern detection with ${candles.length} candles (TF: ${timeframe || 'unknown'})`);
+
+    const results: PatternResult[] = [];
+
+    // Анализ тренда (EMA 50/200) - используем timeframe-aware пороги
+    const trend = analyzeTrend(candles, timeframe || '15m');
+
+    // Анализ S/R зон (TradingView алгоритм)
+    const srAnalysis = analyzeSRZonesTV(candles);
+
+    // Проверка объема
+    const hasGoodVolume = isVolumeAboveAverage(candles);
+    if (!hasGoodVolume) {
+      console.log(`❌ [Filter] REJECTED - Volume below average, skipping all patterns`);
+      return results;
+    }
+
+    // Детектируем паттерны и оцениваем их (модули реестра, включённые для этого TF)
+    const modules = this.registry.getEnabled(timeframe, this.config)
+      .filter(module => candles.length >= module.minCandles);
+
+    for (const module of modules) {
+      const pattern = module.detect(candles, timeframe);
+      if (!pattern.detected || !pattern.direction || !pattern.entryPrice) continue;
+
+      // Добавляем S/R анализ к паттерну
+      pattern.srAnalysis = srAnalysis;
+
+      // === SCORING SYSTEM ===
+      let score = 0;
+      const patternName = pattern.type?.replace('_buy', '').replace('_sell', '').toUpperCase();
+
+      console.log(`\n💯 [Scoring] ${patternName} ${pattern.direction}:`);
+
+      // ⛔ СТРОГАЯ ФИЛЬТРАЦИЯ ПО ТРЕНДУ (trendRule = with_trend, все встроенные паттерны)
+      if (module.trendRule === 'with_trend') {
+        // 1. БЛОКИРУЕМ сигналы в NEUTRAL зоне (ranging/переходный рынок)
+        if (trend.isNeutral) {
+          console.log(`   ⛔ TREND GATING: REJECT - NEUTRAL market (ranging/transition), no clear trend`);
+          console.log(`      Price=${trend.currentPrice.toFixed(2)}, EMA50=${trend.ema50.toFixed(2)}, EMA200=${trend.ema200.toFixed(2)}\n`);
+          continue;
+        }
+
+        // 2. БЛОКИРУЕМ контр-трендовые сигналы
+        const isCounterTrend =
+          (pattern.direction === 'LONG' && trend.isDowntrend) ||
+          (pattern.direction === 'SHORT' && trend.isUptrend);
+
+        if (isCounterTrend) {
+          console.log(`   ⛔ TREND GATING: REJECT - ${pattern.direction} сигнал ПРОТИВ тренда (Price=${trend.currentPrice.toFixed(2)}, EMA50=${trend.ema50.toFixed(2)}, EMA200=${trend.ema200.toFixed(2)})`);
+          console.log(`      Uptrend=${trend.isUptrend}, Downtrend=${trend.isDowntrend}\n`);
+          continue;
+        }
+
+        console.log(`   ✅ TREND CHECK: Passed - ${pattern.direction} aligned with market trend`);
+      }
+
+      // 📊 S/R ЗОНЫ - бонус (zoneRule = bonus) или обязательное условие (zoneRule = required)
+      const distanceToSupport = getDistanceToZone(pattern.entryPrice, srAnalysis.nearestSupport);
+      const distanceToResistance = getDistanceToZone(pattern.entryPrice, srAnalysis.nearestResistance);
+
+      // Цена "у зоны" = расстояние < 0.5% ИЛИ внутри зоны (distance = 0)
+      const isNearSupport = distanceToSupport !== null && distanceToSupport <= 0.005;
+      const isNearResistance = distanceToResistance !== null && distanceToResistance <= 0.005;
+      const isNearDirectionalZone =
+        (pattern.direction === 'LONG' && isNearSupport) ||
+        (pattern.direction === 'SHORT' && isNearResistance);
+
+      // Логирование S/R зон с границами (информационно)
+      if (srAnalysis.nearestSupport) {
+        const zone = srAnalysis.nearestSupport;
+        console.log(`   📍 Support ZONE: ${zone.lower.toFixed(4)} - ${zone.upper.toFixed(4)} (center: ${zone.price.toFixed(4)}, ${zone.touches} touches)`);
+        console.log(`      Distance: ${distanceToSupport !== null ? (distanceToSupport * 100).toFixed(2) + '%' : 'N/A'}`);
+      }
+      if (srAnalysis.nearestResistance) {
+        const zone = srAnalysis.nearestResistance;
+        console.log(`   📍 Resistance ZONE: ${zone.lower.toFixed(4)} - ${zone.upper.toFixed(4)} (center: ${zone.price.toFixed(4)}, ${zone.touches} touches)`);
+        console.log(`      Distance: ${distanceToResistance !== null ? (distanceToResistance * 100).toFixed(2) + '%' : 'N/A'}`);
+      }
+
+      if (module.zoneRule === 'required' && !isNearDirectionalZone) {
+        console.log(`   ⛔ ZONE GATING: REJECT - ${pattern.direction} не у ${pattern.direction === 'LONG' ? 'Support' : 'Resistance'} зоны\n`);
+        continue;
+      }
+
+      // 🎁 БОНУСНЫЙ SCORING: даем +100 если паттерн возле правильной зоны, но НЕ ОТКЛОНЯЕМ если далеко
+      const components: Record<string, number> = {};
+      if (module.zoneRule !== 'none') {
+        if (pattern.direction === 'LONG' && isNearSupport) {
+          score += 100;
+          console.log(`   ✅ S/R BONUS: +100 (LONG возле Support зоны)`);
+        } else if (pattern.direction === 'SHORT' && isNearResistance) {
+          score += 100;
+          console.log(`   ✅ S/R BONUS: +100 (SHORT возле Resistance зоны)`);
+        } else {
+          console.log(`   ⚪ S/R BONUS: +0 (паттерн вне S/R зон - OK, не отклоняем!)`);
+        }
+        components.zone = score;
+      }
+
+      // 2️⃣-4️⃣ Оценка качества модуля (встроенные: тренд, объём, резкое движение)
+      const moduleComponents: Record<string, number> = {};
+      const moduleScore = module.score({
+        pattern: { ...pattern, direction: pattern.direction, entryPrice: pattern.entryPrice },
+        candles,
+        trend,
+        timeframe,
+        components: moduleComponents,
+      });
+      score += moduleScore;
+
+      // === ИТОГОВАЯ ОЦЕНКА ===
+      pattern.score = score;
+      pattern.scoreComponents = Object.keys(moduleComponents).length > 0
+        ? { ...components, ...moduleComponents }
+        : { ...components, quality: moduleScore };
+      console.log(`   🎯 ИТОГО: ${score} баллов`);
+
+      const minScore = module.minScore ?? DEFAULT_MIN_SCORE;
+
+      if (score >= minScore) {
+        const quality = score >= 150 ? '⭐⭐⭐ PREMIUM' : '⭐⭐ GOOD';
+        console.log(`   ✅ ${quality} - сигнал ПРИНЯТ!\n`);
+        results.push(pattern);
+      } else {
+        console.log(`   ❌ ОТКЛОНЕН (score < ${minScore})\n`);
+      }
+    }
+
+    console.log(`📊 [Pattern Detection] Total patterns passed filters: ${results.length}`);
+    return results;
+  }
+}
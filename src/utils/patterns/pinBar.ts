@@ -0,0 +1,220 @@
+/**
+ * Pin Bar - single-candle rejection: long tail protruding beyond the recent highs / lows, close back inside
+ * (built-in pattern, moved from PatternDetector unchanged)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+// Параметры пинбара и "выступания" хвоста (Pine inputs генерируются отсюда: src/scripts/pineInputs.ts)
+export const PIN_BAR_PARAMS = {
+  BODY_MAX_FRACTION: 0.33,
+  EDGE_THRESHOLD: 0.25,
+  TAIL_BODY_RATIO_MIN: 2.0,
+  LONG_TAIL_RANGE_MIN: 0.66, // Softened from 0.60 for 15m (66% tail ratio)
+  OPP_TAIL_RANGE_MAX: 0.20,
+  OPP_TAIL_BODY_MAX: 0.50,
+  ATR_LOOKBACK: 5,
+  ATR_EPSILON: 0.10, // 10% от ATR
+  TAIL_LOOKBACK: 5,
+};
+
+export function detectPinBar(candles: Candle[]): PatternResult {
+  // Нужно минимум 6 свечей для ATR и проверки "выступания"
+  if (candles.length < 6) return { detected: false };
+
+  // Анализируем последнюю ЗАКРЫТУЮ свечу (Binance API уже исключает формирующуюся свечу)
+  const lastCandleRaw = candles[candles.length - 1];
+  const C0 = analyzeCand(lastCandleRaw);
+  
+  // LOG: ДЕТАЛЬНАЯ ИНФОРМАЦИЯ О СВЕЧЕ
+  console.log(`\n🔍 [Pinbar] Analyzing LAST candle (index ${candles.length - 1}):`);
+  console.log(`   Time: ${new Date(lastCandleRaw.openTime).toISOString()} - ${new Date(lastCandleRaw.closeTime).toISOString()}`);
+  console.log(`   RAW OHLC: O=${lastCandleRaw.open}, H=${lastCandleRaw.high}, L=${lastCandleRaw.low}, C=${lastCandleRaw.close}`);
+  console.log(`   Entry will be: ${C0.close}`);
+  
+  // Базовые обозначения
+  const R = C0.range; // H - L
+  const B = C0.body;  // abs(C - O)
+  const U = C0.upperWick; // H - max(O, C)
+  const D = C0.lowerWick; // min(O, C) - L
+  
+  // Пропускаем свечи с нулевым диапазоном
+  if (R === 0) {
+    console.log(`⏭️ [Pinbar] Skipped: zero range`);
+    return { detected: false };
+  }
+  
+  const {
+    BODY_MAX_FRACTION,
+    EDGE_THRESHOLD,
+    TAIL_BODY_RATIO_MIN,
+    LONG_TAIL_RANGE_MIN,
+    OPP_TAIL_RANGE_MAX,
+    OPP_TAIL_BODY_MAX,
+    ATR_LOOKBACK,
+    ATR_EPSILON,
+    TAIL_LOOKBACK,
+  } = PIN_BAR_PARAMS;
+  
+  const atr = calculateATR(candles, ATR_LOOKBACK);
+  
+  console.log(`\n🔍 [Pinbar] Analyzing C0: R=${R.toFixed(8)}, B=${B.toFixed(8)}, U=${U.toFixed(8)}, D=${D.toFixed(8)}, ATR=${atr.toFixed(8)}`);
+  
+  // ========== ЛОНГ ПИНБАР (нижний хвост) ==========
+  const bodyMaxLong = B <= BODY_MAX_FRACTION * R;
+  const bodyAtTopLong = U / R <= EDGE_THRESHOLD;
+  const longTailBodyLong = D >= TAIL_BODY_RATIO_MIN * B;
+  const longTailRangeLong = D >= LONG_TAIL_RANGE_MIN * R;
+  const oppTailShortLong = U <= Math.min(OPP_TAIL_RANGE_MAX * R, OPP_TAIL_BODY_MAX * B);
+  
+  if (bodyMaxLong && bodyAtTopLong && longTailBodyLong && longTailRangeLong && oppTailShortLong) {
+    console.log(`   ✅ Geometry LONG: body=${(B/R*100).toFixed(1)}%, bodyAtTop=${(U/R*100).toFixed(1)}%, tailVsBody=${(D/B).toFixed(2)}x, tailVsRange=${(D/R*100).toFixed(1)}%, oppTail=${(U/R*100).toFixed(1)}%`);
+    
+    // Проверка "выступания" нижнего хвоста (берем 5 свечей ПЕРЕД C0)
+    const recentLows = candles.slice(-TAIL_LOOKBACK - 1, -1).map(c => Number(c.low));
+    const minRecentLow = Math.min(...recentLows);
+    const tailProtrusion = C0.low <= minRecentLow - ATR_EPSILON * atr;
+    
+    console.log(`   🔎 Tail protrusion check: C0.low=${C0.low.toFixed(8)}, minLow(${TAIL_LOOKBACK})=${minRecentLow.toFixed(8)}, threshold=${(minRecentLow - ATR_EPSILON * atr).toFixed(8)}`);
+    
+    if (tailProtrusion) {
+      console.log(`   ✅✅ [Pattern] Pin Bar BUY detected (цвет НЕ важен, хвост выступает)`);
+      console.log(`   🎯 RETURNING Entry=${C0.close}, CandleClose=${C0.close}`);
+      
+      // 📊 SCORING (0-10): Pin Bar BUY
+      let score = 5; // Base score
+      
+      // 1. Tail/body ratio
+      const tailBodyRatio = B > 0 ? D / B : 10; // Very small body = high ratio
+      if (tailBodyRatio >= 3.0) {
+        score += 2;
+        console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 3.0: +2 points`);
+      } else if (tailBodyRatio >= 2.0) {
+        score += 1;
+        console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 2.0: +1 point`);
+      }
+      
+      // 2. Clean opposite wick (upper wick should be <10% of range)
+      const oppWickPercent = U / R;
+      if (oppWickPercent < 0.10) {
+        score += 1;
+        console.log(`   📊 [Score] Clean opposite wick ${(oppWickPercent*100).toFixed(1)}% < 10%: +1 point`);
+      }
+      
+      // 3. Body <25% of range
+      const bodyPercent = B / R;
+      if (bodyPercent < 0.25) {
+        score += 1;
+        console.log(`   📊 [Score] Small body ${(bodyPercent*100).toFixed(1)}% < 25%: +1 point`);
+      }
+      
+      // 4. Body at edge (upper edge for LONG pinbar)
+      const bodyFromTop = U / R;
+      if (bodyFromTop < 0.25) {
+        score += 1;
+        console.log(`   📊 [Score] Body at edge ${(bodyFromTop*100).toFixed(1)}% from top < 25%: +1 point`);
+      }
+      
+      // Cap at 10
+      score = Math.min(score, 10);
+      console.log(`📊 [Pattern Score] PINBAR_BUY: ${score}/10`);
+      
+      return {
+        detected: true,
+        type: 'pinbar_buy',
+        direction: 'LONG',
+        entryPrice: C0.close,
+        candleClosePrice: C0.close,
+        score,
+      };
+    } else {
+      console.log(`   ❌ REJECT: Tail does NOT protrude below recent lows`);
+    }
+  }
+  
+  // ========== ШОРТ ПИНБАР (верхний хвост) ==========
+  const bodyMaxShort = B <= BODY_MAX_FRACTION * R;
+  const bodyAtBottomShort = D / R <= EDGE_THRESHOLD;
+  const longTailBodyShort = U >= TAIL_BODY_RATIO_MIN * B;
+  const longTailRangeShort = U >= LONG_TAIL_RANGE_MIN * R;
+  const oppTailShortShort = D <= Math.min(OPP_TAIL_RANGE_MAX * R, OPP_TAIL_BODY_MAX * B);
+  
+  if (bodyMaxShort && bodyAtBottomShort && longTailBodyShort && longTailRangeShort && oppTailShortShort) {
+    console.log(`   ✅ Geometry SHORT: body=${(B/R*100).toFixed(1)}%, bodyAtBottom=${(D/R*100).toFixed(1)}%, tailVsBody=${(U/B).toFixed(2)}x, tailVsRange=${(U/R*100).toFixed(1)}%, oppTail=${(D/R*100).toFixed(1)}%`);
+    
+    // Проверка "выступания" верхнего хвоста (берем 5 свечей ПЕРЕД C0)
+    const recentHighs = candles.slice(-TAIL_LOOKBACK - 1, -1).map(c => Number(c.high));
+    const maxRecentHigh = Math.max(...recentHighs);
+    const tailProtrusion = C0.high >= maxRecentHigh + ATR_EPSILON * atr;
+    
+    console.log(`   🔎 Tail protrusion check: C0.high=${C0.high.toFixed(8)}, maxHigh(${TAIL_LOOKBACK})=${maxRecentHigh.toFixed(8)}, threshold=${(maxRecentHigh + ATR_EPSILON * atr).toFixed(8)}`);
+    
+    if (tailProtrusion) {
+      console.log(`   ✅✅ [Pattern] Pin Bar SELL detected (цвет НЕ важен, хвост выступает)`);
+      console.log(`   🎯 RETURNING Entry=${C0.close}, CandleClose=${C0.close}`);
+      
+      // 📊 SCORING (0-10): Pin Bar SELL
+      let score = 5; // Base score
+      
+      // 1. Tail/body ratio
+      const tailBodyRatio = B > 0 ? U / B : 10; // Very small body = high ratio
+      if (tailBodyRatio >= 3.0) {
+        score += 2;
+        console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 3.0: +2 points`);
+      } else if (tailBodyRatio >= 2.0) {
+        score += 1;
+        console.log(`   📊 [Score] Tail/body ratio ${tailBodyRatio.toFixed(2)}x ≥ 2.0: +1 point`);
+      }
+      
+      // 2. Clean opposite wick (lower wick should be <10% of range)
+      const oppWickPercent = D / R;
+      if (oppWickPercent < 0.10) {
+        score += 1;
+        console.log(`   📊 [Score] Clean opposite wick ${(oppWickPercent*100).toFixed(1)}% < 10%: +1 point`);
+      }
+      
+      // 3. Body <25% of range
+      const bodyPercent = B / R;
+      if (bodyPercent < 0.25) {
+        score += 1;
+        console.log(`   📊 [Score] Small body ${(bodyPercent*100).toFixed(1)}% < 25%: +1 point`);
+      }
+      
+      // 4. Body at edge (lower edge for SHORT pinbar)
+      const bodyFromBottom = D / R;
+      if (bodyFromBottom < 0.25) {
+        score += 1;
+        console.log(`   📊 [Score] Body at edge ${(bodyFromBottom*100).toFixed(1)}% from bottom < 25%: +1 point`);
+      }
+      
+      // Cap at 10
+      score = Math.min(score, 10);
+      console.log(`📊 [Pattern Score] PINBAR_SELL: ${score}/10`);
+      
+      return {
+        detected: true,
+        type: 'pinbar_sell',
+        direction: 'SHORT',
+        entryPrice: C0.close,
+        candleClosePrice: C0.close,
+        score,
+      };
+    } else {
+      console.log(`   ❌ REJECT: Tail does NOT protrude above recent highs`);
+    }
+  }
+
+  return { detected: false };
+}
+
+export const pinBarPattern: PatternModule = {
+  name: 'pinbar',
+  minCandles: 6,
+  detect: (candles) => detectPinBar(candles),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
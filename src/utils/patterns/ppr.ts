@@ -0,0 +1,201 @@
+/**
+ * PPR - Piercing Pattern Reversal (bullish piercing / bearish dark cloud), two-bar reversal
+ * (built-in pattern, moved from PatternDetector unchanged)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+// Gap tolerance = 15% ATR (компромисс между строгостью и гибкостью для крипты)
+export const PPR_GAP_TOLERANCE_ATR = 0.15;
+
+export function detectPPR(candles: Candle[], timeframe?: string): PatternResult {
+  // PPR = Piercing Pattern Reversal (двухсвечный разворотный паттерн)
+  // BULLISH: RED→GREEN, gap down, close >50% body Bar1
+  // BEARISH (Dark Cloud): GREEN→RED, gap up, close <50% body Bar1
+  
+  if (candles.length < 6) return { detected: false };
+
+  console.log(`\n🔍 [PPR - Piercing Pattern Reversal] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const atr = calculateATR(candles, 5);
+  console.log(`   📊 ATR=${atr.toFixed(8)}`);
+
+  // Bar₁ и Bar₂ (последние две ЗАКРЫТЫЕ свечи)
+  const Bar1 = analyzeCand(candles[candles.length - 2]); // Первая свеча паттерна
+  const Bar2 = analyzeCand(candles[candles.length - 1]); // Вторая свеча паттерна (последняя ЗАКРЫТАЯ)
+  
+  console.log(`\n   🔎 Checking 2-bar Piercing Pattern:`);
+  console.log(`      Bar₁: O=${Bar1.open.toFixed(8)}, C=${Bar1.close.toFixed(8)}, H=${Bar1.high.toFixed(8)}, L=${Bar1.low.toFixed(8)}, body=${Bar1.body.toFixed(8)}, color=${Bar1.isGreen ? 'GREEN' : 'RED'}`);
+  console.log(`      Bar₂: O=${Bar2.open.toFixed(8)}, C=${Bar2.close.toFixed(8)}, H=${Bar2.high.toFixed(8)}, L=${Bar2.low.toFixed(8)}, body=${Bar2.body.toFixed(8)}, color=${Bar2.isGreen ? 'GREEN' : 'RED'}`);
+
+  // ========== BULLISH PIERCING PATTERN ==========
+  // 1. Bar₁ = RED (медвежья)
+  // 2. Bar₂ = GREEN (бычья) ← КРИТИЧНО: должна быть зеленой!
+  // 3. Gap down: Open₂ < Close₁ - tolerance (явный gap с учетом волатильности)
+  // 4. Close₂ > 50% body Bar₁ (закрытие выше середины тела)
+  // 5. Not full engulfing (Close₂ < Open₁)
+  
+  if (Bar1.isRed && Bar2.isGreen) {
+    // Professional standard: NO minimum body size in ATR, rely on gap + penetration geometry
+    console.log(`   ✅ BULLISH PPR color sequence: RED→GREEN (ATR size filter REMOVED per pro standards)`);
+    
+    const bar1BodyMid = (Bar1.open + Bar1.close) / 2;
+    
+    // Gap check с tolerance: Bar2 должен открыться НИЖЕ Close Bar1 с учетом волатильности
+    // Tolerance = 15% ATR (компромисс между строгостью и гибкостью для крипты)
+    const gapTolerance = PPR_GAP_TOLERANCE_ATR * atr;
+    const gapThreshold = Bar1.close - gapTolerance;
+    const gapDown = Bar2.open < gapThreshold;
+    
+    const closesAboveMid = Bar2.close > bar1BodyMid;
+    const closesWithinBar1Range = Bar2.close < Bar1.open; // Не полное поглощение
+    
+    console.log(`   🔍 BULLISH PIERCING candidate (RED→GREEN):`);
+    console.log(`      Gap down (O₂ < C₁-tol): ${Bar2.open.toFixed(8)} < ${gapThreshold.toFixed(8)} = ${gapDown ? '✅' : '❌'} (tolerance=${gapTolerance.toFixed(8)})`);
+    console.log(`      Close above 50% body: ${Bar2.close.toFixed(8)} > ${bar1BodyMid.toFixed(8)} = ${closesAboveMid ? '✅' : '❌'}`);
+    console.log(`      Not full engulfing (C₂ < O₁): ${Bar2.close.toFixed(8)} < ${Bar1.open.toFixed(8)} = ${closesWithinBar1Range ? '✅' : '❌'}`);
+    
+    if (gapDown && closesAboveMid && closesWithinBar1Range) {
+      const penetration = ((Bar2.close - Bar1.close) / Bar1.body) * 100;
+      console.log(`   ✅✅ [Pattern] PPR BUY detected (Bullish Piercing Pattern, penetration=${penetration.toFixed(1)}%)`);
+      
+      // 📊 SCORING (0-10): PPR BUY
+      let score = 6; // Base score
+      
+      // 1. Penetration depth (>50% already guaranteed, reward deeper penetration)
+      const penetrationPercent = (Bar2.close - Bar1.close) / Bar1.body;
+      if (penetrationPercent > 0.7) {
+        score += 1;
+        console.log(`   📊 [Score] Deep penetration ${(penetrationPercent*100).toFixed(1)}% > 70%: +1 point`);
+      }
+      
+      // 2. Gap size (visible gap already guaranteed by detection)
+      const gapSize = Bar1.close - Bar2.open;
+      const gapToAtrRatio = gapSize / atr;
+      if (gapToAtrRatio > 0.2) {
+        score += 1;
+        console.log(`   📊 [Score] Visible gap ${gapToAtrRatio.toFixed(2)}x ATR > 0.2: +1 point`);
+      }
+      
+      // 3. Bar2 strength (large body)
+      const bar2BodyToAtrRatio = Bar2.body / atr;
+      if (bar2BodyToAtrRatio >= 0.7) {
+        score += 1;
+        console.log(`   📊 [Score] Strong Bar2 body ${bar2BodyToAtrRatio.toFixed(2)}x ATR ≥ 0.7: +1 point`);
+      }
+      
+      // 4. Clean structure (small wicks on Bar2)
+      const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
+      if (bar2TotalWicks < 0.3) {
+        score += 1;
+        console.log(`   📊 [Score] Clean Bar2 wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
+      }
+      
+      // Cap at 10
+      score = Math.min(score, 10);
+      console.log(`📊 [Pattern Score] PPR_BUY: ${score}/10`);
+      
+      return {
+        detected: true,
+        type: 'ppr_buy',
+        direction: 'LONG',
+        entryPrice: Bar2.close,
+        candleClosePrice: Bar2.close,
+        score,
+      };
+    }
+  }
+
+  // ========== BEARISH DARK CLOUD COVER ==========
+  // 1. Bar₁ = GREEN (бычья)
+  // 2. Bar₂ = RED (медвежья) ← КРИТИЧНО: должна быть красной!
+  // 3. Gap up: Open₂ > Close₁ + tolerance (явный gap с учетом волатильности)
+  // 4. Close₂ < 50% body Bar₁ (закрытие ниже середины тела)
+  // 5. Not full engulfing (Close₂ > Open₁)
+  
+  if (Bar1.isGreen && Bar2.isRed) {
+    // Professional standard: NO minimum body size in ATR, rely on gap + penetration geometry
+    console.log(`   ✅ BEARISH PPR color sequence: GREEN→RED (ATR size filter REMOVED per pro standards)`);
+    
+    const bar1BodyMid = (Bar1.open + Bar1.close) / 2;
+    
+    // Gap check с tolerance: Bar2 должен открыться ВЫШЕ Close Bar1 с учетом волатильности
+    // Tolerance = 15% ATR (компромисс между строгостью и гибкостью для крипты)
+    const gapTolerance = PPR_GAP_TOLERANCE_ATR * atr;
+    const gapThreshold = Bar1.close + gapTolerance;
+    const gapUp = Bar2.open > gapThreshold;
+    
+    const closesBelowMid = Bar2.close < bar1BodyMid;
+    const closesWithinBar1Range = Bar2.close > Bar1.open; // Не полное поглощение
+    
+    console.log(`   🔍 BEARISH DARK CLOUD candidate (GREEN→RED):`);
+    console.log(`      Gap up (O₂ > C₁+tol): ${Bar2.open.toFixed(8)} > ${gapThreshold.toFixed(8)} = ${gapUp ? '✅' : '❌'} (tolerance=${gapTolerance.toFixed(8)})`);
+    console.log(`      Close below 50% body: ${Bar2.close.toFixed(8)} < ${bar1BodyMid.toFixed(8)} = ${closesBelowMid ? '✅' : '❌'}`);
+    console.log(`      Not full engulfing (C₂ > O₁): ${Bar2.close.toFixed(8)} > ${Bar1.open.toFixed(8)} = ${closesWithinBar1Range ? '✅' : '❌'}`);
+    
+    if (gapUp && closesBelowMid && closesWithinBar1Range) {
+      const penetration = ((Bar1.close - Bar2.close) / Bar1.body) * 100;
+      console.log(`   ✅✅ [Pattern] PPR SELL detected (Bearish Dark Cloud Cover, penetration=${penetration.toFixed(1)}%)`);
+      
+      // 📊 SCORING (0-10): PPR SELL
+      let score = 6; // Base score
+      
+      // 1. Penetration depth (>50% already guaranteed, reward deeper penetration)
+      const penetrationPercent = (Bar1.close - Bar2.close) / Bar1.body;
+      if (penetrationPercent > 0.7) {
+        score += 1;
+        console.log(`   📊 [Score] Deep penetration ${(penetrationPercent*100).toFixed(1)}% > 70%: +1 point`);
+      }
+      
+      // 2. Gap size (visible gap already guaranteed by detection)
+      const gapSize = Bar2.open - Bar1.close;
+      const gapToAtrRatio = gapSize / atr;
+      if (gapToAtrRatio > 0.2) {
+        score += 1;
+        console.log(`   📊 [Score] Visible gap ${gapToAtrRatio.toFixed(2)}x ATR > 0.2: +1 point`);
+      }
+      
+      // 3. Bar2 strength (large body)
+      const bar2BodyToAtrRatio = Bar2.body / atr;
+      if (bar2BodyToAtrRatio >= 0.7) {
+        score += 1;
+        console.log(`   📊 [Score] Strong Bar2 body ${bar2BodyToAtrRatio.toFixed(2)}x ATR ≥ 0.7: +1 point`);
+      }
+      
+      // 4. Clean structure (small wicks on Bar2)
+      const bar2TotalWicks = (Bar2.upperWick + Bar2.lowerWick) / Bar2.range;
+      if (bar2TotalWicks < 0.3) {
+        score += 1;
+        console.log(`   📊 [Score] Clean Bar2 wicks ${(bar2TotalWicks*100).toFixed(1)}% < 30%: +1 point`);
+      }
+      
+      // Cap at 10
+      score = Math.min(score, 10);
+      console.log(`📊 [Pattern Score] PPR_SELL: ${score}/10`);
+      
+      return {
+        detected: true,
+        type: 'ppr_sell',
+        direction: 'SHORT',
+        entryPrice: Bar2.close,
+        candleClosePrice: Bar2.close,
+        score,
+      };
+    }
+  }
+
+  console.log(`   ❌ No PPR pattern detected`);
+  return { detected: false };
+}
+
+export const pprPattern: PatternModule = {
+  name: 'ppr',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectPPR(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
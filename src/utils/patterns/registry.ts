@@ -0,0 +1,61 @@
+/**
+ * Pattern Registry - pattern modules PatternDetector runs, enabled per timeframe
+ *
+ * Env (comma-separated, "name" = every timeframe, "name:tf" = one timeframe):
+ *   PATTERNS_DISABLED=ppr:15m,engulfing   switch built-in / default-on patterns off
+ *   PATTERNS_ENABLED=                     switch opt-in patterns (enabledByDefault: false) on
+ * Disabled wins over enabled.
+ */
+
+import type { PatternModule } from './types';
+
+export interface PatternConfig {
+  enabled: Set<string>;  // "name" | "name:tf"
+  disabled: Set<string>;
+}
+
+function parseList(raw: string | undefined): Set<string> {
+  return new Set((raw || '').split(',').map(entry => entry.trim()).filter(Boolean));
+}
+
+export function getPatternConfig(env: Record<string, string | undefined> = process.env): PatternConfig {
+  return {
+    enabled: parseList(env.PATTERNS_ENABLED),
+    disabled: parseList(env.PATTERNS_DISABLED),
+  };
+}
+
+export function isPatternEnabled(module: PatternModule, timeframe: string | undefined, config: PatternConfig): boolean {
+  const matches = (list: Set<string>) => list.has(module.name) || (!!timeframe && list.has(`${module.name}:${timeframe}`));
+
+  if (matches(config.disabled)) return false;
+  if (timeframe && module.timeframes && !module.timeframes.includes(timeframe)) return false;
+  return matches(config.enabled) || module.enabledByDefault !== false;
+}
+
+export class PatternRegistry {
+  private modules: PatternModule[] = [];
+
+  /**
+   * Register a module (detection order = registration order)
+   */
+  register(module: PatternModule): this {
+    if (this.get(module.name)) {
+      throw new Error(`Pattern "${module.name}" is already registered`);
+    }
+    this.modules.push(module);
+    return this;
+  }
+
+  get(name: string): PatternModule | undefined {
+    return this.modules.find(module => module.name === name);
+  }
+
+  list(): PatternModule[] {
+    return [...this.modules];
+  }
+
+  getEnabled(timeframe: string | undefined, config: PatternConfig): PatternModule[] {
+    return this.modules.filter(module => isPatternEnabled(module, timeframe, config));
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Default pattern quality score (built-in patterns): EMA trend, volume vs 20-bar average, no sharp move before
+ * The S/R zone bonus is applied by PatternDetector according to the module zoneRule
+ */
+
+import { hasSharpMoveBefore } from '../candleAnalyzer';
+import type { PatternScoreContext } from './types';
+
+export function defaultPatternScore({ pattern, candles, trend, components = {} }: PatternScoreContext): number {
+  let score = 0;
+
+  // 2️⃣ EMA TREND SCORE (для ВСЕХ паттернов включая Pin Bar)
+  const trendAligned = 
+    (pattern.direction === 'LONG' && trend.isUptrend) ||
+    (pattern.direction === 'SHORT' && trend.isDowntrend);
+  
+  const weakTrend = 
+    (pattern.direction === 'LONG' && trend.currentPrice > trend.ema50 && Math.abs(trend.ema50 - trend.ema200) / trend.ema200 < 0.02) ||
+    (pattern.direction === 'SHORT' && trend.currentPrice < trend.ema50 && Math.abs(trend.ema50 - trend.ema200) / trend.ema200 < 0.02);
+
+  if (trendAligned) {
+    score += 30;
+    console.log(`   ✅ Trend: +30 (сильный тренд aligned)`);
+  } else if (weakTrend) {
+    score += 15;
+    console.log(`   ⚠️ Trend: +15 (слабый тренд)`);
+  } else {
+    score += 0;
+    console.log(`   ❌ Trend: +0 (нейтральный тренд)`);
+  }
+  components.trend = score;
+
+  // 3️⃣ VOLUME SCORE
+  const volumes = candles.map((c) => parseFloat(c.volume));
+  const last20Volumes = volumes.slice(volumes.length - 21, volumes.length - 1);
+  const avgVolume = last20Volumes.reduce((sum, vol) => sum + vol, 0) / last20Volumes.length;
+  const currentVolume = volumes[volumes.length - 1];
+  const volumeRatio = currentVolume / avgVolume;
+
+  if (volumeRatio > 1.5) {
+    score += 30;
+    console.log(`   ✅ Volume: +30 (${volumeRatio.toFixed(2)}x average)`);
+  } else if (volumeRatio > 1.0) {
+    score += 15;
+    console.log(`   ⚠️ Volume: +15 (${volumeRatio.toFixed(2)}x average)`);
+  } else {
+    score += 0;
+    console.log(`   ❌ Volume: +0 (${volumeRatio.toFixed(2)}x average)`);
+  }
+  components.volume = score - components.trend;
+
+  // 4️⃣ SHARP MOVE SCORE
+  const hasSharpMove = hasSharpMoveBefore(candles, pattern.direction);
+  if (!hasSharpMove) {
+    score += 20;
+    console.log(`   ✅ Sharp Move: +20 (нет profit-taking)`);
+  } else {
+    score += 0;
+    console.log(`   ❌ Sharp Move: +0 (обнаружен profit-taking)`);
+  }
+  components.sharpMove = hasSharpMove ? 0 : 20;
+
+  return score;
+}
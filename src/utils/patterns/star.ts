@@ -0,0 +1,94 @@
+/**
+ * Morning / Evening Star - three-bar reversal: strong bar in the move, small-bodied star, strong bar
+ * back through the midpoint of the first body
+ * Morning star → star_buy (LONG), evening star → star_sell (SHORT)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type CandleMetrics, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+const MIN_BODY_ATR = 0.5;   // First / third bar body ≥ 0.5 ATR
+const MAX_STAR_BODY = 0.35; // Star body ≤ 35% of the first body
+
+function scoreStar(B1: CandleMetrics, S: CandleMetrics, B3: CandleMetrics, isLong: boolean): number {
+  let score = 5; // Base score
+
+  // 1. Full recovery: third bar closes beyond the first bar open
+  if (isLong ? B3.close >= B1.open : B3.close <= B1.open) {
+    score += 2;
+    console.log(`   📊 [Score] Third bar closes beyond first bar open: +2 points`);
+  }
+
+  // 2. Doji star (body ≤10% of its range)
+  if (S.range > 0 && S.body / S.range <= 0.1) {
+    score += 1;
+    console.log(`   📊 [Score] Doji star ${(S.body / S.range * 100).toFixed(1)}%: +1 point`);
+  }
+
+  // 3. Star makes the extreme of the formation
+  if (isLong ? S.low <= Math.min(B1.low, B3.low) : S.high >= Math.max(B1.high, B3.high)) {
+    score += 1;
+    console.log(`   📊 [Score] Star is the ${isLong ? 'low' : 'high'} of the formation: +1 point`);
+  }
+
+  // 4. Third bar at least 80% of the first body
+  if (B1.body > 0 && B3.body / B1.body >= 0.8) {
+    score += 1;
+    console.log(`   📊 [Score] Third body ${(B3.body / B1.body).toFixed(2)}x first ≥ 0.8: +1 point`);
+  }
+
+  return Math.min(score, 10);
+}
+
+export function detectStar(candles: Candle[], timeframe?: string): PatternResult {
+  if (candles.length < 6) return { detected: false };
+
+  console.log(`\n🔍 [Star] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const atr = calculateATR(candles, 5);
+  const B1 = analyzeCand(candles[candles.length - 3]); // Strong bar in the move
+  const S = analyzeCand(candles[candles.length - 2]);  // Star
+  const B3 = analyzeCand(candles[candles.length - 1]); // Reversal bar (последняя ЗАКРЫТАЯ)
+
+  const strongBodies = B1.body >= MIN_BODY_ATR * atr && B3.body >= MIN_BODY_ATR * atr;
+  const smallStar = B1.body > 0 && S.body <= MAX_STAR_BODY * B1.body;
+  if (!strongBodies || !smallStar) {
+    console.log(`   ❌ Shape: B1=${(B1.body / atr).toFixed(2)} ATR, B3=${(B3.body / atr).toFixed(2)} ATR (≥${MIN_BODY_ATR}), star/B1=${B1.body > 0 ? (S.body / B1.body).toFixed(2) : 'n/a'} (≤${MAX_STAR_BODY})`);
+    return { detected: false };
+  }
+
+  const b1Mid = (B1.open + B1.close) / 2;
+  const starBodyHigh = Math.max(S.open, S.close);
+  const starBodyLow = Math.min(S.open, S.close);
+
+  // ========== MORNING STAR (LONG) ==========
+  // RED → star body in the lower half of B1 body or below → GREEN closing above B1 midpoint
+  if (B1.isRed && B3.isGreen && starBodyHigh <= b1Mid && B3.close > b1Mid) {
+    console.log(`   ✅✅ [Pattern] Morning Star detected (B3 close ${B3.close.toFixed(8)} > B1 mid ${b1Mid.toFixed(8)})`);
+    const score = scoreStar(B1, S, B3, true);
+    console.log(`📊 [Pattern Score] STAR_BUY: ${score}/10`);
+    return { detected: true, type: 'star_buy', direction: 'LONG', entryPrice: B3.close, candleClosePrice: B3.close, score };
+  }
+
+  // ========== EVENING STAR (SHORT) ==========
+  if (B1.isGreen && B3.isRed && starBodyLow >= b1Mid && B3.close < b1Mid) {
+    console.log(`   ✅✅ [Pattern] Evening Star detected (B3 close ${B3.close.toFixed(8)} < B1 mid ${b1Mid.toFixed(8)})`);
+    const score = scoreStar(B1, S, B3, false);
+    console.log(`📊 [Pattern Score] STAR_SELL: ${score}/10`);
+    return { detected: true, type: 'star_sell', direction: 'SHORT', entryPrice: B3.close, candleClosePrice: B3.close, score };
+  }
+
+  console.log(`   ❌ Colors / star position do not form a star`);
+  return { detected: false };
+}
+
+export const starPattern: PatternModule = {
+  name: 'star',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectStar(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
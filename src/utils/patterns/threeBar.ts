@@ -0,0 +1,86 @@
+/**
+ * Three-Bar Reversal - middle bar makes the swing extreme, the third bar closes beyond the middle bar
+ * LONG: C1 low below C2 and C0 lows, C0 closes above C1 high; SHORT mirrored
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type CandleMetrics, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+const EDGE_MAX = 0.3; // Reversal bar closes in the outer 30% of its range
+
+function scoreThreeBar(candles: Candle[], B1: CandleMetrics, B2: CandleMetrics, B3: CandleMetrics, atr: number, isLong: boolean): number {
+  let score = 5; // Base score
+
+  // 1. Close beyond the first bar extreme (reversal of the whole swing)
+  if (isLong ? B3.close > B1.high : B3.close < B1.low) {
+    score += 2;
+    console.log(`   📊 [Score] Close beyond first bar ${isLong ? 'high' : 'low'}: +2 points`);
+  }
+
+  // 2. Close at the extreme (outer 15%)
+  const edge = B3.range > 0 ? (isLong ? B3.high - B3.close : B3.close - B3.low) / B3.range : 1;
+  if (edge <= 0.15) {
+    score += 1;
+    console.log(`   📊 [Score] Close at the ${isLong ? 'high' : 'low'} (${(edge * 100).toFixed(1)}%): +1 point`);
+  }
+
+  // 3. Middle bar is the extreme of the last 5 bars
+  const recent = candles.slice(-6, -1).map(analyzeCand);
+  if (isLong ? B2.low <= Math.min(...recent.map(c => c.low)) : B2.high >= Math.max(...recent.map(c => c.high))) {
+    score += 1;
+    console.log(`   📊 [Score] Middle bar is the 5-bar ${isLong ? 'low' : 'high'}: +1 point`);
+  }
+
+  // 4. Impulse: reversal range ≥ 1 ATR
+  if (atr > 0 && B3.range >= atr) {
+    score += 1;
+    console.log(`   📊 [Score] Reversal range ${(B3.range / atr).toFixed(2)} ATR ≥ 1: +1 point`);
+  }
+
+  return Math.min(score, 10);
+}
+
+export function detectThreeBarReversal(candles: Candle[], timeframe?: string): PatternResult {
+  if (candles.length < 6) return { detected: false };
+
+  console.log(`\n🔍 [Three-Bar Reversal] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const atr = calculateATR(candles, 5);
+  const B1 = analyzeCand(candles[candles.length - 3]);
+  const B2 = analyzeCand(candles[candles.length - 2]); // Swing extreme
+  const B3 = analyzeCand(candles[candles.length - 1]); // Reversal bar (последняя ЗАКРЫТАЯ)
+
+  if (B3.range <= 0) return { detected: false };
+
+  // ========== LONG: B1 RED, B2 lowest low, B3 GREEN closes above B2 high ==========
+  const swingLow = B2.low < B1.low && B2.low < B3.low;
+  if (B1.isRed && B3.isGreen && swingLow && B3.close > B2.high && (B3.high - B3.close) / B3.range <= EDGE_MAX) {
+    console.log(`   ✅✅ [Pattern] Three-Bar Reversal BUY detected (C=${B3.close.toFixed(8)} > B2 high ${B2.high.toFixed(8)})`);
+    const score = scoreThreeBar(candles, B1, B2, B3, atr, true);
+    console.log(`📊 [Pattern Score] THREEBAR_BUY: ${score}/10`);
+    return { detected: true, type: 'threebar_buy', direction: 'LONG', entryPrice: B3.close, candleClosePrice: B3.close, score };
+  }
+
+  // ========== SHORT: B1 GREEN, B2 highest high, B3 RED closes below B2 low ==========
+  const swingHigh = B2.high > B1.high && B2.high > B3.high;
+  if (B1.isGreen && B3.isRed && swingHigh && B3.close < B2.low && (B3.close - B3.low) / B3.range <= EDGE_MAX) {
+    console.log(`   ✅✅ [Pattern] Three-Bar Reversal SELL detected (C=${B3.close.toFixed(8)} < B2 low ${B2.low.toFixed(8)})`);
+    const score = scoreThreeBar(candles, B1, B2, B3, atr, false);
+    console.log(`📊 [Pattern Score] THREEBAR_SELL: ${score}/10`);
+    return { detected: true, type: 'threebar_sell', direction: 'SHORT', entryPrice: B3.close, candleClosePrice: B3.close, score };
+  }
+
+  console.log(`   ❌ No swing extreme reversed by the last bar`);
+  return { detected: false };
+}
+
+export const threeBarPattern: PatternModule = {
+  name: 'threebar',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectThreeBarReversal(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
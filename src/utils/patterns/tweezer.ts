@@ -0,0 +1,99 @@
+/**
+ * Tweezer Top / Bottom - two bars of opposite color testing the same extreme (within ε·ATR),
+ * the second closes back through the first bar midpoint
+ * Bottom → tweezer_buy (LONG), top → tweezer_sell (SHORT)
+ */
+
+import type { Candle } from '../binanceClient';
+import { analyzeCand, calculateATR, type CandleMetrics, type PatternResult } from '../candleAnalyzer';
+import { defaultPatternScore } from './scoring';
+import type { PatternModule } from './types';
+
+const EPSILON = 0.1;  // Extremes equal within 0.1 ATR
+const LOOKBACK = 4;   // The pair must hold the extreme against the 4 bars before it
+
+function scoreTweezer(candles: Candle[], B1: CandleMetrics, B2: CandleMetrics, atr: number, isLong: boolean): number {
+  let score = 5; // Base score
+
+  // 1. Exact match of the extremes (≤0.05 ATR)
+  const diff = isLong ? Math.abs(B1.low - B2.low) : Math.abs(B1.high - B2.high);
+  if (atr > 0 && diff <= 0.05 * atr) {
+    score += 2;
+    console.log(`   📊 [Score] Extremes match within ${(diff / atr).toFixed(3)} ATR: +2 points`);
+  }
+
+  // 2. Second bar closes beyond the first bar open (engulfing close)
+  if (isLong ? B2.close >= B1.open : B2.close <= B1.open) {
+    score += 1;
+    console.log(`   📊 [Score] Second close beyond first open: +1 point`);
+  }
+
+  // 3. Both bars reject the level with a tail ≥ 30% of range
+  const tail = (c: CandleMetrics) => (c.range > 0 ? (isLong ? c.lowerWick : c.upperWick) / c.range : 0);
+  if (tail(B1) >= 0.3 && tail(B2) >= 0.3) {
+    score += 1;
+    console.log(`   📊 [Score] Both bars with rejection tails ≥ 30%: +1 point`);
+  }
+
+  // 4. Extreme of the last 10 bars
+  const recent = candles.slice(-12, -2).map(analyzeCand);
+  if (recent.length > 0 && (isLong ? Math.min(B1.low, B2.low) <= Math.min(...recent.map(c => c.low)) : Math.max(B1.high, B2.high) >= Math.max(...recent.map(c => c.high)))) {
+    score += 1;
+    console.log(`   📊 [Score] 10-bar ${isLong ? 'low' : 'high'}: +1 point`);
+  }
+
+  return Math.min(score, 10);
+}
+
+export function detectTweezer(candles: Candle[], timeframe?: string): PatternResult {
+  if (candles.length < LOOKBACK + 2) return { detected: false };
+
+  console.log(`\n🔍 [Tweezer] Analyzing with ${candles.length} candles (TF: ${timeframe || 'unknown'})...`);
+
+  const atr = calculateATR(candles, 5);
+  const B1 = analyzeCand(candles[candles.length - 2]);
+  const B2 = analyzeCand(candles[candles.length - 1]); // Последняя ЗАКРЫТАЯ
+  const before = candles.slice(-(LOOKBACK + 2), -2).map(analyzeCand);
+  const tolerance = EPSILON * atr;
+  const b1Mid = (B1.open + B1.close) / 2;
+
+  // ========== TWEEZER BOTTOM (LONG) ==========
+  const pairLow = Math.min(B1.low, B2.low);
+  if (
+    B1.isRed && B2.isGreen &&
+    Math.abs(B1.low - B2.low) <= tolerance &&
+    pairLow < Math.min(...before.map(c => c.low)) &&
+    B2.close > b1Mid
+  ) {
+    console.log(`   ✅✅ [Pattern] Tweezer Bottom detected (lows ${B1.low.toFixed(8)} / ${B2.low.toFixed(8)}, ε=${tolerance.toFixed(8)})`);
+    const score = scoreTweezer(candles, B1, B2, atr, true);
+    console.log(`📊 [Pattern Score] TWEEZER_BUY: ${score}/10`);
+    return { detected: true, type: 'tweezer_buy', direction: 'LONG', entryPrice: B2.close, candleClosePrice: B2.close, score };
+  }
+
+  // ========== TWEEZER TOP (SHORT) ==========
+  const pairHigh = Math.max(B1.high, B2.high);
+  if (
+    B1.isGreen && B2.isRed &&
+    Math.abs(B1.high - B2.high) <= tolerance &&
+    pairHigh > Math.max(...before.map(c => c.high)) &&
+    B2.close < b1Mid
+  ) {
+    console.log(`   ✅✅ [Pattern] Tweezer Top detected (highs ${B1.high.toFixed(8)} / ${B2.high.toFixed(8)}, ε=${tolerance.toFixed(8)})`);
+    const score = scoreTweezer(candles, B1, B2, atr, false);
+    console.log(`📊 [Pattern Score] TWEEZER_SELL: ${score}/10`);
+    return { detected: true, type: 'tweezer_sell', direction: 'SHORT', entryPrice: B2.close, candleClosePrice: B2.close, score };
+  }
+
+  console.log(`   ❌ No matching extremes beyond the previous ${LOOKBACK} bars`);
+  return { detected: false };
+}
+
+export const tweezerPattern: PatternModule = {
+  name: 'tweezer',
+  minCandles: 6,
+  detect: (candles, timeframe) => detectTweezer(candles, timeframe),
+  score: defaultPatternScore,
+  trendRule: 'with_trend',
+  zoneRule: 'bonus',
+};
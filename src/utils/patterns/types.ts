@@ -0,0 +1,42 @@
+/**
+ * Pattern module contract for the PatternRegistry
+ *
+ * A pattern module is one setup (pin bar, fakey, ...) in its own file: detection on the last closed
+ * candles, quality score and the default trend / zone rules PatternDetector applies to it.
+ */
+
+import type { Candle } from '../binanceClient';
+import type { PatternResult, TrendAnalysis } from '../candleAnalyzer';
+
+/**
+ * with_trend: reject signals in a neutral market and against the EMA 50/200 trend
+ * any:        no trend gating (counter-trend setups)
+ */
+export type TrendRule = 'with_trend' | 'any';
+
+/**
+ * bonus:    +100 score near the directional S/R zone (support for LONG, resistance for SHORT)
+ * required: reject unless near the directional zone
+ * none:     zones are not scored
+ */
+export type ZoneRule = 'bonus' | 'required' | 'none';
+
+export interface PatternScoreContext {
+  pattern: PatternResult & { direction: 'LONG' | 'SHORT'; entryPrice: number };
+  candles: Candle[];
+  trend: TrendAnalysis;
+  timeframe?: string;
+  components?: Record<string, number>; // Itemized score, filled by scorers that break it down
+}
+
+export interface PatternModule {
+  name: string;                // Pattern family = PatternResult.type without _buy / _sell
+  minCandles: number;          // Closed candles detect needs
+  detect(candles: Candle[], timeframe?: string): PatternResult;
+  score(context: PatternScoreContext): number; // Quality score without the zone bonus
+  trendRule: TrendRule;
+  zoneRule: ZoneRule;
+  minScore?: number;           // Accept threshold incl. the zone bonus (default 50)
+  timeframes?: string[];       // Timeframes the pattern runs on (default: all scanned)
+  enabledByDefault?: boolean;  // false = opt-in through PATTERNS_ENABLED (default true)
+}
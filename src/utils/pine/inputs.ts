@@ -0,0 +1,105 @@
+/**
+ * Pine Inputs - generates the settings block of binance_pattern_scanner.pine from the TypeScript config
+ *
+ * The block sits between PINE_INPUTS_BEGIN / PINE_INPUTS_END and is never edited by hand:
+ *   npx tsx src/scripts/pineInputs.ts --write   (regenerate)
+ *   npx tsx src/scripts/pineInputs.ts --check   (exit 1 when the .pine file is out of sync)
+ *
+ * Sources: SR_TV_SETTINGS, VOLUME_THRESHOLD, TREND_THRESHOLDS (candleAnalyzer), DEFAULT_MIN_SCORE,
+ * the pattern registry enable flags and the detector parameters of the pin bar / fakey / PPR / engulfing modules.
+ * Timeframe-dependent values become `timeframe.period` switches (unknown timeframes use the TS fallback).
+ */
+
+import { SR_TV_SETTINGS, TREND_THRESHOLDS, VOLUME_THRESHOLD } from '../candleAnalyzer';
+import { ENGULFING_EDGE_MAX, ENGULFING_TF_PARAMS } from '../patterns/engulfing';
+import { FAKEY_TF_PARAMS } from '../patterns/fakey';
+import { DEFAULT_MIN_SCORE } from '../patterns/patternDetector';
+import { PIN_BAR_PARAMS } from '../patterns/pinBar';
+import { PPR_GAP_TOLERANCE_ATR } from '../patterns/ppr';
+import { isPatternEnabled, type PatternConfig, type PatternRegistry } from '../patterns/registry';
+
+export const PINE_INPUTS_BEGIN = '// @generated-inputs-begin';
+export const PINE_INPUTS_END = '// @generated-inputs-end';
+
+// Pine timeframe.period for the scanned timeframes
+const PINE_PERIODS: Record<string, string> = { '15m': '15', '1h': '60', '4h': '240' };
+
+// Pine enable inputs of the patterns the indicator implements
+const PINE_PATTERNS: Array<{ name: string; variable: string; title: string }> = [
+  { name: 'pinbar', variable: 'enablePinBar', title: 'Pin Bar' },
+  { name: 'fakey', variable: 'enableFakey', title: 'Fakey' },
+  { name: 'ppr', variable: 'enablePPR', title: 'PPR (Piercing)' },
+  { name: 'engulfing', variable: 'enableEngulfing', title: 'Engulfing' },
+];
+
+function pineFloat(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+/**
+ * `timeframe.period == "15" ? a : timeframe.period == "60" ? b : fallback`
+ */
+function byTimeframe<T>(params: Record<string, T>, pick: (p: T) => number, fallback: string): string {
+  const branches = Object.entries(params)
+    .filter(([tf]) => tf !== fallback && PINE_PERIODS[tf])
+    .map(([tf, p]) => `timeframe.period == "${PINE_PERIODS[tf]}" ? ${pineFloat(pick(p))} : `);
+  return `${branches.join('')}${pineFloat(pick(params[fallback]))}`;
+}
+
+export function generatePineInputs(registry: PatternRegistry, config: PatternConfig): string {
+  const enabled = (name: string) => {
+    const module = registry.get(name);
+    return module !== undefined && isPatternEnabled(module, undefined, config);
+  };
+
+  return [
+    PINE_INPUTS_BEGIN,
+    '// S/R Zones Settings (SR_TV_SETTINGS)',
+    `pivotPeriod = input.int(${SR_TV_SETTINGS.pivotPeriod}, "Pivot Period", minval=1, maxval=50, group="S/R Zones")`,
+    `maxChannelWidthPercent = input.float(${pineFloat(SR_TV_SETTINGS.maxChannelWidthPercent)}, "Max Channel Width %", minval=0.5, maxval=20, step=0.5, group="S/R Zones")`,
+    `maxChannels = input.int(${SR_TV_SETTINGS.maxChannels}, "Max Channels", minval=1, maxval=20, group="S/R Zones")`,
+    `loopbackPeriod = input.int(${SR_TV_SETTINGS.loopbackPeriod}, "Lookback Period", minval=50, maxval=500, group="S/R Zones")`,
+    '',
+    '// Pattern Settings (pattern registry, PATTERNS_DISABLED / PATTERNS_ENABLED)',
+    ...PINE_PATTERNS.map(p => `${p.variable} = input.bool(${enabled(p.name)}, "${p.title}", group="Patterns")`),
+    '',
+    '// Filters (DEFAULT_MIN_SCORE, VOLUME_THRESHOLD, detector ATR length)',
+    `minScore = input.int(${DEFAULT_MIN_SCORE}, "Min Score", minval=0, maxval=200, group="Filters")`,
+    `volumeThreshold = input.float(${pineFloat(VOLUME_THRESHOLD)}, "Volume Threshold", minval=0.1, maxval=2.0, step=0.05, group="Filters")`,
+    `atrLength = input.int(${PIN_BAR_PARAMS.ATR_LOOKBACK}, "ATR Length", minval=1, maxval=50, group="Filters")`,
+    '',
+    '// Pin Bar (PIN_BAR_PARAMS)',
+    `pinBodyMaxFraction = input.float(${pineFloat(PIN_BAR_PARAMS.BODY_MAX_FRACTION)}, "Body Max / Range", step=0.01, group="Pin Bar")`,
+    `pinEdgeThreshold = input.float(${pineFloat(PIN_BAR_PARAMS.EDGE_THRESHOLD)}, "Body Edge Max / Range", step=0.01, group="Pin Bar")`,
+    `pinTailBodyRatioMin = input.float(${pineFloat(PIN_BAR_PARAMS.TAIL_BODY_RATIO_MIN)}, "Tail / Body Min", step=0.1, group="Pin Bar")`,
+    `pinLongTailRangeMin = input.float(${pineFloat(PIN_BAR_PARAMS.LONG_TAIL_RANGE_MIN)}, "Tail / Range Min", step=0.01, group="Pin Bar")`,
+    `pinOppTailRangeMax = input.float(${pineFloat(PIN_BAR_PARAMS.OPP_TAIL_RANGE_MAX)}, "Opposite Tail / Range Max", step=0.01, group="Pin Bar")`,
+    `pinOppTailBodyMax = input.float(${pineFloat(PIN_BAR_PARAMS.OPP_TAIL_BODY_MAX)}, "Opposite Tail / Body Max", step=0.01, group="Pin Bar")`,
+    `pinAtrEpsilon = input.float(${pineFloat(PIN_BAR_PARAMS.ATR_EPSILON)}, "Tail Protrusion (ATR)", step=0.01, group="Pin Bar")`,
+    `pinTailLookback = input.int(${PIN_BAR_PARAMS.TAIL_LOOKBACK}, "Tail Protrusion Lookback", minval=1, group="Pin Bar")`,
+    '',
+    '// PPR / Engulfing (PPR_GAP_TOLERANCE_ATR, ENGULFING_EDGE_MAX)',
+    `pprGapToleranceAtr = input.float(${pineFloat(PPR_GAP_TOLERANCE_ATR)}, "PPR Gap Tolerance (ATR)", step=0.01, group="Two-Bar Patterns")`,
+    `engulfingEdgeMax = input.float(${pineFloat(ENGULFING_EDGE_MAX)}, "Engulfing Close Edge Max", step=0.01, group="Two-Bar Patterns")`,
+    '',
+    '// Timeframe-dependent (TREND_THRESHOLDS, FAKEY_TF_PARAMS, ENGULFING_TF_PARAMS)',
+    `PRICE_THRESHOLD = ${byTimeframe(TREND_THRESHOLDS, p => p.price, '4h')}`,
+    `EMA_THRESHOLD = ${byTimeframe(TREND_THRESHOLDS, p => p.ema, '4h')}`,
+    `fakeyEpsilon = ${byTimeframe(FAKEY_TF_PARAMS, p => p.epsilon, '1h')}`,
+    `engulfingGamma = ${byTimeframe(ENGULFING_TF_PARAMS, p => p.gamma, '1h')}`,
+    `engulfingBodyRatio = ${byTimeframe(ENGULFING_TF_PARAMS, p => p.bodyRatio, '1h')}`,
+    PINE_INPUTS_END,
+  ].join('\n');
+}
+
+/**
+ * Replace the generated block of a Pine source (throws when the markers are missing)
+ */
+export function applyPineInputs(source: string, block: string): string {
+  const begin = source.indexOf(PINE_INPUTS_BEGIN);
+  const end = source.indexOf(PINE_INPUTS_END);
+  if (begin === -1 || end === -1 || end < begin) {
+    throw new Error(`Pine source has no ${PINE_INPUTS_BEGIN} … ${PINE_INPUTS_END} block`);
+  }
+  return source.slice(0, begin) + block + source.slice(end + PINE_INPUTS_END.length);
+}
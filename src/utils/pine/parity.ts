@@ -0,0 +1,291 @@
+/**
+ * Pine Parity - runs the TypeScript pattern pipeline over a TradingView candle export and compares it
+ * bar by bar with the output of binance_pattern_scanner.pine
+ *
+ * Inputs (TradingView "Export chart data" CSVs, joined on the bar time):
+ * - candles: time, open, high, low, close, volume (time = unix seconds / ms or ISO)
+ * - pine:    time + the Data Window plots of the indicator:
+ *            pattern columns  pinbar_buy, pinbar_sell, fakey_*, ppr_*, engulfing_*  (accepted score or NaN)
+ *            component columns trend_long / trend_short, volume_score, sharp_move, zone_long / zone_short
+ *   Both may be the same file (chart export with the indicator on it).
+ *
+ * Every bar from `from` on is replayed with the last `window` candles (the bot scans 350 closed candles).
+ * Only pattern families with a column in the Pine CSV are run on the TS side.
+ */
+
+import type { Candle } from '../exchanges/types';
+import { intervalToMs } from '../exchanges/intervals';
+import { getPatternConfig, PatternDetector, type PatternRegistry } from '../patterns';
+
+export type ParityMismatchKind = 'ts_only' | 'pine_only' | 'score';
+
+export interface ParityComponentDiff {
+  component: string;       // TS scoreComponents key (zone, trend, volume, sharpMove)
+  ts: number | null;
+  pine: number | null;
+}
+
+export interface ParityMismatch {
+  index: number;           // Candle index in the candle CSV
+  time: number;            // Bar openTime (ms)
+  pattern: string;         // PatternResult.type, e.g. pinbar_buy
+  kind: ParityMismatchKind;
+  tsScore: number | null;
+  pineScore: number | null;
+  components: ParityComponentDiff[];
+}
+
+export interface ParityReport {
+  timeframe: string;
+  patterns: string[];      // Compared pattern columns
+  barsCompared: number;
+  signalsMatched: number;  // Bars × patterns where both sides fired with equal scores
+  missingPineBars: number; // Candle bars without a Pine row
+  mismatches: ParityMismatch[];
+}
+
+export interface PineBarOutput {
+  time: number;
+  scores: Record<string, number>;      // Pattern column → accepted score (NaN / empty = no signal)
+  components: Record<string, number>;  // Component column → value
+}
+
+export interface ParityOptions {
+  timeframe: string;
+  window?: number;         // Candles per TS detection (default 350)
+  from?: number;           // First compared candle index (default: window - 1)
+}
+
+// TS scoreComponents key → Pine column (by direction)
+const COMPONENT_COLUMNS: Record<string, { buy: string; sell: string }> = {
+  zone: { buy: 'zone_long', sell: 'zone_short' },
+  trend: { buy: 'trend_long', sell: 'trend_short' },
+  volume: { buy: 'volume_score', sell: 'volume_score' },
+  sharpMove: { buy: 'sharp_move', sell: 'sharp_move' },
+};
+
+const PATTERN_COLUMN = /^([a-z]+)_(buy|sell)$/;
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, "" escapes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function parseTime(raw: string): number {
+  const value = raw.trim();
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const n = Number(value);
+    return n < 1e12 ? n * 1000 : n; // TradingView exports unix seconds
+  }
+  const ms = new Date(value).getTime();
+  if (!Number.isFinite(ms)) {
+    throw new Error(`Invalid bar time: "${raw}"`);
+  }
+  return ms;
+}
+
+function parseTable(text: string): { header: string[]; rows: string[][] } {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('CSV is empty');
+  }
+  return { header: header.map(h => h.trim().toLowerCase()), rows };
+}
+
+function parseNumber(raw: string | undefined): number {
+  const value = (raw ?? '').trim();
+  return value === '' ? NaN : Number(value);
+}
+
+export function candlesFromCsv(text: string, timeframe: string): Candle[] {
+  const intervalMs = intervalToMs(timeframe);
+  if (intervalMs === null) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+
+  const { header, rows } = parseTable(text);
+  const column = (name: string) => {
+    const index = header.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Candle CSV has no "${name}" column`);
+    }
+    return index;
+  };
+  const [time, open, high, low, close, volume] = ['time', 'open', 'high', 'low', 'close', 'volume'].map(column);
+
+  return rows.map(row => {
+    const openTime = parseTime(row[time]);
+    return {
+      openTime,
+      open: row[open].trim(),
+      high: row[high].trim(),
+      low: row[low].trim(),
+      close: row[close].trim(),
+      volume: row[volume].trim(),
+      closeTime: openTime + intervalMs - 1,
+    };
+  });
+}
+
+export function pineOutputFromCsv(text: string): PineBarOutput[] {
+  const { header, rows } = parseTable(text);
+  const time = header.indexOf('time');
+  if (time === -1) {
+    throw new Error('Pine CSV has no "time" column');
+  }
+
+  const componentColumns = new Set(Object.values(COMPONENT_COLUMNS).flatMap(c => [c.buy, c.sell]));
+  const patternIndexes = header
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => PATTERN_COLUMN.test(name) && !componentColumns.has(name));
+  const componentIndexes = header
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => componentColumns.has(name));
+
+  return rows.map(row => ({
+    time: parseTime(row[time]),
+    scores: Object.fromEntries(patternIndexes.map(({ name, index }) => [name, parseNumber(row[index])])),
+    components: Object.fromEntries(componentIndexes.map(({ name, index }) => [name, parseNumber(row[index])])),
+  }));
+}
+
+function componentDiffs(pattern: string, tsComponents: Record<string, number> | undefined, pine: PineBarOutput): ParityComponentDiff[] {
+  const side = pattern.endsWith('_buy') ? 'buy' : 'sell';
+  const diffs: ParityComponentDiff[] = [];
+
+  for (const [component, columns] of Object.entries(COMPONENT_COLUMNS)) {
+    const column = columns[side];
+    const ts = tsComponents?.[component] ?? null;
+    const pineValue = column in pine.components && Number.isFinite(pine.components[column]) ? pine.components[column] : null;
+    if (ts === null && pineValue === null) continue;
+    if (ts !== pineValue) {
+      diffs.push({ component, ts, pine: pineValue });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Compare the TS pipeline with the Pine output bar by bar (detector logs are not muted here)
+ */
+export function comparePineParity(
+  candles: Candle[],
+  pine: PineBarOutput[],
+  registry: PatternRegistry,
+  options: ParityOptions
+): ParityReport {
+  const window = options.window ?? 350;
+  const from = Math.max(options.from ?? window - 1, 0);
+
+  const patterns = [...new Set(pine.flatMap(bar => Object.keys(bar.scores)))]
+    .filter(column => registry.get(column.replace(PATTERN_COLUMN, '$1')))
+    .sort();
+  const families = new Set(patterns.map(column => column.replace(PATTERN_COLUMN, '$1')));
+
+  // Только семейства, которые есть в Pine CSV (остальные модули реестра выключены)
+  const config = getPatternConfig({});
+  for (const module of registry.list()) {
+    if (!families.has(module.name)) config.disabled.add(module.name);
+  }
+  const detector = new PatternDetector(registry, config);
+
+  const pineByTime = new Map(pine.map(bar => [bar.time, bar]));
+  const report: ParityReport = {
+    timeframe: options.timeframe,
+    patterns,
+    barsCompared: 0,
+    signalsMatched: 0,
+    missingPineBars: 0,
+    mismatches: [],
+  };
+
+  for (let index = from; index < candles.length; index++) {
+    const time = candles[index].openTime;
+    const pineBar = pineByTime.get(time);
+    if (!pineBar) {
+      report.missingPineBars++;
+      continue;
+    }
+    report.barsCompared++;
+
+    const detected = detector.detectAllPatterns(candles.slice(Math.max(0, index - window + 1), index + 1), options.timeframe);
+    const tsByType = new Map(detected.map(pattern => [pattern.type as string, pattern]));
+
+    for (const pattern of patterns) {
+      const ts = tsByType.get(pattern);
+      const pineScore = Number.isFinite(pineBar.scores[pattern]) ? pineBar.scores[pattern] : null;
+      const tsScore = ts?.score ?? null;
+      if (tsScore === null && pineScore === null) continue;
+
+      const kind: ParityMismatchKind | null =
+        tsScore === null ? 'pine_only' :
+        pineScore === null ? 'ts_only' :
+        tsScore !== pineScore ? 'score' : null;
+
+      if (kind === null) {
+        report.signalsMatched++;
+        continue;
+      }
+      report.mismatches.push({
+        index,
+        time,
+        pattern,
+        kind,
+        tsScore,
+        pineScore,
+        components: componentDiffs(pattern, ts?.scoreComponents, pineBar),
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * One line per mismatch: index, time, pattern, both scores and the differing components
+ */
+export function formatParityMismatch(mismatch: ParityMismatch): string {
+  const components = mismatch.components
+    .map(diff => `${diff.component} ts=${diff.ts ?? '-'} pine=${diff.pine ?? '-'}`)
+    .join(', ');
+  return `#${mismatch.index} ${new Date(mismatch.time).toISOString()} ${mismatch.pattern} ${mismatch.kind}: ` +
+    `ts=${mismatch.tsScore ?? '-'} pine=${mismatch.pineScore ?? '-'}${components ? ` | ${components}` : ''}`;
+}
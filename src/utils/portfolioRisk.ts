@@ -0,0 +1,133 @@
+/**
+ * Portfolio Risk Limits - checks before a new signal is created
+ *
+ * - open risk: sum of R still at risk on tracked signals (remaining share × distance entry → current SL,
+ *   0 once the stop is at breakeven or in profit) + 1R for the candidate
+ * - max signals per direction (LONG / SHORT) among tracked signals
+ * - max signals per family (leader:sector from marketClusters)
+ * - circuit breaker: realized PnL in R since UTC day / week start (Monday) at or below −limit pauses new signals
+ *
+ * Env (0 = limit disabled):
+ *   MAX_OPEN_RISK_R=5            max open risk in R incl. the candidate
+ *   MAX_SIGNALS_PER_DIRECTION=6  max tracked signals per direction
+ *   MAX_SIGNALS_PER_FAMILY=3     max tracked signals per family
+ *   DAILY_LOSS_LIMIT_R=3         realized loss (R) that pauses signals until the next UTC day
+ *   WEEKLY_LOSS_LIMIT_R=6        realized loss (R) that pauses signals until next Monday (UTC)
+ */
+
+import { SKIP_REASONS, type SkipReason } from '../types/skipReasons';
+
+export interface PortfolioRiskConfig {
+  maxOpenRiskR: number;
+  maxSignalsPerDirection: number;
+  maxSignalsPerFamily: number;
+  dailyLossLimitR: number;
+  weeklyLossLimitR: number;
+}
+
+function limit(raw: string | undefined, fallback: number): number {
+  const value = raw !== undefined ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getPortfolioRiskConfig(env: Record<string, string | undefined> = process.env): PortfolioRiskConfig {
+  return {
+    maxOpenRiskR: limit(env.MAX_OPEN_RISK_R, 5),
+    maxSignalsPerDirection: limit(env.MAX_SIGNALS_PER_DIRECTION, 6),
+    maxSignalsPerFamily: limit(env.MAX_SIGNALS_PER_FAMILY, 3),
+    dailyLossLimitR: limit(env.DAILY_LOSS_LIMIT_R, 3),
+    weeklyLossLimitR: limit(env.WEEKLY_LOSS_LIMIT_R, 6),
+  };
+}
+
+export interface Exposure {
+  symbol: string;
+  direction: string;
+  familyId: string;
+  riskR: number;
+}
+
+export interface OpenRiskSignal {
+  direction: string;
+  entryPrice: string;
+  slPrice: string;
+  currentSl: string;
+  partialClosed: string | null;
+}
+
+/**
+ * R still at risk on a tracked signal
+ */
+export function openRiskR(signal: OpenRiskSignal): number {
+  const entry = parseFloat(signal.entryPrice);
+  const risk = Math.abs(entry - parseFloat(signal.slPrice));
+  if (risk === 0) return 0;
+
+  const currentSl = parseFloat(signal.currentSl);
+  const stopDistance = signal.direction === 'LONG' ? entry - currentSl : currentSl - entry;
+  const remaining = (100 - parseFloat(signal.partialClosed ?? '0')) / 100;
+  return Math.max(0, stopDistance / risk) * Math.max(0, remaining);
+}
+
+/**
+ * Circuit breaker periods: UTC day start and UTC week start (Monday 00:00)
+ */
+export function getLossPeriodStarts(now: Date): { day: Date; week: Date } {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return { day, week: new Date(day.getTime() - daysSinceMonday * 24 * 60 * 60_000) };
+}
+
+export interface RealizedPnl {
+  dailyR: number;
+  weeklyR: number;
+}
+
+export interface PortfolioCandidate {
+  symbol: string;
+  direction: string;
+  familyId: string;
+}
+
+export interface PortfolioRiskDecision {
+  allowed: boolean;
+  skipReason: SkipReason | null;
+  detail: string;
+}
+
+export function evaluatePortfolioRisk(
+  config: PortfolioRiskConfig,
+  exposures: Exposure[],
+  realized: RealizedPnl,
+  candidate: PortfolioCandidate
+): PortfolioRiskDecision {
+  const blocked = (skipReason: SkipReason, detail: string): PortfolioRiskDecision => ({ allowed: false, skipReason, detail });
+
+  if (config.dailyLossLimitR > 0 && realized.dailyR <= -config.dailyLossLimitR) {
+    return blocked(SKIP_REASONS.DAILY_LOSS_CIRCUIT_BREAKER, `daily realized ${realized.dailyR.toFixed(2)}R ≤ -${config.dailyLossLimitR}R`);
+  }
+  if (config.weeklyLossLimitR > 0 && realized.weeklyR <= -config.weeklyLossLimitR) {
+    return blocked(SKIP_REASONS.WEEKLY_LOSS_CIRCUIT_BREAKER, `weekly realized ${realized.weeklyR.toFixed(2)}R ≤ -${config.weeklyLossLimitR}R`);
+  }
+
+  const openRisk = exposures.reduce((sum, exposure) => sum + exposure.riskR, 0);
+  if (config.maxOpenRiskR > 0 && openRisk + 1 > config.maxOpenRiskR) {
+    return blocked(SKIP_REASONS.PORTFOLIO_OPEN_RISK_LIMIT, `open risk ${openRisk.toFixed(2)}R + 1R > ${config.maxOpenRiskR}R`);
+  }
+
+  const sameDirection = exposures.filter(exposure => exposure.direction === candidate.direction).length;
+  if (config.maxSignalsPerDirection > 0 && sameDirection >= config.maxSignalsPerDirection) {
+    return blocked(SKIP_REASONS.DIRECTION_LIMIT, `${sameDirection}/${config.maxSignalsPerDirection} ${candidate.direction} signals`);
+  }
+
+  const sameFamily = exposures.filter(exposure => exposure.familyId === candidate.familyId).length;
+  if (config.maxSignalsPerFamily > 0 && sameFamily >= config.maxSignalsPerFamily) {
+    return blocked(SKIP_REASONS.FAMILY_LIMIT, `${sameFamily}/${config.maxSignalsPerFamily} signals in ${candidate.familyId}`);
+  }
+
+  return {
+    allowed: true,
+    skipReason: null,
+    detail: `open risk ${(openRisk + 1).toFixed(2)}R, ${candidate.direction} ${sameDirection + 1}, ${candidate.familyId} ${sameFamily + 1}, day ${realized.dailyR.toFixed(2)}R, week ${realized.weeklyR.toFixed(2)}R`,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Position Sizing & Liquidation Safety
+ *
+ * Size per signal from account equity and risk %:
+ *   quantity = equity × risk% / |entry − SL|, rounded DOWN to the exchange step size
+ * Margin = notional / leverage (capped by equity → smaller size, warning).
+ * Liquidation estimate for isolated USDT-M linear perpetuals:
+ *   LONG:  entry × (1 − 1/leverage + mmr)
+ *   SHORT: entry × (1 + 1/leverage − mmr)
+ * If liquidation sits inside the stop distance the position would be liquidated before the SL → refused.
+ * If it sits within LIQ_BUFFER of the stop distance beyond it → warning.
+ *
+ * Env:
+ *   MAX_LEVERAGE=10               leverage used for margin / liquidation
+ *   MAINTENANCE_MARGIN_RATE=0.005 maintenance margin rate (first bracket)
+ */
+
+export type SizingStatus = 'ok' | 'warning' | 'refused';
+
+export interface SizingConfig {
+  riskPercent: number;
+  maxLeverage: number;
+  maintenanceMarginRate: number;
+  liquidationBuffer: number; // Liquidation must be this much (× stop distance) beyond the stop to be "safe"
+}
+
+export interface SymbolFilters {
+  tickSize: number;
+  stepSize: number;
+  minQty: number;
+}
+
+export interface PositionSizing {
+  status: SizingStatus;
+  quantity: number;
+  notional: number;
+  requiredMargin: number;
+  leverage: number;
+  liquidationPrice: number;
+  riskAmount: number;      // Loss at SL with the rounded quantity (before fees)
+  maxSafeLeverage: number; // Highest whole leverage with liquidation beyond the stop + buffer
+  notes: string[];
+}
+
+export function getSizingConfig(riskPercent: number, env: Record<string, string | undefined> = process.env): SizingConfig {
+  const maxLeverage = parseFloat(env.MAX_LEVERAGE || '');
+  const mmr = parseFloat(env.MAINTENANCE_MARGIN_RATE || '');
+  return {
+    riskPercent,
+    maxLeverage: Number.isFinite(maxLeverage) && maxLeverage >= 1 ? maxLeverage : 10,
+    maintenanceMarginRate: Number.isFinite(mmr) && mmr >= 0 && mmr < 1 ? mmr : 0.005,
+    liquidationBuffer: 0.5,
+  };
+}
+
+/**
+ * Round down to an exchange increment (0 = no filter); decimals cleaned to the increment precision
+ */
+export function roundToStep(value: number, step: number): number {
+  if (step <= 0) return value;
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return parseFloat((Math.floor(value / step + 1e-9) * step).toFixed(decimals));
+}
+
+/**
+ * Round to the nearest tick (prices)
+ */
+export function roundToTick(value: number, tick: number): number {
+  if (tick <= 0) return value;
+  const decimals = Math.max(0, -Math.floor(Math.log10(tick)));
+  return parseFloat((Math.round(value / tick) * tick).toFixed(decimals));
+}
+
+export function estimateLiquidationPrice(
+  direction: 'LONG' | 'SHORT',
+  entryPrice: number,
+  leverage: number,
+  maintenanceMarginRate: number
+): number {
+  return direction === 'LONG'
+    ? entryPrice * (1 - 1 / leverage + maintenanceMarginRate)
+    : entryPrice * (1 + 1 / leverage - maintenanceMarginRate);
+}
+
+export function calculatePositionSizing(
+  config: SizingConfig,
+  equity: number,
+  direction: 'LONG' | 'SHORT',
+  entryPrice: number,
+  slPrice: number,
+  filters: SymbolFilters
+): PositionSizing {
+  const notes: string[] = [];
+  const stopDistance = Math.abs(entryPrice - slPrice);
+  const stopPct = stopDistance / entryPrice;
+  const leverage = config.maxLeverage;
+  const mmr = config.maintenanceMarginRate;
+
+  // Liquidation distance (fraction of entry) = 1/leverage − mmr must exceed the stop with buffer
+  const safeDistance = stopPct * (1 + config.liquidationBuffer);
+  const maxSafeLeverage = Math.max(1, Math.floor(1 / (safeDistance + mmr)));
+  const liquidationPrice = roundToTick(estimateLiquidationPrice(direction, entryPrice, leverage, mmr), filters.tickSize);
+
+  const refused = (note: string): PositionSizing => ({
+    status: 'refused',
+    quantity: 0,
+    notional: 0,
+    requiredMargin: 0,
+    leverage,
+    liquidationPrice,
+    riskAmount: 0,
+    maxSafeLeverage,
+    notes: [...notes, note],
+  });
+
+  if (stopDistance === 0 || equity <= 0) {
+    return refused('Нулевой риск или нет капитала');
+  }
+
+  const liquidationDistance = 1 / leverage - mmr;
+  if (liquidationDistance <= stopPct) {
+    return refused(`Ликвидация внутри стопа при ${leverage}x (безопасно ≤ ${maxSafeLeverage}x)`);
+  }
+
+  let quantity = roundToStep(equity * config.riskPercent / 100 / stopDistance, filters.stepSize);
+
+  // Margin above equity → cut the size to what the account can open at this leverage
+  const maxQuantity = roundToStep(equity * leverage / entryPrice, filters.stepSize);
+  if (quantity > maxQuantity) {
+    quantity = maxQuantity;
+    notes.push(`Размер урезан по марже (${leverage}x), риск ниже ${config.riskPercent}%`);
+  }
+
+  if (quantity <= 0 || quantity < filters.minQty) {
+    return refused(`Размер меньше минимального лота (${filters.minQty})`);
+  }
+
+  if (liquidationDistance < safeDistance) {
+    notes.push(`Ликвидация близко к стопу (безопасно ≤ ${maxSafeLeverage}x)`);
+  }
+
+  const notional = quantity * entryPrice;
+  return {
+    status: notes.length > 0 ? 'warning' : 'ok',
+    quantity,
+    notional,
+    requiredMargin: notional / leverage,
+    leverage,
+    liquidationPrice,
+    riskAmount: quantity * stopDistance,
+    maxSafeLeverage,
+    notes,
+  };
+}
@@ -309,6 +309,11 @@ export class RiskCalculator {
       return direction === 'LONG' ? C1.low : C1.high;
     }
 
+    if (/^(insidebar|star|threebar|tweezer)_/.test(patternType) && C1) {
+      // Multi-bar patterns: stop beyond the last two bars (inside bar / star / swing bar / first tweezer)
+      return direction === 'LONG' ? Math.min(C0.low, C1.low) : Math.max(C0.high, C1.high);
+    }
+
     // All other patterns use C0 extreme
     return direction === 'LONG' ? C0.low : C0.high;
   }
@@ -516,14 +521,21 @@ export class RiskCalculator {
     tp2: number,
     tp3: number | null,
     direction: 'LONG' | 'SHORT',
-    currentStatus: string
-  ): { newStatus: string; newSl?: number } {
+    currentStatus: string,
+    sameCandlePriority: 'tp' | 'sl' = 'tp'
+  ): { newStatus: string; newSl?: number; ambiguous: boolean } {
     // Check high/low of ALL recent candles (including current open candle)
     // Priority: TP3 > TP2 > TP1 > SL (if multiple hit in same candle, highest TP takes precedence)
+    // sameCandlePriority 'sl': a range that touches both the stop and a TP not reached yet is an SL
+    // (which level traded first is unknown → ambiguous: true, see utils/ambiguityPolicy.ts)
     // 
     // Breakeven logic:
     // - After TP1 hit: SL moves to entry price (breakeven)
     // - After TP2 hit: SL moves to TP1 (lock in 1R profit)
+    //
+    // Signals still tracked after a TP (trailing runner) only check the TPs not reached yet,
+    // so a stop trailed beyond TP1 can still be hit
+    const tpReached = currentStatus === 'TP2_HIT' ? 2 : currentStatus === 'TP1_HIT' ? 1 : 0;
     
     // Find the overall high/low across all candles
     const high = Math.max(...candles.map(c => Number(c.high)));
@@ -541,6 +553,35 @@ export class RiskCalculator {
       status: currentStatus,
     });
 
+    const slTouched = direction === 'LONG' ? low <= currentSl : high >= currentSl;
+    const tpTouched = direction === 'LONG'
+      ? (!!tp3 && high >= tp3) || (tpReached < 2 && high >= tp2) || (tpReached < 1 && high >= tp1)
+      : (!!tp3 && low <= tp3) || (tpReached < 2 && low <= tp2) || (tpReached < 1 && low <= tp1);
+    const ambiguous = slTouched && tpTouched;
+
+    if (ambiguous && sameCandlePriority === 'sl') {
+      console.log(`⚠️ [RiskCalculator] Both TP and SL hit in same range! Prioritizing SL (conservative)`);
+      return { newStatus: 'SL_HIT', ambiguous };
+    }
+
+    return { ...this.resolveRangeTpFirst(high, low, entryPrice, currentSl, tp1, tp2, tp3, direction, currentStatus, tpReached), ambiguous };
+  }
+
+  /**
+   * TP-first resolution of a high/low range (legacy optimistic behaviour)
+   */
+  private resolveRangeTpFirst(
+    high: number,
+    low: number,
+    entryPrice: number,
+    currentSl: number,
+    tp1: number,
+    tp2: number,
+    tp3: number | null,
+    direction: 'LONG' | 'SHORT',
+    currentStatus: string,
+    tpReached: number
+  ): { newStatus: string; newSl?: number } {
     if (direction === 'LONG') {
       // LONG: Check TPs in priority order (TP3 > TP2 > TP1)
       
@@ -551,14 +592,14 @@ export class RiskCalculator {
       }
       
       // Check TP2
-      if (high >= tp2) {
+      if (tpReached < 2 && high >= tp2) {
         console.log(`🎯🎯 [RiskCalculator] TP2 HIT! high=${high.toFixed(8)} >= tp2=${tp2.toFixed(8)}`);
         // Move SL to TP1 (lock in 1R profit)
         return { newStatus: 'TP2_HIT', newSl: tp1 };
       }
       
       // Check TP1
-      if (high >= tp1) {
+      if (tpReached < 1 && high >= tp1) {
         console.log(`🎯 [RiskCalculator] TP1 HIT! high=${high.toFixed(8)} >= tp1=${tp1.toFixed(8)}`);
         // Move SL to breakeven (entry price)
         return { newStatus: 'TP1_HIT', newSl: entryPrice };
@@ -571,11 +612,11 @@ export class RiskCalculator {
           console.log(`⚠️ [RiskCalculator] Both TP3 and SL hit in same candle! Prioritizing TP3`);
           return { newStatus: 'TP3_HIT' };
         }
-        if (high >= tp2) {
+        if (tpReached < 2 && high >= tp2) {
           console.log(`⚠️ [RiskCalculator] Both TP2 and SL hit in same candle! Prioritizing TP2`);
           return { newStatus: 'TP2_HIT', newSl: tp1 };
         }
-        if (high >= tp1) {
+        if (tpReached < 1 && high >= tp1) {
           console.log(`⚠️ [RiskCalculator] Both TP1 and SL hit in same candle! Prioritizing TP1`);
           return { newStatus: 'TP1_HIT', newSl: entryPrice };
         }
@@ -592,14 +633,14 @@ export class RiskCalculator {
       }
       
       // Check TP2
-      if (low <= tp2) {
+      if (tpReached < 2 && low <= tp2) {
         console.log(`🎯🎯 [RiskCalculator] TP2 HIT! low=${low.toFixed(8)} <= tp2=${tp2.toFixed(8)}`);
         // Move SL to TP1 (lock in 1R profit)
         return { newStatus: 'TP2_HIT', newSl: tp1 };
       }
       
       // Check TP1
-      if (low <= tp1) {
+      if (tpReached < 1 && low <= tp1) {
         console.log(`🎯 [RiskCalculator] TP1 HIT! low=${low.toFixed(8)} <= tp1=${tp1.toFixed(8)}`);
         // Move SL to breakeven (entry price)
         return { newStatus: 'TP1_HIT', newSl: entryPrice };
@@ -612,11 +653,11 @@ export class RiskCalculator {
           console.log(`⚠️ [RiskCalculator] Both TP3 and SL hit in same candle! Prioritizing TP3`);
           return { newStatus: 'TP3_HIT' };
         }
-        if (low <= tp2) {
+        if (tpReached < 2 && low <= tp2) {
           console.log(`⚠️ [RiskCalculator] Both TP2 and SL hit in same candle! Prioritizing TP2`);
           return { newStatus: 'TP2_HIT', newSl: tp1 };
         }
-        if (low <= tp1) {
+        if (tpReached < 1 && low <= tp1) {
           console.log(`⚠️ [RiskCalculator] Both TP1 and SL hit in same candle! Prioritizing TP1`);
           return { newStatus: 'TP1_HIT', newSl: entryPrice };
         }
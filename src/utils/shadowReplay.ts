@@ -0,0 +1,181 @@
+/**
+ * Shadow Replay - counterfactual outcome of a skipped candidate
+ *
+ * Replays closed 1m candles from the hypothetical entry until the first TP/SL touch
+ * or the timeout, with the same first-touch rules as the live tracker
+ * (riskCalculator.checkSignalStatusWithCandles per candle, TP priority inside one candle).
+ * Replay is incremental: the returned state is stored and the next pass continues from it.
+ */
+
+import type { Candle, ExchangeClient } from './exchanges/types';
+import { riskCalculator } from './riskCalculator';
+
+export type ShadowOutcome = 'tp1' | 'tp2' | 'tp3' | 'sl' | 'timeout';
+
+/**
+ * SL/TP the skipped candidate would have traded with
+ * - dynamic:  calculateDynamicRiskProfile (1h/4h confluence / R:R skips)
+ * - standard: calculateStandardPlan (ML filter skips)
+ * - 15m:      calculate15mRiskProfile (15m trend skips)
+ */
+export interface CandidatePlan {
+  source: 'dynamic' | 'standard' | '15m';
+  sl: number;
+  tp1: number;
+  tp2: number;
+  tp3: number | null;
+}
+
+export interface ShadowPlan extends CandidatePlan {
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  entryTime: number; // ms
+  deadline: number;  // ms, no touch before this → timeout
+}
+
+export interface ShadowReplayState {
+  mfeR: number;
+  maeR: number;
+  replayedUntil: number; // openTime of the next 1m candle to replay
+  lastClose: number | null;
+}
+
+export interface ShadowReplayResult extends ShadowReplayState {
+  outcome: ShadowOutcome | null; // null = still running
+  pnlR: number | null;
+  timeToFirstTouchMin: number | null;
+}
+
+const MINUTE_MS = 60_000;
+export const MAX_CANDLES_PER_PASS = 1500; // Binance /fapi/v1/klines max limit
+
+// How long a shadow position may stay open before it counts as timeout
+export const SHADOW_TIMEOUT_MS: Record<string, number> = {
+  '15m': 12 * 60 * MINUTE_MS,
+  '1h': 24 * 60 * MINUTE_MS,
+  '4h': 72 * 60 * MINUTE_MS,
+};
+
+export function getShadowTimeoutMs(entryTf: string): number {
+  return SHADOW_TIMEOUT_MS[entryTf] ?? SHADOW_TIMEOUT_MS['1h'];
+}
+
+/**
+ * Plan is usable only if SL is on the losing side and TP1 on the winning side of entry
+ */
+export function isValidCandidatePlan(direction: 'LONG' | 'SHORT', entryPrice: number, plan: CandidatePlan): boolean {
+  if (![plan.sl, plan.tp1, plan.tp2].every(Number.isFinite)) return false;
+  return direction === 'LONG'
+    ? plan.sl < entryPrice && plan.tp1 > entryPrice
+    : plan.sl > entryPrice && plan.tp1 < entryPrice;
+}
+
+export function initialReplayState(entryTime: number): ShadowReplayState {
+  return {
+    mfeR: 0,
+    maeR: 0,
+    replayedUntil: Math.floor(entryTime / MINUTE_MS) * MINUTE_MS,
+    lastClose: null,
+  };
+}
+
+/**
+ * Closed 1m candles from the replay cursor up to the deadline (oldest first)
+ * Fetched from the cursor, not "last N": after downtime the replay continues where it stopped
+ * instead of jumping to the latest minutes (and never reaching a deadline that passed meanwhile)
+ */
+export async function fetchReplayCandles(
+  client: Pick<ExchangeClient, 'getKlinesSince'>,
+  symbol: string,
+  plan: ShadowPlan,
+  state: ShadowReplayState,
+  maxCandles: number = MAX_CANDLES_PER_PASS
+): Promise<Candle[]> {
+  if (state.replayedUntil >= plan.deadline) return [];
+  const candles = await client.getKlinesSince(symbol, '1m', state.replayedUntil);
+  return candles
+    .filter(c => c.openTime >= state.replayedUntil && c.openTime < plan.deadline)
+    .slice(0, maxCandles);
+}
+
+const STATUS_TO_OUTCOME: Record<string, ShadowOutcome> = {
+  TP1_HIT: 'tp1',
+  TP2_HIT: 'tp2',
+  TP3_HIT: 'tp3',
+  SL_HIT: 'sl',
+};
+
+/**
+ * Continue the replay over new closed 1m candles (candles already replayed are skipped)
+ */
+export function replayShadow(plan: ShadowPlan, candles: Candle[], state: ShadowReplayState): ShadowReplayResult {
+  const { direction, entryPrice, sl, tp1, tp2 } = plan;
+  const riskPts = Math.abs(entryPrice - sl);
+  const toR = (price: number) => (direction === 'LONG' ? price - entryPrice : entryPrice - price) / riskPts;
+
+  // Same TP3 tolerance as SignalTracker: tp3 ≈ tp2 → single-level TP
+  const tp3EqualsTP2 = plan.tp3 !== null && Math.abs(plan.tp3 - tp2) < tp2 * 0.0001;
+  const tp3ForCheck = tp3EqualsTP2 ? null : plan.tp3;
+
+  let { mfeR, maeR, replayedUntil, lastClose } = state;
+
+  for (const candle of candles) {
+    if (candle.openTime < replayedUntil) continue;
+    if (candle.openTime >= plan.deadline) break;
+
+    const high = Number(candle.high);
+    const low = Number(candle.low);
+    const favorable = direction === 'LONG' ? high : low;
+    const adverse = direction === 'LONG' ? low : high;
+    mfeR = Math.max(mfeR, toR(favorable));
+    maeR = Math.min(maeR, toR(adverse));
+    replayedUntil = candle.openTime + MINUTE_MS;
+    lastClose = Number(candle.close);
+
+    // Cheap pre-check before the (logging) tracker rule
+    const touched = direction === 'LONG'
+      ? high >= tp1 || low <= sl
+      : low <= tp1 || high >= sl;
+    if (!touched) continue;
+
+    const { newStatus } = riskCalculator.checkSignalStatusWithCandles(
+      [candle],
+      lastClose,
+      entryPrice,
+      sl,
+      tp1,
+      tp2,
+      tp3ForCheck,
+      direction,
+      'OPEN'
+    );
+
+    const outcome = STATUS_TO_OUTCOME[newStatus];
+    if (!outcome) continue;
+
+    const exitPrice = outcome === 'tp1' ? tp1 : outcome === 'tp2' ? tp2 : outcome === 'tp3' ? tp3ForCheck! : sl;
+    return {
+      outcome,
+      pnlR: toR(exitPrice),
+      timeToFirstTouchMin: Math.max(0, Math.round((candle.closeTime + 1 - plan.entryTime) / MINUTE_MS)),
+      mfeR,
+      maeR,
+      replayedUntil,
+      lastClose,
+    };
+  }
+
+  if (replayedUntil >= plan.deadline) {
+    return {
+      outcome: 'timeout',
+      pnlR: lastClose !== null ? toR(lastClose) : null, // Mark-to-market at timeout
+      timeToFirstTouchMin: null,
+      mfeR,
+      maeR,
+      replayedUntil,
+      lastClose,
+    };
+  }
+
+  return { outcome: null, pnlR: null, timeToFirstTouchMin: null, mfeR, maeR, replayedUntil, lastClose };
+}
@@ -0,0 +1,76 @@
+/**
+ * Signal Expiry - max holding time per timeframe and strategy profile
+ *
+ * Max holding = base hours of the signal timeframe × profile multiplier.
+ * When it passes, the tracker closes the remaining position at market with status TIMEOUT
+ * (a sideways 15m scalp must not stay OPEN for days and block hasOpenSignal).
+ *
+ * Env overrides:
+ *   MAX_HOLDING_HOURS="15m:12,1h:48,4h:168"
+ *   MAX_HOLDING_MULTIPLIERS="SCALP_15M:0.5,TREND_FOLLOWING:2"
+ */
+
+const HOUR_MS = 60 * 60_000;
+
+export const MAX_HOLDING_HOURS: Record<string, number> = {
+  '15m': 12,
+  '1h': 48,
+  '4h': 168,
+};
+
+const DEFAULT_MAX_HOLDING_HOURS = 48;
+
+export const PROFILE_HOLDING_MULTIPLIERS: Record<string, number> = {
+  SCALP: 0.5,
+  SCALP_15M: 0.5,
+  CONSERVATIVE: 1,
+  BALANCED: 1,
+  AGGRESSIVE: 1,
+  TREND_FOLLOWING: 2,
+};
+
+function parseNumberMap(raw: string | undefined, name: string): Record<string, number> {
+  const values: Record<string, number> = {};
+  if (!raw) return values;
+
+  for (const entry of raw.split(',')) {
+    const [key, value] = entry.split(':').map(part => part.trim());
+    const parsed = parseFloat(value);
+    if (key && Number.isFinite(parsed) && parsed > 0) {
+      values[key] = parsed;
+    } else if (entry.trim()) {
+      console.warn(`⚠️ [SignalExpiry] Ignoring invalid ${name} entry: "${entry}"`);
+    }
+  }
+  return values;
+}
+
+export function getMaxHoldingMs(
+  timeframe: string,
+  strategyProfile: string | null | undefined,
+  env: { hours?: string; multipliers?: string } = {
+    hours: process.env.MAX_HOLDING_HOURS,
+    multipliers: process.env.MAX_HOLDING_MULTIPLIERS,
+  }
+): number {
+  const hours = { ...MAX_HOLDING_HOURS, ...parseNumberMap(env.hours, 'MAX_HOLDING_HOURS') };
+  const multipliers = { ...PROFILE_HOLDING_MULTIPLIERS, ...parseNumberMap(env.multipliers, 'MAX_HOLDING_MULTIPLIERS') };
+
+  const baseHours = hours[timeframe] ?? DEFAULT_MAX_HOLDING_HOURS;
+  const multiplier = strategyProfile ? multipliers[strategyProfile] ?? 1 : 1;
+  return baseHours * multiplier * HOUR_MS;
+}
+
+export interface ExpirableSignal {
+  timeframe: string;
+  strategyProfile: string | null;
+  createdAt: Date;
+}
+
+export function getExpiryTime(signal: ExpirableSignal): number {
+  return signal.createdAt.getTime() + getMaxHoldingMs(signal.timeframe, signal.strategyProfile);
+}
+
+export function isSignalExpired(signal: ExpirableSignal, now: number = Date.now()): boolean {
+  return now >= getExpiryTime(signal);
+}
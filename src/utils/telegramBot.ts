@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { signalDB } from '../mastra/storage/db';
+import { paperAccount } from '../services/paperAccount';
 
 export class TelegramBot {
   private botToken: string;
@@ -41,6 +42,7 @@ export class TelegramBot {
     const commands = [
       { command: 'start', description: '🚀 Запустить бота' },
       { command: 'stats', description: '📊 Статистика сигналов' },
+      { command: 'account', description: '🏦 Виртуальный счёт' },
       { command: 'help', description: '❓ Помощь' },
       { command: 'status', description: '📈 Статус сканера' },
     ];
@@ -63,7 +65,7 @@ export class TelegramBot {
 
 📊 <b>Настройки сканирования:</b>
 • Таймфреймы: 15m, 1h, 4h
-• Паттерны: Pin Bar, Fakey, ППР, Engulfing
+• Паттерны: Pin Bar, Fakey, ППР, Engulfing, Inside Bar, Star, Three-Bar, Tweezer
 • Минимальный объем: 20M USDT
 • Только USDT пары
 
@@ -79,6 +81,7 @@ export class TelegramBot {
 
 📱 <b>Доступные команды:</b>
 /stats - Статистика по сигналам
+/account - Виртуальный счёт
 /status - Статус сканера
 /help - Помощь
 
@@ -105,6 +108,9 @@ export class TelegramBot {
         case '/stats':
           await this.handleStatsCommand(chatId);
           break;
+        case '/account':
+          await this.handleAccountCommand(chatId);
+          break;
         default:
           await this.sendMessage('❓ Неизвестная команда. Используйте /help', chatId);
       }
@@ -121,7 +127,7 @@ export class TelegramBot {
 Я автоматически сканирую рынок криптовалют и нахожу паттерны для торговли.
 
 📊 <b>Что я умею:</b>
-• Поиск 4 паттернов: Pin Bar, Fakey, ППР, Engulfing
+• Поиск 8 паттернов: Pin Bar, Fakey, ППР, Engulfing, Inside Bar, Star, Three-Bar, Tweezer
 • Мониторинг таймфреймов: 15m, 1h, 4h
 • Автоматический расчет Entry, SL, TP1, TP2
 • Перенос SL в breakeven после TP1
@@ -129,6 +135,7 @@ export class TelegramBot {
 
 📱 <b>Команды:</b>
 /stats - Статистика сигналов
+/account - Виртуальный счёт
 /status - Статус сканера
 /help - Подробная помощь
 
@@ -145,11 +152,12 @@ export class TelegramBot {
 📱 <b>Команды:</b>
 /start - Приветственное сообщение
 /stats - Детальная статистика по сигналам
+/account - Виртуальный счёт (баланс, просадка, позиции)
 /status - Текущий статус и расписание
 /help - Эта справка
 
 🔍 <b>Функции бота:</b>
-• Автоматическое сканирование 4 паттернов: Pin Bar, Fakey, ППР, Engulfing
+• Автоматическое сканирование 8 паттернов: Pin Bar, Fakey, ППР, Engulfing, Inside Bar, Star, Three-Bar, Tweezer
 • Мониторинг 3 таймфреймов: 15m, 1h, 4h
 • Только USDT пары с объемом >20M
 • Автоматический расчет Entry, SL, TP1 (1R), TP2 (2R)
@@ -192,7 +200,7 @@ export class TelegramBot {
 Каждые 5 минут проверяю открытые сигналы и автоматически переношу SL в breakeven после достижения TP1.
 
 📊 <b>Настройки:</b>
-• Паттерны: Pin Bar, Fakey, ППР, Engulfing
+• Паттерны: Pin Bar, Fakey, ППР, Engulfing, Inside Bar, Star, Three-Bar, Tweezer
 • Таймфреймы: 15m, 1h, 4h
 • Минимальный объем: 20M USDT
 • Только USDT пары
@@ -223,7 +231,7 @@ export class TelegramBot {
       return;
     }
 
-    const closedSignals = stats.tp1Hit + stats.tp2Hit + stats.tp3Hit + stats.breakevenHit + stats.slHit;
+    const closedSignals = stats.tp1Hit + stats.tp2Hit + stats.tp3Hit + stats.breakevenHit + stats.slHit + stats.timeoutHit;
     const winRate1 = closedSignals > 0 
       ? ((stats.tp1Hit + stats.tp2Hit + stats.tp3Hit + stats.breakevenHit) / closedSignals * 100).toFixed(1)
       : '0.0';
@@ -250,6 +258,7 @@ export class TelegramBot {
 • TP3 достигнут: ${stats.tp3Hit}
 • Breakeven: ${stats.breakevenHit} ⚖️
 • SL сработал: ${stats.slHit}
+• Закрыто по времени: ${stats.timeoutHit} ⏰
 
 📊 <b>Win Rate:</b>
 • Win rate (TP1+TP2+TP3+BE): ${winRate1}%
@@ -261,22 +270,28 @@ ${avgPnlEmoji} <b>Средний PnL: ${parseFloat(avgPnl) >= 0 ? '+' : ''}${avg
 • PnL+: ${stats.pnlPositive.toFixed(2)}%
 • PnL-: ${stats.pnlNegative.toFixed(2)}%
 
+💸 <b>Gross → Net (комиссии, проскальзывание, фандинг):</b>
+• ${stats.pnlNet >= 0 ? '+' : ''}${stats.pnlNet.toFixed(2)}% → ${stats.pnlAfterCosts >= 0 ? '+' : ''}${stats.pnlAfterCosts.toFixed(2)}%
+• ${stats.pnlRNet >= 0 ? '+' : ''}${stats.pnlRNet.toFixed(2)}R → ${stats.pnlRAfterCosts >= 0 ? '+' : ''}${stats.pnlRAfterCosts.toFixed(2)}R
+• Комиссии: ${stats.feesR.toFixed(2)}R | Проскальзывание: ${stats.slippageR.toFixed(2)}R | Фандинг: ${stats.fundingR.toFixed(2)}R${stats.withoutCostModel > 0 ? `\n• Без модели издержек: ${stats.withoutCostModel} (gross, см. scripts/check-pnl-recalculation.ts --costs)` : ''}
+
 `;
 
     // Statistics by pattern
     if (Object.keys(stats.byPattern).length > 0) {
       message += `📊 <b>По паттернам:</b>\n`;
       for (const [pattern, pStatsRaw] of Object.entries(stats.byPattern)) {
-        const pStats = pStatsRaw as { total: number; tp1: number; tp2: number; tp3: number; breakeven: number; sl: number; open: number; pnlPositive: number; pnlNegative: number; pnlNet: number };
-        const pClosedSignals = pStats.tp1 + pStats.tp2 + pStats.tp3 + pStats.breakeven + pStats.sl;
+        const pStats = pStatsRaw as { total: number; tp1: number; tp2: number; tp3: number; breakeven: number; sl: number; timeout: number; open: number; pnlPositive: number; pnlNegative: number; pnlNet: number; pnlRNet: number; pnlRAfterCosts: number };
+        const pClosedSignals = pStats.tp1 + pStats.tp2 + pStats.tp3 + pStats.breakeven + pStats.sl + pStats.timeout;
         const pWinRate = pClosedSignals > 0
           ? (((pStats.tp1 + pStats.tp2 + pStats.tp3 + pStats.breakeven) / pClosedSignals) * 100).toFixed(1)
           : '0.0';
         message += `\n<b>${pattern}:</b>\n`;
         message += `  • Всего: ${pStats.total} | Закрыто: ${pClosedSignals}\n`;
-        message += `  • TP1: ${pStats.tp1} | TP2: ${pStats.tp2} | TP3: ${pStats.tp3} | BE: ${pStats.breakeven} | SL: ${pStats.sl}\n`;
+        message += `  • TP1: ${pStats.tp1} | TP2: ${pStats.tp2} | TP3: ${pStats.tp3} | BE: ${pStats.breakeven} | SL: ${pStats.sl} | TIMEOUT: ${pStats.timeout}\n`;
         message += `  • Win rate: ${pWinRate}%\n`;
         message += `  • PnL: ${pStats.pnlNet >= 0 ? '+' : ''}${pStats.pnlNet.toFixed(2)}% (${pStats.pnlPositive.toFixed(2)}% / ${pStats.pnlNegative.toFixed(2)}%)\n`;
+        message += `  • R: ${pStats.pnlRNet >= 0 ? '+' : ''}${pStats.pnlRNet.toFixed(2)}R → ${pStats.pnlRAfterCosts >= 0 ? '+' : ''}${pStats.pnlRAfterCosts.toFixed(2)}R\n`;
       }
       message += '\n';
     }
@@ -285,14 +300,14 @@ ${avgPnlEmoji} <b>Средний PnL: ${parseFloat(avgPnl) >= 0 ? '+' : ''}${avg
     if (Object.keys(stats.byTimeframe).length > 0) {
       message += `⏱ <b>По таймфреймам:</b>\n`;
       for (const [tf, tfStatsRaw] of Object.entries(stats.byTimeframe)) {
-        const tfStats = tfStatsRaw as { total: number; tp1: number; tp2: number; tp3: number; breakeven: number; sl: number; open: number; pnlPositive: number; pnlNegative: number; pnlNet: number };
-        const tfClosedSignals = tfStats.tp1 + tfStats.tp2 + tfStats.tp3 + tfStats.breakeven + tfStats.sl;
+        const tfStats = tfStatsRaw as { total: number; tp1: number; tp2: number; tp3: number; breakeven: number; sl: number; timeout: number; open: number; pnlPositive: number; pnlNegative: number; pnlNet: number };
+        const tfClosedSignals = tfStats.tp1 + tfStats.tp2 + tfStats.tp3 + tfStats.breakeven + tfStats.sl + tfStats.timeout;
         const tfWinRate = tfClosedSignals > 0
           ? (((tfStats.tp1 + tfStats.tp2 + tfStats.tp3 + tfStats.breakeven) / tfClosedSignals) * 100).toFixed(1)
           : '0.0';
         message += `\n<b>${tf}:</b>\n`;
         message += `  • Всего: ${tfStats.total} | Закрыто: ${tfClosedSignals}\n`;
-        message += `  • TP1: ${tfStats.tp1} | TP2: ${tfStats.tp2} | TP3: ${tfStats.tp3} | BE: ${tfStats.breakeven} | SL: ${tfStats.sl}\n`;
+        message += `  • TP1: ${tfStats.tp1} | TP2: ${tfStats.tp2} | TP3: ${tfStats.tp3} | BE: ${tfStats.breakeven} | SL: ${tfStats.sl} | TIMEOUT: ${tfStats.timeout}\n`;
         message += `  • Win rate: ${tfWinRate}%\n`;
         message += `  • PnL: ${tfStats.pnlNet >= 0 ? '+' : ''}${tfStats.pnlNet.toFixed(2)}% (${tfStats.pnlPositive.toFixed(2)}% / ${tfStats.pnlNegative.toFixed(2)}%)\n`;
       }
@@ -300,8 +315,8 @@ ${avgPnlEmoji} <b>Средний PnL: ${parseFloat(avgPnl) >= 0 ? '+' : ''}${avg
     }
 
     // Statistics by direction
-    const longClosedSignals = stats.byDirection.LONG.tp1 + stats.byDirection.LONG.tp2 + stats.byDirection.LONG.tp3 + stats.byDirection.LONG.breakeven + stats.byDirection.LONG.sl;
-    const shortClosedSignals = stats.byDirection.SHORT.tp1 + stats.byDirection.SHORT.tp2 + stats.byDirection.SHORT.tp3 + stats.byDirection.SHORT.breakeven + stats.byDirection.SHORT.sl;
+    const longClosedSignals = stats.byDirection.LONG.tp1 + stats.byDirection.LONG.tp2 + stats.byDirection.LONG.tp3 + stats.byDirection.LONG.breakeven + stats.byDirection.LONG.sl + stats.byDirection.LONG.timeout;
+    const shortClosedSignals = stats.byDirection.SHORT.tp1 + stats.byDirection.SHORT.tp2 + stats.byDirection.SHORT.tp3 + stats.byDirection.SHORT.breakeven + stats.byDirection.SHORT.sl + stats.byDirection.SHORT.timeout;
     const longWinRate = longClosedSignals > 0
       ? (((stats.byDirection.LONG.tp1 + stats.byDirection.LONG.tp2 + stats.byDirection.LONG.tp3 + stats.byDirection.LONG.breakeven) / longClosedSignals) * 100).toFixed(1)
       : '0.0';
@@ -314,20 +329,64 @@ ${avgPnlEmoji} <b>Средний PnL: ${parseFloat(avgPnl) >= 0 ? '+' : ''}${avg
 
 <b>LONG:</b>
   • Всего: ${stats.byDirection.LONG.total} | Закрыто: ${longClosedSignals}
-  • TP1: ${stats.byDirection.LONG.tp1} | TP2: ${stats.byDirection.LONG.tp2} | TP3: ${stats.byDirection.LONG.tp3} | BE: ${stats.byDirection.LONG.breakeven} | SL: ${stats.byDirection.LONG.sl}
+  • TP1: ${stats.byDirection.LONG.tp1} | TP2: ${stats.byDirection.LONG.tp2} | TP3: ${stats.byDirection.LONG.tp3} | BE: ${stats.byDirection.LONG.breakeven} | SL: ${stats.byDirection.LONG.sl} | TIMEOUT: ${stats.byDirection.LONG.timeout}
   • Win rate: ${longWinRate}%
   • PnL: ${stats.byDirection.LONG.pnlNet >= 0 ? '+' : ''}${stats.byDirection.LONG.pnlNet.toFixed(2)}% (${stats.byDirection.LONG.pnlPositive.toFixed(2)}% / ${stats.byDirection.LONG.pnlNegative.toFixed(2)}%)
 
 <b>SHORT:</b>
   • Всего: ${stats.byDirection.SHORT.total} | Закрыто: ${shortClosedSignals}
-  • TP1: ${stats.byDirection.SHORT.tp1} | TP2: ${stats.byDirection.SHORT.tp2} | TP3: ${stats.byDirection.SHORT.tp3} | BE: ${stats.byDirection.SHORT.breakeven} | SL: ${stats.byDirection.SHORT.sl}
+  • TP1: ${stats.byDirection.SHORT.tp1} | TP2: ${stats.byDirection.SHORT.tp2} | TP3: ${stats.byDirection.SHORT.tp3} | BE: ${stats.byDirection.SHORT.breakeven} | SL: ${stats.byDirection.SHORT.sl} | TIMEOUT: ${stats.byDirection.SHORT.timeout}
   • Win rate: ${shortWinRate}%
   • PnL: ${stats.byDirection.SHORT.pnlNet >= 0 ? '+' : ''}${stats.byDirection.SHORT.pnlNet.toFixed(2)}% (${stats.byDirection.SHORT.pnlPositive.toFixed(2)}% / ${stats.byDirection.SHORT.pnlNegative.toFixed(2)}%)
 `;
 
+    // Statistics by same-candle SL/TP policy
+    if (Object.keys(stats.byAmbiguityPolicy).length > 0) {
+      message += `
+⚖️ <b>SL/TP в одной свече (политика):</b>
+`;
+      for (const [policy, aStatsRaw] of Object.entries(stats.byAmbiguityPolicy)) {
+        const aStats = aStatsRaw as { total: number; closed: number; wins: number; ambiguous: number; pnlRNet: number; pnlRAfterCosts: number };
+        const aWinRate = aStats.closed > 0 ? ((aStats.wins / aStats.closed) * 100).toFixed(1) : '0.0';
+        message += `  • ${policy}: ${aStats.total} (закрыто ${aStats.closed}, спорных ${aStats.ambiguous}) | WR ${aWinRate}% | ${aStats.pnlRNet >= 0 ? '+' : ''}${aStats.pnlRNet.toFixed(2)}R → net ${aStats.pnlRAfterCosts >= 0 ? '+' : ''}${aStats.pnlRAfterCosts.toFixed(2)}R\n`;
+      }
+    }
+
     await this.sendMessage(message.trim(), chatId);
   }
 
+  private async handleAccountCommand(chatId: string): Promise<void> {
+    console.log('🏦 [TelegramBot] Fetching paper account...');
+
+    const account = await paperAccount.getSummary();
+    const sign = (value: number) => (value >= 0 ? '+' : '');
+    const returnEmoji = account.returnPct > 0 ? '✅' : account.returnPct < 0 ? '❌' : '⚪';
+    const winRate = account.closedTrades > 0
+      ? (account.winningTrades / account.closedTrades * 100).toFixed(1)
+      : '0.0';
+
+    const message = `
+🏦 <b>ВИРТУАЛЬНЫЙ СЧЁТ</b>
+
+💰 <b>Баланс:</b> ${account.balance.toFixed(2)} USDT (старт ${account.initialBalance.toFixed(2)})
+${returnEmoji} <b>Доходность:</b> ${sign(account.returnPct)}${account.returnPct.toFixed(2)}%
+• Реализованный PnL: ${sign(account.realizedPnl)}${account.realizedPnl.toFixed(2)} USDT
+• Комиссии: -${account.fees.toFixed(2)} USDT
+
+📉 <b>Просадка:</b>
+• Максимальная: ${account.maxDrawdownPct.toFixed(2)}%
+• Текущая: ${account.currentDrawdownPct.toFixed(2)}%
+
+📊 <b>Сделки:</b>
+• Открыто позиций: ${account.openPositions} (риск ${account.openRisk.toFixed(2)} USDT)
+• Закрыто: ${account.closedTrades} | В плюс: ${account.winningTrades} (${winRate}%)
+
+⚙️ Риск на сделку: ${account.riskPercent}% от баланса
+    `.trim();
+
+    await this.sendMessage(message, chatId);
+  }
+
   async startPolling(): Promise<void> {
     if (!this.botToken) {
       console.error('❌ [TelegramBot] Cannot start polling: bot token not configured');
@@ -0,0 +1,85 @@
+/**
+ * Tracker Catch-Up - sequential 1m replay of an active signal since the last processed minute
+ *
+ * After a restart or an exchange outage the tracker fetches every 1m candle since
+ * signal.lastProcessedMinute and applies them one by one, so TP1 → breakeven → TP2
+ * transitions (and SL hits after them) happen in the same order as if it had never stopped.
+ * - Trailing updates run at every signal-timeframe boundary, before the first 1m candle of the new bar
+ * - Max holding time closes the signal at the open of the first 1m candle past the limit (as the backtester)
+ */
+
+import type { Candle } from './exchanges/types';
+
+export const MINUTE_MS = 60_000;
+
+export function floorToMinute(ms: number): number {
+  return Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+}
+
+export interface CatchUpSignal {
+  status: string;
+  trailingActivated: boolean | null;
+  lastProcessedMinute: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * openTime of the first 1m candle still to apply
+ * Signals without progress (created before catch-up existed): from creation if nothing happened yet,
+ * otherwise from the last state change (older candles were already applied, replaying them
+ * against a moved SL would produce false stop hits)
+ */
+export function getCatchUpStart(signal: CatchUpSignal): number {
+  if (signal.lastProcessedMinute !== null) {
+    return signal.lastProcessedMinute + MINUTE_MS;
+  }
+  const untouched = signal.status === 'OPEN' && !signal.trailingActivated;
+  return floorToMinute((untouched ? signal.createdAt : signal.updatedAt).getTime());
+}
+
+export interface CatchUpSteps<S> {
+  expiresAt: number;                                     // ms, max holding time
+  isTracked(signal: S): boolean;                         // still followed after a status change
+  trail?(signal: S, boundary: number): Promise<S>;       // signal-timeframe candle closed at `boundary`
+  expire(signal: S, candle: Candle): Promise<void>;      // close at candle.open (TIMEOUT)
+  apply(signal: S, candle: Candle): Promise<S>;          // status check on one closed 1m candle
+}
+
+export interface CatchUpResult<S> {
+  signal: S;
+  processedUntil: number | null; // openTime of the last applied 1m candle
+  closed: boolean;
+}
+
+/**
+ * Walk closed 1m candles (oldest first) through the tracker steps until the signal stops being tracked
+ */
+export async function replayMinutes<S>(
+  signal: S,
+  candles: Candle[],
+  timeframeMs: number,
+  steps: CatchUpSteps<S>
+): Promise<CatchUpResult<S>> {
+  let current = signal;
+  let processedUntil: number | null = null;
+
+  for (const candle of candles) {
+    if (steps.trail && candle.openTime % timeframeMs === 0) {
+      current = await steps.trail(current, candle.openTime);
+    }
+
+    if (candle.openTime >= steps.expiresAt) {
+      await steps.expire(current, candle);
+      return { signal: current, processedUntil: candle.openTime, closed: true };
+    }
+
+    current = await steps.apply(current, candle);
+    processedUntil = candle.openTime;
+    if (!steps.isTracked(current)) {
+      return { signal: current, processedUntil, closed: true };
+    }
+  }
+
+  return { signal: current, processedUntil, closed: false };
+}
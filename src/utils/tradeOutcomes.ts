@@ -13,18 +13,30 @@
  * - TP2 then BE: 0.5×1R + 0.3×2R + 0.2×0R = 1.1R
  * - TP1 then BE: 0.5×1R + 0.5×0R = 0.5R
  * - SL before TP1: 1.0×(-1R) = -1R
+ * - TP1 then trailed stop at +1.5R: 0.5×1R + 0.5×1.5R = 1.25R
+ * - Trailed stop before TP1 at -0.4R: 1.0×(-0.4R) = -0.4R
+ * - TP1 then TIMEOUT at market +0.3R: 0.5×1R + 0.5×0.3R = 0.65R
  * 
  * PnL CALCULATION EXAMPLES (Dynamic):
  * - Conservative (60%/30%/10% at 0.8R/1.8R/2.5R): 0.6×0.8 + 0.3×1.8 + 0.1×2.5 = 1.27R
  * - Aggressive (30%/30%/40% at 1.2R/2.5R/4R): 0.3×1.2 + 0.3×2.5 + 0.4×4 = 2.47R
+ *
+ * NET PnL (optional `costs` context): gross pnlR − fees − stop slippage − funding (executionCosts.ts)
  */
 
+import { calculateExecutionCosts, NO_COSTS, type CostContext, type CostFill, type ExecutionCosts } from './executionCosts';
+import { isTrailingEnabled } from './trailingStop';
+
 export interface TradeOutcome {
   pnl: number; // PnL in percentage
   pnlR: number; // PnL in R units (risk units)
   isBreakeven: boolean;
-  outcomeType: 'TP1_HIT' | 'TP2_HIT' | 'TP3_HIT' | 'SL_HIT' | 'BE_HIT' | 'OPEN';
+  outcomeType: 'TP1_HIT' | 'TP2_HIT' | 'TP3_HIT' | 'SL_HIT' | 'BE_HIT' | 'TIMEOUT' | 'OPEN';
   description: string;
+  isTrailedStop: boolean; // Exit at a moved stop (not initial SL, not breakeven)
+  costs: ExecutionCosts;  // Zero when no cost context was passed
+  netPnlR: number;        // pnlR − costs.totalR
+  netPnl: number;         // Net PnL in percentage
 }
 
 interface TradeParams {
@@ -35,12 +47,54 @@ interface TradeParams {
   tp2Price: string;
   tp3Price?: string; // Optional for backward compatibility
   slPrice: string;
-  currentSl: string;
-  partialClosed?: number; // For BE_HIT scenario: how much was already closed (0-100)
+  currentSl: string; // For SL_HIT/BE_HIT: the stop that was hit (remaining position exits here)
+  partialClosed?: number; // For SL_HIT/BE_HIT/TIMEOUT: how much was already closed at TPs (0-100)
+  exitPrice?: string; // For TIMEOUT: market price the remaining position was closed at
+  trailingMode?: string | null; // Signal trailing mode: only trailing signals exit at a trailed stop (null / 'none' = fixed ladder)
   
   // NEW: Dynamic strategy parameters (optional - if not provided, uses defaults)
   customPercents?: { p1: number; p2: number; p3: number }; // Custom partial close %s
   actualTpR?: { tp1R: number; tp2R: number; tp3R: number }; // Actual TP levels in R units
+
+  // Fees / slippage / funding model (omitted = gross only)
+  costs?: CostContext;
+}
+
+/**
+ * Stored strategy fields of a signal (strings as they come from the DB)
+ */
+export interface SignalStrategyFields {
+  partialCloseP1?: string | null;
+  partialCloseP2?: string | null;
+  partialCloseP3?: string | null;
+  actualRrTp1?: string | null;
+  actualRrTp2?: string | null;
+  actualRrTp3?: string | null;
+}
+
+/**
+ * Извлекает динамические параметры стратегии из сигнала
+ * 
+ * IMPORTANT: Check for null/undefined, not truthiness (0 is valid value!)
+ * undefined = use defaults / calculate from prices (backward compatibility)
+ */
+export function getSignalStrategyParams(signal: SignalStrategyFields): {
+  customPercents?: { p1: number; p2: number; p3: number };
+  actualTpR?: { tp1R: number; tp2R: number; tp3R: number };
+} {
+  const customPercents = signal.partialCloseP1 !== null && signal.partialCloseP1 !== undefined ? {
+    p1: parseFloat(signal.partialCloseP1),
+    p2: parseFloat(signal.partialCloseP2!),
+    p3: parseFloat(signal.partialCloseP3!),
+  } : undefined;
+
+  const actualTpR = signal.actualRrTp1 !== null && signal.actualRrTp1 !== undefined ? {
+    tp1R: parseFloat(signal.actualRrTp1),
+    tp2R: parseFloat(signal.actualRrTp2!),
+    tp3R: parseFloat(signal.actualRrTp3!),
+  } : undefined;
+
+  return { customPercents, actualTpR };
 }
 
 /**
@@ -86,6 +140,7 @@ export function calculatePartialClosedPercent(
       case 'TP3_HIT':
       case 'BE_HIT':
       case 'SL_HIT':
+      case 'TIMEOUT':
         return 100; // Full position closed
       default:
         return 0;
@@ -103,6 +158,7 @@ export function calculatePartialClosedPercent(
     case 'TP3_HIT':
     case 'BE_HIT':  // BE_HIT closes remaining position = 100%
     case 'SL_HIT':
+    case 'TIMEOUT': // Max holding time: remaining position closed at market
       return 100; // Full position closed
     default:
       return 0;
@@ -130,8 +186,11 @@ export function calculateTradeOutcome(params: TradeParams): TradeOutcome {
     slPrice: slStr,
     currentSl: currentSlStr,
     partialClosed,
+    exitPrice: exitPriceStr,
+    trailingMode,
     customPercents,  // NEW: dynamic %s
     actualTpR,       // NEW: actual TP levels in R
+    costs: costContext,
   } = params;
 
   const entryPrice = parseFloat(entryStr);
@@ -181,10 +240,31 @@ export function calculateTradeOutcome(params: TradeParams): TradeOutcome {
     tp3R = tp3Price ? Math.abs(tp3Price - entryPrice) / R : 3.0;
   }
 
+  // Stop that was hit vs initial SL / entry (trailed stop → PnL at the stop price, not a fixed level)
+  // Only for trailing signals: the fixed ladder's stop at TP1 after TP2 stays a BE_HIT / SL_HIT outcome
+  const stopR = (direction === 'LONG' ? currentSl - entryPrice : entryPrice - currentSl) / R;
+  const trailedStop = isTrailingEnabled(trailingMode)
+    && Math.abs(currentSl - slPrice) >= entryPrice * BREAKEVEN_TOLERANCE
+    && !isBreakevenSL(currentSl, entryPrice);
+
+  // R already realized at TP partial closes before the remaining position exits
+  const realizedBeforeExit = (closed: number): number => closed >= p1 + p2
+    ? (p1 / 100) * tp1R + (p2 / 100) * tp2R
+    : closed >= p1
+      ? (p1 / 100) * tp1R
+      : 0;
+
+  // Fills for the cost model: TP shares already closed at their TP prices
+  const ladderFills = (closed: number): CostFill[] => [
+    ...(closed >= p1 ? [{ kind: 'tp' as const, percent: p1, price: tp1Price }] : []),
+    ...(closed >= p1 + p2 ? [{ kind: 'tp' as const, percent: p2, price: tp2Price }] : []),
+  ];
+
   let pnlR = 0; // PnL in R units
   let outcomeType: TradeOutcome['outcomeType'] = 'OPEN';
   let description = '';
   let breakeven = false;
+  let exitFills: CostFill[] = [];
 
   if (status === 'OPEN') {
     outcomeType = 'OPEN';
@@ -195,25 +275,51 @@ export function calculateTradeOutcome(params: TradeParams): TradeOutcome {
     description = `TP1 достигнут (${p1}% закрыто)`;
     // TP1: p1% closed at tp1R
     pnlR = (p1 / 100) * tp1R;
+    exitFills = ladderFills(p1);
     console.log(`🎯 [TradeOutcomes] TP1_HIT: ${p1}% × ${tp1R.toFixed(2)}R = ${pnlR.toFixed(2)}R`);
   } else if (status === 'TP2_HIT') {
     outcomeType = 'TP2_HIT';
     description = `TP2 достигнут (${p1 + p2}% закрыто)`;
     // TP2: p1% at tp1R + p2% at tp2R
     pnlR = (p1 / 100) * tp1R + (p2 / 100) * tp2R;
+    exitFills = ladderFills(p1 + p2);
     console.log(`🎯🎯 [TradeOutcomes] TP2_HIT: ${p1}%×${tp1R.toFixed(2)}R + ${p2}%×${tp2R.toFixed(2)}R = ${pnlR.toFixed(2)}R`);
   } else if (status === 'TP3_HIT') {
     outcomeType = 'TP3_HIT';
     description = 'TP3 достигнут (полная прибыль)';
     // TP3: p1% at tp1R + p2% at tp2R + p3% at tp3R
     pnlR = (p1 / 100) * tp1R + (p2 / 100) * tp2R + (p3 / 100) * tp3R;
+    exitFills = [...ladderFills(p1 + p2), { kind: 'tp', percent: p3, price: tp3Price ?? tp2Price }];
     console.log(`🎯🎯🎯 [TradeOutcomes] TP3_HIT: ${p1}%×${tp1R.toFixed(2)}R + ${p2}%×${tp2R.toFixed(2)}R + ${p3}%×${tp3R.toFixed(2)}R = ${pnlR.toFixed(2)}R`);
-  } else if (status === 'SL_HIT') {
+  } else if (status === 'SL_HIT' && !trailedStop) {
     outcomeType = 'SL_HIT';
     description = 'Stop Loss сработал';
     // SL: Full position stopped out = -1R
     pnlR = -1.0;
+    exitFills = [{ kind: 'stop', percent: 100, price: currentSl }];
     console.log(`🛑 [TradeOutcomes] SL_HIT: 100% × -1R = ${pnlR.toFixed(2)}R`);
+  } else if (status === 'SL_HIT' || (status === 'BE_HIT' && trailedStop)) {
+    // Trailed stop: TP ladder closes so far + remaining position at the stop price
+    outcomeType = status;
+    const closed = partialClosed ?? 0;
+    const realizedR = realizedBeforeExit(closed);
+    const remaining = Math.max(0, 100 - closed);
+    pnlR = realizedR + (remaining / 100) * stopR;
+    exitFills = [...ladderFills(closed), { kind: 'stop', percent: remaining, price: currentSl }];
+    description = `Trailing stop (${stopR >= 0 ? '+' : ''}${stopR.toFixed(2)}R на ${remaining}%)`;
+    console.log(`🔄 [TradeOutcomes] Trailed stop ${status}: ${realizedR.toFixed(2)}R + ${remaining}%×${stopR.toFixed(2)}R = ${pnlR.toFixed(2)}R`);
+  } else if (status === 'TIMEOUT') {
+    // Max holding time: TP partial closes so far + remaining position at market
+    outcomeType = 'TIMEOUT';
+    const closed = partialClosed ?? 0;
+    const exitPrice = exitPriceStr ? parseFloat(exitPriceStr) : entryPrice;
+    const exitR = (direction === 'LONG' ? exitPrice - entryPrice : entryPrice - exitPrice) / R;
+    const realizedR = realizedBeforeExit(closed);
+    const remaining = Math.max(0, 100 - closed);
+    pnlR = realizedR + (remaining / 100) * exitR;
+    exitFills = [...ladderFills(closed), { kind: 'market', percent: remaining, price: exitPrice }];
+    description = `Закрыто по времени (${exitR >= 0 ? '+' : ''}${exitR.toFixed(2)}R на ${remaining}%)`;
+    console.log(`⏰ [TradeOutcomes] TIMEOUT: ${realizedR.toFixed(2)}R + ${remaining}%×${exitR.toFixed(2)}R = ${pnlR.toFixed(2)}R`);
   } else if (status === 'BE_HIT') {
     outcomeType = 'BE_HIT';
     breakeven = true;
@@ -233,19 +339,34 @@ export function calculateTradeOutcome(params: TradeParams): TradeOutcome {
       pnlR = (p1 / 100) * tp1R + (p2 / 100) * tp2R + (p3 / 100) * 0;
       description = `Breakeven после TP2 (${closedAtTP2}% прибыль)`;
       console.log(`⚖️ [TradeOutcomes] BE_HIT after TP2: ${p1}%×${tp1R.toFixed(2)}R + ${p2}%×${tp2R.toFixed(2)}R + ${p3}%×0R = ${pnlR.toFixed(2)}R`);
+    } else if (partialClosed === 0) {
+      // Stop trailed to entry before TP1: nothing closed, flat
+      pnlR = 0;
+      description = 'Breakeven до TP1 (без частичного закрытия)';
+      console.log(`⚖️ [TradeOutcomes] BE_HIT before TP1: 100%×0R = 0.00R`);
     } else {
       // Unknown: assume after TP1 (safest assumption)
       pnlR = (p1 / 100) * tp1R;
       description = 'Breakeven сработал (частичная прибыль)';
       console.log(`⚖️ [TradeOutcomes] BE_HIT (default): ${p1}%×${tp1R.toFixed(2)}R = ${pnlR.toFixed(2)}R`);
     }
+
+    const closedBeforeExit = partialClosed === closedAtTP2 ? closedAtTP2 : partialClosed === 0 ? 0 : closedAtTP1;
+    exitFills = [...ladderFills(closedBeforeExit), { kind: 'stop', percent: 100 - closedBeforeExit, price: currentSl }];
   }
 
   // Convert pnlR to pnlPercent
   // pnlPercent = pnlR × (R / entryPrice) × 100
   const pnlPercent = (pnlR * R / entryPrice) * 100;
 
-  console.log(`💰 [TradeOutcomes] Result: pnlR=${pnlR.toFixed(4)}, pnlPercent=${pnlPercent.toFixed(4)}%, outcome=${outcomeType}`);
+  // Net of fees / slippage / funding: entry fill + exit fills so far
+  const costs = costContext && status !== 'OPEN'
+    ? calculateExecutionCosts(direction, entryPrice, R, [{ kind: 'entry', percent: 100, price: entryPrice }, ...exitFills], costContext)
+    : NO_COSTS;
+  const netPnlR = pnlR - costs.totalR;
+  const netPnlPercent = (netPnlR * R / entryPrice) * 100;
+
+  console.log(`💰 [TradeOutcomes] Result: pnlR=${pnlR.toFixed(4)}, pnlPercent=${pnlPercent.toFixed(4)}%, outcome=${outcomeType}${costContext ? `, net=${netPnlR.toFixed(4)}R (fees ${costs.feesR.toFixed(4)}R, slippage ${costs.slippageR.toFixed(4)}R, funding ${costs.fundingR.toFixed(4)}R)` : ''}`);
 
   return {
     pnl: pnlPercent,
@@ -253,6 +374,10 @@ export function calculateTradeOutcome(params: TradeParams): TradeOutcome {
     isBreakeven: breakeven,
     outcomeType,
     description,
+    isTrailedStop: trailedStop && (status === 'SL_HIT' || status === 'BE_HIT'),
+    costs,
+    netPnlR,
+    netPnl: netPnlPercent,
   };
 }
 
@@ -287,6 +412,8 @@ export function getStatusEmoji(outcomeType: TradeOutcome['outcomeType']): string
       return '🛑';
     case 'BE_HIT':
       return '⚖️';
+    case 'TIMEOUT':
+      return '⏰';
     case 'OPEN':
       return '📊';
     default:
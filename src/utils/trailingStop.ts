@@ -0,0 +1,205 @@
+/**
+ * Trailing Stop Engine
+ *
+ * Selectable trailing mode per strategy profile:
+ * - atr:        close ∓ k×ATR of the signal timeframe
+ * - chandelier: highest high (lowest low) of the last N candles ∓ k×ATR
+ * - swing:      last confirmed swing low (high) on the signal timeframe ∓ buffer
+ * - tp_step:    SL follows the TP ladder only (TP1 → entry, TP2 → TP1), runner kept until TP3 / stop
+ * - none:       legacy behaviour, first TP/SL touch closes tracking
+ *
+ * Signals with a trailing mode stay tracked after TP1/TP2 (remaining position runs with the trailed stop).
+ * SL only moves in the favourable direction and is recalculated on closed signal-timeframe candles.
+ */
+
+import type { Candle } from './exchanges/types';
+import { calculateATR } from './atrCalculator';
+import { isBreakevenSL } from './tradeOutcomes';
+
+export type TrailingMode = 'none' | 'atr' | 'chandelier' | 'swing' | 'tp_step';
+
+export const TRAILING_MODES: TrailingMode[] = ['none', 'atr', 'chandelier', 'swing', 'tp_step'];
+
+export interface TrailingConfig {
+  mode: TrailingMode;
+  atrPeriod: number;
+  atrMultiplier: number; // atr/chandelier distance, swing buffer
+  lookback: number;      // chandelier window / swing pivot strength (candles on each side)
+  activationR: number;   // candle-based modes start after a close this far in profit
+  minStepR: number;      // ignore SL moves smaller than this (no Telegram spam)
+}
+
+const MODE_DEFAULTS: Record<TrailingMode, TrailingConfig> = {
+  none: { mode: 'none', atrPeriod: 14, atrMultiplier: 0, lookback: 0, activationR: 0, minStepR: 0 },
+  tp_step: { mode: 'tp_step', atrPeriod: 14, atrMultiplier: 0, lookback: 0, activationR: 0, minStepR: 0 },
+  atr: { mode: 'atr', atrPeriod: 14, atrMultiplier: 2.0, lookback: 0, activationR: 1.0, minStepR: 0.1 },
+  chandelier: { mode: 'chandelier', atrPeriod: 22, atrMultiplier: 3.0, lookback: 22, activationR: 1.0, minStepR: 0.1 },
+  swing: { mode: 'swing', atrPeriod: 14, atrMultiplier: 0.2, lookback: 2, activationR: 1.0, minStepR: 0.1 },
+};
+
+// Default mode per strategy profile (dynamicPositionManager profiles + 15m scalp)
+export const PROFILE_TRAILING_MODES: Record<string, TrailingMode> = {
+  SCALP: 'none',
+  SCALP_15M: 'none',       // Single-level TP, 100% closed at TP2
+  CONSERVATIVE: 'tp_step',
+  BALANCED: 'atr',
+  AGGRESSIVE: 'chandelier',
+  TREND_FOLLOWING: 'swing',
+};
+
+/**
+ * Profile → mode overrides from env, e.g. TRAILING_MODES="BALANCED:chandelier,SCALP:tp_step"
+ */
+function parseModeOverrides(raw: string | undefined): Record<string, TrailingMode> {
+  const overrides: Record<string, TrailingMode> = {};
+  if (!raw) return overrides;
+
+  for (const entry of raw.split(',')) {
+    const [profile, mode] = entry.split(':').map(part => part.trim());
+    if (profile && TRAILING_MODES.includes(mode as TrailingMode)) {
+      overrides[profile.toUpperCase()] = mode as TrailingMode;
+    } else if (entry.trim()) {
+      console.warn(`⚠️ [TrailingStop] Ignoring invalid TRAILING_MODES entry: "${entry}"`);
+    }
+  }
+  return overrides;
+}
+
+export function getTrailingMode(strategyProfile: string | null | undefined, env: string | undefined = process.env.TRAILING_MODES): TrailingMode {
+  if (!strategyProfile) return 'none';
+  const overrides = parseModeOverrides(env);
+  return overrides[strategyProfile] ?? PROFILE_TRAILING_MODES[strategyProfile] ?? 'none';
+}
+
+export function getTrailingConfig(mode: string | null | undefined): TrailingConfig {
+  return MODE_DEFAULTS[(mode as TrailingMode)] ?? MODE_DEFAULTS.none;
+}
+
+export function isTrailingEnabled(mode: string | null | undefined): boolean {
+  return getTrailingConfig(mode).mode !== 'none';
+}
+
+/**
+ * Whether the tracker keeps following a signal in this status
+ * Legacy signals (no trailing) close tracking on the first TP/SL touch
+ */
+export function isTrackedStatus(status: string, mode: string | null | undefined): boolean {
+  if (status === 'OPEN') return true;
+  return (status === 'TP1_HIT' || status === 'TP2_HIT') && isTrailingEnabled(mode);
+}
+
+/**
+ * Stop touched: at/above entry (in profit direction) → BE_HIT, below → SL_HIT
+ */
+export function resolveStopExitStatus(direction: 'LONG' | 'SHORT', entryPrice: number, stopPrice: number): 'SL_HIT' | 'BE_HIT' {
+  if (isBreakevenSL(stopPrice, entryPrice)) return 'BE_HIT';
+  const inProfit = direction === 'LONG' ? stopPrice > entryPrice : stopPrice < entryPrice;
+  return inProfit ? 'BE_HIT' : 'SL_HIT';
+}
+
+/**
+ * More protective of two stops (SL never moves back)
+ */
+export function tightenStop(direction: 'LONG' | 'SHORT', currentSl: number, candidateSl: number): number {
+  return direction === 'LONG' ? Math.max(currentSl, candidateSl) : Math.min(currentSl, candidateSl);
+}
+
+/**
+ * Stop distance from entry in R of the initial risk (positive = locked profit)
+ */
+export function stopToR(direction: 'LONG' | 'SHORT', entryPrice: number, initialSl: number, stopPrice: number): number {
+  const risk = Math.abs(entryPrice - initialSl);
+  if (risk === 0) return 0;
+  return (direction === 'LONG' ? stopPrice - entryPrice : entryPrice - stopPrice) / risk;
+}
+
+export interface TrailingInput {
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  initialSl: number;         // R basis
+  currentSl: number;
+  trailingActivated: boolean; // Activation threshold already passed earlier
+  candles: Candle[];         // Closed candles of the signal timeframe, oldest first
+}
+
+export interface TrailingUpdate {
+  newSl: number;
+  lockedR: number;
+  reason: string;
+}
+
+/**
+ * Most recent confirmed pivot low (LONG) / pivot high (SHORT): `strength` candles on each side
+ */
+export function findLastSwing(candles: Candle[], direction: 'LONG' | 'SHORT', strength: number): number | null {
+  for (let i = candles.length - 1 - strength; i >= strength; i--) {
+    const pivot = direction === 'LONG' ? Number(candles[i].low) : Number(candles[i].high);
+    let confirmed = true;
+    for (let j = i - strength; j <= i + strength && confirmed; j++) {
+      if (j === i) continue;
+      const other = direction === 'LONG' ? Number(candles[j].low) : Number(candles[j].high);
+      confirmed = direction === 'LONG' ? other > pivot : other < pivot;
+    }
+    if (confirmed) return pivot;
+  }
+  return null;
+}
+
+/**
+ * Trail candidate for the last closed candle (before ratchet/activation checks)
+ */
+function trailCandidate(config: TrailingConfig, direction: 'LONG' | 'SHORT', candles: Candle[], atr: number): number | null {
+  const sign = direction === 'LONG' ? -1 : 1;
+  const lastClose = Number(candles[candles.length - 1].close);
+
+  switch (config.mode) {
+    case 'atr':
+      return lastClose + sign * config.atrMultiplier * atr;
+    case 'chandelier': {
+      const window = candles.slice(-config.lookback);
+      const extreme = direction === 'LONG'
+        ? Math.max(...window.map(c => Number(c.high)))
+        : Math.min(...window.map(c => Number(c.low)));
+      return extreme + sign * config.atrMultiplier * atr;
+    }
+    case 'swing': {
+      const swing = findLastSwing(candles, direction, config.lookback);
+      return swing === null ? null : swing + sign * config.atrMultiplier * atr;
+    }
+    default:
+      return null; // tp_step / none: SL moves only on TP hits
+  }
+}
+
+/**
+ * New trailed SL for the latest closed candle, or null if SL stays where it is
+ * SL never moves against the position and never crosses the last close
+ */
+export function calculateTrailingStop(config: TrailingConfig, input: TrailingInput): TrailingUpdate | null {
+  const { direction, entryPrice, initialSl, currentSl, candles } = input;
+  if (config.mode === 'none' || config.mode === 'tp_step') return null;
+  if (candles.length < config.atrPeriod + 1) return null;
+
+  const lastClose = Number(candles[candles.length - 1].close);
+  if (!input.trailingActivated && stopToR(direction, entryPrice, initialSl, lastClose) < config.activationR) {
+    return null;
+  }
+
+  const atr = calculateATR(candles, config.atrPeriod);
+  if (atr <= 0) return null;
+
+  const candidate = trailCandidate(config, direction, candles, atr);
+  if (candidate === null || !Number.isFinite(candidate)) return null;
+
+  const beyondClose = direction === 'LONG' ? candidate >= lastClose : candidate <= lastClose;
+  if (beyondClose) return null;
+
+  const stepR = stopToR(direction, entryPrice, initialSl, candidate) - stopToR(direction, entryPrice, initialSl, currentSl);
+  if (stepR < config.minStepR || stepR <= 0) return null;
+
+  return {
+    newSl: candidate,
+    lockedR: stopToR(direction, entryPrice, initialSl, candidate),
+    reason: config.mode,
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { binanceClient } from './src/utils/binanceClient';
-import { patternDetector } from './src/utils/candleAnalyzer';
+import { patternDetector } from './src/utils/patterns';
 import { getCoinCluster, getFamilyId } from './src/utils/marketClusters';
 
 async function testPatternDetection() {
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Same-Candle SL/TP Ambiguity Policy
+ *
+ * Run with: npx tsx tests/ambiguityPolicy.test.ts
+ *
+ * Validates (offline):
+ * 1. checkSignalStatusWithCandles: TP-first default unchanged, SL-first priority, ambiguous flag
+ * 2. Only TPs not reached yet compete with the stop (runners after TP1/TP2)
+ * 3. Policy from env / stored signal (legacy → optimistic)
+ * 4. First touch from candle sequence and from aggregated trades
+ */
+
+import { riskCalculator } from '../src/utils/riskCalculator.js';
+import {
+  firstTouchInCandles,
+  firstTouchInTrades,
+  getAmbiguityPolicy,
+  getSignalAmbiguityPolicy,
+  nextTpLevel,
+  sameCandlePriority,
+} from '../src/utils/ambiguityPolicy.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+// LONG: entry 100, SL 98, TP1 102, TP2 104, TP3 106
+function candle(openTime: number, high: number, low: number): Candle {
+  return {
+    openTime,
+    open: String((high + low) / 2),
+    high: String(high),
+    low: String(low),
+    close: String((high + low) / 2),
+    volume: '1',
+    closeTime: openTime + 59_999,
+  };
+}
+
+function checkLong(candles: Candle[], currentSl: number, status: string, priority?: 'tp' | 'sl') {
+  return riskCalculator.checkSignalStatusWithCandles(candles, 100, 100, currentSl, 102, 104, 106, 'LONG', status, priority);
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('checkSignalStatusWithCandles priority', async () => {
+    await test('Default keeps TP first when one candle spans TP2 and SL', () => {
+      const result = checkLong([candle(0, 104.5, 97)], 98, 'OPEN');
+      expect(result.newStatus).toBe('TP2_HIT');
+      expect(result.ambiguous).toBe(true);
+    });
+
+    await test('SL priority resolves the same candle as SL_HIT', () => {
+      const result = checkLong([candle(0, 104.5, 97)], 98, 'OPEN', 'sl');
+      expect(result.newStatus).toBe('SL_HIT');
+      expect(result.newSl).toBe(undefined);
+      expect(result.ambiguous).toBe(true);
+    });
+
+    await test('Unambiguous candles are not affected by SL priority', () => {
+      expect(checkLong([candle(0, 102.5, 99)], 98, 'OPEN', 'sl').newStatus).toBe('TP1_HIT');
+      expect(checkLong([candle(0, 102.5, 99)], 98, 'OPEN', 'sl').ambiguous).toBe(false);
+      expect(checkLong([candle(0, 101, 97)], 98, 'OPEN', 'sl').newStatus).toBe('SL_HIT');
+    });
+
+    await test('Runner after TP1: reached TP1 does not make a stop hit ambiguous', () => {
+      // Stop at breakeven, candle back above TP1 but below TP2 and down through entry
+      const result = checkLong([candle(0, 103, 99.5)], 100, 'TP1_HIT', 'sl');
+      expect(result.newStatus).toBe('SL_HIT');
+      expect(result.ambiguous).toBe(false);
+    });
+
+    await test('SHORT: same candle through TP1 and SL', () => {
+      // SHORT: entry 100, SL 102, TP1 98, TP2 96
+      const range = [candle(0, 102.5, 97.5)];
+      const optimistic = riskCalculator.checkSignalStatusWithCandles(range, 100, 100, 102, 98, 96, null, 'SHORT', 'OPEN');
+      const conservative = riskCalculator.checkSignalStatusWithCandles(range, 100, 100, 102, 98, 96, null, 'SHORT', 'OPEN', 'sl');
+      expect(optimistic.newStatus).toBe('TP1_HIT');
+      expect(conservative.newStatus).toBe('SL_HIT');
+      expect(conservative.ambiguous).toBe(true);
+    });
+  });
+
+  await describe('Policy configuration', async () => {
+    await test('AMBIGUITY_POLICY env with conservative default', () => {
+      expect(getAmbiguityPolicy({})).toBe('conservative');
+      expect(getAmbiguityPolicy({ AMBIGUITY_POLICY: 'precise' })).toBe('precise');
+      expect(getAmbiguityPolicy({ AMBIGUITY_POLICY: 'random' })).toBe('conservative');
+    });
+
+    await test('Legacy signals without a stored policy are optimistic', () => {
+      expect(getSignalAmbiguityPolicy({ ambiguityPolicy: null })).toBe('optimistic');
+      expect(getSignalAmbiguityPolicy({ ambiguityPolicy: 'precise' })).toBe('precise');
+      expect(sameCandlePriority('optimistic')).toBe('tp');
+      expect(sameCandlePriority('precise')).toBe('sl');
+    });
+
+    await test('Next TP competing with the stop', () => {
+      expect(nextTpLevel('OPEN', 102, 104, 106)).toBe(102);
+      expect(nextTpLevel('TP1_HIT', 102, 104, 106)).toBe(104);
+      expect(nextTpLevel('TP2_HIT', 102, 104, null)).toBe(null);
+    });
+  });
+
+  await describe('First touch', async () => {
+    await test('Candle sequence decides when only one level is touched first', () => {
+      const candles = [candle(0, 101, 99), candle(60_000, 102.5, 99), candle(120_000, 101, 97)];
+      const first = firstTouchInCandles(candles, 'LONG', 102, 98);
+      expect(first?.touch).toBe('tp');
+      expect(first?.candle.openTime).toBe(60_000);
+    });
+
+    await test('Candle touching both levels needs trades', () => {
+      const first = firstTouchInCandles([candle(0, 101, 99), candle(60_000, 102.5, 97)], 'LONG', 102, 98);
+      expect(first?.touch).toBe(null);
+      expect(first?.candle.openTime).toBe(60_000);
+      expect(firstTouchInCandles([candle(0, 101, 99)], 'LONG', 102, 98)).toBe(null);
+    });
+
+    await test('Trades in time order give the level traded first', () => {
+      const trades = [
+        { price: 100, time: 1 },
+        { price: 97.9, time: 2 },
+        { price: 102.4, time: 3 },
+      ];
+      expect(firstTouchInTrades(trades, 'LONG', 102, 98)).toBe('sl');
+      expect(firstTouchInTrades(trades, 'SHORT', 97.95, 102.5)).toBe('tp');
+      expect(firstTouchInTrades(trades.slice(0, 1), 'LONG', 102, 98)).toBe(null);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,236 @@
+/**
+ * Unit Tests for Historical Backtester
+ *
+ * Run with: npx tsx tests/backtester.test.ts
+ *
+ * Validates:
+ * 1. Local dataset loading (raw Binance klines + Candle objects)
+ * 2. Summary stats (win rate, expectancy, profit factor, max drawdown)
+ * 3. Offline replay guards (insufficient history → no trades, no network)
+ * 4. Trailing runners (TP1/TP2 followed with a trailed SL, legacy signals close on the first TP)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Candle } from '../src/utils/binanceClient.js';
+import {
+  backtester,
+  loadDatasetCandles,
+  listDatasetSymbols,
+  type BacktestTrade,
+} from '../src/services/backtester.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+function createTrade(pnlR: number | null, exitMinute: number, patternType: string = 'pinbar_buy'): BacktestTrade {
+  return {
+    symbol: 'TESTUSDT',
+    timeframe: '1h',
+    patternType,
+    entryPrice: '100',
+    slPrice: '99',
+    tp2Price: '102',
+    currentSl: '99',
+    direction: 'LONG',
+    status: pnlR === null ? 'OPEN' : pnlR < 0 ? 'SL_HIT' : 'TP2_HIT',
+    pnlR: pnlR === null ? null : pnlR.toString(),
+    createdAt: new Date(0),
+    updatedAt: new Date(exitMinute * 60_000),
+  };
+}
+
+function createCandles(count: number, intervalMs: number, startPrice: number = 100): Candle[] {
+  const candles: Candle[] = [];
+  for (let i = 0; i < count; i++) {
+    const price = startPrice + Math.sin(i / 5);
+    candles.push({
+      openTime: i * intervalMs,
+      open: price.toString(),
+      high: (price + 0.5).toString(),
+      low: (price - 0.5).toString(),
+      close: (price + 0.1).toString(),
+      volume: '1000',
+      closeTime: (i + 1) * intervalMs - 1,
+    });
+  }
+  return candles;
+}
+
+const H1 = 3_600_000;
+
+// 1h candles from [open, high, low, close]
+function candlesFromRows(rows: Array<[number, number, number, number]>): Candle[] {
+  return rows.map(([open, high, low, close], i) => ({
+    openTime: i * H1,
+    open: open.toString(),
+    high: high.toString(),
+    low: low.toString(),
+    close: close.toString(),
+    volume: '1000',
+    closeTime: (i + 1) * H1 - 1,
+  }));
+}
+
+// LONG 100 / SL 99 after 20 quiet candles, TP1 101 → TP2 102, rally to 109.5, then a drop to 103
+const runnerCandles = candlesFromRows([
+  ...Array.from({ length: 20 }, (): [number, number, number, number] => [100, 100.5, 99.5, 100]),
+  [100, 101.7, 99.8, 101.5],
+  [101.5, 103.7, 101.3, 103.5],
+  [103.5, 105.7, 103.3, 105.5],
+  [105.5, 107.7, 105.3, 107.5],
+  [107.5, 109.7, 107.3, 109.5],
+  [109.5, 109.8, 103, 103.5],
+]);
+
+function createRunner(trailingMode: string | null): BacktestTrade {
+  return {
+    symbol: 'TESTUSDT',
+    timeframe: '1h',
+    patternType: 'pinbar_buy',
+    entryPrice: '100',
+    slPrice: '99',
+    tp1Price: '101',
+    tp2Price: '102',
+    tp3Price: '120',
+    currentSl: '99',
+    direction: 'LONG',
+    status: 'OPEN',
+    strategyProfile: 'BALANCED',
+    trailingMode,
+    createdAt: new Date(20 * H1 - 1),
+    updatedAt: new Date(20 * H1 - 1),
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+
+  await describe('Dataset loading', async () => {
+    await test('parses raw Binance kline arrays and sorts by openTime', () => {
+      fs.mkdirSync(path.join(dataDir, 'AAAUSDT'), { recursive: true });
+      fs.writeFileSync(path.join(dataDir, 'AAAUSDT', '1h.json'), JSON.stringify([
+        [3600000, '2', '3', '1', '2.5', '10', 7199999],
+        [0, '1', '2', '0.5', '1.5', '20', 3599999],
+      ]));
+
+      const candles = loadDatasetCandles(dataDir, 'AAAUSDT', '1h');
+      expect(candles.length).toBe(2);
+      expect(candles[0].openTime).toBe(0);
+      expect(candles[0].close).toBe('1.5');
+      expect(candles[1].closeTime).toBe(7199999);
+    });
+
+    await test('returns empty array for missing interval', () => {
+      expect(loadDatasetCandles(dataDir, 'AAAUSDT', '4h').length).toBe(0);
+    });
+
+    await test('lists symbols from dataset directories', () => {
+      expect(listDatasetSymbols(dataDir).join(',')).toBe('AAAUSDT');
+    });
+  });
+
+  await describe('Summary stats', async () => {
+    await test('computes win rate, expectancy, profit factor and max drawdown', () => {
+      const trades = [
+        createTrade(2, 10),
+        createTrade(-1, 20),
+        createTrade(-1, 30),
+        createTrade(1.5, 40, 'fakey_buy'),
+        createTrade(0, 50),
+        createTrade(null, 60),
+      ];
+
+      const stats = backtester.calculateStats(trades);
+      expect(stats.totalTrades).toBe(6);
+      expect(stats.closedTrades).toBe(5);
+      expect(stats.openTrades).toBe(1);
+      expect(stats.breakevens).toBe(1);
+      expect(stats.winRate).toBeCloseTo(40);
+      expect(stats.expectancyR).toBeCloseTo(0.3);
+      expect(stats.profitFactor).toBeCloseTo(1.75);
+      expect(stats.maxDrawdownR).toBeCloseTo(2);
+      expect(stats.byPattern['fakey_buy'].trades).toBe(1);
+      expect(stats.byPattern['pinbar_buy'].totalR).toBeCloseTo(0);
+    });
+
+    await test('orders drawdown by exit time, not creation order', () => {
+      const stats = backtester.calculateStats([
+        createTrade(-1, 30),
+        createTrade(3, 10),
+        createTrade(-1, 20),
+      ]);
+      // Equity: +3 → +2 → +1 = drawdown 2R
+      expect(stats.maxDrawdownR).toBeCloseTo(2);
+    });
+
+    await test('profit factor is null without losing trades', () => {
+      const stats = backtester.calculateStats([createTrade(1, 10)]);
+      expect(stats.profitFactor).toBeNull();
+    });
+  });
+
+  await describe('Offline replay', async () => {
+    await test('insufficient history produces no trades', async () => {
+      fs.mkdirSync(path.join(dataDir, 'BBBUSDT'), { recursive: true });
+      fs.writeFileSync(path.join(dataDir, 'BBBUSDT', '1h.json'), JSON.stringify(createCandles(100, 3_600_000)));
+
+      const result = await backtester.run({ dataDir, symbols: ['BBBUSDT'], timeframes: ['1h'] });
+      expect(result.trades.length).toBe(0);
+      expect(result.stats.totalTrades).toBe(0);
+    });
+
+    await test('reports the S/R zone source it replayed with (A/B runs)', async () => {
+      const result = await backtester.run({ dataDir, symbols: ['BBBUSDT'], timeframes: ['1h'], zoneSource: 'swing' });
+      expect(result.zoneSource).toBe('swing');
+    });
+  });
+
+  await describe('Trailing runners', async () => {
+    await test('trailing signal keeps its runner after TP2 and exits at the trailed SL', () => {
+      const trade = backtester.trackSignal(createRunner('atr'), runnerCandles, 'optimistic');
+      // SL trailed to the 109.5 close - 2 × ATR14, the drop to 103 stops out the 20% runner above TP2
+      expect(trade.status).toBe('BE_HIT');
+      expect(trade.exitType).toBe('TRAILING_STOP');
+      expect(trade.trailingActivated).toBe(true);
+      expect(parseFloat(trade.currentSl)).toBeInRange(106, 107);
+      expect(trade.partialClosed).toBe('100');
+      // 50% × 1R + 30% × 2R + 20% × trailed stop R
+      expect(parseFloat(trade.pnlR!)).toBeCloseTo(1.1 + 0.2 * (parseFloat(trade.currentSl) - 100), 6);
+      expect((trade.updatedAt as Date).getTime()).toBe(26 * H1 - 1);
+    });
+
+    await test('runner still trailing at the end of the dataset counts as open', () => {
+      const trade = backtester.trackSignal(createRunner('atr'), runnerCandles.slice(0, 25), 'optimistic');
+      expect(trade.status).toBe('TP2_HIT');
+      expect(parseFloat(trade.currentSl)).toBeGreaterThan(101);
+
+      const stats = backtester.calculateStats([trade]);
+      expect(stats.openTrades).toBe(1);
+      expect(stats.closedTrades).toBe(0);
+    });
+
+    await test('legacy signal (no trailingMode) closes tracking on the first TP', () => {
+      const trade = backtester.trackSignal(createRunner(null), runnerCandles, 'optimistic');
+      expect(trade.status).toBe('TP1_HIT');
+      expect(trade.exitType).toBe('TP1_HIT');
+      expect(trade.currentSl).toBe('100');
+      expect(trade.pnlR).toBe('0.5');
+      expect(backtester.calculateStats([trade]).closedTrades).toBe(1);
+    });
+  });
+
+  fs.rmSync(dataDir, { recursive: true, force: true });
+
+  finish(startTime);
+}
+
+run(runTests);
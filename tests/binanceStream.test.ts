@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Binance WebSocket Stream Client
+ *
+ * Run with: npx tsx tests/binanceStream.test.ts
+ *
+ * Runs fully offline against the local FakeStreamServer. Validates:
+ * 1. Combined-stream message parsing (kline + markPrice)
+ * 2. Subscription via SUBSCRIBE messages (split across connections)
+ * 3. Closed kline + mark price delivery
+ * 4. Reconnect + resubscribe after the server drops connections
+ */
+
+import {
+  BinanceStreamClient,
+  parseStreamMessage,
+  klineStreamName,
+  MARK_PRICE_ALL_STREAM,
+  type KlineEvent,
+  type MarkPriceEvent,
+} from '../src/utils/binanceStream.js';
+import { FakeStreamServer } from '../src/utils/fakeStreamServer.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+const CANDLE = {
+  openTime: 1_700_000_000_000,
+  open: '100',
+  high: '101',
+  low: '99',
+  close: '100.5',
+  volume: '1234',
+  closeTime: 1_700_000_899_999,
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Message parsing', async () => {
+    await test('parses combined kline payload', () => {
+      const parsed = parseStreamMessage(JSON.stringify({
+        stream: 'btcusdt@kline_15m',
+        data: { e: 'kline', E: 1, s: 'BTCUSDT', k: { t: 10, T: 20, i: '15m', o: '1', h: '2', l: '0.5', c: '1.5', v: '3', x: true } },
+      }));
+      expect(parsed.kline?.symbol).toBe('BTCUSDT');
+      expect(parsed.kline?.interval).toBe('15m');
+      expect(parsed.kline?.candle.close).toBe('1.5');
+      expect(parsed.kline?.isClosed).toBe(true);
+    });
+
+    await test('parses all-market mark price array', () => {
+      const parsed = parseStreamMessage(JSON.stringify({
+        stream: MARK_PRICE_ALL_STREAM,
+        data: [{ e: 'markPriceUpdate', E: 5, s: 'ETHUSDT', p: '2500.5' }],
+      }));
+      expect(parsed.markPrices?.length).toBe(1);
+      expect(parsed.markPrices?.[0].markPrice).toBe(2500.5);
+    });
+
+    await test('ignores subscription responses', () => {
+      const parsed = parseStreamMessage(JSON.stringify({ result: null, id: 1 }));
+      expect(parsed.kline).toBe(undefined);
+      expect(parsed.markPrices).toBe(undefined);
+    });
+  });
+
+  const server = new FakeStreamServer();
+  const port = await server.start();
+  const client = new BinanceStreamClient({
+    baseUrl: `ws://localhost:${port}`,
+    maxStreamsPerConnection: 2,
+    subscribeIntervalMs: 5,
+    reconnectDelayMs: 50,
+    maxReconnectDelayMs: 200,
+    staleTimeoutMs: 5000,
+  });
+
+  const klines: KlineEvent[] = [];
+  const ticks: MarkPriceEvent[] = [];
+  const reconnects: number[] = [];
+  client.onKline(event => { klines.push(event); });
+  client.onMarkPrice(events => { ticks.push(...events); });
+  client.onReconnect(gapStart => { reconnects.push(gapStart); });
+
+  const streams = [MARK_PRICE_ALL_STREAM, klineStreamName('BTCUSDT', '15m'), klineStreamName('ETHUSDT', '1h')];
+
+  await describe('Fake server round-trip', async () => {
+    await test('subscribes all streams across connections', async () => {
+      await client.setStreams(streams);
+      client.start();
+      await waitFor(() => server.getSubscriptions().length === streams.length);
+      expect(server.connectionCount).toBe(2);
+    });
+
+    await test('delivers closed kline and mark price ticks', async () => {
+      server.pushKline('BTCUSDT', '15m', CANDLE, true);
+      server.pushMarkPrices({ BTCUSDT: 100.25 });
+      await waitFor(() => klines.length === 1 && ticks.length === 1);
+      expect(klines[0].candle.openTime).toBe(CANDLE.openTime);
+      expect(klines[0].isClosed).toBe(true);
+      expect(ticks[0].markPrice).toBe(100.25);
+    });
+
+    await test('does not deliver unsubscribed streams', async () => {
+      await client.setStreams([MARK_PRICE_ALL_STREAM, klineStreamName('BTCUSDT', '15m')]);
+      await waitFor(() => server.getSubscriptions().length === 2);
+      server.pushKline('ETHUSDT', '1h', CANDLE, true);
+      server.pushKline('BTCUSDT', '15m', { ...CANDLE, openTime: CANDLE.openTime + 900_000 }, false);
+      await waitFor(() => klines.length === 2);
+      expect(klines[1].symbol).toBe('BTCUSDT');
+    });
+
+    await test('reconnects and resubscribes after connection drop', async () => {
+      server.dropAllConnections();
+      await waitFor(() => reconnects.length > 0 && server.getSubscriptions().length === 2);
+      expect(reconnects[0]).toBeGreaterThan(0);
+
+      server.pushMarkPrices({ BTCUSDT: 101 });
+      await waitFor(() => ticks.some(t => t.markPrice === 101));
+    });
+  });
+
+  client.stop();
+  await server.stop();
+
+  finish(startTime);
+}
+
+run(runTests);
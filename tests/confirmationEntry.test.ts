@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for Confirmation Entry (PENDING_CONFIRMATION stage)
+ *
+ * Run with: npx tsx tests/confirmationEntry.test.ts
+ *
+ * Validates (offline):
+ * 1. Config from env, routing (counter_trend / all / off), confirm type by timeframe
+ * 2. BOS: close beyond the pre-pattern structure, stop / TP1 invalidation, expiry
+ * 3. 15m rejection and fakey re-entry
+ * 4. R-multiples rescaled to the confirmation entry, wait in 15m bars, rejected_by_trend on the skip export
+ */
+
+import {
+  evaluateConfirmation,
+  getConfirmationConfig,
+  getConfirmType,
+  rescaleRr,
+  requiresConfirmation,
+  waitBars15m,
+  type PendingLevels,
+} from '../src/utils/confirmationEntry.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { NEAR_MISS_COLUMNS } from '../src/utils/mlExportSchema.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const MIN = 60_000;
+const T0 = 1_700_000_000_000; // Pattern close
+
+function candle(openTime: number, open: number, high: number, low: number, close: number, intervalMs = MIN): Candle {
+  return {
+    openTime,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    volume: '1',
+    closeTime: openTime + intervalMs - 1,
+  };
+}
+
+// LONG pattern: close 100 (high 100.5, low 99), SL 98, TP1 104, 3 × 15m wait
+const LONG: PendingLevels = {
+  direction: 'LONG',
+  patternClose: 100,
+  patternHigh: 100.5,
+  patternLow: 99,
+  slPrice: 98,
+  tp1Price: 104,
+  patternCloseTime: T0,
+  expiresAt: T0 + 45 * MIN,
+};
+
+// Pre-pattern 1m structure: highest high 101
+const STRUCTURE = [
+  candle(T0 - 3 * MIN, 100, 101, 99.5, 100.2),
+  candle(T0 - 2 * MIN, 100.2, 100.8, 99.6, 100),
+  candle(T0 - MIN, 100, 100.5, 99, 100),
+];
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Config and routing', async () => {
+    await test('Defaults: off, 3 bars, type by timeframe', () => {
+      const config = getConfirmationConfig({});
+      expect(config.mode).toBe('off');
+      expect(config.waitBars).toBe(3);
+      expect(config.confirmType).toBe(null);
+      expect(getConfirmType(config, '15m')).toBe('bos_1m');
+      expect(getConfirmType(config, '1h')).toBe('bos_5m');
+      expect(getConfirmType(config, '4h')).toBe('rejection_15m');
+    });
+
+    await test('Env overrides; invalid values fall back', () => {
+      const config = getConfirmationConfig({ CONFIRMATION_MODE: 'all', CONFIRM_WAIT_BARS: '5', CONFIRM_TYPE: 'fakey_reentry' });
+      expect(config.mode).toBe('all');
+      expect(config.waitBars).toBe(5);
+      expect(getConfirmType(config, '15m')).toBe('fakey_reentry');
+
+      const invalid = getConfirmationConfig({ CONFIRMATION_MODE: 'maybe', CONFIRM_WAIT_BARS: '-1', CONFIRM_TYPE: 'bos_1h' });
+      expect(invalid.mode).toBe('off');
+      expect(invalid.waitBars).toBe(3);
+      expect(invalid.confirmType).toBe(null);
+    });
+
+    await test('Routing: counter_trend only rescues trend-rejected patterns', () => {
+      const counterTrend = getConfirmationConfig({ CONFIRMATION_MODE: 'counter_trend' });
+      expect(requiresConfirmation(counterTrend, true)).toBe(true);
+      expect(requiresConfirmation(counterTrend, false)).toBe(false);
+      expect(requiresConfirmation(getConfirmationConfig({}), true)).toBe(false);
+      expect(requiresConfirmation(getConfirmationConfig({ CONFIRMATION_MODE: 'all' }), false)).toBe(true);
+      expect(requiresConfirmation(getConfirmationConfig({ CONFIRMATION_MODE: 'off' }), true)).toBe(false);
+    });
+  });
+
+  await describe('Break of structure', async () => {
+    await test('Waiting while no close above the structure high', () => {
+      const candles = [...STRUCTURE, candle(T0, 100, 101.2, 99.5, 100.9)];
+      expect(evaluateConfirmation('bos_1m', LONG, candles, T0 + 2 * MIN).state).toBe('waiting');
+    });
+
+    await test('Confirmed at the first close above the structure high', () => {
+      const candles = [...STRUCTURE, candle(T0, 100, 101, 99.5, 100.9), candle(T0 + MIN, 100.9, 101.6, 100.8, 101.4)];
+      const result = evaluateConfirmation('bos_1m', LONG, candles, T0 + 2 * MIN);
+      expect(result.state).toBe('confirmed');
+      if (result.state === 'confirmed') {
+        expect(result.price).toBe(101.4);
+        expect(result.time).toBe(T0 + 2 * MIN);
+      }
+    });
+
+    await test('SHORT: close below the structure low', () => {
+      const short: PendingLevels = { ...LONG, direction: 'SHORT', slPrice: 102, tp1Price: 96 };
+      const candles = [...STRUCTURE, candle(T0, 100, 100.2, 98.8, 98.9)];
+      const result = evaluateConfirmation('bos_1m', short, candles, T0 + MIN);
+      expect(result.state).toBe('confirmed');
+    });
+
+    await test('Stop touched before confirmation → invalidated (stop)', () => {
+      const candles = [...STRUCTURE, candle(T0, 100, 100.2, 97.9, 99), candle(T0 + MIN, 99, 102, 99, 101.5)];
+      const result = evaluateConfirmation('bos_1m', LONG, candles, T0 + 2 * MIN);
+      expect(result.state).toBe('invalidated');
+      if (result.state === 'invalidated') expect(result.reason).toBe('stop');
+    });
+
+    await test('Confirmation beyond TP1 → invalidated (target)', () => {
+      const candles = [...STRUCTURE, candle(T0, 100, 104.5, 99.5, 104.2)];
+      const result = evaluateConfirmation('bos_1m', LONG, candles, T0 + MIN);
+      expect(result.state).toBe('invalidated');
+      if (result.state === 'invalidated') expect(result.reason).toBe('target');
+    });
+
+    await test('No confirmation within the wait → expired', () => {
+      const candles = [...STRUCTURE, candle(T0, 100, 100.5, 99.5, 100), candle(T0 + 45 * MIN, 100, 102, 100, 101.8)];
+      expect(evaluateConfirmation('bos_1m', LONG, candles, T0 + 46 * MIN).state).toBe('expired');
+      expect(evaluateConfirmation('bos_1m', LONG, STRUCTURE, T0 + 45 * MIN).state).toBe('expired');
+    });
+  });
+
+  await describe('Rejection and fakey re-entry', async () => {
+    await test('rejection_15m: retest of the pattern close with a bullish close above it', () => {
+      const bars = [
+        candle(T0, 100.5, 101, 100.2, 100.4, 15 * MIN),           // No retest
+        candle(T0 + 15 * MIN, 100.4, 100.9, 99.7, 100.6, 15 * MIN), // Retest + bullish close
+      ];
+      const result = evaluateConfirmation('rejection_15m', LONG, bars, T0 + 30 * MIN);
+      expect(result.state).toBe('confirmed');
+      if (result.state === 'confirmed') expect(result.price).toBe(100.6);
+    });
+
+    await test('fakey_reentry: sweep of the pattern low, then close back inside', () => {
+      const bars = [
+        candle(T0, 100, 100.2, 98.7, 98.8, 5 * MIN),          // Sweep below 99, close outside
+        candle(T0 + 5 * MIN, 98.8, 99.6, 98.6, 99.4, 5 * MIN), // Back inside
+      ];
+      const result = evaluateConfirmation('fakey_reentry', LONG, bars, T0 + 10 * MIN);
+      expect(result.state).toBe('confirmed');
+      if (result.state === 'confirmed') expect(result.price).toBe(99.4);
+
+      const noSweep = [candle(T0, 100, 100.4, 99.2, 100.3, 5 * MIN)];
+      expect(evaluateConfirmation('fakey_reentry', LONG, noSweep, T0 + 5 * MIN).state).toBe('waiting');
+    });
+  });
+
+  await describe('Entry metrics', async () => {
+    await test('rescaleRr: TP prices kept, R measured from the confirmation entry', () => {
+      const [rr1, rr2] = rescaleRr(101, 98, [104, 107]);
+      expect(rr1).toBe(1);
+      expect(rr2).toBe(2);
+      expect(rescaleRr(98, 98, [104])[0]).toBe(0);
+    });
+
+    await test('waitBars15m rounds up to whole 15m bars', () => {
+      expect(waitBars15m(T0, T0 + 2 * MIN)).toBe(1);
+      expect(waitBars15m(T0, T0 + 30 * MIN)).toBe(2);
+      expect(waitBars15m(T0, T0)).toBe(0);
+    });
+
+    await test('Near-miss export flags trend-rejected patterns that never entered', () => {
+      expect(NEAR_MISS_COLUMNS.some(c => c.name === 'rejected_by_trend' && c.type === 'bool')).toBe(true);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Exchange Adapters
+ *
+ * Run with: npx tsx tests/exchangeClients.test.ts
+ *
+ * Validates (offline):
+ * 1. Replay adapter: time cursor, closed vs open candles, history since a start time, price, exchange info, funding
+ * 2. OKX symbol mapping (BTCUSDT ↔ BTC-USDT-SWAP), candle pages past the recent window from history-candles
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReplayExchangeClient } from '../src/utils/exchanges/replayClient.js';
+import { toOkxInstId, fromOkxInstId, fetchCandleRows } from '../src/utils/exchanges/okxClient.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const HOUR = 3_600_000;
+
+function createHourlyCandles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => ({
+    openTime: i * HOUR,
+    open: (100 + i).toString(),
+    high: (101 + i).toString(),
+    low: (99 + i).toString(),
+    close: (100.5 + i).toString(),
+    volume: '10',
+    closeTime: (i + 1) * HOUR - 1,
+  }));
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+  fs.mkdirSync(path.join(dataDir, 'BTCUSDT'));
+  fs.writeFileSync(path.join(dataDir, 'BTCUSDT', '1h.json'), JSON.stringify(createHourlyCandles(10)));
+  fs.writeFileSync(path.join(dataDir, 'BTCUSDT', 'funding.json'), JSON.stringify([
+    { fundingTime: 0, fundingRate: '0.0001' },
+    { fundingTime: 8 * HOUR, fundingRate: '-0.0002' },
+  ]));
+
+  const client = new ReplayExchangeClient(dataDir, 5 * HOUR + 30 * 60_000); // 05:30
+
+  await describe('Replay adapter', async () => {
+    await test('returns only candles closed before the cursor', async () => {
+      const candles = await client.getKlines('BTCUSDT', '1h', 3);
+      expect(candles.length).toBe(3);
+      expect(candles[2].openTime).toBe(4 * HOUR); // 04:00 candle closed at 04:59:59
+    });
+
+    await test('includes the candle in progress when requested', async () => {
+      const candles = await client.getKlines('BTCUSDT', '1h', 2, true);
+      expect(candles[1].openTime).toBe(5 * HOUR);
+    });
+
+    await test('returns every candle since a start time, oldest first', async () => {
+      const closed = await client.getKlinesSince('BTCUSDT', '1h', 2 * HOUR);
+      expect(closed.map(c => c.openTime / HOUR).join(',')).toBe('2,3,4');
+      const withOpen = await client.getKlinesSince('BTCUSDT', '1h', 2 * HOUR, true);
+      expect(withOpen[withOpen.length - 1].openTime).toBe(5 * HOUR);
+    });
+
+    await test('moves with setTime', async () => {
+      client.setTime(2 * HOUR);
+      const candles = await client.getKlines('BTCUSDT', '1h', 350);
+      expect(candles.length).toBe(2);
+      expect(await client.getCurrentPrice('BTCUSDT')).toBe(101.5);
+    });
+
+    await test('lists dataset symbols as trading pairs', async () => {
+      expect((await client.getTradingPairs()).join(',')).toBe('BTCUSDT');
+      const [info] = await client.getExchangeInfo();
+      expect(info.baseAsset).toBe('BTC');
+    });
+
+    await test('uses latest funding rate before the cursor', async () => {
+      client.setTime(9 * HOUR);
+      const funding = await client.getFundingRate('BTCUSDT');
+      expect(funding.fundingRate).toBe(-0.0002);
+      expect(funding.nextFundingTime).toBe(16 * HOUR);
+    });
+  });
+
+  await describe('OKX symbol mapping', async () => {
+    await test('converts canonical symbols to swap instIds and back', () => {
+      expect(toOkxInstId('BTCUSDT')).toBe('BTC-USDT-SWAP');
+      expect(fromOkxInstId('1000PEPE-USDT-SWAP')).toBe('1000PEPEUSDT');
+    });
+
+    await test('pages older than the recent window continue from history-candles', async () => {
+      // Recent endpoint: openTimes 500..400, history endpoint: 399..0 (newest first, like OKX)
+      const row = (ts: number) => [String(ts), '1', '1', '1', '1', '0', '0', '0', '1'];
+      const recent = Array.from({ length: 101 }, (_, i) => row(500 - i));
+      const history = Array.from({ length: 400 }, (_, i) => row(399 - i));
+      const calls: string[] = [];
+      const get = async (apiPath: string, params: Record<string, any>) => {
+        calls.push(`${apiPath.split('/').pop()}:${params.limit}`);
+        const source = apiPath.endsWith('history-candles') ? history : recent;
+        return source
+          .filter(r => params.after === undefined || parseInt(r[0], 10) < parseInt(params.after, 10))
+          .slice(0, params.limit);
+      };
+
+      const rows = await fetchCandleRows('BTC-USDT-SWAP', '1m', fetched => fetched.length > 0 && parseInt(fetched[fetched.length - 1][0], 10) <= 250, Infinity, get);
+      expect(rows[0][0]).toBe('500');
+      expect(parseInt(rows[rows.length - 1][0], 10)).toBeLessThanOrEqual(250);
+      expect(rows.every((r, i) => i === 0 || parseInt(r[0], 10) === parseInt(rows[i - 1][0], 10) - 1)).toBe(true);
+      expect(calls.join(',')).toBe('candles:300,candles:300,history-candles:100,history-candles:100');
+
+      // Limited fetch stops at the wanted count
+      const limited = await fetchCandleRows('BTC-USDT-SWAP', '1m', fetched => fetched.length >= 150, 150, get);
+      expect(limited.length).toBe(150);
+      expect(limited[limited.length - 1][0]).toBe('351');
+
+      // No older data on either endpoint → returns what exists
+      const all = await fetchCandleRows('BTC-USDT-SWAP', '1m', () => false, Infinity, get);
+      expect(all.length).toBe(501);
+    });
+  });
+
+  fs.rmSync(dataDir, { recursive: true, force: true });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Live Trade Labels (MFE/MAE, time-to-target, first touch)
+ *
+ * Run with: npx tsx tests/excursion.test.ts
+ *
+ * Validates (offline):
+ * 1. Running MFE/MAE in R from 1m highs/lows (LONG and SHORT)
+ * 2. Minutes-to-event stamps per status transition, TPs skipped in one move included
+ * 3. first_touch is set once and never overwritten
+ */
+
+import { parseExcursion, updateExcursion, minutesSince, timeToEventUpdates } from '../src/utils/excursion.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const LONG = { direction: 'LONG' as const, entryPrice: 100, slPrice: 98 };   // 1R = 2
+const SHORT = { direction: 'SHORT' as const, entryPrice: 100, slPrice: 102 };
+
+const NO_STAMPS = {
+  timeToTp1Min: null,
+  timeToTp2Min: null,
+  timeToTp3Min: null,
+  timeToSlMin: null,
+  timeToBeMin: null,
+  firstTouch: null,
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('MFE / MAE', async () => {
+    await test('LONG: running max of high and min of low in R', () => {
+      let excursion = parseExcursion(null, null);
+      excursion = updateExcursion(excursion, LONG, 101, 99);
+      excursion = updateExcursion(excursion, LONG, 103, 100.5);
+      excursion = updateExcursion(excursion, LONG, 102, 98.5);
+      expect(excursion.mfeR).toBeCloseTo(1.5, 4);
+      expect(excursion.maeR).toBeCloseTo(-0.75, 4);
+    });
+
+    await test('SHORT: favorable is below entry', () => {
+      const excursion = updateExcursion(parseExcursion('0.2500', '-0.1000'), SHORT, 101, 97);
+      expect(excursion.mfeR).toBeCloseTo(1.5, 4);
+      expect(excursion.maeR).toBeCloseTo(-0.5, 4);
+    });
+
+    await test('range inside entry keeps MFE >= 0 and MAE <= 0', () => {
+      const excursion = updateExcursion(parseExcursion(null, null), LONG, 100, 100);
+      expect(excursion.mfeR).toBe(0);
+      expect(excursion.maeR).toBe(0);
+    });
+  });
+
+  await describe('Time to target', async () => {
+    const createdAt = new Date(1_700_000_000_000);
+
+    await test('minutes from creation, rounded', () => {
+      expect(minutesSince(createdAt, createdAt.getTime() + 14 * 60_000 + 40_000)).toBe(15);
+      expect(minutesSince(createdAt, createdAt.getTime() - 5_000)).toBe(0);
+    });
+
+    await test('TP1 stamps time and first touch', () => {
+      const updates = timeToEventUpdates(NO_STAMPS, 'TP1_HIT', 12);
+      expect(updates.timeToTp1Min).toBe(12);
+      expect(updates.firstTouch).toBe('tp1');
+    });
+
+    await test('TP2 straight from OPEN also stamps TP1', () => {
+      const updates = timeToEventUpdates(NO_STAMPS, 'TP2_HIT', 30);
+      expect(updates.timeToTp1Min).toBe(30);
+      expect(updates.timeToTp2Min).toBe(30);
+      expect(updates.firstTouch).toBe('tp2');
+    });
+
+    await test('later events keep earlier stamps and first touch', () => {
+      const afterTp1 = { ...NO_STAMPS, timeToTp1Min: 12, firstTouch: 'tp1' };
+      const tp2 = timeToEventUpdates(afterTp1, 'TP2_HIT', 45);
+      expect(tp2.timeToTp1Min).toBe(undefined);
+      expect(tp2.timeToTp2Min).toBe(45);
+      expect(tp2.firstTouch).toBe(undefined);
+
+      const be = timeToEventUpdates(afterTp1, 'BE_HIT', 50);
+      expect(be.timeToBeMin).toBe(50);
+      expect(Object.keys(timeToEventUpdates(afterTp1, 'TIMEOUT', 60)).length).toBe(0);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Execution Costs (fees, slippage, funding)
+ *
+ * Run with: npx tsx tests/executionCosts.test.ts
+ *
+ * Validates (offline):
+ * 1. Fees: taker on entry / stop / timeout fills, maker on TP fills
+ * 2. Slippage on stop fills only: fixed bps or fraction of ATR
+ * 3. Funding by holding time and open share (LONG pays, SHORT receives)
+ * 4. calculateTradeOutcome: gross pnlR unchanged, net = gross − costs
+ */
+
+import { calculateExecutionCosts, getExecutionCostConfig, getSignalCostContext, type CostContext } from '../src/utils/executionCosts.js';
+import { calculateTradeOutcome } from '../src/utils/tradeOutcomes.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+// Entry 100, risk 2 → 1% of price = 0.5R
+const NO_FUNDING = getExecutionCostConfig({ TAKER_FEE_RATE: '0.001', MAKER_FEE_RATE: '0.0005', SLIPPAGE_BPS: '10', FUNDING_RATE_8H: '0' });
+
+function context(overrides: Partial<CostContext> = {}): CostContext {
+  return { config: NO_FUNDING, holdingMinutes: 0, ...overrides };
+}
+
+const LONG_TRADE = {
+  direction: 'LONG' as const,
+  entryPrice: '100',
+  tp1Price: '102',
+  tp2Price: '104',
+  tp3Price: '106',
+  slPrice: '98',
+  currentSl: '98',
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Fees and slippage', async () => {
+    await test('stop exit: taker in + taker out + 10bps slippage', () => {
+      const costs = calculateExecutionCosts('LONG', 100, 2, [
+        { kind: 'entry', percent: 100, price: 100 },
+        { kind: 'stop', percent: 100, price: 98 },
+      ], context());
+      expect(costs.feesR).toBeCloseTo((0.1 + 0.098) / 2, 6);
+      expect(costs.slippageR).toBeCloseTo(0.098 / 2, 6);
+      expect(costs.fundingR).toBe(0);
+    });
+
+    await test('TP fills pay maker, no slippage', () => {
+      const costs = calculateExecutionCosts('LONG', 100, 2, [{ kind: 'tp', percent: 50, price: 102 }], context());
+      expect(costs.feesR).toBeCloseTo(0.5 * 102 * 0.0005 / 2, 6);
+      expect(costs.slippageR).toBe(0);
+    });
+
+    await test('ATR slippage mode uses the signal ATR', () => {
+      const config = getExecutionCostConfig({ SLIPPAGE_MODE: 'atr', SLIPPAGE_ATR_FRACTION: '0.2', TAKER_FEE_RATE: '0' });
+      const costs = calculateExecutionCosts('SHORT', 100, 2, [{ kind: 'stop', percent: 100, price: 102 }], context({ config, atr: 1.5 }));
+      expect(costs.slippageR).toBeCloseTo(0.15, 6);
+    });
+  });
+
+  await describe('Funding', async () => {
+    const config = getExecutionCostConfig({ TAKER_FEE_RATE: '0', MAKER_FEE_RATE: '0', SLIPPAGE_BPS: '0', FUNDING_RATE_8H: '0.0001' });
+
+    await test('24h full position: 3 payments, LONG pays / SHORT receives', () => {
+      const fills = [{ kind: 'stop' as const, percent: 100, price: 98 }];
+      expect(calculateExecutionCosts('LONG', 100, 2, fills, context({ config, holdingMinutes: 1440 })).fundingR).toBeCloseTo(3 * 0.01 / 2, 6);
+      expect(calculateExecutionCosts('SHORT', 100, 2, fills, context({ config, holdingMinutes: 1440 })).fundingR).toBeCloseTo(-3 * 0.01 / 2, 6);
+    });
+
+    await test('share after TP1 accrues funding only on the remaining position', () => {
+      const fills = [
+        { kind: 'tp' as const, percent: 50, price: 102 },
+        { kind: 'stop' as const, percent: 50, price: 100 },
+      ];
+      const costs = calculateExecutionCosts('LONG', 100, 2, fills, context({ config, holdingMinutes: 960, timeToTp1Min: 480 }));
+      expect(costs.fundingR).toBeCloseTo((1 + 0.5) * 0.01 / 2, 6);
+    });
+  });
+
+  await describe('Trade outcome', async () => {
+    await test('without cost context net equals gross', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'SL_HIT' });
+      expect(outcome.pnlR).toBe(-1);
+      expect(outcome.netPnlR).toBe(-1);
+    });
+
+    await test('SL: net = -1R − entry/exit fees − slippage', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'SL_HIT', costs: context() });
+      expect(outcome.pnlR).toBe(-1);
+      expect(outcome.netPnlR).toBeCloseTo(-1 - (0.1 + 0.098) / 2 - 0.098 / 2, 6);
+    });
+
+    await test('TP1 then BE: maker at TP1, taker + slippage on the breakeven half', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'BE_HIT', currentSl: '100', partialClosed: 50, costs: context() });
+      const expected = 0.5 - (0.1 + 0.5 * 102 * 0.0005 + 0.5 * 100 * 0.001) / 2 - 0.5 * 0.1 / 2;
+      expect(outcome.netPnlR).toBeCloseTo(expected, 6);
+    });
+
+    await test('cost context from the signal row', () => {
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+      const ctx = getSignalCostContext({ createdAt, timeToTp1Min: 30, timeToTp2Min: null, atr15m: '0.5' }, createdAt.getTime() + 90 * 60_000, NO_FUNDING);
+      expect(ctx.holdingMinutes).toBe(90);
+      expect(ctx.atr).toBe(0.5);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,114 @@
+/**
+ * Golden-file regression suite for pattern detection, S/R zones and the dynamic risk profile
+ *
+ * Run with: npx tsx tests/goldenRegression.test.ts
+ * Re-record after an intended behaviour change: UPDATE_GOLDEN=1 npx tsx tests/goldenRegression.test.ts
+ * Record a new window: tsx src/scripts/recordGolden.ts (see the script header)
+ *
+ * Validates (offline, fixtures in tests/fixtures/golden):
+ * 1. Every fixture replays to the recorded PatternResults, S/R zones and risk profiles
+ * 2. The diff reports the drifting field paths
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  diffGolden,
+  replayGoldenCase,
+  serializeGoldenCase,
+  type GoldenCase,
+  type GoldenOutputs,
+} from '../src/utils/goldenFixtures.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+function loadFixtures(): Array<{ file: string; fixture: GoldenCase }> {
+  return fs.readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({ file, fixture: JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf-8')) }));
+}
+
+// Detector / risk calculator logs would bury the drift report
+function replayQuiet(fixture: GoldenCase): GoldenOutputs {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return replayGoldenCase(fixture);
+  } finally {
+    console.log = log;
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+  const fixtures = loadFixtures();
+
+  await describe(`Golden windows (${fixtures.length})${UPDATE ? ' - UPDATE_GOLDEN' : ''}`, async () => {
+    for (const { file, fixture } of fixtures) {
+      await test(`${fixture.name}: ${fixture.description}`, () => {
+        const actual = replayQuiet(fixture);
+
+        if (UPDATE) {
+          fs.writeFileSync(path.join(FIXTURE_DIR, file), serializeGoldenCase({ ...fixture, expected: actual }));
+          console.log(`   📝 Re-recorded ${file}`);
+          return;
+        }
+
+        const drifts = diffGolden(fixture.expected, actual);
+        for (const drift of drifts.slice(0, 10)) {
+          console.log(`   ≠ ${drift.path}: expected ${JSON.stringify(drift.expected)}, got ${JSON.stringify(drift.actual)}`);
+        }
+        if (drifts.length > 10) {
+          console.log(`   … ${drifts.length - 10} more`);
+        }
+        expect(drifts.length).toBe(0);
+      });
+    }
+  });
+
+  await describe('Drift detection', async () => {
+    await test('Numeric drift beyond tolerance is reported with its path', () => {
+      const expected = { riskProfiles: [{ sl: 1.2345, tp1: null }], patterns: [{ type: 'pinbar_buy', score: 80 }] };
+      expect(diffGolden(expected, { riskProfiles: [{ sl: 1.2345 + 1e-12, tp1: null }], patterns: [{ type: 'pinbar_buy', score: 80 }] }).length).toBe(0);
+
+      const drifts = diffGolden(expected, { riskProfiles: [{ sl: 1.2346, tp1: null }], patterns: [{ type: 'pinbar_buy', score: 80 }] });
+      expect(drifts.length).toBe(1);
+      expect(drifts[0].path).toBe('riskProfiles[0].sl');
+    });
+
+    await test('Missing / extra patterns and fields are drift', () => {
+      const drifts = diffGolden(
+        { patterns: [{ type: 'pinbar_buy' }] },
+        { patterns: [{ type: 'pinbar_buy', score: 80 }, { type: 'fakey_buy' }] }
+      );
+      expect(drifts.map(d => d.path).join(',')).toBe('patterns.length,patterns[0].score');
+    });
+
+    await test('A mutated window no longer matches its recording', () => {
+      const { fixture } = fixtures.find(({ fixture }) => fixture.expected.patterns.length > 0)!;
+      const rows = fixture.candles[fixture.timeframe];
+      const lastRow = rows[rows.length - 1];
+      const mutated: GoldenCase = {
+        ...fixture,
+        candles: { ...fixture.candles, [fixture.timeframe]: [...rows.slice(0, -1), [lastRow[0], lastRow[1], lastRow[2], lastRow[3], lastRow[1], '1', lastRow[6]]] },
+      };
+      expect(diffGolden(fixture.expected, replayQuiet(mutated)).length > 0).toBe(true);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
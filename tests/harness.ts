@@ -0,0 +1,117 @@
+/**
+ * Shared test harness (simple assertions without external dependencies)
+ *
+ * Every tests/*.test.ts runs standalone (npx tsx tests/<name>.test.ts) and through `npm test`
+ * (scripts/run-tests.ts): run(runTests) → finish(startTime) prints the summary and exits 1 on any failure.
+ */
+
+export const results = {
+  passed: 0,
+  failed: 0,
+};
+
+export async function describe(suiteName: string, fn: () => void | Promise<void>) {
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`📦 ${suiteName}`);
+  console.log(`${'='.repeat(80)}`);
+  await fn();
+}
+
+export async function test(testName: string, fn: () => void | Promise<void>) {
+  try {
+    console.log(`\n🧪 ${testName}`);
+    await fn();
+    results.passed++;
+    console.log(`   ✅ PASS`);
+  } catch (error) {
+    results.failed++;
+    console.log(`   ❌ FAIL: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function expect(actual: any) {
+  return {
+    toBe(expected: any) {
+      if (actual !== expected) {
+        throw new Error(`Expected ${expected}, got ${actual}`);
+      }
+    },
+    toBeNull() {
+      if (actual !== null) {
+        throw new Error(`Expected null, got ${actual}`);
+      }
+    },
+    toBeTruthy() {
+      if (!actual) {
+        throw new Error(`Expected ${actual} to be truthy`);
+      }
+    },
+    toBeFalsy() {
+      if (actual) {
+        throw new Error(`Expected ${actual} to be falsy`);
+      }
+    },
+    toBeGreaterThan(expected: number) {
+      if (!(actual > expected)) {
+        throw new Error(`Expected ${actual} > ${expected}`);
+      }
+    },
+    toBeGreaterThanOrEqual(expected: number) {
+      if (!(actual >= expected)) {
+        throw new Error(`Expected ${actual} >= ${expected}`);
+      }
+    },
+    toBeLessThan(expected: number) {
+      if (!(actual < expected)) {
+        throw new Error(`Expected ${actual} < ${expected}`);
+      }
+    },
+    toBeLessThanOrEqual(expected: number) {
+      if (!(actual <= expected)) {
+        throw new Error(`Expected ${actual} <= ${expected}`);
+      }
+    },
+    toBeInRange(min: number, max: number) {
+      if (!(actual >= min && actual <= max)) {
+        throw new Error(`Expected ${actual} to be in range [${min}, ${max}]`);
+      }
+    },
+    // |actual - expected| ≤ 10^-precision
+    toBeCloseTo(expected: number, precision: number = 2) {
+      const diff = Math.abs(actual - expected);
+      if (!(diff <= Math.pow(10, -precision))) {
+        throw new Error(`Expected ${actual} to be close to ${expected} (precision: ${precision}), diff: ${diff}`);
+      }
+    },
+    toThrow() {
+      try {
+        actual();
+      } catch {
+        return;
+      }
+      throw new Error('Expected function to throw');
+    },
+  };
+}
+
+/**
+ * Print the summary, exit 1 if any test failed
+ */
+export function finish(startTime: number) {
+  const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+  console.log(`\n📊 Passed: ${results.passed} | Failed: ${results.failed} | Duration: ${duration}s`);
+
+  if (results.failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the suite: an error outside of test() fails the file as well
+ */
+export function run(runTests: () => Promise<void>) {
+  runTests().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Limit-Order Retracement Entries
+ *
+ * Run with: npx tsx tests/limitEntry.test.ts
+ *
+ * Validates (offline):
+ * 1. Entry mode per pattern type / family from env
+ * 2. Limit price: % retracement of the signal bar, zone edge, fallback to market
+ * 3. Fill simulation on 1m candles: fill price, gap fills, TP1 before fill, expiry
+ */
+
+import {
+  calculateLimitPrice,
+  getEntryMode,
+  getLimitEntryConfig,
+  simulateLimitFill,
+  type LimitOrder,
+} from '../src/utils/limitEntry.js';
+import type { Zone } from '../src/utils/indicators/standardPlan.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const MIN = 60_000;
+const T0 = 1_700_000_000_000; // Pattern close
+
+function candle(openTime: number, open: number, high: number, low: number, close: number): Candle {
+  return {
+    openTime,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    volume: '1',
+    closeTime: openTime + MIN - 1,
+  };
+}
+
+// Bullish pin bar: high 101, low 96 (long lower tail), close 100.5, SL 95.5
+const PIN_BAR = { direction: 'LONG' as const, close: 100.5, high: 101, low: 96, slPrice: 95.5 };
+
+// LONG limit 98.5, TP1 103, 3 × 15m
+const ORDER: LimitOrder = {
+  direction: 'LONG',
+  limitPrice: 98.5,
+  tp1Price: 103,
+  placedAt: T0,
+  expiresAt: T0 + 45 * MIN,
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Entry mode config', async () => {
+    await test('Default: market for every pattern', () => {
+      const config = getLimitEntryConfig({});
+      expect(getEntryMode(config, 'pinbar_buy')).toBe('market');
+      expect(config.retracePct).toBe(50);
+      expect(config.expiryBars).toBe(3);
+    });
+
+    await test('Per type and per family, exact type wins', () => {
+      const config = getLimitEntryConfig({ ENTRY_MODES: 'pinbar:limit_retrace, pinbar_sell:limit_zone,fakey:bogus' });
+      expect(getEntryMode(config, 'pinbar_buy')).toBe('limit_retrace');
+      expect(getEntryMode(config, 'pinbar_sell')).toBe('limit_zone');
+      expect(getEntryMode(config, 'fakey_buy')).toBe('market');
+      expect(getEntryMode(config, 'engulfing_buy')).toBe('market');
+    });
+
+    await test('Invalid retrace / expiry fall back to defaults', () => {
+      const config = getLimitEntryConfig({ LIMIT_RETRACE_PCT: '150', LIMIT_EXPIRY_BARS: '0' });
+      expect(config.retracePct).toBe(50);
+      expect(config.expiryBars).toBe(3);
+      expect(getLimitEntryConfig({ LIMIT_RETRACE_PCT: '38.2' }).retracePct).toBe(38.2);
+    });
+  });
+
+  await describe('Limit price', async () => {
+    await test('limit_retrace: 50% of the pin bar sits in the tail', () => {
+      expect(calculateLimitPrice('limit_retrace', PIN_BAR, 50)).toBe(98.5);
+      const short = { direction: 'SHORT' as const, close: 99.5, high: 104, low: 99, slPrice: 104.5 };
+      expect(calculateLimitPrice('limit_retrace', short, 50)).toBe(101.5);
+    });
+
+    await test('limit_retrace above the close / beyond the stop → market', () => {
+      expect(calculateLimitPrice('limit_retrace', { ...PIN_BAR, close: 97 }, 50)).toBe(null);
+      expect(calculateLimitPrice('limit_retrace', { ...PIN_BAR, slPrice: 99 }, 50)).toBe(null);
+      expect(calculateLimitPrice('market', PIN_BAR, 50)).toBe(null);
+    });
+
+    await test('limit_zone: top of the nearest support below the close', () => {
+      const zones: Zone[] = [
+        { type: 'support', low: 97, high: 97.8, tf: '1h' },
+        { type: 'support', low: 98.6, high: 99.2, tf: '15m' },
+        { type: 'resistance', low: 102, high: 103, tf: '1h' },
+      ];
+      expect(calculateLimitPrice('limit_zone', { ...PIN_BAR, zones }, 50)).toBe(99.2);
+      expect(calculateLimitPrice('limit_zone', { ...PIN_BAR, direction: 'SHORT', slPrice: 104, zones }, 50)).toBe(102);
+      expect(calculateLimitPrice('limit_zone', PIN_BAR, 50)).toBe(null);
+    });
+  });
+
+  await describe('Fill simulation', async () => {
+    await test('Filled at the limit on the first touch', () => {
+      const candles = [
+        candle(T0 - MIN, 100, 101, 96, 100.5), // Pattern minute, ignored
+        candle(T0, 100.5, 100.8, 99.4, 99.6),
+        candle(T0 + MIN, 99.6, 99.8, 98.2, 98.9),
+      ];
+      const result = simulateLimitFill(ORDER, candles, T0 + 2 * MIN);
+      expect(result.state).toBe('filled');
+      if (result.state === 'filled') {
+        expect(result.price).toBe(98.5);
+        expect(result.time).toBe(T0 + MIN);
+      }
+    });
+
+    await test('Gap through the limit fills at the open', () => {
+      const result = simulateLimitFill(ORDER, [candle(T0, 98, 98.3, 97.5, 98.1)], T0 + MIN);
+      expect(result.state).toBe('filled');
+      if (result.state === 'filled') expect(result.price).toBe(98);
+    });
+
+    await test('TP1 before the fill → cancelled (target)', () => {
+      const candles = [candle(T0, 100.5, 103.2, 100, 103), candle(T0 + MIN, 103, 103, 98, 98.2)];
+      const result = simulateLimitFill(ORDER, candles, T0 + 2 * MIN);
+      expect(result.state).toBe('cancelled');
+      if (result.state === 'cancelled') expect(result.reason).toBe('target');
+    });
+
+    await test('Not filled in time → expired; still waiting before expiry', () => {
+      const quiet = [candle(T0, 100.5, 100.8, 99.5, 100)];
+      expect(simulateLimitFill(ORDER, quiet, T0 + MIN).state).toBe('waiting');
+
+      const result = simulateLimitFill(ORDER, [...quiet, candle(T0 + 45 * MIN, 100, 100, 98, 98.4)], T0 + 46 * MIN);
+      expect(result.state).toBe('cancelled');
+      if (result.state === 'cancelled') expect(result.reason).toBe('expired');
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for the Inside Bar / Star / Three-Bar / Tweezer pattern modules
+ *
+ * Run with: npx tsx tests/newPatterns.test.ts
+ *
+ * Validates (offline):
+ * 1. Each detector finds its LONG setup and the mirrored SHORT setup
+ * 2. Near-misses are rejected
+ * 3. Detector score is 0-10, entry = candleClosePrice = last closed candle close
+ * 4. Modules are registered after the built-ins with the shared pipeline rules
+ */
+
+import { patternRegistry } from '../src/utils/patterns/index.js';
+import { detectInsideBarBreakout } from '../src/utils/patterns/insideBar.js';
+import { detectStar } from '../src/utils/patterns/star.js';
+import { detectThreeBarReversal } from '../src/utils/patterns/threeBar.js';
+import { detectTweezer } from '../src/utils/patterns/tweezer.js';
+import type { PatternResult } from '../src/utils/candleAnalyzer.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+type Bar = [open: number, high: number, low: number, close: number];
+
+// Flat filler (range 2 around 100) followed by the pattern bars
+function series(bars: Bar[], filler: number = 6): Candle[] {
+  const all: Bar[] = [...Array.from({ length: filler }, (): Bar => [100, 101, 99, 100]), ...bars];
+  return all.map(([open, high, low, close], i) => ({
+    openTime: i * 900_000,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    volume: '1',
+    closeTime: i * 900_000 + 899_999,
+  }));
+}
+
+// Mirror around 100: LONG setup → SHORT setup
+function mirror(bars: Bar[]): Bar[] {
+  return bars.map(([open, high, low, close]): Bar => [200 - open, 200 - low, 200 - high, 200 - close]);
+}
+
+function quiet(fn: (candles: Candle[], tf?: string) => PatternResult, candles: Candle[]): PatternResult {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return fn(candles, '15m');
+  } finally {
+    console.log = log;
+  }
+}
+
+function expectSetup(result: PatternResult, type: string, direction: 'LONG' | 'SHORT', close: number, score: number) {
+  expect(result.detected).toBe(true);
+  expect(result.type).toBe(type);
+  expect(result.direction).toBe(direction);
+  expect(result.entryPrice).toBe(close);
+  expect(result.candleClosePrice).toBe(close);
+  expect(result.score).toBe(score);
+}
+
+const INSIDE_BAR: Bar[] = [[100, 104, 96, 101], [100.5, 102, 99, 101], [101, 105.2, 100.8, 105]];
+const MORNING_STAR: Bar[] = [[104, 104.5, 97.5, 98], [97.8, 98.2, 96.5, 97.9], [98, 103.5, 97.8, 103]];
+const THREE_BAR: Bar[] = [[101, 101.5, 98, 98.5], [98.5, 99.5, 97, 98], [98, 101.8, 97.8, 101.6]];
+const TWEEZER_BOTTOM: Bar[] = [[100, 100.5, 96, 97], [97, 99.5, 96.05, 99]];
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Inside Bar Breakout', async () => {
+    await test('Breakout up / down beyond the inside bar', () => {
+      expectSetup(quiet(detectInsideBarBreakout, series(INSIDE_BAR)), 'insidebar_buy', 'LONG', 105, 10);
+      expectSetup(quiet(detectInsideBarBreakout, series(mirror(INSIDE_BAR))), 'insidebar_sell', 'SHORT', 95, 10);
+    });
+
+    await test('Second bar not inside the mother bar → no pattern', () => {
+      const bars: Bar[] = [INSIDE_BAR[0], [100.5, 105, 99, 101], INSIDE_BAR[2]];
+      expect(quiet(detectInsideBarBreakout, series(bars)).detected).toBe(false);
+    });
+  });
+
+  await describe('Morning / Evening Star', async () => {
+    await test('Morning star and mirrored evening star', () => {
+      expectSetup(quiet(detectStar, series(MORNING_STAR)), 'star_buy', 'LONG', 103, 8);
+      expectSetup(quiet(detectStar, series(mirror(MORNING_STAR))), 'star_sell', 'SHORT', 97, 8);
+    });
+
+    await test('Third bar below the first body midpoint → no pattern', () => {
+      const bars: Bar[] = [MORNING_STAR[0], MORNING_STAR[1], [98, 100.8, 97.8, 100.5]];
+      expect(quiet(detectStar, series(bars)).detected).toBe(false);
+    });
+  });
+
+  await describe('Three-Bar Reversal', async () => {
+    await test('Swing low / high reversed through the middle bar', () => {
+      expectSetup(quiet(detectThreeBarReversal, series(THREE_BAR)), 'threebar_buy', 'LONG', 101.6, 10);
+      expectSetup(quiet(detectThreeBarReversal, series(mirror(THREE_BAR))), 'threebar_sell', 'SHORT', 98.4, 10);
+    });
+
+    await test('Close inside the middle bar → no pattern', () => {
+      const bars: Bar[] = [THREE_BAR[0], THREE_BAR[1], [98, 99.5, 97.8, 99.4]];
+      expect(quiet(detectThreeBarReversal, series(bars)).detected).toBe(false);
+    });
+  });
+
+  await describe('Tweezer Top / Bottom', async () => {
+    await test('Equal lows / highs at a local extreme', () => {
+      expectSetup(quiet(detectTweezer, series(TWEEZER_BOTTOM)), 'tweezer_buy', 'LONG', 99, 8);
+      expectSetup(quiet(detectTweezer, series(mirror(TWEEZER_BOTTOM))), 'tweezer_sell', 'SHORT', 101, 8);
+    });
+
+    await test('Lows further apart than 0.1 ATR → no pattern', () => {
+      const bars: Bar[] = [TWEEZER_BOTTOM[0], [97, 99.5, 97, 99]];
+      expect(quiet(detectTweezer, series(bars)).detected).toBe(false);
+    });
+  });
+
+  await describe('Registry', async () => {
+    await test('New modules after the built-ins, shared trend / zone rules, default on', () => {
+      const names = patternRegistry.list().map(module => module.name);
+      expect(names.slice(4).join(',')).toBe('insidebar,star,threebar,tweezer');
+      for (const name of ['insidebar', 'star', 'threebar', 'tweezer']) {
+        const module = patternRegistry.get(name)!;
+        expect(module.trendRule).toBe('with_trend');
+        expect(module.zoneRule).toBe('bonus');
+        expect(module.enabledByDefault === false).toBe(false);
+      }
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,204 @@
+/**
+ * Unit Tests for order blocks and fair value gaps
+ *
+ * Run with: npx tsx tests/orderBlocks.test.ts
+ *
+ * Validates (offline, synthetic candles):
+ * 1. Bullish / bearish FVG and order block detection, minimum gap size
+ * 2. Mitigation tracking (first candle back in the zone)
+ * 3. Pattern candle inside an unmitigated OB / FVG of its direction
+ * 4. Zone objects, the inObFvg confluence factor and the near-miss export columns
+ */
+
+import type { Candle } from '../src/utils/binanceClient.js';
+import {
+  buildObFvgZones,
+  detectObFvgZones,
+  findPatternObFvg,
+  obFvgToZone,
+  unmitigatedAt,
+  type ObFvgZone,
+} from '../src/utils/indicators/orderBlocks.js';
+import {
+  calculateConfluenceScore,
+  getConfluenceExplanation,
+  type ConfluenceFactors,
+} from '../src/utils/confluenceScoring.js';
+import { NEAR_MISS_COLUMNS } from '../src/utils/mlExportSchema.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const START = Date.UTC(2024, 0, 1);
+const H1 = 60 * 60 * 1000;
+
+// 1h candles from [open, high, low, close]
+function candles(rows: Array<[number, number, number, number]>): Candle[] {
+  return rows.map(([open, high, low, close], i) => ({
+    openTime: START + i * H1,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    volume: '100',
+    closeTime: START + (i + 1) * H1 - 1,
+  }));
+}
+
+// Mirror around 100: bullish setups become bearish ones
+function mirror(rows: Array<[number, number, number, number]>): Array<[number, number, number, number]> {
+  return rows.map(([open, high, low, close]) => [200 - open, 200 - low, 200 - high, 200 - close]);
+}
+
+const range = Array.from({ length: 12 }, (): [number, number, number, number] => [100, 101, 99, 100.5]);
+
+// #12 bearish candle (OB 99.5-101), #13 impulse, #14 leaves the FVG 101-102 (#12 high → #14 low)
+const impulse: Array<[number, number, number, number]> = [
+  ...range,
+  [100.5, 101, 99.5, 100],
+  [100, 104, 100, 103.8],
+  [103.8, 105, 102, 104.5],
+  [104.5, 106, 103, 105.5],
+  [105.5, 106, 104, 105],
+];
+// #17 dips into the FVG (not the OB), #18 reaches the OB
+const fvgReturn: [number, number, number, number] = [105, 105.5, 101.5, 102];
+const obReturn: [number, number, number, number] = [102, 104.2, 100.5, 102.5];
+
+const at = (index: number) => START + index * H1;
+const find = (zones: ObFvgZone[], kind: ObFvgZone['kind']) => zones.find(z => z.kind === kind);
+
+function quiet<T>(fn: () => T): T {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = log;
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Detection', async () => {
+    await test('Bullish FVG and the last bearish candle before the impulse as order block', () => {
+      const zones = detectObFvgZones(candles(impulse), '1h');
+      expect(zones.length).toBe(2);
+
+      const fvg = find(zones, 'fvg')!;
+      expect(fvg.side).toBe('bullish');
+      expect(fvg.low).toBe(101);
+      expect(fvg.high).toBe(102);
+      expect(fvg.formedAt).toBe(at(14));
+      expect(fvg.mitigatedAt).toBe(null);
+
+      const ob = find(zones, 'order_block')!;
+      expect(ob.side).toBe('bullish');
+      expect(ob.low).toBe(99.5);
+      expect(ob.high).toBe(101);
+      expect(ob.formedAt).toBe(at(14));
+    });
+
+    await test('Bearish FVG / order block (mirrored setup)', () => {
+      const zones = detectObFvgZones(candles(mirror(impulse)), '4h');
+      expect(zones.length).toBe(2);
+      expect(zones.every(z => z.side === 'bearish' && z.tf === '4h')).toBe(true);
+      expect(find(zones, 'fvg')!.low).toBe(98);
+      expect(find(zones, 'fvg')!.high).toBe(99);
+      expect(find(zones, 'order_block')!.low).toBe(99);
+      expect(find(zones, 'order_block')!.high).toBe(100.5);
+    });
+
+    await test('Gaps below FVG_MIN_SIZE_ATR × ATR are ignored (no FVG, no OB)', () => {
+      const tiny = impulse.map((row, i): [number, number, number, number] => i === 14 ? [103.8, 105, 101.05, 104.5] : row);
+      expect(detectObFvgZones(candles(tiny), '1h').length).toBe(0);
+    });
+
+    await test('Not enough candles for ATR → no zones', () => {
+      expect(detectObFvgZones(candles(impulse.slice(10)), '1h').length).toBe(0);
+    });
+  });
+
+  await describe('Mitigation', async () => {
+    await test('First candle back in the zone mitigates it', () => {
+      const zones = detectObFvgZones(candles([...impulse, fvgReturn, obReturn]), '1h');
+      expect(find(zones, 'fvg')!.mitigatedAt).toBe(at(17));
+      expect(find(zones, 'order_block')!.mitigatedAt).toBe(at(18));
+
+      expect(unmitigatedAt(zones, at(17)).length).toBe(2); // #17 itself is the first return
+      expect(unmitigatedAt(zones, at(18)).length).toBe(1);
+      expect(unmitigatedAt(zones, at(19)).length).toBe(0);
+      expect(unmitigatedAt(zones, at(14)).length).toBe(0); // Not formed yet
+    });
+
+    await test('Pattern candle trading into an unmitigated zone of its direction', () => {
+      const first = candles([...impulse, fvgReturn]);
+      const inFvg = findPatternObFvg('LONG', first[first.length - 1], detectObFvgZones(first, '1h'));
+      expect(inFvg?.kind).toBe('fvg');
+      expect(findPatternObFvg('SHORT', first[first.length - 1], detectObFvgZones(first, '1h'))).toBe(null);
+
+      // FVG already mitigated by #17 - only the order block is still fresh for #18
+      const second = candles([...impulse, fvgReturn, obReturn]);
+      const inOb = findPatternObFvg('LONG', second[second.length - 1], detectObFvgZones(second, '1h'));
+      expect(inOb?.kind).toBe('order_block');
+      expect(inOb?.tf).toBe('1h');
+    });
+
+    await test('Pattern candle away from the zones → null', () => {
+      const series = candles(impulse);
+      expect(findPatternObFvg('LONG', series[series.length - 1], detectObFvgZones(series, '1h'))).toBe(null);
+    });
+  });
+
+  await describe('Zones, confluence and ML export', async () => {
+    await test('Zone objects per timeframe with kind metadata', () => {
+      const series = candles(impulse);
+      const all = buildObFvgZones({ '1h': series, '4h': candles(mirror(impulse)) });
+      expect(all.length).toBe(4);
+      expect(all.filter(z => z.tf === '1h').length).toBe(2);
+
+      const support = obFvgToZone(find(all, 'fvg')!);
+      expect(support.type).toBe('support');
+      expect(support.kind).toBe('fvg');
+      expect(support.tf).toBe('1h');
+      expect(obFvgToZone(all.find(z => z.side === 'bearish')!).type).toBe('resistance');
+    });
+
+    await test('inObFvg confluence factor adds 1 point', () => {
+      const none: ConfluenceFactors = {
+        patternQuality: false,
+        atKeyZone: false,
+        trendAligned: false,
+        volumeSpike: false,
+        zoneFresh: false,
+        multiTFconfluence: false,
+        cleanRejection: false,
+        rAvailable: false,
+        inObFvg: false,
+      };
+      const factors = { ...none, inObFvg: true };
+      const score = quiet(() => calculateConfluenceScore(factors));
+      expect(score).toBe(1);
+      expect(quiet(() => calculateConfluenceScore(none))).toBe(0);
+      expect(getConfluenceExplanation(factors, score, '15m').includes('Order Block / FVG (+1)')).toBe(true);
+    });
+
+    await test('Near-miss export has the OB / FVG columns', () => {
+      const names = NEAR_MISS_COLUMNS.map(c => c.name);
+      expect(names.includes('ob_fvg_kind')).toBe(true);
+      expect(names.includes('ob_fvg_tf')).toBe(true);
+      expect(names.includes('ob_fvg_zones')).toBe(true);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
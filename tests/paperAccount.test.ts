@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for the Paper-Trading Account
+ *
+ * Run with: npx tsx tests/paperAccount.test.ts
+ *
+ * Validates (offline):
+ * 1. Position size from risk % of the balance
+ * 2. Exit fills follow the partial close ladder (default 50/30/20 and dynamic %s)
+ * 3. Fill PnL / fees, equity curve and drawdown
+ */
+
+import {
+  getPaperAccountConfig,
+  calculatePositionSize,
+  planExitFills,
+  settleFill,
+  buildEquityCurve,
+  maxDrawdownPct,
+} from '../src/utils/paperAccount.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+// LONG @100, SL 98, TP1 102, TP2 104, TP3 106
+const LEVELS = { tp1Price: 102, tp2Price: 104, tp3Price: 106 };
+
+function describeFills(fills: Array<{ percent: number; price: number; reason: string }>): string {
+  return fills.map(f => `${f.reason}:${f.percent}@${f.price}`).join(',');
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Position sizing', async () => {
+    await test('defaults and env overrides', () => {
+      const defaults = getPaperAccountConfig({});
+      expect(defaults.initialBalance).toBe(10_000);
+      expect(defaults.riskPercent).toBe(1);
+      expect(getPaperAccountConfig({ PAPER_RISK_PERCENT: '0.5', PAPER_FEE_RATE: 'x' }).riskPercent).toBe(0.5);
+      expect(getPaperAccountConfig({ PAPER_FEE_RATE: 'x' }).feeRate).toBe(0.0005);
+    });
+
+    await test('$10k at 1% with a 2-point stop = 50 units', () => {
+      const size = calculatePositionSize(10_000, 1, 100, 98);
+      expect(size.riskAmount).toBeCloseTo(100, 4);
+      expect(size.quantity).toBeCloseTo(50, 4);
+      expect(size.notional).toBeCloseTo(5000, 4);
+      expect(calculatePositionSize(10_000, 1, 100, 100).quantity).toBe(0);
+    });
+  });
+
+  await describe('Exit fills', async () => {
+    await test('TP ladder with default percents', () => {
+      expect(describeFills(planExitFills({ ...LEVELS, status: 'TP1_HIT', previousClosed: 0, exitPrice: 0 }))).toBe('TP1_HIT:50@102');
+      expect(describeFills(planExitFills({ ...LEVELS, status: 'TP2_HIT', previousClosed: 50, exitPrice: 0 }))).toBe('TP2_HIT:30@104');
+      expect(describeFills(planExitFills({ ...LEVELS, status: 'TP3_HIT', previousClosed: 80, exitPrice: 0 }))).toBe('TP3_HIT:20@106');
+    });
+
+    await test('TP levels skipped in one move fill at their own prices', () => {
+      const fills = planExitFills({ ...LEVELS, status: 'TP2_HIT', previousClosed: 0, exitPrice: 0 });
+      expect(describeFills(fills)).toBe('TP1_HIT:50@102,TP2_HIT:30@104');
+    });
+
+    await test('stop / timeout close the rest at the exit price', () => {
+      expect(describeFills(planExitFills({ ...LEVELS, status: 'BE_HIT', previousClosed: 50, exitPrice: 100 }))).toBe('BE_HIT:50@100');
+      expect(describeFills(planExitFills({ ...LEVELS, status: 'SL_HIT', previousClosed: 0, exitPrice: 98 }))).toBe('SL_HIT:100@98');
+      expect(describeFills(planExitFills({ ...LEVELS, status: 'TIMEOUT', previousClosed: 80, exitPrice: 103 }))).toBe('TIMEOUT:20@103');
+    });
+
+    await test('dynamic percents (15m scalp: 0/100/0)', () => {
+      const fills = planExitFills({ ...LEVELS, status: 'TP2_HIT', previousClosed: 0, exitPrice: 0, customPercents: { p1: 0, p2: 100, p3: 0 } });
+      expect(describeFills(fills)).toBe('TP2_HIT:100@104');
+    });
+  });
+
+  await describe('Fills and equity', async () => {
+    await test('fill PnL and fee on the closed share', () => {
+      const settled = settleFill('SHORT', 100, 50, { percent: 50, price: 98, reason: 'TP1_HIT' }, 0.001);
+      expect(settled.quantity).toBeCloseTo(25, 4);
+      expect(settled.pnl).toBeCloseTo(50, 4);
+      expect(settled.fee).toBeCloseTo(2.45, 4);
+    });
+
+    await test('drawdown from the running peak', () => {
+      const at = (minutes: number) => new Date(minutes * 60_000);
+      const curve = buildEquityCurve([
+        { createdAt: at(0), balance: 10_000 },
+        { createdAt: at(1), balance: 10_500 },
+        { createdAt: at(2), balance: 9_975 },
+        { createdAt: at(3), balance: 10_200 },
+      ]);
+      expect(curve[2].drawdownPct).toBeCloseTo(-5, 4);
+      expect(curve[3].peak).toBe(10_500);
+      expect(maxDrawdownPct(curve)).toBeCloseTo(-5, 4);
+      expect(maxDrawdownPct([])).toBe(0);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
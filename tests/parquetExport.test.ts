@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Parquet ML Export
+ *
+ * Run with: npx tsx tests/parquetExport.test.ts
+ *
+ * Validates (offline, no DB):
+ * 1. Output is a real Parquet file (PAR1 magic) that reads back with explicit column types
+ * 2. Decimal strings → float64, enums → dictionary strings, jsonb → JSON strings
+ * 3. Export column specs cover every DB column
+ * 4. date=YYYY-MM-DD partitioning
+ */
+
+import { getTableColumns } from 'drizzle-orm';
+import { encodeParquet, readParquetTable, partitionByDate, type ParquetColumn } from '../src/utils/parquetWriter.js';
+import { SIGNAL_COLUMNS, NEAR_MISS_COLUMNS, SHADOW_COLUMNS, partitionPath } from '../src/utils/mlExportSchema.js';
+import { signals, nearMissSkips, shadowEvaluations } from '../src/mastra/storage/schema.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA
+// ============================================================================
+
+interface Row {
+  id: number;
+  price: string | null;
+  side: string;
+  zones: unknown;
+  active: boolean | null;
+  createdAt: Date;
+}
+
+const COLUMNS: ParquetColumn<Row>[] = [
+  { name: 'id', type: 'int32', value: r => r.id },
+  { name: 'price', type: 'float64', value: r => r.price },
+  { name: 'side', type: 'enum', value: r => r.side },
+  { name: 'zones', type: 'json', value: r => r.zones },
+  { name: 'active', type: 'bool', value: r => r.active },
+  { name: 'created_at', type: 'timestamp', value: r => r.createdAt },
+];
+
+const ROWS: Row[] = [
+  { id: 1, price: '101.25000000', side: 'LONG', zones: [{ tf: '1h', low: 1 }], active: true, createdAt: new Date('2025-01-01T10:00:00Z') },
+  { id: 2, price: null, side: 'SHORT', zones: null, active: null, createdAt: new Date('2025-01-01T23:59:00Z') },
+  { id: 3, price: '0.5', side: 'LONG', zones: {}, active: false, createdAt: new Date('2025-01-02T00:01:00Z') },
+];
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Parquet encoding', async () => {
+    const bytes = encodeParquet(COLUMNS, ROWS, { schema_version: '1' });
+    const table = readParquetTable(bytes);
+
+    await test('writes PAR1 magic at both ends', () => {
+      expect(Buffer.from(bytes.slice(0, 4)).toString()).toBe('PAR1');
+      expect(Buffer.from(bytes.slice(-4)).toString()).toBe('PAR1');
+    });
+
+    await test('keeps explicit column types', () => {
+      const types = Object.fromEntries(table.schema.fields.map(f => [f.name, String(f.type)]));
+      expect(types.id).toBe('Int32');
+      expect(types.price).toBe('Float64');
+      expect(types.side).toBe('Dictionary<Int32, Utf8>');
+      expect(types.zones).toBe('Utf8');
+      expect(types.created_at).toBe('Timestamp<MILLISECOND, UTC>');
+    });
+
+    await test('round-trips values and nulls', () => {
+      const rows = table.toArray().map(r => r.toJSON());
+      expect(table.numRows).toBe(3);
+      expect(rows[0].price).toBe(101.25);
+      expect(rows[1].price).toBe(null);
+      expect(rows[1].side).toBe('SHORT');
+      expect(rows[0].zones).toBe('[{"tf":"1h","low":1}]');
+      expect(rows[2].active).toBe(false);
+      expect(rows[0].created_at).toBe(Date.parse('2025-01-01T10:00:00Z'));
+    });
+  });
+
+  await describe('ML export schema', async () => {
+    const specs: [string, ParquetColumn<any>[], Record<string, { name: string }>][] = [
+      ['signals', SIGNAL_COLUMNS, getTableColumns(signals)],
+      ['near_miss_skips', NEAR_MISS_COLUMNS, getTableColumns(nearMissSkips)],
+      ['shadow_evaluations', SHADOW_COLUMNS, getTableColumns(shadowEvaluations)],
+    ];
+
+    for (const [tableName, columns, dbColumns] of specs) {
+      await test(`${tableName}: every DB column is exported`, () => {
+        const exported = new Set(columns.map(c => c.name));
+        const missing = Object.values(dbColumns).map(c => c.name).filter(name => !exported.has(name));
+        expect(missing.join(',')).toBe('');
+      });
+    }
+  });
+
+  await describe('Date partitioning', async () => {
+    await test('groups rows by UTC day', () => {
+      const partitions = partitionByDate(ROWS, r => r.createdAt);
+      expect(partitions.get('2025-01-01')?.length).toBe(2);
+      expect(partitions.get('2025-01-02')?.length).toBe(1);
+    });
+
+    await test('uses Hive-style partition directories', () => {
+      expect(partitionPath('ml_exports', 'near_miss', '2025-01-02')).toBe('ml_exports/near_miss/date=2025-01-02/data.parquet');
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
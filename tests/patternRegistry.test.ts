@@ -0,0 +1,144 @@
+/**
+ * Unit Tests for the Pattern Registry
+ *
+ * Run with: npx tsx tests/patternRegistry.test.ts
+ *
+ * Validates (offline):
+ * 1. Built-in modules registered in the original detection order
+ * 2. PATTERNS_ENABLED / PATTERNS_DISABLED per timeframe, opt-in modules, module timeframes
+ * 3. PatternDetector runs registered modules: trend / zone rules, minCandles, minScore
+ */
+
+import {
+  getPatternConfig,
+  isPatternEnabled,
+  patternRegistry,
+  PatternDetector,
+  PatternRegistry,
+  type PatternModule,
+} from '../src/utils/patterns/index.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+// Flat candles: neutral trend (price on EMA50 / EMA200), no S/R zones (< 300 candles), volume = average
+function flatCandles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => ({
+    openTime: i * 60_000,
+    open: '100',
+    high: '101',
+    low: '99',
+    close: '100',
+    volume: '1',
+    closeTime: i * 60_000 + 59_999,
+  }));
+}
+
+function testModule(overrides: Partial<PatternModule> = {}): PatternModule {
+  return {
+    name: 'test_setup',
+    minCandles: 3,
+    detect: () => ({ detected: true, type: 'pinbar_buy', direction: 'LONG', entryPrice: 100, candleClosePrice: 100 }),
+    score: () => 60,
+    trendRule: 'any',
+    zoneRule: 'none',
+    ...overrides,
+  };
+}
+
+function detect(modules: PatternModule[], candles: Candle[], env: Record<string, string> = {}) {
+  const registry = new PatternRegistry();
+  modules.forEach(module => registry.register(module));
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return new PatternDetector(registry, getPatternConfig(env)).detectAllPatterns(candles, '15m');
+  } finally {
+    console.log = log;
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Registry', async () => {
+    await test('Built-ins in the original order with shared rules', () => {
+      const names = patternRegistry.list().map(module => module.name);
+      expect(names.join(',')).toBe('pinbar,fakey,ppr,engulfing,insidebar,star,threebar,tweezer');
+      for (const module of patternRegistry.list()) {
+        expect(module.trendRule).toBe('with_trend');
+        expect(module.zoneRule).toBe('bonus');
+        expect(module.minCandles).toBe(6);
+      }
+    });
+
+    await test('Duplicate names are rejected', () => {
+      const registry = new PatternRegistry().register(testModule());
+      let error = '';
+      try {
+        registry.register(testModule());
+      } catch (e: any) {
+        error = e.message;
+      }
+      expect(error.includes('test_setup')).toBe(true);
+    });
+  });
+
+  await describe('Configuration', async () => {
+    await test('Disable for one timeframe or everywhere', () => {
+      const pinbar = patternRegistry.get('pinbar')!;
+      const config = getPatternConfig({ PATTERNS_DISABLED: 'pinbar:15m, engulfing' });
+      expect(isPatternEnabled(pinbar, '15m', config)).toBe(false);
+      expect(isPatternEnabled(pinbar, '1h', config)).toBe(true);
+      expect(isPatternEnabled(patternRegistry.get('engulfing')!, '4h', config)).toBe(false);
+      expect(patternRegistry.getEnabled('15m', config).map(module => module.name).join(',')).toBe('fakey,ppr,insidebar,star,threebar,tweezer');
+    });
+
+    await test('Opt-in modules need PATTERNS_ENABLED, disabled wins', () => {
+      const optIn = testModule({ enabledByDefault: false });
+      expect(isPatternEnabled(optIn, '1h', getPatternConfig({}))).toBe(false);
+      expect(isPatternEnabled(optIn, '1h', getPatternConfig({ PATTERNS_ENABLED: 'test_setup:1h' }))).toBe(true);
+      expect(isPatternEnabled(optIn, '4h', getPatternConfig({ PATTERNS_ENABLED: 'test_setup:1h' }))).toBe(false);
+      expect(isPatternEnabled(optIn, '1h', getPatternConfig({ PATTERNS_ENABLED: 'test_setup', PATTERNS_DISABLED: 'test_setup' }))).toBe(false);
+    });
+
+    await test('Module timeframes limit where it runs', () => {
+      const module = testModule({ timeframes: ['1h', '4h'] });
+      expect(isPatternEnabled(module, '15m', getPatternConfig({}))).toBe(false);
+      expect(isPatternEnabled(module, '4h', getPatternConfig({}))).toBe(true);
+    });
+  });
+
+  await describe('PatternDetector with registered modules', async () => {
+    await test('Custom module accepted with trendRule any / zoneRule none', () => {
+      const results = detect([testModule()], flatCandles(210));
+      expect(results.length).toBe(1);
+      expect(results[0].score).toBe(60);
+    });
+
+    await test('with_trend rejects in a neutral market', () => {
+      expect(detect([testModule({ trendRule: 'with_trend' })], flatCandles(210)).length).toBe(0);
+    });
+
+    await test('zoneRule required rejects away from the directional zone', () => {
+      expect(detect([testModule({ zoneRule: 'required' })], flatCandles(210)).length).toBe(0);
+    });
+
+    await test('minCandles, minScore and PATTERNS_DISABLED', () => {
+      expect(detect([testModule({ minCandles: 500 })], flatCandles(210)).length).toBe(0);
+      expect(detect([testModule({ minScore: 70 })], flatCandles(210)).length).toBe(0);
+      expect(detect([testModule()], flatCandles(210), { PATTERNS_DISABLED: 'test_setup:15m' }).length).toBe(0);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for the Pine parity checker and the Pine input generator
+ *
+ * Run with: npx tsx tests/pineParity.test.ts
+ *
+ * Validates (offline):
+ * 1. TradingView CSV parsing: quoting, unix-second / ISO times, pattern vs component columns
+ * 2. Bar-by-bar comparison: ts_only / pine_only / score mismatches with candle index and differing components
+ * 3. The checked-in binance_pattern_scanner.pine input block equals the generator output
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { getPatternConfig, patternRegistry, PatternRegistry, type PatternModule } from '../src/utils/patterns/index.js';
+import { applyPineInputs, generatePineInputs } from '../src/utils/pine/inputs.js';
+import {
+  candlesFromCsv,
+  comparePineParity,
+  formatParityMismatch,
+  parseCsv,
+  pineOutputFromCsv,
+  type PineBarOutput,
+} from '../src/utils/pine/parity.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const MINUTE_15 = 15 * 60_000;
+
+// Flat candles, every 3rd one green (the stub module fires on green candles)
+function stubCandles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => ({
+    openTime: i * MINUTE_15,
+    open: '100',
+    high: '101',
+    low: '99',
+    close: i % 3 === 0 ? '100.5' : '100',
+    volume: '1',
+    closeTime: i * MINUTE_15 + MINUTE_15 - 1,
+  }));
+}
+
+// LONG on every green candle, no trend gating / zone scoring: score 45 = trend 30 + volume 15
+const stubModule: PatternModule = {
+  name: 'stub',
+  minCandles: 3,
+  detect: (candles) => {
+    const last = candles[candles.length - 1];
+    return Number(last.close) > Number(last.open)
+      ? { detected: true, type: 'stub_buy' as any, direction: 'LONG', entryPrice: Number(last.close) }
+      : { detected: false };
+  },
+  score: ({ components = {} }) => {
+    components.trend = 30;
+    components.volume = 15;
+    return 45;
+  },
+  trendRule: 'any',
+  zoneRule: 'none',
+  minScore: 40,
+};
+
+function pineBar(time: number, score: number, components: Record<string, number> = { trend_long: 30, volume_score: 15 }): PineBarOutput {
+  return { time, scores: { stub_buy: score }, components };
+}
+
+function compareQuiet(...args: Parameters<typeof comparePineParity>) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return comparePineParity(...args);
+  } finally {
+    console.log = log;
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('TradingView CSV parsing', async () => {
+    await test('Quoted fields, escaped quotes and CRLF', () => {
+      const rows = parseCsv('time,"note, quoted"\r\n1,"say ""hi"""\r\n\r\n2,x');
+      expect(rows.length).toBe(3);
+      expect(rows[0][1]).toBe('note, quoted');
+      expect(rows[1][1]).toBe('say "hi"');
+      expect(rows[2][1]).toBe('x');
+    });
+
+    await test('Candles: unix seconds / ISO times, closeTime from the timeframe', () => {
+      const candles = candlesFromCsv(
+        'time,open,high,low,close,Volume\n1700000000,1,2,0.5,1.5,10\n2023-11-14T22:28:20Z,1.5,2,1,1.2,7\n',
+        '15m'
+      );
+      expect(candles.length).toBe(2);
+      expect(candles[0].openTime).toBe(1_700_000_000_000);
+      expect(candles[0].closeTime).toBe(1_700_000_000_000 + MINUTE_15 - 1);
+      expect(candles[1].openTime).toBe(1_700_000_000_000 + MINUTE_15);
+      expect(candles[1].volume).toBe('7');
+      expect(() => candlesFromCsv('time,open,high,low,close\n1,1,1,1,1', '15m')).toThrow();
+    });
+
+    await test('Pine output: pattern columns vs component columns, NaN = no signal', () => {
+      const [bar] = pineOutputFromCsv('time,open,pinbar_buy,Engulfing_Sell,trend_long,volume_score,EMA 50\n1700000000,1,NaN,80,30,15,1.1\n');
+      expect(Object.keys(bar.scores).join(',')).toBe('pinbar_buy,engulfing_sell');
+      expect(Number.isNaN(bar.scores.pinbar_buy)).toBe(true);
+      expect(bar.scores.engulfing_sell).toBe(80);
+      expect(Object.keys(bar.components).join(',')).toBe('trend_long,volume_score');
+      expect(bar.time).toBe(1_700_000_000_000);
+    });
+  });
+
+  await describe('Bar-by-bar comparison', async () => {
+    const registry = new PatternRegistry().register(stubModule);
+    const candles = stubCandles(40);
+
+    await test('Identical output → no mismatches', () => {
+      const pine = candles.map((c, i) => pineBar(c.openTime, i % 3 === 0 ? 45 : NaN));
+      const report = compareQuiet(candles, pine, registry, { timeframe: '15m', window: 25 });
+
+      expect(report.patterns.join(',')).toBe('stub_buy');
+      expect(report.barsCompared).toBe(16);
+      expect(report.signalsMatched).toBe(6); // Green bars 24, 27, 30, 33, 36, 39
+      expect(report.mismatches.length).toBe(0);
+    });
+
+    await test('ts_only / pine_only / score mismatches carry the candle index and component diffs', () => {
+      const pine = candles.map((c, i) => {
+        if (i === 27) return pineBar(c.openTime, NaN);                            // TS fires, Pine not
+        if (i === 28) return pineBar(c.openTime, 45);                             // Pine fires, TS not
+        if (i === 30) return pineBar(c.openTime, 65, { trend_long: 30, volume_score: 15, sharp_move: 20 });
+        return pineBar(c.openTime, i % 3 === 0 ? 45 : NaN);
+      });
+      const report = compareQuiet(candles, pine, registry, { timeframe: '15m', window: 25, from: 25 });
+
+      expect(report.mismatches.map(m => `${m.index}:${m.kind}`).join(',')).toBe('27:ts_only,28:pine_only,30:score');
+      const scoreMismatch = report.mismatches[2];
+      expect(scoreMismatch.tsScore).toBe(45);
+      expect(scoreMismatch.pineScore).toBe(65);
+      expect(scoreMismatch.components.length).toBe(1);
+      expect(scoreMismatch.components[0].component).toBe('sharpMove');
+      expect(scoreMismatch.components[0].ts).toBe(null);
+      expect(scoreMismatch.components[0].pine).toBe(20);
+      expect(formatParityMismatch(scoreMismatch).startsWith('#30 ')).toBe(true);
+    });
+
+    await test('Bars without a Pine row are counted, not compared', () => {
+      const pine = candles.filter((_, i) => i !== 33).map(c => pineBar(c.openTime, NaN));
+      const report = compareQuiet(candles, pine, registry, { timeframe: '15m', window: 25 });
+      expect(report.missingPineBars).toBe(1);
+      expect(report.barsCompared).toBe(15);
+    });
+  });
+
+  await describe('Pine input generator', async () => {
+    const pineFile = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'binance_pattern_scanner.pine');
+
+    await test('Checked-in indicator matches the generated inputs (run src/scripts/pineInputs.ts --write)', () => {
+      const source = fs.readFileSync(pineFile, 'utf-8');
+      const block = generatePineInputs(patternRegistry, getPatternConfig({}));
+      expect(applyPineInputs(source, block) === source).toBe(true);
+    });
+
+    await test('Values follow the TypeScript configuration', () => {
+      const block = generatePineInputs(patternRegistry, getPatternConfig({ PATTERNS_DISABLED: 'ppr' }));
+      expect(block.includes('enablePPR = input.bool(false,')).toBe(true);
+      expect(block.includes('enablePinBar = input.bool(true,')).toBe(true);
+      expect(block.includes('pinLongTailRangeMin = input.float(0.66,')).toBe(true);
+      expect(block.includes('PRICE_THRESHOLD = timeframe.period == "15" ? 0.005 : timeframe.period == "60" ? 0.01 : 0.015')).toBe(true);
+    });
+
+    await test('Source without the generated block markers is rejected', () => {
+      expect(() => applyPineInputs('//@version=6\n', 'x')).toThrow();
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Portfolio Risk Limits
+ *
+ * Run with: npx tsx tests/portfolioRisk.test.ts
+ *
+ * Validates (offline):
+ * 1. Open risk in R: remaining share × distance to the current SL (0 at breakeven)
+ * 2. Limits: open risk, per direction, per family (0 = disabled)
+ * 3. Daily / weekly circuit breaker and UTC period boundaries
+ */
+
+import {
+  evaluatePortfolioRisk,
+  getLossPeriodStarts,
+  getPortfolioRiskConfig,
+  openRiskR,
+  type Exposure,
+} from '../src/utils/portfolioRisk.js';
+import { SKIP_REASONS } from '../src/types/skipReasons.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const CONFIG = getPortfolioRiskConfig({
+  MAX_OPEN_RISK_R: '3',
+  MAX_SIGNALS_PER_DIRECTION: '2',
+  MAX_SIGNALS_PER_FAMILY: '2',
+  DAILY_LOSS_LIMIT_R: '3',
+  WEEKLY_LOSS_LIMIT_R: '6',
+});
+
+const FLAT = { dailyR: 0, weeklyR: 0 };
+
+function exposure(symbol: string, direction: string, familyId: string, riskR = 1): Exposure {
+  return { symbol, direction, familyId, riskR };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Open risk', async () => {
+    await test('full risk while the stop is at the initial SL', () => {
+      expect(openRiskR({ direction: 'LONG', entryPrice: '100', slPrice: '98', currentSl: '98', partialClosed: '0' })).toBe(1);
+    });
+
+    await test('trailed SL and partial close reduce the risk', () => {
+      expect(openRiskR({ direction: 'SHORT', entryPrice: '100', slPrice: '102', currentSl: '101', partialClosed: '50' })).toBeCloseTo(0.25, 6);
+    });
+
+    await test('breakeven or locked profit = no open risk', () => {
+      expect(openRiskR({ direction: 'LONG', entryPrice: '100', slPrice: '98', currentSl: '100', partialClosed: '50' })).toBe(0);
+      expect(openRiskR({ direction: 'LONG', entryPrice: '100', slPrice: '98', currentSl: '102', partialClosed: '80' })).toBe(0);
+    });
+  });
+
+  await describe('Limits', async () => {
+    await test('open risk + candidate above the limit is blocked, reduced risk frees room', () => {
+      const full = [exposure('BTCUSDT', 'LONG', 'BTC:L1'), exposure('ETHUSDT', 'SHORT', 'ETH:L1', 1.5)];
+      const decision = evaluatePortfolioRisk(CONFIG, full, FLAT, { symbol: 'SOLUSDT', direction: 'SHORT', familyId: 'SOL:L1' });
+      expect(decision.skipReason).toBe(SKIP_REASONS.PORTFOLIO_OPEN_RISK_LIMIT);
+
+      const trailed = [exposure('BTCUSDT', 'LONG', 'BTC:L1', 0), exposure('ETHUSDT', 'SHORT', 'ETH:L1', 1.5)];
+      expect(evaluatePortfolioRisk(CONFIG, trailed, FLAT, { symbol: 'SOLUSDT', direction: 'SHORT', familyId: 'SOL:L1' }).allowed).toBe(true);
+    });
+
+    await test('direction limit counts tracked signals of the same side only', () => {
+      const longs = [exposure('BTCUSDT', 'LONG', 'BTC:L1', 0), exposure('ETHUSDT', 'LONG', 'ETH:L1', 0)];
+      expect(evaluatePortfolioRisk(CONFIG, longs, FLAT, { symbol: 'SOLUSDT', direction: 'LONG', familyId: 'SOL:L1' }).skipReason)
+        .toBe(SKIP_REASONS.DIRECTION_LIMIT);
+      expect(evaluatePortfolioRisk(CONFIG, longs, FLAT, { symbol: 'SOLUSDT', direction: 'SHORT', familyId: 'SOL:L1' }).allowed).toBe(true);
+    });
+
+    await test('family limit', () => {
+      const family = [exposure('DOGEUSDT', 'LONG', 'DOGE:Meme', 0), exposure('SHIBUSDT', 'SHORT', 'DOGE:Meme', 0)];
+      expect(evaluatePortfolioRisk(CONFIG, family, FLAT, { symbol: 'FLOKIUSDT', direction: 'SHORT', familyId: 'DOGE:Meme' }).skipReason)
+        .toBe(SKIP_REASONS.FAMILY_LIMIT);
+    });
+
+    await test('0 disables a limit', () => {
+      const config = { ...CONFIG, maxOpenRiskR: 0, maxSignalsPerDirection: 0, maxSignalsPerFamily: 0 };
+      const many = Array.from({ length: 10 }, (_, i) => exposure(`C${i}USDT`, 'LONG', 'BTC:L1'));
+      expect(evaluatePortfolioRisk(config, many, FLAT, { symbol: 'XUSDT', direction: 'LONG', familyId: 'BTC:L1' }).allowed).toBe(true);
+    });
+  });
+
+  await describe('Circuit breaker', async () => {
+    await test('daily and weekly realized loss pause new signals', () => {
+      const candidate = { symbol: 'BTCUSDT', direction: 'LONG', familyId: 'BTC:L1' };
+      expect(evaluatePortfolioRisk(CONFIG, [], { dailyR: -3, weeklyR: -3 }, candidate).skipReason).toBe(SKIP_REASONS.DAILY_LOSS_CIRCUIT_BREAKER);
+      expect(evaluatePortfolioRisk(CONFIG, [], { dailyR: 1, weeklyR: -6.5 }, candidate).skipReason).toBe(SKIP_REASONS.WEEKLY_LOSS_CIRCUIT_BREAKER);
+      expect(evaluatePortfolioRisk(CONFIG, [], { dailyR: -2.9, weeklyR: -5 }, candidate).allowed).toBe(true);
+    });
+
+    await test('periods start at 00:00 UTC and Monday 00:00 UTC', () => {
+      const sunday = getLossPeriodStarts(new Date('2024-03-10T23:30:00Z'));
+      expect(sunday.day.toISOString()).toBe('2024-03-10T00:00:00.000Z');
+      expect(sunday.week.toISOString()).toBe('2024-03-04T00:00:00.000Z');
+      expect(getLossPeriodStarts(new Date('2024-03-11T00:05:00Z')).week.toISOString()).toBe('2024-03-11T00:00:00.000Z');
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
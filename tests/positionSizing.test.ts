@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for Position Sizing & Liquidation Safety
+ *
+ * Run with: npx tsx tests/positionSizing.test.ts
+ *
+ * Validates (offline):
+ * 1. Exchange filters: quantity rounded down to the lot step, liquidation to the tick
+ * 2. Isolated liquidation estimate for LONG / SHORT
+ * 3. Margin cap, warning near the stop, refusal when liquidation sits inside the stop
+ */
+
+import {
+  calculatePositionSizing,
+  estimateLiquidationPrice,
+  getSizingConfig,
+  roundToStep,
+  roundToTick,
+  type SymbolFilters,
+} from '../src/utils/positionSizing.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+const FILTERS: SymbolFilters = { tickSize: 0.01, stepSize: 0.001, minQty: 0.001 };
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Exchange filters', async () => {
+    await test('quantity rounds down to the step, price to the nearest tick', () => {
+      expect(roundToStep(1.23456, 0.001)).toBe(1.234);
+      expect(roundToStep(0.3, 0.1)).toBe(0.3);
+      expect(roundToStep(17.9, 1)).toBe(17);
+      expect(roundToTick(101.236, 0.01)).toBe(101.24);
+      expect(roundToStep(1.23456, 0)).toBe(1.23456);
+    });
+
+    await test('env config falls back on invalid values', () => {
+      const config = getSizingConfig(1, { MAX_LEVERAGE: '0', MAINTENANCE_MARGIN_RATE: 'x' });
+      expect(config.maxLeverage).toBe(10);
+      expect(config.maintenanceMarginRate).toBe(0.005);
+      expect(getSizingConfig(2, { MAX_LEVERAGE: '20' }).maxLeverage).toBe(20);
+    });
+  });
+
+  await describe('Liquidation estimate', async () => {
+    await test('LONG / SHORT isolated liquidation at 10x, mmr 0.5%', () => {
+      expect(estimateLiquidationPrice('LONG', 100, 10, 0.005)).toBeCloseTo(90.5, 6);
+      expect(estimateLiquidationPrice('SHORT', 100, 10, 0.005)).toBeCloseTo(109.5, 6);
+    });
+  });
+
+  await describe('Sizing', async () => {
+    const config = getSizingConfig(1, { MAX_LEVERAGE: '10', MAINTENANCE_MARGIN_RATE: '0.005' });
+
+    await test('ok: 1% of 10000 with a 2% stop', () => {
+      const sizing = calculatePositionSizing(config, 10_000, 'LONG', 100, 98, FILTERS);
+      expect(sizing.status).toBe('ok');
+      expect(sizing.quantity).toBe(50);
+      expect(sizing.notional).toBeCloseTo(5000, 6);
+      expect(sizing.requiredMargin).toBeCloseTo(500, 6);
+      expect(sizing.riskAmount).toBeCloseTo(100, 6);
+      expect(sizing.liquidationPrice).toBe(90.5);
+    });
+
+    await test('tight stop: size capped by margin, risk below target', () => {
+      const sizing = calculatePositionSizing(config, 10_000, 'SHORT', 100, 100.05, FILTERS);
+      expect(sizing.status).toBe('warning');
+      expect(sizing.quantity).toBe(1000);
+      expect(sizing.requiredMargin).toBeCloseTo(10_000, 6);
+      expect(sizing.riskAmount).toBeCloseTo(50, 6);
+    });
+
+    await test('liquidation beyond the stop but within the buffer → warning', () => {
+      const sizing = calculatePositionSizing(config, 10_000, 'LONG', 100, 93, FILTERS);
+      expect(sizing.status).toBe('warning');
+      expect(sizing.maxSafeLeverage).toBe(9);
+    });
+
+    await test('liquidation inside the stop → refused with the safe leverage', () => {
+      const sizing = calculatePositionSizing(config, 10_000, 'SHORT', 100, 112, FILTERS);
+      expect(sizing.status).toBe('refused');
+      expect(sizing.quantity).toBe(0);
+      expect(sizing.maxSafeLeverage).toBe(5);
+      expect(sizing.liquidationPrice).toBe(109.5);
+    });
+
+    await test('below the minimum lot → refused', () => {
+      const sizing = calculatePositionSizing(config, 50, 'LONG', 50_000, 49_000, { tickSize: 0.1, stepSize: 0.001, minQty: 0.001 });
+      expect(sizing.status).toBe('refused');
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
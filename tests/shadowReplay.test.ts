@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for Shadow Replay (counterfactual outcome of skipped candidates)
+ *
+ * Run with: npx tsx tests/shadowReplay.test.ts
+ *
+ * Validates (offline):
+ * 1. First touch on 1m candles (TP / SL / TP priority inside one candle)
+ * 2. Timeout with mark-to-market PnL
+ * 3. Incremental replay across passes (MFE/MAE carried over)
+ * 4. Resume after downtime longer than the deadline (fetch from the cursor)
+ * 5. Candidate plan validation
+ */
+
+import {
+  replayShadow,
+  fetchReplayCandles,
+  initialReplayState,
+  isValidCandidatePlan,
+  type ShadowPlan,
+} from '../src/utils/shadowReplay.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const MINUTE = 60_000;
+const ENTRY_TIME = 1_700_000_000_000; // Multiple of a minute
+
+// [high, low, close] per minute starting at ENTRY_TIME
+function createMinuteCandles(bars: [number, number, number][], startMinute: number = 0): Candle[] {
+  return bars.map(([high, low, close], i) => {
+    const openTime = ENTRY_TIME + (startMinute + i) * MINUTE;
+    return {
+      openTime,
+      open: close.toString(),
+      high: high.toString(),
+      low: low.toString(),
+      close: close.toString(),
+      volume: '1',
+      closeTime: openTime + MINUTE - 1,
+    };
+  });
+}
+
+// getKlinesSince over a fixed 1m history (only the method the replay fetch uses)
+function createHistoryClient(history: Candle[]) {
+  const requests: number[] = [];
+  return {
+    requests,
+    async getKlinesSince(_symbol: string, _interval: string, startTime: number): Promise<Candle[]> {
+      requests.push(startTime);
+      return history.filter(c => c.openTime >= startTime);
+    },
+  };
+}
+
+// LONG @100, SL 98 (1R = 2), TP1 102, TP2 104, TP3 106
+const LONG_PLAN: ShadowPlan = {
+  source: 'dynamic',
+  direction: 'LONG',
+  entryPrice: 100,
+  sl: 98,
+  tp1: 102,
+  tp2: 104,
+  tp3: 106,
+  entryTime: ENTRY_TIME,
+  deadline: ENTRY_TIME + 10 * MINUTE,
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('First touch', async () => {
+    await test('TP1 touched after adverse move', () => {
+      const candles = createMinuteCandles([[100.5, 99, 99.5], [101, 98.5, 100.5], [102.5, 100, 102]]);
+      const result = replayShadow(LONG_PLAN, candles, initialReplayState(ENTRY_TIME));
+      expect(result.outcome).toBe('tp1');
+      expect(result.pnlR).toBeCloseTo(1, 4);
+      expect(result.maeR).toBeCloseTo(-0.75, 4);
+      expect(result.timeToFirstTouchMin).toBe(3);
+    });
+
+    await test('SL touched', () => {
+      const candles = createMinuteCandles([[100.2, 99, 99.5], [99.6, 97.9, 98]]);
+      const result = replayShadow(LONG_PLAN, candles, initialReplayState(ENTRY_TIME));
+      expect(result.outcome).toBe('sl');
+      expect(result.pnlR).toBe(-1);
+    });
+
+    await test('TP takes priority when SL and TP touch in one candle (tracker rule)', () => {
+      const candles = createMinuteCandles([[104.5, 97, 100]]);
+      const result = replayShadow(LONG_PLAN, candles, initialReplayState(ENTRY_TIME));
+      expect(result.outcome).toBe('tp2');
+      expect(result.pnlR).toBeCloseTo(2, 4);
+    });
+
+    await test('SHORT plan mirrors LONG', () => {
+      const plan: ShadowPlan = { ...LONG_PLAN, direction: 'SHORT', sl: 102, tp1: 98, tp2: 96, tp3: null };
+      const candles = createMinuteCandles([[100.5, 99, 99.5], [99.5, 95.5, 96]]);
+      const result = replayShadow(plan, candles, initialReplayState(ENTRY_TIME));
+      expect(result.outcome).toBe('tp2');
+      expect(result.mfeR).toBeCloseTo(2.25, 4);
+    });
+  });
+
+  await describe('Timeout & incremental replay', async () => {
+    await test('still running before deadline, resumes from stored cursor', () => {
+      const first = replayShadow(LONG_PLAN, createMinuteCandles([[101, 99, 100], [101.5, 99.5, 101]]), initialReplayState(ENTRY_TIME));
+      expect(first.outcome).toBe(null);
+      expect(first.mfeR).toBeCloseTo(0.75, 4);
+      expect(first.replayedUntil).toBe(ENTRY_TIME + 2 * MINUTE);
+
+      // Second pass gets overlapping candles: already replayed minutes are ignored
+      const second = replayShadow(LONG_PLAN, createMinuteCandles([[101.5, 99.5, 101], [102.1, 100, 102]], 1), first);
+      expect(second.outcome).toBe('tp1');
+      expect(second.timeToFirstTouchMin).toBe(3);
+    });
+
+    await test('timeout marks to market at last close', () => {
+      const bars = Array.from({ length: 12 }, () => [101, 99.5, 101] as [number, number, number]);
+      const result = replayShadow(LONG_PLAN, createMinuteCandles(bars), initialReplayState(ENTRY_TIME));
+      expect(result.outcome).toBe('timeout');
+      expect(result.pnlR).toBeCloseTo(0.5, 4);
+      expect(result.timeToFirstTouchMin).toBe(null);
+    });
+  });
+
+  await describe('Resume after downtime', async () => {
+    await test('gap longer than the deadline: replays from the cursor and times out', async () => {
+      // 30 minutes of history, first pass stopped at minute 3, deadline at minute 10
+      const history = createMinuteCandles(Array.from({ length: 30 }, () => [101, 99.5, 101] as [number, number, number]));
+      const first = replayShadow(LONG_PLAN, history.slice(0, 3), initialReplayState(ENTRY_TIME));
+      expect(first.outcome).toBe(null);
+
+      const client = createHistoryClient(history);
+      const candles = await fetchReplayCandles(client, 'BTCUSDT', LONG_PLAN, first);
+      expect(client.requests[0]).toBe(ENTRY_TIME + 3 * MINUTE);
+      expect(candles.length).toBe(7);
+
+      const result = replayShadow(LONG_PLAN, candles, first);
+      expect(result.outcome).toBe('timeout');
+      expect(result.replayedUntil).toBe(LONG_PLAN.deadline);
+      expect(result.pnlR).toBeCloseTo(0.5, 4);
+    });
+
+    await test('capped pass continues on the next one', async () => {
+      const history = createMinuteCandles([[101, 99.5, 101], [101, 99.5, 101], [101, 99.5, 101], [102.5, 100, 102]]);
+      const client = createHistoryClient(history);
+
+      const firstCandles = await fetchReplayCandles(client, 'BTCUSDT', LONG_PLAN, initialReplayState(ENTRY_TIME), 2);
+      const first = replayShadow(LONG_PLAN, firstCandles, initialReplayState(ENTRY_TIME));
+      expect(first.outcome).toBe(null);
+      expect(first.replayedUntil).toBe(ENTRY_TIME + 2 * MINUTE);
+
+      const second = replayShadow(LONG_PLAN, await fetchReplayCandles(client, 'BTCUSDT', LONG_PLAN, first, 2), first);
+      expect(second.outcome).toBe('tp1');
+      expect(second.timeToFirstTouchMin).toBe(4);
+    });
+
+    await test('nothing is fetched once the deadline is replayed', async () => {
+      const client = createHistoryClient([]);
+      const candles = await fetchReplayCandles(client, 'BTCUSDT', LONG_PLAN, { mfeR: 0, maeR: 0, replayedUntil: LONG_PLAN.deadline, lastClose: 101 });
+      expect(candles.length).toBe(0);
+      expect(client.requests.length).toBe(0);
+    });
+  });
+
+  await describe('Candidate plan validation', async () => {
+    await test('rejects SL on the wrong side of entry', () => {
+      expect(isValidCandidatePlan('LONG', 100, { source: 'standard', sl: 98, tp1: 102, tp2: 104, tp3: null })).toBe(true);
+      expect(isValidCandidatePlan('LONG', 100, { source: 'standard', sl: 101, tp1: 102, tp2: 104, tp3: null })).toBe(false);
+      expect(isValidCandidatePlan('SHORT', 100, { source: 'standard', sl: 102, tp1: NaN, tp2: 96, tp3: null })).toBe(false);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
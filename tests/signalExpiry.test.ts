@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Time-Based Exits (max holding time → TIMEOUT)
+ *
+ * Run with: npx tsx tests/signalExpiry.test.ts
+ *
+ * Validates (offline):
+ * 1. Max holding time per timeframe × profile multiplier (incl. env overrides)
+ * 2. Expiry check from signal creation time
+ * 3. TIMEOUT PnL at market with partial closes already taken
+ */
+
+import { getMaxHoldingMs, isSignalExpired } from '../src/utils/signalExpiry.js';
+import { calculateTradeOutcome, calculatePartialClosedPercent } from '../src/utils/tradeOutcomes.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const HOUR = 60 * 60_000;
+const NO_ENV = { hours: undefined, multipliers: undefined };
+
+// LONG @100, SL 98 (1R = 2), TP1 102, TP2 104, TP3 106, default 50/30/20
+const LONG_TRADE = {
+  direction: 'LONG' as const,
+  entryPrice: '100',
+  slPrice: '98',
+  currentSl: '98',
+  tp1Price: '102',
+  tp2Price: '104',
+  tp3Price: '106',
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Max holding time', async () => {
+    await test('timeframe base × profile multiplier', () => {
+      expect(getMaxHoldingMs('15m', 'SCALP_15M', NO_ENV)).toBe(6 * HOUR);
+      expect(getMaxHoldingMs('1h', 'BALANCED', NO_ENV)).toBe(48 * HOUR);
+      expect(getMaxHoldingMs('4h', 'TREND_FOLLOWING', NO_ENV)).toBe(336 * HOUR);
+      expect(getMaxHoldingMs('1h', null, NO_ENV)).toBe(48 * HOUR);
+    });
+
+    await test('env overrides, invalid entries ignored', () => {
+      const env = { hours: '15m:4,1h:abc', multipliers: 'SCALP_15M:1' };
+      expect(getMaxHoldingMs('15m', 'SCALP_15M', env)).toBe(4 * HOUR);
+      expect(getMaxHoldingMs('1h', 'SCALP_15M', env)).toBe(48 * HOUR);
+    });
+
+    await test('expiry counted from signal creation', () => {
+      const createdAt = new Date(1_700_000_000_000);
+      const signal = { timeframe: '15m', strategyProfile: 'CONSERVATIVE', createdAt };
+      const maxMs = getMaxHoldingMs('15m', 'CONSERVATIVE');
+      expect(isSignalExpired(signal, createdAt.getTime() + maxMs - 1)).toBe(false);
+      expect(isSignalExpired(signal, createdAt.getTime() + maxMs)).toBe(true);
+    });
+  });
+
+  await describe('TIMEOUT PnL', async () => {
+    await test('no partial close: whole position at market', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'TIMEOUT', partialClosed: 0, exitPrice: '100.6' });
+      expect(outcome.pnlR).toBeCloseTo(0.3, 4);
+      expect(outcome.outcomeType).toBe('TIMEOUT');
+    });
+
+    await test('after TP1: 0.5×1R + 0.5×market', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'TIMEOUT', partialClosed: 50, exitPrice: '100.6' });
+      expect(outcome.pnlR).toBeCloseTo(0.65, 4);
+    });
+
+    await test('SHORT below entry is profit, custom percents respected', () => {
+      const outcome = calculateTradeOutcome({
+        direction: 'SHORT', entryPrice: '100', slPrice: '102', currentSl: '100',
+        tp1Price: '98', tp2Price: '96', tp3Price: '94',
+        status: 'TIMEOUT', partialClosed: 30, exitPrice: '99',
+        customPercents: { p1: 30, p2: 30, p3: 40 },
+        actualTpR: { tp1R: 1, tp2R: 2, tp3R: 3 },
+      });
+      // 0.3×1R + 0.7×0.5R
+      expect(outcome.pnlR).toBeCloseTo(0.65, 4);
+      expect(calculatePartialClosedPercent('TIMEOUT', 30, { p1: 30, p2: 30, p3: 40 })).toBe(100);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
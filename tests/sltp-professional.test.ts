@@ -18,96 +18,28 @@ import {
   calculateDynamicRiskProfile,
   type DynamicRiskInput 
 } from '../src/utils/dynamicRiskCalculator.js';
+import { describe, expect, results, run, test } from './harness.js';
 
 // ============================================================================
-// TEST FRAMEWORK (Simple assertions without external dependencies)
+// MOCK DATA GENERATORS
 // ============================================================================
 
-let testsPassed = 0;
-let testsFailed = 0;
-let currentSuite = '';
-
-function describe(suiteName: string, fn: () => void | Promise<void>) {
-  currentSuite = suiteName;
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`📦 ${suiteName}`);
-  console.log(`${'='.repeat(80)}`);
-  fn();
-}
-
-async function test(testName: string, fn: () => void | Promise<void>) {
-  try {
-    console.log(`\n🧪 ${testName}`);
-    await fn();
-    testsPassed++;
-    console.log(`   ✅ PASS`);
-  } catch (error) {
-    testsFailed++;
-    console.log(`   ❌ FAIL: ${error instanceof Error ? error.message : String(error)}`);
-    console.error(error);
-  }
-}
-
-function expect(actual: any) {
-  return {
-    toBe(expected: any) {
-      if (actual !== expected) {
-        throw new Error(`Expected ${expected}, got ${actual}`);
-      }
-    },
-    toBeGreaterThan(expected: number) {
-      if (actual <= expected) {
-        throw new Error(`Expected ${actual} > ${expected}`);
-      }
-    },
-    toBeGreaterThanOrEqual(expected: number) {
-      if (actual < expected) {
-        throw new Error(`Expected ${actual} >= ${expected}`);
-      }
-    },
-    toBeLessThan(expected: number) {
-      if (actual >= expected) {
-        throw new Error(`Expected ${actual} < ${expected}`);
-      }
-    },
-    toBeLessThanOrEqual(expected: number) {
-      if (actual <= expected) {
-        throw new Error(`Expected ${actual} <= ${expected}`);
-      }
-    },
-    toBeInRange(min: number, max: number) {
-      if (actual < min || actual > max) {
-        throw new Error(`Expected ${actual} to be in range [${min}, ${max}]`);
-      }
-    },
-    toBeTruthy() {
-      if (!actual) {
-        throw new Error(`Expected ${actual} to be truthy`);
-      }
-    },
-    toBeFalsy() {
-      if (actual) {
-        throw new Error(`Expected ${actual} to be falsy`);
-      }
-    },
-    toBeNull() {
-      if (actual !== null) {
-        throw new Error(`Expected null, got ${actual}`);
-      }
-    },
-    toBeCloseTo(expected: number, precision: number = 2) {
-      const diff = Math.abs(actual - expected);
-      const tolerance = Math.pow(10, -precision);
-      if (diff > tolerance) {
-        throw new Error(`Expected ${actual} to be close to ${expected} (precision: ${precision}), diff: ${diff}`);
-      }
-    },
+/**
+ * Seeded PRNG (mulberry32): the mock candles are random-looking but identical on every run,
+ * so trend / volatility classification and zone distances do not flip between runs
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
 }
 
-// ============================================================================
-// MOCK DATA GENERATORS
-// ============================================================================
+const random = createRandom(20240115);
 
 /**
  * Create mock candles with configurable swing extremes
@@ -127,7 +59,7 @@ function createMockCandles(config: {
     const indexFromEnd = count - 1 - i;
     
     // Base price with some randomness
-    let basePrice = avgPrice + (Math.random() - 0.5) * atr * 2;
+    let basePrice = avgPrice + (random() - 0.5) * atr * 2;
     
     // Create swing low
     if (swingLowIndex !== undefined && indexFromEnd === swingLowIndex) {
@@ -140,9 +72,9 @@ function createMockCandles(config: {
     }
     
     const open = basePrice;
-    const close = basePrice + (Math.random() - 0.5) * atr * 0.5;
-    const high = Math.max(open, close) + Math.random() * atr * 0.3;
-    const low = Math.min(open, close) - Math.random() * atr * 0.3;
+    const close = basePrice + (random() - 0.5) * atr * 0.5;
+    const high = Math.max(open, close) + random() * atr * 0.3;
+    const low = Math.min(open, close) - random() * atr * 0.3;
     
     candles.push({
       openTime: Date.now() - (count - i) * 60000,
@@ -150,7 +82,7 @@ function createMockCandles(config: {
       high: high.toString(),
       low: low.toString(),
       close: close.toString(),
-      volume: (1000 + Math.random() * 500).toString(),
+      volume: (1000 + random() * 500).toString(),
       closeTime: Date.now() - (count - i - 1) * 60000,
     });
   }
@@ -352,8 +284,8 @@ describe('Professional SL Calculator', () => {
     console.log(`   ATR: ${currentATR.toFixed(2)}`);
     console.log(`   Buffer applied: ${result.buffer.toFixed(2)} ATR`);
     
-    // High volatility should use 0.5 ATR buffer
-    expect(result.buffer).toBeCloseTo(0.5, 1);
+    // High volatility (ATR/Avg > 1.5) should use 3.0 ATR buffer
+    expect(result.buffer).toBeCloseTo(3.0, 1);
   });
   
   test('applies adaptive buffer based on volatility - LOW', () => {
@@ -390,8 +322,8 @@ describe('Professional SL Calculator', () => {
     console.log(`   ATR: ${currentATR.toFixed(2)}`);
     console.log(`   Buffer applied: ${result.buffer.toFixed(2)} ATR`);
     
-    // Low volatility should use 0.3 ATR buffer
-    expect(result.buffer).toBeCloseTo(0.3, 1);
+    // Low volatility (ATR/Avg < 0.8) should use 2.0 ATR buffer
+    expect(result.buffer).toBeCloseTo(2.0, 1);
   });
   
   test('adjusts for round numbers - LONG near 50000', () => {
@@ -531,49 +463,51 @@ describe('Hybrid TP Calculator', () => {
     const atr15m = avgPrice * 0.02; // 1000
     const candles = createMockCandles({ count: 10, avgPrice });
     
-    const expectedR = atr15m * 0.7; // Approximate R
-    const resistanceLevel = avgPrice + expectedR * 2; // Zone at 2R
-    
-    // Create resistance zone at 2R distance
-    const zones: Zone[] = [
-      ...createMockZones({
-        type: 'support',
-        levels: [avgPrice * 0.95],
-        timeframe: '15m',
-      }),
-      ...createMockZones({
-        type: 'resistance',
-        levels: [resistanceLevel],
-        timeframe: '15m',
-      }),
-    ];
-    
-    const input: DynamicRiskInput = {
+    // R does not depend on resistance zones (SL = swing extreme + 2.0-3.0 ATR buffer):
+    // measure it with the support zone only
+    const support: Zone[] = createMockZones({
+      type: 'support',
+      levels: [avgPrice * 0.95],
+      timeframe: '15m',
+    });
+    const baseInput: DynamicRiskInput = {
       direction: 'LONG',
       entryPrice: avgPrice,
       patternExtreme: avgPrice - 500,
-      zones,
+      zones: support,
       atr15m,
       atr1h: avgPrice * 0.025,
       atr4h: avgPrice * 0.03,
       zoneTestCount24h: 0,
       candles15m: candles,
     };
+    const riskR = calculateDynamicRiskProfile(baseInput).riskR;
     
-    const result = calculateDynamicRiskProfile(input);
+    // Zone i limits TP i: place the only resistance so that its TP level (95% of the zone low)
+    // lands at 0.75R, between the 0.5R minimum and the fixed 1R target
+    const resistanceLevel = (avgPrice + riskR * 0.75) / (0.95 * 0.995);
+    const zones: Zone[] = [
+      ...support,
+      ...createMockZones({
+        type: 'resistance',
+        levels: [resistanceLevel],
+        timeframe: '15m',
+      }),
+    ];
+    
+    const result = calculateDynamicRiskProfile({ ...baseInput, zones });
     
     console.log(`   Entry: ${avgPrice}`);
     console.log(`   Resistance zone: ${resistanceLevel.toFixed(2)}`);
     console.log(`   TP1: ${result.tp1?.toFixed(2)}`);
     console.log(`   TP2: ${result.tp2?.toFixed(2)}`);
-    console.log(`   TP2 limited by zone: ${result.tp2LimitedByZone}`);
+    console.log(`   TP1 limited by zone: ${result.tp1LimitedByZone}`);
     
-    // TP2 should be limited by the zone (placed before it at 95%)
-    if (result.tp2) {
-      const expectedTP2Max = resistanceLevel * 0.95;
-      expect(result.tp2).toBeLessThanOrEqual(expectedTP2Max);
-      expect(result.tp2LimitedByZone).toBeTruthy();
-    }
+    // TP1 should be limited by the zone (placed before it at 95%), TP2 stays at fixed 2R
+    expect(result.tp1).toBeCloseTo(avgPrice + riskR * 0.75, 2);
+    expect(result.tp1LimitedByZone).toBeTruthy();
+    expect(result.tp2).toBeCloseTo(avgPrice + riskR * 2, 2);
+    expect(result.tp2LimitedByZone).toBeFalsy();
   });
   
   test('maintains TP ordering (TP1 < TP2 < TP3)', () => {
@@ -1121,12 +1055,12 @@ describe('End-to-End SL/TP System', () => {
       }),
       ...createMockZones({
         type: 'resistance',
-        levels: [avgPrice * 1.12],
+        levels: [avgPrice * 1.2],
         timeframe: '15m',
       }),
       ...createMockZones({
         type: 'resistance',
-        levels: [avgPrice * 1.15],
+        levels: [avgPrice * 1.25],
         timeframe: '1h',
       }),
     ];
@@ -1361,7 +1295,7 @@ async function runTests() {
       console.log(`   ATR: ${currentATR.toFixed(2)}`);
       console.log(`   Buffer applied: ${result.buffer.toFixed(2)} ATR`);
       
-      expect(result.buffer).toBeCloseTo(0.5, 1);
+      expect(result.buffer).toBeCloseTo(3.0, 1);
     });
     
     test('applies adaptive buffer based on volatility - LOW', () => {
@@ -1397,7 +1331,7 @@ async function runTests() {
       console.log(`   ATR: ${currentATR.toFixed(2)}`);
       console.log(`   Buffer applied: ${result.buffer.toFixed(2)} ATR`);
       
-      expect(result.buffer).toBeCloseTo(0.3, 1);
+      expect(result.buffer).toBeCloseTo(2.0, 1);
     });
     
     test('adjusts for round numbers - LONG near 50000', () => {
@@ -1528,47 +1462,46 @@ async function runTests() {
       const atr15m = avgPrice * 0.02;
       const candles = createMockCandles({ count: 10, avgPrice });
       
-      const expectedR = atr15m * 0.7;
-      const resistanceLevel = avgPrice + expectedR * 2;
-      
-      const zones: Zone[] = [
-        ...createMockZones({
-          type: 'support',
-          levels: [avgPrice * 0.95],
-          timeframe: '15m',
-        }),
-        ...createMockZones({
-          type: 'resistance',
-          levels: [resistanceLevel],
-          timeframe: '15m',
-        }),
-      ];
-      
-      const input: DynamicRiskInput = {
+      const support: Zone[] = createMockZones({
+        type: 'support',
+        levels: [avgPrice * 0.95],
+        timeframe: '15m',
+      });
+      const baseInput: DynamicRiskInput = {
         direction: 'LONG',
         entryPrice: avgPrice,
         patternExtreme: avgPrice - 500,
-        zones,
+        zones: support,
         atr15m,
         atr1h: avgPrice * 0.025,
         atr4h: avgPrice * 0.03,
         zoneTestCount24h: 0,
         candles15m: candles,
       };
+      const riskR = calculateDynamicRiskProfile(baseInput).riskR;
       
-      const result = calculateDynamicRiskProfile(input);
+      const resistanceLevel = (avgPrice + riskR * 0.75) / (0.95 * 0.995);
+      const zones: Zone[] = [
+        ...support,
+        ...createMockZones({
+          type: 'resistance',
+          levels: [resistanceLevel],
+          timeframe: '15m',
+        }),
+      ];
+      
+      const result = calculateDynamicRiskProfile({ ...baseInput, zones });
       
       console.log(`   Entry: ${avgPrice}`);
       console.log(`   Resistance zone: ${resistanceLevel.toFixed(2)}`);
       console.log(`   TP1: ${result.tp1?.toFixed(2)}`);
       console.log(`   TP2: ${result.tp2?.toFixed(2)}`);
-      console.log(`   TP2 limited by zone: ${result.tp2LimitedByZone}`);
+      console.log(`   TP1 limited by zone: ${result.tp1LimitedByZone}`);
       
-      if (result.tp2) {
-        const expectedTP2Max = resistanceLevel * 0.95;
-        expect(result.tp2).toBeLessThanOrEqual(expectedTP2Max);
-        expect(result.tp2LimitedByZone).toBeTruthy();
-      }
+      expect(result.tp1).toBeCloseTo(avgPrice + riskR * 0.75, 2);
+      expect(result.tp1LimitedByZone).toBeTruthy();
+      expect(result.tp2).toBeCloseTo(avgPrice + riskR * 2, 2);
+      expect(result.tp2LimitedByZone).toBeFalsy();
     });
     
     test('maintains TP ordering (TP1 < TP2 < TP3)', () => {
@@ -2084,12 +2017,12 @@ async function runTests() {
         }),
         ...createMockZones({
           type: 'resistance',
-          levels: [avgPrice * 1.12],
+          levels: [avgPrice * 1.2],
           timeframe: '15m',
         }),
         ...createMockZones({
           type: 'resistance',
-          levels: [avgPrice * 1.15],
+          levels: [avgPrice * 1.25],
           timeframe: '1h',
         }),
       ];
@@ -2195,14 +2128,14 @@ async function runTests() {
   console.log(`╔${'═'.repeat(78)}╗`);
   console.log(`║${' '.repeat(28)}📊 TEST SUMMARY${' '.repeat(33)}║`);
   console.log(`╠${'═'.repeat(78)}╣`);
-  console.log(`║  ✅ Passed: ${String(testsPassed).padEnd(64)} ║`);
-  console.log(`║  ❌ Failed: ${String(testsFailed).padEnd(64)} ║`);
+  console.log(`║  ✅ Passed: ${String(results.passed).padEnd(64)} ║`);
+  console.log(`║  ❌ Failed: ${String(results.failed).padEnd(64)} ║`);
   console.log(`║  ⏱️  Duration: ${duration}s${' '.repeat(62 - duration.length)} ║`);
   console.log(`╚${'═'.repeat(78)}╝`);
   
-  if (testsFailed > 0) {
+  if (results.failed > 0) {
     process.exit(1);
   }
 }
 
-runTests().catch(console.error);
+run(runTests);
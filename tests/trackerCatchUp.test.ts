@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Tracker Catch-Up (1m replay after downtime)
+ *
+ * Run with: npx tsx tests/trackerCatchUp.test.ts
+ *
+ * Validates (offline):
+ * 1. Resume point: last processed minute, creation time, last state change
+ * 2. Sequential replay: TP1 → breakeven → TP2 in candle order (same result as live tracking)
+ * 3. Trailing at signal-timeframe boundaries, expiry at the open of the first candle past the limit
+ */
+
+import { getCatchUpStart, replayMinutes, MINUTE_MS, type CatchUpSteps } from '../src/utils/trackerCatchUp.js';
+import { riskCalculator } from '../src/utils/riskCalculator.js';
+import { isTrackedStatus, resolveStopExitStatus } from '../src/utils/trailingStop.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const T0 = 1_700_000_100_000; // 15m-aligned
+
+// LONG @100, SL 98, TP1 102, TP2 104, TP3 106, tp_step runner (tracked after TP1/TP2)
+interface MockSignal {
+  status: string;
+  currentSl: number;
+}
+
+function minute(index: number, low: number, high: number): Candle {
+  return {
+    openTime: T0 + index * MINUTE_MS,
+    open: '100',
+    high: high.toString(),
+    low: low.toString(),
+    close: ((low + high) / 2).toString(),
+    volume: '1',
+    closeTime: T0 + (index + 1) * MINUTE_MS - 1,
+  };
+}
+
+// Same rule as SignalTracker.checkSignal for one batch of candles
+function applyCandles(signal: MockSignal, candles: Candle[]): MockSignal {
+  const last = candles[candles.length - 1];
+  const { newStatus, newSl } = riskCalculator.checkSignalStatusWithCandles(
+    candles, Number(last.close), 100, signal.currentSl, 102, 104, 106, 'LONG', signal.status
+  );
+  if (newStatus === signal.status) return signal;
+  return {
+    status: newStatus === 'SL_HIT' ? resolveStopExitStatus('LONG', 100, signal.currentSl) : newStatus,
+    currentSl: newSl ?? signal.currentSl,
+  };
+}
+
+function steps(events: string[], overrides: Partial<CatchUpSteps<MockSignal>> = {}): CatchUpSteps<MockSignal> {
+  return {
+    expiresAt: Number.MAX_SAFE_INTEGER,
+    isTracked: (s) => isTrackedStatus(s.status, 'tp_step'),
+    expire: async (_s, candle) => { events.push(`expire@${candle.open}`); },
+    apply: async (s, candle) => {
+      const next = applyCandles(s, [candle]);
+      if (next.status !== s.status) events.push(next.status);
+      return next;
+    },
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Resume point', async () => {
+    const base = { trailingActivated: false, createdAt: new Date(T0 + 30_000), updatedAt: new Date(T0 + 5 * MINUTE_MS + 10_000) };
+
+    await test('continues after the last processed minute', () => {
+      expect(getCatchUpStart({ ...base, status: 'OPEN', lastProcessedMinute: T0 + 3 * MINUTE_MS })).toBe(T0 + 4 * MINUTE_MS);
+    });
+
+    await test('no progress: creation minute, or last state change once levels moved', () => {
+      expect(getCatchUpStart({ ...base, status: 'OPEN', lastProcessedMinute: null })).toBe(T0);
+      expect(getCatchUpStart({ ...base, status: 'TP1_HIT', lastProcessedMinute: null })).toBe(T0 + 5 * MINUTE_MS);
+    });
+  });
+
+  await describe('Sequential replay', async () => {
+    const open: MockSignal = { status: 'OPEN', currentSl: 98 };
+
+    await test('stop before TP1 stays a stop (one-shot high/low would report TP1)', async () => {
+      const candles = [minute(0, 97.5, 100.5), minute(1, 100, 102.5)];
+      expect(applyCandles(open, candles).status).toBe('TP1_HIT');
+
+      const events: string[] = [];
+      const result = await replayMinutes(open, candles, 15 * MINUTE_MS, steps(events));
+      expect(events.join(',')).toBe('SL_HIT');
+      expect(result.closed).toBe(true);
+      expect(result.processedUntil).toBe(T0);
+    });
+
+    await test('TP1 → breakeven → BE hit in candle order', async () => {
+      const candles = [minute(0, 99.5, 101), minute(1, 100.5, 102.5), minute(2, 99.8, 101.5), minute(3, 101, 104.5)];
+      const events: string[] = [];
+      const result = await replayMinutes(open, candles, 15 * MINUTE_MS, steps(events));
+      expect(events.join(',')).toBe('TP1_HIT,BE_HIT');
+      expect(result.processedUntil).toBe(T0 + 2 * MINUTE_MS);
+    });
+
+    await test('TP1 → TP2 → stop locked at TP1, runner still tracked at the end', async () => {
+      const candles = [minute(0, 100.5, 102.5), minute(1, 101, 104.2), minute(2, 102.5, 103.5)];
+      const events: string[] = [];
+      const result = await replayMinutes(open, candles, 15 * MINUTE_MS, steps(events));
+      expect(events.join(',')).toBe('TP1_HIT,TP2_HIT');
+      expect(result.signal.currentSl).toBe(102);
+      expect(result.closed).toBe(false);
+      expect(result.processedUntil).toBe(T0 + 2 * MINUTE_MS);
+    });
+  });
+
+  await describe('Trailing boundaries and expiry', async () => {
+    await test('trail runs at each timeframe boundary before that minute is applied', async () => {
+      const events: string[] = [];
+      const candles = Array.from({ length: 20 }, (_, i) => minute(i + 10, 99.5, 100.5)); // 10..29 → boundary at 15
+      await replayMinutes({ status: 'OPEN', currentSl: 98 }, candles, 15 * MINUTE_MS, steps(events, {
+        trail: async (s, boundary) => {
+          events.push(`trail@${(boundary - T0) / MINUTE_MS}`);
+          return { ...s, currentSl: 99 };
+        },
+        apply: async (s) => { events.push(`apply@${s.currentSl}`); return s; },
+      }));
+      expect(events.indexOf('trail@15')).toBe(5);
+      expect(events[6]).toBe('apply@99');
+    });
+
+    await test('expiry closes at the open of the first minute past the limit', async () => {
+      const events: string[] = [];
+      const candles = [minute(0, 99.5, 100.5), minute(1, 99.5, 100.5), minute(2, 97, 100.5)];
+      const result = await replayMinutes({ status: 'OPEN', currentSl: 98 }, candles, 15 * MINUTE_MS, steps(events, {
+        expiresAt: T0 + 2 * MINUTE_MS,
+      }));
+      expect(events.join(',')).toBe('expire@100');
+      expect(result.processedUntil).toBe(T0 + 2 * MINUTE_MS);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for the Trailing Stop Engine
+ *
+ * Run with: npx tsx tests/trailingStop.test.ts
+ *
+ * Validates (offline):
+ * 1. Profile → trailing mode selection (incl. TRAILING_MODES env override)
+ * 2. ATR / chandelier / swing trail: activation, ratchet, no loosening
+ * 3. Status check of trailing runners (reached TPs skipped, trailed stop can be hit)
+ * 4. PnL of exits at a trailed stop (calculateTradeOutcome)
+ */
+
+import {
+  calculateTrailingStop,
+  findLastSwing,
+  getTrailingConfig,
+  getTrailingMode,
+  isTrackedStatus,
+  resolveStopExitStatus,
+  tightenStop,
+} from '../src/utils/trailingStop.js';
+import { calculateTradeOutcome } from '../src/utils/tradeOutcomes.js';
+import { riskCalculator } from '../src/utils/riskCalculator.js';
+import type { Candle } from '../src/utils/exchanges/types.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// MOCK DATA GENERATORS
+// ============================================================================
+
+const HOUR = 60 * 60_000;
+
+// Candles with a constant 2-point range around each close (TR = 2 → ATR = 2 while steps ≤ 1)
+function createCandles(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({
+    openTime: i * HOUR,
+    open: close.toString(),
+    high: (close + 1).toString(),
+    low: (close - 1).toString(),
+    close: close.toString(),
+    volume: '1',
+    closeTime: (i + 1) * HOUR - 1,
+  }));
+}
+
+// Rising closes ending at `last` (step 0.5)
+function rampTo(last: number, count: number = 30): number[] {
+  return Array.from({ length: count }, (_, i) => last - (count - 1 - i) * 0.5);
+}
+
+// LONG @100, SL 98 (1R = 2), TP1 102, TP2 104, TP3 106, default 50/30/20
+const LONG_TRADE = {
+  direction: 'LONG' as const,
+  entryPrice: '100',
+  slPrice: '98',
+  tp1Price: '102',
+  tp2Price: '104',
+  tp3Price: '106',
+  trailingMode: 'atr',
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Mode selection', async () => {
+    await test('profile defaults and env override', () => {
+      expect(getTrailingMode('BALANCED', '')).toBe('atr');
+      expect(getTrailingMode('SCALP_15M', '')).toBe('none');
+      expect(getTrailingMode(null, '')).toBe('none');
+      expect(getTrailingMode('BALANCED', 'BALANCED:swing,SCALP:bogus')).toBe('swing');
+      expect(getTrailingMode('SCALP', 'BALANCED:swing,SCALP:bogus')).toBe('none');
+    });
+
+    await test('runners after TP1/TP2 stay tracked only with a trailing mode', () => {
+      expect(isTrackedStatus('OPEN', null)).toBe(true);
+      expect(isTrackedStatus('TP1_HIT', null)).toBe(false);
+      expect(isTrackedStatus('TP1_HIT', 'tp_step')).toBe(true);
+      expect(isTrackedStatus('TP2_HIT', 'atr')).toBe(true);
+      expect(isTrackedStatus('BE_HIT', 'atr')).toBe(false);
+    });
+  });
+
+  await describe('Trail calculation', async () => {
+    const base = { direction: 'LONG' as const, entryPrice: 100, initialSl: 98, currentSl: 98, trailingActivated: false };
+
+    await test('ATR trail: close − 2×ATR once 1R in profit', () => {
+      const update = calculateTrailingStop(getTrailingConfig('atr'), { ...base, candles: createCandles(rampTo(104)) });
+      expect(update!.newSl).toBeCloseTo(100, 4);
+      expect(update!.lockedR).toBeCloseTo(0, 4);
+      expect(update!.reason).toBe('atr');
+    });
+
+    await test('ATR trail waits for activation and never loosens', () => {
+      const notActive = calculateTrailingStop(getTrailingConfig('atr'), { ...base, candles: createCandles(rampTo(101)) });
+      expect(notActive).toBe(null);
+
+      const pullback = calculateTrailingStop(getTrailingConfig('atr'), {
+        ...base,
+        currentSl: 100,
+        trailingActivated: true,
+        candles: createCandles(rampTo(103)),
+      });
+      expect(pullback).toBe(null);
+    });
+
+    await test('chandelier: highest high − 3×ATR', () => {
+      const update = calculateTrailingStop(getTrailingConfig('chandelier'), { ...base, candles: createCandles(rampTo(104)) });
+      expect(update!.newSl).toBeCloseTo(99, 4);
+      expect(update!.lockedR).toBeCloseTo(-0.5, 4);
+    });
+
+    await test('swing: last confirmed pivot low', () => {
+      const lows = [5, 4, 3, 4, 5, 6.5, 5.5, 6, 7, 2];
+      const candles = lows.map((low, i) => ({
+        openTime: i * HOUR, open: `${low + 1}`, high: `${low + 2}`, low: `${low}`, close: `${low + 1}`, volume: '1', closeTime: (i + 1) * HOUR - 1,
+      }));
+      expect(findLastSwing(candles, 'LONG', 2)).toBe(3);
+      expect(findLastSwing(candles, 'SHORT', 2)).toBe(8.5);
+    });
+
+    await test('SHORT trail mirrors LONG', () => {
+      const closes = rampTo(104).map(close => 200 - close); // falling to 96
+      const update = calculateTrailingStop(getTrailingConfig('atr'), {
+        direction: 'SHORT', entryPrice: 100, initialSl: 102, currentSl: 102, trailingActivated: false, candles: createCandles(closes),
+      });
+      expect(update!.newSl).toBeCloseTo(100, 4);
+      expect(tightenStop('SHORT', 101, 100.5)).toBe(100.5);
+      expect(tightenStop('LONG', 101, 100.5)).toBe(101);
+    });
+  });
+
+  await describe('Trailing runner status check', async () => {
+    await test('trailed stop above TP1 is hit after TP1 (TP1 not re-counted)', () => {
+      const candle = createCandles([102.9])[0]; // high 103.9, low 101.9
+      const runner = riskCalculator.checkSignalStatusWithCandles([candle], 101.9, 100, 102.5, 102, 104, 106, 'LONG', 'TP1_HIT');
+      expect(runner.newStatus).toBe('SL_HIT');
+      const open = riskCalculator.checkSignalStatusWithCandles([candle], 101.9, 100, 98, 102, 104, 106, 'LONG', 'OPEN');
+      expect(open.newStatus).toBe('TP1_HIT');
+    });
+
+    await test('stop exit status by stop location', () => {
+      expect(resolveStopExitStatus('LONG', 100, 98)).toBe('SL_HIT');
+      expect(resolveStopExitStatus('LONG', 100, 100)).toBe('BE_HIT');
+      expect(resolveStopExitStatus('LONG', 100, 102.5)).toBe('BE_HIT');
+      expect(resolveStopExitStatus('SHORT', 100, 99)).toBe('BE_HIT');
+    });
+  });
+
+  await describe('PnL at trailed stop', async () => {
+    await test('TP1 then trailed stop at +1.5R: 0.5×1R + 0.5×1.5R', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'BE_HIT', currentSl: '103', partialClosed: 50 });
+      expect(outcome.pnlR).toBeCloseTo(1.25, 4);
+      expect(outcome.isTrailedStop).toBe(true);
+    });
+
+    await test('TP2 then trailed stop at +2.5R: 0.5×1R + 0.3×2R + 0.2×2.5R', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'BE_HIT', currentSl: '105', partialClosed: 80 });
+      expect(outcome.pnlR).toBeCloseTo(1.6, 4);
+    });
+
+    await test('trailed stop before TP1 below entry: partial loss', () => {
+      const outcome = calculateTradeOutcome({ ...LONG_TRADE, status: 'SL_HIT', currentSl: '99.2', partialClosed: 0 });
+      expect(outcome.pnlR).toBeCloseTo(-0.4, 4);
+      expect(outcome.isTrailedStop).toBe(true);
+    });
+
+    await test('fixed levels unchanged: initial SL = -1R, BE after TP1 = p1×TP1', () => {
+      const sl = calculateTradeOutcome({ ...LONG_TRADE, status: 'SL_HIT', currentSl: '98', partialClosed: 0 });
+      expect(sl.pnlR).toBe(-1);
+      expect(sl.isTrailedStop).toBe(false);
+      const be = calculateTradeOutcome({ ...LONG_TRADE, status: 'BE_HIT', currentSl: '100', partialClosed: 50 });
+      expect(be.pnlR).toBeCloseTo(0.5, 4);
+      expect(be.isTrailedStop).toBe(false);
+    });
+
+    await test('no trailing mode: ladder stop at TP1 after TP2 stays a legacy BE_HIT', () => {
+      for (const trailingMode of [null, 'none']) {
+        const outcome = calculateTradeOutcome({ ...LONG_TRADE, trailingMode, status: 'BE_HIT', currentSl: '102', partialClosed: 80 });
+        expect(outcome.isTrailedStop).toBe(false);
+        expect(outcome.isBreakeven).toBe(true);
+        expect(outcome.pnlR).toBeCloseTo(1.1, 4); // 0.5×1R + 0.3×2R, remaining 20% at 0R
+      }
+      const sl = calculateTradeOutcome({ ...LONG_TRADE, trailingMode: null, status: 'SL_HIT', currentSl: '99.2', partialClosed: 0 });
+      expect(sl.pnlR).toBe(-1);
+      expect(sl.isTrailedStop).toBe(false);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
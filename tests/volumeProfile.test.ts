@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for volume profile and anchored VWAP zones
+ *
+ * Run with: npx tsx tests/volumeProfile.test.ts
+ *
+ * Validates (offline, synthetic candles):
+ * 1. VOLUME_PROFILE_* parsing
+ * 2. POC, value area and high / low-volume nodes
+ * 3. Anchored VWAP from the last swing high / low
+ * 4. Volume levels as zones: entry-side key level distance (atKeyZone) and TP placement at a volume level
+ */
+
+import type { Candle } from '../src/utils/binanceClient.js';
+import { calculateDynamicRiskProfile, type DynamicRiskInput } from '../src/utils/dynamicRiskCalculator.js';
+import type { Zone } from '../src/utils/indicators/standardPlan.js';
+import {
+  buildVolumeProfile,
+  buildVolumeZones,
+  distToKeyVolumeLevelAtr,
+  getVolumeProfileConfig,
+  volumeTargetZones,
+} from '../src/utils/indicators/volumeProfile.js';
+import { calculateAnchoredVWAP, findAnchoredVWAPs } from '../src/utils/indicators/vwap.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const START = Date.UTC(2024, 0, 1);
+const H1 = 60 * 60 * 1000;
+
+// 1h candles from [low, high, volume] (open = low, close = high)
+function candles(rows: Array<[number, number, number]>): Candle[] {
+  return rows.map(([low, high, volume], i) => ({
+    openTime: START + i * H1,
+    open: String(low),
+    high: String(high),
+    low: String(low),
+    close: String(high),
+    volume: String(volume),
+    closeTime: START + (i + 1) * H1 - 1,
+  }));
+}
+
+// Range 100-110: heavy trading at 104-105, a second cluster at 108-109, almost nothing at 105-108
+const profileCandles = candles([
+  [100, 110, 100],
+  [100, 104, 200],
+  ...Array.from({ length: 10 }, (): [number, number, number] => [104, 105, 100]),
+  ...Array.from({ length: 4 }, (): [number, number, number] => [108, 109, 100]),
+  [101, 102, 60],
+]);
+
+function quiet<T>(fn: () => T): T {
+  const log = console.log;
+  const warn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Config', async () => {
+    await test('Defaults and VOLUME_PROFILE_* overrides', () => {
+      const defaults = getVolumeProfileConfig({});
+      expect(JSON.stringify(defaults.windows)).toBe(JSON.stringify({ '1h': 168, '4h': 180 }));
+      expect(defaults.bins).toBe(50);
+      expect(defaults.valueAreaPercent).toBe(70);
+
+      const custom = getVolumeProfileConfig({ VOLUME_PROFILE_WINDOWS: '15m:96, 4h:60, 1d:30', VOLUME_PROFILE_BINS: '24', VOLUME_PROFILE_VALUE_AREA: '68' });
+      expect(JSON.stringify(custom.windows)).toBe(JSON.stringify({ '15m': 96, '4h': 60 }));
+      expect(custom.bins).toBe(24);
+      expect(custom.valueAreaPercent).toBe(68);
+
+      expect(getVolumeProfileConfig({ VOLUME_PROFILE_BINS: '2', VOLUME_PROFILE_VALUE_AREA: '100' }).bins).toBe(50);
+    });
+  });
+
+  await describe('Volume profile', async () => {
+    const profile = buildVolumeProfile(profileCandles, 10, 70)!;
+
+    await test('POC is the heaviest bin', () => {
+      expect(profile.poc.low).toBe(104);
+      expect(profile.poc.high).toBe(105);
+    });
+
+    await test('Value area grows from the POC until 70% of the volume', () => {
+      const total = profile.bins.reduce((sum, v) => sum + v, 0);
+      const inside = profile.bins.slice(profile.val - 100, profile.vah - 100).reduce((sum, v) => sum + v, 0);
+      // POC 104 → 103 → 102 → 101 (соседний бин с бóльшим объёмом первым)
+      expect(profile.val).toBe(101);
+      expect(profile.vah).toBe(105);
+      expect(inside / total >= 0.7).toBe(true);
+    });
+
+    await test('High- and low-volume nodes', () => {
+      expect(profile.hvns.map(n => n.low).join(',')).toBe('108');
+      expect(profile.lvns.map(n => n.low).sort().join(',')).toBe('105,106,107');
+    });
+
+    await test('Flat / empty windows have no profile', () => {
+      expect(buildVolumeProfile([], 10)).toBe(null);
+      expect(buildVolumeProfile(candles([[100, 100, 10]]), 10)).toBe(null);
+    });
+  });
+
+  await describe('Anchored VWAP', async () => {
+    // Подъём к свингу на 12-й свече, затем откат и свинг-лоу на 24-й
+    const rows: Array<[number, number, number]> = [];
+    for (let i = 0; i < 36; i++) {
+      const mid = i <= 12 ? 100 + i : i <= 24 ? 124 - i : 76 + i;
+      rows.push([mid - 1, mid + 1, 10 + i]);
+    }
+    const series = candles(rows);
+
+    await test('Anchors on the last confirmed swing high and low', () => {
+      const avwaps = findAnchoredVWAPs(series, 5);
+      const high = avwaps.find(a => a.anchor === 'swing_high')!;
+      const low = avwaps.find(a => a.anchor === 'swing_low')!;
+      expect(high.anchorTime).toBe(START + 12 * H1);
+      expect(low.anchorTime).toBe(START + 24 * H1);
+      expect(high.value).toBeCloseTo(calculateAnchoredVWAP(series, 12), 6);
+      expect(low.value).toBeCloseTo(calculateAnchoredVWAP(series, 24), 6);
+    });
+
+    await test('Swings without pivotLength candles on the right are not anchors', () => {
+      expect(findAnchoredVWAPs(series.slice(0, 15), 5).length).toBe(0);
+    });
+  });
+
+  await describe('Volume levels as zones', async () => {
+    const zones = buildVolumeZones({ '1h': profileCandles }, 106.5, { windows: { '1h': 168 }, bins: 10, valueAreaPercent: 70 });
+
+    await test('Levels carry their kind and side of price', () => {
+      const poc = zones.find(z => z.kind === 'poc')!;
+      const hvn = zones.find(z => z.kind === 'hvn')!;
+      expect(poc.type).toBe('support');
+      expect(hvn.type).toBe('resistance');
+      expect(zones.every(z => z.tf === '1h')).toBe(true);
+      expect(volumeTargetZones(zones).some(z => z.kind === 'lvn')).toBe(false);
+    });
+
+    await test('Entry-side key level distance (LVNs ignored)', () => {
+      // LONG от 106.5: ближайший ключевой уровень снизу - POC / VAH (верх 105) → 1.5 / ATR 3 = 0.5
+      expect(distToKeyVolumeLevelAtr('LONG', 106.5, zones, 3)).toBeCloseTo(0.5, 6);
+      // SHORT: HVN 108-109 сверху → 1.5 / 3
+      expect(distToKeyVolumeLevelAtr('SHORT', 106.5, zones, 3)).toBeCloseTo(0.5, 6);
+      expect(distToKeyVolumeLevelAtr('LONG', 106.5, zones.filter(z => z.kind === 'lvn'), 3)).toBe(999);
+    });
+
+    await test('TP1 stops at a volume level in front of the fixed 1R target', () => {
+      const flat = candles(Array.from({ length: 40 }, (): [number, number, number] => [99.5, 100.5, 100]));
+      const input: DynamicRiskInput = {
+        direction: 'LONG',
+        entryPrice: 100,
+        patternExtreme: 99.5,
+        zones: [{ type: 'support', low: 95, high: 96, tf: '15m', touches: 3, strength: 'medium' }],
+        atr15m: 1,
+        atr1h: 1.5,
+        atr4h: 2,
+        zoneTestCount24h: 0,
+        candles15m: flat,
+      };
+
+      const base = quiet(() => calculateDynamicRiskProfile(input));
+      expect(base.tp1LimitedByZone).toBe(false);
+
+      const riskR = 100 - base.sl;
+      const level = (100 + 0.75 * riskR) / 0.95; // adjustZoneForTP: LONG TP 5% below the level
+      const hvn: Zone = { type: 'resistance', low: level, high: level + 0.5, tf: '1h', kind: 'hvn' };
+      const withTarget = quiet(() => calculateDynamicRiskProfile({ ...input, targetZones: [hvn] }));
+
+      expect(withTarget.tp1LimitedByZone).toBe(true);
+      expect(withTarget.tp1!).toBeCloseTo(100 + 0.75 * riskR, 6);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
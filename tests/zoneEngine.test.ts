@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for the zone engine (S/R zone sources, multi-TF merge and ranking)
+ *
+ * Run with: npx tsx tests/zoneEngine.test.ts
+ *
+ * Validates (offline, candles from tests/fixtures/golden):
+ * 1. ZONE_SOURCE parsing
+ * 2. Shared strength metric and cross-TF merge / ranking
+ * 3. Snapshots per source: tv = legacy nearest sup/res × 3 TF, channels ⊇ tv, swing = clustered swings
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { analyzeSRZones, analyzeSRZonesTV } from '../src/utils/candleAnalyzer.js';
+import { fromKlineRows, type GoldenCase } from '../src/utils/goldenFixtures.js';
+import type { Zone } from '../src/utils/indicators/standardPlan.js';
+import { getZoneSource, rankZones, zoneStrength } from '../src/utils/indicators/zoneEngine.js';
+import { buildZoneSnapshot } from '../src/utils/indicators/zoneSnapshot.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const fixtureFile = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'golden', 'uptrend-pinbar-15m.json');
+const fixture: GoldenCase = JSON.parse(fs.readFileSync(fixtureFile, 'utf-8'));
+const candles15m = fromKlineRows(fixture.candles['15m']);
+const candles1h = fromKlineRows(fixture.candles['1h']);
+const candles4h = fromKlineRows(fixture.candles['4h']);
+
+function zone(type: Zone['type'], low: number, high: number, tf: Zone['tf'], touches: number = 5, strength: string = 'medium'): Zone {
+  return { type, low, high, tf, touches, strength };
+}
+
+const key = (z: Zone) => `${z.tf}:${z.type}:${z.low}:${z.high}`;
+
+function snapshotQuiet(...args: Parameters<typeof buildZoneSnapshot>) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return buildZoneSnapshot(...args);
+  } finally {
+    console.log = log;
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Configuration', async () => {
+    await test('ZONE_SOURCE selects the source, unknown / missing → tv', () => {
+      expect(getZoneSource({ ZONE_SOURCE: 'swing' })).toBe('swing');
+      expect(getZoneSource({ ZONE_SOURCE: 'channels' })).toBe('channels');
+      expect(getZoneSource({ ZONE_SOURCE: 'fibonacci' })).toBe('tv');
+      expect(getZoneSource({})).toBe('tv');
+    });
+  });
+
+  await describe('Strength metric and ranking', async () => {
+    await test('Higher timeframe, label and touches rank higher', () => {
+      expect(zoneStrength(zone('support', 1, 2, '4h')) > zoneStrength(zone('support', 1, 2, '1h'))).toBe(true);
+      expect(zoneStrength(zone('support', 1, 2, '15m', 5, 'strong')) > zoneStrength(zone('support', 1, 2, '15m', 5, 'weak'))).toBe(true);
+      expect(zoneStrength(zone('support', 1, 2, '15m', 40)) === zoneStrength(zone('support', 1, 2, '15m', 20))).toBe(true);
+    });
+
+    await test('Overlapping same-type zones merge across TFs, others stay apart', () => {
+      const ranked = rankZones([
+        zone('support', 95, 97, '15m'),
+        zone('support', 96, 98, '4h'),
+        zone('resistance', 96.5, 97.5, '1h'), // Other type: never merged with supports
+        zone('support', 90, 91, '1h'),
+      ]);
+
+      expect(ranked.length).toBe(3);
+      const merged = ranked[0];
+      expect(merged.tfs.join('+')).toBe('15m+4h');
+      expect(merged.tf).toBe('4h');           // Bounds of the strongest member
+      expect(merged.low).toBe(96);
+      expect(merged.score).toBe(zoneStrength(zone('support', 96, 98, '4h')) + 0.5 * zoneStrength(zone('support', 95, 97, '15m')));
+      expect(ranked.map(z => z.tfs.join('+')).join(',')).toBe('15m+4h,1h,1h');
+    });
+  });
+
+  await describe('Sources', async () => {
+    await test('tv: nearest support / resistance of each TF in the legacy order', () => {
+      const snapshot = snapshotQuiet(candles15m, candles1h, candles4h, 'tv');
+      const expected = [[candles15m, '15m'], [candles1h, '1h'], [candles4h, '4h']].flatMap(([candles, tf]) => {
+        const sr = analyzeSRZonesTV(candles as any);
+        return [sr.nearestSupport, sr.nearestResistance]
+          .filter(z => z !== null)
+          .map(z => `${tf}:${z!.type}:${z!.lower}:${z!.upper}`);
+      });
+
+      expect(snapshot.source).toBe('tv');
+      expect(snapshot.zones.length > 0).toBe(true);
+      expect(snapshot.zones.map(key).join(',')).toBe(expected.join(','));
+    });
+
+    await test('channels: every channel beyond price, nearest zone of each TF/type first', () => {
+      const tv = snapshotQuiet(candles15m, candles1h, candles4h, 'tv');
+      const channels = snapshotQuiet(candles15m, candles1h, candles4h, 'channels');
+
+      expect(channels.zones.length >= tv.zones.length).toBe(true);
+      for (const nearest of tv.zones) {
+        const first = channels.zones.find(z => z.tf === nearest.tf && z.type === nearest.type)!;
+        expect(key(first)).toBe(key(nearest));
+      }
+      const price = Number(candles4h[candles4h.length - 1].close);
+      expect(channels.zones.filter(z => z.tf === '4h').every(z => z.type === 'support' ? z.high < price : z.low > price)).toBe(true);
+    });
+
+    await test('swing: clustered swing zones, ranked set covers every zone', () => {
+      const swing = snapshotQuiet(candles15m, candles1h, candles4h, 'swing');
+      const sr1h = analyzeSRZones(candles1h);
+      const h1Support = swing.zones.find(z => z.tf === '1h' && z.type === 'support');
+
+      expect(swing.source).toBe('swing');
+      expect(h1Support ? h1Support.low : null).toBe(sr1h.nearestSupport ? sr1h.nearestSupport.lower : null);
+      expect(swing.ranked.reduce((sum, z) => sum + z.tfs.length, 0) <= swing.zones.length).toBe(true);
+      expect(swing.ranked.every((z, i) => i === 0 || swing.ranked[i - 1].score >= z.score)).toBe(true);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
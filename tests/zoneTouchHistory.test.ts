@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for zone identities and zone tests (persistent zone touch history)
+ *
+ * Run with: npx tsx tests/zoneTouchHistory.test.ts
+ *
+ * Validates (offline, no DB):
+ * 1. Fuzzy zone matching survives small boundary changes, rejects shifted / other zones
+ * 2. Zone tests replayed from 15m candles: one test per visit, ATR tolerance, count windows
+ * 3. Active zone selection (15m support for LONG, 15m resistance for SHORT)
+ */
+
+import type { Candle } from '../src/utils/binanceClient.js';
+import type { Zone } from '../src/utils/indicators/standardPlan.js';
+import {
+  countZoneTests,
+  findActiveZone,
+  findZoneTouches,
+  matchZone,
+  zoneOverlapRatio,
+} from '../src/utils/indicators/zoneIdentity.js';
+import { describe, expect, finish, run, test } from './harness.js';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const START = Date.UTC(2024, 0, 1);
+const M15 = 15 * 60 * 1000;
+
+// 15m candles from [low, high] ranges (open/close inside the range)
+function candles(ranges: Array<[number, number]>): Candle[] {
+  return ranges.map(([low, high], i) => ({
+    openTime: START + i * M15,
+    open: String(low),
+    high: String(high),
+    low: String(low),
+    close: String(high),
+    volume: '100',
+    closeTime: START + (i + 1) * M15 - 1,
+  }));
+}
+
+function zone(type: Zone['type'], low: number, high: number, tf: Zone['tf']): Zone {
+  return { type, low, high, tf };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+async function runTests() {
+  const startTime = Date.now();
+
+  await describe('Fuzzy zone identity', async () => {
+    await test('Overlap ratio is intersection / union', () => {
+      expect(zoneOverlapRatio({ low: 100, high: 102 }, { low: 100, high: 102 })).toBe(1);
+      expect(zoneOverlapRatio({ low: 100, high: 102 }, { low: 101, high: 103 })).toBe(1 / 3);
+      expect(zoneOverlapRatio({ low: 100, high: 101 }, { low: 102, high: 103 })).toBe(0);
+      expect(zoneOverlapRatio({ low: 100, high: 100 }, { low: 100, high: 100 })).toBe(1);
+    });
+
+    await test('Small boundary changes keep the stored zone, shifted zones do not', () => {
+      const stored = [
+        { id: 1, low: 100, high: 102 },
+        { id: 2, low: 110, high: 112 },
+      ];
+      expect(matchZone({ low: 100.1, high: 102.05 }, stored)?.id).toBe(1);
+      expect(matchZone({ low: 109.8, high: 111.9 }, stored)?.id).toBe(2);
+      expect(matchZone({ low: 101.5, high: 103.5 }, stored)).toBe(null);
+      expect(matchZone({ low: 105, high: 106 }, stored)).toBe(null);
+    });
+
+    await test('The best overlapping candidate wins', () => {
+      const stored = [
+        { id: 1, low: 100, high: 104 },
+        { id: 2, low: 101, high: 104 },
+      ];
+      expect(matchZone({ low: 101, high: 104.1 }, stored)?.id).toBe(2);
+    });
+  });
+
+  await describe('Zone tests from 15m candles', async () => {
+    const supportZone = { low: 100, high: 101 };
+
+    await test('Consecutive candles inside the zone are one test', () => {
+      const series = candles([[103, 105], [100.5, 103], [100.2, 101.5], [102, 104], [100.8, 102], [103, 104]]);
+      expect(findZoneTouches(series, supportZone, 0).join(',')).toBe(`${START + M15},${START + 4 * M15}`);
+    });
+
+    await test('ATR tolerance extends the zone', () => {
+      const series = candles([[103, 105], [101.05, 102], [103, 104]]);
+      expect(findZoneTouches(series, supportZone, 0).length).toBe(0);
+      expect(findZoneTouches(series, supportZone, 0.1).length).toBe(1);
+    });
+
+    await test('Counts only tests started inside the window', () => {
+      const series = candles([[100.5, 102], [103, 104], [100.5, 102], [103, 104], [100.5, 102]]);
+      expect(countZoneTests(series, supportZone, 0, START)).toBe(3);
+      expect(countZoneTests(series, supportZone, 0, START + 2 * M15)).toBe(2);
+      expect(countZoneTests(series, supportZone, 0, START + 5 * M15)).toBe(0);
+    });
+  });
+
+  await describe('Active zone', async () => {
+    await test('LONG uses the nearest 15m support, SHORT the nearest 15m resistance', () => {
+      const zones = [
+        zone('support', 95, 96, '15m'),
+        zone('support', 90, 91, '15m'),
+        zone('resistance', 105, 106, '15m'),
+        zone('support', 97, 98, '1h'),
+      ];
+      expect(findActiveZone('LONG', zones)?.low).toBe(95);
+      expect(findActiveZone('SHORT', zones)?.low).toBe(105);
+      expect(findActiveZone('SHORT', zones.filter(z => z.type === 'support'))).toBe(null);
+    });
+  });
+
+  finish(startTime);
+}
+
+run(runTests);
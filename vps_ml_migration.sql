@@ -1,5 +1,7 @@
 -- Complete ML Infrastructure Migration for VPS
 -- Run this on VPS to create all ML tables and enums
+-- Idempotent: re-run it (psql "$DATABASE_URL" -f vps_ml_migration.sql) after every pull that changes
+-- src/mastra/storage/schema.ts, BEFORE pm2 restart. Every schema change adds its statements to STEP 2b.
 
 -- ========================================
 -- STEP 1: Create ENUMs
@@ -164,10 +166,199 @@ CREATE TABLE IF NOT EXISTS parquet_exports (
     created_at TIMESTAMP DEFAULT NOW() NOT NULL
 );
 
+-- ========================================
+-- STEP 2b: Schema changes since the initial setup (idempotent, in feature order)
+-- ========================================
+
+-- Kline store (klines): incremental candle sync
+CREATE TABLE IF NOT EXISTS klines (
+    id SERIAL PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    interval TEXT NOT NULL,
+    open_time BIGINT NOT NULL,
+    open TEXT NOT NULL,
+    high TEXT NOT NULL,
+    low TEXT NOT NULL,
+    close TEXT NOT NULL,
+    volume TEXT NOT NULL,
+    close_time BIGINT NOT NULL
+);
+-- Unique (symbol, interval, open_time) index superseded by the per-venue index below (re-runs must not recreate it)
+
+-- Exchange venue (signals, klines)
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS venue TEXT NOT NULL DEFAULT 'binance';
+ALTER TABLE klines ADD COLUMN IF NOT EXISTS venue TEXT NOT NULL DEFAULT 'binance';
+
+DROP INDEX IF EXISTS klines_symbol_interval_open_time_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS klines_venue_symbol_interval_open_time_idx ON klines (venue, symbol, interval, open_time);
+
+-- Parquet exports: schema version and file size
+ALTER TABLE parquet_exports ADD COLUMN IF NOT EXISTS schema_version INTEGER;
+ALTER TABLE parquet_exports ADD COLUMN IF NOT EXISTS file_size_bytes INTEGER;
+
+-- Shadow replay: TP3 outcome, candidate plan, replay progress
+ALTER TYPE shadow_outcome ADD VALUE IF NOT EXISTS 'tp3' BEFORE 'sl';
+
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS candidate_plan_source TEXT;
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS candidate_sl DECIMAL(18, 8);
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS candidate_tp1 DECIMAL(18, 8);
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS candidate_tp2 DECIMAL(18, 8);
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS candidate_tp3 DECIMAL(18, 8);
+
+ALTER TABLE shadow_evaluations ADD COLUMN IF NOT EXISTS shadow_pnl_r DECIMAL(10, 4);
+ALTER TABLE shadow_evaluations ADD COLUMN IF NOT EXISTS replayed_until TIMESTAMP;
+
+-- Trailing stops (signals.trailing_mode, signal_sl_moves)
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS trailing_mode TEXT;
+
+CREATE TABLE IF NOT EXISTS signal_sl_moves (
+    id SERIAL PRIMARY KEY,
+    signal_id INTEGER NOT NULL,
+    previous_sl DECIMAL(18, 8) NOT NULL,
+    new_sl DECIMAL(18, 8) NOT NULL,
+    reason TEXT NOT NULL,
+    locked_r DECIMAL(10, 4),
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Max holding time (signal_status TIMEOUT)
+ALTER TYPE signal_status ADD VALUE IF NOT EXISTS 'TIMEOUT';
+
+-- Tracker catch-up progress
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS last_processed_minute BIGINT;
+
+-- Paper trading account (paper_positions, paper_ledger)
+CREATE TABLE IF NOT EXISTS paper_positions (
+    id SERIAL PRIMARY KEY,
+    signal_id INTEGER NOT NULL,
+    symbol TEXT NOT NULL,
+    direction signal_direction NOT NULL,
+    entry_price DECIMAL(18, 8) NOT NULL,
+    sl_price DECIMAL(18, 8) NOT NULL,
+    quantity DECIMAL(28, 10) NOT NULL,
+    remaining_quantity DECIMAL(28, 10) NOT NULL,
+    closed_percent DECIMAL(5, 2) NOT NULL DEFAULT 0.00,
+    risk_amount DECIMAL(18, 2) NOT NULL,
+    realized_pnl DECIMAL(18, 2) NOT NULL DEFAULT 0.00,
+    fees DECIMAL(18, 2) NOT NULL DEFAULT 0.00,
+    status TEXT NOT NULL DEFAULT 'OPEN',
+    opened_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    closed_at TIMESTAMP,
+    CONSTRAINT paper_positions_signal_id_unique UNIQUE (signal_id)
+);
+
+CREATE TABLE IF NOT EXISTS paper_ledger (
+    id SERIAL PRIMARY KEY,
+    signal_id INTEGER,
+    entry_type TEXT NOT NULL,
+    reason TEXT,
+    price DECIMAL(18, 8),
+    quantity DECIMAL(28, 10),
+    notional DECIMAL(18, 2),
+    fee DECIMAL(18, 2) NOT NULL DEFAULT 0.00,
+    realized_pnl DECIMAL(18, 2) NOT NULL DEFAULT 0.00,
+    balance DECIMAL(18, 2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Position sizing
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS position_qty DECIMAL(28, 10);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS position_notional DECIMAL(18, 2);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS required_margin DECIMAL(18, 2);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS leverage DECIMAL(6, 2);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS liquidation_price DECIMAL(18, 8);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS sizing_status TEXT;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS sizing_note TEXT;
+
+-- Portfolio risk limits (skip_category portfolio)
+ALTER TYPE skip_category ADD VALUE IF NOT EXISTS 'portfolio';
+
+-- Net PnL after fees, slippage and funding
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS net_pnl_r DECIMAL(10, 4);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS net_pnl_percent DECIMAL(10, 4);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS fees_r DECIMAL(10, 4);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS slippage_r DECIMAL(10, 4);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS funding_r DECIMAL(10, 4);
+
+-- Same-candle SL/TP ambiguity policy
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS ambiguity_policy TEXT;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS ambiguity_events INTEGER DEFAULT 0;
+
+-- Confirmation entry (pending_signals, skip_category confirmation)
+ALTER TYPE skip_category ADD VALUE IF NOT EXISTS 'confirmation';
+
+CREATE TABLE IF NOT EXISTS pending_signals (
+    id SERIAL PRIMARY KEY,
+    venue TEXT NOT NULL DEFAULT 'binance',
+    symbol TEXT NOT NULL,
+    timeframe TEXT NOT NULL,
+    pattern_type TEXT NOT NULL,
+    direction signal_direction NOT NULL,
+    confirm_type confirm_type NOT NULL,
+    rejected_by_trend BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'PENDING_CONFIRMATION',
+    pattern_close DECIMAL(18, 8) NOT NULL,
+    pattern_high DECIMAL(18, 8) NOT NULL,
+    pattern_low DECIMAL(18, 8) NOT NULL,
+    sl_price DECIMAL(18, 8) NOT NULL,
+    tp1_price DECIMAL(18, 8) NOT NULL,
+    pattern_close_time BIGINT NOT NULL,
+    expires_at BIGINT NOT NULL,
+    planned_signal JSONB NOT NULL,
+    skip_context JSONB NOT NULL,
+    telegram_message_id INTEGER,
+    signal_id INTEGER,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    resolved_at TIMESTAMP
+);
+ALTER TABLE pending_signals ADD COLUMN IF NOT EXISTS rejected_by_trend BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS confirm_type confirm_type;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS confirm_wait_bars_15m INTEGER;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS pattern_close_price DECIMAL(18, 8);
+
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS rejected_by_trend BOOLEAN;
+
+-- Limit entries (entry_mode, skip_category entry)
+ALTER TYPE skip_category ADD VALUE IF NOT EXISTS 'entry';
+
+ALTER TABLE pending_signals ADD COLUMN IF NOT EXISTS entry_mode TEXT;
+ALTER TABLE pending_signals ADD COLUMN IF NOT EXISTS limit_price DECIMAL(18, 8);
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS entry_mode TEXT;
+
+-- Zone test history (tracked_zones, zone_touches)
+CREATE TABLE IF NOT EXISTS tracked_zones (
+    id SERIAL PRIMARY KEY,
+    venue TEXT NOT NULL DEFAULT 'binance',
+    symbol TEXT NOT NULL,
+    tf TEXT NOT NULL,
+    type TEXT NOT NULL,
+    low DECIMAL(18, 8) NOT NULL,
+    high DECIMAL(18, 8) NOT NULL,
+    touches_synced_to BIGINT,
+    first_seen_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    last_seen_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS zone_touches (
+    id SERIAL PRIMARY KEY,
+    zone_id INTEGER NOT NULL,
+    symbol TEXT NOT NULL,
+    touched_at BIGINT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS zone_touches_zone_id_touched_at_idx ON zone_touches (zone_id, touched_at);
+
+-- Order blocks / FVG on near-miss skips
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS ob_fvg_kind TEXT;
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS ob_fvg_tf TEXT;
+ALTER TABLE near_miss_skips ADD COLUMN IF NOT EXISTS ob_fvg_zones JSONB;
+
 -- ========================================
 -- STEP 3: Verification
 -- ========================================
 SELECT 'ML infrastructure created successfully!' as status;
 SELECT 'Tables created:' as info, count(*) as table_count 
 FROM information_schema.tables 
-WHERE table_name IN ('near_miss_skips', 'shadow_evaluations', 'tracking_1m_shadow', 'parquet_exports');
+WHERE table_name IN ('near_miss_skips', 'shadow_evaluations', 'tracking_1m_shadow', 'parquet_exports', 'klines', 'signal_sl_moves', 'paper_positions', 'paper_ledger', 'pending_signals', 'tracked_zones', 'zone_touches');